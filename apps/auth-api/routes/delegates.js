@@ -0,0 +1,145 @@
+import { Router } from 'express';
+import jwt from 'jsonwebtoken';
+
+const router = Router();
+const JWT_SECRET = process.env.JWT_SECRET || 'your-secret-key';
+
+// Roles an owner can hand out. 'admin' stays with the owner.
+const DELEGATE_ROLES = ['read-only', 'read-write'];
+const PUBKEY_PATTERN = /^[0-9a-f]{64}$/;
+
+// JWT auth for owner-facing endpoints
+function requireJWT(req, res, next) {
+  const authHeader = req.headers.authorization;
+  if (!authHeader || !authHeader.startsWith('Bearer ')) {
+    return res.status(401).json({ error: 'JWT required' });
+  }
+
+  try {
+    const token = authHeader.split(' ')[1];
+    const decoded = jwt.verify(token, JWT_SECRET);
+    req.user = decoded;
+    next();
+  } catch (err) {
+    return res.status(401).json({ error: 'Invalid or expired token' });
+  }
+}
+
+// Only the binder's owner manages its delegates
+async function requireRepoOwner(req, res, next) {
+  try {
+    const db = req.app.get('db');
+    const [rows] = await db.execute(
+      'SELECT owner_user_id FROM repositories WHERE id = ?',
+      [req.params.repoId]
+    );
+
+    if (rows.length === 0) {
+      return res.status(404).json({ error: 'Repository not found' });
+    }
+    if (rows[0].owner_user_id !== req.user.userId) {
+      return res.status(403).json({ error: 'Only the binder owner can manage access' });
+    }
+    next();
+  } catch (err) {
+    console.error('repo owner check error:', err);
+    res.status(500).json({ error: 'Authorization check failed' });
+  }
+}
+
+/**
+ * GET /api/auth/repos/:repoId/delegates
+ * Caregivers and family members the owner has granted access to.
+ */
+router.get('/api/auth/repos/:repoId/delegates', requireJWT, requireRepoOwner, async (req, res) => {
+  try {
+    const db = req.app.get('db');
+    const [rows] = await db.execute(
+      `SELECT u.nostr_pubkey AS pubkey, u.first_name AS "firstName", u.last_name AS "lastName",
+              u.email, ra.access_level AS role, ra.created_at AS "grantedAt"
+       FROM repository_access ra
+       JOIN users u ON u.id = ra.user_id
+       WHERE ra.repo_id = ?
+         AND ra.user_id <> ?
+       ORDER BY ra.created_at ASC`,
+      [req.params.repoId, req.user.userId]
+    );
+
+    res.json({ delegates: rows });
+  } catch (err) {
+    console.error('list delegates error:', err);
+    res.status(500).json({ error: 'Failed to list delegates' });
+  }
+});
+
+/**
+ * POST /api/auth/repos/:repoId/delegates
+ * Grant (or change) a delegate's role, identified by their Nostr pubkey.
+ * Body: { pubkey, role: 'read-only' | 'read-write' }
+ */
+router.post('/api/auth/repos/:repoId/delegates', requireJWT, requireRepoOwner, async (req, res) => {
+  try {
+    const { pubkey, role } = req.body;
+
+    if (typeof pubkey !== 'string' || !PUBKEY_PATTERN.test(pubkey)) {
+      return res.status(400).json({ error: 'pubkey must be a 64-character hex public key' });
+    }
+    if (!DELEGATE_ROLES.includes(role)) {
+      return res.status(400).json({ error: `role must be one of: ${DELEGATE_ROLES.join(', ')}` });
+    }
+
+    const db = req.app.get('db');
+    const [users] = await db.execute(
+      'SELECT id FROM users WHERE nostr_pubkey = ?',
+      [pubkey]
+    );
+
+    if (users.length === 0) {
+      return res.status(404).json({ error: 'No account uses that public key' });
+    }
+
+    const delegateUserId = users[0].id;
+    if (delegateUserId === req.user.userId) {
+      return res.status(400).json({ error: 'You already own this binder' });
+    }
+
+    await db.execute(
+      `INSERT INTO repository_access (repo_id, user_id, access_level)
+       VALUES (?, ?, ?)
+       ON CONFLICT (repo_id, user_id) DO UPDATE
+       SET access_level = EXCLUDED.access_level`,
+      [req.params.repoId, delegateUserId, role]
+    );
+
+    res.json({ success: true, pubkey, role });
+  } catch (err) {
+    console.error('grant delegate error:', err);
+    res.status(500).json({ error: 'Failed to grant access' });
+  }
+});
+
+/**
+ * DELETE /api/auth/repos/:repoId/delegates/:pubkey
+ * Revoke a delegate. The app re-keys the binder right after, so content
+ * pushed from then on is unreadable with anything they kept.
+ */
+router.delete('/api/auth/repos/:repoId/delegates/:pubkey', requireJWT, requireRepoOwner, async (req, res) => {
+  try {
+    const db = req.app.get('db');
+    const [result] = await db.execute(
+      `DELETE FROM repository_access
+       WHERE repo_id = ?
+         AND user_id = (SELECT id FROM users WHERE nostr_pubkey = ?)
+         AND user_id <> ?`,
+      [req.params.repoId, req.params.pubkey, req.user.userId]
+    );
+
+    // Already gone counts as revoked, so an interrupted revoke can be retried
+    res.json({ success: true, revoked: result.affectedRows > 0 });
+  } catch (err) {
+    console.error('revoke delegate error:', err);
+    res.status(500).json({ error: 'Failed to revoke access' });
+  }
+});
+
+export default router;
@@ -5,6 +5,11 @@ import { generateScanToken } from '../utils/tokenGenerator.js';
 const router = Router();
 const JWT_SECRET = process.env.JWT_SECRET || 'your-secret-key';
 
+// Session lifetime the patient may pick, in minutes
+const DEFAULT_SESSION_MINUTES = 60;
+const MIN_SESSION_MINUTES = 5;
+const MAX_SESSION_MINUTES = 7 * 24 * 60;
+
 // JWT auth for patient-facing endpoints (session create, revoke)
 function requireJWT(req, res, next) {
   const authHeader = req.headers.authorization;
@@ -34,10 +39,11 @@ function requireInternalAuth(req, res, next) {
 /**
  * POST /api/auth/scan/session
  * Patient creates a scan session. Authenticated with patient's JWT.
+ * Optional expiresInMinutes (5 min to 7 days, default 1 hour) sets the expiry.
  */
 router.post('/api/auth/scan/session', requireJWT, async (req, res) => {
   try {
-    const { stagingRepoId } = req.body;
+    const { stagingRepoId, expiresInMinutes = DEFAULT_SESSION_MINUTES } = req.body;
     console.log('/api/auth/scan/session: ', req.body);
     
     if (!stagingRepoId) {
@@ -48,9 +54,19 @@ router.post('/api/auth/scan/session', requireJWT, async (req, res) => {
       return res.status(400).json({ error: 'stagingRepoId must start with "scan-"' });
     }
 
+    if (
+      !Number.isInteger(expiresInMinutes) ||
+      expiresInMinutes < MIN_SESSION_MINUTES ||
+      expiresInMinutes > MAX_SESSION_MINUTES
+    ) {
+      return res.status(400).json({
+        error: `expiresInMinutes must be a whole number between ${MIN_SESSION_MINUTES} and ${MAX_SESSION_MINUTES}`
+      });
+    }
+
     const userId = req.user.userId;
     const sessionToken = generateScanToken();
-    const expiresAt = new Date(Date.now() + 60 * 60 * 1000); // 1 hour
+    const expiresAt = new Date(Date.now() + expiresInMinutes * 60 * 1000);
 
     const db = req.app.get('db');
 
@@ -106,7 +122,8 @@ router.post('/api/auth/scan/revoke', requireJWT, async (req, res) => {
 /**
  * POST /api/auth/scan/cleanup
  * Called by mgit-api's cleanup job. Returns staging repo IDs that are
- * expired or revoked and safe to delete from disk.
+ * expired or revoked and safe to delete from disk, plus the ones whose
+ * session is still running so they are kept until it expires.
  */
 router.post('/api/auth/scan/cleanup', requireInternalAuth, async (req, res) => {
   try {
@@ -138,7 +155,10 @@ router.post('/api/auth/scan/cleanup', requireInternalAuth, async (req, res) => {
       );
     }
 
-    res.json({ expiredRepos, revokedRepos });
+    const [active] = await db.execute(`SELECT staging_repo_id FROM scan_sessions`);
+    const activeRepos = active.map(r => r.staging_repo_id);
+
+    res.json({ expiredRepos, revokedRepos, activeRepos });
   } catch (err) {
     console.error('scan/cleanup error:', err);
     res.status(500).json({ error: 'Cleanup query failed' });
@@ -10,6 +10,7 @@ import { createPostgresCompatPool } from '../../packages/core-db/postgresCompat.
 
 import reposRouter from './routes/repos.js';
 import scanRouter from './routes/scan.js';
+import delegatesRouter from './routes/delegates.js';
 import { NostrAuthService } from './services/NostrAuthService.js';
 import { AppleAuthService } from './services/AppleAuthService.js';
 import { GoogleAuthService } from './services/GoogleAuthService.js';
@@ -611,6 +612,119 @@ app.post('/api/auth/link-nostr', async (req, res) => {
   }
 });
 
+// ========== ROTATE NOSTR KEY ==========
+// Moves the account from its current Nostr key to a new one after the app has
+// re-encrypted every binder. Both keys sign the same content
+// "rotate-nostr:<oldPubkey>:<newPubkey>:<unix seconds>": the old key authorizes
+// the move, the new key proves possession. Repeating a finished rotation is a
+// no-op that returns a fresh token, so an interrupted client can resume.
+
+const ROTATION_EVENT_MAX_AGE_SECONDS = 10 * 60;
+
+function parseRotationContent(content) {
+  const match = /^rotate-nostr:([0-9a-f]{64}):([0-9a-f]{64}):(\d+)$/.exec(content || '');
+  if (!match) return null;
+  return { oldPubkey: match[1], newPubkey: match[2], timestamp: Number(match[3]) };
+}
+
+app.post('/api/auth/rotate-nostr-key', async (req, res) => {
+  const authHeader = req.headers.authorization;
+  if (!authHeader || !authHeader.startsWith('Bearer ')) {
+    return res.status(401).json({ status: 'error', reason: 'Missing or invalid Authorization header' });
+  }
+
+  let decoded;
+  try {
+    decoded = jwt.verify(authHeader.split(' ')[1], JWT_SECRET);
+  } catch (err) {
+    return res.status(401).json({ status: 'error', reason: 'Invalid or expired token' });
+  }
+
+  const userId = decoded.userId;
+  const { oldSignedEvent, newSignedEvent } = req.body;
+
+  if (!userId) {
+    return res.status(400).json({ status: 'error', reason: 'Token does not contain userId' });
+  }
+  if (!oldSignedEvent || !newSignedEvent) {
+    return res.status(400).json({ status: 'error', reason: 'Missing oldSignedEvent or newSignedEvent' });
+  }
+
+  try {
+    const [oldResult, newResult] = await Promise.all([
+      nostrAuth.verifySignedEvent(oldSignedEvent),
+      nostrAuth.verifySignedEvent(newSignedEvent),
+    ]);
+    if (!oldResult.valid) {
+      return res.status(400).json({ status: 'error', reason: `Old key: ${oldResult.error}` });
+    }
+    if (!newResult.valid) {
+      return res.status(400).json({ status: 'error', reason: `New key: ${newResult.error}` });
+    }
+
+    const rotation = parseRotationContent(oldSignedEvent.content);
+    if (
+      !rotation ||
+      newSignedEvent.content !== oldSignedEvent.content ||
+      rotation.oldPubkey !== oldResult.pubkey ||
+      rotation.newPubkey !== newResult.pubkey ||
+      rotation.oldPubkey === rotation.newPubkey
+    ) {
+      return res.status(400).json({ status: 'error', reason: 'Rotation events do not match' });
+    }
+    if (Math.abs(Math.floor(Date.now() / 1000) - rotation.timestamp) > ROTATION_EVENT_MAX_AGE_SECONDS) {
+      return res.status(400).json({ status: 'error', reason: 'Rotation events expired' });
+    }
+
+    const [users] = await db.query('SELECT nostr_pubkey FROM users WHERE id = ?', [userId]);
+    if (users.length === 0) {
+      return res.status(404).json({ status: 'error', reason: 'User not found' });
+    }
+
+    const currentPubkey = users[0].nostr_pubkey;
+    if (currentPubkey !== rotation.oldPubkey && currentPubkey !== rotation.newPubkey) {
+      return res.status(403).json({ status: 'error', reason: 'Old key is not linked to this account' });
+    }
+
+    if (currentPubkey !== rotation.newPubkey) {
+      const [owners] = await db.query('SELECT id FROM users WHERE nostr_pubkey = ?', [rotation.newPubkey]);
+      if (owners.length > 0) {
+        return res.status(409).json({ status: 'error', reason: 'New key already belongs to another account' });
+      }
+      await db.query('UPDATE users SET nostr_pubkey = ? WHERE id = ?', [rotation.newPubkey, userId]);
+    }
+
+    const oauthProvider = decoded.oauthProvider || null;
+    const token = oauthProvider
+      ? jwt.sign(
+          buildOAuthJwtPayload({
+            userId,
+            pubkey: rotation.newPubkey,
+            provider: oauthProvider,
+            providerUserId: decoded.oauthProviderUserId,
+            email: decoded.email,
+            role: decoded.role,
+          }),
+          JWT_SECRET
+        )
+      : jwt.sign({
+          userId,
+          pubkey: rotation.newPubkey,
+          role: decoded.role,
+          authMethod: 'nostr',
+          iat: Math.floor(Date.now() / 1000),
+          exp: Math.floor(Date.now() / 1000) + (60 * 60 * 24 * 7)
+        }, JWT_SECRET);
+
+    console.log(`Nostr key rotated for user ${userId}: ${rotation.oldPubkey} -> ${rotation.newPubkey}`);
+
+    res.json({ status: 'OK', token, pubkey: rotation.newPubkey });
+  } catch (error) {
+    console.error('Rotate Nostr key error:', error);
+    res.status(500).json({ status: 'error', reason: 'Failed to rotate Nostr key' });
+  }
+});
+
 // ========== GET PROFILE ==========
 // Returns user profile + OAuth connections for the authenticated user.
 // Called by mobile app after login to populate Account screen.
@@ -778,6 +892,7 @@ app.post('/internal/validate', (req, res) => {
 
 app.use(reposRouter);
 app.use(scanRouter);
+app.use(delegatesRouter);
 
 app.listen(PORT, '0.0.0.0', () => {
   console.log(`🔐 Auth API running on port ${PORT}`);
@@ -11,6 +11,7 @@ import { PublicProfile } from '@/pages/PublicProfile';
 import { BookAppointment } from '@/pages/BookAppointment';
 import { GoogleCallbackPage } from '@/pages/GoogleCallbackPage';
 import { ScanPage } from '@/pages/ScanPage';
+import { EmergencyCardPage } from '@/pages/EmergencyCardPage';
 import { PrivacyPolicyPage } from '@/pages/PrivacyPolicyPage';
 import { TermsOfServicePage } from '@/pages/TermsOfServicePage';
 
@@ -50,6 +51,7 @@ function AppRoutes() {
         <Route path="/terms-of-service" element={<TermsOfServicePage />} />
         {/* Public profile route - must be last to avoid matching other routes */}
         <Route path="/scan" element={<ScanPage />} />
+        <Route path="/ice" element={<EmergencyCardPage />} />
         <Route 
           path='/:username'
           element={<PublicProfile />}
@@ -1,36 +1,240 @@
 // components/scan/DoctorNoteEditor.tsx
-// Simple textarea for the doctor to write a clinical note.
-// Calls onSubmit with the note text — encryption/push handled by parent.
+// SOAP-structured clinical note for the doctor: subjective/objective/
+// assessment/plan, diagnosis codes, medications, attachments, and an
+// optional Nostr signature. Calls onSubmit with the draft — encryption,
+// signing and push are handled by the parent.
 
 import { useState } from 'react';
+import {
+  ATTACHMENT_ACCEPT,
+  MAX_ATTACHMENT_BYTES,
+  hasNostrSigner,
+  isDraftEmpty,
+  type ClinicalNoteDraft,
+  type DiagnosisCode,
+  type MedicationLine,
+} from '../../lib/clinicalNote';
 
 interface DoctorNoteEditorProps {
-  onSubmit: (noteText: string) => void;
+  onSubmit: (draft: ClinicalNoteDraft) => void;
   onCancel: () => void;
   submitting: boolean;
 }
 
+const SOAP_SECTIONS: Array<{ key: 'subjective' | 'objective' | 'assessment' | 'plan'; label: string; placeholder: string }> = [
+  { key: 'subjective', label: 'Subjective', placeholder: 'Chief complaint, history, symptoms as reported...' },
+  { key: 'objective', label: 'Objective', placeholder: 'Vitals, exam findings, results...' },
+  { key: 'assessment', label: 'Assessment', placeholder: 'Clinical impression...' },
+  { key: 'plan', label: 'Plan', placeholder: 'Treatment, follow-up, referrals...' },
+];
+
+const EMPTY_DIAGNOSIS: DiagnosisCode = { code: '', description: '' };
+const EMPTY_MEDICATION: MedicationLine = { name: '', dose: '', frequency: '' };
+
+const inputClass =
+  'w-full p-2 border rounded-lg text-gray-800 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent';
+
+function formatSize(bytes: number): string {
+  if (bytes < 1024 * 1024) return `${Math.max(1, Math.round(bytes / 1024))} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
 export function DoctorNoteEditor({ onSubmit, onCancel, submitting }: DoctorNoteEditorProps) {
-  const [note, setNote] = useState('');
+  const signerAvailable = hasNostrSigner();
+  const [draft, setDraft] = useState<ClinicalNoteDraft>({
+    providerName: '',
+    subjective: '',
+    objective: '',
+    assessment: '',
+    plan: '',
+    diagnoses: [{ ...EMPTY_DIAGNOSIS }],
+    medications: [{ ...EMPTY_MEDICATION }],
+    attachments: [],
+    sign: signerAvailable,
+  });
+  const [attachmentError, setAttachmentError] = useState<string | null>(null);
+
+  const update = (patch: Partial<ClinicalNoteDraft>) => setDraft((d) => ({ ...d, ...patch }));
+
+  const updateDiagnosis = (index: number, patch: Partial<DiagnosisCode>) =>
+    update({ diagnoses: draft.diagnoses.map((d, i) => (i === index ? { ...d, ...patch } : d)) });
+
+  const updateMedication = (index: number, patch: Partial<MedicationLine>) =>
+    update({ medications: draft.medications.map((m, i) => (i === index ? { ...m, ...patch } : m)) });
+
+  const handleAddFiles = (files: FileList | null) => {
+    if (!files) return;
+    const accepted: File[] = [];
+    for (const file of Array.from(files)) {
+      if (file.size > MAX_ATTACHMENT_BYTES) {
+        setAttachmentError(`${file.name} is larger than ${formatSize(MAX_ATTACHMENT_BYTES)}.`);
+        continue;
+      }
+      accepted.push(file);
+    }
+    if (accepted.length === files.length) setAttachmentError(null);
+    update({ attachments: [...draft.attachments, ...accepted] });
+  };
+
+  const canSubmit = !submitting && !isDraftEmpty(draft);
 
   return (
     <div className="max-w-3xl mx-auto">
       <h2 className="text-xl font-bold text-gray-900 mb-4">Add Clinical Note</h2>
 
-      <textarea
-        value={note}
-        onChange={(e) => setNote(e.target.value)}
-        placeholder="Write your clinical observations, diagnosis, and recommendations..."
-        className="w-full h-64 p-4 border rounded-lg text-gray-800 resize-y focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+      <label className="block text-sm font-medium text-gray-700 mb-1">Your name</label>
+      <input
+        value={draft.providerName}
+        onChange={(e) => update({ providerName: e.target.value })}
+        placeholder="Dr. Jane Rivera, MD"
+        className={`${inputClass} mb-5`}
         disabled={submitting}
         autoFocus
       />
 
-      <div className="flex items-center justify-between mt-4">
-        <p className="text-sm text-gray-400">
-          {note.length} character{note.length !== 1 ? 's' : ''}
-        </p>
+      {SOAP_SECTIONS.map((s) => (
+        <div key={s.key} className="mb-4">
+          <label className="block text-sm font-medium text-gray-700 mb-1">{s.label}</label>
+          <textarea
+            value={draft[s.key]}
+            onChange={(e) => setDraft((d) => ({ ...d, [s.key]: e.target.value }))}
+            placeholder={s.placeholder}
+            className={`${inputClass} h-24 p-3 resize-y`}
+            disabled={submitting}
+          />
+        </div>
+      ))}
+
+      <div className="mb-4">
+        <label className="block text-sm font-medium text-gray-700 mb-1">Diagnosis codes</label>
+        {draft.diagnoses.map((d, i) => (
+          <div key={i} className="flex gap-2 mb-2">
+            <input
+              value={d.code}
+              onChange={(e) => updateDiagnosis(i, { code: e.target.value.toUpperCase() })}
+              placeholder="ICD-10 (J02.9)"
+              className={`${inputClass} w-36 font-mono`}
+              disabled={submitting}
+            />
+            <input
+              value={d.description}
+              onChange={(e) => updateDiagnosis(i, { description: e.target.value })}
+              placeholder="Description"
+              className={inputClass}
+              disabled={submitting}
+            />
+            <button
+              onClick={() => update({ diagnoses: draft.diagnoses.filter((_, j) => j !== i) })}
+              className="px-2 text-gray-400 hover:text-red-600"
+              disabled={submitting}
+              aria-label="Remove diagnosis"
+            >
+              ×
+            </button>
+          </div>
+        ))}
+        <button
+          onClick={() => update({ diagnoses: [...draft.diagnoses, { ...EMPTY_DIAGNOSIS }] })}
+          className="text-sm text-blue-600 hover:text-blue-700"
+          disabled={submitting}
+        >
+          + Add diagnosis
+        </button>
+      </div>
+
+      <div className="mb-4">
+        <label className="block text-sm font-medium text-gray-700 mb-1">Medications</label>
+        {draft.medications.map((m, i) => (
+          <div key={i} className="flex gap-2 mb-2">
+            <input
+              value={m.name}
+              onChange={(e) => updateMedication(i, { name: e.target.value })}
+              placeholder="Medication"
+              className={inputClass}
+              disabled={submitting}
+            />
+            <input
+              value={m.dose}
+              onChange={(e) => updateMedication(i, { dose: e.target.value })}
+              placeholder="Dose"
+              className={`${inputClass} w-32`}
+              disabled={submitting}
+            />
+            <input
+              value={m.frequency}
+              onChange={(e) => updateMedication(i, { frequency: e.target.value })}
+              placeholder="Frequency"
+              className={`${inputClass} w-40`}
+              disabled={submitting}
+            />
+            <button
+              onClick={() => update({ medications: draft.medications.filter((_, j) => j !== i) })}
+              className="px-2 text-gray-400 hover:text-red-600"
+              disabled={submitting}
+              aria-label="Remove medication"
+            >
+              ×
+            </button>
+          </div>
+        ))}
+        <button
+          onClick={() => update({ medications: [...draft.medications, { ...EMPTY_MEDICATION }] })}
+          className="text-sm text-blue-600 hover:text-blue-700"
+          disabled={submitting}
+        >
+          + Add medication
+        </button>
+      </div>
+
+      <div className="mb-4">
+        <label className="block text-sm font-medium text-gray-700 mb-1">Attachments</label>
+        {draft.attachments.map((file, i) => (
+          <div key={`${file.name}-${i}`} className="flex items-center justify-between py-1 text-sm text-gray-700">
+            <span className="truncate">{file.name} <span className="text-gray-400">({formatSize(file.size)})</span></span>
+            <button
+              onClick={() => update({ attachments: draft.attachments.filter((_, j) => j !== i) })}
+              className="px-2 text-gray-400 hover:text-red-600"
+              disabled={submitting}
+              aria-label={`Remove ${file.name}`}
+            >
+              ×
+            </button>
+          </div>
+        ))}
+        <input
+          type="file"
+          accept={ATTACHMENT_ACCEPT}
+          multiple
+          onChange={(e) => {
+            handleAddFiles(e.target.files);
+            e.target.value = '';
+          }}
+          className="block text-sm text-gray-600 mt-1"
+          disabled={submitting}
+        />
+        {attachmentError && <p className="text-sm text-red-600 mt-1">{attachmentError}</p>}
+        <p className="text-xs text-gray-400 mt-1">Images and PDFs are encrypted before they leave this browser.</p>
+      </div>
 
+      <label className="flex items-start gap-2 mb-2 text-sm text-gray-700">
+        <input
+          type="checkbox"
+          checked={draft.sign}
+          onChange={(e) => update({ sign: e.target.checked })}
+          disabled={submitting || !signerAvailable}
+          className="mt-1"
+        />
+        <span>
+          Sign this note with my Nostr key
+          <span className="block text-xs text-gray-400">
+            {signerAvailable
+              ? 'The patient will see the note as coming from you, verified.'
+              : 'Install a Nostr browser extension like nos2x to sign notes.'}
+          </span>
+        </span>
+      </label>
+
+      <div className="flex items-center justify-end mt-4">
         <div className="flex gap-3">
           <button
             onClick={onCancel}
@@ -40,8 +244,8 @@ export function DoctorNoteEditor({ onSubmit, onCancel, submitting }: DoctorNoteE
             Cancel
           </button>
           <button
-            onClick={() => onSubmit(note)}
-            disabled={submitting || !note.trim()}
+            onClick={() => onSubmit(draft)}
+            disabled={!canSubmit}
             className="bg-blue-600 hover:bg-blue-700 disabled:bg-gray-300 text-white font-semibold px-6 py-2 rounded-lg transition-colors"
           >
             {submitting ? 'Submitting...' : 'Submit Note'}
@@ -50,4 +254,4 @@ export function DoctorNoteEditor({ onSubmit, onCancel, submitting }: DoctorNoteE
       </div>
     </div>
   );
-}
\ No newline at end of file
+}
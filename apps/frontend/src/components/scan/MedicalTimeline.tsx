@@ -2,6 +2,7 @@
 // Renders decrypted medical documents as a chronological timeline.
 
 import { useState, useEffect } from 'react';
+import type { ShareScope } from './QRScanner';
 
 interface MedicalDocument {
   value: string;
@@ -29,6 +30,7 @@ interface MedicalTimelineProps {
   entries: TimelineEntry[];
   patientName?: string;
   expiresAt: number;
+  scope?: ShareScope;
 }
 
 function formatDate(iso: string): string {
@@ -45,6 +47,15 @@ function formatDate(iso: string): string {
   }
 }
 
+/** e.g. "dermatology, visits/2026-01-10-rash.json · since 2025-06-01" */
+function describeScope(scope: ShareScope): string {
+  const parts = [scope.paths.length > 0 ? scope.paths.join(', ') : 'Entire binder'];
+  if (scope.from && scope.to) parts.push(`${scope.from} to ${scope.to}`);
+  else if (scope.from) parts.push(`since ${scope.from}`);
+  else if (scope.to) parts.push(`until ${scope.to}`);
+  return parts.join(' · ');
+}
+
 function ExpirationTimer({ expiresAt }: { expiresAt: number }) {
   const [remaining, setRemaining] = useState('');
 
@@ -55,9 +66,17 @@ function ExpirationTimer({ expiresAt }: { expiresAt: number }) {
         setRemaining('Expired');
         return;
       }
-      const mins = Math.floor(diff / 60000);
+      const days = Math.floor(diff / 86400000);
+      const hours = Math.floor((diff % 86400000) / 3600000);
+      const mins = Math.floor((diff % 3600000) / 60000);
       const secs = Math.floor((diff % 60000) / 1000);
-      setRemaining(`${mins}:${secs.toString().padStart(2, '0')} remaining`);
+      if (days > 0) {
+        setRemaining(`${days}d ${hours}h remaining`);
+      } else if (hours > 0) {
+        setRemaining(`${hours}:${mins.toString().padStart(2, '0')}:${secs.toString().padStart(2, '0')} remaining`);
+      } else {
+        setRemaining(`${mins}:${secs.toString().padStart(2, '0')} remaining`);
+      }
     };
     update();
     const interval = setInterval(update, 1000);
@@ -71,7 +90,7 @@ function ExpirationTimer({ expiresAt }: { expiresAt: number }) {
   );
 }
 
-export function MedicalTimeline({ entries, patientName, expiresAt }: MedicalTimelineProps) {
+export function MedicalTimeline({ entries, patientName, expiresAt, scope }: MedicalTimelineProps) {
   const sorted = [...entries]
     .filter((e) => e.doc.metadata?.created)
     .sort((a, b) =>
@@ -88,6 +107,11 @@ export function MedicalTimeline({ entries, patientName, expiresAt }: MedicalTime
           <p className="text-sm text-gray-500 mt-1">
             {entries.length} record{entries.length !== 1 ? 's' : ''}
           </p>
+          {scope && (
+            <p className="text-xs text-gray-500 mt-1">
+              Partial share: {describeScope(scope)}
+            </p>
+          )}
         </div>
         <ExpirationTimer expiresAt={expiresAt} />
       </div>
@@ -12,6 +12,14 @@ export interface ScanQRPayload {
   repoId: string;
   expiresAt: number;
   endpoint: string;
+  /** What the patient chose to share; absent = the whole binder. */
+  scope?: ShareScope;
+}
+
+export interface ShareScope {
+  paths: string[];
+  from?: string;
+  to?: string;
 }
 
 interface QRScannerProps {
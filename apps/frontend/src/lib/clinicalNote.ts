@@ -0,0 +1,167 @@
+// lib/clinicalNote.ts
+// Structured clinical note written on the /scan page: SOAP sections,
+// diagnosis codes, medications and attachments, optionally signed with the
+// doctor's Nostr key through a NIP-07 extension.
+//
+// The signature mirrors the mobile app's core/crypto/noteSignature.ts:
+// metadata.signature is a NIP-01 event (never published) whose content is the
+// sha256 of the note's canonical JSON without the signature (or displayOrder,
+// which the patient's binder sets on import).
+
+import { sha256 } from '@noble/hashes/sha2';
+import { bytesToHex } from '@noble/hashes/utils';
+import type { SignedNostrEvent } from '../types';
+
+// --- Types ---
+
+export interface DiagnosisCode {
+  code: string;
+  description: string;
+}
+
+export interface MedicationLine {
+  name: string;
+  dose: string;
+  frequency: string;
+}
+
+export interface ClinicalNoteDraft {
+  providerName: string;
+  subjective: string;
+  objective: string;
+  assessment: string;
+  plan: string;
+  diagnoses: DiagnosisCode[];
+  medications: MedicationLine[];
+  attachments: File[];
+  sign: boolean;
+}
+
+export interface NoteAttachment {
+  sidecarFilename: string;
+  format: string;
+  base64: string;
+  sizeBytes: number;
+}
+
+export interface NoteSignature extends SignedNostrEvent {
+  pubkey: string;
+}
+
+export interface ClinicalNoteDocument {
+  value: string;
+  metadata: {
+    type: string;
+    created: string;
+    provider?: string;
+    signature?: NoteSignature;
+    [key: string]: unknown;
+  };
+  children: ClinicalNoteDocument[];
+}
+
+// --- Constants ---
+
+/** Ephemeral-range kind, so a relay would never keep one of these. */
+export const NOTE_SIGNATURE_KIND = 24500;
+export const MAX_ATTACHMENT_BYTES = 20 * 1024 * 1024;
+export const ATTACHMENT_ACCEPT = 'image/jpeg,image/png,application/pdf';
+
+// --- Markdown body ---
+
+function section(title: string, body: string): string {
+  return body.trim() ? `## ${title}\n\n${body.trim()}\n` : '';
+}
+
+/** Render the draft as the same "# Visit — date / ## Subjective …" markdown the app's visit template uses. */
+export function buildClinicalNoteMarkdown(draft: ClinicalNoteDraft, date: string): string {
+  const diagnoses = draft.diagnoses
+    .filter((d) => d.code.trim() || d.description.trim())
+    .map((d) => `- ${[d.code.trim(), d.description.trim()].filter(Boolean).join(' — ')}`)
+    .join('\n');
+  const medications = draft.medications
+    .filter((m) => m.name.trim())
+    .map((m) => `- ${[m.name.trim(), m.dose.trim(), m.frequency.trim()].filter(Boolean).join(', ')}`)
+    .join('\n');
+
+  return [
+    `# Visit — ${date}\n`,
+    section('Subjective', draft.subjective),
+    section('Objective', draft.objective),
+    section('Assessment', draft.assessment),
+    section('Diagnoses', diagnoses),
+    section('Plan', draft.plan),
+    section('Medications', medications),
+  ].filter(Boolean).join('\n');
+}
+
+export function isDraftEmpty(draft: ClinicalNoteDraft): boolean {
+  return ![draft.subjective, draft.objective, draft.assessment, draft.plan].some((s) => s.trim()) &&
+    !draft.diagnoses.some((d) => d.code.trim()) &&
+    !draft.medications.some((m) => m.name.trim()) &&
+    draft.attachments.length === 0;
+}
+
+// --- Attachments ---
+
+export function attachmentFormat(file: File): string {
+  if (file.type === 'application/pdf') return 'pdf';
+  if (file.type === 'image/png') return 'png';
+  if (file.type === 'image/jpeg') return 'jpeg';
+  return file.name.split('.').pop()?.toLowerCase() || 'bin';
+}
+
+export function readFileAsBase64(file: File): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => {
+      const dataUrl = reader.result as string;
+      resolve(dataUrl.slice(dataUrl.indexOf(',') + 1));
+    };
+    reader.onerror = () => reject(reader.error ?? new Error(`Failed to read ${file.name}`));
+    reader.readAsDataURL(file);
+  });
+}
+
+export function sha256Hex(text: string): string {
+  return bytesToHex(sha256(new TextEncoder().encode(text)));
+}
+
+// --- Signature ---
+
+/** JSON with object keys sorted at every level, so both sides hash the same bytes. */
+export function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(canonicalJson).join(',')}]`;
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, v]) => v !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${canonicalJson(v)}`).join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
+
+export function documentDigest(doc: ClinicalNoteDocument): string {
+  const { signature: _signature, displayOrder: _displayOrder, ...metadata } = doc.metadata;
+  return sha256Hex(canonicalJson({ ...doc, metadata }));
+}
+
+export function hasNostrSigner(): boolean {
+  return Boolean(window.nostr?.signEvent);
+}
+
+/** Ask the doctor's NIP-07 extension to sign the note's digest. */
+export async function signClinicalNote(doc: ClinicalNoteDocument): Promise<NoteSignature> {
+  if (!window.nostr) {
+    throw new Error('Install a Nostr browser extension like nos2x to sign notes.');
+  }
+
+  const pubkey = await window.nostr.getPublicKey();
+  const signed = await window.nostr.signEvent({
+    kind: NOTE_SIGNATURE_KIND,
+    created_at: Math.floor(Date.now() / 1000),
+    tags: [['t', 'clinical-note']],
+    content: documentDigest(doc),
+  });
+  return { ...signed, pubkey };
+}
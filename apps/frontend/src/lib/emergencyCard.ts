@@ -0,0 +1,83 @@
+// lib/emergencyCard.ts
+// Decodes the emergency medical ID link made by the mobile app
+// (core/bio/emergencyCard.ts): /ice#1.<base64url JSON>. The card lives in the
+// URL fragment, so it is read here in the browser and never sent to the server.
+
+// --- Types ---
+
+export interface EmergencyContact {
+  name: string;
+  relationship: string;
+  phone: string;
+}
+
+export interface EmergencyCard {
+  name?: string;
+  dateOfBirth?: string;
+  bloodType?: string;
+  allergies?: string[];
+  medications?: string[];
+  conditions?: string[];
+  contacts?: EmergencyContact[];
+  updated: string;
+}
+
+interface EmergencyLinkPayload {
+  n?: unknown;
+  d?: unknown;
+  b?: unknown;
+  a?: unknown;
+  m?: unknown;
+  c?: unknown;
+  e?: unknown;
+  u?: unknown;
+}
+
+export const EMERGENCY_LINK_VERSION = '1';
+
+// --- Decoding ---
+
+function fromBase64Url(value: string): string {
+  const base64 = value.replace(/-/g, '+').replace(/_/g, '/');
+  const padded = base64 + '='.repeat((4 - (base64.length % 4)) % 4);
+  const binary = atob(padded);
+  const bytes = Uint8Array.from(binary, (char) => char.charCodeAt(0));
+  return new TextDecoder().decode(bytes);
+}
+
+function strings(values: unknown): string[] | undefined {
+  return Array.isArray(values) ? values.filter((v): v is string => typeof v === 'string') : undefined;
+}
+
+/** Decode a location hash (with or without '#'). Returns null for anything that isn't a v1 card. */
+export function decodeEmergencyHash(hash: string): EmergencyCard | null {
+  const fragment = hash.startsWith('#') ? hash.slice(1) : hash;
+  const [version, data] = fragment.split('.', 2);
+  if (version !== EMERGENCY_LINK_VERSION || !data) return null;
+
+  try {
+    const payload = JSON.parse(fromBase64Url(data)) as EmergencyLinkPayload;
+    if (typeof payload.u !== 'string') return null;
+    const contacts = Array.isArray(payload.e)
+      ? payload.e
+        .filter((c): c is unknown[] => Array.isArray(c))
+        .map(([name, relationship, phone]) => ({
+          name: String(name ?? ''),
+          relationship: String(relationship ?? ''),
+          phone: String(phone ?? ''),
+        }))
+      : undefined;
+    return {
+      ...(typeof payload.n === 'string' ? { name: payload.n } : {}),
+      ...(typeof payload.d === 'string' ? { dateOfBirth: payload.d } : {}),
+      ...(typeof payload.b === 'string' ? { bloodType: payload.b } : {}),
+      ...(strings(payload.a) ? { allergies: strings(payload.a) } : {}),
+      ...(strings(payload.m) ? { medications: strings(payload.m) } : {}),
+      ...(strings(payload.c) ? { conditions: strings(payload.c) } : {}),
+      ...(contacts ? { contacts } : {}),
+      updated: payload.u,
+    };
+  } catch {
+    return null;
+  }
+}
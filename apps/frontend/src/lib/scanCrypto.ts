@@ -260,4 +260,21 @@ export function decryptDEKSidecar(fileData: Uint8Array, conversationKey: Uint8Ar
 
   // Plaintext is the base64-encoded binary (image/audio)
   return new TextDecoder().decode(plaintext);
-}
\ No newline at end of file
+}
+/**
+ * Encrypt binary content (as base64) into the DEK-wrapped sidecar format that
+ * decryptDEKSidecar reads: a random DEK encrypts the content, the DEK is
+ * NIP-44 wrapped with the conversation key.
+ */
+export function encryptDEKSidecar(base64Content: string, conversationKey: Uint8Array): Uint8Array {
+  const dek = new Uint8Array(32);
+  crypto.getRandomValues(dek);
+  const nonce = new Uint8Array(CHACHA_NONCE_LENGTH);
+  crypto.getRandomValues(nonce);
+
+  const ciphertextWithTag = chacha20poly1305(dek, nonce).encrypt(new TextEncoder().encode(base64Content));
+  const wrappedDek = new TextEncoder().encode(encrypt(bytesToHex(dek), conversationKey));
+
+  const header = new Uint8Array([DEK_VERSION, (wrappedDek.length >> 8) & 0xff, wrappedDek.length & 0xff]);
+  return concatBytes(header, wrappedDek, nonce, ciphertextWithTag);
+}
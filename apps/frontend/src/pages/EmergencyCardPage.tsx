@@ -0,0 +1,87 @@
+import { useEffect, useState } from 'react';
+import { decodeEmergencyHash, type EmergencyCard } from '@/lib/emergencyCard';
+
+function Section({ title, items }: { title: string; items?: string[] }) {
+  if (!items?.length) return null;
+  return (
+    <section className="flex flex-col gap-2">
+      <h2 className="text-xs font-semibold uppercase tracking-[0.12em] text-[rgba(246,239,231,0.55)]">{title}</h2>
+      <ul className="space-y-1 text-lg leading-7 text-[#fff4ec]">
+        {items.map((item, index) => (
+          <li key={`${title}-${index}`}>{item}</li>
+        ))}
+      </ul>
+    </section>
+  );
+}
+
+export function EmergencyCardPage() {
+  const [card, setCard] = useState<EmergencyCard | null>(() => decodeEmergencyHash(window.location.hash));
+
+  useEffect(() => {
+    const onHashChange = () => setCard(decodeEmergencyHash(window.location.hash));
+    window.addEventListener('hashchange', onHashChange);
+    return () => window.removeEventListener('hashchange', onHashChange);
+  }, []);
+
+  return (
+    <div className="min-h-screen bg-[radial-gradient(circle_at_top,hsl(220_20%_12%)_0%,hsl(220_20%_8%)_38%,hsl(220_20%_7%)_100%)] px-4 py-10 text-[#f6efe7]">
+      <main className="mx-auto flex w-full max-w-[560px] flex-col gap-6">
+        <div className="rounded-2xl bg-[#d93b3b] px-5 py-3 text-center text-sm font-bold tracking-[0.14em] text-white">
+          EMERGENCY MEDICAL INFO
+        </div>
+
+        {!card ? (
+          <p className="text-base leading-7 text-[rgba(246,239,231,0.78)]">
+            This link is incomplete or damaged. Ask the patient to share it again, or scan the QR code on their lock
+            screen.
+          </p>
+        ) : (
+          <>
+            {card.name && (
+              <h1 className="text-4xl font-semibold tracking-[-0.03em] text-[#fff4ec]">{card.name}</h1>
+            )}
+            {(card.dateOfBirth || card.bloodType) && (
+              <div className="flex flex-wrap gap-3 text-base text-[rgba(246,239,231,0.85)]">
+                {card.dateOfBirth && <span>DOB {card.dateOfBirth}</span>}
+                {card.bloodType && (
+                  <span className="rounded-lg border border-[rgba(255,255,255,0.18)] px-2 font-semibold">
+                    Blood type {card.bloodType}
+                  </span>
+                )}
+              </div>
+            )}
+            <Section title="Allergies" items={card.allergies} />
+            <Section title="Medications" items={card.medications} />
+            <Section title="Conditions" items={card.conditions} />
+            {card.contacts?.length ? (
+              <section className="flex flex-col gap-2">
+                <h2 className="text-xs font-semibold uppercase tracking-[0.12em] text-[rgba(246,239,231,0.55)]">
+                  In case of emergency
+                </h2>
+                {card.contacts.map((contact, index) => (
+                  <div key={`contact-${index}`} className="flex flex-wrap items-baseline gap-x-3 text-lg text-[#fff4ec]">
+                    <span>
+                      {contact.name}
+                      {contact.relationship && (
+                        <span className="text-[rgba(246,239,231,0.6)]"> ({contact.relationship})</span>
+                      )}
+                    </span>
+                    {contact.phone && (
+                      <a href={`tel:${contact.phone.replace(/[^\d+]/g, '')}`} className="font-medium text-[#ff9e8b] underline">
+                        {contact.phone}
+                      </a>
+                    )}
+                  </div>
+                ))}
+              </section>
+            ) : null}
+            <p className="border-t border-[rgba(255,255,255,0.08)] pt-4 text-sm text-[rgba(246,239,231,0.55)]">
+              Provided by the patient, updated {card.updated}. Not verified by a clinician.
+            </p>
+          </>
+        )}
+      </main>
+    </div>
+  );
+}
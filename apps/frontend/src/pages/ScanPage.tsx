@@ -1,5 +1,6 @@
 // pages/ScanPage.tsx
 // Doctor-side scan page: scan QR → clone staging repo → decrypt → view timeline → add note → push.
+// Notes are SOAP-structured, may carry encrypted attachments, and can be signed with the doctor's Nostr key.
 // No authentication required — the scan token from the QR code is the only auth.
 
 import { useState, useCallback, useRef } from 'react';
@@ -12,7 +13,18 @@ import {
   decryptLarge,
   decryptDEKSidecar,
   encrypt,
+  encryptDEKSidecar,
 } from '../lib/scanCrypto';
+import {
+  attachmentFormat,
+  buildClinicalNoteMarkdown,
+  readFileAsBase64,
+  sha256Hex,
+  signClinicalNote,
+  type ClinicalNoteDocument,
+  type ClinicalNoteDraft,
+  type NoteAttachment,
+} from '../lib/clinicalNote';
 import { QRScanner, type ScanQRPayload } from '../components/scan/QRScanner';
 import { MedicalTimeline, type TimelineEntry } from '../components/scan/MedicalTimeline';
 import { DoctorNoteEditor } from '../components/scan/DoctorNoteEditor';
@@ -166,7 +178,7 @@ export function ScanPage() {
 
   // --- Submit doctor note ---
 
-  const handleSubmitNote = useCallback(async (noteText: string) => {
+  const handleSubmitNote = useCallback(async (draft: ClinicalNoteDraft) => {
     const payload = payloadRef.current;
     const conversationKey = convKeyRef.current;
     const fs = fsRef.current;
@@ -182,24 +194,54 @@ export function ScanPage() {
     setState({ phase: 'submitting', entries: currentEntries });
 
     try {
-      // Build the MedicalDocument
       const now = new Date();
       const dateStr = now.toISOString().slice(0, 10);
-      const doc = {
-        value: noteText,
+      const files = new Set(await git.listFiles({ fs, dir, ref: 'HEAD' }));
+
+      // Unique base name so a second note the same day doesn't overwrite the first
+      let baseName = `${dateStr}-doctor-note`;
+      for (let n = 2; files.has(`visits/${baseName}.json`); n++) {
+        baseName = `${dateStr}-doctor-note-${n}`;
+      }
+      const notePath = `visits/${baseName}.json`;
+
+      // Attachments: DEK-wrapped sidecars next to the note, referenced as children
+      const attachments: NoteAttachment[] = [];
+      for (const [i, file] of draft.attachments.entries()) {
+        const format = attachmentFormat(file);
+        attachments.push({
+          sidecarFilename: `${baseName}-${i + 1}.${format}.enc`,
+          format,
+          base64: await readFileAsBase64(file),
+          sizeBytes: file.size,
+        });
+      }
+
+      // Build the MedicalDocument
+      const doc: ClinicalNoteDocument = {
+        value: buildClinicalNoteMarkdown(draft, dateStr),
         metadata: {
           type: 'visit',
           created: now.toISOString(),
-          provider: 'Doctor (via scan)',
+          provider: draft.providerName.trim() || 'Doctor (via scan)',
         },
-        children: [],
+        children: attachments.map((a) => ({
+          value: a.sidecarFilename,
+          metadata: {
+            type: 'attachment_ref',
+            created: now.toISOString(),
+            format: a.format,
+            encoding: 'base64',
+            originalSizeBytes: a.sizeBytes,
+            contentSha256: sha256Hex(a.base64),
+          },
+          children: [],
+        })),
       };
 
-      // Encrypt with the ephemeral conversation key
-      const encrypted = encrypt(JSON.stringify(doc), conversationKey);
-
-      // Write to the staging repo filesystem
-      const notePath = `visits/${dateStr}-doctor-note.json`;
+      if (draft.sign) {
+        doc.metadata.signature = await signClinicalNote(doc);
+      }
 
       // Ensure visits/ directory exists
       try {
@@ -208,9 +250,14 @@ export function ScanPage() {
         // already exists
       }
 
-      await fs.promises.writeFile(`${dir}/${notePath}`, encrypted);
+      // Encrypt with the ephemeral conversation key and write to the staging repo
+      for (const a of attachments) {
+        const sidecarPath = `visits/${a.sidecarFilename}`;
+        await fs.promises.writeFile(`${dir}/${sidecarPath}`, encryptDEKSidecar(a.base64, conversationKey));
+        await git.add({ fs, dir, filepath: sidecarPath });
+      }
 
-      // Git add + commit
+      await fs.promises.writeFile(`${dir}/${notePath}`, encrypt(JSON.stringify(doc), conversationKey));
       await git.add({ fs, dir, filepath: notePath });
 
       await git.commit({
@@ -218,7 +265,7 @@ export function ScanPage() {
         dir,
         message: `Doctor note added ${dateStr}`,
         author: {
-          name: 'Doctor',
+          name: draft.providerName.trim() || 'Doctor',
           email: 'scan@limbo.health',
           timestamp: Math.floor(Date.now() / 1000),
         },
@@ -301,6 +348,7 @@ export function ScanPage() {
             <MedicalTimeline
               entries={state.entries}
               expiresAt={payload.expiresAt}
+              scope={payload.scope}
             />
             <div className="max-w-3xl mx-auto mt-8">
               <button
@@ -313,21 +361,12 @@ export function ScanPage() {
           </div>
         )}
 
-        {/* Editing */}
-        {state.phase === 'editing' && (
+        {/* Editing / submitting — one editor instance so the draft survives the transition */}
+        {(state.phase === 'editing' || state.phase === 'submitting') && (
           <DoctorNoteEditor
             onSubmit={handleSubmitNote}
             onCancel={() => setState({ phase: 'viewing', entries: state.entries })}
-            submitting={false}
-          />
-        )}
-
-        {/* Submitting */}
-        {state.phase === 'submitting' && (
-          <DoctorNoteEditor
-            onSubmit={() => {}}
-            onCancel={() => {}}
-            submitting={true}
+            submitting={state.phase === 'submitting'}
           />
         )}
 
@@ -0,0 +1,30 @@
+import { describe, expect, it } from 'vitest';
+
+const { findOrphanedStagingRepos } = require('../stagingCleanup');
+
+const MINUTE = 60 * 1000;
+const DAY = 24 * 60 * MINUTE;
+const NOW = Date.parse('2026-10-19T12:00:00.000Z');
+
+describe('findOrphanedStagingRepos', () => {
+  it('keeps a long share session on disk until its own expiry', () => {
+    const dirs = [
+      { name: 'scan-week-long', createdAtMs: NOW - 3 * DAY },
+      { name: 'scan-no-session', createdAtMs: NOW - 30 * MINUTE },
+      { name: 'scan-just-created', createdAtMs: NOW - 5 * MINUTE },
+      { name: 'binder-123', createdAtMs: NOW - 30 * DAY },
+    ];
+
+    expect(findOrphanedStagingRepos(dirs, { now: NOW, liveRepoIds: new Set(['scan-week-long']) }))
+      .toEqual(['scan-no-session']);
+  });
+
+  it('only removes repos older than the longest session when auth-api is unreachable', () => {
+    const dirs = [
+      { name: 'scan-three-days', createdAtMs: NOW - 3 * DAY },
+      { name: 'scan-eight-days', createdAtMs: NOW - 8 * DAY },
+    ];
+
+    expect(findOrphanedStagingRepos(dirs, { now: NOW, liveRepoIds: null })).toEqual(['scan-eight-days']);
+  });
+});
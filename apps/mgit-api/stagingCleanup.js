@@ -4,7 +4,26 @@ const authApiClient = require('./authApiClient');
 
 const REPOS_PATH = process.env.REPOS_PATH || '/repos';
 const CLEANUP_INTERVAL = parseInt(process.env.STAGING_CLEANUP_INTERVAL_MS || '900000'); // 15 minutes
+// Repos with no session row at all (the session was never created)
 const STAGING_MAX_AGE_MS = 60 * 20 * 1000; // 20 minutes
+// Used when auth-api can't say which sessions are live: the longest session
+// a patient can pick (7 days) plus auth-api's 15-minute expiry grace
+const STAGING_MAX_AGE_UNKNOWN_SESSION_MS = (7 * 24 * 60 + 15) * 60 * 1000;
+
+/**
+ * Staging repos on disk to delete without a session telling us to.
+ * Repos with a live session are left for the session-based cleanup, which
+ * removes them once their own expires_at has passed. `liveRepoIds` is null
+ * when auth-api could not be reached.
+ */
+function findOrphanedStagingRepos(dirs, { now, liveRepoIds }) {
+  const maxAge = liveRepoIds ? STAGING_MAX_AGE_MS : STAGING_MAX_AGE_UNKNOWN_SESSION_MS;
+  return dirs
+    .filter(dir => dir.name.startsWith('scan-'))
+    .filter(dir => !liveRepoIds || !liveRepoIds.has(dir.name))
+    .filter(dir => now - dir.createdAtMs > maxAge)
+    .map(dir => dir.name);
+}
 
 function startCleanupJob() {
   console.log(`🧹 Staging cleanup job started (interval: ${CLEANUP_INTERVAL / 1000}s)`);
@@ -13,32 +32,30 @@ function startCleanupJob() {
     try {
       // --- Phase 1: Session-based cleanup (expired/revoked in MySQL) ---
       const sessionRepos = new Set();
+      let liveRepoIds = null;
       try {
         const result = await authApiClient.cleanupStagingRepos();
         for (const id of [...result.expiredRepos, ...result.revokedRepos]) {
           sessionRepos.add(id);
         }
+        liveRepoIds = new Set(result.activeRepos || []);
       } catch (err) {
         console.error('🧹 Session cleanup query failed:', err.message);
         // Continue to filesystem fallback
       }
 
-      // --- Phase 2: Filesystem fallback (orphaned scan- dirs older than 1 hour) ---
+      // --- Phase 2: Filesystem fallback (scan- dirs with no session row) ---
       const fsRepos = new Set();
       try {
-        const entries = fs.readdirSync(REPOS_PATH, { withFileTypes: true });
-        const now = Date.now();
-
-        for (const entry of entries) {
-          if (!entry.isDirectory() || !entry.name.startsWith('scan-')) continue;
-
-          const repoPath = path.join(REPOS_PATH, entry.name);
-          const stat = fs.statSync(repoPath);
-          const age = now - stat.birthtimeMs;
-
-          if (age > STAGING_MAX_AGE_MS) {
-            fsRepos.add(entry.name);
-          }
+        const dirs = fs.readdirSync(REPOS_PATH, { withFileTypes: true })
+          .filter(entry => entry.isDirectory() && entry.name.startsWith('scan-'))
+          .map(entry => ({
+            name: entry.name,
+            createdAtMs: fs.statSync(path.join(REPOS_PATH, entry.name)).birthtimeMs
+          }));
+
+        for (const repoId of findOrphanedStagingRepos(dirs, { now: Date.now(), liveRepoIds })) {
+          fsRepos.add(repoId);
         }
       } catch (err) {
         console.error('🧹 Filesystem scan failed:', err.message);
@@ -85,4 +102,4 @@ function startCleanupJob() {
   }, CLEANUP_INTERVAL);
 }
 
-module.exports = { startCleanupJob };
\ No newline at end of file
+module.exports = { startCleanupJob, findOrphanedStagingRepos };
\ No newline at end of file
@@ -0,0 +1,137 @@
+import {
+  activeSegmentIndex,
+  buildTranscriptMarkdown,
+  createTranscriptDocument,
+  findTranscript,
+  formatTimestamp,
+  groupTimedWords,
+  isAudioRecording,
+  isTranscriptShortened,
+  parseTranscript,
+  transcriptPlainText,
+  withTranscript,
+  type TranscriptSegment,
+} from '../../../core/audio/transcript';
+import { createAudioRef, documentFits } from '../../../core/binder/DocumentModel';
+
+const SEGMENTS: TranscriptSegment[] = [
+  { startMs: 0, endMs: 4200, text: 'How have you been feeling?' },
+  { startMs: 5000, endMs: 61_000, text: 'Better since the new dose.' },
+  { startMs: 3_725_000, endMs: 3_730_000, text: 'See you in three months.' },
+];
+
+describe('groupTimedWords', () => {
+  test('breaks segments at pauses', () => {
+    const segments = groupTimedWords([
+      { startMs: 0, endMs: 400, text: 'Any' },
+      { startMs: 450, endMs: 900, text: 'allergies' },
+      { startMs: 3000, endMs: 3400, text: 'Penicillin' },
+    ]);
+
+    expect(segments).toEqual([
+      { startMs: 0, endMs: 900, text: 'Any allergies' },
+      { startMs: 3000, endMs: 3400, text: 'Penicillin' },
+    ]);
+  });
+
+  test('ends a segment at a sentence once it has some length', () => {
+    const segments = groupTimedWords([
+      { startMs: 0, endMs: 1000, text: 'Okay.' },
+      { startMs: 1100, endMs: 4500, text: 'Your labs look normal.' },
+      { startMs: 4600, endMs: 5000, text: 'Questions?' },
+    ]);
+
+    expect(segments.map((segment) => segment.text)).toEqual([
+      'Okay. Your labs look normal.',
+      'Questions?',
+    ]);
+  });
+
+  test('caps segment length and skips empty words', () => {
+    const words = Array.from({ length: 30 }, (_, i) => ({ startMs: i * 1000, endMs: i * 1000 + 900, text: 'word' }));
+    words.splice(3, 0, { startMs: 3000, endMs: 3000, text: '  ' });
+
+    const segments = groupTimedWords(words);
+    expect(segments).toHaveLength(2);
+    expect(segments[1].startMs).toBe(20_000);
+  });
+});
+
+describe('formatTimestamp', () => {
+  test('uses hours only when needed', () => {
+    expect(formatTimestamp(0)).toBe('0:00');
+    expect(formatTimestamp(61_999)).toBe('1:01');
+    expect(formatTimestamp(3_725_000)).toBe('1:02:05');
+  });
+});
+
+describe('transcript markdown', () => {
+  test('writes one timestamped line per segment', () => {
+    expect(buildTranscriptMarkdown(SEGMENTS)).toBe(
+      '# Transcript\n\n[0:00] How have you been feeling?\n[0:05] Better since the new dose.\n[1:02:05] See you in three months.\n',
+    );
+  });
+
+  test('parses back, ending each segment where the next starts', () => {
+    expect(parseTranscript(buildTranscriptMarkdown(SEGMENTS), 3_731_000)).toEqual([
+      { startMs: 0, endMs: 5000, text: 'How have you been feeling?' },
+      { startMs: 5000, endMs: 3_725_000, text: 'Better since the new dose.' },
+      { startMs: 3_725_000, endMs: 3_731_000, text: 'See you in three months.' },
+    ]);
+  });
+
+  test('ignores lines without a timestamp', () => {
+    expect(parseTranscript('# Transcript\n\nnot a segment\n[0:07] Hello')).toEqual([
+      { startMs: 7000, endMs: 7000, text: 'Hello' },
+    ]);
+  });
+});
+
+describe('activeSegmentIndex', () => {
+  test('returns the last segment that has started', () => {
+    expect(activeSegmentIndex(SEGMENTS, 0)).toBe(0);
+    expect(activeSegmentIndex(SEGMENTS, 4999)).toBe(0);
+    expect(activeSegmentIndex(SEGMENTS, 5000)).toBe(1);
+    expect(activeSegmentIndex(SEGMENTS, 4_000_000)).toBe(2);
+  });
+
+  test('returns -1 before the first segment or without segments', () => {
+    expect(activeSegmentIndex([{ startMs: 2000, endMs: 3000, text: 'Hi' }], 1000)).toBe(-1);
+    expect(activeSegmentIndex([], 1000)).toBe(-1);
+  });
+});
+
+describe('transcript child', () => {
+  test('is added to the recording, replacing an older transcript', () => {
+    const recording = createAudioRef('2026-03-02-recording.m4a.enc', 1024, 3_731_000);
+    expect(isAudioRecording(recording)).toBe(true);
+
+    const first = withTranscript(recording, createTranscriptDocument(SEGMENTS.slice(0, 1)));
+    const second = withTranscript(first, createTranscriptDocument(SEGMENTS));
+
+    expect(recording.children).toEqual([]);
+    expect(second.children).toHaveLength(1);
+    expect(findTranscript(second)?.value).toBe(buildTranscriptMarkdown(SEGMENTS));
+    expect(transcriptPlainText(second)).toBe(SEGMENTS.map((segment) => segment.text).join('\n'));
+  });
+
+  test('keeps the beginning of a transcript too long for the entry', () => {
+    const recording = createAudioRef('2026-03-02-recording.m4a.enc', 1024, 4 * 60 * 60 * 1000);
+    const segments = Array.from({ length: 2000 }, (_, index) => ({
+      startMs: index * 7000,
+      endMs: index * 7000 + 6000,
+      text: `Segment ${index + 1}: we talked through the new dose and how it feels in the morning.`,
+    }));
+
+    const doc = withTranscript(recording, createTranscriptDocument(segments));
+    const transcript = findTranscript(doc)!;
+    const kept = parseTranscript(transcript.value);
+
+    expect(documentFits({ ...doc, metadata: { ...doc.metadata, displayOrder: 4 } })).toBe(true);
+    expect(isTranscriptShortened(transcript)).toBe(true);
+    expect(kept.length).toBeGreaterThan(100);
+    expect(kept.length).toBeLessThan(segments.length);
+    expect(kept.map((segment) => segment.text)).toEqual(segments.slice(0, kept.length).map((segment) => segment.text));
+    expect(isTranscriptShortened(findTranscript(withTranscript(recording, createTranscriptDocument(SEGMENTS)))!)).toBe(false);
+  });
+});
@@ -0,0 +1,76 @@
+import { vi } from 'vitest';
+
+vi.mock('react-native-fs', () => ({ default: { DocumentDirectoryPath: '/tmp' } }));
+
+import { KeyManager } from '../../../core/crypto/KeyManager';
+import {
+  createKeyring,
+  generateBinderKey,
+  keyringDelegates,
+  rotatedBinderKey,
+  unwrapBinderKey,
+  withKeyringMember,
+} from '../../../core/binder/BinderKeyring';
+import { parsePubkeyInput } from '../../../core/binder/BinderDelegation';
+import { TEST_PRIVKEY, TEST_PUBKEY } from '../../helpers/testKeys';
+
+const CAREGIVER_PRIVKEY = new Uint8Array(32).fill(0x42);
+const CAREGIVER_PUBKEY = KeyManager.pubkeyFromPrivkey(CAREGIVER_PRIVKEY);
+const STRANGER_PRIVKEY = new Uint8Array(32).fill(0x24);
+
+describe('binder keyring', () => {
+  test('owner and delegates unwrap the same binder key', () => {
+    const binderKey = generateBinderKey();
+    const keyring = createKeyring(binderKey, TEST_PRIVKEY, [CAREGIVER_PUBKEY]);
+
+    expect(keyring.ownerPubkey).toBe(TEST_PUBKEY);
+    expect(keyringDelegates(keyring)).toEqual([CAREGIVER_PUBKEY]);
+    expect(unwrapBinderKey(keyring, TEST_PRIVKEY)).toEqual(binderKey);
+    expect(unwrapBinderKey(keyring, CAREGIVER_PRIVKEY)).toEqual(binderKey);
+  });
+
+  test('rejects keys that are not members', () => {
+    const keyring = createKeyring(generateBinderKey(), TEST_PRIVKEY, []);
+    expect(() => unwrapBinderKey(keyring, STRANGER_PRIVKEY)).toThrow('has not been shared');
+  });
+
+  test('adding a member keeps the binder key and key id', () => {
+    const binderKey = generateBinderKey();
+    const keyring = createKeyring(binderKey, TEST_PRIVKEY, []);
+    const next = withKeyringMember(keyring, binderKey, TEST_PRIVKEY, CAREGIVER_PUBKEY);
+
+    expect(next.keyId).toBe(keyring.keyId);
+    expect(keyringDelegates(next)).toEqual([CAREGIVER_PUBKEY]);
+    expect(unwrapBinderKey(next, CAREGIVER_PRIVKEY)).toEqual(binderKey);
+    expect(keyringDelegates(keyring)).toEqual([]);
+  });
+
+  test('a new keyring gets a new key id', () => {
+    const a = createKeyring(generateBinderKey(), TEST_PRIVKEY, []);
+    const b = createKeyring(generateBinderKey(), TEST_PRIVKEY, []);
+    expect(a.keyId).not.toBe(b.keyId);
+  });
+
+  test('a rotated binder key depends on the new owner key and is stable for resuming', () => {
+    const binderKey = generateBinderKey();
+    const rotated = rotatedBinderKey(binderKey, CAREGIVER_PRIVKEY);
+
+    expect(rotated).toHaveLength(32);
+    expect(rotated).not.toEqual(binderKey);
+    expect(rotatedBinderKey(binderKey, CAREGIVER_PRIVKEY)).toEqual(rotated);
+    expect(rotatedBinderKey(binderKey, STRANGER_PRIVKEY)).not.toEqual(rotated);
+  });
+});
+
+describe('parsePubkeyInput', () => {
+  test('accepts hex and npub', () => {
+    expect(parsePubkeyInput(`  ${TEST_PUBKEY.toUpperCase()} `)).toBe(TEST_PUBKEY);
+    expect(parsePubkeyInput('npub180cvv07tjdrrgpa0j7j7tmnyl2yr6yr7l8j4s3evf6u64th6gkwsyjh6w6'))
+      .toBe('3bf0c63fcb93463407af97a5e5ee64fa883d107ef9e558472c4eb9aaaefa459d');
+  });
+
+  test('rejects anything else', () => {
+    expect(() => parsePubkeyInput('nsec1abc')).toThrow('npub');
+    expect(() => parsePubkeyInput('npub1notvalid')).toThrow('npub');
+  });
+});
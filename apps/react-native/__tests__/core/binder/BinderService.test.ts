@@ -0,0 +1,98 @@
+import { vi } from 'vitest';
+
+vi.mock('expo-secure-store', () => ({}));
+vi.mock('react-native-fs', async () => {
+  const { createDiskRNFS, makeTempRoot } = await import('../../helpers/diskFS');
+  return { default: createDiskRNFS(await makeTempRoot()) };
+});
+
+import fs from 'node:fs/promises';
+import git from 'isomorphic-git';
+import RNFS from 'react-native-fs';
+import {
+  KEYRING_FILENAME,
+  createKeyring,
+  generateBinderKey,
+  setKeyringIdentity,
+  unlockBinder,
+  writeKeyring,
+} from '../../../core/binder/BinderKeyring';
+import { BinderService } from '../../../core/binder/BinderService';
+import { EncryptedIO } from '../../../core/binder/EncryptedIO';
+import { rekeyWorkingTree } from '../../../core/binder/WorkingTreeRekey';
+import { KeyManager } from '../../../core/crypto/KeyManager';
+import { createFSAdapter } from '../../../core/git/fsAdapter';
+import { GitEngine } from '../../../core/git/GitEngine';
+import { makeDocument } from '../../helpers/testData';
+import { TEST_CONVERSATION_KEY, TEST_PRIVKEY } from '../../helpers/testKeys';
+
+describe('BinderService pull', () => {
+  const repoId = 'shared-binder';
+  const repoDir = `binders/${repoId}`;
+  const caregiverPrivkey = new Uint8Array(32).fill(0x42);
+  const caregiverPubkey = KeyManager.pubkeyFromPrivkey(caregiverPrivkey);
+
+  afterAll(async () => {
+    vi.restoreAllMocks();
+    setKeyringIdentity(null);
+    await fs.rm(RNFS.DocumentDirectoryPath, { recursive: true, force: true });
+  });
+
+  const diskPath = (filepath: string) => `${RNFS.DocumentDirectoryPath}/${repoDir}/${filepath}`;
+
+  // Git compares whole-second mtimes: backdate so later rewrites read as changed.
+  async function commitBackdated(filepaths: string[], message: string): Promise<string> {
+    const past = new Date(Date.now() - 60 * 60 * 1000);
+    for (const filepath of filepaths) {
+      await fs.utimes(diskPath(filepath), past, past);
+    }
+    return GitEngine.commitEntry(repoDir, filepaths, message);
+  }
+
+  test('moves entries only committed locally to the key of a re-keyed remote', async () => {
+    const gitFs = createFSAdapter(repoDir);
+    const oldKey = generateBinderKey();
+    const newKey = generateBinderKey();
+    const ownerEntry = 'visits/2026-03-01-checkup.json';
+    const localEntry = 'visits/2026-03-05-follow-up.json';
+    const pendingFile = 'notes.md';
+
+    await GitEngine.initBinder(repoDir);
+    await writeKeyring(repoDir, createKeyring(oldKey, TEST_PRIVKEY, [caregiverPubkey]));
+    await new EncryptedIO(gitFs, oldKey, repoDir).writeDocument('/' + ownerEntry, makeDocument({ value: 'Checkup' }));
+    await fs.writeFile(diskPath(pendingFile), 'Notes\n');
+    const baseOid = await commitBackdated([KEYRING_FILENAME, ownerEntry, pendingFile], 'Share binder access');
+
+    // The owner re-keys on their device (e.g. after revoking someone else)...
+    await rekeyWorkingTree(repoDir, oldKey, newKey);
+    await writeKeyring(repoDir, createKeyring(newKey, TEST_PRIVKEY, [caregiverPubkey]));
+    const remoteOid = await commitBackdated([KEYRING_FILENAME, ownerEntry], 'Revoke binder access');
+
+    // ...while this device, still on the old key, commits an entry of its own.
+    await git.writeRef({ fs: gitFs, dir: '/', ref: 'refs/heads/main', value: baseOid, force: true });
+    await git.checkout({ fs: gitFs, dir: '/', ref: 'main', force: true });
+    setKeyringIdentity(caregiverPrivkey);
+    await unlockBinder(repoDir);
+    await new EncryptedIO(gitFs, oldKey, repoDir).writeDocument('/' + localEntry, makeDocument({ value: 'Follow-up' }));
+    await commitBackdated([localEntry], 'Add follow-up');
+    await fs.writeFile(diskPath(pendingFile), 'Notes, not yet committed\n');
+
+    vi.spyOn(GitEngine, 'pull').mockImplementation(async (dir, _repoId, _auth, author, options) => {
+      const mergeDriver = await options!.mergeDriverFor!(remoteOid);
+      const merge = { fs: createFSAdapter(dir), dir: '/' };
+      await git.merge({ ...merge, ours: 'main', theirs: remoteOid, author, mergeDriver });
+      await git.checkout({ ...merge, ref: 'main' });
+    });
+
+    const service = new BinderService(
+      { repoId, repoDir, auth: { type: 'jwt', token: 'jwt' }, author: { name: 'Test', email: 'test@example.com' } },
+      TEST_CONVERSATION_KEY,
+    );
+    await service.pull();
+
+    expect((await service.readEntry(localEntry)).value).toBe('Follow-up');
+    expect((await service.readEntry(ownerEntry)).value).toBe('Checkup');
+    // The re-key commit leaves unrelated pending writes alone.
+    expect(await GitEngine.listModifiedFiles(repoDir)).toEqual([pendingFile]);
+  });
+});
@@ -0,0 +1,160 @@
+import { vi } from 'vitest';
+
+vi.mock('react-native-fs', () => ({ default: { DocumentDirectoryPath: '/tmp', TemporaryDirectoryPath: '/tmp' } }));
+
+import { PDFDocument } from 'pdf-lib';
+import {
+  buildBinderSummary,
+  renderBinderSummaryPdf,
+  toPdfText,
+  type BinderSummaryEntry,
+} from '../../../core/binder/BinderSummary';
+import { decode as b64decode } from '../../../core/crypto/base64';
+import type { MedicalDocument } from '../../../types/document';
+import { makeDocument } from '../../helpers/testData';
+
+const ONE_PIXEL_PNG = b64decode(
+  'iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAQAAAC1HAwCAAAAC0lEQVR42mNkYAAAAAYAAjCB0C8AAAAASUVORK5CYII=',
+);
+
+function photoRef(value: string, format: string, created: string): MedicalDocument {
+  return {
+    value,
+    metadata: { type: 'attachment_ref', created, format },
+    children: [],
+  };
+}
+
+const PATIENT_INFO = makeDocument({ value: '# Jordan Lee\n\nDOB: 1984-06-02\n', type: 'patient-info' });
+
+const ENTRIES: BinderSummaryEntry[] = [
+  {
+    path: 'medications/2025-01-10-lisinopril.json',
+    doc: makeDocument({
+      type: 'medication',
+      value: '# Lisinopril\n\n- Dosage: 10 mg\n- Frequency: Once daily\n- Started: 2025-01-10',
+    }),
+  },
+  {
+    path: 'medications/2024-05-01-amoxicillin.json',
+    doc: makeDocument({
+      type: 'medication',
+      value: '# Amoxicillin\n\n- Dosage: 500 mg\n- Frequency: 3x daily\n- Started: 2024-05-01\n- Stopped: 2024-05-10',
+    }),
+  },
+  {
+    path: 'allergies/2020-01-01-penicillin.json',
+    doc: makeDocument({ type: 'allergy', value: '# Penicillin\n\n- Reaction: Hives\n- Severity: Moderate' }),
+  },
+  {
+    path: 'allergies/2019-01-01-latex.json',
+    doc: makeDocument({ type: 'allergy', value: '# Latex\n\n- Status: Resolved' }),
+  },
+  {
+    path: 'conditions/eczema/2025-03-01-flare.json',
+    doc: makeDocument({
+      value: '# Flare',
+      created: '2025-03-01T10:00:00.000Z',
+      children: [photoRef('2025-03-01-flare.png.enc', 'png', '2025-03-01T10:00:00.000Z')],
+    }),
+  },
+  {
+    path: 'conditions/eczema/overview.json',
+    doc: makeDocument({ type: 'condition', value: '# Atopic Dermatitis\n\nOngoing condition tracking.\n', created: '2025-04-01T10:00:00.000Z' }),
+  },
+  {
+    path: 'conditions/eczema/2025-03-02-voice.json',
+    doc: makeDocument({ children: [photoRef('2025-03-02-voice.m4a.enc', 'm4a', '2025-03-02T10:00:00.000Z')] }),
+  },
+  ...['2026-01-05', '2025-11-20', '2025-06-14'].map((date) => ({
+    path: `visits/${date}-checkup.json`,
+    doc: makeDocument({
+      type: 'visit',
+      provider: 'Dr. Rivera',
+      created: `${date}T09:00:00.000Z`,
+      value: `# Visit — ${date}\n\n## Assessment\n\n- **Stable** blood pressure\n\n## Plan\n\nRecheck in 6 months\n`,
+    }),
+  })),
+];
+
+describe('buildBinderSummary', () => {
+  test('sorts entries into summary sections', () => {
+    const summary = buildBinderSummary({
+      patientInfo: PATIENT_INFO,
+      entries: ENTRIES,
+      folders: [],
+      recentVisitLimit: 2,
+      today: '2026-02-01',
+    });
+
+    expect(summary.patient).toEqual({ name: 'Jordan Lee', dateOfBirth: '1984-06-02' });
+    expect(summary.medications).toEqual([
+      { name: 'Lisinopril', dosage: '10 mg', frequency: 'Once daily', startDate: '2025-01-10' },
+    ]);
+    expect(summary.allergies).toEqual([{ name: 'Penicillin', reaction: 'Hives', severity: 'Moderate' }]);
+    expect(summary.conditions).toEqual([{ name: 'Atopic Dermatitis', since: '2025-03-01' }]);
+    expect(summary.visits.map((v) => v.date)).toEqual(['2026-01-05', '2025-11-20']);
+    expect(summary.visits[0]).toMatchObject({
+      provider: 'Dr. Rivera',
+      assessment: 'Stable blood pressure',
+      plan: 'Recheck in 6 months',
+    });
+    expect(summary.photos).toEqual([{
+      sidecarPath: 'conditions/eczema/2025-03-01-flare.png.enc',
+      format: 'png',
+      caption: 'Flare',
+      date: '2025-03-01',
+    }]);
+  });
+
+  test('only includes the chosen folders, falling back to the binder title', () => {
+    const summary = buildBinderSummary({ patientInfo: null, entries: ENTRIES, folders: ['allergies'] }, 'My Binder');
+    expect(summary.patient).toEqual({ name: 'My Binder' });
+    expect(summary.allergies).toHaveLength(1);
+    expect(summary.medications).toHaveLength(0);
+    expect(summary.visits).toHaveLength(0);
+    expect(summary.photos).toHaveLength(0);
+  });
+
+  test('keeps a medication whose stop date is still ahead', () => {
+    const summary = buildBinderSummary({
+      patientInfo: null,
+      folders: [],
+      today: '2026-02-01',
+      entries: [{
+        path: 'medications/2026-01-20-prednisone.json',
+        doc: makeDocument({
+          type: 'medication',
+          value: '# Prednisone\n\n- Dosage: 20 mg\n- Frequency: Daily\n- Started: 2026-01-20\n- Stopped: 2026-02-03',
+        }),
+      }],
+    });
+    expect(summary.medications.map((m) => m.name)).toEqual(['Prednisone']);
+  });
+});
+
+describe('toPdfText', () => {
+  test('keeps Latin-1 and typographic punctuation, drops emoji, marks other scripts', () => {
+    expect(toPdfText('Visit — “café” 💊\nnotes')).toBe('Visit — “café” notes');
+    expect(toPdfText('湿疹')).toBe('??');
+  });
+});
+
+describe('renderBinderSummaryPdf', () => {
+  test('renders a cover, the sections, and a photo page', async () => {
+    const summary = buildBinderSummary({ patientInfo: PATIENT_INFO, entries: ENTRIES, folders: [] });
+    const photoBytes = new Map([[summary.photos[0].sidecarPath, ONE_PIXEL_PNG]]);
+
+    const bytes = await renderBinderSummaryPdf(summary, photoBytes, new Date('2026-02-01T12:00:00Z'));
+    const pdf = await PDFDocument.load(bytes);
+
+    expect(pdf.getPageCount()).toBe(3);
+    expect(pdf.getTitle()).toBe('Jordan Lee — Medical Summary');
+  });
+
+  test('leaves out the photo page when no photo could be read', async () => {
+    const summary = buildBinderSummary({ patientInfo: PATIENT_INFO, entries: ENTRIES, folders: [] });
+    const bytes = await renderBinderSummaryPdf(summary, new Map());
+    expect((await PDFDocument.load(bytes)).getPageCount()).toBe(2);
+  });
+});
@@ -0,0 +1,52 @@
+import { vi } from 'vitest';
+import { createDecryptedMergeDriver } from '../../../core/binder/DecryptedMerge';
+import { decrypt, encrypt } from '../../../core/crypto/nip44';
+
+const OLD_KEY = new Uint8Array(32).fill(1);
+const NEW_KEY = new Uint8Array(32).fill(2);
+const BASE = { type: 'note', value: 'Blood pressure log', metadata: { tags: ['bp'], updated: '2026-03-01' } };
+
+function sealed(doc: unknown, key: Uint8Array): string {
+  return encrypt(JSON.stringify(doc), key);
+}
+
+async function merge(driver: ReturnType<typeof createDecryptedMergeDriver>, path: string, contents: string[]) {
+  return driver({ branches: ['base', 'ours', 'theirs'], contents, path });
+}
+
+describe('createDecryptedMergeDriver', () => {
+  test('merges a document re-keyed locally with a remote edit under the old key', async () => {
+    const driver = createDecryptedMergeDriver({ keys: [NEW_KEY, OLD_KEY], outputKey: NEW_KEY });
+
+    const result = await merge(driver, 'notes/bp.json', [
+      sealed(BASE, OLD_KEY),
+      sealed(BASE, NEW_KEY),
+      sealed({ ...BASE, value: 'Blood pressure log (morning)' }, OLD_KEY),
+    ]);
+
+    expect(result.cleanMerge).toBe(true);
+    expect(JSON.parse(decrypt(result.mergedText, NEW_KEY))).toEqual({ ...BASE, value: 'Blood pressure log (morning)' });
+  });
+
+  test('keeps the local version and reports the plaintexts on conflict', async () => {
+    const onConflict = vi.fn();
+    const driver = createDecryptedMergeDriver({ keys: [OLD_KEY], outputKey: OLD_KEY, onConflict });
+
+    const result = await merge(driver, 'notes/bp.json', [
+      sealed(BASE, OLD_KEY),
+      sealed({ ...BASE, value: 'Ours' }, OLD_KEY),
+      sealed({ ...BASE, value: 'Theirs' }, OLD_KEY),
+    ]);
+
+    expect(JSON.parse(decrypt(result.mergedText, OLD_KEY)).value).toBe('Ours');
+    expect(onConflict).toHaveBeenCalledWith('notes/bp.json', expect.any(String), expect.any(String), expect.any(String));
+  });
+
+  test('merges sidecars as ciphertext', async () => {
+    const driver = createDecryptedMergeDriver({ keys: [OLD_KEY], outputKey: OLD_KEY });
+
+    const result = await merge(driver, 'notes/scan.enc', ['base\n', 'ours\n', 'theirs\n']);
+
+    expect(result).toEqual({ cleanMerge: true, mergedText: 'ours\n' });
+  });
+});
@@ -0,0 +1,125 @@
+import { vi } from 'vitest';
+
+vi.mock('react-native-fs', () => ({ default: { DocumentDirectoryPath: '/tmp', TemporaryDirectoryPath: '/tmp' } }));
+
+import { PDFDocument } from 'pdf-lib';
+import {
+  buildScanMarkdown,
+  renderScanPdf,
+  scanTitle,
+  suggestScanFolder,
+  SCAN_FALLBACK_TITLE,
+} from '../../../core/binder/DocumentScan';
+import { createScannedDocument, documentFits } from '../../../core/binder/DocumentModel';
+import { inferDocumentRule } from '../../../core/binder/folderBehavior';
+import { decode as b64decode } from '../../../core/crypto/base64';
+
+const ONE_PIXEL_JPEG = b64decode(
+  '/9j/4AAQSkZJRgABAQEASABIAAD/2wBDAP//////////////////////////////////////////////////////////////////////////////////////wgALCAABAAEBAREA/8QAFBABAAAAAAAAAAAAAAAAAAAAAP/aAAgBAQABPxA=',
+);
+
+const LAB_TEXT = `QUEST DIAGNOSTICS
+Lab Report
+Specimen collected 03/02/2026
+Lipid Panel   Result   Reference Range
+LDL 128 mg/dL  <100`;
+
+describe('inferDocumentRule', () => {
+  test('picks the rule with the most keyword hits', () => {
+    expect(inferDocumentRule(LAB_TEXT)?.id).toBe('lab');
+    expect(inferDocumentRule('Explanation of Benefits\nClaim 1234\nAmount due: $40 copay')?.id)
+      .toBe('billing-insurance');
+  });
+
+  test('matches whole words only', () => {
+    // "rx" inside a word and "claim" inside "disclaimer" do not count.
+    expect(inferDocumentRule('Proxy disclaimer')).toBeNull();
+  });
+
+  test('returns null when nothing matches', () => {
+    expect(inferDocumentRule('Grocery list: apples, bread')).toBeNull();
+  });
+});
+
+describe('scanTitle', () => {
+  test('uses the first line that reads like a heading', () => {
+    expect(scanTitle(['03/02/2026\n  Lab   Report \nLDL 128'])).toBe('Lab Report');
+  });
+
+  test('falls back when no page has usable text', () => {
+    expect(scanTitle(['', '12-34-56'])).toBe(SCAN_FALLBACK_TITLE);
+  });
+
+  test('truncates long lines', () => {
+    const title = scanTitle(['A'.repeat(90)]);
+    expect(title.length).toBeLessThanOrEqual(60);
+    expect(title.endsWith('…')).toBe(true);
+  });
+});
+
+describe('buildScanMarkdown', () => {
+  test('single page: title and text', () => {
+    expect(buildScanMarkdown('Lab Report', ['LDL 128'])).toBe('# Lab Report\n\nLDL 128\n');
+  });
+
+  test('multiple pages get headings and empty pages are marked', () => {
+    expect(buildScanMarkdown('Discharge', ['Page one', ''])).toBe(
+      '# Discharge\n\n## Page 1\n\nPage one\n\n## Page 2\n\n_No text recognized._\n',
+    );
+  });
+
+  test('escapes recognized lines that start with #', () => {
+    expect(buildScanMarkdown('Invoice', ['# 12345\nTotal'])).toBe('# Invoice\n\n\\# 12345\nTotal\n');
+  });
+
+  test('cuts long text so the entry stays within one encrypted document', () => {
+    const page = 'Patient tolerated the procedure well — no complications.\n'.repeat(400);
+    const markdown = buildScanMarkdown('Operative Report', Array.from({ length: 5 }, () => page));
+    const doc = createScannedDocument(markdown, '2026-03-02-operative-report.pdf.enc', 250_000);
+
+    expect(documentFits({ ...doc, metadata: { ...doc.metadata, displayOrder: 3 } })).toBe(true);
+    expect(markdown).toContain('## Page 2');
+    expect(markdown).not.toContain('## Page 5');
+    expect(markdown.endsWith('\n\n_Text shortened; see the attached PDF for the rest._\n')).toBe(true);
+  });
+});
+
+describe('suggestScanFolder', () => {
+  test('prefers an existing folder that implies the same behavior', () => {
+    expect(suggestScanFolder(LAB_TEXT, ['visits', 'bloodwork'])).toEqual({
+      folder: 'bloodwork',
+      label: 'Lab Results',
+      icon: '🧪',
+      create: false,
+    });
+  });
+
+  test('matches category folder aliases', () => {
+    expect(suggestScanFolder('Radiology impression: MRI of the knee', ['labs-imaging'])).toMatchObject({
+      folder: 'labs-imaging',
+      create: false,
+    });
+  });
+
+  test('suggests creating the category folder when the binder has none', () => {
+    expect(suggestScanFolder(LAB_TEXT, ['visits'])).toMatchObject({ folder: 'labs', create: true });
+  });
+
+  test('returns null for unrecognized text', () => {
+    expect(suggestScanFolder('Grocery list', ['labs'])).toBeNull();
+  });
+});
+
+describe('renderScanPdf', () => {
+  test('puts each page image on its own page', async () => {
+    const bytes = await renderScanPdf([ONE_PIXEL_JPEG, ONE_PIXEL_JPEG, ONE_PIXEL_JPEG]);
+    const pdf = await PDFDocument.load(bytes);
+
+    expect(pdf.getPageCount()).toBe(3);
+    expect(pdf.getPage(0).getSize()).toEqual({ width: 612, height: 612 });
+  });
+
+  test('rejects an empty scan', async () => {
+    await expect(renderScanPdf([])).rejects.toThrow('at least one page');
+  });
+});
@@ -1,4 +1,7 @@
+import { secp256k1 } from '@noble/curves/secp256k1.js';
+import { bytesToHex } from '@noble/hashes/utils.js';
 import { EncryptedIO } from '../../../core/binder/EncryptedIO';
+import { getConversationKey } from '../../../core/crypto/nip44';
 import { clearAll } from '../../../core/binder/BinderCache';
 import { createMockEncryptedFS } from '../../helpers/mockFS';
 import { TEST_CONVERSATION_KEY } from '../../helpers/testKeys';
@@ -9,6 +12,10 @@ beforeEach(() => {
   clearAll();
 });
 
+const OTHER_PRIVKEY = new Uint8Array(32).fill(0x42);
+const OTHER_PUBKEY = bytesToHex(secp256k1.getPublicKey(OTHER_PRIVKEY, true)).slice(2);
+const OTHER_CONVERSATION_KEY = getConversationKey(OTHER_PRIVKEY, OTHER_PUBKEY);
+
 function createIO() {
   const mockFS = createMockEncryptedFS();
   const io = new EncryptedIO(mockFS, TEST_CONVERSATION_KEY, '/repo');
@@ -151,4 +158,32 @@ describe('EncryptedIO', () => {
       expect(result).toEqual(binaryData);
     });
   });
+
+  describe('re-keying for master key rotation', () => {
+    test('rekeyJSON moves a document to the new key', async () => {
+      const { io } = createIO();
+      const doc = makeDocument({ value: '# Rotated' });
+      await io.writeDocument('/entry.json', doc);
+
+      await io.rekeyJSON('/entry.json', TEST_CONVERSATION_KEY, OTHER_CONVERSATION_KEY);
+
+      expect(await io.readDocumentWithKey('/entry.json', OTHER_CONVERSATION_KEY)).toEqual(doc);
+      await expect(io.readDocumentWithKey('/entry.json', TEST_CONVERSATION_KEY)).rejects.toThrow();
+    });
+
+    test('isEncryptedWithKey tells old-key files from re-keyed ones', async () => {
+      const { io } = createIO();
+      await io.writeDocument('/entry.json', makeDocument());
+      await io.writeSidecar('/scan.enc', new Uint8Array([9, 8, 7]));
+
+      expect(await io.isEncryptedWithKey('/entry.json', OTHER_CONVERSATION_KEY)).toBe(false);
+      expect(await io.isEncryptedWithKey('/scan.enc', OTHER_CONVERSATION_KEY)).toBe(false);
+
+      await io.rekeyJSON('/entry.json', TEST_CONVERSATION_KEY, OTHER_CONVERSATION_KEY);
+      await io.rewrapSidecar('/scan.enc', '/scan.enc', TEST_CONVERSATION_KEY, OTHER_CONVERSATION_KEY);
+
+      expect(await io.isEncryptedWithKey('/entry.json', OTHER_CONVERSATION_KEY)).toBe(true);
+      expect(await io.isEncryptedWithKey('/scan.enc', OTHER_CONVERSATION_KEY)).toBe(true);
+    });
+  });
 });
@@ -0,0 +1,167 @@
+import { vi } from 'vitest';
+
+vi.mock('expo-secure-store', () => {
+  const store = new Map<string, string>();
+  return {
+    getItemAsync: async (key: string) => store.get(key) ?? null,
+    setItemAsync: async (key: string, value: string) => {
+      store.set(key, value);
+    },
+    deleteItemAsync: async (key: string) => {
+      store.delete(key);
+    },
+  };
+});
+vi.mock('react-native-fs', async () => {
+  const { createDiskRNFS, makeTempRoot } = await import('../../helpers/diskFS');
+  return { default: createDiskRNFS(await makeTempRoot()) };
+});
+
+import fs from 'node:fs/promises';
+import { secp256k1 } from '@noble/curves/secp256k1.js';
+import RNFS from 'react-native-fs';
+import { ENDPOINTS } from '../../../constants/api';
+import {
+  KEYRING_FILENAME,
+  createKeyring,
+  generateBinderKey,
+  parseKeyring,
+  unwrapBinderKey,
+  writeKeyring,
+} from '../../../core/binder/BinderKeyring';
+import { EncryptedIO } from '../../../core/binder/EncryptedIO';
+import {
+  buildRotationContent,
+  createRotationState,
+  pendingRotationBinders,
+  rewrapSchedulerKey,
+  rotateMasterKey,
+  withBinderRotated,
+} from '../../../core/binder/KeyRotation';
+import { KeyManager } from '../../../core/crypto/KeyManager';
+import * as nip04 from '../../../core/crypto/nip04';
+import { decrypt } from '../../../core/crypto/nip44';
+import { createFSAdapter } from '../../../core/git/fsAdapter';
+import { GitEngine } from '../../../core/git/GitEngine';
+import { makeDocument } from '../../helpers/testData';
+
+const OLD = 'a'.repeat(64);
+const NEW = 'b'.repeat(64);
+
+describe('key rotation plan', () => {
+  test('starts with every binder pending', () => {
+    const state = createRotationState(OLD, NEW, ['binder-1', 'binder-2'], new Date('2026-03-01T12:00:00.000Z'));
+    expect(state.startedAt).toBe('2026-03-01T12:00:00.000Z');
+    expect(pendingRotationBinders(state)).toEqual(['binder-1', 'binder-2']);
+  });
+
+  test('marks binders done without touching the original plan', () => {
+    const state = createRotationState(OLD, NEW, ['binder-1', 'binder-2'], new Date());
+    const next = withBinderRotated(state, 'binder-1');
+    expect(pendingRotationBinders(next)).toEqual(['binder-2']);
+    expect(pendingRotationBinders(state)).toEqual(['binder-1', 'binder-2']);
+  });
+});
+
+describe('buildRotationContent', () => {
+  test('binds both pubkeys and a unix timestamp', () => {
+    expect(buildRotationContent(OLD, NEW, new Date('2026-03-01T00:00:00.500Z')))
+      .toBe(`rotate-nostr:${OLD}:${NEW}:1772323200`);
+  });
+});
+
+describe('rewrapSchedulerKey', () => {
+  const oldPrivkey = secp256k1.utils.randomSecretKey();
+  const newPrivkey = secp256k1.utils.randomSecretKey();
+  const edPrivkey = '9d61b19deffd5a60ba844af492ec2cc44449c5697b326919703bac031cae7f60';
+  const wrapTo = (privkey: Uint8Array) => nip04.encrypt(privkey, KeyManager.pubkeyFromPrivkey(privkey), edPrivkey);
+
+  test('re-encrypts the Ed25519 key from the old master key to the new one', () => {
+    const rewrapped = rewrapSchedulerKey(wrapTo(oldPrivkey), oldPrivkey, newPrivkey);
+
+    expect(rewrapped?.ed25519Pubkey).toBe('d75a980182b10ab7d54bfed3c964073a0ee172f3daa62325af021a68f707511a');
+    expect(nip04.decrypt(newPrivkey, KeyManager.pubkeyFromPrivkey(newPrivkey), rewrapped!.encryptedKey)).toBe(edPrivkey);
+  });
+
+  test('leaves a key that already moved alone and rejects foreign ones', () => {
+    expect(rewrapSchedulerKey(wrapTo(newPrivkey), oldPrivkey, newPrivkey)).toBeNull();
+    expect(() => rewrapSchedulerKey(wrapTo(secp256k1.utils.randomSecretKey()), oldPrivkey, newPrivkey)).toThrow(
+      'The scheduler key could not be decrypted with the current key.',
+    );
+  });
+});
+
+describe('rotateMasterKey', () => {
+  const repoId = 'binder-1';
+  const repoDir = `binders/${repoId}`;
+  const entryPath = 'visits/2026-03-01-checkup.json';
+  const oldPrivkey = secp256k1.utils.randomSecretKey();
+  const caregiverPrivkey = secp256k1.utils.randomSecretKey();
+
+  afterAll(async () => {
+    vi.restoreAllMocks();
+    vi.unstubAllGlobals();
+    await fs.rm(RNFS.DocumentDirectoryPath, { recursive: true, force: true });
+  });
+
+  async function backdate(filepaths: string[]): Promise<void> {
+    const past = new Date(Date.now() - 60 * 60 * 1000);
+    for (const filepath of filepaths) {
+      await fs.utimes(`${RNFS.DocumentDirectoryPath}/${repoDir}/${filepath}`, past, past);
+    }
+  }
+
+  async function readAtCommit(oid: string, filepath: string): Promise<string> {
+    return new TextDecoder().decode(await GitEngine.readFileAtCommit(repoDir, oid, filepath));
+  }
+
+  test('moves a shared binder to a binder key the old master key cannot reach', async () => {
+    await GitEngine.initBinder(repoDir);
+    const binderKey = generateBinderKey();
+    await writeKeyring(repoDir, createKeyring(binderKey, oldPrivkey, [KeyManager.pubkeyFromPrivkey(caregiverPrivkey)]));
+    const io = new EncryptedIO(createFSAdapter(repoDir), binderKey, repoDir);
+    await io.writeDocument('/' + entryPath, makeDocument({ value: 'BP 120/80' }));
+    // Git compares whole-second mtimes: backdate so the re-keyed files read as changed.
+    await backdate([KEYRING_FILENAME, entryPath]);
+    const sharedOid = await GitEngine.commitEntry(repoDir, [KEYRING_FILENAME, entryPath], 'Share binder access');
+
+    vi.spyOn(GitEngine, 'pull').mockResolvedValue();
+    vi.spyOn(GitEngine, 'push').mockResolvedValue();
+    vi.stubGlobal('fetch', vi.fn(async (url: string) => new Response(JSON.stringify(
+      url === ENDPOINTS.userRepositories ? [{ id: repoId }]
+        : url === ENDPOINTS.rotateNostrKey ? { token: 'rotated-jwt' }
+        : {},
+    ))));
+    let rotationPrivkey: Uint8Array | null = null;
+    const keyManager = {
+      storeRotationPrivkey: async (privkey: Uint8Array) => {
+        rotationPrivkey = privkey;
+      },
+      getRotationPrivkey: async () => rotationPrivkey,
+      promoteRotationPrivkey: async () => {
+        rotationPrivkey = null;
+      },
+      deleteRotationPrivkey: async () => {
+        rotationPrivkey = null;
+      },
+    } as unknown as KeyManager;
+
+    const result = await rotateMasterKey({
+      keyManager,
+      currentPrivkey: oldPrivkey,
+      jwt: 'jwt',
+      author: { name: 'Test', email: 'test@example.com' },
+    });
+
+    const head = (await GitEngine.resolveHead(repoDir))!;
+    const entry = await readAtCommit(head, entryPath);
+    const keyring = parseKeyring(await readAtCommit(head, KEYRING_FILENAME));
+    // All the old key still opens: the keyring left in history.
+    const leakedKey = unwrapBinderKey(parseKeyring(await readAtCommit(sharedOid, KEYRING_FILENAME)), oldPrivkey);
+
+    expect(() => decrypt(entry, leakedKey)).toThrow();
+    expect(() => unwrapBinderKey(keyring, oldPrivkey)).toThrow();
+    expect(JSON.parse(decrypt(entry, unwrapBinderKey(keyring, result.privkey))).value).toBe('BP 120/80');
+    expect(JSON.parse(decrypt(entry, unwrapBinderKey(keyring, caregiverPrivkey))).value).toBe('BP 120/80');
+  });
+});
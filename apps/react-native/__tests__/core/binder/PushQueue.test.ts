@@ -0,0 +1,75 @@
+import { vi } from 'vitest';
+
+const stored = new Map<string, string>();
+
+vi.mock('expo-secure-store', () => ({
+  getItemAsync: async (key: string) => stored.get(key) ?? null,
+  setItemAsync: async (key: string, value: string) => {
+    stored.set(key, value);
+  },
+}));
+
+import {
+  clearPushQueueEntry,
+  isForbiddenPushError,
+  isPushDue,
+  nextDueAt,
+  nextRetryDelay,
+  readPushQueue,
+  subscribePushQueue,
+  updatePushQueueEntry,
+  withFailedAttempt,
+  withQueuedCommit,
+} from '../../../core/binder/PushQueue';
+
+const REPO = { repoId: 'binder-1', repoDir: 'binders/binder-1' };
+const NOW = new Date('2026-03-01T12:00:00.000Z');
+
+describe('push queue entries', () => {
+  test('backs off exponentially up to the cap', () => {
+    expect([1, 2, 3, 4].map(nextRetryDelay)).toEqual([5_000, 10_000, 20_000, 40_000]);
+    expect(nextRetryDelay(20)).toBe(15 * 60_000);
+  });
+
+  test('counts queued commits and schedules the next attempt', () => {
+    const queued = withQueuedCommit(undefined, REPO, NOW);
+    expect(queued).toMatchObject({ commits: 1, attempts: 0, state: 'pending' });
+    expect(isPushDue(queued, NOW)).toBe(true);
+
+    const failed = withFailedAttempt(withQueuedCommit(queued, REPO, NOW), new Error('Network request failed'), NOW);
+    expect(failed).toMatchObject({ commits: 2, attempts: 1, state: 'pending', lastError: 'Network request failed' });
+    expect(failed.nextAttemptAt).toBe('2026-03-01T12:00:05.000Z');
+    expect(isPushDue(failed, NOW)).toBe(false);
+    expect(isPushDue(failed, new Date('2026-03-01T12:00:05.000Z'))).toBe(true);
+  });
+
+  test('stops retrying on its own when the server refuses the push', () => {
+    const failed = withFailedAttempt(withQueuedCommit(undefined, REPO, NOW), new Error('HTTP Error: 403 Forbidden'), NOW);
+    expect(failed.state).toBe('failed');
+    expect(isPushDue(failed, new Date('2030-01-01T00:00:00.000Z'))).toBe(false);
+    expect(nextDueAt({ [REPO.repoId]: failed })).toBeNull();
+  });
+
+  test('tells a refused push from an expired session', () => {
+    expect(isForbiddenPushError(new Error('HTTP Error: 403 Forbidden'))).toBe(true);
+    expect(isForbiddenPushError(new Error('HTTP Error: 401 Unauthorized'))).toBe(false);
+    expect(isForbiddenPushError(new Error('Network request failed'))).toBe(false);
+  });
+});
+
+describe('push queue store', () => {
+  test('persists entries and notifies subscribers', async () => {
+    const seen: number[] = [];
+    const unsubscribe = subscribePushQueue((queue) => seen.push(Object.keys(queue).length));
+
+    await updatePushQueueEntry(REPO.repoId, (entry) => withQueuedCommit(entry, REPO, NOW));
+    await updatePushQueueEntry('binder-2', (entry) => withQueuedCommit(entry, { repoId: 'binder-2', repoDir: 'binders/binder-2' }, NOW));
+    expect(JSON.parse(stored.get('limbo_push_queue_v1')!)).toHaveProperty('binder-2');
+    expect((await readPushQueue())[REPO.repoId].commits).toBe(1);
+
+    await clearPushQueueEntry(REPO.repoId);
+    expect(Object.keys(await readPushQueue())).toEqual(['binder-2']);
+    expect(seen).toEqual([1, 2, 1]);
+    unsubscribe();
+  });
+});
@@ -0,0 +1,68 @@
+import { diffDocuments, diffLines } from '../../../core/binder/RevisionDiff';
+import { makeDocument } from '../../helpers/testData';
+
+describe('diffLines', () => {
+  test('reports identical text as all equal', () => {
+    const lines = diffLines('# Note\n\nSame', '# Note\n\nSame');
+    expect(lines.every((line) => line.kind === 'equal')).toBe(true);
+    expect(lines).toHaveLength(3);
+  });
+
+  test('marks a changed line as removed then added', () => {
+    const lines = diffLines('# Visit\n\nBP 140/90\nFollow up', '# Visit\n\nBP 120/80\nFollow up');
+    expect(lines.map((line) => [line.kind, line.text])).toEqual([
+      ['equal', '# Visit'],
+      ['equal', ''],
+      ['removed', 'BP 140/90'],
+      ['added', 'BP 120/80'],
+      ['equal', 'Follow up'],
+    ]);
+  });
+
+  test('numbers lines against each version', () => {
+    const lines = diffLines('a\nb\nc', 'a\nc\nd');
+    expect(lines).toEqual([
+      { kind: 'equal', text: 'a', oldLine: 1, newLine: 1 },
+      { kind: 'removed', text: 'b', oldLine: 2 },
+      { kind: 'equal', text: 'c', oldLine: 3, newLine: 2 },
+      { kind: 'added', text: 'd', newLine: 3 },
+    ]);
+  });
+
+  test('treats an empty side as no lines', () => {
+    expect(diffLines('', 'new\nnote').map((line) => line.kind)).toEqual(['added', 'added']);
+    expect(diffLines('old', '').map((line) => line.kind)).toEqual(['removed']);
+  });
+});
+
+describe('diffDocuments', () => {
+  test('counts line changes and reports metadata changes', () => {
+    const before = makeDocument({ value: '# Checkup\n\nKnee pain', provider: 'Dr. Patel' });
+    const after = makeDocument({
+      value: '# Checkup\n\nKnee pain resolved',
+      provider: 'Dr. Lee',
+      tags: ['knee'],
+    });
+
+    const diff = diffDocuments(before, after);
+    expect(diff.added).toBe(1);
+    expect(diff.removed).toBe(1);
+    expect(diff.metadataChanges).toEqual([
+      { field: 'provider', before: 'Dr. Patel', after: 'Dr. Lee' },
+      { field: 'tags', after: 'knee' },
+    ]);
+  });
+
+  test('ignores timestamp churn', () => {
+    const before = makeDocument({ value: 'Same', created: '2026-01-01T00:00:00.000Z' });
+    const after = makeDocument({ value: 'Same', created: '2026-02-01T00:00:00.000Z' });
+    expect(diffDocuments(before, after).metadataChanges).toEqual([]);
+  });
+
+  test('diffs a deleted entry against nothing', () => {
+    const diff = diffDocuments(makeDocument({ value: '# Gone\n\nBody' }), null);
+    expect(diff.removed).toBe(3);
+    expect(diff.added).toBe(0);
+    expect(diff.metadataChanges).toEqual([{ field: 'type', before: 'visit' }]);
+  });
+});
@@ -0,0 +1,173 @@
+import {
+  buildSearchIndexEntry,
+  buildSnippet,
+  createEmptySearchIndex,
+  isSearchableDocumentPath,
+  markdownToPlainText,
+  searchIndex,
+  tokenize,
+  type SearchIndexSnapshot,
+} from '../../../core/binder/SearchIndex';
+import { buildMedicationMarkdown } from '../../../core/markdown/medicationEntry';
+import { createTranscriptDocument } from '../../../core/audio/transcript';
+import { makeDocument } from '../../helpers/testData';
+import type { MedicalDocument } from '../../../types/document';
+
+function indexOf(docs: Record<string, MedicalDocument>): SearchIndexSnapshot {
+  const snapshot = createEmptySearchIndex('abc123');
+  for (const [path, doc] of Object.entries(docs)) {
+    snapshot.entries[path] = buildSearchIndexEntry(path, doc);
+  }
+  return snapshot;
+}
+
+describe('tokenize', () => {
+  test('lowercases, folds accents and splits on punctuation', () => {
+    expect(tokenize('Café-au-lait, HbA1c: 6.1%')).toEqual(['cafe', 'au', 'lait', 'hba1c', '6', '1']);
+  });
+});
+
+describe('markdownToPlainText', () => {
+  test('strips headings, list markers, links and emphasis', () => {
+    const text = markdownToPlainText('# Visit\n\n- **Dosage:** 10 mg\n> quoted [link](https://x.y)');
+    expect(text).toBe('Visit\nDosage: 10 mg\nquoted link');
+  });
+
+  test('drops front matter', () => {
+    expect(markdownToPlainText('---\nkind: note\n---\n\nBody text')).toBe('Body text');
+  });
+});
+
+describe('buildSearchIndexEntry', () => {
+  test('captures title, provider, tags and medication fields', () => {
+    const doc = makeDocument({
+      type: 'medication',
+      value: buildMedicationMarkdown({
+        name: 'Lisinopril',
+        dosage: '10 mg',
+        frequency: 'Once daily',
+        startDate: '2026-01-01',
+      }),
+      provider: 'Dr. Patel',
+      tags: ['blood-pressure'],
+    });
+
+    const entry = buildSearchIndexEntry('medications/2026-01-01-lisinopril.json', doc);
+    expect(entry.title).toBe('Lisinopril');
+    expect(entry.provider).toBe('Dr. Patel');
+    expect(entry.tags).toEqual(['blood-pressure']);
+    expect(entry.medication).toBe('Lisinopril 10 mg Once daily');
+  });
+
+  test('does not index the sidecar filename of attachment refs as body text', () => {
+    const doc = makeDocument({ type: 'attachment_ref', value: '2026-01-01-photo.jpg.enc' });
+    expect(buildSearchIndexEntry('conditions/2026-01-01-photo.json', doc).body).toBe('');
+  });
+
+  test('indexes a recording by its transcript, without timestamps', () => {
+    const transcript = createTranscriptDocument([
+      { startMs: 0, endMs: 4000, text: 'Blood pressure looks good.' },
+      { startMs: 65_000, endMs: 70_000, text: 'Start metformin next week.' },
+    ]);
+    const doc = makeDocument({
+      type: 'attachment_ref',
+      value: '2026-01-01-recording.m4a.enc',
+      children: [transcript],
+    });
+    expect(buildSearchIndexEntry('visits/2026-01-01-recording.json', doc).body)
+      .toBe('Blood pressure looks good.\nStart metformin next week.');
+  });
+});
+
+describe('isSearchableDocumentPath', () => {
+  test('accepts entries and rejects metadata, sidecars and patient-info', () => {
+    expect(isSearchableDocumentPath('visits/2026-01-15-checkup.json')).toBe(true);
+    expect(isSearchableDocumentPath('visits/.meta.json')).toBe(false);
+    expect(isSearchableDocumentPath('visits/2026-01-15-photo.jpg.enc')).toBe(false);
+    expect(isSearchableDocumentPath('patient-info.json')).toBe(false);
+  });
+});
+
+describe('searchIndex', () => {
+  const snapshot = indexOf({
+    'visits/2026-01-15-checkup.json': makeDocument({
+      value: '# Annual Checkup\n\nDiscussed knee pain after running.',
+      created: '2026-01-15T10:00:00.000Z',
+    }),
+    'conditions/knee/2026-02-01-knee-mri.json': makeDocument({
+      value: '# Knee MRI\n\nNo tear found.',
+      created: '2026-02-01T10:00:00.000Z',
+      provider: 'Austin Imaging',
+    }),
+    'medications/2026-01-01-ibuprofen.json': makeDocument({
+      type: 'medication',
+      value: buildMedicationMarkdown({
+        name: 'Ibuprofen',
+        dosage: '400 mg',
+        frequency: 'As needed',
+        startDate: '2026-01-01',
+      }),
+      tags: ['knee'],
+    }),
+  });
+
+  test('returns nothing for an empty query', () => {
+    expect(searchIndex(snapshot, '   ')).toEqual([]);
+  });
+
+  test('ranks title matches above body matches', () => {
+    const results = searchIndex(snapshot, 'knee');
+    expect(results.map((r) => r.path)).toEqual([
+      'conditions/knee/2026-02-01-knee-mri.json',
+      'medications/2026-01-01-ibuprofen.json',
+      'visits/2026-01-15-checkup.json',
+    ]);
+    expect(results[0].folderPath).toBe('conditions/knee');
+  });
+
+  test('requires every term to match', () => {
+    const results = searchIndex(snapshot, 'knee running');
+    expect(results.map((r) => r.path)).toEqual(['visits/2026-01-15-checkup.json']);
+  });
+
+  test('matches term prefixes while typing', () => {
+    const results = searchIndex(snapshot, 'ibupro');
+    expect(results).toHaveLength(1);
+    expect(results[0].matchedFields).toContain('medication');
+  });
+
+  test('matches provider names', () => {
+    const results = searchIndex(snapshot, 'austin');
+    expect(results.map((r) => r.path)).toEqual(['conditions/knee/2026-02-01-knee-mri.json']);
+    expect(results[0].matchedFields).toEqual(['provider']);
+  });
+
+  test('respects the result limit', () => {
+    expect(searchIndex(snapshot, 'knee', 1)).toHaveLength(1);
+  });
+});
+
+describe('buildSnippet', () => {
+  test('highlights every occurrence of each term', () => {
+    const snippet = buildSnippet('Knee pain in the left knee.', ['knee']);
+    expect(snippet.text).toBe('Knee pain in the left knee.');
+    expect(snippet.highlights).toEqual([
+      { start: 0, end: 4 },
+      { start: 22, end: 26 },
+    ]);
+  });
+
+  test('windows long text around the first match', () => {
+    const filler = 'word '.repeat(40);
+    const snippet = buildSnippet(`${filler}metformin started today`, ['metformin']);
+    expect(snippet.text.startsWith('…')).toBe(true);
+    const [highlight] = snippet.highlights;
+    expect(snippet.text.slice(highlight.start, highlight.end)).toBe('metformin');
+  });
+
+  test('keeps highlight offsets aligned for accented text', () => {
+    const snippet = buildSnippet('Café visit', ['cafe']);
+    const [highlight] = snippet.highlights;
+    expect(snippet.text.slice(highlight.start, highlight.end)).toBe('Café');
+  });
+});
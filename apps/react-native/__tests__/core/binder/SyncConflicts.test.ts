@@ -0,0 +1,87 @@
+import {
+  applyFieldMerge,
+  describeSyncStatus,
+  mergeConflictRecords,
+  planFieldMerge,
+  syncStateFor,
+  type BinderConflict,
+} from '../../../core/binder/SyncConflicts';
+import { buildMedicationMarkdown, parseMedicationEntry } from '../../../core/markdown/medicationEntry';
+import { makeDocument } from '../../helpers/testData';
+
+const BASE = { name: 'Lisinopril', dosage: '10 mg', frequency: 'Once daily', startDate: '2026-01-01' };
+
+function medication(fields: Partial<typeof BASE> & { stopDate?: string }) {
+  return makeDocument({ type: 'medication', value: buildMedicationMarkdown({ ...BASE, ...fields }) });
+}
+
+function conflict(overrides: Partial<BinderConflict> = {}): BinderConflict {
+  return {
+    path: 'medications/2026-01-01-lisinopril.json',
+    detectedAt: '2026-03-01T12:00:00.000Z',
+    base: medication({}),
+    ours: medication({ dosage: '20 mg' }),
+    theirs: medication({ stopDate: '2026-02-28' }),
+    ...overrides,
+  };
+}
+
+describe('planFieldMerge', () => {
+  test('takes each side for the fields only it changed', () => {
+    const plan = planFieldMerge(conflict())!;
+    const byKey = Object.fromEntries(plan.rows.map((row) => [row.key, row]));
+    expect(byKey.dosage).toMatchObject({ label: 'Dosage', ours: '20 mg', theirs: '10 mg', resolved: 'ours' });
+    expect(byKey.stopDate).toMatchObject({ label: 'Stop date', theirs: '2026-02-28', resolved: 'theirs' });
+    expect(plan.unresolved).toEqual([]);
+
+    const merged = parseMedicationEntry(applyFieldMerge(conflict(), {}).value).fields;
+    expect(merged).toMatchObject({ dosage: '20 mg', stopDate: '2026-02-28' });
+  });
+
+  test('asks for a choice when both sides changed a field', () => {
+    const both = conflict({ theirs: medication({ dosage: '5 mg' }) });
+    const plan = planFieldMerge(both)!;
+    expect(plan.unresolved).toEqual(['dosage']);
+    expect(() => applyFieldMerge(both, {})).toThrow('Choose a version for: Dosage');
+
+    const merged = applyFieldMerge(both, { dosage: 'theirs' }, new Date('2026-03-02T00:00:00.000Z'));
+    expect(parseMedicationEntry(merged.value).fields?.dosage).toBe('5 mg');
+    expect(merged.metadata.updated).toBe('2026-03-02T00:00:00.000Z');
+  });
+
+  test('treats every differing field as unresolved without a base', () => {
+    expect(planFieldMerge(conflict({ base: null }))!.unresolved).toEqual(['dosage', 'stopDate']);
+  });
+
+  test('is unavailable for free-text entries', () => {
+    const note = makeDocument({ value: '# Note\n\nOne' });
+    expect(planFieldMerge(conflict({ base: note, ours: note, theirs: makeDocument({ value: '# Note\n\nTwo' }) })))
+      .toBeNull();
+  });
+});
+
+describe('conflict records', () => {
+  test('replaces an older record for the same entry', () => {
+    const older = conflict({ detectedAt: '2026-01-01T00:00:00.000Z' });
+    const other = conflict({ path: 'allergies/a.json' });
+    const newer = conflict();
+    expect(mergeConflictRecords([older, other], [newer])).toEqual([other, newer]);
+  });
+});
+
+describe('sync status', () => {
+  test('derives the state from ahead/behind counts', () => {
+    expect(syncStateFor(0, 0, true)).toBe('synced');
+    expect(syncStateFor(2, 0, true)).toBe('ahead');
+    expect(syncStateFor(0, 1, true)).toBe('behind');
+    expect(syncStateFor(1, 3, true)).toBe('diverged');
+    expect(syncStateFor(1, 0, false)).toBe('unpublished');
+  });
+
+  test('describes conflicts before commit counts', () => {
+    expect(describeSyncStatus({ state: 'behind', ahead: 0, behind: 1, conflicts: 0 })).toBe('1 change to download');
+    expect(describeSyncStatus({ state: 'diverged', ahead: 2, behind: 3, conflicts: 0 }))
+      .toBe('Diverged (2 local, 3 remote)');
+    expect(describeSyncStatus({ state: 'synced', ahead: 0, behind: 0, conflicts: 2 })).toBe('2 conflicts to resolve');
+  });
+});
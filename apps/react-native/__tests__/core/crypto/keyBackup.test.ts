@@ -0,0 +1,61 @@
+import { bytesToHex } from '@noble/hashes/utils.js';
+import {
+  decryptNcryptsec,
+  detectSecretKeyFormat,
+  encodeNsec,
+  encryptPrivkey,
+  mnemonicToPrivkey,
+  parseSecretKey,
+  privkeyToMnemonic,
+} from '../../../core/crypto/keyBackup';
+import { TEST_PRIVKEY } from '../../helpers/testKeys';
+
+describe('recovery phrase', () => {
+  test('round-trips the key through 24 words', () => {
+    const mnemonic = privkeyToMnemonic(TEST_PRIVKEY);
+    expect(mnemonic.split(' ')).toHaveLength(24);
+    expect(mnemonicToPrivkey(mnemonic)).toEqual(TEST_PRIVKEY);
+  });
+
+  test('tolerates case and spacing but not a swapped word', () => {
+    const words = privkeyToMnemonic(TEST_PRIVKEY).split(' ');
+    expect(mnemonicToPrivkey(`  ${words.join('   ').toUpperCase()} `)).toEqual(TEST_PRIVKEY);
+
+    const swapped = [words[1], words[0], ...words.slice(2)].join(' ');
+    expect(() => mnemonicToPrivkey(swapped)).toThrow('not a valid 24-word phrase');
+  });
+});
+
+describe('ncryptsec (NIP-49)', () => {
+  test('decrypts the NIP-49 test vector', async () => {
+    const privkey = await decryptNcryptsec(
+      'ncryptsec1qgg9947rlpvqu76pj5ecreduf9jxhselq2nae2kghhvd5g7dgjtcxfqtd67p9m0w57lspw8gsq6yphnm8623nsl8xn9j4jdzz84zm3frztj3z7s35vpzmqf6ksu8r89qk5z2zxfmu5gv8th8wclt0h4p',
+      'nostr',
+    );
+    expect(bytesToHex(privkey)).toBe('3501454135014541350145413501453fefb02227e449e57cf4d3a3ce05378683');
+  });
+
+  test('round-trips with the right password and rejects the wrong one', async () => {
+    const ncryptsec = await encryptPrivkey(TEST_PRIVKEY, 'correct horse', 4);
+    expect(ncryptsec.startsWith('ncryptsec1')).toBe(true);
+    expect(await decryptNcryptsec(ncryptsec, 'correct horse')).toEqual(TEST_PRIVKEY);
+    await expect(decryptNcryptsec(ncryptsec, 'wrong horse')).rejects.toThrow('Wrong password');
+  });
+});
+
+describe('parseSecretKey', () => {
+  test('accepts every backup format', async () => {
+    expect(detectSecretKeyFormat(encodeNsec(TEST_PRIVKEY))).toBe('nsec');
+    expect(await parseSecretKey(encodeNsec(TEST_PRIVKEY))).toEqual(TEST_PRIVKEY);
+    expect(await parseSecretKey(bytesToHex(TEST_PRIVKEY))).toEqual(TEST_PRIVKEY);
+    expect(await parseSecretKey(privkeyToMnemonic(TEST_PRIVKEY))).toEqual(TEST_PRIVKEY);
+
+    const ncryptsec = await encryptPrivkey(TEST_PRIVKEY, 'pw', 4);
+    await expect(parseSecretKey(ncryptsec)).rejects.toThrow('Enter the password');
+    expect(await parseSecretKey(ncryptsec, 'pw')).toEqual(TEST_PRIVKEY);
+  });
+
+  test('rejects anything else', async () => {
+    await expect(parseSecretKey('not a key')).rejects.toThrow('24-word recovery phrase');
+  });
+});
@@ -0,0 +1,72 @@
+import {
+  canonicalJson,
+  documentDigest,
+  signDocument,
+  verifyDocumentSignature,
+} from '../../../core/crypto/noteSignature';
+import type { MedicalDocument } from '../../../types/document';
+import { TEST_PRIVKEY, TEST_PUBKEY } from '../../helpers/testKeys';
+
+function makeNote(): MedicalDocument {
+  return {
+    value: '# Visit — 2026-03-01\n\n## Assessment\n\nViral pharyngitis\n',
+    metadata: { type: 'visit', created: '2026-03-01T10:00:00.000Z', provider: 'Dr. Rivera' },
+    children: [
+      {
+        value: '2026-03-01-doctor-note-1.pdf.enc',
+        metadata: { type: 'attachment_ref', created: '2026-03-01T10:00:00.000Z', format: 'pdf', contentSha256: 'ab'.repeat(32) },
+        children: [],
+      },
+    ],
+  };
+}
+
+function signed(doc: MedicalDocument): MedicalDocument {
+  return { ...doc, metadata: { ...doc.metadata, signature: signDocument(doc, TEST_PRIVKEY, 1772359200) } };
+}
+
+describe('canonicalJson', () => {
+  test('sorts keys at every level and drops undefined', () => {
+    expect(canonicalJson({ b: 1, a: { d: [2, { z: 1, y: 2 }], c: undefined } })).toBe('{"a":{"d":[2,{"y":2,"z":1}]},"b":1}');
+  });
+});
+
+describe('note signatures', () => {
+  test('unsigned notes have no status to show', () => {
+    expect(verifyDocumentSignature(makeNote())).toEqual({ status: 'unsigned' });
+  });
+
+  test('verifies a signed note, independent of key order', () => {
+    const doc = signed(makeNote());
+    const reordered = JSON.parse(JSON.stringify({ children: doc.children, metadata: doc.metadata, value: doc.value }));
+    const result = verifyDocumentSignature(reordered);
+    expect(result).toEqual({ status: 'verified', pubkey: TEST_PUBKEY, signedAt: '2026-03-01T10:00:00.000Z' });
+  });
+
+  test('the digest ignores the signature itself', () => {
+    const doc = makeNote();
+    expect(documentDigest(signed(doc))).toBe(documentDigest(doc));
+  });
+
+  test('still verifies after the binder assigns a display order on import', () => {
+    const doc = signed(makeNote());
+    const imported = { ...doc, metadata: { ...doc.metadata, displayOrder: 3 } };
+    expect(verifyDocumentSignature(imported).status).toBe('verified');
+  });
+
+  test('an edited body or swapped attachment fails verification', () => {
+    const doc = signed(makeNote());
+    expect(verifyDocumentSignature({ ...doc, value: doc.value + 'Edited.' }).status).toBe('invalid');
+
+    const swapped = structuredClone(doc);
+    swapped.children[0].metadata.contentSha256 = 'cd'.repeat(32);
+    expect(verifyDocumentSignature(swapped).status).toBe('invalid');
+  });
+
+  test('a forged signature fails verification', () => {
+    const doc = signed(makeNote());
+    const sig = doc.metadata.signature!;
+    const forged = { ...doc, metadata: { ...doc.metadata, signature: { ...sig, sig: '00'.repeat(64) } } };
+    expect(verifyDocumentSignature(forged)).toEqual({ status: 'invalid', pubkey: TEST_PUBKEY });
+  });
+});
@@ -0,0 +1,65 @@
+import { bech32 } from '@scure/base';
+import { sha256 } from '@noble/hashes/sha2.js';
+import { bytesToHex } from '@noble/hashes/utils.js';
+import {
+  combineSecret,
+  decodeKeyShare,
+  encodeKeyShare,
+  recoverPrivkey,
+  splitPrivkey,
+  splitSecret,
+} from '../../../core/crypto/shamir';
+import { TEST_PRIVKEY } from '../../helpers/testKeys';
+
+describe('splitSecret / combineSecret', () => {
+  test('any threshold-sized subset rebuilds the secret', () => {
+    const ys = splitSecret(TEST_PRIVKEY, 3, 5);
+    const points = ys.map((y, i) => ({ x: i + 1, y }));
+    expect(combineSecret([points[0], points[2], points[4]])).toEqual(TEST_PRIVKEY);
+    expect(combineSecret([points[3], points[1], points[2]])).toEqual(TEST_PRIVKEY);
+  });
+
+  test('fewer points than the threshold do not', () => {
+    const ys = splitSecret(TEST_PRIVKEY, 3, 5);
+    expect(combineSecret([{ x: 1, y: ys[0] }, { x: 2, y: ys[1] }])).not.toEqual(TEST_PRIVKEY);
+  });
+
+  test('rejects impossible schemes', () => {
+    expect(() => splitSecret(TEST_PRIVKEY, 1, 3)).toThrow();
+    expect(() => splitSecret(TEST_PRIVKEY, 4, 3)).toThrow();
+  });
+});
+
+describe('key shares', () => {
+  test('recover the key from any two of three shares', () => {
+    const shares = splitPrivkey(TEST_PRIVKEY, 2, 3);
+    expect(shares.every((s) => s.startsWith('limboshare1'))).toBe(true);
+    expect(recoverPrivkey([shares[2], shares[0]])).toEqual(TEST_PRIVKEY);
+  });
+
+  test('explain what is missing or mixed up', () => {
+    const shares = splitPrivkey(TEST_PRIVKEY, 3, 5);
+    expect(() => recoverPrivkey([shares[0], shares[0], shares[1]])).toThrow('3 different shares are needed; 2 entered.');
+
+    const otherSet = splitPrivkey(TEST_PRIVKEY, 3, 5);
+    expect(() => recoverPrivkey([shares[0], shares[1], otherSet[2]])).toThrow('different backups');
+    expect(() => recoverPrivkey([shares[0].slice(0, -2) + 'qq'])).toThrow('mistyped or incomplete');
+  });
+
+  test('carry nothing derived from the key besides their own point', () => {
+    const shares = splitPrivkey(TEST_PRIVKEY, 2, 3);
+    const keyHash = bytesToHex(sha256(TEST_PRIVKEY).slice(0, 4));
+    for (const share of shares) {
+      expect(bytesToHex(bech32.decodeToBytes(share).bytes)).not.toContain(keyHash);
+    }
+  });
+
+  test('catch a share that decodes but does not fit the others', () => {
+    const shares = splitPrivkey(TEST_PRIVKEY, 2, 3);
+    const altered = decodeKeyShare(shares[2]);
+    altered.y[0] ^= 1;
+
+    expect(() => recoverPrivkey([shares[0], shares[1], encodeKeyShare(altered)])).toThrow('did not rebuild a valid key');
+    expect(recoverPrivkey([shares[0], shares[1], shares[2]])).toEqual(TEST_PRIVKEY);
+  });
+});
@@ -0,0 +1,71 @@
+import { vi } from 'vitest';
+
+vi.mock('expo-secure-store', () => ({}));
+vi.mock('react-native-fs', () => ({ default: { DocumentDirectoryPath: '/tmp' } }));
+
+import {
+  contributionSidecars,
+  contributionSlug,
+  newContributionPaths,
+} from '../../../core/scan/IncomingContributions';
+import { makeDocument } from '../../helpers/testData';
+
+const SNAPSHOT = [
+  'patient-info.json',
+  'visits/.meta.json',
+  'visits/2026-01-05-checkup.json',
+];
+
+describe('newContributionPaths', () => {
+  test('returns entries added after the snapshot', () => {
+    const head = [
+      ...SNAPSHOT,
+      'visits/2026-03-01-doctor-note.json',
+      'visits/2026-03-01-doctor-note-1.pdf.enc',
+    ];
+    expect(newContributionPaths(SNAPSHOT, head, [])).toEqual(['visits/2026-03-01-doctor-note.json']);
+  });
+
+  test('skips folder metadata, dotfiles and handled entries', () => {
+    const head = [
+      ...SNAPSHOT,
+      'labs/.meta.json',
+      '.limbo/keyring.json',
+      'visits/2026-03-01-doctor-note.json',
+      'visits/2026-03-01-doctor-note-2.json',
+    ];
+    expect(newContributionPaths(SNAPSHOT, head, ['visits/2026-03-01-doctor-note.json'])).toEqual([
+      'visits/2026-03-01-doctor-note-2.json',
+    ]);
+  });
+});
+
+describe('contributionSidecars', () => {
+  test('resolves attachment children next to the entry and drops missing files', () => {
+    const attachment = (value: string) => makeDocument({ value, type: 'attachment_ref' });
+    const doc = makeDocument({
+      children: [
+        attachment('2026-03-01-doctor-note-1.pdf.enc'),
+        attachment('2026-03-01-doctor-note-2.png.enc'),
+        makeDocument({ value: 'A plain child note' }),
+      ],
+    });
+    const head = ['visits/2026-03-01-doctor-note.json', 'visits/2026-03-01-doctor-note-1.pdf.enc'];
+
+    expect(contributionSidecars('visits/2026-03-01-doctor-note.json', doc, head)).toEqual([
+      'visits/2026-03-01-doctor-note-1.pdf.enc',
+    ]);
+  });
+
+  test('includes the sidecar of an attachment_ref entry itself', () => {
+    const doc = makeDocument({ value: 'scan.jpg.enc', type: 'attachment_ref' });
+    expect(contributionSidecars('scan.json', doc, ['scan.json', 'scan.jpg.enc'])).toEqual(['scan.jpg.enc']);
+  });
+});
+
+describe('contributionSlug', () => {
+  test('drops the folder and date prefix', () => {
+    expect(contributionSlug('visits/2026-03-01-doctor-note-2.json')).toBe('doctor-note-2');
+    expect(contributionSlug('labs/cbc.json')).toBe('cbc');
+  });
+});
@@ -0,0 +1,125 @@
+import {
+  describeShareScope,
+  isCreatedInShareRange,
+  isPathInShareScope,
+  selectSharedFiles,
+  validateShareScope,
+  type ShareScope,
+} from '../../../core/scan/ShareScope';
+import type { MedicalDocument } from '../../../types/document';
+import { makeDocument } from '../../helpers/testData';
+
+const FILES = [
+  'patient-info.json',
+  'conditions/.meta.json',
+  'conditions/eczema/.meta.json',
+  'conditions/eczema/2025-03-01-flare.json',
+  'conditions/eczema/2025-03-01-flare.jpg.enc',
+  'conditions/eczema/2026-02-10-follow-up.json',
+  'conditions/anxiety/.meta.json',
+  'conditions/anxiety/2026-01-05-therapy.json',
+  'visits/.meta.json',
+  'visits/2026-01-20-checkup.json',
+  'visits/2026-01-20-xray.enc',
+];
+
+const DOCS: Record<string, MedicalDocument> = {
+  'patient-info.json': makeDocument({ type: 'patient-info', created: '2024-01-01T00:00:00.000Z' }),
+  'conditions/eczema/2025-03-01-flare.json': makeDocument({ type: 'attachment_ref', created: '2025-03-01T09:00:00.000Z' }),
+  'conditions/eczema/2026-02-10-follow-up.json': makeDocument({ created: '2026-02-10T09:00:00.000Z' }),
+  'conditions/anxiety/2026-01-05-therapy.json': makeDocument({ created: '2026-01-05T09:00:00.000Z' }),
+  'visits/2026-01-20-checkup.json': makeDocument({
+    created: '2026-01-20T09:00:00.000Z',
+    children: [makeDocument({ type: 'attachment_ref', value: '2026-01-20-xray.enc' })],
+  }),
+};
+
+async function select(scope: ShareScope | undefined): Promise<string[]> {
+  return selectSharedFiles(FILES, scope, async (path) => DOCS[path]);
+}
+
+describe('share scope paths', () => {
+  test('matches a folder and everything beneath it, not siblings with the same prefix', () => {
+    const scope = { paths: ['conditions/eczema'] };
+    expect(isPathInShareScope('conditions/eczema/2025-03-01-flare.json', scope)).toBe(true);
+    expect(isPathInShareScope('conditions/eczema-old/a.json', scope)).toBe(false);
+    expect(isPathInShareScope('conditions/anxiety/2026-01-05-therapy.json', scope)).toBe(false);
+  });
+
+  test('bounds the created date inclusively', () => {
+    const scope = { paths: [], from: '2026-01-01', to: '2026-01-31' };
+    expect(isCreatedInShareRange('2026-01-31T23:59:00.000Z', scope)).toBe(true);
+    expect(isCreatedInShareRange('2026-02-01T00:00:00.000Z', scope)).toBe(false);
+    expect(isCreatedInShareRange(undefined, scope)).toBe(false);
+  });
+});
+
+describe('selectSharedFiles', () => {
+  test('shares everything without a scope', async () => {
+    expect(await select(undefined)).toEqual(FILES);
+    expect(await select({ paths: [] })).toEqual(FILES);
+  });
+
+  test('keeps one folder plus the patient header and ancestor folder metadata', async () => {
+    expect(await select({ paths: ['conditions/eczema'] })).toEqual([
+      'patient-info.json',
+      'conditions/.meta.json',
+      'conditions/eczema/.meta.json',
+      'conditions/eczema/2025-03-01-flare.json',
+      'conditions/eczema/2025-03-01-flare.jpg.enc',
+      'conditions/eczema/2026-02-10-follow-up.json',
+    ]);
+  });
+
+  test('keeps the metadata of subfolders inside a shared folder', async () => {
+    const files = [
+      ...FILES,
+      'conditions/eczema/photos/.meta.json',
+      'conditions/eczema/photos/2026-02-11-rash.json',
+      'conditions/anxiety/notes/.meta.json',
+    ];
+    const docs: Record<string, MedicalDocument> = {
+      ...DOCS,
+      'conditions/eczema/photos/2026-02-11-rash.json': makeDocument({ created: '2026-02-11T09:00:00.000Z' }),
+    };
+    const shared = await selectSharedFiles(files, { paths: ['conditions/eczema'], from: '2026-01-01' }, async (path) => docs[path]);
+    expect(shared).toContain('conditions/eczema/photos/.meta.json');
+    expect(shared).toContain('conditions/eczema/photos/2026-02-11-rash.json');
+    expect(shared).not.toContain('conditions/anxiety/notes/.meta.json');
+  });
+
+  test('drops entries outside the date range along with their sidecars', async () => {
+    const shared = await select({ paths: ['conditions/eczema', 'visits'], from: '2026-01-01' });
+    expect(shared).toContain('conditions/eczema/2026-02-10-follow-up.json');
+    expect(shared).toContain('visits/2026-01-20-xray.enc');
+    expect(shared).not.toContain('conditions/eczema/2025-03-01-flare.json');
+    expect(shared).not.toContain('conditions/eczema/2025-03-01-flare.jpg.enc');
+    expect(shared).not.toContain('conditions/anxiety/2026-01-05-therapy.json');
+    expect(shared).toContain('patient-info.json');
+  });
+
+  test('follows attachment references for a single shared entry', async () => {
+    expect(await select({ paths: ['visits/2026-01-20-checkup.json'] })).toEqual([
+      'patient-info.json',
+      'visits/.meta.json',
+      'visits/2026-01-20-checkup.json',
+      'visits/2026-01-20-xray.enc',
+    ]);
+  });
+});
+
+describe('share scope validation and labels', () => {
+  test('rejects malformed or inverted ranges', () => {
+    expect(validateShareScope({ paths: [], from: '2026-1-1' })).toBe('Dates must look like YYYY-MM-DD.');
+    expect(validateShareScope({ paths: [], from: '2026-02-01', to: '2026-01-01' }))
+      .toBe('The start date is after the end date.');
+    expect(validateShareScope({ paths: ['visits'], from: '2026-01-01' })).toBeNull();
+  });
+
+  test('describes the scope for the QR screen', () => {
+    expect(describeShareScope(undefined)).toBe('Entire binder');
+    expect(describeShareScope({ paths: ['conditions/eczema'], from: '2026-01-01' })).toBe('eczema · since 2026-01-01');
+    expect(describeShareScope({ paths: ['a', 'b'], from: '2026-01-01', to: '2026-03-01' }))
+      .toBe('2 items · 2026-01-01 to 2026-03-01');
+  });
+});
@@ -0,0 +1,120 @@
+import { describe, expect, it } from 'vitest';
+import {
+  buildEmergencyCard,
+  decodeEmergencyLink,
+  emergencyCandidatesFromSummary,
+  encodeEmergencyLink,
+  encodeEmergencyText,
+  exposedFields,
+  withExportRecord,
+} from '../core/bio/emergencyCard';
+import {
+  EMERGENCY_EXPORT_HISTORY_LIMIT,
+  emptyEmergencyProfile,
+  type EmergencyProfile,
+} from '../types/emergency';
+
+const bio = { fullName: 'Jimmy Zhang', dateOfBirth: '01/14/1989' };
+
+const profile: EmergencyProfile = {
+  ...emptyEmergencyProfile(),
+  fields: ['name', 'bloodType', 'allergies', 'contacts'],
+  bloodType: 'O-',
+  allergies: ['Penicillin (Hives, Severe)', '  '],
+  medications: ['Metformin 500 mg'],
+  contacts: [
+    { name: 'Mei Zhang', relationship: 'Spouse', phone: '512 555 0100' },
+    { name: ' ', relationship: '', phone: '' },
+  ],
+};
+
+describe('emergency card', () => {
+  it('only includes fields that are switched on and have content', () => {
+    const card = buildEmergencyCard(profile, bio, '2026-03-02');
+
+    expect(card).toEqual({
+      name: 'Jimmy Zhang',
+      bloodType: 'O-',
+      allergies: ['Penicillin (Hives, Severe)'],
+      contacts: [{ name: 'Mei Zhang', relationship: 'Spouse', phone: '512 555 0100' }],
+      updated: '2026-03-02',
+    });
+    expect(exposedFields(card)).toEqual(['name', 'bloodType', 'allergies', 'contacts']);
+  });
+
+  it('leaves out switched-on fields with nothing to show', () => {
+    const card = buildEmergencyCard({ ...profile, fields: ['dateOfBirth', 'conditions'] }, null, '2026-03-02');
+
+    expect(card).toEqual({ updated: '2026-03-02' });
+    expect(exposedFields(card)).toEqual([]);
+  });
+
+  it('encodes plain text for the QR', () => {
+    const text = encodeEmergencyText(buildEmergencyCard(profile, bio, '2026-03-02'));
+
+    expect(text.split('\n')).toEqual([
+      'EMERGENCY MEDICAL INFO',
+      'Name: Jimmy Zhang',
+      'Blood type: O-',
+      'Allergies: Penicillin (Hives, Severe)',
+      'ICE: Mei Zhang (Spouse) 512 555 0100',
+      'Patient-provided, updated 2026-03-02',
+    ]);
+  });
+
+  it('round-trips the card through the link fragment', () => {
+    const card = buildEmergencyCard(
+      { ...profile, fields: [...profile.fields, 'medications'], allergies: ['Sulfa – rash'] },
+      bio,
+      '2026-03-02',
+    );
+    const link = encodeEmergencyLink(card, 'https://example.test/ice');
+
+    expect(link.startsWith('https://example.test/ice#1.')).toBe(true);
+    expect(link).not.toMatch(/[+/=]$/);
+    expect(decodeEmergencyLink(link)).toEqual(card);
+  });
+
+  it('rejects links that are not a v1 card', () => {
+    expect(decodeEmergencyLink('https://example.test/ice')).toBeNull();
+    expect(decodeEmergencyLink('https://example.test/ice#2.e30')).toBeNull();
+    expect(decodeEmergencyLink('https://example.test/ice#1.not-json')).toBeNull();
+    expect(decodeEmergencyLink('#1.e30')).toBeNull();
+  });
+
+  it('records exports newest first and caps the history', () => {
+    const card = buildEmergencyCard(profile, bio, '2026-03-02');
+    let next = profile;
+    for (let i = 0; i < EMERGENCY_EXPORT_HISTORY_LIMIT + 3; i++) {
+      next = withExportRecord(next, card, i % 2 === 0 ? 'card-image' : 'link', `2026-03-02T10:${String(i).padStart(2, '0')}:00Z`);
+    }
+
+    expect(next.exports).toHaveLength(EMERGENCY_EXPORT_HISTORY_LIMIT);
+    expect(next.exports[0]).toEqual({
+      at: '2026-03-02T10:22:00Z',
+      format: 'card-image',
+      fields: ['name', 'bloodType', 'allergies', 'contacts'],
+    });
+    expect(profile.exports).toEqual([]);
+  });
+
+  it('offers binder summary lines as candidates', () => {
+    const candidates = emergencyCandidatesFromSummary({
+      allergies: [
+        { name: 'Penicillin', reaction: 'Hives', severity: 'Moderate' },
+        { name: 'Latex' },
+      ],
+      medications: [
+        { name: 'Lisinopril', dosage: '10 mg', frequency: 'Once daily' },
+        { name: 'Vitamin D' },
+      ],
+      conditions: [{ name: 'Hypertension', since: '2019' }],
+    });
+
+    expect(candidates).toEqual({
+      allergies: ['Penicillin (Hives, Moderate)', 'Latex'],
+      medications: ['Lisinopril 10 mg, Once daily', 'Vitamin D'],
+      conditions: ['Hypertension'],
+    });
+  });
+});
@@ -0,0 +1,207 @@
+import { describe, expect, it } from 'vitest';
+import {
+  buildFhirBundle,
+  LIMBO_ENTRY_IDENTIFIER_SYSTEM,
+  parseLabResultLines,
+  toFhirDate,
+  type FhirExportInput,
+} from '../core/fhir/export';
+import { buildMedicationMarkdown } from '../core/markdown/medicationEntry';
+import type { FhirResource } from '../types/fhir';
+import { makeDocument } from './helpers/testData';
+
+function sampleInput(): FhirExportInput {
+  return {
+    binderId: 'binder-1',
+    patientInfo: makeDocument({
+      type: 'patient-info',
+      value: '# Jane Q Doe\n\nDOB: 1980-04-12\n\nCreated: 2026-01-01T00:00:00.000Z',
+      created: '2026-01-01T00:00:00.000Z',
+    }),
+    entries: [
+      {
+        path: 'visits/2026-01-15-checkup.json',
+        doc: makeDocument({
+          value: '# Annual Checkup\n\n## Subjective\n\nKnee pain\n\n## Assessment\n\nPatellar tendinitis\n\n## Plan\n\nRest',
+          provider: 'Dr. Patel',
+          created: '2026-01-15T10:00:00.000Z',
+        }),
+      },
+      {
+        path: 'medications/2026-01-01-lisinopril.json',
+        doc: makeDocument({
+          type: 'medication',
+          value: buildMedicationMarkdown({
+            name: 'Lisinopril',
+            dosage: '10 mg',
+            frequency: 'Once daily',
+            startDate: '2026-01-01',
+            stopDate: '2026-03-01',
+          }),
+          created: '2026-01-01T09:00:00.000Z',
+        }),
+      },
+      {
+        path: 'labs/2026-02-01-lipid-panel.json',
+        doc: makeDocument({
+          type: 'lab',
+          value: '# Lipid Panel\n\nLab: Quest\n\n## Results\n\n- LDL: 130 mg/dL (ref 0-99)\n- HDL: 55 mg/dL\n- Comment: fasting\n\n## Notes\n\nRecheck in 6 months',
+          created: '2026-02-01T08:00:00.000Z',
+        }),
+      },
+      {
+        path: 'allergies/2026-01-02-penicillin.json',
+        doc: makeDocument({
+          type: 'allergy',
+          value: '# Penicillin\n\n- Reaction: Hives, Swelling\n- Severity: Moderate',
+          created: '2026-01-02T00:00:00.000Z',
+        }),
+      },
+      {
+        path: 'immunizations/2025-10-01-flu.json',
+        doc: makeDocument({
+          type: 'immunization',
+          value: '# Influenza\n\n- Date: 2025-10-01\n- Lot: AB123',
+          created: '2025-10-02T00:00:00.000Z',
+        }),
+      },
+      {
+        path: 'conditions/knee/2026-01-20-photo.json',
+        doc: {
+          value: '2026-01-20-photo.jpg.enc',
+          metadata: {
+            type: 'attachment_ref',
+            created: '2026-01-20T00:00:00.000Z',
+            format: 'jpeg',
+            originalSizeBytes: 3,
+          },
+          children: [],
+        },
+      },
+    ],
+    attachments: new Map([['conditions/knee/2026-01-20-photo.jpg.enc', new Uint8Array([1, 2, 3])]]),
+  };
+}
+
+function resourcesOf<T extends FhirResource['resourceType']>(
+  input: FhirExportInput,
+  type: T,
+): Extract<FhirResource, { resourceType: T }>[] {
+  return buildFhirBundle(input)
+    .entry.map((entry) => entry.resource)
+    .filter((resource): resource is Extract<FhirResource, { resourceType: T }> => resource.resourceType === type);
+}
+
+describe('FHIR export', () => {
+  it('is deterministic regardless of entry order', () => {
+    const input = sampleInput();
+    const reversed = { ...input, entries: [...input.entries].reverse() };
+    expect(JSON.stringify(buildFhirBundle(reversed))).toBe(JSON.stringify(buildFhirBundle(input)));
+  });
+
+  it('builds a collection bundle with the patient first and urn:uuid references', () => {
+    const bundle = buildFhirBundle(sampleInput());
+    expect(bundle.resourceType).toBe('Bundle');
+    expect(bundle.type).toBe('collection');
+    expect(bundle.timestamp).toBe('2026-02-01T08:00:00.000Z');
+
+    const [first] = bundle.entry;
+    expect(first.resource).toMatchObject({
+      resourceType: 'Patient',
+      name: [{ text: 'Jane Q Doe', family: 'Doe', given: ['Jane', 'Q'] }],
+      birthDate: '1980-04-12',
+    });
+    expect(first.fullUrl).toBe(`urn:uuid:${first.resource.id}`);
+    expect(new Set(bundle.entry.map((entry) => entry.fullUrl)).size).toBe(bundle.entry.length);
+  });
+
+  it('maps medications through parseMedicationEntry', () => {
+    const [statement] = resourcesOf(sampleInput(), 'MedicationStatement');
+    expect(statement).toMatchObject({
+      status: 'completed',
+      medicationCodeableConcept: { text: 'Lisinopril' },
+      effectivePeriod: { start: '2026-01-01', end: '2026-03-01' },
+      dosage: [{ text: '10 mg, Once daily' }],
+      identifier: [{ system: LIMBO_ENTRY_IDENTIFIER_SYSTEM, value: 'binder-1/medications/2026-01-01-lisinopril.json' }],
+    });
+  });
+
+  it('maps labs to a DiagnosticReport referencing its Observations', () => {
+    const input = sampleInput();
+    const [report] = resourcesOf(input, 'DiagnosticReport');
+    const observations = resourcesOf(input, 'Observation');
+
+    expect(observations).toHaveLength(3);
+    expect(observations[0]).toMatchObject({
+      code: { text: 'LDL' },
+      valueQuantity: { value: 130, unit: 'mg/dL' },
+      referenceRange: [{ low: { value: 0, unit: 'mg/dL' }, high: { value: 99, unit: 'mg/dL' } }],
+      performer: [{ display: 'Quest' }],
+    });
+    expect(observations[2]).toMatchObject({ code: { text: 'Comment' }, valueString: 'fasting' });
+    expect(report.conclusion).toBe('Recheck in 6 months');
+    expect(report.result?.map((ref) => ref.display)).toEqual(['LDL', 'HDL', 'Comment']);
+  });
+
+  it('maps visits to an Encounter plus a linked progress note', () => {
+    const input = sampleInput();
+    const bundle = buildFhirBundle(input);
+    const encounterEntry = bundle.entry.find((entry) => entry.resource.resourceType === 'Encounter')!;
+    const note = resourcesOf(input, 'DocumentReference').find((doc) => doc.context?.encounter);
+
+    expect(encounterEntry.resource).toMatchObject({
+      status: 'finished',
+      participant: [{ individual: { display: 'Dr. Patel' } }],
+      reasonCode: [{ text: 'Patellar tendinitis' }],
+    });
+    expect(note?.context?.encounter?.[0].reference).toBe(encounterEntry.fullUrl);
+  });
+
+  it('maps allergies and immunizations', () => {
+    const input = sampleInput();
+    const [allergy] = resourcesOf(input, 'AllergyIntolerance');
+    const [immunization] = resourcesOf(input, 'Immunization');
+
+    expect(allergy).toMatchObject({
+      code: { text: 'Penicillin' },
+      reaction: [{ manifestation: [{ text: 'Hives' }, { text: 'Swelling' }], severity: 'moderate' }],
+    });
+    expect(immunization).toMatchObject({
+      vaccineCode: { text: 'Influenza' },
+      occurrenceDateTime: '2025-10-01',
+      lotNumber: 'AB123',
+    });
+  });
+
+  it('exports sidecars as Binary plus DocumentReference', () => {
+    const input = sampleInput();
+    const bundle = buildFhirBundle(input);
+    const [binary] = resourcesOf(input, 'Binary');
+    const binaryUrl = bundle.entry.find((entry) => entry.resource.resourceType === 'Binary')!.fullUrl;
+    const photo = resourcesOf(input, 'DocumentReference').find(
+      (doc) => doc.content[0].attachment.url === binaryUrl,
+    );
+
+    expect(binary).toMatchObject({ contentType: 'image/jpeg', data: 'AQID' });
+    expect(photo?.content[0].attachment).toMatchObject({ contentType: 'image/jpeg', size: 3 });
+  });
+
+  it('omits Binary resources when sidecar bytes are not provided', () => {
+    const input = { ...sampleInput(), attachments: undefined };
+    expect(resourcesOf(input, 'Binary')).toEqual([]);
+  });
+});
+
+describe('FHIR export helpers', () => {
+  it('normalizes loose dates', () => {
+    expect(toFhirDate('2026-01-15T10:00:00Z')).toBe('2026-01-15');
+    expect(toFhirDate('1/5/2026')).toBe('2026-01-05');
+    expect(toFhirDate('last spring')).toBeUndefined();
+  });
+
+  it('reads lab lines outside a Results section', () => {
+    expect(parseLabResultLines('- A1c: 6.1 % (4.0-5.6)')).toEqual([
+      { name: 'A1c', value: { value: 6.1, unit: '%' }, referenceLow: 4, referenceHigh: 5.6 },
+    ]);
+  });
+});
@@ -0,0 +1,251 @@
+import { describe, expect, it, vi } from 'vitest';
+
+vi.mock('react-native-fs', () => ({
+  default: { DocumentDirectoryPath: '/tmp' },
+}));
+
+import { buildFhirBundle, LIMBO_ENTRY_IDENTIFIER_SYSTEM } from '../core/fhir/export';
+import { recordsFromCcda } from '../core/fhir/fromCcda';
+import { recordsFromFhir } from '../core/fhir/fromFhir';
+import { buildImportedDocument, detectHealthRecordFormat, parseHealthRecordFile } from '../core/fhir/import';
+import { normalizeClinicalDate } from '../core/fhir/records';
+import { parseXml, textContent } from '../core/fhir/xml';
+import { buildMedicationMarkdown, parseMedicationEntry } from '../core/markdown/medicationEntry';
+import { makeDocument } from './helpers/testData';
+
+const PORTAL_BUNDLE = {
+  resourceType: 'Bundle',
+  type: 'searchset',
+  entry: [
+    { fullUrl: 'https://portal.example/Patient/p1', resource: { resourceType: 'Patient', id: 'p1' } },
+    {
+      fullUrl: 'https://portal.example/MedicationRequest/m1',
+      resource: {
+        resourceType: 'MedicationRequest',
+        id: 'm1',
+        status: 'active',
+        authoredOn: '2025-11-03T15:00:00-05:00',
+        medicationCodeableConcept: { coding: [{ system: 'rxnorm', code: '314076', display: 'Lisinopril 10 MG' }] },
+        dosageInstruction: [{
+          text: 'Take 1 tablet by mouth daily',
+          timing: { repeat: { frequency: 1, period: 1, periodUnit: 'd' } },
+          doseAndRate: [{ doseQuantity: { value: 10, unit: 'mg' } }],
+        }],
+        requester: {
+          display: 'Dr. Ana Patel',
+          identifier: { system: 'http://hl7.org/fhir/sid/us-npi', value: '1234567893' },
+        },
+      },
+    },
+    {
+      fullUrl: 'https://portal.example/DiagnosticReport/r1',
+      resource: {
+        resourceType: 'DiagnosticReport',
+        id: 'r1',
+        identifier: [{ system: 'urn:oid:1.2.3', value: 'ACC-77' }],
+        code: { text: 'Basic Metabolic Panel' },
+        effectiveDateTime: '2026-01-10',
+        performer: [{ display: 'Quest Diagnostics' }],
+        result: [{ reference: 'Observation/o1' }],
+      },
+    },
+    {
+      fullUrl: 'https://portal.example/Observation/o1',
+      resource: {
+        resourceType: 'Observation',
+        id: 'o1',
+        code: { text: 'Glucose' },
+        valueQuantity: { value: 92, unit: 'mg/dL' },
+        referenceRange: [{ low: { value: 70 }, high: { value: 99 } }],
+      },
+    },
+    {
+      fullUrl: 'https://portal.example/Observation/o2',
+      resource: {
+        resourceType: 'Observation',
+        id: 'o2',
+        effectiveDateTime: '2026-02-02T08:00:00Z',
+        code: { coding: [{ display: 'Body weight' }] },
+        valueQuantity: { value: 70, unit: 'kg' },
+      },
+    },
+    {
+      fullUrl: 'https://portal.example/Immunization/i1',
+      resource: { resourceType: 'Immunization', id: 'i1', status: 'not-done', vaccineCode: { text: 'Tdap' } },
+    },
+  ],
+};
+
+const CCDA = `<?xml version="1.0"?>
+<ClinicalDocument xmlns="urn:hl7-org:v3" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance">
+  <component><structuredBody>
+    <component><section>
+      <code code="10160-0" codeSystem="2.16.840.1.113883.6.1"/>
+      <text><table><tbody><tr><td ID="med1">Metformin 500 mg tablet</td></tr></tbody></table></text>
+      <entry><substanceAdministration classCode="SBADM" moodCode="INT">
+        <id root="a1b2" extension="med-1"/>
+        <effectiveTime xsi:type="IVL_TS"><low value="20240105"/><high value="20250301"/></effectiveTime>
+        <effectiveTime xsi:type="PIVL_TS" operator="A"><period value="12" unit="h"/></effectiveTime>
+        <doseQuantity value="1"/>
+        <consumable><manufacturedProduct><manufacturedMaterial>
+          <code code="861007"><originalText><reference value="#med1"/></originalText></code>
+        </manufacturedMaterial></manufacturedProduct></consumable>
+      </substanceAdministration></entry>
+    </section></component>
+    <component><section>
+      <code code="48765-2"/>
+      <entry><act classCode="ACT" moodCode="EVN">
+        <statusCode code="active"/>
+        <entryRelationship typeCode="SUBJ"><observation classCode="OBS" moodCode="EVN">
+          <id root="allergy-1"/>
+          <participant typeCode="CSM"><participantRole><playingEntity>
+            <code code="7980" displayName="Penicillin G"/>
+          </playingEntity></participantRole></participant>
+          <entryRelationship typeCode="MFST"><observation>
+            <value xsi:type="CD" code="247472004" displayName="Hives"/>
+          </observation></entryRelationship>
+          <entryRelationship typeCode="SUBJ"><observation>
+            <code code="SEV"/><value xsi:type="CD" displayName="Moderate"/>
+          </observation></entryRelationship>
+        </observation></entryRelationship>
+      </act></entry>
+      <entry><act><entryRelationship typeCode="SUBJ">
+        <observation negationInd="true"><value xsi:type="CD" displayName="No known allergies"/></observation>
+      </entryRelationship></act></entry>
+    </section></component>
+    <component><section>
+      <code code="30954-2"/>
+      <entry><organizer classCode="BATTERY" moodCode="EVN">
+        <id root="lab-1" extension="CBC-9"/>
+        <code displayName="CBC"/>
+        <effectiveTime value="20260112083000-0500"/>
+        <component><observation>
+          <code displayName="Hemoglobin"/>
+          <value xsi:type="PQ" value="13.9" unit="g/dL"/>
+          <referenceRange><observationRange><value xsi:type="IVL_PQ"><low value="12"/><high value="16"/></value></observationRange></referenceRange>
+        </observation></component>
+      </organizer></entry>
+    </section></component>
+    <component><section>
+      <code code="46240-8"/>
+      <entry><encounter classCode="ENC" moodCode="EVN">
+        <id root="enc-1"/>
+        <code displayName="Office Visit"/>
+        <effectiveTime><low value="20260112"/></effectiveTime>
+        <performer><assignedEntity>
+          <id root="2.16.840.1.113883.4.6" extension="1234567893"/>
+          <assignedPerson><name><prefix>Dr.</prefix><given>Ana</given><family>Patel</family></name></assignedPerson>
+        </assignedEntity></performer>
+        <entryRelationship typeCode="RSON"><observation><value xsi:type="CD" displayName="Cough"/></observation></entryRelationship>
+      </encounter></entry>
+    </section></component>
+  </structuredBody></component>
+</ClinicalDocument>`;
+
+describe('FHIR import', () => {
+  it('maps a portal bundle to records', () => {
+    const records = recordsFromFhir(PORTAL_BUNDLE);
+    expect(records.map((record) => record.kind)).toEqual(['medication', 'lab', 'lab']);
+
+    const [medication, report, vitals] = records;
+    expect(medication).toMatchObject({
+      title: 'Lisinopril 10 MG',
+      date: '2025-11-03',
+      provider: 'Dr. Ana Patel',
+      npi: '1234567893',
+      sourceId: 'fhir:MedicationRequest/m1',
+    });
+    expect(parseMedicationEntry(medication.markdown).fields).toMatchObject({
+      name: 'Lisinopril 10 MG',
+      dosage: '10 mg',
+      frequency: '1 time(s) per 1 d',
+    });
+
+    expect(report.sourceId).toBe('urn:oid:1.2.3|ACC-77');
+    expect(report.markdown).toContain('- Glucose: 92 mg/dL (ref 70-99)');
+    expect(vitals).toMatchObject({ title: 'Lab Results — 2026-02-02', date: '2026-02-02' });
+    expect(vitals.markdown).toContain('- Body weight: 70 kg');
+  });
+
+  it('round-trips a Limbo export', () => {
+    const bundle = buildFhirBundle({
+      binderId: 'b1',
+      patientInfo: null,
+      entries: [
+        {
+          path: 'medications/2026-01-01-lisinopril.json',
+          doc: makeDocument({
+            type: 'medication',
+            value: buildMedicationMarkdown({ name: 'Lisinopril', dosage: '10 mg', frequency: 'Once daily', startDate: '2026-01-01' }),
+          }),
+        },
+        {
+          path: 'visits/2026-01-15-checkup.json',
+          doc: makeDocument({ value: '# Checkup\n\n## Assessment\n\nHealthy', provider: 'Dr. Patel' }),
+        },
+      ],
+    });
+
+    const records = recordsFromFhir(JSON.parse(JSON.stringify(bundle)));
+    expect(records.map((record) => record.kind).sort()).toEqual(['medication', 'visit']);
+    const visit = records.find((record) => record.kind === 'visit')!;
+    expect(visit.markdown).toBe('# Checkup\n\n## Assessment\n\nHealthy');
+    expect(visit.sourceId).toBe(`${LIMBO_ENTRY_IDENTIFIER_SYSTEM}|b1/visits/2026-01-15-checkup.json`);
+  });
+});
+
+describe('C-CDA import', () => {
+  it('maps sections to records and skips negated entries', () => {
+    const records = recordsFromCcda(CCDA);
+    expect(records.map((record) => record.kind)).toEqual(['medication', 'allergy', 'lab', 'visit']);
+
+    const [medication, allergy, lab, visit] = records;
+    expect(medication).toMatchObject({ title: 'Metformin 500 mg tablet', date: '2024-01-05', sourceId: 'ccda:a1b2|med-1' });
+    expect(parseMedicationEntry(medication.markdown).fields).toMatchObject({
+      dosage: '1',
+      frequency: 'Every 12 h',
+      startDate: '2024-01-05',
+      stopDate: '2025-03-01',
+    });
+    expect(allergy.markdown).toBe('# Penicillin G\n\n- Reaction: Hives\n- Severity: Moderate\n- Status: active');
+    expect(lab).toMatchObject({ title: 'CBC', date: '2026-01-12' });
+    expect(lab.markdown).toContain('- Hemoglobin: 13.9 g/dL (ref 12-16)');
+    expect(visit).toMatchObject({ provider: 'Dr. Ana Patel', npi: '1234567893' });
+    expect(visit.markdown).toContain('## Subjective\n\nCough');
+  });
+
+  it('produces stable source ids across parses', () => {
+    expect(recordsFromCcda(CCDA).map((r) => r.sourceId)).toEqual(recordsFromCcda(CCDA).map((r) => r.sourceId));
+  });
+});
+
+describe('import helpers', () => {
+  it('detects the file format', () => {
+    expect(detectHealthRecordFormat(JSON.stringify(PORTAL_BUNDLE))).toBe('fhir');
+    expect(detectHealthRecordFormat(CCDA)).toBe('ccda');
+    expect(detectHealthRecordFormat('{"hello": 1}')).toBeNull();
+    expect(() => parseHealthRecordFile('plain text')).toThrow(/Unrecognized file/);
+  });
+
+  it('builds binder documents with import metadata', () => {
+    const [medication] = recordsFromFhir(PORTAL_BUNDLE);
+    const { doc, sidecars } = buildImportedDocument(medication);
+    expect(doc.metadata).toMatchObject({
+      type: 'medication',
+      created: '2025-11-03T12:00:00.000Z',
+      provider: 'Dr. Ana Patel',
+      npi: '1234567893',
+      importSource: 'fhir:MedicationRequest/m1',
+    });
+    expect(doc.renderer).toBe('MedicationSummary');
+    expect(sidecars).toEqual([]);
+  });
+
+  it('parses XML and normalizes HL7 dates', () => {
+    const root = parseXml('<a x="1 &amp; 2"><b>hi <![CDATA[<there>]]></b><!-- c --><c/></a>');
+    expect(root.attributes.x).toBe('1 & 2');
+    expect(textContent(root)).toBe('hi <there>');
+    expect(() => parseXml('<a><b></a>')).toThrow(/Malformed XML/);
+    expect(normalizeClinicalDate('20260112083000-0500')).toBe('2026-01-12');
+  });
+});
@@ -0,0 +1,48 @@
+// __tests__/helpers/diskFS.ts
+// react-native-fs backed by a temp directory, so tests can run GitEngine
+// (real isomorphic-git) against binders on disk.
+
+import fs from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+
+export function createDiskRNFS(root: string) {
+  return {
+    DocumentDirectoryPath: root,
+    exists: async (filePath: string) => fs.access(filePath).then(() => true, () => false),
+    mkdir: async (dirPath: string) => {
+      await fs.mkdir(dirPath, { recursive: true });
+    },
+    readFile: async (filePath: string, encoding: 'utf8' | 'base64' = 'utf8') =>
+      (await fs.readFile(filePath)).toString(encoding),
+    writeFile: async (filePath: string, data: string, encoding: 'utf8' | 'base64' = 'utf8') => {
+      await fs.writeFile(filePath, Buffer.from(data, encoding));
+    },
+    readDir: async (dirPath: string) => {
+      const entries = await fs.readdir(dirPath, { withFileTypes: true });
+      return entries.map((entry) => ({
+        name: entry.name,
+        path: path.join(dirPath, entry.name),
+        isDirectory: () => entry.isDirectory(),
+        isFile: () => entry.isFile(),
+      }));
+    },
+    stat: async (filePath: string) => {
+      const stats = await fs.stat(filePath);
+      return {
+        size: stats.size,
+        mtime: stats.mtime,
+        ctime: stats.ctime,
+        isDirectory: () => stats.isDirectory(),
+        isFile: () => stats.isFile(),
+      };
+    },
+    unlink: async (filePath: string) => {
+      await fs.rm(filePath, { recursive: true });
+    },
+  };
+}
+
+export async function makeTempRoot(): Promise<string> {
+  return fs.mkdtemp(path.join(os.tmpdir(), 'limbo-binders-'));
+}
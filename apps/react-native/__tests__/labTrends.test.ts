@@ -0,0 +1,90 @@
+import { describe, expect, it } from 'vitest';
+import { buildLabResultMarkdown, type LabResultRow } from '../core/markdown/labResultEntry';
+import { buildLabTrends, parseReferenceRange, type ReferenceBand } from '../core/labs/trends';
+import { analyteKey, convertValue, findAnalyte, normalizeUnit } from '../core/labs/units';
+import { makeDocument } from './helpers/testData';
+
+function labSource(path: string, created: string, results: LabResultRow[]) {
+  return {
+    path,
+    doc: makeDocument({
+      type: 'lab',
+      created,
+      value: buildLabResultMarkdown({ title: `Panel ${created.slice(0, 10)}`, results }),
+    }),
+  };
+}
+
+describe('lab units', () => {
+  it('matches analyte aliases and unit spellings', () => {
+    expect(analyteKey('HbA1c')).toBe('a1c');
+    expect(analyteKey('Hemoglobin A1c')).toBe('a1c');
+    expect(analyteKey('LDL-C (calc.)')).toBe('ldl');
+    expect(analyteKey('Ferritin, Serum')).toBe('ferritin-serum');
+    expect(normalizeUnit('MG/DL')).toBe('mg/dL');
+    expect(normalizeUnit('µIU/mL')).toBe('uIU/mL');
+  });
+
+  it('converts into the analyte unit', () => {
+    const glucose = findAnalyte('Glucose');
+    expect(convertValue(5.5, 'mmol/L', 'mg/dL', glucose)).toBeCloseTo(99.1, 1);
+    expect(convertValue(48, 'mmol/mol', '%', findAnalyte('A1c'))).toBeCloseTo(6.54, 2);
+    expect(convertValue(100, 'mg/dl', 'mg/dL', glucose)).toBe(100);
+    expect(convertValue(5, 'g/dL', 'mg/dL', glucose)).toBeNull();
+  });
+});
+
+describe('parseReferenceRange', () => {
+  it.each([
+    ['70-99', { low: 70, high: 99 }],
+    ['3.5 – 5.1 mmol/L', { low: 3.5, high: 5.1 }],
+    ['<100', { high: 100 }],
+    ['≤5.6', { high: 5.6 }],
+    ['>= 40', { low: 40 }],
+  ])('parses %s', (range: string, band: ReferenceBand) => {
+    expect(parseReferenceRange(range)).toEqual(band);
+  });
+
+  it('returns null without numbers', () => {
+    expect(parseReferenceRange('Negative')).toBeNull();
+    expect(parseReferenceRange(undefined)).toBeNull();
+  });
+});
+
+describe('buildLabTrends', () => {
+  it('aggregates entries into series in one unit, oldest first', () => {
+    const trends = buildLabTrends([
+      labSource('labs/2026-03.json', '2026-03-01T10:00:00.000Z', [
+        { analyte: 'Glucose', value: '6.1', unit: 'mmol/L', referenceRange: '3.9-5.5' },
+        { analyte: 'HbA1c', value: '5.9', unit: '%', referenceRange: '<5.7', flag: 'high' },
+      ]),
+      labSource('conditions/diabetes/labs/2026-01.json', '2026-01-15T10:00:00.000Z', [
+        { analyte: 'Fasting Glucose', value: '92', unit: 'mg/dL', referenceRange: '70-99' },
+        { analyte: 'Urine Protein', value: 'Negative' },
+      ]),
+      { path: 'notes/a.json', doc: makeDocument({ value: '# Just a note' }) },
+    ]);
+
+    expect(trends.map((series) => series.key)).toEqual(['glucose', 'a1c']);
+    const glucose = trends[0];
+    expect(glucose.unit).toBe('mg/dL');
+    expect(glucose.points.map((point) => point.date)).toEqual(['2026-01-15', '2026-03-01']);
+    expect(glucose.points[1].value).toBeCloseTo(109.9, 1);
+    expect(glucose.points[1].recorded).toBe('6.1 mmol/L');
+    expect(glucose.points.map((point) => point.outOfRange)).toEqual([false, true]);
+    // Latest band, converted from mmol/L
+    expect(glucose.band?.high).toBeCloseTo(99.1, 1);
+
+    expect(trends[1].points[0]).toMatchObject({ flag: 'high', outOfRange: true });
+  });
+
+  it('counts results it cannot chart', () => {
+    const [series] = buildLabTrends([
+      labSource('labs/a.json', '2026-01-01T00:00:00.000Z', [{ analyte: 'Creatinine', value: '0.9', unit: 'mg/dL' }]),
+      labSource('labs/b.json', '2026-02-01T00:00:00.000Z', [{ analyte: 'Creatinine', value: '1.0', unit: 'g/L' }]),
+      labSource('labs/c.json', '2026-03-01T00:00:00.000Z', [{ analyte: 'Creatinine', value: 'pending' }]),
+    ]);
+    expect(series.points).toHaveLength(1);
+    expect(series.skipped).toBe(2);
+  });
+});
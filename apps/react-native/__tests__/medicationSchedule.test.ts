@@ -0,0 +1,134 @@
+import { describe, expect, it } from 'vitest';
+import { buildMedicationMarkdown, parseMedicationEntry } from '../core/markdown/medicationEntry';
+import {
+  decodeDoseLogs,
+  doseLogSidecarPath,
+  encodeDoseLogs,
+  isDoseLogSidecarOf,
+  nextUnloggedDose,
+  sortDoseLogs,
+  summarizeAdherence,
+} from '../core/medication/adherence';
+import { refillReminderDate } from '../core/medication/reminders';
+import {
+  describeSchedule,
+  expectedDoseTimes,
+  medicationStatus,
+  parseFrequency,
+} from '../core/medication/schedule';
+import { makeDocument } from './helpers/testData';
+
+const FIELDS = { name: 'Lisinopril', dosage: '10 mg', frequency: 'Twice daily', startDate: '2026-03-01' };
+
+function at(dateKey: string, time: string): Date {
+  const [year, month, day] = dateKey.split('-').map(Number);
+  const [hour, minute] = time.split(':').map(Number);
+  return new Date(year, month - 1, day, hour, minute);
+}
+
+describe('parseFrequency', () => {
+  it.each([
+    ['Once daily', ['08:00']],
+    ['Twice daily', ['08:00', '20:00']],
+    ['BID', ['08:00', '20:00']],
+    ['3 times a day', ['08:00', '14:00', '20:00']],
+    ['Every 6 hours', ['02:00', '08:00', '14:00', '20:00']],
+    ['q8h', ['00:00', '08:00', '16:00']],
+    ['Every 12 h', ['08:00', '20:00']],
+    ['1 time(s) per 1 d', ['08:00']],
+    ['Take 1 tablet by mouth daily', ['08:00']],
+    ['At bedtime', ['21:00']],
+  ])('parses %s', (frequency: string, doseTimes: string[]) => {
+    expect(parseFrequency(frequency)).toEqual({ kind: 'daily', doseTimes });
+  });
+
+  it('recognizes as-needed and weekly schedules', () => {
+    expect(parseFrequency('As needed')).toEqual({ kind: 'as-needed' });
+    expect(parseFrequency('PRN for pain')).toEqual({ kind: 'as-needed' });
+    const weekly = parseFrequency('Once weekly');
+    expect(weekly).toMatchObject({ kind: 'weekly', doseTimes: ['08:00'] });
+    // 2026-03-01 is a Sunday
+    expect(describeSchedule(weekly, FIELDS)).toBe('Sun at 8:00 AM');
+    expect(parseFrequency('with meals sometimes')).toBeNull();
+  });
+});
+
+describe('medication status', () => {
+  it('derives active, stopped and not-started from the dates', () => {
+    const now = at('2026-03-10', '12:00');
+    expect(medicationStatus(FIELDS, now)).toBe('active');
+    expect(medicationStatus({ ...FIELDS, stopDate: '2026-03-10' }, now)).toBe('stopped');
+    expect(medicationStatus({ ...FIELDS, startDate: '2026-04-01' }, now)).toBe('not-started');
+    expect(expectedDoseTimes(parseFrequency('Once daily'), FIELDS, at('2026-02-28', '09:00'))).toEqual([]);
+  });
+
+  it('round-trips the refill date and schedules its reminder ahead of it', () => {
+    const markdown = buildMedicationMarkdown({ ...FIELDS, refillDate: '2026-04-10' });
+    expect(markdown).toContain('- Refill Due: 2026-04-10');
+    expect(parseMedicationEntry(markdown).fields?.refillDate).toBe('2026-04-10');
+    expect(refillReminderDate('2026-04-10')).toEqual(at('2026-04-07', '09:00'));
+    expect(refillReminderDate('soon')).toBeNull();
+  });
+});
+
+describe('adherence log', () => {
+  it('keeps a year of logs in monthly sidecars, leaving the entry alone', () => {
+    const entryPath = 'medications/lisinopril.json';
+    const doc = makeDocument({ type: 'medication', value: buildMedicationMarkdown(FIELDS) });
+    const before = JSON.stringify(doc);
+
+    // Three doses a day for a year, written the way BinderService.logDose does
+    const sidecars = new Map<string, Uint8Array>();
+    for (let day = 0; day < 365; day++) {
+      for (const hour of [8, 14, 20]) {
+        const loggedAt = new Date(Date.UTC(2026, 0, 1 + day, hour, 5)).toISOString();
+        const log = { status: 'taken' as const, loggedAt, scheduledFor: loggedAt };
+        const path = doseLogSidecarPath(entryPath, log);
+        const logs = sidecars.has(path) ? decodeDoseLogs(sidecars.get(path)!) : [];
+        sidecars.set(path, encodeDoseLogs([...logs, log]));
+      }
+    }
+
+    expect(sidecars.size).toBe(12);
+    expect(sidecars.has('medications/lisinopril.doses-2026-03.enc')).toBe(true);
+    for (const [path, bytes] of sidecars) {
+      expect(isDoseLogSidecarOf(entryPath, path)).toBe(true);
+      expect(bytes.length).toBeLessThan(65535);
+    }
+    expect(isDoseLogSidecarOf('medications/lisinopril-2.json', 'medications/lisinopril.doses-2026-03.enc')).toBe(false);
+
+    const stored = [...sidecars.values()].flatMap(decodeDoseLogs);
+    const logs = sortDoseLogs([...stored].reverse());
+    expect(logs).toHaveLength(365 * 3);
+    expect(logs[0].loggedAt).toBe('2026-01-01T08:05:00.000Z');
+    expect(JSON.stringify(doc)).toBe(before);
+  });
+
+  it('summarizes taken vs. expected doses per day', () => {
+    const schedule = parseFrequency(FIELDS.frequency);
+    const now = at('2026-03-03', '12:00');
+    const logs = [
+      { status: 'taken' as const, loggedAt: '', scheduledFor: at('2026-03-01', '08:00').toISOString() },
+      { status: 'taken' as const, loggedAt: '', scheduledFor: at('2026-03-01', '20:00').toISOString() },
+      { status: 'skipped' as const, loggedAt: '', scheduledFor: at('2026-03-02', '08:00').toISOString() },
+      { status: 'taken' as const, loggedAt: '', scheduledFor: at('2026-03-03', '08:00').toISOString() },
+    ];
+    const summary = summarizeAdherence(schedule, FIELDS, logs, 4, now);
+    expect(summary.days.map((day) => [day.expected, day.taken, day.skipped])).toEqual([
+      [0, 0, 0], // before the start date
+      [2, 2, 0],
+      [2, 0, 1],
+      [1, 1, 0], // the 20:00 dose isn't due yet
+    ]);
+    expect(summary.rate).toBeCloseTo(3 / 5);
+  });
+
+  it('offers the nearest unanswered dose', () => {
+    const schedule = parseFrequency(FIELDS.frequency);
+    const now = at('2026-03-05', '09:30');
+    expect(nextUnloggedDose(schedule, FIELDS, [], now)).toEqual(at('2026-03-05', '08:00'));
+    const answered = [{ status: 'taken' as const, loggedAt: '', scheduledFor: at('2026-03-05', '08:00').toISOString() }];
+    expect(nextUnloggedDose(schedule, FIELDS, answered, now)).toBeNull();
+    expect(nextUnloggedDose(parseFrequency('As needed'), FIELDS, [], now)).toBeNull();
+  });
+});
@@ -0,0 +1,137 @@
+import { readFileSync } from 'node:fs';
+import path from 'node:path';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { parsePortalAdapterCatalog, syncPortalAdapterCatalog } from '../core/portal/adapterCatalog';
+import {
+  detectPortalFamily,
+  getPortalAdapter,
+  getPortalAdapterRevision,
+  setPortalAdapterCatalog,
+} from '../core/portal/adapters';
+import type { PortalFamilyId } from '../types/portal';
+
+const SYSTEM_ID = '2b1f4c36-0d0e-4f6b-9d43-4d6f3c1b2a10';
+const SERVED_DOCUMENT = JSON.parse(
+  readFileSync(path.resolve(__dirname, '../../records-workflow-api/portal-adapters/v1.json'), 'utf8'),
+);
+const FAMILIES: PortalFamilyId[] = ['ascension', 'mychart', 'athena', 'nextgen', 'eclinicalworks', 'generic'];
+
+function servedDocument(changes: Record<string, unknown> = {}) {
+  return { ...structuredClone(SERVED_DOCUMENT), ...changes };
+}
+
+function memoryStore(initial: string | null = null) {
+  let value = initial;
+  return {
+    read: vi.fn(async () => value),
+    write: vi.fn(async (next: string) => {
+      value = next;
+    }),
+  };
+}
+
+afterEach(() => {
+  setPortalAdapterCatalog(null);
+});
+
+describe('portal adapter catalog', () => {
+  it('matches the bundled adapters for the served v1 document', () => {
+    const catalog = parsePortalAdapterCatalog(SERVED_DOCUMENT);
+
+    expect(catalog?.revision).toBe(SERVED_DOCUMENT.revision);
+    for (const family of FAMILIES) {
+      expect(catalog?.adapters[family]).toEqual(getPortalAdapter(family));
+    }
+  });
+
+  it('rejects documents from another schema version or with broken defaults', () => {
+    expect(parsePortalAdapterCatalog(servedDocument({ schema_version: 2 }))).toBeNull();
+    expect(parsePortalAdapterCatalog(servedDocument({ default_actions: { openMessages: {} } }))).toBeNull();
+    expect(parsePortalAdapterCatalog('nope')).toBeNull();
+  });
+
+  it('drops invalid adapters and overrides so the bundled ones stay in use', () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const document = servedDocument({
+      system_overrides: {
+        [SYSTEM_ID]: { username_hint: 'Example ID' },
+        'other-system': { login: { safe_auto_submit: 'yes' } },
+      },
+    });
+    document.adapters[1].hostname_patterns = ['mychart('];
+    document.adapters[2].display_name = 'athenaOne';
+
+    const catalog = parsePortalAdapterCatalog(document);
+    setPortalAdapterCatalog(catalog);
+
+    expect(catalog?.adapters.mychart).toBeUndefined();
+    expect(getPortalAdapter('mychart').hostnamePatterns).toEqual([/mychart/i, /epic/i]);
+    expect(getPortalAdapter('athena').displayName).toBe('athenaOne');
+    expect(Object.keys(catalog?.systemOverrides ?? {})).toEqual([SYSTEM_ID]);
+    expect(warn).toHaveBeenCalledTimes(2);
+    warn.mockRestore();
+  });
+
+  it('applies per-system overrides on top of the family adapter', () => {
+    setPortalAdapterCatalog(
+      parsePortalAdapterCatalog(
+        servedDocument({
+          system_overrides: {
+            [SYSTEM_ID]: {
+              family: 'mychart',
+              login: { username_selectors: ['input#member-id'] },
+              actions: { openLabs: { href_includes: ['/app/test-results'] } },
+            },
+          },
+        }),
+      ),
+    );
+
+    const input = { url: 'https://portal.example.org/login', healthSystemName: 'Example Health' };
+    expect(detectPortalFamily(input)).toBe('generic');
+    expect(detectPortalFamily({ ...input, healthSystemId: SYSTEM_ID })).toBe('mychart');
+
+    const adapter = getPortalAdapter('generic', SYSTEM_ID);
+    expect(adapter.id).toBe('mychart');
+    expect(adapter.login.usernameSelectors).toEqual(['input#member-id']);
+    expect(adapter.login.passwordSelectors).toContain('input#Password');
+    expect(adapter.actions.openLabs.hrefIncludes).toEqual(['/app/test-results']);
+    expect(adapter.actions.openLabs.labelIncludes).toContain('test results');
+    expect(getPortalAdapter('mychart').login.usernameSelectors).toContain('input#UserID');
+  });
+});
+
+describe('portal adapter sync', () => {
+  it('caches a valid document and keeps it when the server is unreachable', async () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const store = memoryStore();
+    const document = servedDocument({ revision: '2026-10-20.1' });
+
+    await expect(syncPortalAdapterCatalog({ store, fetchDocument: async () => document })).resolves.toBe('2026-10-20.1');
+    expect(JSON.parse(store.write.mock.calls[0][0])).toEqual(document);
+
+    setPortalAdapterCatalog(null);
+    await expect(
+      syncPortalAdapterCatalog({
+        store,
+        fetchDocument: async () => {
+          throw new Error('Network request failed');
+        },
+      }),
+    ).resolves.toBe('2026-10-20.1');
+    expect(store.write).toHaveBeenCalledTimes(1);
+    warn.mockRestore();
+  });
+
+  it('ignores a document it cannot validate', async () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const store = memoryStore(JSON.stringify(servedDocument()));
+
+    await expect(
+      syncPortalAdapterCatalog({ store, fetchDocument: async () => servedDocument({ schema_version: 2 }) }),
+    ).resolves.toBe(SERVED_DOCUMENT.revision);
+    expect(getPortalAdapterRevision()).toBe(SERVED_DOCUMENT.revision);
+    expect(store.write).not.toHaveBeenCalled();
+    warn.mockRestore();
+  });
+});
@@ -0,0 +1,138 @@
+import { describe, expect, it, vi } from 'vitest';
+
+vi.mock('react-native-fs', () => ({ default: { DocumentDirectoryPath: '/tmp' } }));
+
+import { buildImportedDocument } from '../core/fhir/import';
+import {
+  buildPortalHarvestRecord,
+  isHarvestableCandidate,
+  labResultsFromTable,
+  normalizeHarvestUrl,
+  portalHarvestSourceId,
+} from '../core/portal/harvest';
+import { buildPortalBridgeScript, buildPortalDownloadScript, parsePortalBridgeMessage } from '../core/portal/session';
+import type { PortalHarvestCandidate } from '../types/portal';
+
+const NOW = new Date('2026-10-19T12:00:00.000Z');
+const SOURCE = { family: 'mychart' as const, portalName: 'Example Health MyChart', provider: 'Example Health' };
+
+function makeCandidate(overrides: Partial<PortalHarvestCandidate> = {}): PortalHarvestCandidate {
+  return {
+    id: 'item-0',
+    kind: 'document',
+    title: 'After Visit Summary',
+    pageUrl: 'https://mychart.example.org/MyChart/app/visits',
+    url: 'https://mychart.example.org/MyChart/Document/Get?id=42&ts=1760000000#page=2',
+    dateText: 'Mar 5, 2026',
+    headers: [],
+    rows: [],
+    ...overrides,
+  };
+}
+
+const LAB_TABLE = makeCandidate({
+  id: 'item-1',
+  kind: 'lab_table',
+  title: 'Basic Metabolic Panel',
+  url: null,
+  dateText: null,
+  headers: ['Component', 'Your Value', 'Standard Range', 'Flag'],
+  rows: [
+    ['Sodium', '141 mmol/L', '135 - 145', ''],
+    ['Glucose', '112', '70 - 99', 'H'],
+    ['', '', '', ''],
+  ],
+});
+
+describe('portal harvest identity', () => {
+  it('ignores fragments and session parameters when matching URLs', () => {
+    expect(normalizeHarvestUrl('https://portal.example.org/doc?sid=abc&id=42&_=99#top')).toBe(
+      'https://portal.example.org/doc?id=42',
+    );
+    expect(portalHarvestSourceId('mychart', makeCandidate())).toBe(
+      portalHarvestSourceId('mychart', makeCandidate({ url: 'https://mychart.example.org/MyChart/Document/Get?ts=1&id=42' })),
+    );
+  });
+
+  it('identifies lab tables by page and content', () => {
+    const sourceId = portalHarvestSourceId('mychart', LAB_TABLE);
+
+    expect(sourceId).toMatch(/^portal:mychart:https:\/\/mychart\.example\.org\/MyChart\/app\/visits\|sha256:/);
+    expect(portalHarvestSourceId('mychart', { ...LAB_TABLE, rows: LAB_TABLE.rows.slice(1) })).not.toBe(sourceId);
+  });
+});
+
+describe('portal lab tables', () => {
+  it('maps columns by header text and splits units from values', () => {
+    expect(labResultsFromTable(LAB_TABLE.headers, LAB_TABLE.rows)).toEqual([
+      { analyte: 'Sodium', value: '141', unit: 'mmol/L', referenceRange: '135 - 145' },
+      { analyte: 'Glucose', value: '112', referenceRange: '70 - 99', flag: 'high' },
+    ]);
+  });
+
+  it('skips tables without a value column', () => {
+    const schedule = makeCandidate({ kind: 'lab_table', url: null, headers: ['Test', 'Location'], rows: [['MRI', 'Main']] });
+
+    expect(isHarvestableCandidate(schedule)).toBe(false);
+    expect(isHarvestableCandidate(LAB_TABLE)).toBe(true);
+  });
+
+  it('builds a structured lab entry with portal metadata', () => {
+    const record = buildPortalHarvestRecord({ candidate: LAB_TABLE, source: SOURCE, now: NOW });
+    const { doc, sidecars } = buildImportedDocument(record);
+
+    expect(sidecars).toEqual([]);
+    expect(doc.renderer).toBe('LabResultSummary');
+    expect(doc.value).toContain('- Glucose: 112 (ref 70 - 99) [High]');
+    expect(doc.metadata).toMatchObject({
+      type: 'lab',
+      provider: 'Example Health',
+      sourceUrl: 'https://mychart.example.org/MyChart/app/visits',
+      portalFamily: 'mychart',
+      importSource: portalHarvestSourceId('mychart', LAB_TABLE),
+    });
+  });
+});
+
+describe('portal documents', () => {
+  it('files a downloaded document as an attachment dated by the portal listing', () => {
+    const record = buildPortalHarvestRecord({
+      candidate: makeCandidate(),
+      source: SOURCE,
+      download: { id: 'item-0', mimeType: 'application/pdf', base64Data: 'JVBERi0xLjc=', sizeBytes: 8 },
+      now: NOW,
+    });
+    const { doc, sidecars } = buildImportedDocument(record);
+
+    expect(record.date).toBe('2026-03-05');
+    expect(sidecars).toEqual([{ sidecarFilename: '2026-03-05-after-visit-summary.pdf.enc', base64Data: 'JVBERi0xLjc=' }]);
+    expect(doc.value).toBe('# After Visit Summary\n\nSaved from Example Health MyChart on 2026-10-19.\n');
+    expect(doc.metadata.sourceUrl).toBe('https://mychart.example.org/MyChart/Document/Get?id=42&ts=1760000000#page=2');
+    expect(doc.children[0].metadata).toMatchObject({ type: 'attachment_ref', format: 'pdf', originalSizeBytes: 8 });
+  });
+
+  it('rejects web pages returned in place of a document', () => {
+    expect(() =>
+      buildPortalHarvestRecord({
+        candidate: makeCandidate(),
+        source: SOURCE,
+        download: { id: 'item-0', mimeType: 'text/html; charset=utf-8', base64Data: 'PGh0bWw+', sizeBytes: 6 },
+      }),
+    ).toThrow('returned a web page');
+    expect(() => buildPortalHarvestRecord({ candidate: makeCandidate(), source: SOURCE })).toThrow('not downloaded');
+  });
+});
+
+describe('portal harvest bridge', () => {
+  it('produces scripts that parse', () => {
+    expect(() => new Function(buildPortalBridgeScript())).not.toThrow();
+    expect(() => new Function(buildPortalDownloadScript(makeCandidate({ url: 'https://x.test/</script>' })))).not.toThrow();
+    expect(buildPortalDownloadScript(makeCandidate({ url: 'https://x.test/</script>' }))).not.toContain('</script>');
+  });
+
+  it('accepts harvest messages from the page', () => {
+    expect(
+      parsePortalBridgeMessage(JSON.stringify({ type: 'portal.harvestError', payload: { id: 'item-0', error: 'Nope' } })),
+    ).toEqual({ type: 'portal.harvestError', payload: { id: 'item-0', error: 'Nope' } });
+  });
+});
@@ -0,0 +1,302 @@
+import { deflateRaw } from 'pako';
+import { PDFDocument, StandardFonts } from 'pdf-lib';
+import { describe, expect, it, vi } from 'vitest';
+
+vi.mock('react-native-fs', () => ({ default: { DocumentDirectoryPath: '/tmp' } }));
+
+import { documentFits } from '../core/binder/DocumentModel';
+import { readDicomStudyInfo } from '../core/recordsWorkflow/dicom';
+import { createTrackedRecordsRequest, withReceivedRecords } from '../core/recordsWorkflow/ledger';
+import { extractContentStreamText, extractPdfText } from '../core/recordsWorkflow/pdfText';
+import {
+  analyzeReceivedFiles,
+  buildReceivedRecordsDocument,
+  detectDocumentDate,
+  receivedRecordsFolder,
+} from '../core/recordsWorkflow/receivedRecords';
+import type { ReceivedRecordFile } from '../core/recordsWorkflow/receivedRecords';
+import { readZipEntries } from '../core/recordsWorkflow/zip';
+import type { RecordsRequestPacket } from '../types/recordsRequest';
+
+const NOW = new Date('2026-10-19T12:00:00.000Z');
+const RECEIVED_AT = '2026-10-19T12:00:00.000Z';
+
+const request = createTrackedRecordsRequest({
+  hospitalSystem: { id: 'system-1', name: 'Example Health', domain: 'examplehealth.org', state: 'TX' },
+  formName: 'Authorization for Release of Medical Information',
+  channel: 'fax',
+  destination: '(555) 010-2000',
+  sentAt: '2026-09-01T15:00:00.000Z',
+});
+
+const packet: RecordsRequestPacket = {
+  hospitalSystem: request.hospitalSystem,
+  portal: { name: 'MyExample', url: 'https://my.examplehealth.org', scope: 'full', supportsFormalCopyRequestInPortal: false },
+  medicalWorkflow: null,
+  recommendedPaths: [],
+  specialCases: [],
+  contacts: [
+    { type: 'fax', label: 'HIM fax', value: '555-010-2000' },
+    { type: 'mailing_address', label: null, value: '1 Main St' },
+  ],
+  forms: [],
+  instructions: [],
+  requiresPhotoId: true,
+  sources: [],
+};
+
+const encoder = new TextEncoder();
+
+async function makePdf(pages: string[][]): Promise<Uint8Array> {
+  const pdf = await PDFDocument.create();
+  const font = await pdf.embedFont(StandardFonts.Helvetica);
+  for (const lines of pages) {
+    const page = pdf.addPage();
+    lines.forEach((line, index) => page.drawText(line, { x: 50, y: 700 - index * 20, size: 12, font }));
+  }
+  return pdf.save();
+}
+
+/** Minimal zip writer; CRCs stay zero since the reader does not check them. */
+function makeZip(entries: { name: string; bytes: Uint8Array; deflate?: boolean; declaredSize?: number }[]): Uint8Array {
+  const locals: Uint8Array[] = [];
+  const centrals: Uint8Array[] = [];
+  let offset = 0;
+
+  for (const entry of entries) {
+    const name = encoder.encode(entry.name);
+    const data = entry.deflate ? deflateRaw(entry.bytes) : entry.bytes;
+    const method = entry.deflate ? 8 : 0;
+    const declaredSize = entry.declaredSize ?? entry.bytes.length;
+
+    const local = new Uint8Array(30 + name.length + data.length);
+    const localView = new DataView(local.buffer);
+    localView.setUint32(0, 0x04034b50, true);
+    localView.setUint16(8, method, true);
+    localView.setUint32(18, data.length, true);
+    localView.setUint32(22, declaredSize, true);
+    localView.setUint16(26, name.length, true);
+    local.set(name, 30);
+    local.set(data, 30 + name.length);
+
+    const central = new Uint8Array(46 + name.length);
+    const centralView = new DataView(central.buffer);
+    centralView.setUint32(0, 0x02014b50, true);
+    centralView.setUint16(10, method, true);
+    centralView.setUint32(20, data.length, true);
+    centralView.setUint32(24, declaredSize, true);
+    centralView.setUint16(28, name.length, true);
+    centralView.setUint32(42, offset, true);
+    central.set(name, 46);
+
+    locals.push(local);
+    centrals.push(central);
+    offset += local.length;
+  }
+
+  const centralSize = centrals.reduce((sum, central) => sum + central.length, 0);
+  const end = new Uint8Array(22);
+  const endView = new DataView(end.buffer);
+  endView.setUint32(0, 0x06054b50, true);
+  endView.setUint16(8, entries.length, true);
+  endView.setUint16(10, entries.length, true);
+  endView.setUint32(12, centralSize, true);
+  endView.setUint32(16, offset, true);
+
+  const parts = [...locals, ...centrals, end];
+  const zip = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let position = 0;
+  for (const part of parts) {
+    zip.set(part, position);
+    position += part.length;
+  }
+  return zip;
+}
+
+/** Explicit VR little endian DICOM header with the given dataset elements. */
+function makeDicom(elements: [number, number, string, string][]): Uint8Array {
+  const bytes: number[] = new Array(128).fill(0);
+  bytes.push(...encoder.encode('DICM'));
+  const push16 = (value: number) => bytes.push(value & 0xff, (value >> 8) & 0xff);
+  const writeElement = (group: number, element: number, vr: string, value: string) => {
+    const padded = value.length % 2 === 0 ? value : `${value}${vr === 'UI' ? '\0' : ' '}`;
+    push16(group);
+    push16(element);
+    bytes.push(...encoder.encode(vr));
+    push16(padded.length);
+    bytes.push(...encoder.encode(padded));
+  };
+
+  writeElement(0x0002, 0x0010, 'UI', '1.2.840.10008.1.2.1');
+  for (const [group, element, vr, value] of elements) writeElement(group, element, vr, value);
+  // Pixel data is past the last group read and must not be touched.
+  bytes.push(0xe0, 0x7f, 0x10, 0x00, 0x4f, 0x42, 0, 0, 0xff, 0xff, 0xff, 0xff);
+  return new Uint8Array(bytes);
+}
+
+const CT_HEAD = makeDicom([
+  [0x0008, 0x0020, 'DA', '20250611'],
+  [0x0008, 0x0060, 'CS', 'CT'],
+  [0x0008, 0x0080, 'LO', 'Example Imaging Center'],
+  [0x0008, 0x0090, 'PN', 'Smith^Anna^^Dr'],
+  [0x0008, 0x1030, 'LO', 'CT HEAD W/O CONTRAST'],
+  [0x0020, 0x000d, 'UI', '1.2.840.99.1'],
+]);
+
+describe('received records parsing', () => {
+  it('reads text from content streams, including TJ arrays and UCS-2 strings', () => {
+    const stream = [
+      'BT /F1 12 Tf 50 700 Td (Discharge Summary) Tj',
+      '0 -20 Td [(Date of ) -250 (Service:)] TJ ( 03/05/2026) Tj',
+      'T* <0023003100250043> Tj ET',
+    ].join('\n');
+
+    expect(extractContentStreamText(stream)).toBe('Discharge Summary\nDate of Service: 03/05/2026\n#1%C');
+  });
+
+  it('extracts per-page text from a generated PDF', async () => {
+    const pdf = await makePdf([['Lab Report', 'Collected: 08/14/2026'], []]);
+
+    expect(await extractPdfText(pdf)).toEqual(['Lab Report\nCollected: 08/14/2026', '']);
+  });
+
+  it('reads stored and deflated zip entries and skips macOS metadata', () => {
+    const zip = makeZip([
+      { name: 'records/summary.txt', bytes: encoder.encode('stored entry') },
+      { name: 'records/notes.txt', bytes: encoder.encode('deflated entry '.repeat(20)), deflate: true },
+      { name: '__MACOSX/records/._summary.txt', bytes: encoder.encode('resource fork') },
+      { name: 'records/', bytes: new Uint8Array() },
+    ]);
+
+    const entries = readZipEntries(zip);
+    expect(entries.map((entry) => entry.name)).toEqual(['records/summary.txt', 'records/notes.txt']);
+    expect(new TextDecoder().decode(entries[1].bytes)).toBe('deflated entry '.repeat(20));
+    expect(() => readZipEntries(zip, 100)).toThrow('too large');
+  });
+
+  it('rejects zip entries that inflate to more or less than their declared size', () => {
+    const bomb = makeZip([{ name: 'scan.pdf', bytes: new Uint8Array(1_000_000), deflate: true, declaredSize: 10 }]);
+    const truncated = makeZip([{ name: 'scan.pdf', bytes: encoder.encode('short'), deflate: true, declaredSize: 50 }]);
+
+    expect(() => readZipEntries(bomb, 100)).toThrow('"scan.pdf" is damaged');
+    expect(() => readZipEntries(truncated)).toThrow('"scan.pdf" is damaged');
+  });
+
+  it('reads study tags from a DICOM header', () => {
+    expect(readDicomStudyInfo(CT_HEAD)).toEqual({
+      studyInstanceUid: '1.2.840.99.1',
+      studyDate: '2025-06-11',
+      modality: 'CT',
+      studyDescription: 'CT HEAD W/O CONTRAST',
+      institutionName: 'Example Imaging Center',
+      referringPhysician: 'Dr Anna Smith',
+    });
+    expect(readDicomStudyInfo(encoder.encode('not dicom'))).toBeNull();
+  });
+});
+
+describe('document date detection', () => {
+  it('prefers labeled service dates over other dates', () => {
+    const text = ['Patient: Jane Doe  DOB: 01/02/1980', 'Printed 10/01/2026', 'Date of Service: March 5, 2026'].join('\n');
+
+    expect(detectDocumentDate(text, NOW)).toBe('2026-03-05');
+  });
+
+  it('falls back to the latest plausible date, ignoring birth dates and the future', () => {
+    const text = ['Date of birth: 1980-01-02', 'Seen 2026-02-10 and 2026-04-22', 'Next visit 12/01/2026', 'Bad 02/30/2026'].join('\n');
+
+    expect(detectDocumentDate(text, NOW)).toBe('2026-04-22');
+    expect(detectDocumentDate('No dates here.', NOW)).toBeNull();
+  });
+});
+
+describe('received records document', () => {
+  it('files a zip bundle as one entry with provider details and sidecars', async () => {
+    const summaryPdf = await makePdf([['# Discharge Summary', 'Discharge date: 07/02/2026']]);
+    const labPdf = await makePdf([['Lab Report', 'Collected: 08/14/2026']]);
+    const zip = makeZip([
+      { name: 'labs/lab-report.pdf', bytes: labPdf, deflate: true },
+      { name: 'imaging/IM0001', bytes: CT_HEAD },
+    ]);
+
+    const files = await analyzeReceivedFiles(
+      [
+        { name: 'Discharge Summary.pdf', bytes: summaryPdf },
+        { name: 'bundle.zip', bytes: zip },
+      ],
+      NOW,
+    );
+    expect(files.map((file) => [file.name, file.kind, file.documentDate])).toEqual([
+      ['Discharge Summary.pdf', 'pdf', '2026-07-02'],
+      ['bundle.zip/labs/lab-report.pdf', 'pdf', '2026-08-14'],
+      ['bundle.zip/imaging/IM0001', 'dicom', '2025-06-11'],
+    ]);
+
+    const { doc, sidecars, date } = buildReceivedRecordsDocument({ request, packet, files, receivedAt: RECEIVED_AT });
+
+    expect(receivedRecordsFolder(request)).toEqual({ path: 'example-health', displayName: 'Example Health' });
+    expect(date.toISOString()).toBe('2026-08-14T12:00:00.000Z');
+    expect(doc.metadata).toEqual({
+      type: 'note',
+      created: '2026-08-14T12:00:00.000Z',
+      provider: 'Example Health',
+      tags: ['records-received'],
+    });
+    expect(doc.value).toContain('# Records received — Example Health');
+    expect(doc.value).toContain('Document dates: 2025-06-11 to 2026-08-14');
+    expect(doc.value).toContain('Files: 2 PDFs, 1 imaging file');
+    expect(doc.value).toContain('- Portal: MyExample — https://my.examplehealth.org');
+    expect(doc.value).toContain('- HIM fax: 555-010-2000');
+    expect(doc.value).not.toContain('1 Main St');
+    expect(doc.value).toContain('- 2025-06-11 CT CT HEAD W/O CONTRAST — 1 image, Example Imaging Center, referred by Dr Anna Smith');
+    expect(doc.value).toContain('\\# Discharge Summary');
+
+    const batch = Date.parse(RECEIVED_AT).toString(36);
+    expect(sidecars.map((sidecar) => sidecar.sidecarFilename)).toEqual([
+      `2026-10-19-${batch}-discharge-summary.pdf.enc`,
+      `2026-10-19-${batch}-lab-report.pdf.enc`,
+      `2026-10-19-${batch}-im0001.dcm.enc`,
+    ]);
+    expect(doc.children.map((child) => [child.value, child.metadata.format, child.metadata.originalSizeBytes])).toEqual([
+      [sidecars[0].sidecarFilename, 'pdf', summaryPdf.byteLength],
+      [sidecars[1].sidecarFilename, 'pdf', labPdf.byteLength],
+      [sidecars[2].sidecarFilename, 'dcm', CT_HEAD.byteLength],
+    ]);
+  });
+
+  it('keeps a large batch within the size of one entry', () => {
+    const page = 'Résumé of care — hemoglobin 13.5 g/dL\n# Plan: follow up in 6 weeks\n';
+    const files: ReceivedRecordFile[] = Array.from({ length: 6 }, (_, index) => ({
+      name: `report-${index + 1}.pdf`,
+      kind: 'pdf',
+      format: 'pdf',
+      bytes: new Uint8Array([0x25, 0x50, 0x44, 0x46]),
+      text: `Report ${index + 1}\n${page.repeat(250)}`,
+      documentDate: null,
+      dicom: null,
+    }));
+
+    const { doc, sidecars } = buildReceivedRecordsDocument({ request, packet, files, receivedAt: RECEIVED_AT });
+
+    expect(documentFits({ ...doc, metadata: { ...doc.metadata, displayOrder: 12 } })).toBe(true);
+    expect(sidecars).toHaveLength(6);
+    expect(doc.value).toContain('## report-1.pdf');
+    expect(doc.value).toContain('_Text shortened; see the attached PDF for the rest._');
+    expect(doc.value).toContain('_Text from some PDFs was left out to keep this entry small; the attached PDFs are complete._');
+    expect(doc.value).not.toContain('## report-6.pdf');
+    expect(doc.value).toContain('- report-6.pdf');
+  });
+
+  it('marks the request fulfilled when records arrive', () => {
+    const next = withReceivedRecords(request, {
+      binderId: 'binder-1',
+      entryPath: 'example-health/2026-08-14-records-received.json',
+      receivedAt: RECEIVED_AT,
+      fileCount: 3,
+    });
+
+    expect(next.status).toBe('fulfilled');
+    expect(next.statusUpdatedAt).toBe(RECEIVED_AT);
+    expect(next.receivedRecords).toHaveLength(1);
+  });
+});
@@ -0,0 +1,236 @@
+import { describe, expect, it, vi } from 'vitest';
+
+vi.mock('react-native-fs', () => ({ default: { DocumentDirectoryPath: '/tmp' } }));
+
+import { buildEscalationLetter } from '../core/recordsWorkflow/escalation';
+import {
+  RecordsRequestLedger,
+  buildRecordsRequestCopyDocument,
+  computeRecordsRequestDeadlines,
+  createTrackedRecordsRequest,
+  getRecordsRequestFollowUp,
+  isFaxDeliveryPending,
+  withExtensionNotice,
+  withFaxJob,
+  withFollowUpSent,
+  withRecordsRequestStatus,
+} from '../core/recordsWorkflow/ledger';
+import type { RecordsRequestFaxJob, TrackedRecordsRequest } from '../types/recordsRequest';
+
+class MemoryStore {
+  readonly values = new Map<string, string>();
+
+  async getItemAsync(key: string): Promise<string | null> {
+    return this.values.get(key) ?? null;
+  }
+
+  async setItemAsync(key: string, value: string): Promise<void> {
+    this.values.set(key, value);
+  }
+
+  async deleteItemAsync(key: string): Promise<void> {
+    this.values.delete(key);
+  }
+}
+
+const SENT_AT = '2026-03-02T15:00:00.000Z';
+
+function makeRequest(overrides: Partial<TrackedRecordsRequest> = {}): TrackedRecordsRequest {
+  return {
+    ...createTrackedRecordsRequest({
+      hospitalSystem: { id: 'system-1', name: 'Example Health', domain: null, state: 'TX' },
+      formName: 'Authorization for Release of Medical Information',
+      channel: 'fax',
+      destination: '(555) 010-2000',
+      sentAt: SENT_AT,
+    }),
+    ...overrides,
+  };
+}
+
+function daysAfterSent(days: number): Date {
+  return new Date(Date.parse(SENT_AT) + days * 24 * 60 * 60 * 1000);
+}
+
+describe('records request deadlines', () => {
+  it('allows 30 days plus a 30-day extension', () => {
+    expect(computeRecordsRequestDeadlines(SENT_AT)).toEqual({
+      responseDueAt: '2026-04-01T15:00:00.000Z',
+      extendedDueAt: '2026-05-01T15:00:00.000Z',
+    });
+  });
+
+  it('moves from waiting to overdue to extension_overdue', () => {
+    const request = makeRequest();
+
+    expect(getRecordsRequestFollowUp(request, daysAfterSent(10))).toEqual({
+      stage: 'waiting',
+      dueAt: '2026-04-01T15:00:00.000Z',
+      daysRemaining: 20,
+      needsFollowUp: false,
+    });
+    expect(getRecordsRequestFollowUp(request, daysAfterSent(33))).toMatchObject({
+      stage: 'overdue',
+      daysRemaining: -3,
+      needsFollowUp: true,
+    });
+    expect(getRecordsRequestFollowUp(request, daysAfterSent(61))).toMatchObject({
+      stage: 'extension_overdue',
+      dueAt: '2026-05-01T15:00:00.000Z',
+      needsFollowUp: true,
+    });
+  });
+
+  it('uses the extended deadline once the hospital gives notice', () => {
+    const request = withExtensionNotice(makeRequest(), daysAfterSent(25));
+
+    expect(getRecordsRequestFollowUp(request, daysAfterSent(40))).toMatchObject({
+      stage: 'extended',
+      daysRemaining: 20,
+      needsFollowUp: false,
+    });
+  });
+
+  it('waits before prompting again after a follow-up letter', () => {
+    const request = withFollowUpSent(makeRequest(), 'overdue', daysAfterSent(31));
+
+    expect(getRecordsRequestFollowUp(request, daysAfterSent(40)).needsFollowUp).toBe(false);
+    expect(getRecordsRequestFollowUp(request, daysAfterSent(45)).needsFollowUp).toBe(true);
+    expect(getRecordsRequestFollowUp(request, daysAfterSent(61)).needsFollowUp).toBe(true);
+  });
+
+  it('stops tracking deadlines once fulfilled or denied', () => {
+    const fulfilled = withRecordsRequestStatus(makeRequest(), 'fulfilled', daysAfterSent(70));
+
+    expect(fulfilled.statusUpdatedAt).toBe(daysAfterSent(70).toISOString());
+    expect(getRecordsRequestFollowUp(fulfilled, daysAfterSent(70))).toEqual({
+      stage: 'closed',
+      dueAt: null,
+      daysRemaining: null,
+      needsFollowUp: false,
+    });
+  });
+});
+
+describe('faxed records requests', () => {
+  const sendingJob: RecordsRequestFaxJob = {
+    id: 'fax-1',
+    status: 'sending',
+    requestStatus: 'pending',
+    attempts: 1,
+    maxAttempts: 3,
+    lastError: null,
+    deliveredAt: null,
+    updatedAt: SENT_AT,
+  };
+
+  it('holds the deadline until the fax is delivered', () => {
+    const request = makeRequest({ faxJob: sendingJob });
+
+    expect(isFaxDeliveryPending(request)).toBe(true);
+    expect(getRecordsRequestFollowUp(request, daysAfterSent(40))).toEqual({
+      stage: 'undelivered',
+      dueAt: null,
+      daysRemaining: null,
+      needsFollowUp: false,
+    });
+  });
+
+  it('counts the deadline from the delivery time', () => {
+    const deliveredAt = daysAfterSent(2).toISOString();
+    const request = withFaxJob(makeRequest({ faxJob: sendingJob }), {
+      ...sendingJob,
+      status: 'delivered',
+      requestStatus: 'sent',
+      deliveredAt,
+    });
+
+    expect(request.sentAt).toBe(deliveredAt);
+    expect(isFaxDeliveryPending(request)).toBe(false);
+    expect(getRecordsRequestFollowUp(request, daysAfterSent(12))).toMatchObject({
+      stage: 'waiting',
+      dueAt: '2026-04-03T15:00:00.000Z',
+      daysRemaining: 20,
+    });
+  });
+
+  it('stops polling once the fax has failed', () => {
+    const request = withFaxJob(makeRequest(), {
+      ...sendingJob,
+      status: 'failed',
+      requestStatus: 'failed',
+      attempts: 3,
+      lastError: 'Line busy',
+    });
+
+    expect(isFaxDeliveryPending(request)).toBe(false);
+    expect(request.sentAt).toBe(SENT_AT);
+    expect(getRecordsRequestFollowUp(request, daysAfterSent(40)).stage).toBe('undelivered');
+  });
+});
+
+describe('RecordsRequestLedger', () => {
+  it('stores requests per owner, newest first', async () => {
+    const store = new MemoryStore();
+    const ledger = new RecordsRequestLedger(store, 'nostr:test-owner');
+    const older = makeRequest({ id: 'older' });
+    const newer = makeRequest({ id: 'newer', sentAt: '2026-04-10T12:00:00.000Z' });
+
+    await ledger.upsertRequest(older);
+    await ledger.upsertRequest(newer);
+    await ledger.upsertRequest(withRecordsRequestStatus(older, 'acknowledged'));
+
+    const requests = await ledger.listRequests();
+    expect(requests.map((request) => request.id)).toEqual(['newer', 'older']);
+    expect(requests[1].status).toBe('acknowledged');
+    expect(await new RecordsRequestLedger(store, 'nostr:someone-else').listRequests()).toEqual([]);
+
+    await ledger.deleteRequest('newer');
+    await ledger.deleteRequest('older');
+    expect(store.values.size).toBe(0);
+  });
+});
+
+describe('records request binder copy', () => {
+  it('attaches the PDF as a sidecar child', () => {
+    const { doc, sidecars } = buildRecordsRequestCopyDocument(makeRequest(), 'JVBERi0=', 5);
+
+    expect(doc.metadata.tags).toEqual(['records-request']);
+    expect(doc.value).toContain('Sent: 2026-03-02 by fax to (555) 010-2000');
+    expect(doc.value).toContain('Response due: 2026-04-01 (2026-05-01 with extension)');
+    expect(sidecars).toEqual([
+      { sidecarFilename: '2026-03-02-records-request-example-health.pdf.enc', base64Data: 'JVBERi0=' },
+    ]);
+    expect(doc.children[0]).toMatchObject({
+      value: sidecars[0].sidecarFilename,
+      metadata: { type: 'attachment_ref', format: 'pdf', originalSizeBytes: 5 },
+    });
+  });
+});
+
+describe('escalation letters', () => {
+  const patient = {
+    fullName: 'Jane Doe',
+    dateOfBirth: '01/02/1980',
+    phoneNumber: '',
+    email: 'jane@example.com',
+  };
+
+  it('cites the 30-day deadline in the first letter', () => {
+    const letter = buildEscalationLetter(makeRequest(), 'overdue', patient, daysAfterSent(33));
+
+    expect(letter.subject).toBe('Follow-up: medical records request sent March 2, 2026');
+    expect(letter.body).toContain('That period ended on April 1, 2026');
+    expect(letter.body).toContain('Patient: Jane Doe');
+    expect(letter.body).not.toContain('Phone:');
+    expect(letter.body.trimEnd().endsWith('Jane Doe')).toBe(true);
+  });
+
+  it('mentions the extended deadline and an OCR complaint in the second letter', () => {
+    const letter = buildEscalationLetter(makeRequest(), 'extension_overdue', null, daysAfterSent(61));
+
+    expect(letter.body).toContain('the deadline to act on it was May 1, 2026');
+    expect(letter.body).toContain('Office for Civil Rights');
+    expect(letter.body).not.toContain('Patient:');
+  });
+});
@@ -0,0 +1,81 @@
+import { describe, expect, it } from 'vitest';
+import { inferBehavior } from '../core/binder/folderBehavior';
+import { buildAllergyMarkdown, parseAllergyEntry } from '../core/markdown/allergyEntry';
+import { buildImmunizationMarkdown, parseImmunizationEntry } from '../core/markdown/immunizationEntry';
+import {
+  buildLabResultMarkdown,
+  formatLabResultRow,
+  parseLabResultEntry,
+  parseLabResultRow,
+} from '../core/markdown/labResultEntry';
+import { buildVisitMarkdown, parseVisitEntry } from '../core/markdown/visitEntry';
+
+describe('lab result entries', () => {
+  it('round-trips rows with ranges and flags', () => {
+    const fields = {
+      title: 'Lipid Panel',
+      lab: 'Quest Diagnostics',
+      results: [
+        { analyte: 'LDL', value: '162', unit: 'mg/dL', referenceRange: '<100', flag: 'high' as const },
+        { analyte: 'HDL', value: '55', unit: 'mg/dL', referenceRange: '40-60' },
+        { analyte: 'Appearance', value: 'Clear' },
+      ],
+      notes: 'Fasting 12h',
+    };
+    const markdown = buildLabResultMarkdown(fields);
+    expect(markdown).toContain('- LDL: 162 mg/dL (ref <100) [High]');
+    expect(parseLabResultEntry(markdown)).toEqual({ isLabResultEntry: true, fields });
+  });
+
+  it('drops empty rows and reads flag abbreviations', () => {
+    const markdown = buildLabResultMarkdown({
+      title: 'CBC',
+      results: [{ analyte: 'Hemoglobin', value: '9.1', unit: 'g/dL' }, { analyte: '', value: '' }],
+    });
+    expect(parseLabResultEntry(markdown).fields?.results).toHaveLength(1);
+    expect(parseLabResultRow('- Potassium: 6.8 mmol/L (reference range: 3.5-5.1) [HH]')).toEqual({
+      analyte: 'Potassium',
+      value: '6.8',
+      unit: 'mmol/L',
+      referenceRange: '3.5-5.1',
+      flag: 'critical',
+    });
+    expect(formatLabResultRow({ analyte: 'Glucose', value: '92', unit: 'mg/dL' })).toBe('- Glucose: 92 mg/dL');
+  });
+
+  it('rejects markdown without a results section', () => {
+    expect(parseLabResultEntry('# Note\n\nJust text').isLabResultEntry).toBe(false);
+  });
+});
+
+describe('allergy, immunization and visit entries', () => {
+  it('round-trips allergies', () => {
+    const fields = { allergen: 'Penicillin', reaction: 'Hives', severity: 'Severe', notes: 'Since childhood' };
+    expect(parseAllergyEntry(buildAllergyMarkdown(fields)).fields).toMatchObject(fields);
+  });
+
+  it('round-trips immunizations', () => {
+    const fields = { vaccine: 'Tdap', date: '2026-03-01', doseNumber: '2', dose: '0.5 mL', lot: 'AB123' };
+    const parsed = parseImmunizationEntry(buildImmunizationMarkdown(fields));
+    expect(parsed.isImmunizationEntry).toBe(true);
+    expect(parsed.fields).toMatchObject(fields);
+  });
+
+  it('round-trips SOAP visit notes, keeping empty sections', () => {
+    const fields = { title: 'Checkup', subjective: 'Tired', objective: '', assessment: 'Anemia', plan: 'Iron' };
+    const markdown = buildVisitMarkdown(fields);
+    expect(markdown).toContain('## Objective\n\n## Assessment');
+    expect(parseVisitEntry(markdown).fields).toEqual(fields);
+    expect(parseVisitEntry('# Free text\n\nNo sections').isVisitEntry).toBe(false);
+  });
+});
+
+describe('folder behavior', () => {
+  it('maps structured folders to their editors', () => {
+    expect(inferBehavior('Lab Results')?.contextualAdd.editor).toBe('LabResultForm');
+    expect(inferBehavior('allergies')?.contextualAdd.renderer).toBe('AllergySummary');
+    expect(inferBehavior('vaccines')?.contextualAdd.editor).toBe('ImmunizationForm');
+    expect(inferBehavior('visits')?.contextualAdd.editor).toBe('VisitNoteForm');
+    expect(inferBehavior('medications')?.id).toBe('medication');
+  });
+});
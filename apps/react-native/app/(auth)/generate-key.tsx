@@ -1,5 +1,5 @@
 // app/(auth)/generate-key.tsx
-// Generate a new Nostr keypair, show nsec for backup, then authenticate.
+// Generate a new Nostr keypair, show nsec and recovery phrase for backup, then authenticate.
 
 import React, { useState, useMemo } from 'react';
 import {
@@ -13,8 +13,8 @@ import {
 } from 'react-native';
 import { useRouter, useLocalSearchParams } from 'expo-router';
 import { secp256k1 } from '@noble/curves/secp256k1.js';
-import { bytesToHex } from '@noble/hashes/utils.js';
 import { KeyManager } from '../../core/crypto/KeyManager';
+import { encodeNsec, privkeyToMnemonic } from '../../core/crypto/keyBackup';
 import { useAuthContext } from '../../providers/AuthProvider';
 import { createThemedStyles, useThemedStyles } from '../../theme';
 
@@ -31,8 +31,9 @@ export default function GenerateKeyScreen() {
   const keypair = useMemo(() => {
     const privkey = secp256k1.utils.randomSecretKey();
     const pubkey = KeyManager.pubkeyFromPrivkey(privkey);
-    const nsec = bytesToHex(privkey); // TODO: bech32 nsec encoding
-    return { privkey, pubkey, nsec };
+    const nsec = encodeNsec(privkey);
+    const words = privkeyToMnemonic(privkey).split(' ');
+    return { privkey, pubkey, nsec, words };
   }, []);
 
   const handleContinue = async () => {
@@ -68,10 +69,23 @@ export default function GenerateKeyScreen() {
     >
       <Text style={styles.title}>Your Secret Key</Text>
       <Text style={styles.description}>
-        This key encrypts all your medical data. Write it down and store it
-        somewhere safe. Limbo Health cannot recover it for you.
+        This key encrypts all your medical data. Write down the recovery phrase
+        (or save the nsec) somewhere safe. Limbo Health cannot recover it for you.
+        More backup options are under Profile → Encryption Keys.
       </Text>
 
+      <View style={styles.keyBox}>
+        <Text style={styles.keyLabel}>Recovery Phrase</Text>
+        <View style={styles.wordGrid}>
+          {keypair.words.map((word, i) => (
+            <Text key={i} style={styles.word}>
+              <Text style={styles.wordIndex}>{i + 1}. </Text>
+              {word}
+            </Text>
+          ))}
+        </View>
+      </View>
+
       <View style={styles.keyBox}>
         <Text style={styles.keyLabel}>Secret Key (nsec)</Text>
         <Text style={styles.keyValue} selectable>
@@ -94,7 +108,7 @@ export default function GenerateKeyScreen() {
           {backedUp && <Text style={styles.checkmark}>✓</Text>}
         </View>
         <Text style={styles.checkboxLabel}>
-          I have saved my secret key in a safe place
+          I have saved my recovery phrase or secret key in a safe place
         </Text>
       </Pressable>
 
@@ -168,6 +182,21 @@ const createStyles = createThemedStyles((theme) => ({
     color: theme.colors.text,
     lineHeight: 20,
   },
+  wordGrid: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    rowGap: 6,
+  },
+  word: {
+    width: '33.33%',
+    fontSize: 14,
+    fontFamily: 'Courier',
+    color: theme.colors.text,
+  },
+  wordIndex: {
+    fontSize: 11,
+    color: theme.colors.textMuted,
+  },
   pubkeyValue: {
     fontSize: 14,
     fontFamily: 'Courier',
@@ -0,0 +1,316 @@
+// app/binder/[binderId]/access.tsx
+// Caregiver and family access for a binder. The owner grants a role
+// (view only / can edit) to another account by public key; the binder key is
+// wrapped to them so they can decrypt. Revoking re-keys the binder.
+
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import {
+  ActivityIndicator,
+  Alert,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+import { Stack, useLocalSearchParams } from 'expo-router';
+import { BinderService } from '../../../../../core/binder/BinderService';
+import {
+  DELEGATE_ROLE_LABELS,
+  delegateDisplayName,
+  grantDelegate,
+  listDelegates,
+  parsePubkeyInput,
+  revokeDelegate,
+  type BinderDelegate,
+  type DelegateRole,
+} from '../../../../../core/binder/BinderDelegation';
+import { useAuthContext } from '../../../../../providers/AuthProvider';
+import { useCryptoContext } from '../../../../../providers/CryptoProvider';
+
+const ROLES: DelegateRole[] = ['read-only', 'read-write'];
+
+export default function BinderAccessScreen() {
+  const { binderId } = useLocalSearchParams<{ binderId: string }>();
+
+  const { state: authState, privkey } = useAuthContext();
+  const { masterConversationKey } = useCryptoContext();
+  const jwt = authState.status === 'authenticated' ? authState.jwt : null;
+
+  const binderService = useMemo(() => {
+    if (!masterConversationKey || !jwt || !binderId) return null;
+    return new BinderService(
+      {
+        repoId: binderId,
+        repoDir: `binders/${binderId}`,
+        auth: { type: 'jwt' as const, token: jwt },
+        author: {
+          name: authState.metadata?.name || authState.oauthProfile?.name || 'Limbo Health',
+          email: authState.oauthProfile?.email || 'app@limbo.health',
+        },
+      },
+      masterConversationKey,
+    );
+  }, [binderId, masterConversationKey, jwt, authState.metadata?.name, authState.oauthProfile?.name, authState.oauthProfile?.email]);
+
+  const [delegates, setDelegates] = useState<BinderDelegate[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [pubkeyInput, setPubkeyInput] = useState('');
+  const [role, setRole] = useState<DelegateRole>('read-only');
+  const [busy, setBusy] = useState<string | null>(null);
+
+  const loadDelegates = useCallback(async () => {
+    if (!jwt || !binderId) return;
+    try {
+      setDelegates(await listDelegates(binderId, jwt));
+      setLoadError(null);
+    } catch (err) {
+      setLoadError(err instanceof Error ? err.message : 'Failed to load access list');
+    } finally {
+      setLoading(false);
+    }
+  }, [binderId, jwt]);
+
+  useEffect(() => {
+    loadDelegates();
+  }, [loadDelegates]);
+
+  const handleGrant = useCallback(async () => {
+    if (!binderService || !jwt || !privkey) return;
+    let pubkey: string;
+    try {
+      pubkey = parsePubkeyInput(pubkeyInput);
+    } catch (err) {
+      Alert.alert('Invalid Key', err instanceof Error ? err.message : 'Invalid public key');
+      return;
+    }
+
+    setBusy('grant');
+    try {
+      await grantDelegate(binderId, pubkey, role, jwt);
+      const members = await binderService.listKeyringMembers();
+      if (!members.includes(pubkey)) {
+        await binderService.addKeyringMember(privkey, pubkey);
+      }
+      setPubkeyInput('');
+      await loadDelegates();
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Failed to share this binder';
+      Alert.alert('Share Failed', message);
+    } finally {
+      setBusy(null);
+    }
+  }, [binderService, binderId, jwt, privkey, pubkeyInput, role, loadDelegates]);
+
+  const handleChangeRole = useCallback(async (delegate: BinderDelegate, nextRole: DelegateRole) => {
+    if (!jwt || nextRole === delegate.role) return;
+    setBusy(delegate.pubkey);
+    try {
+      await grantDelegate(binderId, delegate.pubkey, nextRole, jwt);
+      await loadDelegates();
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Failed to change access';
+      Alert.alert('Update Failed', message);
+    } finally {
+      setBusy(null);
+    }
+  }, [binderId, jwt, loadDelegates]);
+
+  const revoke = useCallback(async (delegate: BinderDelegate) => {
+    if (!binderService || !jwt || !privkey) return;
+    setBusy(delegate.pubkey);
+    try {
+      await revokeDelegate(binderId, delegate.pubkey, jwt);
+      await binderService.removeKeyringMember(privkey, delegate.pubkey);
+      await loadDelegates();
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Failed to revoke access';
+      Alert.alert('Revoke Failed', `${message}\n\nTry again to finish re-encrypting the binder.`);
+    } finally {
+      setBusy(null);
+    }
+  }, [binderService, binderId, jwt, privkey, loadDelegates]);
+
+  const handleRevoke = useCallback((delegate: BinderDelegate) => {
+    Alert.alert(
+      'Revoke Access',
+      `${delegateDisplayName(delegate)} will no longer be able to open this binder. ` +
+        'The binder is re-encrypted with a new key, which may take a moment.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Revoke', style: 'destructive', onPress: () => revoke(delegate) },
+      ],
+    );
+  }, [revoke]);
+
+  if (loading) {
+    return (
+      <>
+        <Stack.Screen options={{ title: 'Shared Access' }} />
+        <View style={styles.centered}>
+          <ActivityIndicator size="large" />
+        </View>
+      </>
+    );
+  }
+
+  return (
+    <>
+      <Stack.Screen options={{ title: 'Shared Access' }} />
+      <ScrollView style={styles.screen} contentContainerStyle={styles.content} keyboardShouldPersistTaps="handled">
+        <Text style={styles.sectionLabel}>People with access</Text>
+        {loadError ? (
+          <Text style={styles.errorText}>{loadError}</Text>
+        ) : delegates.length === 0 ? (
+          <Text style={styles.emptyText}>Only you can open this binder.</Text>
+        ) : (
+          delegates.map((delegate) => (
+            <View key={delegate.pubkey} style={styles.row}>
+              <View style={styles.rowHeader}>
+                <Text style={styles.rowTitle} numberOfLines={1}>{delegateDisplayName(delegate)}</Text>
+                {busy === delegate.pubkey ? (
+                  <ActivityIndicator size="small" />
+                ) : (
+                  <TouchableOpacity onPress={() => handleRevoke(delegate)} disabled={busy !== null}>
+                    <Text style={styles.revokeText}>Revoke</Text>
+                  </TouchableOpacity>
+                )}
+              </View>
+              <Text style={styles.rowMeta} numberOfLines={1}>
+                {delegate.pubkey.slice(0, 16)}… · since {new Date(delegate.grantedAt).toLocaleDateString()}
+              </Text>
+              <View style={styles.roleRow}>
+                {ROLES.map((option) => (
+                  <TouchableOpacity
+                    key={option}
+                    style={[styles.roleChip, delegate.role === option && styles.roleChipSelected]}
+                    onPress={() => handleChangeRole(delegate, option)}
+                    disabled={busy !== null}
+                  >
+                    <Text style={[styles.roleText, delegate.role === option && styles.roleTextSelected]}>
+                      {DELEGATE_ROLE_LABELS[option]}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+            </View>
+          ))
+        )}
+
+        <Text style={styles.sectionLabel}>Add a caregiver or family member</Text>
+        <View style={styles.card}>
+          <Text style={styles.hintText}>
+            Ask them for the public key (npub) shown in their Limbo Health account settings.
+          </Text>
+          <TextInput
+            style={styles.input}
+            value={pubkeyInput}
+            onChangeText={setPubkeyInput}
+            placeholder="npub1… or hex public key"
+            placeholderTextColor="#999"
+            autoCapitalize="none"
+            autoCorrect={false}
+          />
+          <View style={styles.roleRow}>
+            {ROLES.map((option) => (
+              <TouchableOpacity
+                key={option}
+                style={[styles.roleChip, role === option && styles.roleChipSelected]}
+                onPress={() => setRole(option)}
+              >
+                <Text style={[styles.roleText, role === option && styles.roleTextSelected]}>
+                  {DELEGATE_ROLE_LABELS[option]}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+          <TouchableOpacity
+            style={[styles.primaryButton, (!pubkeyInput.trim() || busy !== null || !privkey) && styles.buttonDisabled]}
+            onPress={handleGrant}
+            disabled={!pubkeyInput.trim() || busy !== null || !privkey}
+          >
+            {busy === 'grant' ? (
+              <ActivityIndicator color="#fff" />
+            ) : (
+              <Text style={styles.primaryButtonText}>Share Binder</Text>
+            )}
+          </TouchableOpacity>
+        </View>
+      </ScrollView>
+    </>
+  );
+}
+
+const styles = StyleSheet.create({
+  screen: { flex: 1, backgroundColor: '#fafafa' },
+  content: { padding: 16, paddingBottom: 40 },
+  centered: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 32,
+  },
+  sectionLabel: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#888',
+    textTransform: 'uppercase',
+    marginTop: 16,
+    marginBottom: 8,
+  },
+  emptyText: { fontSize: 15, color: '#888' },
+  errorText: { fontSize: 14, color: '#c0392b' },
+  row: {
+    backgroundColor: '#fff',
+    borderRadius: 8,
+    padding: 12,
+    marginBottom: 8,
+    gap: 6,
+  },
+  rowHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    gap: 12,
+  },
+  rowTitle: { flex: 1, fontSize: 15, fontWeight: '500', color: '#333' },
+  rowMeta: { fontSize: 12, color: '#888' },
+  revokeText: { fontSize: 14, fontWeight: '600', color: '#c0392b' },
+  roleRow: { flexDirection: 'row', gap: 8 },
+  roleChip: {
+    borderWidth: 1,
+    borderColor: '#e5e5e5',
+    borderRadius: 16,
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+  },
+  roleChipSelected: { borderColor: '#007AFF', backgroundColor: '#EBF5FF' },
+  roleText: { fontSize: 13, color: '#666' },
+  roleTextSelected: { color: '#007AFF', fontWeight: '600' },
+  card: {
+    backgroundColor: '#fff',
+    borderRadius: 8,
+    padding: 12,
+    gap: 10,
+  },
+  hintText: { fontSize: 13, color: '#666', lineHeight: 18 },
+  input: {
+    borderWidth: 1,
+    borderColor: '#e5e5e5',
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 15,
+    color: '#333',
+  },
+  primaryButton: {
+    backgroundColor: '#007AFF',
+    borderRadius: 8,
+    paddingVertical: 12,
+    alignItems: 'center',
+  },
+  buttonDisabled: { opacity: 0.5 },
+  primaryButtonText: { color: '#fff', fontSize: 15, fontWeight: '600' },
+});
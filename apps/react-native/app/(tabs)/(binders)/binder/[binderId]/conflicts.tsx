@@ -0,0 +1,317 @@
+// app/binder/[binderId]/conflicts.tsx
+// Sync conflicts for a binder: entries changed on two devices that the pull
+// couldn't merge. Keep either version, keep both as separate entries, or (for
+// structured entries) pick a version per field.
+
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import {
+  ActivityIndicator,
+  Alert,
+  FlatList,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+import { Stack, useLocalSearchParams } from 'expo-router';
+import { BinderService } from '../../../../../core/binder/BinderService';
+import { extractTitle } from '../../../../../core/binder/DocumentModel';
+import {
+  planFieldMerge,
+  type BinderConflict,
+  type ConflictResolution,
+  type ConflictSide,
+} from '../../../../../core/binder/SyncConflicts';
+import { useAuthContext } from '../../../../../providers/AuthProvider';
+import { useCryptoContext } from '../../../../../providers/CryptoProvider';
+
+const SIDE_LABELS: Record<ConflictSide, string> = {
+  ours: 'This device',
+  theirs: 'Other device',
+};
+
+function formatDocDate(iso: string | undefined): string {
+  return iso ? new Date(iso).toLocaleString() : 'Unknown';
+}
+
+export default function ConflictsScreen() {
+  const { binderId } = useLocalSearchParams<{ binderId: string }>();
+
+  const { state: authState } = useAuthContext();
+  const { masterConversationKey } = useCryptoContext();
+  const jwt = authState.status === 'authenticated' ? authState.jwt : null;
+
+  const binderService = useMemo(() => {
+    if (!masterConversationKey || !jwt || !binderId) return null;
+    return new BinderService(
+      {
+        repoId: binderId,
+        repoDir: `binders/${binderId}`,
+        auth: { type: 'jwt' as const, token: jwt },
+        author: {
+          name: authState.metadata?.name || authState.oauthProfile?.name || 'Limbo Health',
+          email: authState.oauthProfile?.email || 'app@limbo.health',
+        },
+      },
+      masterConversationKey,
+    );
+  }, [binderId, masterConversationKey, jwt, authState.metadata?.name, authState.oauthProfile?.name, authState.oauthProfile?.email]);
+
+  const [conflicts, setConflicts] = useState<BinderConflict[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [selected, setSelected] = useState<BinderConflict | null>(null);
+  const [choices, setChoices] = useState<Record<string, ConflictSide>>({});
+  const [resolving, setResolving] = useState(false);
+
+  const loadConflicts = useCallback(async () => {
+    if (!binderService) return;
+    const next = await binderService.listConflicts();
+    setConflicts(next);
+    setLoading(false);
+  }, [binderService]);
+
+  useEffect(() => {
+    loadConflicts();
+  }, [loadConflicts]);
+
+  const plan = useMemo(() => (selected ? planFieldMerge(selected) : null), [selected]);
+
+  const handleSelect = useCallback((conflict: BinderConflict) => {
+    setSelected(conflict);
+    setChoices({});
+  }, []);
+
+  const resolve = useCallback(async (resolution: ConflictResolution) => {
+    if (!binderService || !selected) return;
+    setResolving(true);
+    try {
+      const copyPath = await binderService.resolveConflict(selected.path, resolution);
+      if (copyPath) {
+        Alert.alert('Kept Both', `The other device's version was saved as ${copyPath.split('/').pop()}.`);
+      }
+      setSelected(null);
+      await loadConflicts();
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Failed to resolve conflict';
+      Alert.alert('Resolve Failed', message);
+    } finally {
+      setResolving(false);
+    }
+  }, [binderService, selected, loadConflicts]);
+
+  if (loading) {
+    return (
+      <>
+        <Stack.Screen options={{ title: 'Sync Conflicts' }} />
+        <View style={styles.centered}>
+          <ActivityIndicator size="large" />
+        </View>
+      </>
+    );
+  }
+
+  if (selected) {
+    const unresolved = plan?.unresolved.filter((key) => !choices[key]) ?? [];
+
+    return (
+      <>
+        <Stack.Screen
+          options={{
+            title: extractTitle(selected.ours),
+            headerLeft: () => (
+              <TouchableOpacity onPress={() => setSelected(null)} disabled={resolving}>
+                <Text style={styles.headerAction}>Conflicts</Text>
+              </TouchableOpacity>
+            ),
+          }}
+        />
+        <ScrollView style={styles.screen} contentContainerStyle={styles.detailContent}>
+          <Text style={styles.pathText}>{selected.path}</Text>
+
+          {plan ? (
+            <>
+              <Text style={styles.sectionLabel}>Merge by field</Text>
+              {plan.rows.map((row) => {
+                const choice = choices[row.key] ?? row.resolved;
+                const differs = row.ours !== row.theirs;
+                return (
+                  <View key={row.key} style={styles.fieldCard}>
+                    <Text style={styles.fieldLabel}>
+                      {row.label}
+                      {differs && row.resolved ? `  ·  changed on ${SIDE_LABELS[row.resolved].toLowerCase()}` : ''}
+                    </Text>
+                    {differs ? (
+                      (['ours', 'theirs'] as const).map((side) => (
+                        <TouchableOpacity
+                          key={side}
+                          style={[styles.fieldOption, choice === side && styles.fieldOptionSelected]}
+                          onPress={() => setChoices((prev) => ({ ...prev, [row.key]: side }))}
+                          disabled={resolving}
+                        >
+                          <Text style={styles.fieldOptionSide}>{SIDE_LABELS[side]}</Text>
+                          <Text style={styles.fieldOptionValue}>{row[side] ?? '(empty)'}</Text>
+                        </TouchableOpacity>
+                      ))
+                    ) : (
+                      <Text style={styles.fieldOptionValue}>{row.ours ?? '(empty)'}</Text>
+                    )}
+                  </View>
+                );
+              })}
+              <TouchableOpacity
+                style={[styles.primaryButton, (unresolved.length > 0 || resolving) && styles.buttonDisabled]}
+                onPress={() => resolve({ kind: 'fields', choices })}
+                disabled={unresolved.length > 0 || resolving}
+              >
+                <Text style={styles.primaryButtonText}>
+                  {unresolved.length > 0
+                    ? `Choose ${unresolved.length} more field${unresolved.length === 1 ? '' : 's'}`
+                    : 'Save Merged Entry'}
+                </Text>
+              </TouchableOpacity>
+            </>
+          ) : (
+            (['ours', 'theirs'] as const).map((side) => (
+              <View key={side} style={styles.versionCard}>
+                <Text style={styles.fieldLabel}>
+                  {SIDE_LABELS[side]} · edited {formatDocDate(selected[side].metadata.updated ?? selected[side].metadata.created)}
+                </Text>
+                <Text style={styles.versionBody}>{selected[side].value}</Text>
+              </View>
+            ))
+          )}
+
+          <Text style={styles.sectionLabel}>Or keep whole versions</Text>
+          <TouchableOpacity
+            style={styles.optionRow}
+            onPress={() => resolve({ kind: 'keep', side: 'ours' })}
+            disabled={resolving}
+          >
+            <Text style={styles.optionTitle}>Keep this device's version</Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={styles.optionRow}
+            onPress={() => resolve({ kind: 'keep', side: 'theirs' })}
+            disabled={resolving}
+          >
+            <Text style={styles.optionTitle}>Keep the other device's version</Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={styles.optionRow}
+            onPress={() => resolve({ kind: 'both' })}
+            disabled={resolving}
+          >
+            <Text style={styles.optionTitle}>Keep both as separate entries</Text>
+          </TouchableOpacity>
+          {resolving ? <ActivityIndicator style={styles.resolvingIndicator} /> : null}
+        </ScrollView>
+      </>
+    );
+  }
+
+  return (
+    <>
+      <Stack.Screen options={{ title: 'Sync Conflicts' }} />
+      <FlatList
+        style={styles.screen}
+        data={conflicts}
+        keyExtractor={(item) => item.path}
+        ListEmptyComponent={
+          <Text style={styles.emptyText}>No conflicts. Everything is in sync.</Text>
+        }
+        renderItem={({ item }) => (
+          <TouchableOpacity style={styles.row} onPress={() => handleSelect(item)}>
+            <Text style={styles.rowTitle} numberOfLines={1}>{extractTitle(item.ours)}</Text>
+            <Text style={styles.rowMeta} numberOfLines={1}>
+              {item.path} · {formatDocDate(item.detectedAt)}
+            </Text>
+          </TouchableOpacity>
+        )}
+      />
+    </>
+  );
+}
+
+const styles = StyleSheet.create({
+  screen: { flex: 1, backgroundColor: '#fafafa' },
+  centered: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 32,
+  },
+  emptyText: { fontSize: 15, color: '#888', textAlign: 'center', marginTop: 32 },
+  headerAction: {
+    color: '#007AFF',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  row: {
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    backgroundColor: '#fff',
+    borderBottomWidth: StyleSheet.hairlineWidth,
+    borderBottomColor: '#e5e5e5',
+  },
+  rowTitle: { fontSize: 15, fontWeight: '500', color: '#333' },
+  rowMeta: { fontSize: 12, color: '#888', marginTop: 2 },
+  detailContent: { padding: 16, paddingBottom: 40 },
+  pathText: { fontSize: 12, color: '#888', marginBottom: 8 },
+  sectionLabel: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#888',
+    textTransform: 'uppercase',
+    marginTop: 16,
+    marginBottom: 8,
+  },
+  fieldCard: {
+    backgroundColor: '#fff',
+    borderRadius: 8,
+    padding: 12,
+    marginBottom: 8,
+    gap: 6,
+  },
+  fieldLabel: { fontSize: 13, fontWeight: '600', color: '#666' },
+  fieldOption: {
+    borderWidth: 1,
+    borderColor: '#e5e5e5',
+    borderRadius: 8,
+    padding: 10,
+  },
+  fieldOptionSelected: { borderColor: '#007AFF', backgroundColor: '#EBF5FF' },
+  fieldOptionSide: { fontSize: 11, fontWeight: '600', color: '#888', marginBottom: 2 },
+  fieldOptionValue: { fontSize: 15, color: '#333' },
+  versionCard: {
+    backgroundColor: '#fff',
+    borderRadius: 8,
+    padding: 12,
+    marginBottom: 8,
+    gap: 6,
+  },
+  versionBody: {
+    fontFamily: 'Courier',
+    fontSize: 13,
+    lineHeight: 19,
+    color: '#333',
+  },
+  primaryButton: {
+    backgroundColor: '#007AFF',
+    borderRadius: 8,
+    paddingVertical: 12,
+    alignItems: 'center',
+    marginTop: 4,
+  },
+  buttonDisabled: { opacity: 0.5 },
+  primaryButtonText: { color: '#fff', fontSize: 15, fontWeight: '600' },
+  optionRow: {
+    backgroundColor: '#fff',
+    paddingHorizontal: 16,
+    paddingVertical: 14,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+    borderBottomColor: '#e5e5e5',
+  },
+  optionTitle: { fontSize: 15, color: '#007AFF' },
+  resolvingIndicator: { marginTop: 16 },
+});
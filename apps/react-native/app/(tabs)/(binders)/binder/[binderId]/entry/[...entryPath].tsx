@@ -16,10 +16,14 @@ import { DebugOverlay } from '../../../../../../components/binder/DebugOverlay';
 import type { MedicalDocument } from '../../../../../../types/document';
 import { extractTitle } from '../../../../../../core/binder/DocumentModel';
 import { BinderService } from '../../../../../../core/binder/BinderService';
+import { isReadOnlyBinder } from '../../../../../../core/binder/BinderAccessStore';
 import { useAuthContext } from '../../../../../../providers/AuthProvider';
 import { useCryptoContext } from '../../../../../../providers/CryptoProvider';
 import { parseMarkdownFrontMatter } from '../../../../../../core/markdown/frontmatter';
-import { getRenderer } from '../../../../../../components/registry/componentRegistry';
+import { getDocumentRenderer } from '../../../../../../components/registry/componentRegistry';
+import type { DoseLog } from '../../../../../../core/medication/adherence';
+import { verifyDocumentSignature } from '../../../../../../core/crypto/noteSignature';
+import { isAudioRecording, isTranscriptDocument } from '../../../../../../core/audio/transcript';
 
 export default function EntryDetailScreen() {
   const { binderId, entryPath } = useLocalSearchParams<{
@@ -97,9 +101,36 @@ export default function EntryDetailScreen() {
 
   const title = doc ? extractTitle(doc) : 'Entry';
   const displayBody = doc ? parseMarkdownFrontMatter(doc.value).body : '';
+  const attachments = doc
+    ? doc.children.filter((child) => !isTranscriptDocument(child))
+    : [];
+  const signatureStatus = useMemo(() => (doc ? verifyDocumentSignature(doc) : null), [doc]);
 
   // Registry lookup — resolves both new keys ("MedicationSummary") and legacy ("medication")
-  const Renderer = doc ? getRenderer(doc.renderer) : undefined;
+  const Renderer = doc ? getDocumentRenderer(doc) : undefined;
+  // View-only delegates get no write actions at all.
+  const readOnly = binderId ? isReadOnlyBinder(binderId) : false;
+  // Recordings have nothing to edit; the player adds the transcript itself.
+  const editable = doc ? !isAudioRecording(doc) && !readOnly : false;
+
+  // Sidecars sit next to their entry (see sidecarPathFrom)
+  const loadSidecar = useCallback(async (sidecarFilename: string) => {
+    if (!binderService) throw new Error('Not ready');
+    const lastSlash = rawPath.lastIndexOf('/');
+    const dirPath = lastSlash > 0 ? rawPath.slice(0, lastSlash + 1) : '';
+    return binderService.readSidecar(dirPath + sidecarFilename);
+  }, [binderService, rawPath]);
+
+  // Medication dose logs live in monthly sidecars next to the entry
+  const loadDoseLogs = useCallback(async () => {
+    if (!binderService) throw new Error('Not ready');
+    return binderService.readDoseLogs(rawPath);
+  }, [binderService, rawPath]);
+
+  const logDose = useCallback(async (log: DoseLog) => {
+    if (!binderService) throw new Error('Not ready');
+    await binderService.logDose(rawPath, log);
+  }, [binderService, rawPath]);
 
   const handleEdit = useCallback(() => {
     if (Renderer) {
@@ -114,6 +145,13 @@ export default function EntryDetailScreen() {
     });
   }, [Renderer, binderId, rawPath, router]);
 
+  const handleOpenHistory = useCallback(() => {
+    router.push({
+      pathname: '/(tabs)/(binders)/binder/[binderId]/history',
+      params: { binderId: binderId!, path: rawPath },
+    });
+  }, [binderId, rawPath, router]);
+
   const handleCancelEdit = useCallback(() => {
     setEditing(false);
   }, []);
@@ -172,9 +210,16 @@ export default function EntryDetailScreen() {
                 </TouchableOpacity>
               </View>
             ) : (
-              <TouchableOpacity onPress={handleEdit}>
-                <Text style={styles.headerSave}>Edit</Text>
-              </TouchableOpacity>
+              <View style={styles.headerActions}>
+                <TouchableOpacity onPress={handleOpenHistory}>
+                  <Text style={styles.headerCancel}>History</Text>
+                </TouchableOpacity>
+                {editable ? (
+                  <TouchableOpacity onPress={handleEdit}>
+                    <Text style={styles.headerSave}>Edit</Text>
+                  </TouchableOpacity>
+                ) : null}
+              </View>
             )
           ),
         }}
@@ -194,6 +239,14 @@ export default function EntryDetailScreen() {
           {doc.metadata.provider ? (
             <Text style={styles.metaProvider}>{doc.metadata.provider}</Text>
           ) : null}
+          {signatureStatus?.status === 'verified' ? (
+            <Text style={styles.signatureVerified}>
+              ✓ Verified author · {signatureStatus.pubkey.slice(0, 8)}…
+            </Text>
+          ) : null}
+          {signatureStatus?.status === 'invalid' ? (
+            <Text style={styles.signatureInvalid}>Changed since the author signed it</Text>
+          ) : null}
         </View>
 
         {/* Body — registry renderer or plain text */}
@@ -202,11 +255,16 @@ export default function EntryDetailScreen() {
             <Renderer
               doc={doc}
               editing={editing}
-              onSave={handleInlineSave}
+              onSave={readOnly ? undefined : handleInlineSave}
               onCancelEdit={handleCancelEdit}
-              onRequestEdit={handleEdit}
+              onRequestEdit={readOnly ? undefined : handleEdit}
               saving={saving}
               saveRef={rendererSaveRef}
+              binderId={binderId}
+              entryPath={rawPath}
+              loadSidecar={loadSidecar}
+              loadDoseLogs={loadDoseLogs}
+              logDose={readOnly ? undefined : logDose}
             />
           ) : (
             <Text style={styles.bodyText}>{displayBody}</Text>
@@ -214,12 +272,12 @@ export default function EntryDetailScreen() {
         </View>
 
         {/* Children (addendums, attachments) */}
-        {doc.children.length > 0 && (
+        {attachments.length > 0 && (
           <View style={styles.childrenSection}>
             <Text style={styles.childrenHeader}>
-              {doc.children.length} attachment{doc.children.length > 1 ? 's' : ''}
+              {attachments.length} attachment{attachments.length > 1 ? 's' : ''}
             </Text>
-            {doc.children.map((child, idx) => (
+            {attachments.map((child, idx) => (
               <ChildCard key={idx} child={child} index={idx} />
             ))}
           </View>
@@ -331,6 +389,8 @@ const styles = StyleSheet.create({
   },
   metaDate: { fontSize: 12, color: '#888' },
   metaProvider: { fontSize: 12, color: '#888' },
+  signatureVerified: { fontSize: 12, fontWeight: '600', color: '#1e8e3e' },
+  signatureInvalid: { fontSize: 12, fontWeight: '600', color: '#c5221f' },
   bodyContainer: {
     backgroundColor: '#fff',
     marginHorizontal: 16,
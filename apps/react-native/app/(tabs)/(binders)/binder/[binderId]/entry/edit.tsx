@@ -10,6 +10,7 @@ import { View, Text, ActivityIndicator, Alert, StyleSheet } from 'react-native';
 import { useLocalSearchParams, useRouter, Stack } from 'expo-router';
 import { NoteEditor } from '../../../../../../components/editor/NoteEditor';
 import { BinderService } from '../../../../../../core/binder/BinderService';
+import { isReadOnlyBinder } from '../../../../../../core/binder/BinderAccessStore';
 import { useAuthContext } from '../../../../../../providers/AuthProvider';
 import { useCryptoContext } from '../../../../../../providers/CryptoProvider';
 import type { MedicalDocument } from '../../../../../../types/document';
@@ -131,6 +132,17 @@ export default function EditEntryScreen() {
     );
   }
 
+  if (binderId && isReadOnlyBinder(binderId)) {
+    return (
+      <>
+        <Stack.Screen options={{ title: 'View Only' }} />
+        <View style={styles.centered}>
+          <Text style={styles.errorText}>This binder is shared with you as view only.</Text>
+        </View>
+      </>
+    );
+  }
+
   if (error || !doc) {
     return (
       <>
@@ -0,0 +1,312 @@
+// app/binder/[binderId]/history.tsx
+// Revision history for an entry or folder. Entries show a markdown diff of a
+// past version against the current one and can be restored as a new commit.
+// Folders list the entries they held at a past commit, including deleted ones.
+
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import {
+  ActivityIndicator,
+  Alert,
+  FlatList,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+import { Stack, useLocalSearchParams, useRouter } from 'expo-router';
+import type { CommitInfo } from '../../../../../core/git/GitEngine';
+import { BinderService, CURRENT_REVISION } from '../../../../../core/binder/BinderService';
+import type { DocumentDiff } from '../../../../../core/binder/RevisionDiff';
+import { useAuthContext } from '../../../../../providers/AuthProvider';
+import { useCryptoContext } from '../../../../../providers/CryptoProvider';
+
+function formatCommitDate(commit: CommitInfo): string {
+  return new Date(commit.author.timestamp * 1000).toLocaleString();
+}
+
+export default function HistoryScreen() {
+  const { binderId, path } = useLocalSearchParams<{ binderId: string; path?: string }>();
+  const targetPath = path ?? '';
+  const isEntry = targetPath.endsWith('.json');
+  const router = useRouter();
+
+  const { state: authState } = useAuthContext();
+  const { masterConversationKey } = useCryptoContext();
+  const jwt = authState.status === 'authenticated' ? authState.jwt : null;
+
+  const binderService = useMemo(() => {
+    if (!masterConversationKey || !jwt || !binderId) return null;
+    return new BinderService(
+      {
+        repoId: binderId,
+        repoDir: `binders/${binderId}`,
+        auth: { type: 'jwt' as const, token: jwt },
+        author: {
+          name: authState.metadata?.name || authState.oauthProfile?.name || 'Limbo Health',
+          email: authState.oauthProfile?.email || 'app@limbo.health',
+        },
+      },
+      masterConversationKey,
+    );
+  }, [binderId, masterConversationKey, jwt, authState.metadata?.name, authState.oauthProfile?.name, authState.oauthProfile?.email]);
+
+  const [revisions, setRevisions] = useState<CommitInfo[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [selected, setSelected] = useState<CommitInfo | null>(null);
+  const [diff, setDiff] = useState<DocumentDiff | null>(null);
+  const [folderEntries, setFolderEntries] = useState<string[]>([]);
+  const [detailLoading, setDetailLoading] = useState(false);
+  const [detailError, setDetailError] = useState<string | null>(null);
+  const [restoring, setRestoring] = useState(false);
+
+  useEffect(() => {
+    if (!binderService) return;
+    let cancelled = false;
+    (async () => {
+      const commits = await binderService.listRevisions(targetPath);
+      if (!cancelled) {
+        setRevisions(commits);
+        setLoading(false);
+      }
+    })();
+    return () => { cancelled = true; };
+  }, [binderService, targetPath]);
+
+  useEffect(() => {
+    if (!binderService || !selected) return;
+    let cancelled = false;
+    setDetailLoading(true);
+    setDetailError(null);
+    (async () => {
+      try {
+        if (isEntry) {
+          const next = await binderService.diffRevisions(targetPath, selected.oid, CURRENT_REVISION);
+          if (!cancelled) setDiff(next);
+        } else {
+          const entries = await binderService.listEntriesAtRevision(targetPath, selected.oid);
+          if (!cancelled) setFolderEntries(entries);
+        }
+      } catch (err) {
+        if (!cancelled) {
+          setDetailError(err instanceof Error ? err.message : 'Failed to read revision');
+        }
+      } finally {
+        if (!cancelled) setDetailLoading(false);
+      }
+    })();
+    return () => { cancelled = true; };
+  }, [binderService, selected, isEntry, targetPath]);
+
+  const handleRestore = useCallback(() => {
+    if (!binderService || !selected) return;
+    Alert.alert(
+      'Restore this version?',
+      `The entry will be replaced with the version from ${formatCommitDate(selected)}. The current version stays in history.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Restore',
+          onPress: async () => {
+            setRestoring(true);
+            try {
+              await binderService.restoreRevision(targetPath, selected.oid);
+              router.back();
+            } catch (err) {
+              const message = err instanceof Error ? err.message : 'Failed to restore';
+              Alert.alert('Restore Failed', message);
+            } finally {
+              setRestoring(false);
+            }
+          },
+        },
+      ],
+    );
+  }, [binderService, selected, targetPath, router]);
+
+  const handleOpenEntryHistory = useCallback((entryPath: string) => {
+    router.push({
+      pathname: '/(tabs)/(binders)/binder/[binderId]/history',
+      params: { binderId: binderId!, path: entryPath },
+    });
+  }, [router, binderId]);
+
+  const title = isEntry ? 'Entry History' : 'Folder History';
+
+  if (loading) {
+    return (
+      <>
+        <Stack.Screen options={{ title }} />
+        <View style={styles.centered}>
+          <ActivityIndicator size="large" />
+          <Text style={styles.loadingText}>Reading history...</Text>
+        </View>
+      </>
+    );
+  }
+
+  if (selected) {
+    return (
+      <>
+        <Stack.Screen
+          options={{
+            title: selected.oid.slice(0, 7),
+            headerLeft: () => (
+              <TouchableOpacity onPress={() => setSelected(null)} disabled={restoring}>
+                <Text style={styles.headerAction}>Versions</Text>
+              </TouchableOpacity>
+            ),
+            headerRight: () => (
+              isEntry ? (
+                <TouchableOpacity onPress={handleRestore} disabled={restoring || detailLoading}>
+                  <Text style={styles.headerAction}>{restoring ? 'Restoring...' : 'Restore'}</Text>
+                </TouchableOpacity>
+              ) : null
+            ),
+          }}
+        />
+        <View style={styles.revisionHeader}>
+          <Text style={styles.revisionMessage}>{selected.message.trim()}</Text>
+          <Text style={styles.revisionMeta}>
+            {selected.author.name} · {formatCommitDate(selected)}
+          </Text>
+        </View>
+        {detailLoading ? (
+          <View style={styles.centered}>
+            <ActivityIndicator size="small" />
+          </View>
+        ) : detailError ? (
+          <View style={styles.centered}>
+            <Text style={styles.errorText}>{detailError}</Text>
+          </View>
+        ) : isEntry && diff ? (
+          <DiffView diff={diff} />
+        ) : (
+          <FlatList
+            data={folderEntries}
+            keyExtractor={(item) => item}
+            ListEmptyComponent={<Text style={styles.emptyText}>No entries at this version.</Text>}
+            renderItem={({ item }) => (
+              <TouchableOpacity style={styles.row} onPress={() => handleOpenEntryHistory(item)}>
+                <Text style={styles.rowTitle} numberOfLines={1}>
+                  {item.slice(targetPath ? targetPath.length + 1 : 0)}
+                </Text>
+              </TouchableOpacity>
+            )}
+          />
+        )}
+      </>
+    );
+  }
+
+  return (
+    <>
+      <Stack.Screen options={{ title }} />
+      <FlatList
+        style={styles.screen}
+        data={revisions}
+        keyExtractor={(item) => item.oid}
+        ListEmptyComponent={
+          <Text style={styles.emptyText}>No history on this device yet.</Text>
+        }
+        renderItem={({ item }) => (
+          <TouchableOpacity style={styles.row} onPress={() => setSelected(item)}>
+            <Text style={styles.rowTitle} numberOfLines={1}>
+              {item.message.trim()}
+            </Text>
+            <Text style={styles.revisionMeta}>
+              {item.author.name} · {formatCommitDate(item)} · {item.oid.slice(0, 7)}
+            </Text>
+          </TouchableOpacity>
+        )}
+      />
+    </>
+  );
+}
+
+function DiffView({ diff }: { diff: DocumentDiff }) {
+  const unchanged = diff.added === 0 && diff.removed === 0 && diff.metadataChanges.length === 0;
+
+  return (
+    <ScrollView style={styles.screen} contentContainerStyle={styles.diffContent}>
+      <Text style={styles.diffSummary}>
+        {unchanged
+          ? 'Identical to the current version.'
+          : `Compared with current: +${diff.added} −${diff.removed}`}
+      </Text>
+      {diff.metadataChanges.map((change) => (
+        <Text key={change.field} style={styles.metadataChange}>
+          {change.field}: {change.before ?? '—'} → {change.after ?? '—'}
+        </Text>
+      ))}
+      <View style={styles.diffBody}>
+        {diff.lines.map((line, index) => (
+          <Text
+            key={index}
+            style={[
+              styles.diffLine,
+              line.kind === 'added' && styles.diffAdded,
+              line.kind === 'removed' && styles.diffRemoved,
+            ]}
+          >
+            {line.kind === 'added' ? '+ ' : line.kind === 'removed' ? '− ' : '  '}
+            {line.text}
+          </Text>
+        ))}
+      </View>
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  screen: { flex: 1, backgroundColor: '#fafafa' },
+  centered: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 32,
+  },
+  loadingText: { marginTop: 12, fontSize: 14, color: '#888' },
+  errorText: { fontSize: 15, color: '#c00', textAlign: 'center' },
+  emptyText: { fontSize: 15, color: '#888', textAlign: 'center', marginTop: 32 },
+  headerAction: {
+    color: '#007AFF',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  row: {
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    backgroundColor: '#fff',
+    borderBottomWidth: StyleSheet.hairlineWidth,
+    borderBottomColor: '#e5e5e5',
+  },
+  rowTitle: { fontSize: 15, fontWeight: '500', color: '#333' },
+  revisionHeader: {
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    backgroundColor: '#fff',
+    borderBottomWidth: StyleSheet.hairlineWidth,
+    borderBottomColor: '#e5e5e5',
+  },
+  revisionMessage: { fontSize: 15, fontWeight: '600', color: '#333' },
+  revisionMeta: { fontSize: 12, color: '#888', marginTop: 2 },
+  diffContent: { padding: 16, paddingBottom: 40 },
+  diffSummary: { fontSize: 13, color: '#666', marginBottom: 8 },
+  metadataChange: { fontSize: 13, color: '#666', marginBottom: 4 },
+  diffBody: {
+    backgroundColor: '#fff',
+    borderRadius: 8,
+    paddingVertical: 8,
+    marginTop: 8,
+  },
+  diffLine: {
+    fontFamily: 'Courier',
+    fontSize: 13,
+    lineHeight: 19,
+    color: '#333',
+    paddingHorizontal: 8,
+  },
+  diffAdded: { backgroundColor: '#e6f4ea', color: '#1e6b34' },
+  diffRemoved: { backgroundColor: '#fce8e6', color: '#a50e0e' },
+});
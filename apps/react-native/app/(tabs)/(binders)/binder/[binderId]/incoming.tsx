@@ -0,0 +1,359 @@
+// app/binder/[binderId]/incoming.tsx
+// Review what a doctor added during a share. Each entry is shown decrypted
+// from the staging copy; accepting re-encrypts it (and its attachments) into
+// the chosen folder of the binder, rejecting drops it. Nothing from the doctor
+// lands in the binder until the patient accepts it here.
+
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import {
+  ActivityIndicator,
+  Alert,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+import { Stack, useLocalSearchParams, useRouter } from 'expo-router';
+import { BinderService } from '../../../../../core/binder/BinderService';
+import { extractTitle } from '../../../../../core/binder/DocumentModel';
+import {
+  acceptContribution,
+  discardIncomingShare,
+  fetchIncomingShare,
+  listContributions,
+  listIncomingShares,
+  rejectContribution,
+  type IncomingContribution,
+  type IncomingShare,
+} from '../../../../../core/scan/IncomingContributions';
+import { revokeScanSession } from '../../../../../core/scan/ScanSession';
+import { emitDirectoryChanged } from '../../../../../core/binder/DirectoryEvents';
+import { useAuthContext } from '../../../../../providers/AuthProvider';
+import { useCryptoContext } from '../../../../../providers/CryptoProvider';
+
+interface ShareReview {
+  share: IncomingShare;
+  contributions: IncomingContribution[];
+}
+
+function contributionKey(c: IncomingContribution): string {
+  return `${c.stagingRepoId}:${c.path}`;
+}
+
+export default function IncomingContributionsScreen() {
+  const { binderId } = useLocalSearchParams<{ binderId: string }>();
+  const router = useRouter();
+
+  const { state: authState } = useAuthContext();
+  const { masterConversationKey } = useCryptoContext();
+  const jwt = authState.status === 'authenticated' ? authState.jwt : null;
+
+  const binderService = useMemo(() => {
+    if (!masterConversationKey || !jwt || !binderId) return null;
+    return new BinderService(
+      {
+        repoId: binderId,
+        repoDir: `binders/${binderId}`,
+        auth: { type: 'jwt' as const, token: jwt },
+        author: {
+          name: authState.metadata?.name || authState.oauthProfile?.name || 'Limbo Health',
+          email: authState.oauthProfile?.email || 'app@limbo.health',
+        },
+      },
+      masterConversationKey,
+    );
+  }, [binderId, masterConversationKey, jwt, authState.metadata?.name, authState.oauthProfile?.name, authState.oauthProfile?.email]);
+
+  const [reviews, setReviews] = useState<ShareReview[]>([]);
+  const [folders, setFolders] = useState<string[]>([]);
+  const [folderChoice, setFolderChoice] = useState<Record<string, string>>({});
+  const [loading, setLoading] = useState(true);
+  const [busy, setBusy] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    if (!binderId) return;
+    try {
+      const shares = await listIncomingShares(binderId);
+      const next: ShareReview[] = [];
+      for (const share of shares) {
+        if (!share.fetchedAt) {
+          next.push({ share, contributions: [] });
+          continue;
+        }
+        const contributions = await listContributions(share);
+        if (contributions.length === 0) {
+          await discardIncomingShare(share);
+          continue;
+        }
+        next.push({ share, contributions });
+      }
+      setReviews(next);
+    } catch (err) {
+      console.warn('Failed to load incoming entries:', err);
+    } finally {
+      setLoading(false);
+    }
+  }, [binderId]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  useEffect(() => {
+    if (!binderService) return;
+    binderService
+      .readDir('')
+      .then((items) => setFolders(items.filter((item) => item.kind === 'folder').map((item) => item.relativePath)))
+      .catch((err) => console.warn('Failed to list folders:', err));
+  }, [binderService]);
+
+  const handleCheckAgain = useCallback(async (share: IncomingShare) => {
+    if (!jwt) return;
+    setBusy(share.stagingRepoId);
+    try {
+      await fetchIncomingShare(share, { type: 'jwt', token: jwt });
+      if (share.sessionToken) {
+        await revokeScanSession(share.sessionToken, jwt).catch((err) =>
+          console.warn('Failed to revoke scan session:', err),
+        );
+      }
+      await load();
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Failed to download the shared copy';
+      Alert.alert('Download Failed', message);
+    } finally {
+      setBusy(null);
+    }
+  }, [jwt, load]);
+
+  const handleAccept = useCallback(async (share: IncomingShare, contribution: IncomingContribution) => {
+    if (!binderService) return;
+    const key = contributionKey(contribution);
+    setBusy(key);
+    try {
+      const folder = folderChoice[key] ?? contribution.suggestedFolder;
+      await acceptContribution(share, contribution, binderService, folder);
+      emitDirectoryChanged({ binderId, dirPath: folder });
+      await load();
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Failed to add this entry';
+      Alert.alert('Accept Failed', message);
+    } finally {
+      setBusy(null);
+    }
+  }, [binderService, binderId, folderChoice, load]);
+
+  const handleReject = useCallback((share: IncomingShare, contribution: IncomingContribution) => {
+    Alert.alert(
+      'Discard Entry',
+      `"${extractTitle(contribution.doc)}" will not be added to your binder.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Discard',
+          style: 'destructive',
+          onPress: async () => {
+            setBusy(contributionKey(contribution));
+            try {
+              await rejectContribution(share, contribution);
+              await load();
+            } finally {
+              setBusy(null);
+            }
+          },
+        },
+      ],
+    );
+  }, [load]);
+
+  if (loading) {
+    return (
+      <>
+        <Stack.Screen options={{ title: 'From Your Provider' }} />
+        <View style={styles.centered}>
+          <ActivityIndicator size="large" />
+        </View>
+      </>
+    );
+  }
+
+  if (reviews.length === 0) {
+    return (
+      <>
+        <Stack.Screen options={{ title: 'From Your Provider' }} />
+        <View style={styles.centered}>
+          <Text style={styles.emptyText}>Nothing left to review.</Text>
+          <TouchableOpacity style={styles.primaryButton} onPress={() => router.back()}>
+            <Text style={styles.primaryButtonText}>Back to Binder</Text>
+          </TouchableOpacity>
+        </View>
+      </>
+    );
+  }
+
+  return (
+    <>
+      <Stack.Screen options={{ title: 'From Your Provider' }} />
+      <ScrollView style={styles.screen} contentContainerStyle={styles.content}>
+        {reviews.map(({ share, contributions }) => (
+          <View key={share.stagingRepoId}>
+            <Text style={styles.sectionLabel}>
+              Shared {new Date(share.sharedAt).toLocaleString()}
+            </Text>
+
+            {!share.fetchedAt ? (
+              <View style={styles.card}>
+                <Text style={styles.hintText}>
+                  The shared copy couldn't be downloaded when sharing ended. Check again to see what your provider added.
+                </Text>
+                <TouchableOpacity
+                  style={[styles.primaryButton, busy !== null && styles.buttonDisabled]}
+                  onPress={() => handleCheckAgain(share)}
+                  disabled={busy !== null}
+                >
+                  {busy === share.stagingRepoId ? (
+                    <ActivityIndicator color="#fff" />
+                  ) : (
+                    <Text style={styles.primaryButtonText}>Check Again</Text>
+                  )}
+                </TouchableOpacity>
+              </View>
+            ) : (
+              contributions.map((contribution) => {
+                const key = contributionKey(contribution);
+                const selectedFolder = folderChoice[key] ?? contribution.suggestedFolder;
+                const folderOptions = folders.includes(contribution.suggestedFolder) || !contribution.suggestedFolder
+                  ? folders
+                  : [contribution.suggestedFolder, ...folders];
+                const provider = contribution.doc.metadata.provider;
+                const attachmentCount = contribution.sidecars.length;
+
+                return (
+                  <View key={key} style={styles.card}>
+                    <Text style={styles.rowTitle} numberOfLines={2}>{extractTitle(contribution.doc)}</Text>
+                    <Text style={styles.rowMeta} numberOfLines={1}>
+                      {[provider, attachmentCount > 0 ? `${attachmentCount} attachment${attachmentCount === 1 ? '' : 's'}` : null]
+                        .filter(Boolean)
+                        .join(' · ') || contribution.path}
+                    </Text>
+                    {contribution.signature.status === 'verified' && (
+                      <Text style={styles.signatureVerified}>
+                        ✓ Signed by {contribution.signature.pubkey.slice(0, 8)}…
+                      </Text>
+                    )}
+                    {contribution.signature.status === 'invalid' && (
+                      <Text style={styles.signatureInvalid}>Signature doesn't match this note</Text>
+                    )}
+
+                    <Text style={styles.fieldLabel}>Add to folder</Text>
+                    <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.chipRow}>
+                      {folderOptions.map((folder) => (
+                        <TouchableOpacity
+                          key={folder}
+                          style={[styles.chip, selectedFolder === folder && styles.chipSelected]}
+                          onPress={() => setFolderChoice((prev) => ({ ...prev, [key]: folder }))}
+                          disabled={busy !== null}
+                        >
+                          <Text style={[styles.chipText, selectedFolder === folder && styles.chipTextSelected]}>
+                            {folder}
+                          </Text>
+                        </TouchableOpacity>
+                      ))}
+                    </ScrollView>
+
+                    <View style={styles.actionRow}>
+                      <TouchableOpacity
+                        style={[styles.secondaryButton, busy !== null && styles.buttonDisabled]}
+                        onPress={() => handleReject(share, contribution)}
+                        disabled={busy !== null}
+                      >
+                        <Text style={styles.secondaryButtonText}>Discard</Text>
+                      </TouchableOpacity>
+                      <TouchableOpacity
+                        style={[styles.primaryButton, styles.actionButton, (busy !== null || !binderService) && styles.buttonDisabled]}
+                        onPress={() => handleAccept(share, contribution)}
+                        disabled={busy !== null || !binderService}
+                      >
+                        {busy === key ? (
+                          <ActivityIndicator color="#fff" />
+                        ) : (
+                          <Text style={styles.primaryButtonText}>Add to Binder</Text>
+                        )}
+                      </TouchableOpacity>
+                    </View>
+                  </View>
+                );
+              })
+            )}
+          </View>
+        ))}
+      </ScrollView>
+    </>
+  );
+}
+
+const styles = StyleSheet.create({
+  screen: { flex: 1, backgroundColor: '#fafafa' },
+  content: { padding: 16, paddingBottom: 40 },
+  centered: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 32,
+    gap: 16,
+  },
+  sectionLabel: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#888',
+    textTransform: 'uppercase',
+    marginTop: 16,
+    marginBottom: 8,
+  },
+  emptyText: { fontSize: 15, color: '#888' },
+  card: {
+    backgroundColor: '#fff',
+    borderRadius: 8,
+    padding: 12,
+    marginBottom: 8,
+    gap: 8,
+  },
+  hintText: { fontSize: 13, color: '#666', lineHeight: 18 },
+  rowTitle: { fontSize: 15, fontWeight: '500', color: '#333' },
+  rowMeta: { fontSize: 12, color: '#888' },
+  signatureVerified: { fontSize: 12, fontWeight: '600', color: '#1e8e3e' },
+  signatureInvalid: { fontSize: 12, fontWeight: '600', color: '#c5221f' },
+  fieldLabel: { fontSize: 12, color: '#888', marginTop: 4 },
+  chipRow: { gap: 8 },
+  chip: {
+    borderWidth: 1,
+    borderColor: '#e5e5e5',
+    borderRadius: 16,
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+  },
+  chipSelected: { borderColor: '#007AFF', backgroundColor: '#EBF5FF' },
+  chipText: { fontSize: 13, color: '#666' },
+  chipTextSelected: { color: '#007AFF', fontWeight: '600' },
+  actionRow: { flexDirection: 'row', gap: 8, marginTop: 4 },
+  actionButton: { flex: 1 },
+  primaryButton: {
+    backgroundColor: '#007AFF',
+    borderRadius: 8,
+    paddingVertical: 12,
+    paddingHorizontal: 16,
+    alignItems: 'center',
+  },
+  primaryButtonText: { color: '#fff', fontSize: 15, fontWeight: '600' },
+  secondaryButton: {
+    borderWidth: 1,
+    borderColor: '#e5e5e5',
+    borderRadius: 8,
+    paddingVertical: 12,
+    paddingHorizontal: 16,
+    alignItems: 'center',
+  },
+  secondaryButtonText: { color: '#c0392b', fontSize: 15, fontWeight: '600' },
+  buttonDisabled: { opacity: 0.5 },
+});
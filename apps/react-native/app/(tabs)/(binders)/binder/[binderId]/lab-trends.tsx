@@ -0,0 +1,262 @@
+// app/binder/[binderId]/lab-trends.tsx
+// Lab trends for a binder: pick an analyte, see its results over time against
+// the reference range, and open the entry behind any point.
+
+import React, { useEffect, useMemo, useState } from 'react';
+import {
+  ActivityIndicator,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+import { Stack, useLocalSearchParams, useRouter } from 'expo-router';
+import { BinderService } from '../../../../../core/binder/BinderService';
+import { labResultFlagLabel } from '../../../../../core/markdown/labResultEntry';
+import type { LabTrendSeries } from '../../../../../core/labs/trends';
+import { LabTrendChart } from '../../../../../components/renderers/LabTrendChart';
+import { useAuthContext } from '../../../../../providers/AuthProvider';
+import { useCryptoContext } from '../../../../../providers/CryptoProvider';
+
+function formatValue(value: number): string {
+  return Number(value.toFixed(2)).toString();
+}
+
+export default function LabTrendsScreen() {
+  const { binderId, analyte } = useLocalSearchParams<{ binderId: string; analyte?: string }>();
+  const router = useRouter();
+
+  const { state: authState } = useAuthContext();
+  const { masterConversationKey } = useCryptoContext();
+  const jwt = authState.status === 'authenticated' ? authState.jwt : null;
+
+  const binderService = useMemo(() => {
+    if (!masterConversationKey || !jwt || !binderId) return null;
+    return new BinderService(
+      {
+        repoId: binderId,
+        repoDir: `binders/${binderId}`,
+        auth: { type: 'jwt' as const, token: jwt },
+        author: {
+          name: authState.metadata?.name || authState.oauthProfile?.name || 'Limbo Health',
+          email: authState.oauthProfile?.email || 'app@limbo.health',
+        },
+      },
+      masterConversationKey,
+    );
+  }, [binderId, masterConversationKey, jwt, authState.metadata?.name, authState.oauthProfile?.name, authState.oauthProfile?.email]);
+
+  const [series, setSeries] = useState<LabTrendSeries[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [selectedKey, setSelectedKey] = useState<string | null>(analyte ?? null);
+  const [selectedPoint, setSelectedPoint] = useState<number | null>(null);
+
+  useEffect(() => {
+    if (!binderService) return;
+    let cancelled = false;
+    (async () => {
+      try {
+        const trends = await binderService.getLabTrends();
+        if (!cancelled) setSeries(trends);
+      } catch (err) {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to read lab results');
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    })();
+    return () => { cancelled = true; };
+  }, [binderService]);
+
+  const active = series.find((item) => item.key === selectedKey) ?? series[0] ?? null;
+
+  const handleSelectSeries = (key: string) => {
+    setSelectedKey(key);
+    setSelectedPoint(null);
+  };
+
+  const handleOpenEntry = (path: string) => {
+    router.push(`/binder/${binderId}/entry/${path}`);
+  };
+
+  if (loading || error || !active) {
+    return (
+      <>
+        <Stack.Screen options={{ title: 'Lab Trends' }} />
+        <View style={styles.centered}>
+          {loading ? (
+            <>
+              <ActivityIndicator size="large" />
+              <Text style={styles.loadingText}>Reading lab results...</Text>
+            </>
+          ) : error ? (
+            <Text style={styles.errorText}>{error}</Text>
+          ) : (
+            <Text style={styles.emptyText}>
+              No lab results with numeric values yet. Add results under Labs to see trends.
+            </Text>
+          )}
+        </View>
+      </>
+    );
+  }
+
+  const outOfRange = active.points.filter((point) => point.outOfRange).length;
+  const band = active.band;
+  const bandText = band
+    ? band.low !== undefined && band.high !== undefined
+      ? `${formatValue(band.low)}–${formatValue(band.high)}`
+      : band.low !== undefined
+        ? `≥ ${formatValue(band.low)}`
+        : `≤ ${formatValue(band.high!)}`
+    : null;
+
+  return (
+    <>
+      <Stack.Screen options={{ title: 'Lab Trends' }} />
+      <ScrollView style={styles.screen} contentContainerStyle={styles.content}>
+        <ScrollView
+          horizontal
+          showsHorizontalScrollIndicator={false}
+          contentContainerStyle={styles.chips}
+        >
+          {series.map((item) => (
+            <TouchableOpacity
+              key={item.key}
+              style={[styles.chip, item.key === active.key && styles.chipActive]}
+              onPress={() => handleSelectSeries(item.key)}
+            >
+              <Text style={[styles.chipText, item.key === active.key && styles.chipTextActive]}>
+                {item.label} ({item.points.length})
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </ScrollView>
+
+        <View style={styles.card}>
+          <Text style={styles.cardTitle}>{active.label}</Text>
+          <Text style={styles.cardMeta}>
+            {active.points.length} result{active.points.length === 1 ? '' : 's'}
+            {bandText ? ` · Ref ${bandText} ${active.unit}` : ''}
+            {outOfRange > 0 ? ` · ${outOfRange} out of range` : ''}
+          </Text>
+          <LabTrendChart
+            series={active}
+            selectedIndex={selectedPoint}
+            onSelectPoint={setSelectedPoint}
+          />
+          {active.skipped > 0 ? (
+            <Text style={styles.skippedText}>
+              {active.skipped} result{active.skipped === 1 ? '' : 's'} not charted (non-numeric or unknown unit)
+            </Text>
+          ) : null}
+        </View>
+
+        <Text style={styles.sectionLabel}>Results</Text>
+        <View style={styles.list}>
+          {active.points.map((point, index) => ({ point, index })).reverse().map(({ point, index }) => (
+            <TouchableOpacity
+              key={`${point.path}-${index}`}
+              style={[styles.row, index === selectedPoint && styles.rowSelected]}
+              onPress={() => handleOpenEntry(point.path)}
+            >
+              <View style={styles.rowMain}>
+                <Text style={styles.rowTitle} numberOfLines={1}>{point.title}</Text>
+                <Text style={styles.rowMeta}>{point.date}</Text>
+              </View>
+              <View style={styles.rowValue}>
+                <Text style={[styles.valueText, point.outOfRange && styles.valueOut]}>
+                  {formatValue(point.value)} {active.unit}
+                </Text>
+                {point.recorded !== `${formatValue(point.value)} ${active.unit}` ? (
+                  <Text style={styles.rowMeta}>recorded {point.recorded}</Text>
+                ) : null}
+              </View>
+              {point.outOfRange ? (
+                <View style={styles.flagPill}>
+                  <Text style={styles.flagText}>
+                    {point.flag ? labResultFlagLabel(point.flag) : 'Out of range'}
+                  </Text>
+                </View>
+              ) : null}
+            </TouchableOpacity>
+          ))}
+        </View>
+      </ScrollView>
+    </>
+  );
+}
+
+const styles = StyleSheet.create({
+  screen: { flex: 1, backgroundColor: '#fafafa' },
+  content: { paddingBottom: 40 },
+  centered: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 32,
+  },
+  loadingText: { marginTop: 12, fontSize: 14, color: '#888' },
+  errorText: { fontSize: 15, color: '#c00', textAlign: 'center' },
+  emptyText: { fontSize: 15, color: '#888', textAlign: 'center' },
+  chips: { paddingHorizontal: 16, paddingVertical: 12, gap: 8 },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    backgroundColor: '#fff',
+    borderWidth: StyleSheet.hairlineWidth,
+    borderColor: '#ddd',
+  },
+  chipActive: { backgroundColor: '#007AFF', borderColor: '#007AFF' },
+  chipText: { fontSize: 13, color: '#333' },
+  chipTextActive: { color: '#fff', fontWeight: '600' },
+  card: {
+    marginHorizontal: 16,
+    padding: 16,
+    borderRadius: 12,
+    backgroundColor: '#fff',
+    gap: 8,
+  },
+  cardTitle: { fontSize: 17, fontWeight: '600', color: '#333' },
+  cardMeta: { fontSize: 13, color: '#888' },
+  skippedText: { fontSize: 12, color: '#888' },
+  sectionLabel: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#888',
+    textTransform: 'uppercase',
+    marginTop: 20,
+    marginBottom: 6,
+    marginHorizontal: 16,
+  },
+  list: {
+    backgroundColor: '#fff',
+    borderTopWidth: StyleSheet.hairlineWidth,
+    borderTopColor: '#e5e5e5',
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+    borderBottomColor: '#e5e5e5',
+  },
+  rowSelected: { backgroundColor: '#f0f6ff' },
+  rowMain: { flex: 1 },
+  rowTitle: { fontSize: 15, fontWeight: '500', color: '#333' },
+  rowMeta: { fontSize: 12, color: '#888', marginTop: 2 },
+  rowValue: { alignItems: 'flex-end' },
+  valueText: { fontSize: 15, fontWeight: '500', color: '#333' },
+  valueOut: { color: '#c00', fontWeight: '700' },
+  flagPill: {
+    borderRadius: 999,
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+    backgroundColor: '#fce8e6',
+  },
+  flagText: { fontSize: 11, fontWeight: '700', color: '#a50e0e' },
+});
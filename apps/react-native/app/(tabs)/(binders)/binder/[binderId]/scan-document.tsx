@@ -0,0 +1,305 @@
+// app/binder/[binderId]/scan-document.tsx
+// Multi-page document capture. Opens the document scanner on mount, then
+// shows the pages with their recognized text so the patient can add more
+// pages, fix the title and pick a folder (suggested from the text) before
+// the scan is saved as one entry with a combined PDF.
+
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import {
+  ActivityIndicator,
+  Alert,
+  Image,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+import { Stack, useLocalSearchParams, useRouter } from 'expo-router';
+import { BinderService } from '../../../../../core/binder/BinderService';
+import {
+  buildScanMarkdown,
+  renderScanPdf,
+  scanTitle,
+  suggestScanFolder,
+} from '../../../../../core/binder/DocumentScan';
+import { getCategory } from '../../../../../core/binder/categories';
+import { slugify } from '../../../../../core/binder/FileNaming';
+import { emitDirectoryChanged } from '../../../../../core/binder/DirectoryEvents';
+import { useDocumentScanner, type ScannedPageResult } from '../../../../../hooks/useDocumentScanner';
+import { useAuthContext } from '../../../../../providers/AuthProvider';
+import { useCryptoContext } from '../../../../../providers/CryptoProvider';
+
+const DEFAULT_FOLDER = 'documents';
+
+export default function ScanDocumentScreen() {
+  const { binderId, dirPath } = useLocalSearchParams<{ binderId: string; dirPath?: string }>();
+  const router = useRouter();
+  const { scan } = useDocumentScanner();
+
+  const { state: authState } = useAuthContext();
+  const { masterConversationKey } = useCryptoContext();
+  const jwt = authState.status === 'authenticated' ? authState.jwt : null;
+
+  const binderService = useMemo(() => {
+    if (!masterConversationKey || !jwt || !binderId) return null;
+    return new BinderService(
+      {
+        repoId: binderId,
+        repoDir: `binders/${binderId}`,
+        auth: { type: 'jwt' as const, token: jwt },
+        author: {
+          name: authState.metadata?.name || authState.oauthProfile?.name || 'Limbo Health',
+          email: authState.oauthProfile?.email || 'app@limbo.health',
+        },
+      },
+      masterConversationKey,
+    );
+  }, [binderId, masterConversationKey, jwt, authState.metadata?.name, authState.oauthProfile?.name, authState.oauthProfile?.email]);
+
+  const didRun = useRef(false);
+  const [pages, setPages] = useState<ScannedPageResult[]>([]);
+  const [scanning, setScanning] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [folders, setFolders] = useState<string[]>([]);
+  const [folderChoice, setFolderChoice] = useState<string | null>(null);
+  const [title, setTitle] = useState<string | null>(null);
+
+  const addPages = useCallback(async () => {
+    setScanning(true);
+    try {
+      const scanned = await scan();
+      if (scanned) {
+        setPages((prev) => [...prev, ...scanned]);
+      } else if (pages.length === 0) {
+        router.back();
+      }
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Unknown error';
+      Alert.alert('Scan Failed', message);
+      if (pages.length === 0) router.back();
+    } finally {
+      setScanning(false);
+    }
+  }, [pages.length, router, scan]);
+
+  useEffect(() => {
+    if (didRun.current) return;
+    didRun.current = true;
+    addPages();
+  }, [addPages]);
+
+  useEffect(() => {
+    if (!binderService) return;
+    binderService
+      .readDir('')
+      .then((items) => setFolders(items.filter((item) => item.kind === 'folder').map((item) => item.relativePath)))
+      .catch((err) => console.warn('Failed to list folders:', err));
+  }, [binderService]);
+
+  const pageTexts = useMemo(() => pages.map((page) => page.text), [pages]);
+  const suggestion = useMemo(() => suggestScanFolder(pageTexts.join('\n'), folders), [pageTexts, folders]);
+  const resolvedTitle = title ?? scanTitle(pageTexts);
+  const selectedFolder = folderChoice ?? (dirPath || suggestion?.folder || DEFAULT_FOLDER);
+  const folderOptions = useMemo(
+    () => [...new Set([suggestion?.folder, dirPath, ...folders, DEFAULT_FOLDER].filter((f): f is string => !!f))],
+    [suggestion?.folder, dirPath, folders],
+  );
+
+  const handleRemovePage = (index: number) => {
+    setPages((prev) => prev.filter((_, i) => i !== index));
+  };
+
+  const handleSave = useCallback(async () => {
+    if (!binderService || pages.length === 0) return;
+    setSaving(true);
+    try {
+      const exists = folders.includes(selectedFolder) || selectedFolder === dirPath;
+      if (!exists) {
+        const category = getCategory(DEFAULT_FOLDER);
+        const folderInfo = suggestion?.folder === selectedFolder
+          ? suggestion
+          : { label: category?.label ?? selectedFolder, icon: category?.emoji ?? '📄' };
+        await binderService.ensureFolder(selectedFolder, folderInfo.label, folderInfo.icon);
+      }
+      const pdfBytes = await renderScanPdf(pages.map((page) => page.jpeg));
+      await binderService.addScannedDocument(
+        selectedFolder,
+        slugify(resolvedTitle),
+        buildScanMarkdown(resolvedTitle, pageTexts),
+        pdfBytes,
+      );
+      emitDirectoryChanged({ binderId, dirPath: selectedFolder });
+      router.back();
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Unknown error';
+      Alert.alert('Save Failed', message);
+      setSaving(false);
+    }
+  }, [binderService, binderId, dirPath, folders, pageTexts, pages, resolvedTitle, router, selectedFolder, suggestion]);
+
+  if (pages.length === 0) {
+    return (
+      <>
+        <Stack.Screen options={{ title: 'Scan Document' }} />
+        <View style={styles.centered}>
+          {scanning && <ActivityIndicator size="large" />}
+          <Text style={styles.emptyText}>{scanning ? 'Reading pages…' : 'No pages scanned.'}</Text>
+        </View>
+      </>
+    );
+  }
+
+  const busy = scanning || saving;
+
+  return (
+    <>
+      <Stack.Screen options={{ title: 'Scan Document' }} />
+      <ScrollView style={styles.screen} contentContainerStyle={styles.content} keyboardShouldPersistTaps="handled">
+        <Text style={styles.sectionLabel}>Title</Text>
+        <View style={styles.card}>
+          <TextInput
+            value={resolvedTitle}
+            onChangeText={setTitle}
+            placeholder="Scanned Document"
+            style={styles.titleInput}
+            editable={!busy}
+          />
+        </View>
+
+        <Text style={styles.sectionLabel}>Save to folder</Text>
+        <View style={styles.card}>
+          {suggestion && (
+            <Text style={styles.hintText}>
+              Looks like {suggestion.label.toLowerCase()}, based on the text on the pages.
+            </Text>
+          )}
+          <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.chipRow}>
+            {folderOptions.map((folder) => (
+              <TouchableOpacity
+                key={folder}
+                style={[styles.chip, selectedFolder === folder && styles.chipSelected]}
+                onPress={() => setFolderChoice(folder)}
+                disabled={busy}
+              >
+                <Text style={[styles.chipText, selectedFolder === folder && styles.chipTextSelected]}>
+                  {folder === suggestion?.folder ? `★ ${folder}` : folder}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </ScrollView>
+        </View>
+
+        <Text style={styles.sectionLabel}>
+          {pages.length} page{pages.length === 1 ? '' : 's'}
+        </Text>
+        {pages.map((page, index) => (
+          <View key={`${page.uri}-${index}`} style={[styles.card, styles.pageRow]}>
+            <Image source={{ uri: page.uri }} style={styles.thumbnail} resizeMode="cover" />
+            <View style={styles.pageBody}>
+              <View style={styles.pageHeader}>
+                <Text style={styles.rowTitle}>Page {index + 1}</Text>
+                <TouchableOpacity onPress={() => handleRemovePage(index)} disabled={busy} hitSlop={8}>
+                  <Text style={styles.removeText}>Remove</Text>
+                </TouchableOpacity>
+              </View>
+              <Text style={styles.pageText} numberOfLines={5}>
+                {page.text || 'No text recognized on this page.'}
+              </Text>
+            </View>
+          </View>
+        ))}
+
+        <View style={styles.actionRow}>
+          <TouchableOpacity
+            style={[styles.secondaryButton, styles.actionButton, busy && styles.buttonDisabled]}
+            onPress={addPages}
+            disabled={busy}
+          >
+            {scanning ? <ActivityIndicator /> : <Text style={styles.secondaryButtonText}>Add Pages</Text>}
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={[styles.primaryButton, styles.actionButton, (busy || !binderService) && styles.buttonDisabled]}
+            onPress={handleSave}
+            disabled={busy || !binderService}
+          >
+            {saving ? <ActivityIndicator color="#fff" /> : <Text style={styles.primaryButtonText}>Save</Text>}
+          </TouchableOpacity>
+        </View>
+        <Text style={styles.hintText}>
+          Text is read on this device and saved with the scan so you can search for it. The pages are
+          saved as one encrypted PDF.
+        </Text>
+      </ScrollView>
+    </>
+  );
+}
+
+const styles = StyleSheet.create({
+  screen: { flex: 1, backgroundColor: '#fafafa' },
+  content: { padding: 16, paddingBottom: 40 },
+  centered: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 32,
+    gap: 16,
+  },
+  sectionLabel: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#888',
+    textTransform: 'uppercase',
+    marginTop: 16,
+    marginBottom: 8,
+  },
+  emptyText: { fontSize: 15, color: '#888' },
+  card: {
+    backgroundColor: '#fff',
+    borderRadius: 8,
+    padding: 12,
+    marginBottom: 8,
+    gap: 8,
+  },
+  titleInput: { fontSize: 16, color: '#333', padding: 0 },
+  hintText: { fontSize: 13, color: '#666', lineHeight: 18 },
+  rowTitle: { fontSize: 15, fontWeight: '500', color: '#333' },
+  chipRow: { gap: 8 },
+  chip: {
+    borderWidth: 1,
+    borderColor: '#e5e5e5',
+    borderRadius: 16,
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+  },
+  chipSelected: { borderColor: '#007AFF', backgroundColor: '#EBF5FF' },
+  chipText: { fontSize: 13, color: '#666' },
+  chipTextSelected: { color: '#007AFF', fontWeight: '600' },
+  pageRow: { flexDirection: 'row', gap: 12 },
+  thumbnail: { width: 72, height: 96, borderRadius: 4, backgroundColor: '#eee' },
+  pageBody: { flex: 1, gap: 4 },
+  pageHeader: { flexDirection: 'row', justifyContent: 'space-between', alignItems: 'center' },
+  pageText: { fontSize: 12, color: '#666', lineHeight: 16 },
+  removeText: { fontSize: 13, color: '#c0392b' },
+  actionRow: { flexDirection: 'row', gap: 8, marginTop: 8, marginBottom: 12 },
+  actionButton: { flex: 1 },
+  primaryButton: {
+    backgroundColor: '#007AFF',
+    borderRadius: 8,
+    paddingVertical: 12,
+    paddingHorizontal: 16,
+    alignItems: 'center',
+  },
+  primaryButtonText: { color: '#fff', fontSize: 15, fontWeight: '600' },
+  secondaryButton: {
+    borderWidth: 1,
+    borderColor: '#e5e5e5',
+    borderRadius: 8,
+    paddingVertical: 12,
+    paddingHorizontal: 16,
+    alignItems: 'center',
+  },
+  secondaryButtonText: { color: '#007AFF', fontSize: 15, fontWeight: '600' },
+  buttonDisabled: { opacity: 0.5 },
+});
@@ -21,6 +21,11 @@ import * as SecureStore from 'expo-secure-store';
 import { useAuthContext } from '../../../providers/AuthProvider';
 import { useCryptoContext } from '../../../providers/CryptoProvider';
 import { BinderService } from '../../../core/binder/BinderService';
+import { describeSyncStatus, type SyncStatus } from '../../../core/binder/SyncConflicts';
+import { describePushQueueEntry } from '../../../core/binder/PushQueue';
+import { unlockBinder } from '../../../core/binder/BinderKeyring';
+import { isBinderOwner, isReadOnlyBinder, setBinderAccess } from '../../../core/binder/BinderAccessStore';
+import { usePushQueue } from '../../../hooks/usePushQueue';
 import { API_BASE_URL } from '../../../constants/api';
 import { useCamera } from '../../../hooks/useCamera';
 import type { MedicalDocument } from '../../../types/document';
@@ -51,6 +56,8 @@ interface RepoSummary {
   folderCount?: number;
   entryCount?: number;
   attachmentCount?: number;
+  /** Caller's role on the repo: 'admin' for the owner, else a delegate role. */
+  access?: string;
 }
 
 type ScreenState =
@@ -72,6 +79,8 @@ const BINDERS_ROOT = `${RNFS.DocumentDirectoryPath}/binders`;
 const LAST_BINDER_KEY = 'limbo_last_binder';
 const BINDER_TEXTURES_KEY = 'limbo_binder_card_textures_v1';
 const DIGITAL_INFO_REVEAL_HEIGHT = 104;
+/** Minimum gap between background sync checks of the same binder. */
+const SYNC_STATUS_TTL_MS = 60_000;
 
 function repoDir(repoId: string): string {
   return `binders/${repoId}`;
@@ -106,6 +115,15 @@ function renamePatientInfoTitle(docValue: string, nextName: string): string {
   return `${heading}\n\n${docValue.trimStart()}`;
 }
 
+function syncStatusLabel(status: SyncStatus | 'offline'): string {
+  return status === 'offline' ? 'Offline' : describeSyncStatus(status);
+}
+
+function needsSyncAttention(status: SyncStatus | 'offline' | undefined): boolean {
+  if (!status || status === 'offline') return false;
+  return status.conflicts > 0 || status.state === 'diverged';
+}
+
 // --- Screen ---
 
 export default function BinderListScreen() {
@@ -123,6 +141,10 @@ export default function BinderListScreen() {
   const [editingName, setEditingName] = useState('');
   const [renamingRepoId, setRenamingRepoId] = useState<string | null>(null);
   const [isDigitalInfoVisible, setIsDigitalInfoVisible] = useState(false);
+  const [syncStatuses, setSyncStatuses] = useState<Record<string, SyncStatus | 'offline'>>({});
+  const syncCheckedAtRef = useRef<Record<string, number>>({});
+  const pushQueue = usePushQueue();
+  const [retryingPushRepoId, setRetryingPushRepoId] = useState<string | null>(null);
 
   const binderRef = useRef<BinderService | null>(null);
   const digitalInfoReveal = useRef(new Animated.Value(0)).current;
@@ -202,12 +224,14 @@ export default function BinderListScreen() {
 
       // Normalize response — may be an array or { repositories: [...] }
       const rawList: RepoSummary[] = (Array.isArray(data)
-        ? data.map((r: any) => ({ id: r.id ?? r.repoId ?? r.name, name: r.name ?? r.id }))
+        ? data.map((r: any) => ({ id: r.id ?? r.repoId ?? r.name, name: r.name ?? r.id, access: r.access }))
         : (data.repositories ?? []).map((r: any) => ({
             id: r.id ?? r.repoId ?? r.name,
             name: r.name ?? r.id,
+            access: r.access,
           }))
       ).filter((r: RepoSummary) => !r.id.startsWith('scan-'));
+      for (const repo of rawList) setBinderAccess(repo.id, repo.access);
 
       // Enrich binder cards with local metadata from git + patient-info.
       const enriched = await Promise.all(
@@ -272,7 +296,8 @@ export default function BinderListScreen() {
             const { createFSAdapter } = await import('../../../core/git/fsAdapter');
             const { EncryptedIO } = await import('../../../core/binder/EncryptedIO');
             const fs = createFSAdapter(dir);
-            const io = new EncryptedIO(fs, masterConversationKey, dir);
+            const contentKey = (await unlockBinder(dir)) ?? masterConversationKey;
+            const io = new EncryptedIO(fs, contentKey, dir);
             const doc = await io.readDocument('/patient-info.json');
             const firstLine = doc.value?.split('\n')[0] ?? '';
             const name = firstLine.startsWith('# ') ? firstLine.slice(2).trim() : '';
@@ -489,30 +514,149 @@ export default function BinderListScreen() {
     if (jwt) fetchRepos();
   }, [jwt, fetchRepos]);
 
-  // --- Background pull last-opened binder when repo list loads ---
+  // --- Background sync: pull last-opened binder, then check every clone ---
 
   const hasPulledRef = useRef(false);
+  const loadedRepos = screenState.phase === 'repos-loaded' ? screenState.repos : null;
 
   useEffect(() => {
-    if (screenState.phase !== 'repos-loaded') return;
-    if (hasPulledRef.current) return;
-    if (!jwt) return;
-    hasPulledRef.current = true;
+    if (!loadedRepos || !jwt || !masterConversationKey) return;
+    let cancelled = false;
+
+    const serviceFor = (repoId: string) => new BinderService(
+      {
+        repoId,
+        repoDir: repoDir(repoId),
+        auth: authConfig(),
+        author: {
+          name: authState.metadata?.name || authState.oauthProfile?.name || 'Limbo Health',
+          email: authState.oauthProfile?.email || 'app@limbo.health',
+        },
+      },
+      masterConversationKey,
+    );
 
     (async () => {
+      if (!hasPulledRef.current) {
+        hasPulledRef.current = true;
+        try {
+          const lastId = await SecureStore.getItemAsync(LAST_BINDER_KEY);
+          if (lastId && await isAlreadyCloned(lastId)) {
+            // Through BinderService so unmergeable edits are recorded as conflicts.
+            await serviceFor(lastId).pull();
+          }
+        } catch (err) {
+          // Background pull failure is non-fatal
+          console.warn('Background pull of last binder failed:', err);
+        }
+      }
+
+      // One binder at a time: each check is a network fetch.
+      for (const repo of loadedRepos) {
+        if (cancelled) return;
+        if (!repo.isCloned) continue;
+        const checkedAt = syncCheckedAtRef.current[repo.id] ?? 0;
+        if (Date.now() - checkedAt < SYNC_STATUS_TTL_MS) continue;
+        syncCheckedAtRef.current[repo.id] = Date.now();
+
+        let status: SyncStatus | 'offline';
+        try {
+          status = await serviceFor(repo.id).getSyncStatus();
+        } catch (err) {
+          console.warn(`Sync status check failed for ${repo.id}:`, err);
+          status = 'offline';
+        }
+        if (!cancelled) setSyncStatuses((prev) => ({ ...prev, [repo.id]: status }));
+      }
+    })();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [
+    loadedRepos,
+    jwt,
+    masterConversationKey,
+    authState.metadata?.name,
+    authState.oauthProfile?.name,
+    authState.oauthProfile?.email,
+  ]);
+
+  // --- Retry a failed push from the binder card ---
+
+  const retryQueuedPush = useCallback(
+    async (repo: RepoSummary) => {
+      if (!jwt || !masterConversationKey) {
+        handleMissingEncryptionAccess();
+        return;
+      }
+      setRetryingPushRepoId(repo.id);
       try {
-        const lastId = await SecureStore.getItemAsync(LAST_BINDER_KEY);
-        if (!lastId) return;
-        const cloned = await isAlreadyCloned(lastId);
-        if (!cloned) return;
-        const { GitEngine } = await import('../../../core/git/GitEngine');
-        await GitEngine.pull(repoDir(lastId), lastId, authConfig());
+        const service = new BinderService(
+          {
+            repoId: repo.id,
+            repoDir: repoDir(repo.id),
+            auth: authConfig(),
+            author: {
+              name: authState.metadata?.name || authState.oauthProfile?.name || 'Limbo Health',
+              email: authState.oauthProfile?.email || 'app@limbo.health',
+            },
+          },
+          masterConversationKey,
+        );
+        await service.push();
+        delete syncCheckedAtRef.current[repo.id];
       } catch (err) {
-        // Background pull failure is non-fatal
-        console.warn('Background pull of last binder failed:', err);
+        const msg = err instanceof Error ? err.message : 'Unknown error';
+        Alert.alert('Upload Failed', msg);
+      } finally {
+        setRetryingPushRepoId(null);
       }
-    })();
-  }, [screenState.phase, jwt]);
+    },
+    [
+      handleMissingEncryptionAccess,
+      jwt,
+      masterConversationKey,
+      authState.metadata?.name,
+      authState.oauthProfile?.name,
+      authState.oauthProfile?.email,
+    ],
+  );
+
+  const renderSyncRow = (repo: RepoSummary) => {
+    const queued = pushQueue[repo.id];
+    const status = syncStatuses[repo.id];
+    if (!queued && !status) return null;
+
+    const attention = queued ? queued.state === 'failed' : needsSyncAttention(status);
+    return (
+      <View style={styles.repoMetaRow}>
+        <Text style={styles.repoMetaLabel}>Sync</Text>
+        <Text
+          style={[styles.repoMetaValue, attention && styles.repoMetaValueAttention]}
+          numberOfLines={1}
+        >
+          {queued ? describePushQueueEntry(queued) : syncStatusLabel(status!)}
+        </Text>
+        {queued ? (
+          retryingPushRepoId === repo.id ? (
+            <ActivityIndicator size="small" color="#334155" style={styles.renameSpinner} />
+          ) : (
+            <Pressable
+              onPress={(event) => {
+                event.stopPropagation?.();
+                retryQueuedPush(repo);
+              }}
+              hitSlop={8}
+              testID={`binder-push-retry-${repo.id}`}
+            >
+              <Text style={styles.repoSyncRetry}>Retry</Text>
+            </Pressable>
+          )
+        ) : null}
+      </View>
+    );
+  };
 
   // --- Open binder: clone if needed, navigate immediately ---
 
@@ -550,6 +694,7 @@ export default function BinderListScreen() {
           await GitEngine.cloneRepo(repoDir(repo.id), repo.id, authConfig());
           setScreenState({ phase: 'repos-loaded', repos: (screenState as any).repos ?? [] });
         }
+        await unlockBinder(repoDir(repo.id));
 
         SecureStore.setItemAsync(LAST_BINDER_KEY, repo.id);
         router.push({
@@ -903,6 +1048,7 @@ export default function BinderListScreen() {
                                     {repo.entryCount ?? 'Not available'}
                                   </Text>
                                 </View>
+                                {renderSyncRow(repo)}
                               </View>
                             </View>
                           ) : (
@@ -916,17 +1062,19 @@ export default function BinderListScreen() {
                           >
                             <View style={styles.repoNameRow}>
                               <Text style={styles.repoName} numberOfLines={1}>{repo.name}</Text>
-                              <Pressable
-                                onPress={(event) => {
-                                  event.stopPropagation?.();
-                                  beginRename(repo);
-                                }}
-                                style={styles.repoNameEditButton}
-                                hitSlop={8}
-                                testID={`binder-name-edit-${index}`}
-                              >
-                                <Text style={styles.repoNameEditIcon}>✎</Text>
-                              </Pressable>
+                              {repo.access !== 'read-only' ? (
+                                <Pressable
+                                  onPress={(event) => {
+                                    event.stopPropagation?.();
+                                    beginRename(repo);
+                                  }}
+                                  style={styles.repoNameEditButton}
+                                  hitSlop={8}
+                                  testID={`binder-name-edit-${index}`}
+                                >
+                                  <Text style={styles.repoNameEditIcon}>✎</Text>
+                                </Pressable>
+                              ) : null}
                             </View>
 
                             <View style={styles.repoMetaSection}>
@@ -948,6 +1096,15 @@ export default function BinderListScreen() {
                                   {repo.entryCount ?? 'Not available'}
                                 </Text>
                               </View>
+                              {repo.access && repo.access !== 'admin' ? (
+                                <View style={styles.repoMetaRow}>
+                                  <Text style={styles.repoMetaLabel}>Access</Text>
+                                  <Text style={styles.repoMetaValue}>
+                                    {repo.access === 'read-only' ? 'Shared with you · View only' : 'Shared with you · Can edit'}
+                                  </Text>
+                                </View>
+                              ) : null}
+                              {renderSyncRow(repo)}
                             </View>
                           </Pressable>
                           )}
@@ -1050,18 +1207,22 @@ export default function BinderListScreen() {
             {screenState.entries.length} record{screenState.entries.length !== 1 ? 's' : ''}
           </Text>
 
-          <Pressable
-            style={styles.addPhotoButton}
-            onPress={() => addPhoto(screenState.repoId)}
-          >
-            <Text style={styles.addPhotoButtonText}>Take Photo</Text>
-          </Pressable>
-          <Pressable
-            style={styles.shareButton}
-            onPress={startShare}
-          >
-            <Text style={styles.shareButtonText}>Share with Doctor</Text>
-          </Pressable>
+          {!isReadOnlyBinder(screenState.repoId) && (
+            <Pressable
+              style={styles.addPhotoButton}
+              onPress={() => addPhoto(screenState.repoId)}
+            >
+              <Text style={styles.addPhotoButtonText}>Take Photo</Text>
+            </Pressable>
+          )}
+          {isBinderOwner(screenState.repoId) && (
+            <Pressable
+              style={styles.shareButton}
+              onPress={() => startShare()}
+            >
+              <Text style={styles.shareButtonText}>Share with Doctor</Text>
+            </Pressable>
+          )}
 
           {shareState.phase !== 'idle' && shareState.phase !== 'error' && (
             <View style={styles.shareOverlay}>
@@ -1387,6 +1548,16 @@ addPhotoButton: {
     flex: 1,
     textAlign: 'right',
   },
+  repoMetaValueAttention: {
+    color: '#B45309',
+    fontWeight: '700',
+  },
+  repoSyncRetry: {
+    color: '#007AFF',
+    fontSize: 12,
+    fontWeight: '600',
+    marginLeft: 8,
+  },
   repoTextureContent: {
     paddingTop: 1,
     paddingRight: 2,
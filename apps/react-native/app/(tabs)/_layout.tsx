@@ -1,7 +1,11 @@
 import React, { useMemo, useState } from 'react';
 import { ActivityIndicator, Alert, StyleSheet, View } from 'react-native';
 import { Redirect, Tabs, useRouter, usePathname } from 'expo-router';
-import { CustomTabBar } from '../../components/navigation/CustomTabBar';
+import {
+  CustomTabBar,
+  type CreateAction,
+  type StructuredCreateAction,
+} from '../../components/navigation/CustomTabBar';
 import { ToastProvider, useToast } from '../../components/Toast';
 
 import { useAuthContext } from '../../providers/AuthProvider';
@@ -10,7 +14,12 @@ import { InlineRecorderBar } from '../../components/audio/InlineRecorderBar';
 import type { AudioRecordingResult } from '../../hooks/useAudioRecorder';
 import { BinderService } from '../../core/binder/BinderService';
 import { emitDirectoryChanged } from '../../core/binder/DirectoryEvents';
+import { isReadOnlyBinder } from '../../core/binder/BinderAccessStore';
+import { BEHAVIOR_RULES, inferBehavior } from '../../core/binder/folderBehavior';
+import { hasEditor } from '../../components/registry/componentRegistry';
 import { createThemedStyles, useThemedStyles } from '../../theme';
+import { useMedicationReminderRouting } from '../../hooks/useMedicationReminders';
+import { usePushQueueRetry } from '../../hooks/usePushQueue';
 
 export default function TabLayout() {
   return (
@@ -29,6 +38,8 @@ function TabLayoutInner() {
   const { masterConversationKey } = useCryptoContext();
   const { showToast } = useToast();
   const styles = useThemedStyles(createStyles);
+  useMedicationReminderRouting(state.status === 'authenticated');
+  usePushQueueRetry(state.status === 'authenticated');
   const [activeAudioContext, setActiveAudioContext] = useState<{
     binderId: string;
     dirPath: string;
@@ -91,14 +102,30 @@ function TabLayoutInner() {
       };
     }
 
+    // Other structured folders (labs, allergies, ...) take their editor from
+    // the folder behavior rules.
+    const rule = inferBehavior(currentFolderKeyword);
+    if (rule && rule.id !== 'medication' && hasEditor(rule.contextualAdd.editor)) {
+      const ruleId = rule.id as StructuredCreateAction;
+      return {
+        action: ruleId,
+        label: rule.contextualAdd.label,
+        icon: ruleId,
+      };
+    }
+
     return null;
   }, [binderContext?.dirPath]);
 
-  const handleCreateAction = async (action: 'note' | 'audio' | 'photo' | 'medication') => {
+  const handleCreateAction = async (action: CreateAction) => {
     if (!binderContext) {
       showToast('Open a binder first');
       return;
     }
+    if (isReadOnlyBinder(binderContext.binderId)) {
+      showToast('This binder is shared with you as view only');
+      return;
+    }
 
     switch (action) {
       case 'note':
@@ -126,12 +153,35 @@ function TabLayoutInner() {
           params: { mode: 'photo', dirPath: binderContext.dirPath },
         });
         break;
+      case 'scan':
+        router.push({
+          pathname: `/binder/${binderContext.binderId}/scan-document`,
+          params: { dirPath: binderContext.dirPath },
+        });
+        break;
       case 'medication':
         router.push({
           pathname: `/binder/${binderContext.binderId}/entry/new`,
           params: { dirPath: binderContext.dirPath, categoryType: 'medication' },
         });
         break;
+      case 'lab':
+      case 'allergy':
+      case 'immunization':
+      case 'visit': {
+        const rule = BEHAVIOR_RULES.find((candidate) => candidate.id === action);
+        if (!rule) return;
+        router.push({
+          pathname: `/binder/${binderContext.binderId}/entry/new`,
+          params: {
+            dirPath: binderContext.dirPath,
+            categoryType: rule.contextualAdd.categoryType,
+            editor: rule.contextualAdd.editor,
+            renderer: rule.contextualAdd.renderer,
+          },
+        });
+        break;
+      }
     }
   };
 
@@ -237,6 +287,7 @@ function TabLayoutInner() {
         <Tabs.Screen name="page" options={{ title: 'Requests' }} />
         <Tabs.Screen name="create" options={{ title: 'Create' }} />
         <Tabs.Screen name="(binders)" options={{ title: 'Digital Binders' }} />
+        <Tabs.Screen name="search" options={{ title: 'Search' }} />
         <Tabs.Screen name="profile" options={{ title: 'Profile' }} />
       </Tabs>
 
@@ -1,4 +1,4 @@
-import React from 'react';
+import React, { useCallback } from 'react';
 import {
   Image,
   Pressable,
@@ -6,7 +6,7 @@ import {
   Text,
   View,
 } from 'react-native';
-import { useRouter } from 'expo-router';
+import { useFocusEffect, useRouter } from 'expo-router';
 import {
   IconCirclePlus,
   IconCheck,
@@ -14,13 +14,28 @@ import {
 } from '@tabler/icons-react-native';
 import { createThemedStyles, useTheme, useThemedStyles } from '../../theme';
 import { TexasHospitalLogoMarquee } from '../../components/records/TexasHospitalLogoMarquee';
+import { getRecordsRequestFollowUp } from '../../core/recordsWorkflow/ledger';
+import { useRecordsRequestLedger } from '../../hooks/useRecordsRequestLedger';
 const INFO_PILLS = ['Find hospital systems', 'Re-Use Your Bio', 'Send Official Forms'];
 const APP_ICON = require('../../assets/icon.png');
+const PENDING_PREVIEW_COUNT = 3;
 
 export default function HomeScreen() {
   const router = useRouter();
   const theme = useTheme();
   const styles = useThemedStyles(createStyles);
+  const { requests, reload } = useRecordsRequestLedger();
+
+  useFocusEffect(
+    useCallback(() => {
+      void reload();
+    }, [reload]),
+  );
+
+  const pendingRequests = requests
+    .map((request) => ({ request, followUp: getRecordsRequestFollowUp(request) }))
+    .filter(({ followUp }) => followUp.stage !== 'closed')
+    .sort((left, right) => Number(right.followUp.needsFollowUp) - Number(left.followUp.needsFollowUp));
 
   return (
     <View style={styles.container}>
@@ -48,10 +63,47 @@ export default function HomeScreen() {
             <TexasHospitalLogoMarquee style={styles.hospitalLogoPanel} />
 
             <View style={styles.pendingSection}>
-              <Text style={styles.pendingSectionTitle}>Pending Requests</Text>
-              <View style={styles.pendingEmptyState}>
-                <Text style={styles.pendingEmptyText}>No Pending Requests</Text>
+              <View style={styles.pendingHeaderRow}>
+                <Text style={styles.pendingSectionTitle}>Pending Requests</Text>
+                {requests.length > 0 ? (
+                  <Pressable onPress={() => router.push('/records-requests')} hitSlop={8}>
+                    <Text style={styles.pendingViewAll}>View All</Text>
+                  </Pressable>
+                ) : null}
               </View>
+              {pendingRequests.length === 0 ? (
+                <View style={styles.pendingEmptyState}>
+                  <Text style={styles.pendingEmptyText}>No Pending Requests</Text>
+                </View>
+              ) : (
+                pendingRequests.slice(0, PENDING_PREVIEW_COUNT).map(({ request, followUp }) => (
+                  <Pressable
+                    key={request.id}
+                    onPress={() =>
+                      router.push({ pathname: '/records-requests', params: { requestId: request.id } })
+                    }
+                    style={({ pressed }) => [styles.pendingRow, pressed && styles.ctaButtonPressed]}
+                  >
+                    <View style={styles.pendingRowText}>
+                      <Text style={styles.pendingRowTitle} numberOfLines={1}>
+                        {request.hospitalSystem.name}
+                      </Text>
+                      <Text
+                        style={[styles.pendingRowMeta, followUp.needsFollowUp && styles.pendingRowMetaAlert]}
+                      >
+                        {followUp.needsFollowUp
+                          ? 'Deadline passed · follow up'
+                          : followUp.stage === 'undelivered'
+                            ? 'Fax not delivered yet'
+                            : followUp.daysRemaining !== null && followUp.daysRemaining >= 0
+                              ? `Response due in ${followUp.daysRemaining} day${followUp.daysRemaining === 1 ? '' : 's'}`
+                              : 'Follow-up sent'}
+                      </Text>
+                    </View>
+                    <IconChevronRight size={18} color={theme.colors.textMuted} strokeWidth={2} />
+                  </Pressable>
+                ))
+              )}
             </View>
           </View>
 
@@ -165,6 +217,46 @@ const createStyles = createThemedStyles((theme) => ({
     flex: 1,
     marginTop: 2,
   },
+  pendingHeaderRow: {
+    alignItems: 'center',
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+  },
+  pendingViewAll: {
+    color: theme.colors.secondary,
+    fontSize: 14,
+    fontWeight: '600',
+    marginBottom: 10,
+  },
+  pendingRow: {
+    alignItems: 'center',
+    backgroundColor: theme.colors.surfaceSubtle,
+    borderRadius: 14,
+    borderWidth: StyleSheet.hairlineWidth,
+    borderColor: theme.colors.border,
+    flexDirection: 'row',
+    gap: 10,
+    marginBottom: 8,
+    paddingHorizontal: 14,
+    paddingVertical: 12,
+  },
+  pendingRowText: {
+    flex: 1,
+    gap: 2,
+  },
+  pendingRowTitle: {
+    color: theme.colors.text,
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  pendingRowMeta: {
+    color: theme.colors.textMuted,
+    fontSize: 13,
+  },
+  pendingRowMetaAlert: {
+    color: theme.colors.danger,
+    fontWeight: '600',
+  },
   pendingEmptyState: {
     flex: 1,
     justifyContent: 'center',
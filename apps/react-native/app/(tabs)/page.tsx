@@ -37,12 +37,23 @@ import {
   detectPortalFamily,
   getPortalAdapter,
 } from '../../core/portal/adapters';
+import {
+  buildPortalHarvestRecord,
+  isHarvestableCandidate,
+  portalHarvestSourceId,
+} from '../../core/portal/harvest';
 import {
   buildPortalBridgeScript,
+  buildPortalDownloadScript,
+  buildPortalHarvestScript,
   derivePortalSessionState,
   parsePortalBridgeMessage,
 } from '../../core/portal/session';
 import { resolvePortalOwnerKey } from '../../core/portal/storageScope';
+import type { ImportedRecord } from '../../core/fhir/records';
+import { getPushQueueEntry } from '../../core/binder/PushQueue';
+import { usePortalAdapters } from '../../hooks/usePortalAdapters';
+import { usePortalHarvest } from '../../hooks/usePortalHarvest';
 import { useAuthContext } from '../../providers/AuthProvider';
 import { useBioProfile } from '../../providers/BioProfileProvider';
 import { createThemedStyles, useTheme, useThemedStyles } from '../../theme';
@@ -51,6 +62,8 @@ import type {
   RecordsRequestPacket,
 } from '../../types/recordsRequest';
 import type {
+  PortalHarvestCandidate,
+  PortalHarvestDownload,
   PortalHumanRequiredReason,
   PortalNavigationAction,
   PortalProfile,
@@ -61,6 +74,7 @@ import type {
 const HERO_PILLS = ['Patient login', 'Records request'];
 const SESSION_RESUME_MAX_AGE_MS = 2 * 60 * 60 * 1000;
 const PORTAL_WORKSPACE_COMING_SOON = true;
+const PORTAL_DOWNLOAD_TIMEOUT_MS = 60 * 1000;
 
 type RouteParams = {
   systemName?: string | string[];
@@ -261,8 +275,9 @@ function buildPatientPortalProfile(
     url: launchUrl,
     portalName: packet.portal.name,
     healthSystemName: system.name,
+    healthSystemId: system.id,
   });
-  const adapter = getPortalAdapter(portalFamily);
+  const adapter = getPortalAdapter(portalFamily, system.id);
   const id = createPortalProfileId('patient_portal', system.id, launchUrl);
   const lastVerifiedAt = packet.sources.find((source) => source.lastVerifiedAt)?.lastVerifiedAt ?? null;
   let baseUrl = launchUrl;
@@ -420,6 +435,15 @@ export default function PageScreen() {
   const [credentialPassword, setCredentialPassword] = useState('');
   const [credentialNotes, setCredentialNotes] = useState('');
   const [credentialSaving, setCredentialSaving] = useState(false);
+  const { loadImportedSources, saveRecords } = usePortalHarvest();
+  const portalAdapterRevision = usePortalAdapters();
+  const pendingDownloadsRef = useRef(
+    new Map<string, { resolve: (download: PortalHarvestDownload) => void; reject: (error: Error) => void }>(),
+  );
+  const [harvestCandidates, setHarvestCandidates] = useState<PortalHarvestCandidate[] | null>(null);
+  const [harvestSelection, setHarvestSelection] = useState<string[]>([]);
+  const [harvestImported, setHarvestImported] = useState<Set<string>>(new Set());
+  const [harvestProgress, setHarvestProgress] = useState<string | null>(null);
   const bootstrapSystemName = normalizeParam(params.systemName);
   const bootstrapWorkspaceKind = normalizeWorkspaceKind(params.workspaceKind);
   const bootstrapAutoOpen = normalizeBooleanParam(params.autoOpen);
@@ -435,8 +459,9 @@ export default function PageScreen() {
     [activePortalId, savedPortals],
   );
   const activeAdapter = useMemo(
-    () => getPortalAdapter(activePortal?.portalFamily ?? 'generic'),
-    [activePortal?.portalFamily],
+    () => getPortalAdapter(activePortal?.portalFamily ?? 'generic', activePortal?.healthSystemId),
+    // The revision changes when a new adapter catalog is applied.
+    [activePortal?.portalFamily, activePortal?.healthSystemId, portalAdapterRevision],
   );
   const activeHasCredential = activePortal
     && activePortal.kind === 'patient_portal'
@@ -950,6 +975,119 @@ export default function PageScreen() {
     portalWebViewRef.current?.injectJavaScript(script);
   };
 
+  const handleScanPortalPage = () => {
+    portalWebViewRef.current?.injectJavaScript(buildPortalHarvestScript());
+  };
+
+  const handleHarvestCandidates = async (candidates: PortalHarvestCandidate[]) => {
+    if (!activePortal) {
+      return;
+    }
+
+    const usable = candidates.filter(isHarvestableCandidate);
+    if (usable.length === 0) {
+      Alert.alert(
+        'Save documents',
+        'No downloadable documents or lab tables were found on this page. Open a results or documents page and try again.',
+      );
+      return;
+    }
+
+    const imported = await loadImportedSources();
+    const importedIds = new Set(
+      usable
+        .filter((candidate) => imported.has(portalHarvestSourceId(activePortal.portalFamily, candidate)))
+        .map((candidate) => candidate.id),
+    );
+    setHarvestImported(importedIds);
+    setHarvestSelection(usable.filter((candidate) => !importedIds.has(candidate.id)).map((candidate) => candidate.id));
+    setHarvestCandidates(usable);
+  };
+
+  const downloadHarvestCandidate = (candidate: PortalHarvestCandidate) =>
+    new Promise<PortalHarvestDownload>((resolve, reject) => {
+      const timeoutId = setTimeout(() => {
+        pendingDownloadsRef.current.delete(candidate.id);
+        reject(new Error(`"${candidate.title}" took too long to download.`));
+      }, PORTAL_DOWNLOAD_TIMEOUT_MS);
+
+      pendingDownloadsRef.current.set(candidate.id, {
+        resolve: (download) => {
+          clearTimeout(timeoutId);
+          resolve(download);
+        },
+        reject: (error) => {
+          clearTimeout(timeoutId);
+          reject(error);
+        },
+      });
+      portalWebViewRef.current?.injectJavaScript(buildPortalDownloadScript(candidate));
+    });
+
+  const toggleHarvestSelection = (candidateId: string) => {
+    setHarvestSelection((current) =>
+      current.includes(candidateId)
+        ? current.filter((id) => id !== candidateId)
+        : [...current, candidateId],
+    );
+  };
+
+  const handleSaveHarvest = async () => {
+    if (!activePortal || !harvestCandidates || harvestProgress) {
+      return;
+    }
+
+    const selected = harvestCandidates.filter((candidate) => harvestSelection.includes(candidate.id));
+    const source = {
+      family: activePortal.portalFamily,
+      portalName: activePortal.displayName,
+      provider: activePortal.healthSystemName,
+    };
+    const records: ImportedRecord[] = [];
+    const failed: string[] = [];
+
+    try {
+      // Downloads go one at a time; the bridge answers by candidate id.
+      for (const [index, candidate] of selected.entries()) {
+        setHarvestProgress(`Downloading ${index + 1} of ${selected.length}...`);
+        try {
+          const download = candidate.kind === 'document' ? await downloadHarvestCandidate(candidate) : null;
+          records.push(buildPortalHarvestRecord({ candidate, source, download }));
+        } catch (error) {
+          failed.push(error instanceof Error ? error.message : `"${candidate.title}" could not be saved.`);
+        }
+      }
+
+      const summary = records.length > 0
+        ? await saveRecords(records, (done, total) => {
+            setHarvestProgress(`Saving ${Math.min(done + 1, total)} of ${total}...`);
+          })
+        : null;
+
+      const lines: string[] = [];
+      if (summary) {
+        lines.push(`Saved ${summary.imported} item${summary.imported === 1 ? '' : 's'} to your binder.`);
+        if (summary.skipped > 0) lines.push(`${summary.skipped} already saved.`);
+        if (await getPushQueueEntry(summary.binderId)) {
+          lines.push('Saved on this device; it will sync when the connection is back.');
+        }
+        failed.push(...summary.failed.map((entry) => `${entry.title}: ${entry.error}`));
+      }
+      if (failed.length > 0) {
+        lines.push(`Not saved:\n${failed.join('\n')}`);
+      }
+      setHarvestCandidates(null);
+      Alert.alert('Save documents', lines.join('\n'));
+    } catch (error) {
+      Alert.alert(
+        'Save documents',
+        error instanceof Error ? error.message : 'Unable to save these items right now.',
+      );
+    } finally {
+      setHarvestProgress(null);
+    }
+  };
+
   const handlePortalMessage = (event: WebViewMessageEvent) => {
     const message = parsePortalBridgeMessage(event.nativeEvent.data);
     if (!message || !activePortal) {
@@ -993,6 +1131,22 @@ export default function PageScreen() {
       return;
     }
 
+    if (message.type === 'portal.harvestCandidates') {
+      void handleHarvestCandidates(message.payload.candidates);
+      return;
+    }
+
+    if (message.type === 'portal.harvestDownload' || message.type === 'portal.harvestError') {
+      const pending = pendingDownloadsRef.current.get(message.payload.id);
+      pendingDownloadsRef.current.delete(message.payload.id);
+      if (message.type === 'portal.harvestDownload') {
+        pending?.resolve(message.payload);
+      } else {
+        pending?.reject(new Error(message.payload.error));
+      }
+      return;
+    }
+
     if (message.type === 'portal.launchResult') {
       if (
         assistEnabled &&
@@ -1500,6 +1654,15 @@ export default function PageScreen() {
                   </Text>
                 </Pressable>
               ))}
+              <Pressable
+                onPress={handleScanPortalPage}
+                style={({ pressed }) => [
+                  styles.actionPill,
+                  pressed && styles.actionPillPressed,
+                ]}
+              >
+                <Text style={styles.actionPillText}>Save documents</Text>
+              </Pressable>
             </View>
           ) : null}
         </View>
@@ -1533,6 +1696,88 @@ export default function PageScreen() {
           />
         </View>
 
+        <Modal
+          animationType="slide"
+          presentationStyle="pageSheet"
+          transparent
+          visible={harvestCandidates !== null}
+          onRequestClose={() => {
+            if (!harvestProgress) setHarvestCandidates(null);
+          }}
+        >
+          <View style={styles.modalScrim}>
+            <View style={styles.modalCard}>
+              <Text style={styles.modalTitle}>Save to binder</Text>
+              <Text style={styles.modalBody}>
+                Choose what to keep from this page. Items are encrypted in your binder with a link back to the portal.
+              </Text>
+
+              <ScrollView style={styles.harvestList} contentContainerStyle={styles.harvestListContent}>
+                {(harvestCandidates ?? []).map((candidate) => {
+                  const imported = harvestImported.has(candidate.id);
+                  const selected = harvestSelection.includes(candidate.id);
+                  return (
+                    <Pressable
+                      key={candidate.id}
+                      onPress={() => toggleHarvestSelection(candidate.id)}
+                      disabled={!!harvestProgress}
+                      style={({ pressed }) => [
+                        styles.harvestRow,
+                        selected && styles.harvestRowSelected,
+                        pressed && styles.secondaryButtonPressed,
+                      ]}
+                    >
+                      <Text style={styles.harvestCheck}>{selected ? '☑' : '☐'}</Text>
+                      <View style={styles.harvestRowCopy}>
+                        <Text style={styles.harvestRowTitle} numberOfLines={2}>
+                          {candidate.title}
+                        </Text>
+                        <Text style={styles.harvestRowMeta}>
+                          {[
+                            candidate.kind === 'lab_table'
+                              ? `Lab table · ${candidate.rows.length} row${candidate.rows.length === 1 ? '' : 's'}`
+                              : 'Document',
+                            candidate.dateText,
+                            imported ? 'Already saved' : null,
+                          ]
+                            .filter(Boolean)
+                            .join(' · ')}
+                        </Text>
+                      </View>
+                    </Pressable>
+                  );
+                })}
+              </ScrollView>
+
+              <View style={styles.modalActions}>
+                <Pressable
+                  onPress={() => setHarvestCandidates(null)}
+                  disabled={!!harvestProgress}
+                  style={({ pressed }) => [
+                    styles.secondaryButton,
+                    pressed && styles.secondaryButtonPressed,
+                  ]}
+                >
+                  <Text style={styles.secondaryButtonText}>Cancel</Text>
+                </Pressable>
+
+                <Pressable
+                  onPress={handleSaveHarvest}
+                  disabled={!!harvestProgress || harvestSelection.length === 0}
+                  style={({ pressed }) => [
+                    styles.primaryButton,
+                    (pressed || !!harvestProgress || harvestSelection.length === 0) && styles.primaryButtonPressed,
+                  ]}
+                >
+                  <Text style={styles.primaryButtonText}>
+                    {harvestProgress ?? `Save ${harvestSelection.length} to binder`}
+                  </Text>
+                </Pressable>
+              </View>
+            </View>
+          </View>
+        </Modal>
+
         <Modal
           animationType="slide"
           presentationStyle="pageSheet"
@@ -2153,4 +2398,42 @@ const createStyles = createThemedStyles((theme) => ({
     gap: 10,
     marginTop: 4,
   },
+  harvestList: {
+    maxHeight: 360,
+  },
+  harvestListContent: {
+    gap: 8,
+  },
+  harvestRow: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    gap: 10,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: theme.colors.border,
+    paddingHorizontal: 14,
+    paddingVertical: 12,
+  },
+  harvestRowSelected: {
+    borderColor: theme.colors.secondary,
+    backgroundColor: theme.colors.secondarySoft,
+  },
+  harvestCheck: {
+    color: theme.colors.secondary,
+    fontSize: 18,
+    lineHeight: 20,
+  },
+  harvestRowCopy: {
+    flex: 1,
+    gap: 2,
+  },
+  harvestRowTitle: {
+    color: theme.colors.text,
+    fontSize: 15,
+    fontWeight: '700',
+  },
+  harvestRowMeta: {
+    color: theme.colors.textSecondary,
+    fontSize: 13,
+  },
 }));
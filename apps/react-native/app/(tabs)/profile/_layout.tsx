@@ -41,6 +41,17 @@ export default function ProfileLayout() {
           headerTitleStyle: { color: chrome.primaryText },
         }}
       />
+      <Stack.Screen
+        name="emergency-info"
+        options={{
+          headerShown: true,
+          title: 'Emergency Info',
+          headerBackButtonDisplayMode: 'default',
+          headerStyle: { backgroundColor: chrome.headerBackground },
+          headerTintColor: chrome.primaryText,
+          headerTitleStyle: { color: chrome.primaryText },
+        }}
+      />
       <Stack.Screen
         name="encryption-keys"
         options={{
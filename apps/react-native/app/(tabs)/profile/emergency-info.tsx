@@ -0,0 +1,795 @@
+// app/(tabs)/profile/emergency-info.tsx
+// Emergency medical ID: the patient picks which fields a first responder can
+// see, fills them from a binder or by hand, and exports a lock-screen card
+// image, the bare QR, or a link. Every export is logged with the fields it
+// exposed.
+
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import {
+  ActivityIndicator,
+  Alert,
+  KeyboardAvoidingView,
+  Platform,
+  Pressable,
+  ScrollView,
+  Share,
+  StyleSheet,
+  Switch,
+  Text,
+  TextInput,
+  View,
+} from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import QRCode from 'react-native-qrcode-svg';
+import type Svg from 'react-native-svg';
+import * as Sharing from 'expo-sharing';
+import RNFS from 'react-native-fs';
+import { useAuthContext } from '../../../providers/AuthProvider';
+import { useCryptoContext } from '../../../providers/CryptoProvider';
+import { useBioProfile } from '../../../providers/BioProfileProvider';
+import { useEmergencyProfile } from '../../../hooks/useEmergencyProfile';
+import { BinderService } from '../../../core/binder/BinderService';
+import { unlockBinder } from '../../../core/binder/BinderKeyring';
+import { summarizeBinder } from '../../../core/binder/BinderSummary';
+import {
+  buildEmergencyCard,
+  emergencyCandidatesFromSummary,
+  encodeEmergencyLink,
+  encodeEmergencyText,
+  exposedFields,
+  withExportRecord,
+  EMERGENCY_QR_MAX_LENGTH,
+  type EmergencyCandidates,
+  type EmergencyCard,
+} from '../../../core/bio/emergencyCard';
+import {
+  EmergencyCardImage,
+  EMERGENCY_CARD_HEIGHT,
+  EMERGENCY_CARD_WIDTH,
+} from '../../../components/emergency/EmergencyCardImage';
+import { ENDPOINTS } from '../../../constants/api';
+import {
+  BLOOD_TYPES,
+  EMERGENCY_EXPORT_LABELS,
+  EMERGENCY_FIELDS,
+  EMERGENCY_FIELD_LABELS,
+  emptyEmergencyProfile,
+  type EmergencyExportFormat,
+  type EmergencyField,
+  type EmergencyProfile,
+} from '../../../types/emergency';
+import { createThemedStyles, useTheme, useThemedStyles } from '../../../theme';
+import { getProfileChrome } from './profileChrome';
+
+type ListField = 'allergies' | 'medications' | 'conditions';
+
+const LIST_FIELDS: ListField[] = ['allergies', 'medications', 'conditions'];
+
+const LIST_PLACEHOLDERS: Record<ListField, string> = {
+  allergies: 'Penicillin (hives)',
+  medications: 'Metformin 500 mg, twice daily',
+  conditions: 'Type 2 diabetes',
+};
+
+interface BinderOption {
+  id: string;
+  name: string;
+}
+
+function svgToBase64(svg: { toDataURL: Svg['toDataURL'] } | null, options?: object): Promise<string> {
+  return new Promise((resolve, reject) => {
+    if (!svg) {
+      reject(new Error('The card is not ready yet.'));
+      return;
+    }
+    svg.toDataURL(resolve, options);
+  });
+}
+
+function formatExportTime(iso: string): string {
+  const date = new Date(iso);
+  return Number.isNaN(date.getTime()) ? iso : date.toLocaleString();
+}
+
+export default function EmergencyInfoScreen() {
+  const insets = useSafeAreaInsets();
+  const theme = useTheme();
+  const styles = useThemedStyles(createStyles);
+  const chrome = getProfileChrome(theme);
+  const { state: authState } = useAuthContext();
+  const { masterConversationKey } = useCryptoContext();
+  const { profile: bioProfile } = useBioProfile();
+  const { profile, loaded, saveProfile } = useEmergencyProfile();
+  const jwt = authState.status === 'authenticated' ? authState.jwt : null;
+
+  const [form, setForm] = useState<EmergencyProfile>(emptyEmergencyProfile());
+  const [didHydrate, setDidHydrate] = useState(false);
+  const [drafts, setDrafts] = useState<Record<ListField, string>>({ allergies: '', medications: '', conditions: '' });
+  const [saving, setSaving] = useState(false);
+  const [exporting, setExporting] = useState<EmergencyExportFormat | null>(null);
+  const [binders, setBinders] = useState<BinderOption[] | null>(null);
+  const [loadingBinderId, setLoadingBinderId] = useState<string | null>(null);
+  const [candidates, setCandidates] = useState<EmergencyCandidates | null>(null);
+  const [qrPng, setQrPng] = useState<{ text: string; base64: string } | null>(null);
+  const qrRef = useRef<Svg | null>(null);
+  const cardRef = useRef<Svg | null>(null);
+
+  useEffect(() => {
+    if (!loaded || didHydrate) return;
+    setForm(profile);
+    setDidHydrate(true);
+  }, [loaded, didHydrate, profile]);
+
+  const card = useMemo<EmergencyCard>(() => buildEmergencyCard(form, bioProfile), [form, bioProfile]);
+  const fieldsOnCard = useMemo(() => exposedFields(card), [card]);
+  const qrText = useMemo(() => encodeEmergencyText(card), [card]);
+  const qrReady = qrPng?.text === qrText;
+
+  // The card image embeds the QR as a PNG, so re-render it whenever the text changes.
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      svgToBase64(qrRef.current)
+        .then((base64) => setQrPng({ text: qrText, base64 }))
+        .catch((err) => console.warn('Emergency card: QR render failed', err));
+    }, 0);
+    return () => clearTimeout(timer);
+  }, [qrText]);
+
+  const toggleField = (field: EmergencyField, on: boolean) => {
+    setForm((prev) => ({
+      ...prev,
+      fields: on
+        ? EMERGENCY_FIELDS.filter((f) => f === field || prev.fields.includes(f))
+        : prev.fields.filter((f) => f !== field),
+    }));
+  };
+
+  const addListItem = (field: ListField, value: string) => {
+    const text = value.trim();
+    if (!text) return;
+    setForm((prev) => (prev[field].includes(text) ? prev : { ...prev, [field]: [...prev[field], text] }));
+  };
+
+  const removeListItem = (field: ListField, index: number) => {
+    setForm((prev) => ({ ...prev, [field]: prev[field].filter((_, i) => i !== index) }));
+  };
+
+  const handleLoadBinders = useCallback(async () => {
+    if (!jwt) {
+      Alert.alert('Not Signed In', 'Sign in to pick from your binders.');
+      return;
+    }
+    try {
+      const res = await fetch(ENDPOINTS.userRepositories, {
+        headers: { Authorization: `Bearer ${jwt}` },
+      });
+      if (!res.ok) throw new Error(`Failed to list binders: ${res.status}`);
+      const data = await res.json();
+      const list: Array<{ id?: string; repoId?: string; name?: string }> = Array.isArray(data)
+        ? data
+        : data.repositories ?? [];
+      const options = list
+        .map((r) => ({ id: r.id ?? r.repoId ?? r.name ?? '', name: r.name ?? r.id ?? '' }))
+        .filter((r) => r.id && !r.id.startsWith('scan-'));
+      // Only binders already on this device can be read.
+      const local: BinderOption[] = [];
+      for (const option of options) {
+        if (await RNFS.exists(`${RNFS.DocumentDirectoryPath}/binders/${option.id}/.git`)) local.push(option);
+      }
+      setBinders(local);
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Unable to list your binders.';
+      Alert.alert('Could Not Load Binders', message);
+    }
+  }, [jwt]);
+
+  const handlePickBinder = useCallback(async (binder: BinderOption) => {
+    if (!jwt || !masterConversationKey) return;
+    setLoadingBinderId(binder.id);
+    try {
+      const repoDir = `binders/${binder.id}`;
+      const service = new BinderService(
+        {
+          repoId: binder.id,
+          repoDir,
+          auth: { type: 'jwt' as const, token: jwt },
+          author: {
+            name: authState.metadata?.name || authState.oauthProfile?.name || 'Limbo Health',
+            email: authState.oauthProfile?.email || 'app@limbo.health',
+          },
+        },
+        (await unlockBinder(repoDir)) ?? masterConversationKey,
+      );
+      const summary = await summarizeBinder(service, { title: binder.name, folders: [] });
+      setCandidates(emergencyCandidatesFromSummary(summary));
+      setForm((prev) => ({ ...prev, sourceBinderId: binder.id }));
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Unable to read this binder.';
+      Alert.alert('Could Not Read Binder', message);
+    } finally {
+      setLoadingBinderId(null);
+    }
+  }, [jwt, masterConversationKey, authState.metadata?.name, authState.oauthProfile?.name, authState.oauthProfile?.email]);
+
+  const handleSave = useCallback(async () => {
+    setSaving(true);
+    try {
+      const next = { ...form, updatedAt: new Date().toISOString() };
+      await saveProfile(next);
+      setForm(next);
+      Alert.alert('Saved', 'Your emergency info is saved on this device.');
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unable to save your emergency info.';
+      Alert.alert('Could Not Save', message);
+    } finally {
+      setSaving(false);
+    }
+  }, [form, saveProfile]);
+
+  const recordExport = useCallback(async (format: EmergencyExportFormat) => {
+    const next = withExportRecord(form, card, format);
+    setForm(next);
+    await saveProfile(next);
+  }, [card, form, saveProfile]);
+
+  const shareImage = async (base64: string, baseName: string, format: EmergencyExportFormat) => {
+    const filePath = `${RNFS.TemporaryDirectoryPath}/${baseName}.png`;
+    try {
+      await RNFS.writeFile(filePath, base64, 'base64');
+      if (!(await Sharing.isAvailableAsync())) {
+        throw new Error('Sharing is unavailable on this device.');
+      }
+      await Sharing.shareAsync(`file://${filePath}`, {
+        dialogTitle: 'Emergency medical info',
+        UTI: 'public.png',
+        mimeType: 'image/png',
+      });
+      await recordExport(format);
+    } finally {
+      RNFS.unlink(filePath).catch(() => undefined);
+    }
+  };
+
+  const confirmExport = (format: EmergencyExportFormat, run: () => Promise<void>) => {
+    if (fieldsOnCard.length === 0) {
+      Alert.alert('Nothing to Share', 'Switch on at least one field to show on the card.');
+      return;
+    }
+    const listed = fieldsOnCard.map((f) => EMERGENCY_FIELD_LABELS[f]).join(', ');
+    Alert.alert(
+      `Share ${EMERGENCY_EXPORT_LABELS[format]}?`,
+      `Anyone who sees it can read: ${listed}. It is not encrypted.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Share',
+          onPress: async () => {
+            setExporting(format);
+            try {
+              await run();
+            } catch (err) {
+              const message = err instanceof Error ? err.message : 'Unable to export your emergency info.';
+              Alert.alert('Export Failed', message);
+            } finally {
+              setExporting(null);
+            }
+          },
+        },
+      ],
+    );
+  };
+
+  const handleExportCard = () =>
+    confirmExport('card-image', async () => {
+      const base64 = await svgToBase64(cardRef.current, {
+        width: EMERGENCY_CARD_WIDTH,
+        height: EMERGENCY_CARD_HEIGHT,
+      });
+      await shareImage(base64, 'emergency-card', 'card-image');
+    });
+
+  const handleExportQr = () =>
+    confirmExport('qr', async () => {
+      if (!qrPng || !qrReady) throw new Error('The QR code is not ready yet.');
+      await shareImage(qrPng.base64, 'emergency-qr', 'qr');
+    });
+
+  const handleExportLink = () =>
+    confirmExport('link', async () => {
+      const result = await Share.share({ message: encodeEmergencyLink(card) });
+      if (result.action === Share.sharedAction) await recordExport('link');
+    });
+
+  if (!loaded && !didHydrate) {
+    return (
+      <View style={styles.loadingScreen}>
+        <ActivityIndicator size="large" color={theme.colors.secondary} />
+      </View>
+    );
+  }
+
+  const bioValue: Partial<Record<EmergencyField, string>> = {
+    name: bioProfile?.fullName.trim() || undefined,
+    dateOfBirth: bioProfile?.dateOfBirth.trim() || undefined,
+  };
+
+  return (
+    <KeyboardAvoidingView
+      style={styles.container}
+      behavior={Platform.OS === 'ios' ? 'padding' : undefined}
+    >
+      <ScrollView
+        style={styles.container}
+        contentContainerStyle={[styles.content, { paddingBottom: insets.bottom + 32 }]}
+        keyboardShouldPersistTaps="handled"
+        showsVerticalScrollIndicator={false}
+      >
+        <Text style={styles.sectionLabel}>ABOUT</Text>
+        <View style={styles.card}>
+          <Text style={styles.helperText}>
+            A card for your lock screen that a first responder can read without unlocking your
+            phone. Only the fields you switch on are shown, and nothing leaves this device until
+            you export it.
+          </Text>
+        </View>
+
+        <Text style={styles.sectionLabel}>SHOWN ON THE CARD</Text>
+        <View style={styles.card}>
+          {EMERGENCY_FIELDS.map((field, index) => (
+            <React.Fragment key={field}>
+              {index > 0 && <View style={styles.rowSeparator} />}
+              <View style={styles.switchRow}>
+                <View style={styles.switchText}>
+                  <Text style={styles.rowTitle}>{EMERGENCY_FIELD_LABELS[field]}</Text>
+                  {(field === 'name' || field === 'dateOfBirth') && (
+                    <Text style={styles.rowDetail} numberOfLines={1}>
+                      {bioValue[field] ?? 'Add it in Personal Info'}
+                    </Text>
+                  )}
+                </View>
+                <Switch
+                  value={form.fields.includes(field)}
+                  onValueChange={(on) => toggleField(field, on)}
+                  trackColor={{ true: theme.colors.primary, false: chrome.divider }}
+                />
+              </View>
+            </React.Fragment>
+          ))}
+        </View>
+
+        <Text style={styles.sectionLabel}>BLOOD TYPE</Text>
+        <View style={[styles.card, styles.chipWrap]}>
+          {BLOOD_TYPES.map((type) => {
+            const selected = form.bloodType === type;
+            return (
+              <Pressable
+                key={type}
+                onPress={() => setForm((prev) => ({ ...prev, bloodType: selected ? '' : type }))}
+                style={[styles.chip, selected && styles.chipSelected]}
+              >
+                <Text style={[styles.chipText, selected && styles.chipTextSelected]}>{type}</Text>
+              </Pressable>
+            );
+          })}
+        </View>
+
+        <Text style={styles.sectionLabel}>FROM A BINDER</Text>
+        <View style={styles.card}>
+          {binders === null ? (
+            <Pressable onPress={handleLoadBinders} style={styles.linkRow}>
+              <Text style={styles.linkText}>Pick allergies, medications and conditions from a binder</Text>
+            </Pressable>
+          ) : binders.length === 0 ? (
+            <Text style={styles.helperText}>No binders on this device yet.</Text>
+          ) : (
+            <View style={styles.chipWrapInner}>
+              {binders.map((binder) => {
+                const selected = form.sourceBinderId === binder.id && candidates !== null;
+                return (
+                  <Pressable
+                    key={binder.id}
+                    onPress={() => handlePickBinder(binder)}
+                    disabled={loadingBinderId !== null}
+                    style={[styles.chip, selected && styles.chipSelected]}
+                  >
+                    {loadingBinderId === binder.id ? (
+                      <ActivityIndicator size="small" color={theme.colors.secondary} />
+                    ) : (
+                      <Text style={[styles.chipText, selected && styles.chipTextSelected]}>{binder.name}</Text>
+                    )}
+                  </Pressable>
+                );
+              })}
+            </View>
+          )}
+        </View>
+
+        {LIST_FIELDS.map((field) => {
+          const suggestions = (candidates?.[field] ?? []).filter((item) => !form[field].includes(item));
+          return (
+            <React.Fragment key={field}>
+              <Text style={styles.sectionLabel}>{EMERGENCY_FIELD_LABELS[field].toUpperCase()}</Text>
+              <View style={styles.card}>
+                {form[field].map((item, index) => (
+                  <React.Fragment key={`${item}-${index}`}>
+                    <View style={styles.itemRow}>
+                      <Text style={styles.itemText}>{item}</Text>
+                      <Pressable onPress={() => removeListItem(field, index)} hitSlop={8}>
+                        <Text style={styles.removeText}>Remove</Text>
+                      </Pressable>
+                    </View>
+                    <View style={styles.rowSeparator} />
+                  </React.Fragment>
+                ))}
+                {suggestions.length > 0 && (
+                  <>
+                    <View style={styles.chipWrapInner}>
+                      {suggestions.map((item) => (
+                        <Pressable key={item} onPress={() => addListItem(field, item)} style={styles.chip}>
+                          <Text style={styles.chipText}>+ {item}</Text>
+                        </Pressable>
+                      ))}
+                    </View>
+                    <View style={styles.rowSeparator} />
+                  </>
+                )}
+                <View style={styles.fieldBlock}>
+                  <TextInput
+                    value={drafts[field]}
+                    onChangeText={(value) => setDrafts((prev) => ({ ...prev, [field]: value }))}
+                    onSubmitEditing={() => {
+                      addListItem(field, drafts[field]);
+                      setDrafts((prev) => ({ ...prev, [field]: '' }));
+                    }}
+                    placeholder={`Add: ${LIST_PLACEHOLDERS[field]}`}
+                    placeholderTextColor={chrome.secondaryText}
+                    style={styles.fieldInput}
+                    returnKeyType="done"
+                    blurOnSubmit={false}
+                  />
+                </View>
+              </View>
+            </React.Fragment>
+          );
+        })}
+
+        <Text style={styles.sectionLabel}>EMERGENCY CONTACTS</Text>
+        <View style={styles.card}>
+          {form.contacts.map((contact, index) => (
+            <React.Fragment key={index}>
+              <View style={styles.fieldBlock}>
+                <View style={styles.contactHeader}>
+                  <Text style={styles.fieldLabel}>Contact {index + 1}</Text>
+                  <Pressable
+                    onPress={() =>
+                      setForm((prev) => ({ ...prev, contacts: prev.contacts.filter((_, i) => i !== index) }))
+                    }
+                    hitSlop={8}
+                  >
+                    <Text style={styles.removeText}>Remove</Text>
+                  </Pressable>
+                </View>
+                {(['name', 'relationship', 'phone'] as const).map((key) => (
+                  <TextInput
+                    key={key}
+                    value={contact[key]}
+                    onChangeText={(value) =>
+                      setForm((prev) => ({
+                        ...prev,
+                        contacts: prev.contacts.map((c, i) => (i === index ? { ...c, [key]: value } : c)),
+                      }))
+                    }
+                    placeholder={key === 'name' ? 'Name' : key === 'relationship' ? 'Relationship' : 'Phone'}
+                    placeholderTextColor={chrome.secondaryText}
+                    style={styles.fieldInput}
+                    keyboardType={key === 'phone' ? 'phone-pad' : 'default'}
+                    autoCapitalize={key === 'phone' ? 'none' : 'words'}
+                    autoCorrect={false}
+                  />
+                ))}
+              </View>
+              <View style={styles.rowSeparator} />
+            </React.Fragment>
+          ))}
+          <Pressable
+            onPress={() =>
+              setForm((prev) => ({
+                ...prev,
+                contacts: [...prev.contacts, { name: '', relationship: '', phone: '' }],
+              }))
+            }
+            style={styles.linkRow}
+          >
+            <Text style={styles.linkText}>Add contact</Text>
+          </Pressable>
+        </View>
+
+        <Pressable
+          onPress={handleSave}
+          disabled={saving}
+          style={({ pressed }) => [
+            styles.saveButton,
+            (pressed || saving) && styles.saveButtonPressed,
+          ]}
+        >
+          {saving ? (
+            <ActivityIndicator color={theme.colors.primaryForeground} />
+          ) : (
+            <Text style={styles.saveButtonText}>Save Changes</Text>
+          )}
+        </Pressable>
+
+        <Text style={styles.sectionLabel}>PREVIEW</Text>
+        <View style={[styles.card, styles.previewCard]}>
+          <EmergencyCardImage
+            ref={cardRef}
+            card={card}
+            qrPngBase64={qrReady ? qrPng.base64 : null}
+            width={220}
+          />
+          <View style={styles.qrBox}>
+            <QRCode
+              value={qrText}
+              size={160}
+              ecl="M"
+              color={theme.colors.text}
+              backgroundColor={theme.colors.surface}
+              getRef={(ref: Svg | null) => {
+                qrRef.current = ref;
+              }}
+            />
+          </View>
+          <Text style={styles.helperText}>
+            {fieldsOnCard.length > 0
+              ? `Visible to anyone: ${fieldsOnCard.map((f) => EMERGENCY_FIELD_LABELS[f]).join(', ')}.`
+              : 'No fields are switched on yet.'}
+          </Text>
+          {qrText.length > EMERGENCY_QR_MAX_LENGTH && (
+            <Text style={styles.warningText}>
+              The card has a lot of text, so the QR code may be hard to scan. Consider shortening
+              the lists.
+            </Text>
+          )}
+        </View>
+
+        <Text style={styles.sectionLabel}>EXPORT</Text>
+        <View style={styles.card}>
+          {([
+            ['card-image', 'Save Card Image', handleExportCard],
+            ['qr', 'Share QR Code', handleExportQr],
+            ['link', 'Share Link', handleExportLink],
+          ] as const).map(([format, label, onPress], index) => (
+            <React.Fragment key={format}>
+              {index > 0 && <View style={styles.rowSeparator} />}
+              <Pressable
+                onPress={onPress}
+                disabled={exporting !== null || (format !== 'link' && !qrReady)}
+                style={({ pressed }) => [styles.linkRow, pressed && styles.rowPressed]}
+              >
+                {exporting === format ? (
+                  <ActivityIndicator size="small" color={theme.colors.secondary} />
+                ) : (
+                  <Text style={styles.linkText}>{label}</Text>
+                )}
+              </Pressable>
+            </React.Fragment>
+          ))}
+        </View>
+        <Text style={styles.footnote}>
+          The link opens a web page that reads the card from the link itself; the details are
+          never sent to our server.
+        </Text>
+
+        <Text style={styles.sectionLabel}>EXPORT HISTORY</Text>
+        <View style={styles.card}>
+          {form.exports.length === 0 ? (
+            <Text style={styles.helperText}>Nothing exported yet.</Text>
+          ) : (
+            form.exports.map((record, index) => (
+              <React.Fragment key={`${record.at}-${index}`}>
+                {index > 0 && <View style={styles.rowSeparator} />}
+                <View style={styles.fieldBlock}>
+                  <Text style={styles.rowTitle}>
+                    {EMERGENCY_EXPORT_LABELS[record.format]} · {formatExportTime(record.at)}
+                  </Text>
+                  <Text style={styles.rowDetail}>
+                    {record.fields.map((f) => EMERGENCY_FIELD_LABELS[f]).join(', ') || 'No fields'}
+                  </Text>
+                </View>
+              </React.Fragment>
+            ))
+          )}
+        </View>
+      </ScrollView>
+    </KeyboardAvoidingView>
+  );
+}
+
+const createStyles = createThemedStyles((theme) => {
+  const chrome = getProfileChrome(theme);
+
+  return {
+    container: {
+      flex: 1,
+      backgroundColor: chrome.pageBackground,
+    },
+    loadingScreen: {
+      flex: 1,
+      alignItems: 'center',
+      justifyContent: 'center',
+      backgroundColor: chrome.pageBackground,
+    },
+    content: {
+      paddingHorizontal: 20,
+      paddingTop: 16,
+      gap: 0,
+    },
+    sectionLabel: {
+      color: chrome.secondaryText,
+      fontSize: 13,
+      fontWeight: '600',
+      letterSpacing: 0.5,
+      marginBottom: 8,
+      marginTop: 24,
+      marginLeft: 4,
+    },
+    card: {
+      backgroundColor: chrome.cardBackground,
+      borderRadius: 12,
+    },
+    helperText: {
+      color: chrome.secondaryText,
+      fontSize: 15,
+      lineHeight: 22,
+      paddingHorizontal: 16,
+      paddingVertical: 14,
+    },
+    warningText: {
+      color: theme.colors.warning,
+      fontSize: 14,
+      lineHeight: 20,
+      paddingHorizontal: 16,
+      paddingBottom: 14,
+    },
+    footnote: {
+      color: chrome.secondaryText,
+      fontSize: 13,
+      lineHeight: 18,
+      marginTop: 8,
+      marginHorizontal: 4,
+    },
+    fieldBlock: {
+      paddingHorizontal: 16,
+      paddingVertical: 14,
+      gap: 8,
+    },
+    fieldLabel: {
+      color: chrome.secondaryText,
+      fontSize: 13,
+      fontWeight: '600',
+    },
+    fieldInput: {
+      color: chrome.primaryText,
+      fontSize: 16,
+      padding: 0,
+    },
+    rowSeparator: {
+      height: StyleSheet.hairlineWidth,
+      backgroundColor: chrome.divider,
+      marginLeft: 16,
+    },
+    switchRow: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      paddingHorizontal: 16,
+      paddingVertical: 10,
+      gap: 12,
+    },
+    switchText: {
+      flex: 1,
+      gap: 2,
+    },
+    rowTitle: {
+      color: chrome.primaryText,
+      fontSize: 15,
+    },
+    rowDetail: {
+      color: chrome.secondaryText,
+      fontSize: 13,
+    },
+    rowPressed: {
+      backgroundColor: chrome.cardPressed,
+    },
+    chipWrap: {
+      flexDirection: 'row',
+      flexWrap: 'wrap',
+      gap: 8,
+      padding: 12,
+    },
+    chipWrapInner: {
+      flexDirection: 'row',
+      flexWrap: 'wrap',
+      gap: 8,
+      paddingHorizontal: 16,
+      paddingVertical: 12,
+    },
+    chip: {
+      borderRadius: 16,
+      borderWidth: StyleSheet.hairlineWidth,
+      borderColor: chrome.divider,
+      backgroundColor: chrome.subtleSurface,
+      paddingHorizontal: 12,
+      paddingVertical: 7,
+    },
+    chipSelected: {
+      backgroundColor: theme.colors.primary,
+      borderColor: theme.colors.primary,
+    },
+    chipText: {
+      color: chrome.primaryText,
+      fontSize: 14,
+    },
+    chipTextSelected: {
+      color: theme.colors.primaryForeground,
+      fontWeight: '600',
+    },
+    itemRow: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      paddingHorizontal: 16,
+      paddingVertical: 12,
+      gap: 12,
+    },
+    itemText: {
+      flex: 1,
+      color: chrome.primaryText,
+      fontSize: 15,
+    },
+    removeText: {
+      color: theme.colors.danger,
+      fontSize: 14,
+    },
+    contactHeader: {
+      flexDirection: 'row',
+      justifyContent: 'space-between',
+      alignItems: 'center',
+    },
+    linkRow: {
+      paddingHorizontal: 16,
+      paddingVertical: 14,
+      minHeight: 48,
+      justifyContent: 'center',
+    },
+    linkText: {
+      color: theme.colors.secondary,
+      fontSize: 15,
+      fontWeight: '600',
+    },
+    previewCard: {
+      alignItems: 'center',
+      paddingTop: 16,
+      gap: 12,
+    },
+    qrBox: {
+      padding: 10,
+      borderRadius: 10,
+      backgroundColor: theme.colors.surface,
+    },
+    saveButton: {
+      backgroundColor: theme.colors.primary,
+      borderRadius: 14,
+      alignItems: 'center',
+      justifyContent: 'center',
+      minHeight: 54,
+      marginTop: 28,
+    },
+    saveButtonPressed: {
+      opacity: 0.82,
+    },
+    saveButtonText: {
+      color: theme.colors.primaryForeground,
+      fontSize: 16,
+      fontWeight: '700',
+    },
+  };
+});
@@ -1,7 +1,7 @@
 // app/(tabs)/profile/encryption-keys.tsx
 // Encryption key management screen, pushed from profile.
 
-import React, { useState, useMemo } from 'react';
+import React, { useState, useMemo, useEffect } from 'react';
 import {
   View,
   Text,
@@ -14,11 +14,19 @@ import {
 import { useNavigation } from 'expo-router';
 import * as Clipboard from 'expo-clipboard';
 import * as SecureStore from 'expo-secure-store';
-import { bytesToHex, hexToBytes } from '@noble/hashes/utils.js';
+import { hexToBytes } from '@noble/hashes/utils.js';
 import { bech32 } from '@scure/base';
 import { useAuthContext } from '../../../providers/AuthProvider';
 import { KeyManager } from '../../../core/crypto/KeyManager';
+import { encodeNsec } from '../../../core/crypto/keyBackup';
+import {
+  pendingRotationBinders,
+  readRotationState,
+  type KeyRotationProgress,
+  type KeyRotationState,
+} from '../../../core/binder/KeyRotation';
 import ImportKeyForm from '../../../components/auth/ImportKeyForm';
+import KeyBackupPanel from '../../../components/auth/KeyBackupPanel';
 import { createThemedStyles, useThemedStyles } from '../../../theme';
 import { getProfileChrome } from './profileChrome';
 
@@ -27,6 +35,22 @@ function encodeBech32(prefix: string, hexStr: string): string {
   return bech32.encode(prefix, bech32.toWords(bytes), 1500);
 }
 
+function describeRotationProgress(progress: KeyRotationProgress): string {
+  const binder = `Binder ${Math.min(progress.bindersDone + 1, progress.totalBinders)} of ${progress.totalBinders}`;
+  switch (progress.step) {
+    case 'syncing':
+      return `${binder}: syncing...`;
+    case 're-encrypting':
+      return `${binder}: re-encrypting ${progress.filesProcessed ?? 0}/${progress.totalFiles ?? 0} files...`;
+    case 'pushing':
+      return `${binder}: uploading...`;
+    case 'scheduler-key':
+      return 'Moving your appointment key to the new key...';
+    case 'linking':
+      return 'Linking the new key to your account...';
+  }
+}
+
 function truncateKey(key: string): string {
   if (key.length <= 20) return key;
   return `${key.slice(0, 12)}...${key.slice(-6)}`;
@@ -34,7 +58,7 @@ function truncateKey(key: string): string {
 
 export default function EncryptionKeysRoute() {
   const navigation = useNavigation();
-  const { state, hasStoredNostrKey } = useAuthContext();
+  const { state, hasStoredNostrKey, rotateMasterKey, cancelKeyRotation } = useAuthContext();
   const styles = useThemedStyles(createStyles);
   const keyManager = useMemo(() => new KeyManager(SecureStore), []);
 
@@ -47,9 +71,20 @@ export default function EncryptionKeysRoute() {
       ? 'This account is linked to an encryption key, but the private key is not stored on this device yet. Import it here to open binders.'
       : 'Add an encryption key to this device so you can encrypt and open binders.';
 
-  const [revealedNsec, setRevealedNsec] = useState<string | null>(null);
+  const [revealedPrivkey, setRevealedPrivkey] = useState<Uint8Array | null>(null);
+  const revealedNsec = useMemo(() => (revealedPrivkey ? encodeNsec(revealedPrivkey) : null), [revealedPrivkey]);
   const [exporting, setExporting] = useState(false);
   const [showImport, setShowImport] = useState(false);
+  const [rotationState, setRotationState] = useState<KeyRotationState | null>(null);
+  const [rotationProgress, setRotationProgress] = useState<string | null>(null);
+
+  useEffect(() => {
+    readRotationState().then(setRotationState);
+  }, []);
+
+  const rotationInProgress = rotationProgress !== null;
+  const canCancelRotation = rotationState !== null
+    && pendingRotationBinders(rotationState).length === Object.keys(rotationState.binders).length;
 
   const handleCopyNpub = async () => {
     if (!npub) return;
@@ -65,9 +100,7 @@ export default function EncryptionKeysRoute() {
         Alert.alert('No Key', 'Could not retrieve encryption key.');
         return;
       }
-      const hex = bytesToHex(privkey);
-      const nsec = encodeBech32('nsec', hex);
-      setRevealedNsec(nsec);
+      setRevealedPrivkey(privkey);
     } catch {
       // Face ID cancelled or failed
     } finally {
@@ -81,6 +114,54 @@ export default function EncryptionKeysRoute() {
     Alert.alert('Copied', 'Secret key copied. Store it safely and clear your clipboard.');
   };
 
+  const runRotation = async () => {
+    setRevealedPrivkey(null);
+    setRotationProgress('Preparing...');
+    try {
+      const result = await rotateMasterKey((progress) => setRotationProgress(describeRotationProgress(progress)));
+      const skippedNote = result.skippedFiles.length > 0
+        ? `\n\n${result.skippedFiles.length} file(s) could not be opened with the old key and were left unchanged.`
+        : '';
+      Alert.alert(
+        'Key Rotated',
+        `Your binders are now encrypted with a new key. Export it and import it on your other devices.${skippedNote}`,
+      );
+    } catch (err) {
+      Alert.alert(
+        'Rotation Paused',
+        `${err instanceof Error ? err.message : 'Key rotation failed.'}\n\nYou can resume it from this screen.`,
+      );
+    } finally {
+      setRotationProgress(null);
+      setRotationState(await readRotationState());
+    }
+  };
+
+  const handleRotateKey = () => {
+    if (rotationState) {
+      runRotation();
+      return;
+    }
+    Alert.alert(
+      'Rotate Encryption Key?',
+      'A new key will be generated and every binder re-encrypted with it. Other devices will need the new key imported, '
+        + 'and the old key still opens earlier versions in each binder\'s history.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Rotate', style: 'destructive', onPress: runRotation },
+      ],
+    );
+  };
+
+  const handleCancelRotation = async () => {
+    try {
+      await cancelKeyRotation();
+    } catch (err) {
+      Alert.alert('Cannot Cancel', err instanceof Error ? err.message : 'Failed to cancel key rotation.');
+    }
+    setRotationState(await readRotationState());
+  };
+
   if (showImport) {
     navigation.setOptions({ headerShown: false });
     return (
@@ -120,12 +201,12 @@ export default function EncryptionKeysRoute() {
           {exporting ? (
             <ActivityIndicator color={styles.exportButtonText.color} />
           ) : (
-            <Text style={styles.exportButtonText}>Export private key</Text>
+            <Text style={styles.exportButtonText}>Back up private key</Text>
           )}
         </Pressable>
       )}
 
-      {revealedNsec && (
+      {revealedPrivkey && revealedNsec && (
         <View style={styles.nsecBox}>
           <Text style={styles.nsecWarning}>
             Anyone with this key can decrypt your medical records. Store it safely.
@@ -133,12 +214,41 @@ export default function EncryptionKeysRoute() {
           <Pressable onPress={handleCopyNsec}>
             <Text style={styles.nsecValue} selectable>{revealedNsec}</Text>
           </Pressable>
-          <Pressable onPress={() => setRevealedNsec(null)}>
+          <KeyBackupPanel privkey={revealedPrivkey} />
+          <Pressable onPress={() => setRevealedPrivkey(null)}>
             <Text style={styles.nsecDismiss}>Hide</Text>
           </Pressable>
         </View>
       )}
 
+      {hasLocalKey && hasLinkedKey && (
+        <View style={styles.rotateBox}>
+          <Text style={styles.keyLabel}>Rotate Key</Text>
+          <Text style={styles.rotateDescription}>
+            {rotationState
+              ? `A key rotation was interrupted with ${pendingRotationBinders(rotationState).length} binder(s) left. Resume it to finish.`
+              : 'Replace your encryption key if you think it has been exposed. Every binder is re-encrypted with the new key.'}
+          </Text>
+          {rotationInProgress ? (
+            <View style={styles.rotateProgressRow}>
+              <ActivityIndicator color={styles.rotateProgressText.color} />
+              <Text style={styles.rotateProgressText}>{rotationProgress}</Text>
+            </View>
+          ) : (
+            <>
+              <Pressable style={styles.rotateButton} onPress={handleRotateKey}>
+                <Text style={styles.rotateButtonText}>{rotationState ? 'Resume rotation' : 'Rotate encryption key'}</Text>
+              </Pressable>
+              {canCancelRotation && (
+                <Pressable onPress={handleCancelRotation}>
+                  <Text style={styles.nsecDismiss}>Cancel rotation</Text>
+                </Pressable>
+              )}
+            </>
+          )}
+        </View>
+      )}
+
       <Pressable
         style={styles.importButton}
         onPress={() => setShowImport(true)}
@@ -233,6 +343,42 @@ const createStyles = createThemedStyles((theme) => {
       fontSize: 13,
       textAlign: 'right',
     },
+    rotateBox: {
+      backgroundColor: chrome.cardBackground,
+      borderWidth: 1,
+      borderColor: chrome.divider,
+      borderRadius: 12,
+      padding: 16,
+      marginBottom: 16,
+      gap: 10,
+    },
+    rotateDescription: {
+      fontSize: 14,
+      color: chrome.secondaryText,
+      lineHeight: 20,
+    },
+    rotateProgressRow: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: 10,
+    },
+    rotateProgressText: {
+      flex: 1,
+      fontSize: 14,
+      color: chrome.primaryText,
+    },
+    rotateButton: {
+      borderWidth: 1,
+      borderColor: theme.colors.danger,
+      borderRadius: 12,
+      paddingVertical: 14,
+      alignItems: 'center',
+    },
+    rotateButtonText: {
+      color: theme.colors.danger,
+      fontSize: 16,
+      fontWeight: '600',
+    },
     importButton: {
       backgroundColor: theme.colors.accent,
       borderWidth: 1,
@@ -10,6 +10,7 @@ import { getProfileChrome } from './profileChrome';
 type MenuItemKey =
   | 'account'
   | 'medical-info'
+  | 'emergency-info'
   | 'settings'
   | 'encryption-keys'
   | 'notifications'
@@ -52,7 +53,10 @@ export default function ProfileScreen() {
   const menuSections: MenuSection[] = [
     {
       key: 'records-setup',
-      items: [{ key: 'medical-info', label: 'My Medical Info', destructive: false }],
+      items: [
+        { key: 'medical-info', label: 'My Medical Info', destructive: false },
+        { key: 'emergency-info', label: 'Emergency Info', destructive: false },
+      ],
     },
     {
       key: 'account-logistics',
@@ -76,6 +80,7 @@ export default function ProfileScreen() {
     if (key === 'account') router.push('/(tabs)/profile/account');
     if (key === 'settings') router.push('/(tabs)/profile/settings');
     if (key === 'medical-info') router.push('/(tabs)/profile/medical-info');
+    if (key === 'emergency-info') router.push('/(tabs)/profile/emergency-info');
     if (key === 'encryption-keys') router.push('/(tabs)/profile/encryption-keys');
     if (key === 'notifications') router.push('/(tabs)/profile/notifications');
     if (key === 'about') router.push('/(tabs)/profile/about');
@@ -1,12 +1,258 @@
-import React from 'react';
-import { View, StyleSheet } from 'react-native';
-import { createThemedStyles, useThemedStyles } from '../../theme';
+// app/(tabs)/search.tsx
+// Full-text search across one binder. Defaults to the binder passed in route
+// params, then the last viewed binder, then the last opened binder.
+
+import React, { useEffect, useMemo, useState } from 'react';
+import {
+  ActivityIndicator,
+  FlatList,
+  Pressable,
+  Text,
+  TextInput,
+  View,
+  type StyleProp,
+  type TextStyle,
+} from 'react-native';
+import { useLocalSearchParams, useRouter } from 'expo-router';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import * as SecureStore from 'expo-secure-store';
+import { IconSearch } from '@tabler/icons-react-native';
+import { useAuthContext } from '../../providers/AuthProvider';
+import { useCryptoContext } from '../../providers/CryptoProvider';
+import { BinderService, type BinderSearchResult } from '../../core/binder/BinderService';
+import { getLastViewed } from '../../core/binder/LastViewedStore';
+import type { SearchSnippet } from '../../core/binder/SearchIndex';
+import { useBinderSearch } from '../../hooks/useBinderSearch';
+import { createThemedStyles, useTheme, useThemedStyles } from '../../theme';
+
+const LAST_BINDER_KEY = 'limbo_last_binder';
 
 export default function SearchScreen() {
+  const { binderId: binderIdParam, binderName } = useLocalSearchParams<{
+    binderId?: string;
+    binderName?: string;
+  }>();
+  const router = useRouter();
+  const insets = useSafeAreaInsets();
+  const theme = useTheme();
   const styles = useThemedStyles(createStyles);
-  return <View style={styles.container} />;
+  const { state: authState } = useAuthContext();
+  const { masterConversationKey } = useCryptoContext();
+  const jwt = authState.status === 'authenticated' ? authState.jwt : null;
+
+  const [binderId, setBinderId] = useState<string | null>(
+    binderIdParam ?? getLastViewed()?.binderId ?? null,
+  );
+  const [query, setQuery] = useState('');
+
+  useEffect(() => {
+    if (binderIdParam) {
+      setBinderId(binderIdParam);
+      return;
+    }
+    if (binderId) return;
+    SecureStore.getItemAsync(LAST_BINDER_KEY)
+      .then((lastId) => {
+        if (lastId) setBinderId(lastId);
+      })
+      .catch((err) => {
+        console.warn('Failed to read last binder for search:', err);
+      });
+  }, [binderIdParam]);
+
+  const binderService = useMemo(() => {
+    if (!masterConversationKey || !jwt || !binderId) return null;
+    return new BinderService(
+      {
+        repoId: binderId,
+        repoDir: `binders/${binderId}`,
+        auth: { type: 'jwt' as const, token: jwt },
+        author: {
+          name: authState.metadata?.name || authState.oauthProfile?.name || 'Limbo Health',
+          email: authState.oauthProfile?.email || 'app@limbo.health',
+        },
+      },
+      masterConversationKey,
+    );
+  }, [binderId, masterConversationKey, jwt, authState.metadata?.name, authState.oauthProfile?.name, authState.oauthProfile?.email]);
+
+  const { results, searching, error } = useBinderSearch(binderService, query);
+
+  const handleOpenResult = (result: BinderSearchResult) => {
+    if (!binderId) return;
+    router.push(`/binder/${binderId}/entry/${result.path}`);
+  };
+
+  const hasQuery = query.trim().length > 0;
+
+  return (
+    <View style={[styles.container, { paddingTop: insets.top + 16 }]}>
+      <Text style={styles.screenTitle}>Search</Text>
+      {binderName ? <Text style={styles.binderName}>{binderName}</Text> : null}
+
+      <View style={styles.inputRow}>
+        <IconSearch size={18} color={theme.colors.textMuted} strokeWidth={2} />
+        <TextInput
+          value={query}
+          onChangeText={setQuery}
+          placeholder="Search notes, medications, providers..."
+          placeholderTextColor={theme.colors.inputPlaceholder}
+          style={styles.input}
+          autoCapitalize="none"
+          autoCorrect={false}
+          returnKeyType="search"
+          editable={!!binderService}
+        />
+        {searching && <ActivityIndicator size="small" color={theme.colors.textMuted} />}
+      </View>
+
+      {!binderId ? (
+        <Text style={styles.emptyText}>Open a binder to search it.</Text>
+      ) : error ? (
+        <Text style={styles.errorText}>{error}</Text>
+      ) : hasQuery && !searching && results.length === 0 ? (
+        <Text style={styles.emptyText}>No matching entries.</Text>
+      ) : (
+        <FlatList
+          data={results}
+          keyExtractor={(item) => item.path}
+          keyboardShouldPersistTaps="handled"
+          contentContainerStyle={styles.listContent}
+          renderItem={({ item }) => (
+            <Pressable
+              onPress={() => handleOpenResult(item)}
+              style={({ pressed }) => [styles.resultRow, pressed && styles.resultRowPressed]}
+            >
+              {item.breadcrumbs.length > 0 && (
+                <Text style={styles.breadcrumbs} numberOfLines={1}>
+                  {item.breadcrumbs.join(' › ')}
+                </Text>
+              )}
+              <Text style={styles.resultTitle} numberOfLines={1}>
+                {item.title}
+              </Text>
+              {item.snippet.text ? (
+                <HighlightedSnippet
+                  snippet={item.snippet}
+                  textStyle={styles.snippet}
+                  highlightStyle={styles.snippetHighlight}
+                />
+              ) : null}
+            </Pressable>
+          )}
+        />
+      )}
+    </View>
+  );
+}
+
+function HighlightedSnippet({
+  snippet,
+  textStyle,
+  highlightStyle,
+}: {
+  snippet: SearchSnippet;
+  textStyle: StyleProp<TextStyle>;
+  highlightStyle: StyleProp<TextStyle>;
+}) {
+  const parts: { text: string; highlighted: boolean }[] = [];
+  let cursor = 0;
+  for (const { start, end } of snippet.highlights) {
+    if (start > cursor) parts.push({ text: snippet.text.slice(cursor, start), highlighted: false });
+    parts.push({ text: snippet.text.slice(start, end), highlighted: true });
+    cursor = end;
+  }
+  if (cursor < snippet.text.length) {
+    parts.push({ text: snippet.text.slice(cursor), highlighted: false });
+  }
+
+  return (
+    <Text style={textStyle} numberOfLines={3}>
+      {parts.map((part, index) => (
+        <Text key={index} style={part.highlighted ? highlightStyle : undefined}>
+          {part.text}
+        </Text>
+      ))}
+    </Text>
+  );
 }
 
 const createStyles = createThemedStyles((theme) => ({
-  container: { flex: 1, backgroundColor: theme.colors.headerBackground },
+  container: {
+    flex: 1,
+    backgroundColor: theme.colors.headerBackground,
+    paddingHorizontal: 20,
+  },
+  screenTitle: {
+    color: theme.colors.text,
+    fontSize: 28,
+    fontWeight: '700',
+  },
+  binderName: {
+    color: theme.colors.textSecondary,
+    fontSize: 14,
+    marginTop: 2,
+  },
+  inputRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginTop: 16,
+    marginBottom: 8,
+    paddingHorizontal: 12,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: theme.colors.inputBorder,
+    backgroundColor: theme.colors.inputBackground,
+  },
+  input: {
+    flex: 1,
+    paddingVertical: 10,
+    fontSize: 16,
+    color: theme.colors.text,
+  },
+  listContent: {
+    paddingBottom: 120,
+  },
+  resultRow: {
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: theme.colors.border,
+  },
+  resultRowPressed: {
+    backgroundColor: theme.colors.chromeSurfacePressed,
+  },
+  breadcrumbs: {
+    color: theme.colors.textMuted,
+    fontSize: 12,
+    marginBottom: 2,
+  },
+  resultTitle: {
+    color: theme.colors.text,
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  snippet: {
+    color: theme.colors.textSecondary,
+    fontSize: 14,
+    marginTop: 4,
+    lineHeight: 20,
+  },
+  snippetHighlight: {
+    color: theme.colors.text,
+    fontWeight: '700',
+    backgroundColor: theme.colors.warningSoft,
+  },
+  emptyText: {
+    color: theme.colors.textMuted,
+    fontSize: 15,
+    marginTop: 24,
+    textAlign: 'center',
+  },
+  errorText: {
+    color: theme.colors.danger,
+    fontSize: 15,
+    marginTop: 24,
+    textAlign: 'center',
+  },
 }));
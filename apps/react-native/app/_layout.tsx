@@ -26,6 +26,7 @@ export default function RootLayout() {
                 <Stack.Screen name="bio-setup" />
                 <Stack.Screen name="records-request" />
                 <Stack.Screen name="records-request-wizard" />
+                <Stack.Screen name="records-requests" />
                 <Stack.Screen
                   name="camera"
                   options={{
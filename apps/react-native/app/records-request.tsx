@@ -54,18 +54,25 @@ import {
   isPdfBackedWorkflowForm,
   prefetchRecordsRequestPdfTemplate,
 } from '../core/recordsWorkflow/pdf';
+import {
+  RECORDS_REQUEST_CHANNEL_LABELS,
+  computeRecordsRequestDeadlines,
+} from '../core/recordsWorkflow/ledger';
 import {
   HOSPITAL_SYSTEM_SEARCH_DEBOUNCE_MS,
   normalizeHospitalSystemSearchQuery,
 } from '../core/recordsWorkflow/search';
+import { useRecordsRequestLedger } from '../hooks/useRecordsRequestLedger';
 import { useBioProfile } from '../providers/BioProfileProvider';
 import { createThemedStyles, useTheme, useThemedStyles } from '../theme';
 import type {
   HospitalSystemOption,
+  RecordsRequestChannel,
   RecordsRequestIdAttachment,
   RecordsRequestPacket,
   RecordsRequestUserSignature,
   RecordsWorkflowForm,
+  TrackedRecordsRequest,
 } from '../types/recordsRequest';
 
 type RecordsRequestInstruction = RecordsRequestPacket['instructions'][number];
@@ -287,6 +294,7 @@ export default function RecordsRequestScreen() {
   const theme = useTheme();
   const styles = useThemedStyles(createStyles);
   const { status: bioStatus, profile, hasProfile } = useBioProfile();
+  const { trackRequest, faxRequest } = useRecordsRequestLedger();
   const [currentStepId, setCurrentStepId] = useState('bio');
   const [searchQuery, setSearchQuery] = useState('');
   const normalizedSearchQuery = normalizeHospitalSystemSearchQuery(searchQuery);
@@ -302,6 +310,11 @@ export default function RecordsRequestScreen() {
   const [idAttachment, setIdAttachment] = useState<RecordsRequestIdAttachment | null>(null);
   const [submitting, setSubmitting] = useState(false);
   const [generatedPdfUri, setGeneratedPdfUri] = useState<string | null>(null);
+  const [generatedFormName, setGeneratedFormName] = useState<string | null>(null);
+  const [trackChannel, setTrackChannel] = useState<RecordsRequestChannel | null>(null);
+  const [trackedRequest, setTrackedRequest] = useState<TrackedRecordsRequest | null>(null);
+  const [trackingRequest, setTrackingRequest] = useState(false);
+  const [sendingFax, setSendingFax] = useState(false);
   const [templatePrefetchState, setTemplatePrefetchState] = useState<
     'idle' | 'loading' | 'ready' | 'error'
   >('idle');
@@ -546,6 +559,21 @@ export default function RecordsRequestScreen() {
       displayedSupportPhone,
   );
   const isGeneratedSubmitStep = currentWorkflowStep.kind === 'submit' && Boolean(generatedPdfUri);
+  const trackDestinations: Record<RecordsRequestChannel, string | null> = {
+    email: displayedEmailDestination,
+    fax: displayedFaxDestination,
+    mail: displayedMailDestination,
+    portal: packet?.portal.url || packet?.portal.name || null,
+  };
+  const defaultTrackChannel: RecordsRequestChannel = displayedEmailDestination
+    ? 'email'
+    : displayedFaxDestination
+      ? 'fax'
+      : displayedMailDestination
+        ? 'mail'
+        : 'portal';
+  const selectedTrackChannel = trackChannel ?? defaultTrackChannel;
+  const canSendFax = Boolean(displayedFaxDestination) && !sendingFax && !trackedRequest;
   const currentStepTitle =
     isGeneratedSubmitStep
       ? ''
@@ -592,6 +620,7 @@ export default function RecordsRequestScreen() {
       });
 
       setGeneratedPdfUri(result.uri);
+      setGeneratedFormName(result.formName);
       return true;
     } catch (error) {
       const message = error instanceof Error ? error.message : 'Unable to generate the PDF.';
@@ -602,6 +631,11 @@ export default function RecordsRequestScreen() {
     }
   };
 
+  // A new PDF is a new request; the previous one stays in the ledger.
+  useEffect(() => {
+    setTrackedRequest(null);
+  }, [generatedPdfUri]);
+
   useEffect(() => {
     if (!requestedSystemId || !hasProfile || !profile) return;
     if (autoLoadedSystemIdRef.current === requestedSystemId) return;
@@ -909,18 +943,104 @@ export default function RecordsRequestScreen() {
         return;
       }
 
-      await MailComposer.composeAsync({
+      const result = await MailComposer.composeAsync({
         recipients: [packetEmailDestination],
         subject: emailSubject,
         body: emailBody,
         attachments: [generatedPdfUri],
       });
+      if (result.status === MailComposer.MailComposerStatus.SENT) {
+        await recordSentRequest('email');
+      }
     } catch (error) {
       const message = error instanceof Error ? error.message : 'Unable to open the email composer.';
       Alert.alert('Email Failed', message);
     }
   };
 
+  const recordSentRequest = async (channel: RecordsRequestChannel) => {
+    if (!packet || trackedRequest || trackingRequest) return;
+
+    setTrackingRequest(true);
+    try {
+      const { request, copyError } = await trackRequest(
+        {
+          hospitalSystem: packet.hospitalSystem,
+          formName: generatedFormName,
+          channel,
+          destination: trackDestinations[channel],
+        },
+        generatedPdfUri,
+      );
+      setTrackedRequest(request);
+      if (copyError) {
+        Alert.alert('Request Tracked', `The request is tracked, but the PDF copy was not saved: ${copyError}`);
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unable to track this request.';
+      Alert.alert('Tracking Failed', message);
+    } finally {
+      setTrackingRequest(false);
+    }
+  };
+
+  const sendFax = async () => {
+    if (!generatedPdfUri || !packet || !profile || !displayedFaxDestination) return;
+
+    setSendingFax(true);
+    try {
+      const { request, copyError } = await faxRequest(
+        {
+          hospitalSystem: packet.hospitalSystem,
+          formName: generatedFormName,
+          destination: displayedFaxDestination,
+          sender: {
+            name: profile.fullName,
+            phone: profile.phoneNumber,
+            email: profile.email,
+          },
+        },
+        generatedPdfUri,
+      );
+      setTrackedRequest(request);
+      if (request.faxJob?.status === 'failed') {
+        Alert.alert(
+          'Fax Failed',
+          request.faxJob.lastError || 'The fax could not be sent. You can try again from Records Requests.',
+        );
+      } else if (copyError) {
+        Alert.alert('Fax Sending', `The fax is on its way, but the PDF copy was not saved: ${copyError}`);
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unable to send the fax.';
+      Alert.alert('Fax Failed', message);
+    } finally {
+      setSendingFax(false);
+    }
+  };
+
+  const handleFaxPdf = () => {
+    if (!packet || !displayedFaxDestination) return;
+
+    Alert.alert(
+      'Send Fax?',
+      `We'll add a cover sheet and fax this request to ${packet.hospitalSystem.name} at ${displayedFaxDestination}.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Send Fax',
+          onPress: () => {
+            void sendFax();
+          },
+        },
+      ],
+    );
+  };
+
+  const handleMarkSent = async () => {
+    await recordSentRequest(selectedTrackChannel);
+  };
+
   const handleStartOver = () => {
     setCurrentStepId('bio');
     setGeneratedPdfUri(null);
@@ -1782,14 +1902,99 @@ export default function RecordsRequestScreen() {
                   </Text>
                 </Pressable>
 
-                <View style={[styles.deliveryActionButton, styles.deliveryActionButtonDisabled]}>
+                <Pressable
+                  onPress={handleFaxPdf}
+                  disabled={!canSendFax}
+                  style={({ pressed }) => [
+                    styles.deliveryActionButton,
+                    (!canSendFax || pressed) && styles.deliveryActionButtonPressed,
+                    !canSendFax && styles.deliveryActionButtonDisabled,
+                  ]}
+                >
                   <View style={styles.deliveryActionIconWrap}>
-                    <Ionicons name="print-outline" size={20} color={theme.colors.textMuted} />
+                    <Ionicons
+                      name="print-outline"
+                      size={20}
+                      color={canSendFax ? theme.colors.secondary : theme.colors.textMuted}
+                    />
                   </View>
-                  <Text style={[styles.deliveryActionLabel, styles.deliveryActionLabelDisabled]}>
-                    Fax
+                  <Text style={[styles.deliveryActionLabel, !canSendFax && styles.deliveryActionLabelDisabled]}>
+                    {sendingFax ? 'Sending...' : 'Fax'}
                   </Text>
-                </View>
+                </Pressable>
+              </View>
+            )}
+
+            {generatedPdfUri && (
+              <View style={styles.deliveryCard}>
+                <Text style={styles.deliveryEyebrow}>Track This Request</Text>
+                {trackedRequest ? (
+                  <>
+                    <Text style={styles.reviewText}>
+                      {trackedRequest.faxJob && trackedRequest.faxJob.requestStatus !== 'sent'
+                        ? trackedRequest.faxJob.requestStatus === 'failed'
+                          ? `The fax to ${trackedRequest.destination} did not go through. You can send it again from Records Requests.`
+                          : `Faxing ${trackedRequest.destination}. The 30-day deadline starts once the fax is delivered.`
+                        : `${trackedRequest.hospitalSystem.name} has until ${new Date(
+                            computeRecordsRequestDeadlines(trackedRequest.sentAt).responseDueAt,
+                          ).toLocaleDateString()} to respond. We'll prompt you to follow up if it doesn't.`}
+                    </Text>
+                    <Pressable
+                      onPress={() => router.push('/records-requests')}
+                      style={({ pressed }) => [
+                        styles.secondaryButton,
+                        styles.fullWidthButton,
+                        pressed && styles.secondaryButtonPressed,
+                      ]}
+                    >
+                      <Text style={styles.secondaryButtonText}>View Requests</Text>
+                    </Pressable>
+                  </>
+                ) : (
+                  <>
+                    <Text style={styles.deliveryHint}>
+                      Once you&apos;ve sent it, mark it sent to track the 30-day response deadline.
+                    </Text>
+                    <View style={styles.optionList}>
+                      {(Object.keys(RECORDS_REQUEST_CHANNEL_LABELS) as RecordsRequestChannel[]).map((channel) => {
+                        const isSelected = channel === selectedTrackChannel;
+                        return (
+                          <Pressable
+                            key={channel}
+                            onPress={() => setTrackChannel(channel)}
+                            style={({ pressed }) => [
+                              styles.optionChip,
+                              isSelected && styles.optionChipSelected,
+                              pressed && styles.optionChipPressed,
+                            ]}
+                          >
+                            <Text
+                              style={[
+                                styles.optionChipText,
+                                isSelected && styles.optionChipTextSelected,
+                              ]}
+                            >
+                              {RECORDS_REQUEST_CHANNEL_LABELS[channel]}
+                            </Text>
+                          </Pressable>
+                        );
+                      })}
+                    </View>
+                    <Pressable
+                      onPress={handleMarkSent}
+                      disabled={trackingRequest}
+                      style={({ pressed }) => [
+                        styles.secondaryButton,
+                        styles.fullWidthButton,
+                        (pressed || trackingRequest) && styles.secondaryButtonPressed,
+                      ]}
+                    >
+                      <Text style={styles.secondaryButtonText}>
+                        {trackingRequest ? 'Saving...' : 'Mark as Sent'}
+                      </Text>
+                    </Pressable>
+                  </>
+                )}
               </View>
             )}
 
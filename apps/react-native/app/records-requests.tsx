@@ -0,0 +1,606 @@
+// app/records-requests.tsx
+// Sent records requests with their HIPAA response deadlines. Overdue requests
+// offer a pre-written follow-up letter; status changes are recorded by hand
+// as the hospital responds. Faxes sent from the app show delivery status and
+// can be sent again if they fail. Records the hospital sends back are filed
+// into the binder from here.
+
+import React, { useCallback, useState } from 'react';
+import {
+  Alert,
+  Pressable,
+  ScrollView,
+  Share,
+  Text,
+  View,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import * as DocumentPicker from 'expo-document-picker';
+import * as MailComposer from 'expo-mail-composer';
+import { useFocusEffect, useLocalSearchParams, useRouter } from 'expo-router';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import RNFS from 'react-native-fs';
+import { buildEscalationLetter } from '../core/recordsWorkflow/escalation';
+import {
+  RECORDS_REQUEST_CHANNEL_LABELS,
+  RECORDS_REQUEST_STATUS_LABELS,
+  computeRecordsRequestDeadlines,
+  getRecordsRequestFollowUp,
+  withExtensionNotice,
+  withFollowUpSent,
+  withRecordsRequestStatus,
+  type RecordsRequestFollowUp,
+} from '../core/recordsWorkflow/ledger';
+import { useRecordsRequestLedger } from '../hooks/useRecordsRequestLedger';
+import { useBioProfile } from '../providers/BioProfileProvider';
+import { createThemedStyles, useTheme, useThemedStyles } from '../theme';
+import type {
+  RecordsRequestFaxJob,
+  RecordsRequestStatus,
+  TrackedRecordsRequest,
+} from '../types/recordsRequest';
+
+const STATUSES = Object.keys(RECORDS_REQUEST_STATUS_LABELS) as RecordsRequestStatus[];
+
+function formatDate(iso: string): string {
+  return new Date(iso).toLocaleDateString(undefined, { month: 'short', day: 'numeric', year: 'numeric' });
+}
+
+function plural(count: number, word: string): string {
+  return `${count} ${word}${count === 1 ? '' : 's'}`;
+}
+
+function describeFaxJob(faxJob: RecordsRequestFaxJob): string {
+  switch (faxJob.status) {
+    case 'delivered':
+      return `Fax delivered${faxJob.deliveredAt ? ` ${formatDate(faxJob.deliveredAt)}` : ''}`;
+    case 'failed':
+      return `Fax failed${faxJob.lastError ? `: ${faxJob.lastError}` : ''}`;
+    case 'queued':
+      return `Fax will retry (attempt ${faxJob.attempts + 1} of ${faxJob.maxAttempts})`;
+    case 'sending':
+      return 'Fax sending';
+  }
+}
+
+function describeDeadline(followUp: RecordsRequestFollowUp): string {
+  if (followUp.stage === 'undelivered') {
+    return 'Deadline starts once the fax is delivered';
+  }
+  if (followUp.stage === 'closed' || !followUp.dueAt || followUp.daysRemaining === null) {
+    return 'Closed';
+  }
+  const due = formatDate(followUp.dueAt);
+  switch (followUp.stage) {
+    case 'waiting':
+      return `Response due ${due} · ${plural(followUp.daysRemaining, 'day')} left`;
+    case 'extended':
+      return `Extended to ${due} · ${plural(followUp.daysRemaining, 'day')} left`;
+    case 'overdue':
+      return `Response was due ${due} · ${plural(-followUp.daysRemaining, 'day')} overdue`;
+    case 'extension_overdue':
+      return `Extended deadline was ${due} · ${plural(-followUp.daysRemaining, 'day')} overdue`;
+  }
+}
+
+export default function RecordsRequestsScreen() {
+  const router = useRouter();
+  const { requestId } = useLocalSearchParams<{ requestId?: string }>();
+  const insets = useSafeAreaInsets();
+  const theme = useTheme();
+  const styles = useThemedStyles(createStyles);
+  const { profile } = useBioProfile();
+  const { requests, loaded, reload, saveRequest, deleteRequest, resendFax, importReceivedRecords } =
+    useRecordsRequestLedger();
+  const [resendingId, setResendingId] = useState<string | null>(null);
+  const [importingId, setImportingId] = useState<string | null>(null);
+  const [expandedId, setExpandedId] = useState<string | null>(
+    typeof requestId === 'string' ? requestId : null,
+  );
+
+  useFocusEffect(
+    useCallback(() => {
+      void reload();
+    }, [reload]),
+  );
+
+  const save = async (next: TrackedRecordsRequest) => {
+    try {
+      await saveRequest(next);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unable to update this request.';
+      Alert.alert('Could Not Save', message);
+    }
+  };
+
+  const handleFollowUp = async (request: TrackedRecordsRequest, followUp: RecordsRequestFollowUp) => {
+    if (followUp.stage !== 'overdue' && followUp.stage !== 'extension_overdue') return;
+
+    const letter = buildEscalationLetter(request, followUp.stage, profile);
+    try {
+      let sent = false;
+      if (request.channel === 'email' && request.destination && (await MailComposer.isAvailableAsync())) {
+        const result = await MailComposer.composeAsync({
+          recipients: [request.destination],
+          subject: letter.subject,
+          body: letter.body,
+        });
+        sent = result.status === MailComposer.MailComposerStatus.SENT;
+      } else {
+        const result = await Share.share({ title: letter.subject, message: letter.body });
+        sent = result.action === Share.sharedAction;
+      }
+      if (sent) {
+        await save(withFollowUpSent(request, followUp.stage));
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unable to open the follow-up letter.';
+      Alert.alert('Follow-up Failed', message);
+    }
+  };
+
+  const handleResendFax = async (request: TrackedRecordsRequest) => {
+    setResendingId(request.id);
+    try {
+      const next = await resendFax(request, {
+        name: profile?.fullName ?? '',
+        phone: profile?.phoneNumber ?? '',
+        email: profile?.email ?? '',
+      });
+      if (next.faxJob?.status === 'failed') {
+        Alert.alert('Fax Failed', next.faxJob.lastError || 'The fax could not be sent.');
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unable to send the fax again.';
+      Alert.alert('Fax Failed', message);
+    } finally {
+      setResendingId(null);
+    }
+  };
+
+  const handleRecordsReceived = async (request: TrackedRecordsRequest) => {
+    const picked = await DocumentPicker.getDocumentAsync({
+      // Zip bundles and DICOM files from imaging CDs have no reliable MIME type.
+      type: '*/*',
+      multiple: true,
+      copyToCacheDirectory: true,
+    });
+    if (picked.canceled || picked.assets.length === 0) return;
+
+    setImportingId(request.id);
+    const files = picked.assets.map((asset) => ({ name: asset.name, uri: asset.uri }));
+    try {
+      const result = await importReceivedRecords(request, files);
+      const pdfs = result.files.filter((file) => file.kind === 'pdf');
+      const lines = [`Filed ${plural(result.files.length, 'file')} under ${request.hospitalSystem.name}.`];
+      const withoutText = pdfs.filter((file) => !file.text).length;
+      if (withoutText > 0) {
+        lines.push(`${plural(withoutText, 'PDF')} had no readable text (likely scanned); the originals are attached.`);
+      }
+      Alert.alert('Records Filed', lines.join('\n'));
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unable to import these files.';
+      Alert.alert('Import Failed', message);
+    } finally {
+      // The picker's cache copies hold plaintext records.
+      for (const file of files) {
+        RNFS.unlink(decodeURI(file.uri.replace(/^file:\/\//, ''))).catch(() => undefined);
+      }
+      setImportingId(null);
+    }
+  };
+
+  const handleDelete = (request: TrackedRecordsRequest) => {
+    Alert.alert(
+      'Stop Tracking?',
+      `Remove the ${request.hospitalSystem.name} request from this list? The PDF copy stays in your binder.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Remove',
+          style: 'destructive',
+          onPress: () => {
+            deleteRequest(request.id).catch((error) => {
+              console.warn('[RecordsRequestsScreen] Failed to delete request', error);
+            });
+          },
+        },
+      ],
+    );
+  };
+
+  return (
+    <ScrollView
+      style={styles.screen}
+      contentContainerStyle={[
+        styles.content,
+        { paddingTop: insets.top + 14, paddingBottom: insets.bottom + 28 },
+      ]}
+    >
+      <View style={styles.header}>
+        <Pressable
+          accessibilityRole="button"
+          accessibilityLabel="Go back"
+          hitSlop={8}
+          onPress={() => router.back()}
+          style={({ pressed }) => [styles.headerBackButton, pressed && styles.headerBackButtonPressed]}
+        >
+          <Ionicons name="chevron-back" size={26} color={theme.colors.secondary} />
+        </Pressable>
+        <Text style={styles.headerTitle}>Records Requests</Text>
+        <View style={styles.backButtonSpacer} />
+      </View>
+
+      <Text style={styles.intro}>
+        Hospitals have 30 days to respond to a records request, plus one 30-day extension if they
+        tell you in writing. Deadlines are counted from the day you sent the request.
+      </Text>
+
+      {loaded && requests.length === 0 ? (
+        <View style={styles.card}>
+          <Text style={styles.emptyText}>
+            No tracked requests yet. Mark a request as sent after you send the PDF.
+          </Text>
+        </View>
+      ) : null}
+
+      {requests.map((request) => {
+        const followUp = getRecordsRequestFollowUp(request);
+        const expanded = expandedId === request.id;
+        const { responseDueAt } = computeRecordsRequestDeadlines(request.sentAt);
+        const canNoteExtension =
+          !request.extensionNoticeAt &&
+          (followUp.stage === 'waiting' || followUp.stage === 'overdue');
+
+        return (
+          <View
+            key={request.id}
+            style={[styles.card, followUp.needsFollowUp && styles.cardAttention]}
+          >
+            <Pressable
+              onPress={() => setExpandedId(expanded ? null : request.id)}
+              style={({ pressed }) => [styles.cardHeader, pressed && styles.pressed]}
+            >
+              <View style={styles.cardTitleWrap}>
+                <Text style={styles.cardTitle}>{request.hospitalSystem.name}</Text>
+                <Text style={styles.cardMeta}>
+                  {followUp.stage === 'undelivered'
+                    ? `${RECORDS_REQUEST_CHANNEL_LABELS[request.channel]} · not delivered yet`
+                    : `${RECORDS_REQUEST_CHANNEL_LABELS[request.channel]} · sent ${formatDate(request.sentAt)}`}
+                </Text>
+              </View>
+              <View
+                style={[
+                  styles.statusPill,
+                  followUp.stage === 'closed' && styles.statusPillClosed,
+                ]}
+              >
+                <Text style={styles.statusPillText}>{RECORDS_REQUEST_STATUS_LABELS[request.status]}</Text>
+              </View>
+            </Pressable>
+
+            <Text
+              style={[
+                styles.deadlineText,
+                (followUp.stage === 'overdue' || followUp.stage === 'extension_overdue') &&
+                  styles.deadlineOverdue,
+              ]}
+            >
+              {describeDeadline(followUp)}
+            </Text>
+
+            {request.faxJob ? (
+              <Text
+                style={[styles.detailText, request.faxJob.status === 'failed' && styles.deadlineOverdue]}
+              >
+                {describeFaxJob(request.faxJob)}
+              </Text>
+            ) : null}
+
+            {request.faxJob?.status === 'failed' ? (
+              <Pressable
+                onPress={() => handleResendFax(request)}
+                disabled={resendingId === request.id}
+                style={({ pressed }) => [
+                  styles.primaryButton,
+                  (pressed || resendingId === request.id) && styles.pressed,
+                ]}
+              >
+                <Text style={styles.primaryButtonText}>
+                  {resendingId === request.id ? 'Sending...' : 'Send Fax Again'}
+                </Text>
+              </Pressable>
+            ) : null}
+
+            {followUp.needsFollowUp ? (
+              <Pressable
+                onPress={() => handleFollowUp(request, followUp)}
+                style={({ pressed }) => [styles.primaryButton, pressed && styles.pressed]}
+              >
+                <Text style={styles.primaryButtonText}>
+                  {followUp.stage === 'extension_overdue' ? 'Send Second Follow-up' : 'Send Follow-up Letter'}
+                </Text>
+              </Pressable>
+            ) : null}
+
+            {expanded ? (
+              <View style={styles.details}>
+                {request.formName ? <Text style={styles.detailText}>{`Form: ${request.formName}`}</Text> : null}
+                {request.destination ? (
+                  <Text style={styles.detailText}>{`Sent to: ${request.destination}`}</Text>
+                ) : null}
+                <Text style={styles.detailText}>{`30-day deadline: ${formatDate(responseDueAt)}`}</Text>
+                {request.extensionNoticeAt ? (
+                  <Text style={styles.detailText}>
+                    {`Extension notice received ${formatDate(request.extensionNoticeAt)}`}
+                  </Text>
+                ) : null}
+                {request.followUps.length > 0 ? (
+                  <Text style={styles.detailText}>
+                    {`Follow-ups sent: ${request.followUps.map((entry) => formatDate(entry.sentAt)).join(', ')}`}
+                  </Text>
+                ) : null}
+                {request.receivedRecords.map((received) => (
+                  <Pressable
+                    key={received.entryPath}
+                    onPress={() => router.push(`/binder/${received.binderId}/entry/${received.entryPath}`)}
+                    hitSlop={4}
+                  >
+                    <Text style={styles.linkText}>
+                      {`Records received ${formatDate(received.receivedAt)} · ${plural(received.fileCount, 'file')}`}
+                    </Text>
+                  </Pressable>
+                ))}
+
+                <Text style={styles.detailLabel}>Status</Text>
+                <View style={styles.chipRow}>
+                  {STATUSES.map((status) => {
+                    const selected = request.status === status;
+                    return (
+                      <Pressable
+                        key={status}
+                        onPress={() => save(withRecordsRequestStatus(request, status))}
+                        style={({ pressed }) => [
+                          styles.chip,
+                          selected && styles.chipSelected,
+                          pressed && styles.pressed,
+                        ]}
+                      >
+                        <Text style={[styles.chipText, selected && styles.chipTextSelected]}>
+                          {RECORDS_REQUEST_STATUS_LABELS[status]}
+                        </Text>
+                      </Pressable>
+                    );
+                  })}
+                </View>
+
+                <View style={styles.actionRow}>
+                  <Pressable
+                    onPress={() => handleRecordsReceived(request)}
+                    disabled={importingId === request.id}
+                    style={({ pressed }) => [
+                      styles.secondaryButton,
+                      (pressed || importingId === request.id) && styles.pressed,
+                    ]}
+                  >
+                    <Text style={styles.secondaryButtonText}>
+                      {importingId === request.id ? 'Filing Records...' : 'Records Received'}
+                    </Text>
+                  </Pressable>
+                  {canNoteExtension ? (
+                    <Pressable
+                      onPress={() => save(withExtensionNotice(request))}
+                      style={({ pressed }) => [styles.secondaryButton, pressed && styles.pressed]}
+                    >
+                      <Text style={styles.secondaryButtonText}>Got Extension Notice</Text>
+                    </Pressable>
+                  ) : null}
+                  {request.pdfCopy ? (
+                    <Pressable
+                      onPress={() =>
+                        router.push(`/binder/${request.pdfCopy!.binderId}/entry/${request.pdfCopy!.entryPath}`)
+                      }
+                      style={({ pressed }) => [styles.secondaryButton, pressed && styles.pressed]}
+                    >
+                      <Text style={styles.secondaryButtonText}>View Sent PDF</Text>
+                    </Pressable>
+                  ) : null}
+                </View>
+
+                <Pressable onPress={() => handleDelete(request)} hitSlop={8}>
+                  <Text style={styles.deleteText}>Stop tracking</Text>
+                </Pressable>
+              </View>
+            ) : null}
+          </View>
+        );
+      })}
+    </ScrollView>
+  );
+}
+
+const createStyles = createThemedStyles((theme) => ({
+  screen: {
+    flex: 1,
+    backgroundColor: theme.colors.backgroundSubtle,
+  },
+  content: {
+    paddingHorizontal: 20,
+    gap: 16,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  headerBackButton: {
+    width: 40,
+    height: 40,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  headerBackButtonPressed: {
+    opacity: 0.72,
+  },
+  backButtonSpacer: {
+    width: 40,
+    height: 40,
+  },
+  headerTitle: {
+    color: theme.colors.text,
+    fontSize: 17,
+    fontWeight: '700',
+  },
+  intro: {
+    color: theme.colors.textMuted,
+    fontSize: 14,
+    lineHeight: 20,
+  },
+  card: {
+    backgroundColor: theme.colors.surface,
+    borderRadius: 22,
+    padding: 16,
+    borderWidth: 1,
+    borderColor: theme.colors.border,
+    gap: 12,
+  },
+  cardAttention: {
+    borderColor: theme.colors.warning,
+    backgroundColor: theme.colors.warningSoft,
+  },
+  cardHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+  },
+  cardTitleWrap: {
+    flex: 1,
+    gap: 2,
+  },
+  cardTitle: {
+    color: theme.colors.text,
+    fontSize: 16,
+    fontWeight: '700',
+  },
+  cardMeta: {
+    color: theme.colors.textMuted,
+    fontSize: 13,
+  },
+  statusPill: {
+    backgroundColor: theme.colors.secondarySoft,
+    borderRadius: 999,
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+  },
+  statusPillClosed: {
+    backgroundColor: theme.colors.successSoft,
+  },
+  statusPillText: {
+    color: theme.colors.text,
+    fontSize: 12,
+    fontWeight: '700',
+  },
+  deadlineText: {
+    color: theme.colors.text,
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  deadlineOverdue: {
+    color: theme.colors.danger,
+  },
+  details: {
+    gap: 8,
+  },
+  detailText: {
+    color: theme.colors.text,
+    fontSize: 14,
+    lineHeight: 20,
+  },
+  linkText: {
+    color: theme.colors.secondary,
+    fontSize: 14,
+    lineHeight: 20,
+    fontWeight: '600',
+  },
+  detailLabel: {
+    color: theme.colors.primary,
+    fontSize: 12,
+    fontWeight: '700',
+    letterSpacing: 1.2,
+    textTransform: 'uppercase',
+    marginTop: 4,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chip: {
+    backgroundColor: theme.colors.surface,
+    borderRadius: 999,
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderWidth: 1,
+    borderColor: theme.colors.border,
+  },
+  chipSelected: {
+    backgroundColor: theme.colors.primarySoft,
+    borderColor: theme.colors.primary,
+  },
+  chipText: {
+    color: theme.colors.text,
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  chipTextSelected: {
+    color: theme.colors.primary,
+  },
+  actionRow: {
+    flexDirection: 'row',
+    gap: 10,
+    marginTop: 4,
+  },
+  primaryButton: {
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: theme.colors.primary,
+    borderRadius: 18,
+    paddingHorizontal: 18,
+    paddingVertical: 14,
+  },
+  primaryButtonText: {
+    color: theme.colors.primaryForeground,
+    fontSize: 15,
+    fontWeight: '700',
+  },
+  secondaryButton: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: theme.colors.secondarySoft,
+    borderRadius: 18,
+    paddingHorizontal: 14,
+    paddingVertical: 12,
+    borderWidth: 1,
+    borderColor: theme.colors.secondary,
+  },
+  secondaryButtonText: {
+    color: theme.colors.secondary,
+    fontSize: 14,
+    fontWeight: '700',
+  },
+  pressed: {
+    opacity: 0.86,
+  },
+  deleteText: {
+    color: theme.colors.danger,
+    fontSize: 14,
+    fontWeight: '600',
+    marginTop: 4,
+  },
+  emptyText: {
+    color: theme.colors.textMuted,
+    fontSize: 14,
+    lineHeight: 20,
+  },
+}));
@@ -9,6 +9,7 @@ import {
 } from 'react-native';
 import QRCode from 'react-native-qrcode-svg';
 import type { ScanQRPayload } from '../core/scan/ScanSession';
+import { describeShareScope } from '../core/scan/ShareScope';
 import type { PushStatus } from '../hooks/useShareSession';
 import { createThemedStyles, useTheme, useThemedStyles } from '../theme';
 
@@ -50,8 +51,6 @@ export function QRDisplay({ payload, pushStatus, onRetry, onCancel }: QRDisplayP
   }, [payload.expiresAt]);
 
   const isExpired = remainingSeconds <= 0;
-  const minutes = Math.floor(remainingSeconds / 60);
-  const seconds = remainingSeconds % 60;
 
   // Encode the full payload as JSON string for the QR
   const qrData = JSON.stringify(payload);
@@ -62,6 +61,7 @@ export function QRDisplay({ payload, pushStatus, onRetry, onCancel }: QRDisplayP
       <Text style={styles.instruction}>
         Have your doctor scan this QR code at limbo.health/scan
       </Text>
+      <Text style={styles.scope}>Sharing: {describeShareScope(payload.scope)}</Text>
 
       <View style={styles.qrContainer}>
         {isExpired ? (
@@ -81,7 +81,7 @@ export function QRDisplay({ payload, pushStatus, onRetry, onCancel }: QRDisplayP
       <Text style={[styles.timer, isExpired && styles.timerExpired]}>
         {isExpired
           ? 'Session expired'
-          : `${minutes}:${seconds.toString().padStart(2, '0')} remaining`}
+          : `${formatRemaining(remainingSeconds)} remaining`}
       </Text>
 
       {(pushStatus === 'slow' || pushStatus === 'failed') && (
@@ -106,6 +106,16 @@ export function QRDisplay({ payload, pushStatus, onRetry, onCancel }: QRDisplayP
   );
 }
 
+function formatRemaining(totalSeconds: number): string {
+  const days = Math.floor(totalSeconds / 86400);
+  const hours = Math.floor((totalSeconds % 86400) / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  if (days > 0) return `${days}d ${hours}h`;
+  if (hours > 0) return `${hours}:${minutes.toString().padStart(2, '0')}:${seconds.toString().padStart(2, '0')}`;
+  return `${minutes}:${seconds.toString().padStart(2, '0')}`;
+}
+
 const createStyles = createThemedStyles((theme) => ({
   container: {
     flex: 1,
@@ -124,9 +134,16 @@ const createStyles = createThemedStyles((theme) => ({
     fontSize: 15,
     color: theme.colors.textSecondary,
     textAlign: 'center',
-    marginBottom: 32,
+    marginBottom: 12,
     lineHeight: 22,
   },
+  scope: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: theme.colors.text,
+    textAlign: 'center',
+    marginBottom: 24,
+  },
   qrContainer: {
     padding: 20,
     backgroundColor: theme.colors.surface,
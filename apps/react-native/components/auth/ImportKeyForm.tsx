@@ -1,5 +1,7 @@
 // components/auth/ImportKeyForm.tsx
 // Shared import-key UI used by both (auth) and (tabs) routes.
+// Accepts nsec, hex, a 24-word recovery phrase, an ncryptsec backup (typed or
+// picked as a file) with its password, or a set of family recovery shares.
 
 import React, { useState } from 'react';
 import {
@@ -16,10 +18,12 @@ import {
   View,
 } from 'react-native';
 import { useRouter, useNavigation } from 'expo-router';
-import { hexToBytes } from '@noble/hashes/utils.js';
-import { bech32 } from '@scure/base';
+import * as DocumentPicker from 'expo-document-picker';
+import RNFS from 'react-native-fs';
 import Svg, { Path } from 'react-native-svg';
 import { useAuthContext } from '../../providers/AuthProvider';
+import { detectSecretKeyFormat, parseSecretKey } from '../../core/crypto/keyBackup';
+import { isKeyShare, recoverPrivkey } from '../../core/crypto/shamir';
 import { createThemedStyles, useTheme, useThemedStyles } from '../../theme';
 
 function NostrLogo({ size = 40, color }: { size?: number; color: string }) {
@@ -49,8 +53,30 @@ export default function ImportKeyForm({ mode, title, onBack, onSuccess }: Import
   const keyOnly = mode === 'keyOnly';
   const canGoBack = onBack || navigation.canGoBack();
   const [keyInput, setKeyInput] = useState('');
+  const [password, setPassword] = useState('');
+  const [showInput, setShowInput] = useState(false);
   const [loading, setLoading] = useState(false);
 
+  const shareTokens = keyInput.split(/\s+/).filter(isKeyShare);
+  const needsPassword = shareTokens.length === 0 && detectSecretKeyFormat(keyInput) === 'ncryptsec';
+
+  const handleOpenBackupFile = async () => {
+    const picked = await DocumentPicker.getDocumentAsync({
+      type: ['text/plain', 'application/octet-stream'],
+      copyToCacheDirectory: true,
+    });
+    if (picked.canceled || !picked.assets[0]) return;
+
+    const filePath = decodeURI(picked.assets[0].uri.replace(/^file:\/\//, ''));
+    try {
+      setKeyInput((await RNFS.readFile(filePath, 'utf8')).trim());
+    } catch {
+      Alert.alert('Invalid File', 'Could not read the backup file.');
+    } finally {
+      RNFS.unlink(filePath).catch(() => undefined);
+    }
+  };
+
   const handleImport = async () => {
     const trimmed = keyInput.trim();
     if (!trimmed) {
@@ -58,31 +84,18 @@ export default function ImportKeyForm({ mode, title, onBack, onSuccess }: Import
       return;
     }
 
+    setLoading(true);
     let privkeyBytes: Uint8Array;
-
     try {
-      if (trimmed.startsWith('nsec1')) {
-        const decoded = bech32.decodeToBytes(trimmed);
-        if (decoded.bytes.length !== 32) {
-          Alert.alert('Invalid Key', 'nsec key must decode to 32 bytes.');
-          return;
-        }
-        privkeyBytes = decoded.bytes;
-      } else if (/^[0-9a-fA-F]{64}$/.test(trimmed)) {
-        privkeyBytes = hexToBytes(trimmed);
-      } else {
-        Alert.alert(
-          'Invalid Key',
-          'Please enter an nsec key or a 64-character hex private key.',
-        );
-        return;
-      }
-    } catch {
-      Alert.alert('Invalid Key', 'Could not parse the provided key.');
+      privkeyBytes = shareTokens.length > 0
+        ? recoverPrivkey(shareTokens)
+        : await parseSecretKey(trimmed, password);
+    } catch (err) {
+      setLoading(false);
+      Alert.alert('Invalid Key', err instanceof Error ? err.message : 'Could not parse the provided key.');
       return;
     }
 
-    setLoading(true);
     try {
       if (keyOnly) {
         await storeNostrKey(privkeyBytes);
@@ -115,30 +128,53 @@ export default function ImportKeyForm({ mode, title, onBack, onSuccess }: Import
             <NostrLogo size={48} color={theme.colors.accent} />
             <Text style={styles.title}>{title ?? 'Import Your Key'}</Text>
             <Text style={styles.description}>
-              Paste your Nostr secret key (hex format) to restore access to your
-              encrypted medical records.
+              Enter your secret key, 24-word recovery phrase, or encrypted backup to
+              restore access to your medical records. To recover from family shares,
+              paste enough of them, one per line.
             </Text>
 
             <TextInput
               style={styles.input}
               value={keyInput}
               onChangeText={setKeyInput}
-              placeholder="nsec1..."
+              placeholder="nsec1..., recovery phrase, or ncryptsec1..."
               placeholderTextColor={theme.colors.inputPlaceholder}
               autoCapitalize="none"
               autoCorrect={false}
               autoComplete="off"
-              secureTextEntry
+              secureTextEntry={!showInput}
+              multiline={showInput}
             />
+            <View style={styles.inputActions}>
+              <Pressable onPress={() => setShowInput((v) => !v)}>
+                <Text style={styles.linkText}>{showInput ? 'Hide' : 'Show'}</Text>
+              </Pressable>
+              <Pressable onPress={handleOpenBackupFile}>
+                <Text style={styles.linkText}>Open backup file</Text>
+              </Pressable>
+            </View>
+
+            {needsPassword && (
+              <TextInput
+                style={styles.passwordInput}
+                value={password}
+                onChangeText={setPassword}
+                placeholder="Backup password"
+                placeholderTextColor={theme.colors.inputPlaceholder}
+                autoCapitalize="none"
+                autoCorrect={false}
+                secureTextEntry
+              />
+            )}
           </View>
 
           <Pressable
             style={[
               styles.importButton,
-              (loading || !keyInput.trim()) && styles.importButtonDisabled,
+              (loading || !keyInput.trim() || (needsPassword && !password)) && styles.importButtonDisabled,
             ]}
             onPress={handleImport}
-            disabled={loading || !keyInput.trim()}
+            disabled={loading || !keyInput.trim() || (needsPassword && !password)}
         >
             {loading ? (
               <ActivityIndicator color={styles.importButtonText.color} />
@@ -197,6 +233,25 @@ const createStyles = createThemedStyles((theme) => ({
     minHeight: 80,
     textAlignVertical: 'top',
   },
+  inputActions: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginTop: 10,
+  },
+  linkText: {
+    color: theme.colors.secondary,
+    fontSize: 15,
+  },
+  passwordInput: {
+    backgroundColor: theme.colors.inputBackground,
+    borderWidth: 1,
+    borderColor: theme.colors.inputBorder,
+    borderRadius: 12,
+    padding: 16,
+    fontSize: 15,
+    color: theme.colors.text,
+    marginTop: 16,
+  },
   importButton: {
     backgroundColor: theme.colors.secondary,
     borderRadius: 12,
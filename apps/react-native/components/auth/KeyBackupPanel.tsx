@@ -0,0 +1,364 @@
+// components/auth/KeyBackupPanel.tsx
+// Backup options for an unlocked master key: the 24-word recovery phrase,
+// a password-encrypted ncryptsec file, or Shamir recovery shares to hand
+// out to family members.
+
+import React, { useMemo, useState } from 'react';
+import {
+  ActivityIndicator,
+  Alert,
+  Pressable,
+  Share,
+  Text,
+  TextInput,
+  View,
+} from 'react-native';
+import * as Sharing from 'expo-sharing';
+import RNFS from 'react-native-fs';
+import { encryptPrivkey, privkeyToMnemonic } from '../../core/crypto/keyBackup';
+import { splitPrivkey } from '../../core/crypto/shamir';
+import { createThemedStyles, useTheme, useThemedStyles } from '../../theme';
+
+type BackupMode = 'phrase' | 'file' | 'shares';
+
+const MODES: Array<{ mode: BackupMode; label: string }> = [
+  { mode: 'phrase', label: 'Recovery phrase' },
+  { mode: 'file', label: 'Encrypted file' },
+  { mode: 'shares', label: 'Family shares' },
+];
+
+const MIN_PASSWORD_LENGTH = 8;
+const MAX_SHARES = 7;
+
+interface KeyBackupPanelProps {
+  privkey: Uint8Array;
+}
+
+export default function KeyBackupPanel({ privkey }: KeyBackupPanelProps) {
+  const theme = useTheme();
+  const styles = useThemedStyles(createStyles);
+  const [mode, setMode] = useState<BackupMode>('phrase');
+
+  const words = useMemo(() => privkeyToMnemonic(privkey).split(' '), [privkey]);
+
+  const [password, setPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [encrypting, setEncrypting] = useState(false);
+
+  const [shareCount, setShareCount] = useState(3);
+  const [threshold, setThreshold] = useState(2);
+  const [shares, setShares] = useState<string[] | null>(null);
+
+  const passwordError = password.length > 0 && password.length < MIN_PASSWORD_LENGTH
+    ? `Use at least ${MIN_PASSWORD_LENGTH} characters.`
+    : confirmPassword.length > 0 && confirmPassword !== password
+      ? 'Passwords do not match.'
+      : null;
+  const canEncrypt = password.length >= MIN_PASSWORD_LENGTH && confirmPassword === password && !encrypting;
+
+  const handleExportFile = async () => {
+    if (!canEncrypt) return;
+    setEncrypting(true);
+    const filePath = `${RNFS.TemporaryDirectoryPath}/limbo-health-key.ncryptsec`;
+    try {
+      const ncryptsec = await encryptPrivkey(privkey, password);
+      await RNFS.writeFile(filePath, ncryptsec, 'utf8');
+      if (!(await Sharing.isAvailableAsync())) {
+        throw new Error('Sharing is unavailable on this device.');
+      }
+      await Sharing.shareAsync(`file://${filePath}`, {
+        dialogTitle: 'Encrypted key backup',
+        UTI: 'public.plain-text',
+        mimeType: 'text/plain',
+      });
+      setPassword('');
+      setConfirmPassword('');
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Unable to create the backup file.';
+      Alert.alert('Backup Failed', message);
+    } finally {
+      RNFS.unlink(filePath).catch(() => undefined);
+      setEncrypting(false);
+    }
+  };
+
+  const changeShareCount = (next: number) => {
+    const count = Math.min(MAX_SHARES, Math.max(2, next));
+    setShareCount(count);
+    setThreshold((t) => Math.min(t, count));
+    setShares(null);
+  };
+
+  const changeThreshold = (next: number) => {
+    setThreshold(Math.min(shareCount, Math.max(2, next)));
+    setShares(null);
+  };
+
+  const handleSendShare = (share: string, index: number) => {
+    Share.share({
+      message: `Limbo Health recovery share ${index + 1} of ${shareCount} (any ${threshold} recover the key):\n\n${share}`,
+    }).catch(() => undefined);
+  };
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.modeRow}>
+        {MODES.map((option) => (
+          <Pressable
+            key={option.mode}
+            style={[styles.modeChip, mode === option.mode && styles.modeChipSelected]}
+            onPress={() => setMode(option.mode)}
+          >
+            <Text style={[styles.modeText, mode === option.mode && styles.modeTextSelected]}>{option.label}</Text>
+          </Pressable>
+        ))}
+      </View>
+
+      {mode === 'phrase' && (
+        <>
+          <Text style={styles.hint}>
+            Write these 24 words down in order and keep them offline. They restore your key on any device.
+          </Text>
+          <View style={styles.wordGrid}>
+            {words.map((word, i) => (
+              <View key={i} style={styles.wordCell}>
+                <Text style={styles.wordIndex}>{i + 1}</Text>
+                <Text style={styles.word}>{word}</Text>
+              </View>
+            ))}
+          </View>
+        </>
+      )}
+
+      {mode === 'file' && (
+        <>
+          <Text style={styles.hint}>
+            Creates an ncryptsec file locked with a password. Store it in cloud storage or email it to yourself; it is
+            useless without the password.
+          </Text>
+          <TextInput
+            style={styles.input}
+            value={password}
+            onChangeText={setPassword}
+            placeholder="Password"
+            placeholderTextColor={theme.colors.inputPlaceholder}
+            secureTextEntry
+            autoCapitalize="none"
+            autoCorrect={false}
+          />
+          <TextInput
+            style={styles.input}
+            value={confirmPassword}
+            onChangeText={setConfirmPassword}
+            placeholder="Confirm password"
+            placeholderTextColor={theme.colors.inputPlaceholder}
+            secureTextEntry
+            autoCapitalize="none"
+            autoCorrect={false}
+          />
+          {passwordError && <Text style={styles.errorText}>{passwordError}</Text>}
+          <Pressable
+            style={[styles.actionButton, !canEncrypt && styles.actionButtonDisabled]}
+            onPress={handleExportFile}
+            disabled={!canEncrypt}
+          >
+            {encrypting ? (
+              <ActivityIndicator color={styles.actionButtonText.color} />
+            ) : (
+              <Text style={styles.actionButtonText}>Export encrypted key</Text>
+            )}
+          </Pressable>
+        </>
+      )}
+
+      {mode === 'shares' && (
+        <>
+          <Text style={styles.hint}>
+            Split your key among people you trust. Any {threshold} of the {shareCount} shares rebuild it; fewer reveal
+            nothing.
+          </Text>
+          <View style={styles.stepperRow}>
+            <Text style={styles.stepperLabel}>Shares</Text>
+            <Pressable style={styles.stepperButton} onPress={() => changeShareCount(shareCount - 1)}>
+              <Text style={styles.stepperButtonText}>−</Text>
+            </Pressable>
+            <Text style={styles.stepperValue}>{shareCount}</Text>
+            <Pressable style={styles.stepperButton} onPress={() => changeShareCount(shareCount + 1)}>
+              <Text style={styles.stepperButtonText}>+</Text>
+            </Pressable>
+          </View>
+          <View style={styles.stepperRow}>
+            <Text style={styles.stepperLabel}>Needed to recover</Text>
+            <Pressable style={styles.stepperButton} onPress={() => changeThreshold(threshold - 1)}>
+              <Text style={styles.stepperButtonText}>−</Text>
+            </Pressable>
+            <Text style={styles.stepperValue}>{threshold}</Text>
+            <Pressable style={styles.stepperButton} onPress={() => changeThreshold(threshold + 1)}>
+              <Text style={styles.stepperButtonText}>+</Text>
+            </Pressable>
+          </View>
+
+          {!shares ? (
+            <Pressable style={styles.actionButton} onPress={() => setShares(splitPrivkey(privkey, threshold, shareCount))}>
+              <Text style={styles.actionButtonText}>Create shares</Text>
+            </Pressable>
+          ) : (
+            shares.map((share, i) => (
+              <View key={share} style={styles.shareRow}>
+                <View style={styles.shareTextColumn}>
+                  <Text style={styles.shareLabel}>Share {i + 1}</Text>
+                  <Text style={styles.shareValue} selectable numberOfLines={2}>{share}</Text>
+                </View>
+                <Pressable onPress={() => handleSendShare(share, i)}>
+                  <Text style={styles.shareAction}>Send</Text>
+                </Pressable>
+              </View>
+            ))
+          )}
+        </>
+      )}
+    </View>
+  );
+}
+
+const createStyles = createThemedStyles((theme) => ({
+  container: {
+    gap: 10,
+  },
+  modeRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  modeChip: {
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: theme.colors.border,
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+  },
+  modeChipSelected: {
+    borderColor: theme.colors.primary,
+    backgroundColor: theme.colors.primarySoft,
+  },
+  modeText: {
+    fontSize: 13,
+    color: theme.colors.textSecondary,
+  },
+  modeTextSelected: {
+    color: theme.colors.primary,
+    fontWeight: '600',
+  },
+  hint: {
+    fontSize: 13,
+    color: theme.colors.textSecondary,
+    lineHeight: 18,
+  },
+  wordGrid: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    rowGap: 6,
+  },
+  wordCell: {
+    width: '33.33%',
+    flexDirection: 'row',
+    alignItems: 'baseline',
+    gap: 4,
+  },
+  wordIndex: {
+    width: 20,
+    fontSize: 11,
+    color: theme.colors.textMuted,
+    textAlign: 'right',
+  },
+  word: {
+    fontSize: 14,
+    fontFamily: 'Courier',
+    color: theme.colors.text,
+  },
+  input: {
+    backgroundColor: theme.colors.inputBackground,
+    borderWidth: 1,
+    borderColor: theme.colors.inputBorder,
+    borderRadius: 10,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 15,
+    color: theme.colors.text,
+  },
+  errorText: {
+    fontSize: 12,
+    color: theme.colors.danger,
+  },
+  actionButton: {
+    backgroundColor: theme.colors.secondary,
+    borderRadius: 10,
+    paddingVertical: 12,
+    alignItems: 'center',
+  },
+  actionButtonDisabled: {
+    opacity: 0.4,
+  },
+  actionButtonText: {
+    color: theme.colors.secondaryForeground,
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  stepperRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+  },
+  stepperLabel: {
+    flex: 1,
+    fontSize: 14,
+    color: theme.colors.text,
+  },
+  stepperButton: {
+    width: 32,
+    height: 32,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: theme.colors.border,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  stepperButtonText: {
+    fontSize: 18,
+    color: theme.colors.text,
+  },
+  stepperValue: {
+    minWidth: 20,
+    textAlign: 'center',
+    fontSize: 16,
+    fontWeight: '600',
+    color: theme.colors.text,
+  },
+  shareRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    paddingVertical: 8,
+    borderTopWidth: 1,
+    borderTopColor: theme.colors.border,
+  },
+  shareTextColumn: {
+    flex: 1,
+  },
+  shareLabel: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: theme.colors.textMuted,
+    marginBottom: 2,
+  },
+  shareValue: {
+    fontSize: 11,
+    fontFamily: 'Courier',
+    color: theme.colors.text,
+  },
+  shareAction: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: theme.colors.primary,
+  },
+}));
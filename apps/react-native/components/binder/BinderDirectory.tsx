@@ -7,10 +7,15 @@
 import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
 import { View, Text, TouchableOpacity, ActivityIndicator, Alert, StyleSheet } from 'react-native';
 import { useRouter, Stack, useFocusEffect } from 'expo-router';
+import * as DocumentPicker from 'expo-document-picker';
 import * as SecureStore from 'expo-secure-store';
-import { IconShare3 } from '@tabler/icons-react-native';
+import * as Sharing from 'expo-sharing';
+import RNFS from 'react-native-fs';
+import { IconFileExport, IconFileImport, IconHistory, IconSearch, IconShare3, IconUsers } from '@tabler/icons-react-native';
 import { DirectoryList } from './DirectoryList';
 import { NewFolderModal } from './NewFolderModal';
+import { ShareOptionsModal } from './ShareOptionsModal';
+import { SummaryExportModal } from './SummaryExportModal';
 import { InlineFolderComposer } from './InlineFolderComposer';
 import { DebugOverlay } from './DebugOverlay';
 import { DEFAULT_FOLDER_COLOR } from './folderAppearance';
@@ -23,14 +28,20 @@ import {
 import { QRDisplay } from '../QRDisplay';
 import { dirSize, ptSize } from '../../core/binder/BinderCache';
 import { setLastViewed } from '../../core/binder/LastViewedStore';
+import { isBinderOwner, isReadOnlyBinder } from '../../core/binder/BinderAccessStore';
 import { useDirectoryContents } from '../../hooks/useDirectoryContents';
-import { useShareSession } from '../../hooks/useShareSession';
+import { useShareSession, type ShareOptions } from '../../hooks/useShareSession';
 import { useAuthContext } from '../../providers/AuthProvider';
 import { useCryptoContext } from '../../providers/CryptoProvider';
 import { BinderService } from '../../core/binder/BinderService';
 import { slugify } from '../../core/binder/FileNaming';
 import type { DirFolder, DirEntry, DirItem } from '../../core/binder/DirectoryReader';
 import { subscribeDirectoryChanged } from '../../core/binder/DirectoryEvents';
+import { getPushQueueEntry } from '../../core/binder/PushQueue';
+import { listIncomingShares } from '../../core/scan/IncomingContributions';
+import { exportBinderToFhir, FHIR_JSON_MIME_TYPE } from '../../core/fhir/export';
+import { exportBinderSummaryPdf } from '../../core/binder/BinderSummary';
+import { importRecordsIntoBinder, parseHealthRecordFile } from '../../core/fhir/import';
 
 interface BinderDirectoryProps {
   binderId: string;
@@ -44,7 +55,13 @@ export function BinderDirectory({ binderId, dirPath, title }: BinderDirectoryPro
   const router = useRouter();
   const [textureId, setTextureId] = useState<BinderTextureId>(DEFAULT_BINDER_TEXTURE_ID);
   const [reorderSaving, setReorderSaving] = useState(false);
+  const [exporting, setExporting] = useState(false);
+  const [showSummaryOptions, setShowSummaryOptions] = useState(false);
+  const [importing, setImporting] = useState(false);
   const reorderPersistingRef = useRef(false);
+  // Delegates: view-only hides every write; only the owner manages access and sharing.
+  const readOnly = isReadOnlyBinder(binderId);
+  const isOwner = isBinderOwner(binderId);
 
   const { state: authState } = useAuthContext();
   const { masterConversationKey } = useCryptoContext();
@@ -102,11 +119,11 @@ export function BinderDirectory({ binderId, dirPath, title }: BinderDirectoryPro
 
   // Run one-time migration on binder root open
   useEffect(() => {
-    if (dirPath !== '' || !binderService) return;
+    if (dirPath !== '' || !binderService || readOnly) return;
     binderService.migrateContextualAdd().catch((err) => {
       console.warn('contextualAdd migration failed:', err);
     });
-  }, [binderService, dirPath]);
+  }, [binderService, dirPath, readOnly]);
 
   useEffect(() => {
     const unsubscribe = subscribeDirectoryChanged((event) => {
@@ -147,6 +164,76 @@ export function BinderDirectory({ binderId, dirPath, title }: BinderDirectoryPro
     setReorderSaving(false);
   }, [binderId, dirPath]);
 
+  // --- Sync conflicts (recorded per binder, surfaced at the root) ---
+  const [conflictCount, setConflictCount] = useState(0);
+
+  const refreshConflictCount = useCallback(async () => {
+    if (dirPath !== '' || !binderService) return;
+    try {
+      setConflictCount((await binderService.listConflicts()).length);
+    } catch (err) {
+      console.warn('Failed to read sync conflicts:', err);
+    }
+  }, [binderService, dirPath]);
+
+  useFocusEffect(
+    useCallback(() => {
+      refreshConflictCount();
+    }, [refreshConflictCount]),
+  );
+
+  // Pull on binder open so edits from other devices show up here.
+  useEffect(() => {
+    if (dirPath !== '' || !binderService) return;
+    binderService.pull()
+      .then(() => {
+        refresh();
+        return refreshConflictCount();
+      })
+      .catch((err) => {
+        console.warn('Pull on binder open failed:', err);
+      });
+  }, [binderService, dirPath]);
+
+  const handleOpenConflicts = useCallback(() => {
+    router.push({
+      pathname: '/(tabs)/(binders)/binder/[binderId]/conflicts',
+      params: { binderId },
+    });
+  }, [router, binderId]);
+
+  // --- Entries a doctor added during a share, waiting for review ---
+  const [incomingShareCount, setIncomingShareCount] = useState(0);
+
+  const refreshIncomingCount = useCallback(async () => {
+    if (dirPath !== '') return;
+    try {
+      setIncomingShareCount((await listIncomingShares(binderId)).length);
+    } catch (err) {
+      console.warn('Failed to read incoming provider entries:', err);
+    }
+  }, [binderId, dirPath]);
+
+  useFocusEffect(
+    useCallback(() => {
+      refreshIncomingCount();
+    }, [refreshIncomingCount]),
+  );
+
+  const handleOpenIncoming = useCallback(() => {
+    router.push({
+      pathname: '/(tabs)/(binders)/binder/[binderId]/incoming',
+      params: { binderId },
+    });
+  }, [router, binderId]);
+
+  const handleOpenAccess = useCallback(() => {
+    router.push({
+      pathname: '/(tabs)/(binders)/binder/[binderId]/access',
+      params: { binderId },
+    });
+  }, [router, binderId]);
+
   // --- Share ---
   const binderRepoDir = `binders/${binderId}`;
   const { state: shareState, startShare, retryPush, cancel: cancelShare } = useShareSession(
@@ -154,6 +241,19 @@ export function BinderDirectory({ binderId, dirPath, title }: BinderDirectoryPro
     masterConversationKey,
     jwt,
   );
+  const [showShareOptions, setShowShareOptions] = useState(false);
+  const lastShareOptionsRef = useRef<ShareOptions>({});
+
+  const handleEndShare = useCallback(async () => {
+    await cancelShare();
+    refreshIncomingCount();
+  }, [cancelShare, refreshIncomingCount]);
+
+  const handleConfirmShare = useCallback((options: ShareOptions) => {
+    setShowShareOptions(false);
+    lastShareOptionsRef.current = options;
+    startShare(options);
+  }, [startShare]);
 
   // --- Navigation ---
   const handleNavigateFolder = useCallback(
@@ -170,6 +270,115 @@ export function BinderDirectory({ binderId, dirPath, title }: BinderDirectoryPro
     [router, binderId],
   );
 
+  const handleOpenSearch = useCallback(() => {
+    router.push({
+      pathname: '/search',
+      params: { binderId, binderName: dirPath ? undefined : title },
+    });
+  }, [router, binderId, dirPath, title]);
+
+  const handleOpenHistory = useCallback(() => {
+    router.push({
+      pathname: '/(tabs)/(binders)/binder/[binderId]/history',
+      params: { binderId, path: dirPath },
+    });
+  }, [router, binderId, dirPath]);
+
+  const handleExportFhir = useCallback(async () => {
+    if (!binderService || exporting) return;
+    setExporting(true);
+    // Plaintext export: written to the temp dir only for the share sheet, then removed.
+    const filePath = `${RNFS.TemporaryDirectoryPath}/${slugify(title)}-fhir.json`;
+    try {
+      const bundle = await exportBinderToFhir(binderService, binderId);
+      await RNFS.writeFile(filePath, JSON.stringify(bundle, null, 2), 'utf8');
+      if (!(await Sharing.isAvailableAsync())) {
+        throw new Error('Sharing is unavailable on this device.');
+      }
+      await Sharing.shareAsync(`file://${filePath}`, {
+        dialogTitle: `${title} (FHIR)`,
+        UTI: 'public.json',
+        mimeType: FHIR_JSON_MIME_TYPE,
+      });
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Unable to export this binder.';
+      Alert.alert('Export Failed', message);
+    } finally {
+      RNFS.unlink(filePath).catch(() => undefined);
+      setExporting(false);
+    }
+  }, [binderService, binderId, title, exporting]);
+
+  const handleExportSummary = useCallback(async (folders: string[]) => {
+    setShowSummaryOptions(false);
+    if (!binderService || exporting) return;
+    setExporting(true);
+    // Plaintext export, like FHIR: lives in the temp dir only while the share sheet is open.
+    let fileUri: string | null = null;
+    try {
+      fileUri = await exportBinderSummaryPdf(binderService, { title, folders });
+      if (!(await Sharing.isAvailableAsync())) {
+        throw new Error('Sharing is unavailable on this device.');
+      }
+      await Sharing.shareAsync(fileUri, {
+        dialogTitle: `${title} (PDF)`,
+        UTI: 'com.adobe.pdf',
+        mimeType: 'application/pdf',
+      });
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Unable to export this binder.';
+      Alert.alert('Export Failed', message);
+    } finally {
+      if (fileUri) RNFS.unlink(fileUri.replace(/^file:\/\//, '')).catch(() => undefined);
+      setExporting(false);
+    }
+  }, [binderService, title, exporting]);
+
+  const handleExport = useCallback(() => {
+    Alert.alert('Export Binder', undefined, [
+      { text: 'PDF Summary', onPress: () => setShowSummaryOptions(true) },
+      { text: 'FHIR (JSON)', onPress: handleExportFhir },
+      { text: 'Cancel', style: 'cancel' },
+    ]);
+  }, [handleExportFhir]);
+
+  const handleImportRecords = useCallback(async () => {
+    if (!binderService || importing) return;
+    const picked = await DocumentPicker.getDocumentAsync({
+      type: ['application/json', 'application/fhir+json', 'application/xml', 'text/xml'],
+      copyToCacheDirectory: true,
+    });
+    if (picked.canceled || !picked.assets[0]) return;
+
+    setImporting(true);
+    const filePath = decodeURI(picked.assets[0].uri.replace(/^file:\/\//, ''));
+    try {
+      const text = await RNFS.readFile(filePath, 'utf8');
+      const records = parseHealthRecordFile(text);
+      if (records.length === 0) {
+        Alert.alert('Nothing to Import', 'No medications, results, visits, or other records were found in this file.');
+        return;
+      }
+      const summary = await importRecordsIntoBinder(binderService, records, { binderId });
+      refresh();
+
+      const lines = [`Imported ${summary.imported} record${summary.imported === 1 ? '' : 's'}.`];
+      if (summary.skipped > 0) lines.push(`${summary.skipped} already in this binder.`);
+      if (await getPushQueueEntry(binderId)) lines.push('Saved on this device; it will sync when the connection is back.');
+      if (summary.failed.length > 0) {
+        lines.push(`${summary.failed.length} could not be imported: ${summary.failed.map((f) => f.title).join(', ')}`);
+      }
+      Alert.alert('Import Complete', lines.join('\n'));
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Unable to import this file.';
+      Alert.alert('Import Failed', message);
+    } finally {
+      // The picker's cache copy holds plaintext records.
+      RNFS.unlink(filePath).catch(() => undefined);
+      setImporting(false);
+    }
+  }, [binderService, binderId, importing, refresh]);
+
   // --- Folder icons: from item metadata only ---
   const getFolderIcon = useCallback(
     (folder: DirFolder) => {
@@ -322,7 +531,7 @@ export function BinderDirectory({ binderId, dirPath, title }: BinderDirectoryPro
     return (
       <>
         <Stack.Screen options={{ title: 'Share with Doctor', headerRight: () => null }} />
-        <QRDisplay payload={shareState.qrPayload} pushStatus={shareState.pushStatus} onRetry={retryPush} onCancel={cancelShare} />
+        <QRDisplay payload={shareState.qrPayload} pushStatus={shareState.pushStatus} onRetry={retryPush} onCancel={handleEndShare} />
       </>
     );
   }
@@ -333,17 +542,67 @@ export function BinderDirectory({ binderId, dirPath, title }: BinderDirectoryPro
         options={{
           title,
           headerRight: () => (
-            <TouchableOpacity
-              onPress={startShare}
-              style={styles.headerButton}
-              disabled={isSharing}
-            >
-              {isSharing ? (
-                <ActivityIndicator size="small" color="#007AFF" />
-              ) : (
-                <IconShare3 size={22} color="#007AFF" strokeWidth={2} />
+            <View style={styles.headerActions}>
+              <TouchableOpacity
+                onPress={handleOpenSearch}
+                style={styles.headerButton}
+              >
+                <IconSearch size={22} color="#007AFF" strokeWidth={2} />
+              </TouchableOpacity>
+              <TouchableOpacity
+                onPress={handleOpenHistory}
+                style={styles.headerButton}
+              >
+                <IconHistory size={22} color="#007AFF" strokeWidth={2} />
+              </TouchableOpacity>
+              {dirPath === '' && (
+                <TouchableOpacity
+                  onPress={handleExport}
+                  style={styles.headerButton}
+                  disabled={exporting}
+                >
+                  {exporting ? (
+                    <ActivityIndicator size="small" color="#007AFF" />
+                  ) : (
+                    <IconFileExport size={22} color="#007AFF" strokeWidth={2} />
+                  )}
+                </TouchableOpacity>
+              )}
+              {dirPath === '' && !readOnly && (
+                <TouchableOpacity
+                  onPress={handleImportRecords}
+                  style={styles.headerButton}
+                  disabled={importing}
+                >
+                  {importing ? (
+                    <ActivityIndicator size="small" color="#007AFF" />
+                  ) : (
+                    <IconFileImport size={22} color="#007AFF" strokeWidth={2} />
+                  )}
+                </TouchableOpacity>
               )}
-            </TouchableOpacity>
+              {dirPath === '' && isOwner && (
+                <TouchableOpacity
+                  onPress={handleOpenAccess}
+                  style={styles.headerButton}
+                >
+                  <IconUsers size={22} color="#007AFF" strokeWidth={2} />
+                </TouchableOpacity>
+              )}
+              {isOwner && (
+                <TouchableOpacity
+                  onPress={() => setShowShareOptions(true)}
+                  style={styles.headerButton}
+                  disabled={isSharing}
+                >
+                  {isSharing ? (
+                    <ActivityIndicator size="small" color="#007AFF" />
+                  ) : (
+                    <IconShare3 size={22} color="#007AFF" strokeWidth={2} />
+                  )}
+                </TouchableOpacity>
+              )}
+            </View>
           ),
         }}
       />
@@ -366,11 +625,29 @@ export function BinderDirectory({ binderId, dirPath, title }: BinderDirectoryPro
       {shareState.phase === 'error' && (
         <View style={styles.shareError}>
           <Text style={styles.shareErrorText}>{shareState.error}</Text>
-          <TouchableOpacity onPress={startShare}>
+          <TouchableOpacity onPress={() => startShare(lastShareOptionsRef.current)}>
             <Text style={styles.shareRetryText}>Retry</Text>
           </TouchableOpacity>
         </View>
       )}
+      {conflictCount > 0 && (
+        <TouchableOpacity style={styles.conflictBanner} onPress={handleOpenConflicts}>
+          <Text style={styles.conflictBannerText}>
+            {conflictCount === 1
+              ? '1 entry was changed on another device at the same time.'
+              : `${conflictCount} entries were changed on another device at the same time.`}
+          </Text>
+          <Text style={styles.conflictBannerAction}>Resolve</Text>
+        </TouchableOpacity>
+      )}
+      {incomingShareCount > 0 && (
+        <TouchableOpacity style={styles.incomingBanner} onPress={handleOpenIncoming}>
+          <Text style={styles.incomingBannerText}>
+            Your provider added entries to this binder. They are not saved until you accept them.
+          </Text>
+          <Text style={styles.conflictBannerAction}>Review</Text>
+        </TouchableOpacity>
+      )}
       {reorderSaving && (
         <View style={styles.reorderProgress}>
           <ActivityIndicator size="small" color="#007AFF" />
@@ -388,17 +665,17 @@ export function BinderDirectory({ binderId, dirPath, title }: BinderDirectoryPro
           onOpenEntry={handleOpenEntry}
           onRefresh={refresh}
           getFolderIcon={getFolderIcon}
-          onAddSubfolder={() => setShowInlineAddFolder((prev) => !prev)}
+          onAddSubfolder={readOnly ? undefined : () => setShowInlineAddFolder((prev) => !prev)}
           addSubfolderLabel="Add a new folder..."
-          addSubfolderComposer={showInlineAddFolder ? (
+          addSubfolderComposer={showInlineAddFolder && !readOnly ? (
             <InlineFolderComposer
               saving={creatingFolder}
               onSave={handleAddFolder}
             />
           ) : undefined}
-          onDeleteItem={handleDeleteItem}
-          onEditFolder={handleStartEditFolder}
-          onReorder={handleReorderItems}
+          onDeleteItem={readOnly ? undefined : handleDeleteItem}
+          onEditFolder={readOnly ? undefined : handleStartEditFolder}
+          onReorder={readOnly ? undefined : handleReorderItems}
           reorderBusy={reorderSaving}
         />
       </View>
@@ -423,6 +700,19 @@ export function BinderDirectory({ binderId, dirPath, title }: BinderDirectoryPro
         onConfirm={handleEditFolder}
         onCancel={closeEditFolder}
       />
+      <ShareOptionsModal
+        visible={showShareOptions}
+        dirPath={dirPath}
+        items={items}
+        onConfirm={handleConfirmShare}
+        onCancel={() => setShowShareOptions(false)}
+      />
+      <SummaryExportModal
+        visible={showSummaryOptions}
+        items={items}
+        onConfirm={handleExportSummary}
+        onCancel={() => setShowSummaryOptions(false)}
+      />
       <DebugOverlay
         sourceInfo={{
           kind: 'mixed',
@@ -449,6 +739,10 @@ export function BinderDirectory({ binderId, dirPath, title }: BinderDirectoryPro
 }
 
 const styles = StyleSheet.create({
+  headerActions: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
   headerButton: {
     paddingHorizontal: 8,
     paddingVertical: 6,
@@ -477,6 +771,37 @@ const styles = StyleSheet.create({
     paddingVertical: 10,
     backgroundColor: '#FFF0F0',
   },
+  conflictBanner: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+    backgroundColor: '#FFF7E6',
+  },
+  conflictBannerText: {
+    fontSize: 13,
+    color: '#92400E',
+    flex: 1,
+  },
+  incomingBanner: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+    backgroundColor: '#EBF5FF',
+  },
+  incomingBannerText: {
+    fontSize: 13,
+    color: '#1E3A8A',
+    flex: 1,
+  },
+  conflictBannerAction: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#007AFF',
+  },
   reorderProgress: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -23,6 +23,7 @@ export function EntryCard({
   const title = preview?.title ?? item.name.replace('.json', '');
   const medicationName = preview?.medicationName ?? title;
   const isMedicationSummary = !!preview?.medicationName;
+  const isStoppedMedication = preview?.medicationStatus === 'stopped';
   const dateStr = preview?.created
     ? formatDate(preview.created)
     : extractDateFromFilename(item.name);
@@ -66,9 +67,14 @@ export function EntryCard({
         testID={`entry-card-${item.name}`}
       >
         <View style={styles.header}>
-          <Text style={styles.title} numberOfLines={1}>
+          <Text style={[styles.title, isStoppedMedication && styles.titleStopped]} numberOfLines={1}>
             {isMedicationSummary ? medicationName : title}
           </Text>
+          {isStoppedMedication ? (
+            <View style={styles.stoppedPill}>
+              <Text style={styles.stoppedPillText}>Stopped</Text>
+            </View>
+          ) : null}
           {preview?.hasChildren && (
             <View style={styles.attachmentBadge}>
               <Text style={styles.attachmentIcon}>📎</Text>
@@ -223,6 +229,21 @@ const styles = StyleSheet.create({
     color: '#1F2D3D',
     flex: 1,
   },
+  titleStopped: {
+    color: '#7a8796',
+  },
+  stoppedPill: {
+    marginLeft: 6,
+    backgroundColor: '#eef1f4',
+    borderRadius: 6,
+    paddingHorizontal: 7,
+    paddingVertical: 2,
+  },
+  stoppedPillText: {
+    fontSize: 11,
+    color: '#5b6b7d',
+    fontWeight: '600',
+  },
   attachmentBadge: {
     marginLeft: 6,
   },
@@ -0,0 +1,321 @@
+// components/binder/ShareOptionsModal.tsx
+// Chooses what a share-with-doctor session exposes before anything is
+// re-keyed: items from the current folder (default: all of it), an optional
+// created-date range, and how long the session stays open.
+
+import React, { useEffect, useMemo, useState } from 'react';
+import {
+  Modal,
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  ScrollView,
+  StyleSheet,
+  KeyboardAvoidingView,
+  Platform,
+} from 'react-native';
+import type { DirItem } from '../../core/binder/DirectoryReader';
+import {
+  DEFAULT_SHARE_EXPIRY_MINUTES,
+  SHARE_EXPIRY_OPTIONS,
+  describeShareScope,
+  validateShareScope,
+  type ShareScope,
+} from '../../core/scan/ShareScope';
+import type { ShareOptions } from '../../hooks/useShareSession';
+
+interface ShareOptionsModalProps {
+  visible: boolean;
+  /** Folder the share starts from ('' = binder root). */
+  dirPath: string;
+  items: DirItem[];
+  onConfirm: (options: ShareOptions) => void;
+  onCancel: () => void;
+}
+
+function itemLabel(item: DirItem): string {
+  if (item.kind === 'folder') {
+    return `${item.meta?.icon ?? '📁'}  ${item.meta?.displayName ?? formatFolderName(item.name)}`;
+  }
+  return item.preview?.title || item.name.replace(/\.json$/, '');
+}
+
+export function ShareOptionsModal({ visible, dirPath, items, onConfirm, onCancel }: ShareOptionsModalProps) {
+  const [selected, setSelected] = useState<string[]>([]);
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+  const [expiresInMinutes, setExpiresInMinutes] = useState(DEFAULT_SHARE_EXPIRY_MINUTES);
+
+  useEffect(() => {
+    if (!visible) return;
+    setSelected([]);
+    setFrom('');
+    setTo('');
+    setExpiresInMinutes(DEFAULT_SHARE_EXPIRY_MINUTES);
+  }, [visible]);
+
+  const scope = useMemo<ShareScope>(() => ({
+    paths: selected.length > 0 ? selected : dirPath ? [dirPath] : [],
+    ...(from.trim() ? { from: from.trim() } : {}),
+    ...(to.trim() ? { to: to.trim() } : {}),
+  }), [selected, dirPath, from, to]);
+
+  const validationError = validateShareScope(scope);
+
+  const toggle = (path: string) => {
+    setSelected((prev) => (prev.includes(path) ? prev.filter((p) => p !== path) : [...prev, path]));
+  };
+
+  const handleConfirm = () => {
+    if (validationError) return;
+    onConfirm({ scope, expiresInMinutes });
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      presentationStyle="formSheet"
+      onRequestClose={onCancel}
+    >
+      <KeyboardAvoidingView
+        behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+        style={styles.container}
+      >
+        <View style={styles.header}>
+          <TouchableOpacity style={styles.headerSide} onPress={onCancel} activeOpacity={0.7}>
+            <Text style={styles.cancelText}>Cancel</Text>
+          </TouchableOpacity>
+          <Text style={styles.title}>Share with Doctor</Text>
+          <TouchableOpacity
+            style={[styles.headerSide, styles.doneButton, !!validationError && styles.doneButtonDisabled]}
+            onPress={handleConfirm}
+            disabled={!!validationError}
+            activeOpacity={0.8}
+          >
+            <Text style={[styles.doneText, !!validationError && styles.doneTextDisabled]}>Share</Text>
+          </TouchableOpacity>
+        </View>
+
+        <ScrollView
+          style={styles.body}
+          contentContainerStyle={styles.bodyContent}
+          keyboardShouldPersistTaps="handled"
+        >
+          <Text style={styles.summary}>{describeShareScope(scope)}</Text>
+
+          <Text style={styles.sectionLabel}>What to share</Text>
+          <View style={styles.sectionCard}>
+            <TouchableOpacity style={styles.optionRow} onPress={() => setSelected([])} activeOpacity={0.7}>
+              <Text style={styles.optionText}>{dirPath ? 'Everything in this folder' : 'Entire binder'}</Text>
+              {selected.length === 0 && <Text style={styles.checkmark}>✓</Text>}
+            </TouchableOpacity>
+            {items.map((item) => (
+              <TouchableOpacity
+                key={item.relativePath}
+                style={styles.optionRow}
+                onPress={() => toggle(item.relativePath)}
+                activeOpacity={0.7}
+              >
+                <Text style={styles.optionText} numberOfLines={1}>{itemLabel(item)}</Text>
+                {selected.includes(item.relativePath) && <Text style={styles.checkmark}>✓</Text>}
+              </TouchableOpacity>
+            ))}
+          </View>
+
+          <Text style={styles.sectionLabel}>Created between (optional)</Text>
+          <View style={[styles.sectionCard, styles.dateRow]}>
+            <TextInput
+              style={styles.dateInput}
+              value={from}
+              onChangeText={setFrom}
+              placeholder="From YYYY-MM-DD"
+              placeholderTextColor="#9BA4B3"
+              autoCapitalize="none"
+              autoCorrect={false}
+            />
+            <TextInput
+              style={styles.dateInput}
+              value={to}
+              onChangeText={setTo}
+              placeholder="To YYYY-MM-DD"
+              placeholderTextColor="#9BA4B3"
+              autoCapitalize="none"
+              autoCorrect={false}
+            />
+          </View>
+          {validationError && <Text style={styles.errorText}>{validationError}</Text>}
+
+          <Text style={styles.sectionLabel}>Access expires after</Text>
+          <View style={[styles.sectionCard, styles.expiryRow]}>
+            {SHARE_EXPIRY_OPTIONS.map((option) => (
+              <TouchableOpacity
+                key={option.minutes}
+                style={[styles.expiryChip, expiresInMinutes === option.minutes && styles.expiryChipSelected]}
+                onPress={() => setExpiresInMinutes(option.minutes)}
+                activeOpacity={0.8}
+              >
+                <Text
+                  style={[styles.expiryText, expiresInMinutes === option.minutes && styles.expiryTextSelected]}
+                >
+                  {option.label}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+        </ScrollView>
+      </KeyboardAvoidingView>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#EEF1F5',
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 14,
+    paddingVertical: 12,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+    borderBottomColor: 'rgba(42, 56, 78, 0.16)',
+    backgroundColor: 'rgba(255, 255, 255, 0.8)',
+  },
+  headerSide: {
+    minWidth: 76,
+    paddingVertical: 4,
+  },
+  cancelText: {
+    fontSize: 17,
+    color: '#5D6674',
+    fontWeight: '500',
+  },
+  title: {
+    fontSize: 21,
+    fontWeight: '700',
+    color: '#1F2D3D',
+  },
+  doneButton: {
+    alignItems: 'center',
+    borderRadius: 11,
+    borderWidth: StyleSheet.hairlineWidth,
+    borderColor: 'rgba(0, 122, 255, 0.42)',
+    backgroundColor: 'rgba(229, 240, 255, 0.7)',
+  },
+  doneButtonDisabled: {
+    borderColor: 'rgba(141, 149, 163, 0.28)',
+    backgroundColor: 'rgba(141, 149, 163, 0.14)',
+  },
+  doneText: {
+    fontSize: 16,
+    fontWeight: '700',
+    color: '#006FEC',
+  },
+  doneTextDisabled: {
+    color: '#9BA4B3',
+  },
+  body: {
+    flex: 1,
+    paddingHorizontal: 16,
+  },
+  bodyContent: {
+    paddingTop: 14,
+    paddingBottom: 28,
+  },
+  summary: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#1D2B3A',
+  },
+  sectionLabel: {
+    fontSize: 12,
+    fontWeight: '700',
+    color: '#707B89',
+    textTransform: 'uppercase',
+    letterSpacing: 0.75,
+    marginTop: 16,
+    marginBottom: 8,
+  },
+  sectionCard: {
+    backgroundColor: 'rgba(255, 255, 255, 0.82)',
+    borderRadius: 14,
+    borderWidth: StyleSheet.hairlineWidth,
+    borderColor: 'rgba(42, 56, 78, 0.14)',
+    padding: 10,
+  },
+  optionRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingVertical: 10,
+    paddingHorizontal: 4,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+    borderBottomColor: 'rgba(42, 56, 78, 0.1)',
+  },
+  optionText: {
+    flex: 1,
+    fontSize: 16,
+    color: '#1D2B3A',
+  },
+  checkmark: {
+    fontSize: 16,
+    fontWeight: '700',
+    color: '#006FEC',
+    marginLeft: 8,
+  },
+  dateRow: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  dateInput: {
+    flex: 1,
+    fontSize: 15,
+    color: '#1D2B3A',
+    backgroundColor: 'rgba(243, 246, 250, 0.9)',
+    borderRadius: 10,
+    borderWidth: StyleSheet.hairlineWidth,
+    borderColor: 'rgba(42, 56, 78, 0.14)',
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+  },
+  errorText: {
+    fontSize: 13,
+    color: '#c00',
+    marginTop: 6,
+  },
+  expiryRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  expiryChip: {
+    borderRadius: 16,
+    borderWidth: StyleSheet.hairlineWidth,
+    borderColor: 'rgba(42, 56, 78, 0.2)',
+    paddingVertical: 7,
+    paddingHorizontal: 14,
+  },
+  expiryChipSelected: {
+    borderColor: 'rgba(0, 122, 255, 0.42)',
+    backgroundColor: 'rgba(229, 240, 255, 0.9)',
+  },
+  expiryText: {
+    fontSize: 14,
+    color: '#5D6674',
+  },
+  expiryTextSelected: {
+    color: '#006FEC',
+    fontWeight: '600',
+  },
+});
+
+function formatFolderName(slug: string): string {
+  return slug
+    .split('-')
+    .map((w) => w.charAt(0).toUpperCase() + w.slice(1))
+    .join(' ');
+}
@@ -0,0 +1,197 @@
+// components/binder/SummaryExportModal.tsx
+// Picks which folders go into the printable PDF summary (default: the whole
+// binder). The cover page always comes from patient-info.json.
+
+import React, { useEffect, useState } from 'react';
+import {
+  Modal,
+  View,
+  Text,
+  TouchableOpacity,
+  ScrollView,
+  StyleSheet,
+} from 'react-native';
+import type { DirFolder, DirItem } from '../../core/binder/DirectoryReader';
+
+interface SummaryExportModalProps {
+  visible: boolean;
+  /** Items at the binder root; only folders are offered. */
+  items: DirItem[];
+  onConfirm: (folders: string[]) => void;
+  onCancel: () => void;
+}
+
+function folderLabel(folder: DirFolder): string {
+  return `${folder.meta?.icon ?? '📁'}  ${folder.meta?.displayName ?? formatFolderName(folder.name)}`;
+}
+
+export function SummaryExportModal({ visible, items, onConfirm, onCancel }: SummaryExportModalProps) {
+  const [selected, setSelected] = useState<string[]>([]);
+  const folders = items.filter((item): item is DirFolder => item.kind === 'folder');
+
+  useEffect(() => {
+    if (visible) setSelected([]);
+  }, [visible]);
+
+  const toggle = (path: string) => {
+    setSelected((prev) => (prev.includes(path) ? prev.filter((p) => p !== path) : [...prev, path]));
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      presentationStyle="formSheet"
+      onRequestClose={onCancel}
+    >
+      <View style={styles.container}>
+        <View style={styles.header}>
+          <TouchableOpacity style={styles.headerSide} onPress={onCancel} activeOpacity={0.7}>
+            <Text style={styles.cancelText}>Cancel</Text>
+          </TouchableOpacity>
+          <Text style={styles.title}>PDF Summary</Text>
+          <TouchableOpacity
+            style={[styles.headerSide, styles.doneButton]}
+            onPress={() => onConfirm(selected)}
+            activeOpacity={0.8}
+          >
+            <Text style={styles.doneText}>Export</Text>
+          </TouchableOpacity>
+        </View>
+
+        <ScrollView style={styles.body} contentContainerStyle={styles.bodyContent}>
+          <Text style={styles.summary}>
+            A printable summary for a new doctor or an ER visit: medications, allergies, conditions, recent visits
+            and photos.
+          </Text>
+
+          <Text style={styles.sectionLabel}>Folders to include</Text>
+          <View style={styles.sectionCard}>
+            <TouchableOpacity style={styles.optionRow} onPress={() => setSelected([])} activeOpacity={0.7}>
+              <Text style={styles.optionText}>Entire binder</Text>
+              {selected.length === 0 && <Text style={styles.checkmark}>✓</Text>}
+            </TouchableOpacity>
+            {folders.map((folder) => (
+              <TouchableOpacity
+                key={folder.relativePath}
+                style={styles.optionRow}
+                onPress={() => toggle(folder.relativePath)}
+                activeOpacity={0.7}
+              >
+                <Text style={styles.optionText} numberOfLines={1}>{folderLabel(folder)}</Text>
+                {selected.includes(folder.relativePath) && <Text style={styles.checkmark}>✓</Text>}
+              </TouchableOpacity>
+            ))}
+          </View>
+          <Text style={styles.hintText}>
+            The PDF is not encrypted. It is removed from this device after you share or save it.
+          </Text>
+        </ScrollView>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#EEF1F5',
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 14,
+    paddingVertical: 12,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+    borderBottomColor: 'rgba(42, 56, 78, 0.16)',
+    backgroundColor: 'rgba(255, 255, 255, 0.8)',
+  },
+  headerSide: {
+    minWidth: 76,
+    paddingVertical: 4,
+  },
+  cancelText: {
+    fontSize: 17,
+    color: '#5D6674',
+    fontWeight: '500',
+  },
+  title: {
+    fontSize: 21,
+    fontWeight: '700',
+    color: '#1F2D3D',
+  },
+  doneButton: {
+    alignItems: 'center',
+    borderRadius: 11,
+    borderWidth: StyleSheet.hairlineWidth,
+    borderColor: 'rgba(0, 122, 255, 0.42)',
+    backgroundColor: 'rgba(229, 240, 255, 0.7)',
+  },
+  doneText: {
+    fontSize: 16,
+    fontWeight: '700',
+    color: '#006FEC',
+  },
+  body: {
+    flex: 1,
+    paddingHorizontal: 16,
+  },
+  bodyContent: {
+    paddingTop: 14,
+    paddingBottom: 28,
+  },
+  summary: {
+    fontSize: 15,
+    color: '#1D2B3A',
+    lineHeight: 21,
+  },
+  sectionLabel: {
+    fontSize: 12,
+    fontWeight: '700',
+    color: '#707B89',
+    textTransform: 'uppercase',
+    letterSpacing: 0.75,
+    marginTop: 16,
+    marginBottom: 8,
+  },
+  sectionCard: {
+    backgroundColor: 'rgba(255, 255, 255, 0.82)',
+    borderRadius: 14,
+    borderWidth: StyleSheet.hairlineWidth,
+    borderColor: 'rgba(42, 56, 78, 0.14)',
+    padding: 10,
+  },
+  optionRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingVertical: 10,
+    paddingHorizontal: 4,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+    borderBottomColor: 'rgba(42, 56, 78, 0.1)',
+  },
+  optionText: {
+    flex: 1,
+    fontSize: 16,
+    color: '#1D2B3A',
+  },
+  checkmark: {
+    fontSize: 16,
+    fontWeight: '700',
+    color: '#006FEC',
+    marginLeft: 8,
+  },
+  hintText: {
+    fontSize: 13,
+    color: '#707B89',
+    marginTop: 10,
+  },
+});
+
+function formatFolderName(slug: string): string {
+  return slug
+    .split('-')
+    .map((w) => w.charAt(0).toUpperCase() + w.slice(1))
+    .join(' ');
+}
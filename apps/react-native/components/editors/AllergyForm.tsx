@@ -0,0 +1,131 @@
+// components/editors/AllergyForm.tsx
+// Full-screen allergy creation/editing form (allergen, reaction, severity).
+// Produces a complete MedicalDocument — callers just persist it.
+
+import React, { useMemo, useState } from 'react';
+import { Alert, Text, View } from 'react-native';
+import type { EditorProps } from '../registry/componentRegistry';
+import { ChipPicker, FormField, StructuredFormShell } from './StructuredFields';
+import {
+  ALLERGY_SEVERITIES,
+  buildAllergyMarkdown,
+  parseAllergyEntry,
+} from '../../core/markdown/allergyEntry';
+import { createThemedStyles, useThemedStyles } from '../../theme';
+
+export function AllergyForm({
+  mode,
+  doc,
+  dirPath,
+  categoryType,
+  onSave,
+  onCancel,
+}: EditorProps) {
+  const styles = useThemedStyles(createStyles);
+  const initialFields = useMemo(() => {
+    if (mode !== 'edit' || !doc) return null;
+    return parseAllergyEntry(doc.value).fields;
+  }, [mode, doc]);
+
+  const [allergen, setAllergen] = useState(() => initialFields?.allergen ?? '');
+  const [reaction, setReaction] = useState(() => initialFields?.reaction ?? '');
+  const [severity, setSeverity] = useState(() => initialFields?.severity ?? '');
+  const [notes, setNotes] = useState(() => initialFields?.notes ?? '');
+  const [saving, setSaving] = useState(false);
+
+  const canSave = allergen.trim().length > 0;
+
+  const handleSave = async () => {
+    if (!canSave) {
+      Alert.alert('Missing Fields', 'Please enter the allergen.');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const timestamp = new Date().toISOString();
+      const markdown = buildAllergyMarkdown({
+        allergen: allergen.trim(),
+        reaction: reaction.trim(),
+        severity: severity.trim(),
+        status: initialFields?.status,
+        notes: notes.trim() || undefined,
+      });
+
+      await onSave({
+        value: markdown,
+        metadata: {
+          ...(doc?.metadata ?? {}),
+          type: categoryType || 'allergy',
+          created: doc?.metadata?.created ?? timestamp,
+          updated: timestamp,
+          tags: categoryType ? [categoryType] : [],
+        },
+        children: doc?.children ?? [],
+        renderer: 'AllergySummary',
+        editor: 'AllergyForm',
+      }, []);
+    } catch (error) {
+      console.error('Allergy save failed:', error);
+      Alert.alert('Save Failed', 'Could not save allergy. Please try again.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <StructuredFormShell
+      heading={mode === 'edit' ? 'Edit Allergy' : 'Add Allergy'}
+      dirPath={dirPath}
+      discardTitle="Discard Allergy?"
+      canSave={canSave}
+      saving={saving}
+      onSave={handleSave}
+      onCancel={onCancel}
+      testIDPrefix="allergy"
+    >
+      <FormField
+        label="Allergen"
+        value={allergen}
+        onChangeText={setAllergen}
+        placeholder="Penicillin"
+        autoCapitalize="words"
+        testID="allergy-allergen-input"
+      />
+      <FormField
+        label="Reaction"
+        value={reaction}
+        onChangeText={setReaction}
+        placeholder="Hives, swelling"
+        testID="allergy-reaction-input"
+      />
+      <View style={styles.fieldGroup}>
+        <Text style={styles.label}>Severity</Text>
+        <ChipPicker
+          options={ALLERGY_SEVERITIES}
+          value={severity}
+          onChange={(value) => setSeverity(value ?? '')}
+        />
+      </View>
+      <FormField
+        label="Notes (Optional)"
+        value={notes}
+        onChangeText={setNotes}
+        multiline
+      />
+    </StructuredFormShell>
+  );
+}
+
+const createStyles = createThemedStyles((theme) => ({
+  fieldGroup: {
+    marginBottom: 18,
+  },
+  label: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: theme.colors.textSecondary,
+    marginBottom: 8,
+    textTransform: 'uppercase',
+  },
+}));
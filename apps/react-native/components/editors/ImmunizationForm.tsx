@@ -0,0 +1,132 @@
+// components/editors/ImmunizationForm.tsx
+// Full-screen immunization creation/editing form (vaccine, date, dose, lot).
+// Produces a complete MedicalDocument — callers just persist it.
+
+import React, { useMemo, useState } from 'react';
+import { Alert } from 'react-native';
+import type { EditorProps } from '../registry/componentRegistry';
+import { FormField, StructuredFormShell } from './StructuredFields';
+import {
+  buildImmunizationMarkdown,
+  parseImmunizationEntry,
+} from '../../core/markdown/immunizationEntry';
+
+export function ImmunizationForm({
+  mode,
+  doc,
+  dirPath,
+  categoryType,
+  onSave,
+  onCancel,
+}: EditorProps) {
+  const initialFields = useMemo(() => {
+    if (mode !== 'edit' || !doc) return null;
+    return parseImmunizationEntry(doc.value).fields;
+  }, [mode, doc]);
+
+  const [vaccine, setVaccine] = useState(() => initialFields?.vaccine ?? '');
+  const [date, setDate] = useState(() => initialFields?.date ?? new Date().toISOString().slice(0, 10));
+  const [doseNumber, setDoseNumber] = useState(() => initialFields?.doseNumber ?? '');
+  const [dose, setDose] = useState(() => initialFields?.dose ?? '');
+  const [lot, setLot] = useState(() => initialFields?.lot ?? '');
+  const [notes, setNotes] = useState(() => initialFields?.notes ?? '');
+  const [saving, setSaving] = useState(false);
+
+  const canSave = vaccine.trim().length > 0 && date.trim().length > 0;
+
+  const handleSave = async () => {
+    if (!canSave) {
+      Alert.alert('Missing Fields', 'Please enter the vaccine and the date given.');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const timestamp = new Date().toISOString();
+      const markdown = buildImmunizationMarkdown({
+        vaccine: vaccine.trim(),
+        date: date.trim(),
+        doseNumber: doseNumber.trim() || undefined,
+        dose: dose.trim() || undefined,
+        lot: lot.trim() || undefined,
+        notes: notes.trim() || undefined,
+      });
+
+      await onSave({
+        value: markdown,
+        metadata: {
+          ...(doc?.metadata ?? {}),
+          type: categoryType || 'immunization',
+          created: doc?.metadata?.created ?? timestamp,
+          updated: timestamp,
+          tags: categoryType ? [categoryType] : [],
+        },
+        children: doc?.children ?? [],
+        renderer: 'ImmunizationSummary',
+        editor: 'ImmunizationForm',
+      }, []);
+    } catch (error) {
+      console.error('Immunization save failed:', error);
+      Alert.alert('Save Failed', 'Could not save immunization. Please try again.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <StructuredFormShell
+      heading={mode === 'edit' ? 'Edit Immunization' : 'Add Immunization'}
+      dirPath={dirPath}
+      discardTitle="Discard Immunization?"
+      canSave={canSave}
+      saving={saving}
+      onSave={handleSave}
+      onCancel={onCancel}
+      testIDPrefix="immunization"
+    >
+      <FormField
+        label="Vaccine"
+        value={vaccine}
+        onChangeText={setVaccine}
+        placeholder="Tdap"
+        autoCapitalize="words"
+        testID="immunization-vaccine-input"
+      />
+      <FormField
+        label="Date Given"
+        value={date}
+        onChangeText={setDate}
+        placeholder="YYYY-MM-DD"
+        keyboardType="numbers-and-punctuation"
+        autoCapitalize="none"
+        testID="immunization-date-input"
+      />
+      <FormField
+        label="Dose Number (Optional)"
+        value={doseNumber}
+        onChangeText={setDoseNumber}
+        placeholder="1"
+        keyboardType="number-pad"
+      />
+      <FormField
+        label="Dose (Optional)"
+        value={dose}
+        onChangeText={setDose}
+        placeholder="0.5 mL"
+        autoCapitalize="none"
+      />
+      <FormField
+        label="Lot Number (Optional)"
+        value={lot}
+        onChangeText={setLot}
+        autoCapitalize="none"
+      />
+      <FormField
+        label="Notes (Optional)"
+        value={notes}
+        onChangeText={setNotes}
+        multiline
+      />
+    </StructuredFormShell>
+  );
+}
@@ -0,0 +1,117 @@
+// components/editors/LabResultForm.tsx
+// Full-screen lab result creation/editing form: one row per analyte with
+// value, unit, reference range and an optional flag.
+// Produces a complete MedicalDocument — callers just persist it.
+
+import React, { useMemo, useState } from 'react';
+import { Alert } from 'react-native';
+import type { EditorProps } from '../registry/componentRegistry';
+import {
+  emptyLabResultRow,
+  FormField,
+  LabResultRowsEditor,
+  StructuredFormShell,
+} from './StructuredFields';
+import {
+  buildLabResultMarkdown,
+  parseLabResultEntry,
+} from '../../core/markdown/labResultEntry';
+
+export function LabResultForm({
+  mode,
+  doc,
+  dirPath,
+  categoryType,
+  onSave,
+  onCancel,
+}: EditorProps) {
+  const initialFields = useMemo(() => {
+    if (mode !== 'edit' || !doc) return null;
+    return parseLabResultEntry(doc.value).fields;
+  }, [mode, doc]);
+
+  const [title, setTitle] = useState(
+    () => initialFields?.title ?? `Lab Result — ${new Date().toISOString().slice(0, 10)}`,
+  );
+  const [lab, setLab] = useState(() => initialFields?.lab ?? '');
+  const [rows, setRows] = useState(() => (
+    initialFields?.results.length ? initialFields.results : [emptyLabResultRow()]
+  ));
+  const [notes, setNotes] = useState(() => initialFields?.notes ?? '');
+  const [saving, setSaving] = useState(false);
+
+  const canSave = title.trim().length > 0;
+
+  const handleSave = async () => {
+    if (!canSave) {
+      Alert.alert('Missing Fields', 'Please enter a title for this result.');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const timestamp = new Date().toISOString();
+      const markdown = buildLabResultMarkdown({
+        title: title.trim(),
+        lab: lab.trim() || undefined,
+        results: rows,
+        notes: notes.trim() || undefined,
+      });
+
+      await onSave({
+        value: markdown,
+        metadata: {
+          ...(doc?.metadata ?? {}),
+          type: categoryType || 'lab',
+          created: doc?.metadata?.created ?? timestamp,
+          updated: timestamp,
+          tags: categoryType ? [categoryType] : [],
+        },
+        children: doc?.children ?? [],
+        renderer: 'LabResultSummary',
+        editor: 'LabResultForm',
+      }, []);
+    } catch (error) {
+      console.error('Lab result save failed:', error);
+      Alert.alert('Save Failed', 'Could not save lab result. Please try again.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <StructuredFormShell
+      heading={mode === 'edit' ? 'Edit Lab Result' : 'Add Lab Result'}
+      dirPath={dirPath}
+      discardTitle="Discard Lab Result?"
+      canSave={canSave}
+      saving={saving}
+      onSave={handleSave}
+      onCancel={onCancel}
+      testIDPrefix="lab-result"
+    >
+      <FormField
+        label="Title"
+        value={title}
+        onChangeText={setTitle}
+        placeholder="Basic Metabolic Panel"
+        autoCapitalize="words"
+        testID="lab-result-title-input"
+      />
+      <FormField
+        label="Lab (Optional)"
+        value={lab}
+        onChangeText={setLab}
+        placeholder="Quest Diagnostics"
+        autoCapitalize="words"
+      />
+      <LabResultRowsEditor rows={rows} onChange={setRows} />
+      <FormField
+        label="Notes (Optional)"
+        value={notes}
+        onChangeText={setNotes}
+        multiline
+      />
+    </StructuredFormShell>
+  );
+}
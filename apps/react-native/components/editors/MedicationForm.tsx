@@ -50,6 +50,7 @@ export function MedicationForm({
   const [frequency, setFrequency] = useState(() => initialFields?.frequency ?? '');
   const [startDate, setStartDate] = useState(() => initialFields?.startDate ?? '');
   const [stopDate, setStopDate] = useState(() => initialFields?.stopDate ?? '');
+  const [refillDate, setRefillDate] = useState(() => initialFields?.refillDate ?? '');
   const [saving, setSaving] = useState(false);
   const [dosageMenuOpen, setDosageMenuOpen] = useState(false);
   const [showCustomDosageInput, setShowCustomDosageInput] = useState(() => {
@@ -90,6 +91,7 @@ export function MedicationForm({
       const trimmedFrequency = frequency.trim();
       const trimmedStartDate = startDate.trim();
       const trimmedStopDate = stopDate.trim() || undefined;
+      const trimmedRefillDate = refillDate.trim() || undefined;
 
       const timestamp = new Date().toISOString();
       const markdown = buildMedicationMarkdown({
@@ -98,6 +100,7 @@ export function MedicationForm({
         frequency: trimmedFrequency,
         startDate: trimmedStartDate,
         stopDate: trimmedStopDate,
+        refillDate: trimmedRefillDate,
       });
 
       const resultDoc = {
@@ -292,10 +295,25 @@ export function MedicationForm({
             placeholderTextColor={theme.colors.inputPlaceholder}
             autoCapitalize="none"
             keyboardType="numbers-and-punctuation"
-            returnKeyType="done"
+            returnKeyType="next"
             testID="medication-stop-date-input"
           />
         </View>
+
+        <View style={styles.fieldGroup}>
+          <Text style={styles.label}>Refill Due (Optional)</Text>
+          <TextInput
+            style={styles.input}
+            value={refillDate}
+            onChangeText={setRefillDate}
+            placeholder="YYYY-MM-DD"
+            placeholderTextColor={theme.colors.inputPlaceholder}
+            autoCapitalize="none"
+            keyboardType="numbers-and-punctuation"
+            returnKeyType="done"
+            testID="medication-refill-date-input"
+          />
+        </View>
       </KeyboardAvoidingView>
     </SafeAreaView>
   );
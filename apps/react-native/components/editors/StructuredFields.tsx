@@ -0,0 +1,401 @@
+// components/editors/StructuredFields.tsx
+// Building blocks shared by the structured editors (lab, allergy,
+// immunization, visit) and their renderers' inline edit mode.
+// MedicationForm predates these and keeps its own layout.
+
+import React from 'react';
+import {
+  ActivityIndicator,
+  Alert,
+  KeyboardAvoidingView,
+  Platform,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View,
+  type KeyboardTypeOptions,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { createThemedStyles, useTheme, useThemedStyles } from '../../theme';
+import {
+  LAB_RESULT_FLAGS,
+  labResultFlagLabel,
+  type LabResultFlag,
+  type LabResultRow,
+} from '../../core/markdown/labResultEntry';
+
+// --- Form shell: Cancel / path / Save header over a scrolling body ---
+
+interface StructuredFormShellProps {
+  heading: string;
+  dirPath: string;
+  /** e.g. 'Discard Allergy?' */
+  discardTitle: string;
+  canSave: boolean;
+  saving: boolean;
+  onSave: () => void;
+  onCancel: () => void;
+  testIDPrefix: string;
+  children: React.ReactNode;
+}
+
+export function StructuredFormShell({
+  heading,
+  dirPath,
+  discardTitle,
+  canSave,
+  saving,
+  onSave,
+  onCancel,
+  testIDPrefix,
+  children,
+}: StructuredFormShellProps) {
+  const theme = useTheme();
+  const styles = useThemedStyles(createStyles);
+
+  const confirmCancel = () => {
+    Alert.alert(
+      discardTitle,
+      'Your changes will be lost.',
+      [
+        { text: 'Keep Editing', style: 'cancel' },
+        { text: 'Discard', style: 'destructive', onPress: onCancel },
+      ],
+    );
+  };
+
+  return (
+    <SafeAreaView style={styles.container} edges={['top']}>
+      <View style={styles.header}>
+        <TouchableOpacity onPress={confirmCancel} disabled={saving} testID={`${testIDPrefix}-cancel`}>
+          <Text style={styles.cancelText}>Cancel</Text>
+        </TouchableOpacity>
+        <Text style={styles.headerPath} numberOfLines={1}>
+          {dirPath}
+        </Text>
+        <TouchableOpacity onPress={onSave} disabled={saving || !canSave} testID={`${testIDPrefix}-save`}>
+          {saving ? (
+            <ActivityIndicator size="small" color={theme.colors.secondary} />
+          ) : (
+            <Text style={[styles.saveText, !canSave && styles.saveTextDisabled]}>Save</Text>
+          )}
+        </TouchableOpacity>
+      </View>
+
+      <KeyboardAvoidingView behavior={Platform.OS === 'ios' ? 'padding' : 'height'} style={styles.body}>
+        <ScrollView contentContainerStyle={styles.bodyContent} keyboardShouldPersistTaps="handled">
+          <Text style={styles.title}>{heading}</Text>
+          {children}
+        </ScrollView>
+      </KeyboardAvoidingView>
+    </SafeAreaView>
+  );
+}
+
+// --- Labeled text input ---
+
+interface FormFieldProps {
+  label: string;
+  value: string;
+  onChangeText: (value: string) => void;
+  placeholder?: string;
+  multiline?: boolean;
+  keyboardType?: KeyboardTypeOptions;
+  autoCapitalize?: 'none' | 'sentences' | 'words';
+  testID?: string;
+}
+
+export function FormField({
+  label,
+  value,
+  onChangeText,
+  placeholder,
+  multiline = false,
+  keyboardType,
+  autoCapitalize = 'sentences',
+  testID,
+}: FormFieldProps) {
+  const theme = useTheme();
+  const styles = useThemedStyles(createStyles);
+  return (
+    <View style={styles.fieldGroup}>
+      <Text style={styles.label}>{label}</Text>
+      <TextInput
+        style={[styles.input, multiline && styles.inputMultiline]}
+        value={value}
+        onChangeText={onChangeText}
+        placeholder={placeholder}
+        placeholderTextColor={theme.colors.inputPlaceholder}
+        multiline={multiline}
+        textAlignVertical={multiline ? 'top' : 'auto'}
+        keyboardType={keyboardType}
+        autoCapitalize={autoCapitalize}
+        testID={testID}
+      />
+    </View>
+  );
+}
+
+// --- Preset chips (tap the selected chip again to clear) ---
+
+interface ChipPickerProps {
+  options: readonly string[];
+  value: string | undefined;
+  onChange: (value: string | undefined) => void;
+  labelFor?: (option: string) => string;
+}
+
+export function ChipPicker({ options, value, onChange, labelFor }: ChipPickerProps) {
+  const styles = useThemedStyles(createStyles);
+  return (
+    <View style={styles.chipRow}>
+      {options.map((option) => {
+        const selected = value?.toLowerCase() === option.toLowerCase();
+        return (
+          <TouchableOpacity
+            key={option}
+            style={[styles.presetChip, selected && styles.presetChipSelected]}
+            onPress={() => onChange(selected ? undefined : option)}
+            activeOpacity={0.7}
+          >
+            <Text style={[styles.presetText, selected && styles.presetTextSelected]}>
+              {labelFor ? labelFor(option) : option}
+            </Text>
+          </TouchableOpacity>
+        );
+      })}
+    </View>
+  );
+}
+
+// --- Lab result rows ---
+
+export function emptyLabResultRow(): LabResultRow {
+  return { analyte: '', value: '' };
+}
+
+interface LabResultRowsEditorProps {
+  rows: LabResultRow[];
+  onChange: (rows: LabResultRow[]) => void;
+}
+
+export function LabResultRowsEditor({ rows, onChange }: LabResultRowsEditorProps) {
+  const theme = useTheme();
+  const styles = useThemedStyles(createStyles);
+
+  const updateRow = (index: number, patch: Partial<LabResultRow>) => {
+    onChange(rows.map((row, i) => (i === index ? { ...row, ...patch } : row)));
+  };
+
+  return (
+    <View style={styles.fieldGroup}>
+      <Text style={styles.label}>Results</Text>
+      {rows.map((row, index) => (
+        <View key={index} style={styles.rowCard}>
+          <View style={styles.rowHeader}>
+            <TextInput
+              style={[styles.input, styles.rowAnalyte]}
+              value={row.analyte}
+              onChangeText={(analyte) => updateRow(index, { analyte })}
+              placeholder="Analyte (e.g. Glucose)"
+              placeholderTextColor={theme.colors.inputPlaceholder}
+              autoCapitalize="words"
+            />
+            <TouchableOpacity
+              onPress={() => onChange(rows.filter((_, i) => i !== index))}
+              style={styles.rowRemove}
+              accessibilityLabel={`Remove ${row.analyte || 'result'}`}
+            >
+              <Text style={styles.rowRemoveText}>✕</Text>
+            </TouchableOpacity>
+          </View>
+          <View style={styles.rowInline}>
+            <TextInput
+              style={[styles.input, styles.rowInlineInput]}
+              value={row.value}
+              onChangeText={(value) => updateRow(index, { value })}
+              placeholder="Value"
+              placeholderTextColor={theme.colors.inputPlaceholder}
+              keyboardType="numbers-and-punctuation"
+            />
+            <TextInput
+              style={[styles.input, styles.rowInlineInput]}
+              value={row.unit ?? ''}
+              onChangeText={(unit) => updateRow(index, { unit: unit || undefined })}
+              placeholder="Unit"
+              placeholderTextColor={theme.colors.inputPlaceholder}
+              autoCapitalize="none"
+            />
+            <TextInput
+              style={[styles.input, styles.rowInlineInput]}
+              value={row.referenceRange ?? ''}
+              onChangeText={(referenceRange) => updateRow(index, { referenceRange: referenceRange || undefined })}
+              placeholder="Ref range"
+              placeholderTextColor={theme.colors.inputPlaceholder}
+              keyboardType="numbers-and-punctuation"
+            />
+          </View>
+          <ChipPicker
+            options={LAB_RESULT_FLAGS}
+            value={row.flag}
+            onChange={(flag) => updateRow(index, { flag: flag as LabResultFlag | undefined })}
+            labelFor={(flag) => labResultFlagLabel(flag as LabResultFlag)}
+          />
+        </View>
+      ))}
+      <TouchableOpacity
+        style={styles.addRowButton}
+        onPress={() => onChange([...rows, emptyLabResultRow()])}
+        activeOpacity={0.7}
+      >
+        <Text style={styles.addRowText}>+ Add Result</Text>
+      </TouchableOpacity>
+    </View>
+  );
+}
+
+const createStyles = createThemedStyles((theme) => ({
+  container: {
+    flex: 1,
+    backgroundColor: theme.colors.background,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+    borderBottomColor: theme.colors.border,
+    backgroundColor: theme.colors.surface,
+  },
+  cancelText: {
+    fontSize: 16,
+    color: theme.colors.textSecondary,
+  },
+  headerPath: {
+    flex: 1,
+    marginHorizontal: 10,
+    textAlign: 'center',
+    fontSize: 13,
+    color: theme.colors.textMuted,
+  },
+  saveText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: theme.colors.secondary,
+  },
+  saveTextDisabled: {
+    color: theme.colors.textMuted,
+  },
+  body: {
+    flex: 1,
+  },
+  bodyContent: {
+    paddingHorizontal: 16,
+    paddingTop: 18,
+    paddingBottom: 40,
+  },
+  title: {
+    fontSize: 22,
+    fontWeight: '700',
+    color: theme.colors.text,
+    marginBottom: 18,
+  },
+  fieldGroup: {
+    marginBottom: 18,
+  },
+  label: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: theme.colors.textSecondary,
+    marginBottom: 8,
+    textTransform: 'uppercase',
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: theme.colors.inputBorder,
+    borderRadius: 12,
+    paddingHorizontal: 12,
+    paddingVertical: 11,
+    fontSize: 16,
+    color: theme.colors.text,
+    backgroundColor: theme.colors.inputBackground,
+  },
+  inputMultiline: {
+    minHeight: 96,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  presetChip: {
+    borderWidth: 1,
+    borderColor: theme.colors.inputBorder,
+    borderRadius: 999,
+    paddingHorizontal: 12,
+    paddingVertical: 7,
+    backgroundColor: theme.colors.surface,
+  },
+  presetChipSelected: {
+    borderColor: theme.colors.secondary,
+    backgroundColor: theme.colors.secondarySoft,
+  },
+  presetText: {
+    color: theme.colors.textSecondary,
+    fontSize: 13,
+    fontWeight: '500',
+  },
+  presetTextSelected: {
+    color: theme.colors.secondary,
+    fontWeight: '600',
+  },
+  rowCard: {
+    borderWidth: StyleSheet.hairlineWidth,
+    borderColor: theme.colors.border,
+    borderRadius: 12,
+    padding: 10,
+    marginBottom: 10,
+    gap: 8,
+    backgroundColor: theme.colors.surfaceSubtle,
+  },
+  rowHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  rowAnalyte: {
+    flex: 1,
+  },
+  rowRemove: {
+    padding: 6,
+  },
+  rowRemoveText: {
+    fontSize: 16,
+    color: theme.colors.textMuted,
+  },
+  rowInline: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  rowInlineInput: {
+    flex: 1,
+    paddingHorizontal: 10,
+  },
+  addRowButton: {
+    borderWidth: 1,
+    borderStyle: 'dashed',
+    borderColor: theme.colors.inputBorder,
+    borderRadius: 12,
+    paddingVertical: 11,
+    alignItems: 'center',
+  },
+  addRowText: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: theme.colors.secondary,
+  },
+}));
@@ -0,0 +1,131 @@
+// components/editors/VisitNoteForm.tsx
+// Full-screen visit note form: title, provider, and the four SOAP sections.
+// Produces a complete MedicalDocument — callers just persist it.
+
+import React, { useMemo, useState } from 'react';
+import { Alert } from 'react-native';
+import type { EditorProps } from '../registry/componentRegistry';
+import { FormField, StructuredFormShell } from './StructuredFields';
+import {
+  buildVisitMarkdown,
+  parseVisitEntry,
+  SOAP_SECTIONS,
+  soapSectionLabel,
+  type SoapSection,
+  type VisitFields,
+} from '../../core/markdown/visitEntry';
+
+const SOAP_PLACEHOLDERS: Record<SoapSection, string> = {
+  subjective: 'Symptoms and history in your words',
+  objective: 'Vitals, exam findings, test results',
+  assessment: 'Diagnosis or impression',
+  plan: 'Treatment, prescriptions, follow-up',
+};
+
+export function VisitNoteForm({
+  mode,
+  doc,
+  dirPath,
+  categoryType,
+  onSave,
+  onCancel,
+}: EditorProps) {
+  const initialFields = useMemo(() => {
+    if (mode !== 'edit' || !doc) return null;
+    return parseVisitEntry(doc.value).fields;
+  }, [mode, doc]);
+
+  const [fields, setFields] = useState<VisitFields>(() => initialFields ?? {
+    title: `Visit — ${new Date().toISOString().slice(0, 10)}`,
+    subjective: '',
+    objective: '',
+    assessment: '',
+    plan: '',
+  });
+  const [provider, setProvider] = useState(() => doc?.metadata?.provider ?? '');
+  const [npi, setNpi] = useState(() => doc?.metadata?.npi ?? '');
+  const [saving, setSaving] = useState(false);
+
+  const canSave = fields.title.trim().length > 0;
+
+  const handleSave = async () => {
+    if (!canSave) {
+      Alert.alert('Missing Fields', 'Please enter a title for this visit.');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const timestamp = new Date().toISOString();
+      const { provider: _provider, npi: _npi, ...metadata } = doc?.metadata ?? {};
+
+      await onSave({
+        value: buildVisitMarkdown(fields),
+        metadata: {
+          ...metadata,
+          type: categoryType || 'visit',
+          created: doc?.metadata?.created ?? timestamp,
+          updated: timestamp,
+          tags: categoryType ? [categoryType] : [],
+          ...(provider.trim() ? { provider: provider.trim() } : {}),
+          ...(npi.trim() ? { npi: npi.trim() } : {}),
+        },
+        children: doc?.children ?? [],
+        renderer: 'VisitNoteSummary',
+        editor: 'VisitNoteForm',
+      }, []);
+    } catch (error) {
+      console.error('Visit note save failed:', error);
+      Alert.alert('Save Failed', 'Could not save visit note. Please try again.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <StructuredFormShell
+      heading={mode === 'edit' ? 'Edit Visit Note' : 'Add Visit Note'}
+      dirPath={dirPath}
+      discardTitle="Discard Visit Note?"
+      canSave={canSave}
+      saving={saving}
+      onSave={handleSave}
+      onCancel={onCancel}
+      testIDPrefix="visit-note"
+    >
+      <FormField
+        label="Title"
+        value={fields.title}
+        onChangeText={(title) => setFields((prev) => ({ ...prev, title }))}
+        placeholder="Annual Checkup"
+        autoCapitalize="words"
+        testID="visit-note-title-input"
+      />
+      <FormField
+        label="Provider (Optional)"
+        value={provider}
+        onChangeText={setProvider}
+        placeholder="Dr. Ana Patel"
+        autoCapitalize="words"
+      />
+      <FormField
+        label="NPI (Optional)"
+        value={npi}
+        onChangeText={setNpi}
+        keyboardType="number-pad"
+        autoCapitalize="none"
+      />
+      {SOAP_SECTIONS.map((section) => (
+        <FormField
+          key={section}
+          label={soapSectionLabel(section)}
+          value={fields[section]}
+          onChangeText={(text) => setFields((prev) => ({ ...prev, [section]: text }))}
+          placeholder={SOAP_PLACEHOLDERS[section]}
+          multiline
+          testID={`visit-note-${section}-input`}
+        />
+      ))}
+    </StructuredFormShell>
+  );
+}
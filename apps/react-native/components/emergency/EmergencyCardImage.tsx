@@ -0,0 +1,163 @@
+// components/emergency/EmergencyCardImage.tsx
+// The emergency card as a single SVG, sized for a phone lock screen (9:16,
+// top third left clear for the clock). The parent exports it through the
+// forwarded Svg ref's toDataURL. Colors come from the light theme so the
+// image looks the same whatever mode the app is in.
+
+import React, { forwardRef } from 'react';
+import Svg, { Image as SvgImage, Rect, Text as SvgText } from 'react-native-svg';
+import type { EmergencyCard } from '../../core/bio/emergencyCard';
+import { ACTIVE_THEME_NAME, resolveTheme } from '../../theme/themes';
+
+export const EMERGENCY_CARD_WIDTH = 1080;
+export const EMERGENCY_CARD_HEIGHT = 1920;
+
+const cardColors = resolveTheme(ACTIVE_THEME_NAME, 'light').colors;
+
+const CONTENT_TOP = 640;
+const MARGIN = 72;
+const QR_SIZE = 420;
+const BODY_SIZE = 40;
+const LINE_HEIGHT = 54;
+/** Rough Helvetica-ish average glyph width, in ems, for wrapping without text measurement. */
+const AVERAGE_GLYPH_EM = 0.52;
+
+interface EmergencyCardImageProps {
+  card: EmergencyCard;
+  /** PNG (base64, no data: prefix) of the QR holding the card's text. */
+  qrPngBase64: string | null;
+  /** Rendered width; the image is always exported at full size. */
+  width: number;
+}
+
+function wrap(text: string, fontSize: number, maxWidth: number): string[] {
+  const maxChars = Math.max(8, Math.floor(maxWidth / (fontSize * AVERAGE_GLYPH_EM)));
+  const lines: string[] = [];
+  let line = '';
+  for (const word of text.split(/\s+/).filter(Boolean)) {
+    const candidate = line ? `${line} ${word}` : word;
+    if (candidate.length <= maxChars) {
+      line = candidate;
+      continue;
+    }
+    if (line) lines.push(line);
+    line = word.length > maxChars ? `${word.slice(0, maxChars - 1)}…` : word;
+  }
+  if (line) lines.push(line);
+  return lines;
+}
+
+interface CardLine {
+  text: string;
+  label?: boolean;
+}
+
+function cardLines(card: EmergencyCard): CardLine[] {
+  const textWidth = EMERGENCY_CARD_WIDTH - MARGIN * 2;
+  const lines: CardLine[] = [];
+  const add = (label: string, values: string[] | undefined) => {
+    if (!values?.length) return;
+    lines.push({ text: label.toUpperCase(), label: true });
+    for (const value of values) {
+      for (const line of wrap(value, BODY_SIZE, textWidth)) lines.push({ text: line });
+    }
+  };
+
+  if (card.dateOfBirth || card.bloodType) {
+    lines.push({
+      text: [card.dateOfBirth && `DOB ${card.dateOfBirth}`, card.bloodType && `Blood type ${card.bloodType}`]
+        .filter(Boolean)
+        .join('   ·   '),
+    });
+  }
+  add('Allergies', card.allergies);
+  add('Medications', card.medications);
+  add('Conditions', card.conditions);
+  add('In case of emergency', card.contacts?.map((c) =>
+    [c.relationship ? `${c.name} (${c.relationship})` : c.name, c.phone].filter(Boolean).join('  '),
+  ));
+  return lines;
+}
+
+export const EmergencyCardImage = forwardRef<Svg, EmergencyCardImageProps>(function EmergencyCardImage(
+  { card, qrPngBase64, width },
+  ref,
+) {
+  const qrTop = EMERGENCY_CARD_HEIGHT - MARGIN - QR_SIZE - 60;
+  // Lines that would run into the QR are dropped; the QR carries the full text.
+  const maxLines = Math.floor((qrTop - CONTENT_TOP - 160) / LINE_HEIGHT);
+  const lines = cardLines(card);
+  const visible = lines.length > maxLines
+    ? [...lines.slice(0, maxLines - 1), { text: 'More in the QR code below' }]
+    : lines;
+
+  return (
+    <Svg
+      ref={ref}
+      width={width}
+      height={(width * EMERGENCY_CARD_HEIGHT) / EMERGENCY_CARD_WIDTH}
+      viewBox={`0 0 ${EMERGENCY_CARD_WIDTH} ${EMERGENCY_CARD_HEIGHT}`}
+    >
+      <Rect x={0} y={0} width={EMERGENCY_CARD_WIDTH} height={EMERGENCY_CARD_HEIGHT} fill={cardColors.surfaceInverse} />
+      <Rect x={MARGIN} y={CONTENT_TOP - 96} width={EMERGENCY_CARD_WIDTH - MARGIN * 2} height={72} rx={18} fill={cardColors.danger} />
+      <SvgText
+        x={EMERGENCY_CARD_WIDTH / 2}
+        y={CONTENT_TOP - 46}
+        fontSize={36}
+        fontWeight="700"
+        fill={cardColors.dangerForeground}
+        textAnchor="middle"
+      >
+        EMERGENCY MEDICAL INFO
+      </SvgText>
+
+      {card.name ? (
+        <SvgText x={MARGIN} y={CONTENT_TOP + 70} fontSize={64} fontWeight="700" fill={cardColors.textInverse}>
+          {wrap(card.name, 64, EMERGENCY_CARD_WIDTH - MARGIN * 2)[0]}
+        </SvgText>
+      ) : null}
+
+      {visible.map((line, index) => (
+        <SvgText
+          key={index}
+          x={MARGIN}
+          y={CONTENT_TOP + 160 + index * LINE_HEIGHT}
+          fontSize={line.label ? 28 : BODY_SIZE}
+          fontWeight={line.label ? '700' : '400'}
+          fill={line.label ? cardColors.borderStrong : cardColors.textInverse}
+        >
+          {line.text}
+        </SvgText>
+      ))}
+
+      {qrPngBase64 ? (
+        <>
+          <Rect
+            x={(EMERGENCY_CARD_WIDTH - QR_SIZE) / 2 - 16}
+            y={qrTop - 16}
+            width={QR_SIZE + 32}
+            height={QR_SIZE + 32}
+            rx={20}
+            fill={cardColors.surface}
+          />
+          <SvgImage
+            x={(EMERGENCY_CARD_WIDTH - QR_SIZE) / 2}
+            y={qrTop}
+            width={QR_SIZE}
+            height={QR_SIZE}
+            href={`data:image/png;base64,${qrPngBase64}`}
+          />
+        </>
+      ) : null}
+      <SvgText
+        x={EMERGENCY_CARD_WIDTH / 2}
+        y={EMERGENCY_CARD_HEIGHT - MARGIN + 10}
+        fontSize={26}
+        fill={cardColors.borderStrong}
+        textAnchor="middle"
+      >
+        {`Provided by the patient · updated ${card.updated}`}
+      </SvgText>
+    </Svg>
+  );
+});
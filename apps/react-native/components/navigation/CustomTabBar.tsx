@@ -9,8 +9,13 @@ import {
   IconId,
   IconMicrophone,
   IconCamera,
+  IconScan,
   IconLogs,
   IconReportMedical,
+  IconTestPipe,
+  IconAlertTriangle,
+  IconVaccine,
+  IconStethoscope,
 } from '@tabler/icons-react-native';
 import type { BottomTabBarProps } from '@react-navigation/bottom-tabs';
 import { ProfileAvatar } from './ProfileAvatar';
@@ -19,14 +24,17 @@ import { createThemedStyles, useTheme, useThemedStyles } from '../../theme';
 const ICON_SIZE = 24;
 const PLUS_SIZE = 34;
 
-type CreateAction = 'note' | 'audio' | 'photo' | 'medication';
-type ContextualCreateIconKey = 'medication' | 'bio' | 'note';
+/** Folder-specific structured editors offered by the contextual create row. */
+export type StructuredCreateAction = 'lab' | 'allergy' | 'immunization' | 'visit';
+export type CreateAction = 'note' | 'audio' | 'photo' | 'scan' | 'medication' | StructuredCreateAction;
+type ContextualCreateIconKey = 'medication' | 'bio' | 'note' | StructuredCreateAction;
 type TabKind = 'home' | 'binders' | 'create' | 'page' | 'profile';
 
 const CREATE_MENU_ITEMS = [
   { key: 'audio', label: 'Record Audio', Icon: IconMicrophone },
   { key: 'note', label: 'Add Note', Icon: IconContract },
   { key: 'photo', label: 'Take Photo', Icon: IconCamera },
+  { key: 'scan', label: 'Scan Document', Icon: IconScan },
 ] as const;
 
 function getTabKind(routeName: string): TabKind | null {
@@ -265,6 +273,14 @@ function ContextualCreateIcon({
       return <IconId size={22} color={color} strokeWidth={1.5} />;
     case 'note':
       return <IconContract size={22} color={color} strokeWidth={1.5} />;
+    case 'lab':
+      return <IconTestPipe size={22} color={color} strokeWidth={1.5} />;
+    case 'allergy':
+      return <IconAlertTriangle size={22} color={color} strokeWidth={1.5} />;
+    case 'immunization':
+      return <IconVaccine size={22} color={color} strokeWidth={1.5} />;
+    case 'visit':
+      return <IconStethoscope size={22} color={color} strokeWidth={1.5} />;
     default:
       return <IconPlus size={22} color={color} strokeWidth={1.5} />;
   }
@@ -6,11 +6,22 @@
 import type { ComponentType, MutableRefObject } from 'react';
 import type { MedicalDocument } from '../../types/document';
 import type { PendingSidecar } from '../editor/AttachmentList';
+import type { DoseLog } from '../../core/medication/adherence';
+import { isAudioRecording } from '../../core/audio/transcript';
 
 // Lazy imports to avoid circular deps / heavy upfront bundle cost
 // are not needed here — the registry is only imported where it's used.
 import { MedicationSummary } from '../renderers/MedicationSummary';
+import { LabResultSummary } from '../renderers/LabResultSummary';
+import { AllergySummary } from '../renderers/AllergySummary';
+import { ImmunizationSummary } from '../renderers/ImmunizationSummary';
+import { VisitNoteSummary } from '../renderers/VisitNoteSummary';
+import { RecordingPlayer } from '../renderers/RecordingPlayer';
 import { MedicationForm } from '../editors/MedicationForm';
+import { LabResultForm } from '../editors/LabResultForm';
+import { AllergyForm } from '../editors/AllergyForm';
+import { ImmunizationForm } from '../editors/ImmunizationForm';
+import { VisitNoteForm } from '../editors/VisitNoteForm';
 
 // --- Renderer: read-only display + optional inline editing ---
 
@@ -24,6 +35,14 @@ export interface RendererProps {
   saving?: boolean;
   /** Parent writes a ref; renderer fills it with its save handler so the header can trigger save. */
   saveRef?: MutableRefObject<(() => void) | null>;
+  /** Where the entry lives, for renderers that schedule device-local state (e.g. reminders). */
+  binderId?: string;
+  entryPath?: string;
+  /** Decrypts a sidecar stored next to this entry, for renderers that play or show attachments. */
+  loadSidecar?: (sidecarFilename: string) => Promise<Uint8Array>;
+  /** Dose log storage for medication entries (monthly sidecars next to the entry). */
+  loadDoseLogs?: () => Promise<DoseLog[]>;
+  logDose?: (log: DoseLog) => Promise<void>;
 }
 
 // --- Editor: full-screen creation / editing form ---
@@ -41,10 +60,19 @@ export interface EditorProps {
 
 export const RENDERERS: Record<string, ComponentType<RendererProps>> = {
   MedicationSummary,
+  LabResultSummary,
+  AllergySummary,
+  ImmunizationSummary,
+  VisitNoteSummary,
+  RecordingPlayer,
 };
 
 export const EDITORS: Record<string, ComponentType<EditorProps>> = {
   MedicationForm,
+  LabResultForm,
+  AllergyForm,
+  ImmunizationForm,
+  VisitNoteForm,
 };
 
 // Backwards compat: old docs on disk still have renderer:'medication'
@@ -63,6 +91,14 @@ export function getRenderer(name?: string): ComponentType<RendererProps> | undef
   return RENDERERS[name] ?? RENDERERS[LEGACY_RENDERER_ALIASES[name]];
 }
 
+/**
+ * Renderer for a document: its own `renderer` field, else a default by shape.
+ * Recordings have never stored a renderer, so they are matched by format.
+ */
+export function getDocumentRenderer(doc: MedicalDocument): ComponentType<RendererProps> | undefined {
+  return getRenderer(doc.renderer) ?? (isAudioRecording(doc) ? RENDERERS.RecordingPlayer : undefined);
+}
+
 export function getEditor(name?: string): ComponentType<EditorProps> | undefined {
   if (!name) return undefined;
   return EDITORS[name] ?? EDITORS[LEGACY_EDITOR_ALIASES[name]];
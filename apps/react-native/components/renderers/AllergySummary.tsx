@@ -0,0 +1,112 @@
+// components/renderers/AllergySummary.tsx
+// Read-only allergy card with optional inline editing.
+
+import React, { useCallback, useEffect, useState } from 'react';
+import { Alert, View } from 'react-native';
+import type { RendererProps } from '../registry/componentRegistry';
+import { ChipPicker } from '../editors/StructuredFields';
+import { SummaryField, SummaryTitle, useRendererSaveRef } from './SummaryFields';
+import {
+  ALLERGY_SEVERITIES,
+  buildAllergyMarkdown,
+  parseAllergyEntry,
+} from '../../core/markdown/allergyEntry';
+import { extractTitle } from '../../core/binder/DocumentModel';
+
+export function AllergySummary({
+  doc,
+  editing = false,
+  onSave,
+  onRequestEdit,
+  saveRef,
+}: RendererProps) {
+  const title = extractTitle(doc);
+  const fields = parseAllergyEntry(doc.value).fields;
+
+  const toDraft = useCallback(() => ({
+    allergen: fields?.allergen || title,
+    reaction: fields?.reaction || '',
+    severity: fields?.severity || '',
+    notes: fields?.notes || '',
+  }), [fields?.allergen, fields?.reaction, fields?.severity, fields?.notes, title]);
+
+  const [draft, setDraft] = useState(toDraft);
+
+  // Reset draft when the doc changes externally (e.g. after save)
+  useEffect(() => {
+    if (!editing) setDraft(toDraft());
+  }, [editing, toDraft]);
+
+  const handleSave = useCallback(async () => {
+    if (!onSave) return;
+    const allergen = draft.allergen.trim();
+    if (!allergen) {
+      Alert.alert('Missing Fields', 'Please enter the allergen.');
+      return;
+    }
+
+    await onSave({
+      ...doc,
+      value: buildAllergyMarkdown({
+        allergen,
+        reaction: draft.reaction.trim(),
+        severity: draft.severity.trim(),
+        status: fields?.status,
+        notes: draft.notes.trim() || undefined,
+      }),
+      metadata: {
+        ...doc.metadata,
+        type: 'allergy',
+        updated: new Date().toISOString(),
+      },
+      renderer: 'AllergySummary',
+      editor: 'AllergyForm',
+    });
+  }, [doc, draft, fields?.status, onSave]);
+
+  useRendererSaveRef(saveRef, editing, handleSave);
+
+  return (
+    <View style={{ gap: 10 }}>
+      <SummaryTitle
+        value={editing ? draft.allergen : fields?.allergen || title}
+        editing={editing}
+        onChangeText={(allergen) => setDraft((prev) => ({ ...prev, allergen }))}
+        onRequestEdit={onRequestEdit}
+        placeholder="Allergen"
+      />
+      <SummaryField
+        label="Reaction"
+        value={editing ? draft.reaction : fields?.reaction ?? ''}
+        editing={editing}
+        onChangeText={(reaction) => setDraft((prev) => ({ ...prev, reaction }))}
+        onRequestEdit={onRequestEdit}
+        placeholder="Hives, swelling"
+      />
+      <SummaryField
+        label="Severity"
+        value={fields?.severity ?? ''}
+        editing={editing}
+        onRequestEdit={onRequestEdit}
+        editor={(
+          <ChipPicker
+            options={ALLERGY_SEVERITIES}
+            value={draft.severity}
+            onChange={(severity) => setDraft((prev) => ({ ...prev, severity: severity ?? '' }))}
+          />
+        )}
+      />
+      {fields?.status && !editing ? (
+        <SummaryField label="Status" value={fields.status} editing={false} onRequestEdit={onRequestEdit} />
+      ) : null}
+      <SummaryField
+        label="Notes"
+        value={editing ? draft.notes : fields?.notes ?? ''}
+        editing={editing}
+        onChangeText={(notes) => setDraft((prev) => ({ ...prev, notes }))}
+        onRequestEdit={onRequestEdit}
+        multiline
+      />
+    </View>
+  );
+}
@@ -0,0 +1,129 @@
+// components/renderers/ImmunizationSummary.tsx
+// Read-only immunization card with optional inline editing.
+
+import React, { useCallback, useEffect, useState } from 'react';
+import { Alert, View } from 'react-native';
+import type { RendererProps } from '../registry/componentRegistry';
+import { SummaryField, SummaryTitle, useRendererSaveRef } from './SummaryFields';
+import {
+  buildImmunizationMarkdown,
+  parseImmunizationEntry,
+  type ImmunizationFields,
+} from '../../core/markdown/immunizationEntry';
+import { extractTitle } from '../../core/binder/DocumentModel';
+
+type Draft = Required<ImmunizationFields>;
+
+export function ImmunizationSummary({
+  doc,
+  editing = false,
+  onSave,
+  onRequestEdit,
+  saveRef,
+}: RendererProps) {
+  const title = extractTitle(doc);
+  const fields = parseImmunizationEntry(doc.value).fields;
+
+  const toDraft = useCallback((): Draft => ({
+    vaccine: fields?.vaccine || title,
+    date: fields?.date || '',
+    doseNumber: fields?.doseNumber || '',
+    dose: fields?.dose || '',
+    lot: fields?.lot || '',
+    notes: fields?.notes || '',
+  }), [fields?.vaccine, fields?.date, fields?.doseNumber, fields?.dose, fields?.lot, fields?.notes, title]);
+
+  const [draft, setDraft] = useState(toDraft);
+
+  // Reset draft when the doc changes externally (e.g. after save)
+  useEffect(() => {
+    if (!editing) setDraft(toDraft());
+  }, [editing, toDraft]);
+
+  const setField = (key: keyof Draft) => (value: string) => {
+    setDraft((prev) => ({ ...prev, [key]: value }));
+  };
+
+  const handleSave = useCallback(async () => {
+    if (!onSave) return;
+    if (!draft.vaccine.trim() || !draft.date.trim()) {
+      Alert.alert('Missing Fields', 'Please enter the vaccine and the date given.');
+      return;
+    }
+
+    await onSave({
+      ...doc,
+      value: buildImmunizationMarkdown({
+        vaccine: draft.vaccine.trim(),
+        date: draft.date.trim(),
+        doseNumber: draft.doseNumber.trim() || undefined,
+        dose: draft.dose.trim() || undefined,
+        lot: draft.lot.trim() || undefined,
+        notes: draft.notes.trim() || undefined,
+      }),
+      metadata: {
+        ...doc.metadata,
+        type: 'immunization',
+        updated: new Date().toISOString(),
+      },
+      renderer: 'ImmunizationSummary',
+      editor: 'ImmunizationForm',
+    });
+  }, [doc, draft, onSave]);
+
+  useRendererSaveRef(saveRef, editing, handleSave);
+
+  const shown = editing ? draft : toDraft();
+
+  return (
+    <View style={{ gap: 10 }}>
+      <SummaryTitle
+        value={shown.vaccine}
+        editing={editing}
+        onChangeText={setField('vaccine')}
+        onRequestEdit={onRequestEdit}
+        placeholder="Vaccine"
+      />
+      <SummaryField
+        label="Date Given"
+        value={shown.date}
+        editing={editing}
+        onChangeText={setField('date')}
+        onRequestEdit={onRequestEdit}
+        placeholder="YYYY-MM-DD"
+        keyboardType="numbers-and-punctuation"
+      />
+      <SummaryField
+        label="Dose Number"
+        value={shown.doseNumber}
+        editing={editing}
+        onChangeText={setField('doseNumber')}
+        onRequestEdit={onRequestEdit}
+        keyboardType="number-pad"
+      />
+      <SummaryField
+        label="Dose"
+        value={shown.dose}
+        editing={editing}
+        onChangeText={setField('dose')}
+        onRequestEdit={onRequestEdit}
+        placeholder="0.5 mL"
+      />
+      <SummaryField
+        label="Lot Number"
+        value={shown.lot}
+        editing={editing}
+        onChangeText={setField('lot')}
+        onRequestEdit={onRequestEdit}
+      />
+      <SummaryField
+        label="Notes"
+        value={shown.notes}
+        editing={editing}
+        onChangeText={setField('notes')}
+        onRequestEdit={onRequestEdit}
+        multiline
+      />
+    </View>
+  );
+}
@@ -0,0 +1,259 @@
+// components/renderers/LabResultSummary.tsx
+// Lab result table: one row per analyte with reference range and a colored
+// flag pill. Inline edit swaps in the same row editor as LabResultForm.
+// In a binder, each analyte links to its trend across all lab entries.
+
+import React, { useCallback, useEffect, useState } from 'react';
+import { Alert, StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+import { useRouter } from 'expo-router';
+import type { RendererProps } from '../registry/componentRegistry';
+import { emptyLabResultRow, LabResultRowsEditor } from '../editors/StructuredFields';
+import { SummaryField, SummaryTitle, useRendererSaveRef } from './SummaryFields';
+import {
+  buildLabResultMarkdown,
+  labResultFlagLabel,
+  parseLabResultEntry,
+  type LabResultFlag,
+  type LabResultRow,
+} from '../../core/markdown/labResultEntry';
+import { analyteKey } from '../../core/labs/units';
+import { extractTitle } from '../../core/binder/DocumentModel';
+import { createThemedStyles, useThemedStyles } from '../../theme';
+
+interface Draft {
+  title: string;
+  lab: string;
+  results: LabResultRow[];
+  notes: string;
+}
+
+export function LabResultSummary({
+  doc,
+  editing = false,
+  onSave,
+  onRequestEdit,
+  saveRef,
+  binderId,
+}: RendererProps) {
+  const styles = useThemedStyles(createStyles);
+  const router = useRouter();
+  const title = extractTitle(doc);
+  const fields = parseLabResultEntry(doc.value).fields;
+
+  const toDraft = useCallback((): Draft => ({
+    title: fields?.title || title,
+    lab: fields?.lab ?? '',
+    results: fields?.results.length ? fields.results : [emptyLabResultRow()],
+    notes: fields?.notes ?? '',
+  }), [fields?.title, fields?.lab, fields?.results, fields?.notes, title]);
+
+  const [draft, setDraft] = useState(toDraft);
+
+  // Reset draft when the doc changes externally (e.g. after save). The
+  // parsed rows are a fresh array every render, so key on the markdown.
+  useEffect(() => {
+    if (!editing) setDraft(toDraft());
+  }, [editing, doc.value]);
+
+  const handleSave = useCallback(async () => {
+    if (!onSave) return;
+    if (!draft.title.trim()) {
+      Alert.alert('Missing Fields', 'Please enter a title for this result.');
+      return;
+    }
+
+    await onSave({
+      ...doc,
+      value: buildLabResultMarkdown({
+        title: draft.title.trim(),
+        lab: draft.lab.trim() || undefined,
+        results: draft.results,
+        notes: draft.notes.trim() || undefined,
+      }),
+      metadata: {
+        ...doc.metadata,
+        type: 'lab',
+        updated: new Date().toISOString(),
+      },
+      renderer: 'LabResultSummary',
+      editor: 'LabResultForm',
+    });
+  }, [doc, draft, onSave]);
+
+  useRendererSaveRef(saveRef, editing, handleSave);
+
+  const handleOpenTrend = useCallback((analyte: string) => {
+    if (!binderId) return;
+    router.push({
+      pathname: '/(tabs)/(binders)/binder/[binderId]/lab-trends',
+      params: { binderId, analyte: analyteKey(analyte) },
+    });
+  }, [binderId, router]);
+
+  const flagTone = (flag: LabResultFlag) => (
+    flag === 'high' || flag === 'critical' ? 'Danger'
+      : flag === 'low' ? 'Warning'
+        : 'Neutral'
+  );
+
+  return (
+    <View style={{ gap: 10 }}>
+      <SummaryTitle
+        value={editing ? draft.title : fields?.title || title}
+        editing={editing}
+        onChangeText={(next) => setDraft((prev) => ({ ...prev, title: next }))}
+        onRequestEdit={onRequestEdit}
+        placeholder="Lab result title"
+      />
+      <SummaryField
+        label="Lab"
+        value={editing ? draft.lab : fields?.lab ?? ''}
+        editing={editing}
+        onChangeText={(lab) => setDraft((prev) => ({ ...prev, lab }))}
+        onRequestEdit={onRequestEdit}
+        placeholder="Quest Diagnostics"
+      />
+
+      {editing ? (
+        <LabResultRowsEditor
+          rows={draft.results}
+          onChange={(results) => setDraft((prev) => ({ ...prev, results }))}
+        />
+      ) : (
+        <TouchableOpacity
+          style={styles.table}
+          onPress={onRequestEdit}
+          activeOpacity={0.7}
+          disabled={!onRequestEdit}
+        >
+          <Text style={styles.tableLabel}>Results</Text>
+          {fields?.results.length ? fields.results.map((row, index) => (
+            <TouchableOpacity
+              key={`${row.analyte}-${index}`}
+              style={[styles.resultRow, index > 0 && styles.resultRowDivider]}
+              onPress={() => handleOpenTrend(row.analyte)}
+              disabled={!binderId}
+              activeOpacity={0.7}
+            >
+              <View style={styles.resultMain}>
+                <Text style={styles.analyte}>{row.analyte}</Text>
+                {row.referenceRange ? (
+                  <Text style={styles.range}>Ref {row.referenceRange}</Text>
+                ) : null}
+              </View>
+              <Text style={[styles.value, row.flag && styles.valueFlagged]}>
+                {[row.value, row.unit].filter(Boolean).join(' ')}
+              </Text>
+              {row.flag ? (
+                <View style={[styles.flagPill, styles[`flagPill${flagTone(row.flag)}`]]}>
+                  <Text style={[styles.flagText, styles[`flagText${flagTone(row.flag)}`]]}>
+                    {labResultFlagLabel(row.flag)}
+                  </Text>
+                </View>
+              ) : null}
+              {binderId ? <Text style={styles.trendLink}>Trend ›</Text> : null}
+            </TouchableOpacity>
+          )) : (
+            <Text style={styles.empty}>No results recorded</Text>
+          )}
+        </TouchableOpacity>
+      )}
+
+      <SummaryField
+        label="Notes"
+        value={editing ? draft.notes : fields?.notes ?? ''}
+        editing={editing}
+        onChangeText={(notes) => setDraft((prev) => ({ ...prev, notes }))}
+        onRequestEdit={onRequestEdit}
+        multiline
+      />
+    </View>
+  );
+}
+
+const createStyles = createThemedStyles((theme) => ({
+  table: {
+    borderWidth: StyleSheet.hairlineWidth,
+    borderColor: theme.colors.border,
+    borderRadius: 10,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    backgroundColor: theme.colors.surfaceSubtle,
+  },
+  tableLabel: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: theme.colors.textSecondary,
+    textTransform: 'uppercase',
+    marginBottom: 3,
+  },
+  resultRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    paddingVertical: 8,
+  },
+  resultRowDivider: {
+    borderTopWidth: StyleSheet.hairlineWidth,
+    borderTopColor: theme.colors.border,
+  },
+  resultMain: {
+    flex: 1,
+  },
+  analyte: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: theme.colors.text,
+  },
+  range: {
+    fontSize: 12,
+    color: theme.colors.textMuted,
+    marginTop: 2,
+  },
+  value: {
+    fontSize: 15,
+    fontWeight: '500',
+    color: theme.colors.text,
+  },
+  valueFlagged: {
+    fontWeight: '700',
+  },
+  flagPill: {
+    borderRadius: 999,
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+    overflow: 'hidden',
+  },
+  flagPillDanger: {
+    backgroundColor: theme.colors.dangerSoft,
+  },
+  flagPillWarning: {
+    backgroundColor: theme.colors.warningSoft,
+  },
+  flagPillNeutral: {
+    backgroundColor: theme.colors.surface,
+  },
+  flagText: {
+    fontSize: 11,
+    fontWeight: '700',
+  },
+  flagTextDanger: {
+    color: theme.colors.danger,
+  },
+  flagTextWarning: {
+    color: theme.colors.warning,
+  },
+  flagTextNeutral: {
+    color: theme.colors.textSecondary,
+  },
+  trendLink: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: theme.colors.secondary,
+  },
+  empty: {
+    fontSize: 15,
+    color: theme.colors.textMuted,
+    paddingVertical: 6,
+  },
+}));
@@ -0,0 +1,219 @@
+// components/renderers/LabTrendChart.tsx
+// One analyte over time: a line through the results, the reference range as
+// a shaded band, and out-of-range points drawn in the danger color.
+
+import React, { useState } from 'react';
+import { Text, View, type LayoutChangeEvent } from 'react-native';
+import Svg, { Circle, Line, Polyline, Rect, Text as SvgText } from 'react-native-svg';
+import type { LabTrendSeries } from '../../core/labs/trends';
+import { createThemedStyles, useTheme, useThemedStyles } from '../../theme';
+
+interface LabTrendChartProps {
+  series: LabTrendSeries;
+  height?: number;
+  /** Index into series.points of the highlighted point. */
+  selectedIndex?: number | null;
+  onSelectPoint?: (index: number) => void;
+}
+
+const DEFAULT_HEIGHT = 200;
+const PADDING = { top: 12, right: 12, bottom: 24, left: 44 };
+const POINT_RADIUS = 4;
+
+/** Compact axis label: 5.4, 98, 1.2k. */
+function formatTick(value: number): string {
+  if (Math.abs(value) >= 1000) return `${(value / 1000).toFixed(1)}k`;
+  if (Math.abs(value) >= 100) return value.toFixed(0);
+  return Number(value.toFixed(1)).toString();
+}
+
+function formatShortDate(date: string): string {
+  const [year, month, day] = date.split('-').map(Number);
+  if (!year || !month || !day) return date;
+  return new Date(year, month - 1, day).toLocaleDateString(undefined, { month: 'short', year: '2-digit' });
+}
+
+/** Value range covering every point and the band, padded so nothing sits on the edge. */
+function valueDomain(series: LabTrendSeries): [number, number] {
+  const values = series.points.map((point) => point.value);
+  if (series.band?.low !== undefined) values.push(series.band.low);
+  if (series.band?.high !== undefined) values.push(series.band.high);
+  const min = Math.min(...values);
+  const max = Math.max(...values);
+  const pad = max === min ? Math.max(Math.abs(max) * 0.1, 1) : (max - min) * 0.1;
+  return [min - pad, max + pad];
+}
+
+export function LabTrendChart({
+  series,
+  height = DEFAULT_HEIGHT,
+  selectedIndex = null,
+  onSelectPoint,
+}: LabTrendChartProps) {
+  const theme = useTheme();
+  const styles = useThemedStyles(createStyles);
+  const [width, setWidth] = useState(0);
+
+  const handleLayout = (event: LayoutChangeEvent) => {
+    setWidth(event.nativeEvent.layout.width);
+  };
+
+  if (series.points.length === 0) {
+    return <Text style={styles.empty}>No numeric results to chart</Text>;
+  }
+
+  const plotWidth = Math.max(width - PADDING.left - PADDING.right, 1);
+  const plotHeight = height - PADDING.top - PADDING.bottom;
+  const [minValue, maxValue] = valueDomain(series);
+
+  // Spread points by date so irregular gaps between draws stay visible.
+  const times = series.points.map((point) => Date.parse(point.date));
+  const firstTime = Math.min(...times);
+  const span = Math.max(...times) - firstTime;
+  const x = (index: number) => PADDING.left + (
+    span > 0 ? ((times[index] - firstTime) / span) * plotWidth : plotWidth / 2
+  );
+  const y = (value: number) => PADDING.top + (1 - (value - minValue) / (maxValue - minValue)) * plotHeight;
+
+  const band = series.band;
+  const bandTop = band?.high !== undefined ? y(band.high) : PADDING.top;
+  const bandBottom = band?.low !== undefined ? y(band.low) : PADDING.top + plotHeight;
+  const ticks = [maxValue, (maxValue + minValue) / 2, minValue];
+  const first = series.points[0];
+  const last = series.points[series.points.length - 1];
+
+  return (
+    <View style={styles.container}>
+      <View style={{ height }} onLayout={handleLayout}>
+        {width > 0 ? (
+          <Svg width={width} height={height}>
+            {band ? (
+              <Rect
+                x={PADDING.left}
+                y={bandTop}
+                width={plotWidth}
+                height={Math.max(bandBottom - bandTop, 0)}
+                fill={theme.colors.successSoft}
+              />
+            ) : null}
+            {ticks.map((tick, index) => (
+              <React.Fragment key={index}>
+                <Line
+                  x1={PADDING.left}
+                  x2={PADDING.left + plotWidth}
+                  y1={y(tick)}
+                  y2={y(tick)}
+                  stroke={theme.colors.border}
+                  strokeWidth={1}
+                />
+                <SvgText
+                  x={PADDING.left - 6}
+                  y={y(tick) + 4}
+                  fontSize={10}
+                  fill={theme.colors.textMuted}
+                  textAnchor="end"
+                >
+                  {formatTick(tick)}
+                </SvgText>
+              </React.Fragment>
+            ))}
+            {series.points.length > 1 ? (
+              <Polyline
+                points={series.points.map((point, index) => `${x(index)},${y(point.value)}`).join(' ')}
+                fill="none"
+                stroke={theme.colors.secondary}
+                strokeWidth={2}
+              />
+            ) : null}
+            {series.points.map((point, index) => (
+              <Circle
+                key={`${point.path}-${index}`}
+                cx={x(index)}
+                cy={y(point.value)}
+                r={index === selectedIndex ? POINT_RADIUS + 2 : POINT_RADIUS}
+                fill={point.outOfRange ? theme.colors.danger : theme.colors.secondary}
+                stroke={theme.colors.background}
+                strokeWidth={index === selectedIndex ? 2 : 1}
+                onPress={onSelectPoint ? () => onSelectPoint(index) : undefined}
+              />
+            ))}
+            <SvgText
+              x={PADDING.left}
+              y={height - 6}
+              fontSize={10}
+              fill={theme.colors.textMuted}
+              textAnchor="start"
+            >
+              {formatShortDate(first.date)}
+            </SvgText>
+            {series.points.length > 1 ? (
+              <SvgText
+                x={PADDING.left + plotWidth}
+                y={height - 6}
+                fontSize={10}
+                fill={theme.colors.textMuted}
+                textAnchor="end"
+              >
+                {formatShortDate(last.date)}
+              </SvgText>
+            ) : null}
+          </Svg>
+        ) : null}
+      </View>
+      <View style={styles.legend}>
+        {band ? (
+          <View style={styles.legendItem}>
+            <View style={[styles.legendSwatch, styles.legendBand]} />
+            <Text style={styles.legendText}>Reference range</Text>
+          </View>
+        ) : null}
+        <View style={styles.legendItem}>
+          <View style={[styles.legendSwatch, styles.legendOut]} />
+          <Text style={styles.legendText}>Out of range</Text>
+        </View>
+        <Text style={[styles.legendText, styles.legendUnit]}>{series.unit}</Text>
+      </View>
+    </View>
+  );
+}
+
+const createStyles = createThemedStyles((theme) => ({
+  container: {
+    gap: 8,
+  },
+  legend: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 14,
+  },
+  legendItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+  },
+  legendSwatch: {
+    width: 10,
+    height: 10,
+    borderRadius: 5,
+  },
+  legendBand: {
+    borderRadius: 2,
+    backgroundColor: theme.colors.successSoft,
+  },
+  legendOut: {
+    backgroundColor: theme.colors.danger,
+  },
+  legendText: {
+    fontSize: 12,
+    color: theme.colors.textSecondary,
+  },
+  legendUnit: {
+    marginLeft: 'auto',
+    color: theme.colors.textMuted,
+  },
+  empty: {
+    fontSize: 15,
+    color: theme.colors.textMuted,
+    paddingVertical: 6,
+  },
+}));
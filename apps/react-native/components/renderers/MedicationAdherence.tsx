@@ -0,0 +1,408 @@
+// components/renderers/MedicationAdherence.tsx
+// Adherence panel under MedicationSummary: log a dose as taken/skipped,
+// a 14-day strip, the 30-day rate, recent logs, and the reminders toggle.
+// Logs are written to the entry's monthly dose sidecars through logDose.
+
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { Alert, StyleSheet, Switch, Text, TouchableOpacity, View } from 'react-native';
+import type { MedicalDocument } from '../../types/document';
+import type { MedicationFields } from '../../core/markdown/medicationEntry';
+import {
+  nextUnloggedDose,
+  sortDoseLogs,
+  summarizeAdherence,
+  type AdherenceDay,
+  type DoseLog,
+  type DoseStatus,
+} from '../../core/medication/adherence';
+import {
+  describeSchedule,
+  formatDoseTime,
+  medicationStatus,
+  parseFrequency,
+} from '../../core/medication/schedule';
+import {
+  cancelMedicationReminders,
+  hasMedicationReminders,
+  requestReminderPermission,
+  scheduleMedicationReminders,
+  type MedicationReminderTarget,
+} from '../../core/medication/reminders';
+import { createThemedStyles, useTheme, useThemedStyles } from '../../theme';
+
+const STRIP_DAYS = 14;
+const RATE_DAYS = 30;
+const RECENT_LOGS = 5;
+
+interface MedicationAdherenceProps {
+  doc: MedicalDocument;
+  fields: MedicationFields;
+  loadDoseLogs?: () => Promise<DoseLog[]>;
+  logDose?: (log: DoseLog) => Promise<void>;
+  saving: boolean;
+  /** Present when the entry screen knows where the entry lives; enables reminders. */
+  reminderTarget?: MedicationReminderTarget;
+}
+
+export function MedicationAdherence({
+  doc,
+  fields,
+  loadDoseLogs,
+  logDose,
+  saving,
+  reminderTarget,
+}: MedicationAdherenceProps) {
+  const theme = useTheme();
+  const styles = useThemedStyles(createStyles);
+  const [now, setNow] = useState(() => new Date());
+  // Re-evaluate "now" whenever the entry is re-read or a dose is logged.
+  useEffect(() => setNow(new Date()), [doc]);
+  const [remindersOn, setRemindersOn] = useState(false);
+  const [remindersBusy, setRemindersBusy] = useState(false);
+  const [storedLogs, setStoredLogs] = useState<DoseLog[]>([]);
+  const [logging, setLogging] = useState(false);
+
+  const refreshLogs = useCallback(async () => {
+    if (!loadDoseLogs) return;
+    try {
+      setStoredLogs(await loadDoseLogs());
+    } catch (err) {
+      console.warn('Could not read dose logs:', err);
+    }
+  }, [loadDoseLogs]);
+
+  useEffect(() => { refreshLogs(); }, [refreshLogs, doc]);
+
+  const schedule = useMemo(() => parseFrequency(fields.frequency), [fields.frequency]);
+  const status = medicationStatus(fields, now);
+  const logs = useMemo(() => sortDoseLogs(storedLogs), [storedLogs]);
+  const strip = useMemo(
+    () => summarizeAdherence(schedule, fields, logs, STRIP_DAYS, now),
+    [schedule, fields, logs, now],
+  );
+  const monthly = useMemo(
+    () => summarizeAdherence(schedule, fields, logs, RATE_DAYS, now),
+    [schedule, fields, logs, now],
+  );
+  const nextDose = status === 'active' ? nextUnloggedDose(schedule, fields, logs, now) : null;
+  const scheduleLabel = describeSchedule(schedule, fields);
+
+  // Keep scheduled reminders in step with the entry (frequency edits, a
+  // stop date that has now passed, a new refill date).
+  const reminderKey = reminderTarget ? `${reminderTarget.binderId}:${reminderTarget.entryPath}` : null;
+  useEffect(() => {
+    if (!reminderTarget) return;
+    let cancelled = false;
+    (async () => {
+      try {
+        const enabled = await hasMedicationReminders(reminderTarget);
+        if (cancelled) return;
+        setRemindersOn(enabled);
+        if (enabled) await scheduleMedicationReminders(reminderTarget, fields);
+      } catch (err) {
+        console.warn('Medication reminders unavailable:', err);
+      }
+    })();
+    return () => { cancelled = true; };
+  }, [reminderKey, fields.name, fields.dosage, fields.frequency, fields.stopDate, fields.refillDate]);
+
+  const handleToggleReminders = useCallback(async (enable: boolean) => {
+    if (!reminderTarget) return;
+    setRemindersBusy(true);
+    try {
+      if (!enable) {
+        await cancelMedicationReminders(reminderTarget);
+        setRemindersOn(false);
+        return;
+      }
+      if (!(await requestReminderPermission())) {
+        Alert.alert('Notifications Off', 'Allow notifications in Settings to get dose and refill reminders.');
+        return;
+      }
+      const count = await scheduleMedicationReminders(reminderTarget, fields);
+      if (count === 0) {
+        Alert.alert(
+          'No Reminders Scheduled',
+          status === 'stopped'
+            ? 'This medication has been stopped.'
+            : 'Set a frequency like "Twice daily" or a refill date to get reminders.',
+        );
+        return;
+      }
+      setRemindersOn(true);
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Could not update reminders';
+      Alert.alert('Reminders Failed', message);
+    } finally {
+      setRemindersBusy(false);
+    }
+  }, [fields, reminderTarget, status]);
+
+  const handleLog = useCallback(async (doseStatus: DoseStatus) => {
+    if (!logDose) return;
+    setLogging(true);
+    try {
+      await logDose({
+        status: doseStatus,
+        loggedAt: new Date().toISOString(),
+        ...(nextDose ? { scheduledFor: nextDose.toISOString() } : {}),
+      });
+      await refreshLogs();
+      setNow(new Date());
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Could not log dose';
+      Alert.alert('Log Failed', message);
+    } finally {
+      setLogging(false);
+    }
+  }, [logDose, nextDose, refreshLogs]);
+
+  const dayStyle = (day: AdherenceDay) => {
+    if (day.expected === 0) return day.taken > 0 ? styles.dayTaken : styles.dayNone;
+    if (day.taken >= day.expected) return styles.dayTaken;
+    if (day.taken > 0) return styles.dayPartial;
+    return styles.dayMissed;
+  };
+
+  const recent = logs.slice(-RECENT_LOGS).reverse();
+  const canLog = !!logDose && status === 'active' && (schedule?.kind === 'as-needed' || !!nextDose || !schedule);
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.headerRow}>
+        <Text style={styles.heading}>Adherence</Text>
+        <View style={[styles.statusPill, status === 'active' ? styles.statusActive : styles.statusInactive]}>
+          <Text style={[styles.statusText, status === 'active' ? styles.statusTextActive : styles.statusTextInactive]}>
+            {status === 'active' ? 'Active' : status === 'stopped' ? 'Stopped' : 'Not started'}
+          </Text>
+        </View>
+      </View>
+      {scheduleLabel ? <Text style={styles.schedule}>{scheduleLabel}</Text> : null}
+
+      {canLog ? (
+        <View style={styles.logRow}>
+          <Text style={styles.logPrompt}>
+            {nextDose ? `Dose at ${formatDoseTime(timeOf(nextDose))}` : 'Log a dose'}
+          </Text>
+          <TouchableOpacity
+            style={[styles.logButton, styles.logButtonPrimary]}
+            onPress={() => handleLog('taken')}
+            disabled={saving || logging}
+            testID="medication-log-taken"
+          >
+            <Text style={styles.logButtonPrimaryText}>Taken</Text>
+          </TouchableOpacity>
+          {nextDose ? (
+            <TouchableOpacity
+              style={styles.logButton}
+              onPress={() => handleLog('skipped')}
+              disabled={saving || logging}
+              testID="medication-log-skipped"
+            >
+              <Text style={styles.logButtonText}>Skip</Text>
+            </TouchableOpacity>
+          ) : null}
+        </View>
+      ) : null}
+
+      <View style={styles.strip}>
+        {strip.days.map((day) => (
+          <View key={day.date} style={styles.dayColumn}>
+            <View style={[styles.dayCell, dayStyle(day)]} />
+            <Text style={styles.dayLabel}>{weekdayLetter(day.date)}</Text>
+          </View>
+        ))}
+      </View>
+      <Text style={styles.rate}>
+        {monthly.rate === null
+          ? `${monthly.taken} dose${monthly.taken === 1 ? '' : 's'} logged in the last ${RATE_DAYS} days`
+          : `${Math.round(monthly.rate * 100)}% of scheduled doses taken · last ${RATE_DAYS} days`}
+      </Text>
+
+      {recent.length > 0 ? (
+        <View style={styles.recent}>
+          {recent.map((log) => (
+            <Text key={`${log.loggedAt}-${log.status}`} style={styles.recentItem}>
+              {log.status === 'taken' ? 'Taken' : 'Skipped'} · {formatLogTime(log.scheduledFor ?? log.loggedAt)}
+            </Text>
+          ))}
+        </View>
+      ) : null}
+
+      {reminderTarget ? (
+        <View style={styles.reminderRow}>
+          <View style={styles.reminderText}>
+            <Text style={styles.reminderLabel}>Dose & refill reminders</Text>
+            <Text style={styles.reminderHint}>
+              {fields.refillDate ? `Refill due ${fields.refillDate}` : 'Add a refill date to get a refill reminder'}
+            </Text>
+          </View>
+          <Switch
+            value={remindersOn}
+            onValueChange={handleToggleReminders}
+            disabled={remindersBusy}
+            trackColor={{ true: theme.colors.secondary, false: theme.colors.border }}
+          />
+        </View>
+      ) : null}
+    </View>
+  );
+}
+
+function timeOf(date: Date): string {
+  return `${String(date.getHours()).padStart(2, '0')}:${String(date.getMinutes()).padStart(2, '0')}`;
+}
+
+function weekdayLetter(dateKey: string): string {
+  const [year, month, day] = dateKey.split('-').map(Number);
+  return ['S', 'M', 'T', 'W', 'T', 'F', 'S'][new Date(year, month - 1, day).getDay()];
+}
+
+function formatLogTime(iso: string): string {
+  const date = new Date(iso);
+  return `${date.toLocaleDateString('en-US', { month: 'short', day: 'numeric' })}, ${formatDoseTime(timeOf(date))}`;
+}
+
+const createStyles = createThemedStyles((theme) => ({
+  container: {
+    borderWidth: StyleSheet.hairlineWidth,
+    borderColor: theme.colors.border,
+    borderRadius: 10,
+    paddingHorizontal: 12,
+    paddingVertical: 12,
+    backgroundColor: theme.colors.surfaceSubtle,
+    gap: 10,
+  },
+  headerRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  heading: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: theme.colors.textSecondary,
+    textTransform: 'uppercase',
+  },
+  statusPill: {
+    borderRadius: 999,
+    paddingHorizontal: 10,
+    paddingVertical: 3,
+  },
+  statusActive: {
+    backgroundColor: theme.colors.successSoft,
+  },
+  statusInactive: {
+    backgroundColor: theme.colors.surface,
+  },
+  statusText: {
+    fontSize: 12,
+    fontWeight: '700',
+  },
+  statusTextActive: {
+    color: theme.colors.success,
+  },
+  statusTextInactive: {
+    color: theme.colors.textMuted,
+  },
+  schedule: {
+    fontSize: 15,
+    fontWeight: '500',
+    color: theme.colors.text,
+  },
+  logRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  logPrompt: {
+    flex: 1,
+    fontSize: 14,
+    color: theme.colors.textSecondary,
+  },
+  logButton: {
+    borderWidth: 1,
+    borderColor: theme.colors.inputBorder,
+    borderRadius: 999,
+    paddingHorizontal: 14,
+    paddingVertical: 7,
+    backgroundColor: theme.colors.surface,
+  },
+  logButtonPrimary: {
+    borderColor: theme.colors.secondary,
+    backgroundColor: theme.colors.secondarySoft,
+  },
+  logButtonText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: theme.colors.textSecondary,
+  },
+  logButtonPrimaryText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: theme.colors.secondary,
+  },
+  strip: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+  },
+  dayColumn: {
+    alignItems: 'center',
+    gap: 4,
+  },
+  dayCell: {
+    width: 16,
+    height: 16,
+    borderRadius: 4,
+  },
+  dayNone: {
+    backgroundColor: theme.colors.surface,
+    borderWidth: StyleSheet.hairlineWidth,
+    borderColor: theme.colors.border,
+  },
+  dayTaken: {
+    backgroundColor: theme.colors.success,
+  },
+  dayPartial: {
+    backgroundColor: theme.colors.warning,
+  },
+  dayMissed: {
+    backgroundColor: theme.colors.danger,
+  },
+  dayLabel: {
+    fontSize: 10,
+    color: theme.colors.textMuted,
+  },
+  rate: {
+    fontSize: 13,
+    color: theme.colors.textSecondary,
+  },
+  recent: {
+    gap: 2,
+  },
+  recentItem: {
+    fontSize: 13,
+    color: theme.colors.textMuted,
+  },
+  reminderRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+    borderTopWidth: StyleSheet.hairlineWidth,
+    borderTopColor: theme.colors.border,
+    paddingTop: 10,
+  },
+  reminderText: {
+    flex: 1,
+  },
+  reminderLabel: {
+    fontSize: 15,
+    fontWeight: '500',
+    color: theme.colors.text,
+  },
+  reminderHint: {
+    fontSize: 12,
+    color: theme.colors.textMuted,
+    marginTop: 2,
+  },
+}));
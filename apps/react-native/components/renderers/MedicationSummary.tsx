@@ -20,6 +20,7 @@ import {
 } from '../../core/markdown/medicationEntry';
 import { DOSAGE_PRESETS, FREQUENCY_PRESETS } from '../../core/medication/options';
 import { extractTitle } from '../../core/binder/DocumentModel';
+import { MedicationAdherence } from './MedicationAdherence';
 
 function isDosagePreset(value: string) {
   return DOSAGE_PRESETS.includes(value as (typeof DOSAGE_PRESETS)[number]);
@@ -37,6 +38,10 @@ export function MedicationSummary({
   onRequestEdit,
   saving = false,
   saveRef,
+  binderId,
+  entryPath,
+  loadDoseLogs,
+  logDose,
 }: RendererProps) {
   const theme = useTheme();
   const styles = useThemedStyles(createStyles);
@@ -50,6 +55,7 @@ export function MedicationSummary({
     frequency: fields?.frequency || '',
     startDate: fields?.startDate || '',
     stopDate: fields?.stopDate || '',
+    refillDate: fields?.refillDate || '',
   });
   const [dosageMenuOpen, setDosageMenuOpen] = useState(false);
   const [showCustomDosageInput, setShowCustomDosageInput] = useState(() => {
@@ -67,6 +73,7 @@ export function MedicationSummary({
       frequency: fields?.frequency || '',
       startDate: fields?.startDate || '',
       stopDate: fields?.stopDate || '',
+      refillDate: fields?.refillDate || '',
     });
     setShowCustomDosageInput(nextDosage.length > 0 && !isDosagePreset(nextDosage));
     setDosageMenuOpen(false);
@@ -75,6 +82,7 @@ export function MedicationSummary({
     fields?.dosage,
     fields?.frequency,
     fields?.name,
+    fields?.refillDate,
     fields?.startDate,
     fields?.stopDate,
     title,
@@ -88,6 +96,7 @@ export function MedicationSummary({
     const frequency = draft.frequency.trim();
     const startDate = draft.startDate.trim();
     const stopDate = draft.stopDate.trim();
+    const refillDate = draft.refillDate.trim();
 
     if (!name || !dosage || !frequency || !startDate) {
       Alert.alert('Missing Fields', 'Please fill out name, dosage, frequency, and start date.');
@@ -102,6 +111,7 @@ export function MedicationSummary({
         frequency,
         startDate,
         stopDate: stopDate || undefined,
+        refillDate: refillDate || undefined,
       }),
       metadata: {
         ...doc.metadata,
@@ -336,6 +346,44 @@ export function MedicationSummary({
           </TouchableOpacity>
         )}
       </View>
+
+      {/* Refill Date */}
+      <View style={styles.medicationRow}>
+        <Text style={styles.medicationLabel}>Refill Due</Text>
+        {editing ? (
+          <TextInput
+            style={styles.medicationInput}
+            value={draft.refillDate}
+            onChangeText={(refillDate) => setDraft((prev) => ({ ...prev, refillDate }))}
+            placeholder="YYYY-MM-DD (optional)"
+            placeholderTextColor={theme.colors.inputPlaceholder}
+            autoCapitalize="none"
+            keyboardType="numbers-and-punctuation"
+          />
+        ) : (
+          <TouchableOpacity
+            style={styles.medicationValueShell}
+            onPress={onRequestEdit}
+            activeOpacity={0.7}
+            disabled={!onRequestEdit}
+          >
+            <Text style={styles.medicationValue}>
+              {fields?.refillDate || '—'}
+            </Text>
+          </TouchableOpacity>
+        )}
+      </View>
+
+      {!editing && fields ? (
+        <MedicationAdherence
+          doc={doc}
+          fields={fields}
+          loadDoseLogs={loadDoseLogs}
+          logDose={logDose}
+          saving={saving}
+          reminderTarget={binderId && entryPath ? { binderId, entryPath } : undefined}
+        />
+      ) : null}
     </View>
   );
 }
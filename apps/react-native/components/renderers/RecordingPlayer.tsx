@@ -0,0 +1,334 @@
+// components/renderers/RecordingPlayer.tsx
+// Audio recording with its transcript. The recording is decrypted to a temp
+// file for playback (removed when the screen closes); the segment being
+// played is highlighted and tapping a segment seeks to it. Recordings
+// without a transcript offer to transcribe on the device.
+
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { ActivityIndicator, Alert, StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+import RNFS from 'react-native-fs';
+import type { AVPlaybackStatus } from 'expo-av';
+import type { RendererProps } from '../registry/componentRegistry';
+import {
+  activeSegmentIndex,
+  findTranscript,
+  formatTimestamp,
+  isTranscriptShortened,
+  parseTranscript,
+  withTranscript,
+} from '../../core/audio/transcript';
+import { encode as b64encode } from '../../core/crypto/base64';
+import { useTranscription } from '../../hooks/useTranscription';
+import { createThemedStyles, useThemedStyles } from '../../theme';
+
+type Sound = import('expo-av').Audio.Sound;
+
+const PROGRESS_INTERVAL_MS = 250;
+const SKIP_BACK_MS = 15_000;
+
+export function RecordingPlayer({ doc, onSave, saving = false, loadSidecar }: RendererProps) {
+  const styles = useThemedStyles(createStyles);
+  const { available, transcribing, transcribe, engineLabel } = useTranscription();
+
+  const soundRef = useRef<Sound | null>(null);
+  const [fileUri, setFileUri] = useState<string | null>(null);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [positionMs, setPositionMs] = useState(0);
+  const [durationMs, setDurationMs] = useState(doc.metadata.durationMs ?? 0);
+  const [playing, setPlaying] = useState(false);
+
+  const transcript = findTranscript(doc);
+  const segments = useMemo(
+    () => (transcript ? parseTranscript(transcript.value, doc.metadata.durationMs) : []),
+    [transcript, doc.metadata.durationMs],
+  );
+  const activeIndex = fileUri ? activeSegmentIndex(segments, positionMs) : -1;
+
+  const handleStatus = useCallback((status: AVPlaybackStatus) => {
+    if (!status.isLoaded) return;
+    setPositionMs(status.positionMillis);
+    if (status.durationMillis) setDurationMs(status.durationMillis);
+    setPlaying(status.isPlaying);
+  }, []);
+
+  // Decrypt the sidecar to a temp file and load it for playback.
+  useEffect(() => {
+    if (!loadSidecar) return;
+    let cancelled = false;
+    let sound: Sound | null = null;
+    const path = `${RNFS.TemporaryDirectoryPath}/recording-${Date.now()}.${doc.metadata.format ?? 'm4a'}`;
+
+    (async () => {
+      try {
+        const bytes = await loadSidecar(doc.value);
+        await RNFS.writeFile(path, b64encode(bytes), 'base64');
+        if (cancelled) return;
+        const { Audio } = await import('expo-av');
+        await Audio.setAudioModeAsync({ allowsRecordingIOS: false, playsInSilentModeIOS: true });
+        const uri = `file://${path}`;
+        const created = await Audio.Sound.createAsync(
+          { uri },
+          { progressUpdateIntervalMillis: PROGRESS_INTERVAL_MS },
+          handleStatus,
+        );
+        sound = created.sound;
+        if (cancelled) return;
+        soundRef.current = sound;
+        setFileUri(uri);
+      } catch (err) {
+        if (!cancelled) setLoadError(err instanceof Error ? err.message : 'Failed to load recording');
+      }
+    })();
+
+    return () => {
+      cancelled = true;
+      soundRef.current = null;
+      sound?.unloadAsync().catch(() => {});
+      RNFS.unlink(path).catch(() => {});
+    };
+  }, [doc.value, doc.metadata.format, handleStatus, loadSidecar]);
+
+  const handleTogglePlay = useCallback(async () => {
+    const sound = soundRef.current;
+    if (!sound) return;
+    if (playing) {
+      await sound.pauseAsync();
+    } else {
+      // Start over once the end has been reached.
+      if (durationMs > 0 && positionMs >= durationMs) await sound.setPositionAsync(0);
+      await sound.playAsync();
+    }
+  }, [durationMs, playing, positionMs]);
+
+  const handleSkipBack = useCallback(async () => {
+    await soundRef.current?.setPositionAsync(Math.max(0, positionMs - SKIP_BACK_MS));
+  }, [positionMs]);
+
+  const handleSeek = useCallback(async (startMs: number) => {
+    const sound = soundRef.current;
+    if (!sound) return;
+    await sound.setPositionAsync(startMs);
+    await sound.playAsync();
+  }, []);
+
+  const handleTranscribe = useCallback(async () => {
+    if (!fileUri || !onSave) return;
+    await soundRef.current?.pauseAsync();
+    try {
+      const transcriptDoc = await transcribe(fileUri, doc.metadata.durationMs);
+      if (parseTranscript(transcriptDoc.value).length === 0) {
+        Alert.alert('No Speech Found', 'No words were recognized in this recording.');
+        return;
+      }
+      const updated = withTranscript(
+        { ...doc, metadata: { ...doc.metadata, updated: new Date().toISOString() } },
+        transcriptDoc,
+      );
+      await onSave(updated);
+      if (isTranscriptShortened(findTranscript(updated)!)) {
+        Alert.alert(
+          'Transcript Shortened',
+          'This recording is too long to keep its whole transcript. The beginning was saved.',
+        );
+      }
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Unknown error';
+      Alert.alert('Transcription Failed', message);
+    }
+  }, [doc, fileUri, onSave, transcribe]);
+
+  const progress = durationMs > 0 ? Math.min(1, positionMs / durationMs) : 0;
+  const busy = transcribing || saving;
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.player}>
+        {loadError ? (
+          <Text style={styles.error}>{loadError}</Text>
+        ) : (
+          <>
+            <View style={styles.controls}>
+              <TouchableOpacity
+                style={[styles.playButton, !fileUri && styles.disabled]}
+                onPress={handleTogglePlay}
+                disabled={!fileUri}
+              >
+                {fileUri ? (
+                  <Text style={styles.playButtonText}>{playing ? 'Pause' : 'Play'}</Text>
+                ) : (
+                  <ActivityIndicator color={styles.playButtonText.color} />
+                )}
+              </TouchableOpacity>
+              <TouchableOpacity onPress={handleSkipBack} disabled={!fileUri} hitSlop={8}>
+                <Text style={[styles.skipText, !fileUri && styles.disabled]}>−15s</Text>
+              </TouchableOpacity>
+              <Text style={styles.time}>
+                {formatTimestamp(positionMs)} / {formatTimestamp(durationMs)}
+              </Text>
+            </View>
+            <View style={styles.track}>
+              <View style={[styles.trackFill, { width: `${progress * 100}%` }]} />
+            </View>
+          </>
+        )}
+      </View>
+
+      <Text style={styles.sectionLabel}>Transcript</Text>
+      {segments.length > 0 ? (
+        <View style={styles.transcript}>
+          {segments.map((segment, index) => (
+            <TouchableOpacity
+              key={`${segment.startMs}-${index}`}
+              style={[styles.segment, index === activeIndex && styles.segmentActive]}
+              onPress={() => handleSeek(segment.startMs)}
+              disabled={!fileUri}
+            >
+              <Text style={styles.segmentTime}>{formatTimestamp(segment.startMs)}</Text>
+              <Text style={[styles.segmentText, index === activeIndex && styles.segmentTextActive]}>
+                {segment.text}
+              </Text>
+            </TouchableOpacity>
+          ))}
+          {transcript && isTranscriptShortened(transcript) ? (
+            <Text style={styles.hint}>The rest of this recording was too long to transcribe into this entry.</Text>
+          ) : null}
+        </View>
+      ) : (
+        <View style={styles.transcript}>
+          <Text style={styles.hint}>
+            {available
+              ? 'Transcribe this recording to search it and follow along while it plays. The audio is processed on this device.'
+              : 'On-device transcription is not available on this device.'}
+          </Text>
+          {available && onSave ? (
+            <TouchableOpacity
+              style={[styles.transcribeButton, (busy || !fileUri) && styles.disabled]}
+              onPress={handleTranscribe}
+              disabled={busy || !fileUri}
+            >
+              {busy ? (
+                <ActivityIndicator color={styles.transcribeButtonText.color} />
+              ) : (
+                <Text style={styles.transcribeButtonText}>Transcribe</Text>
+              )}
+            </TouchableOpacity>
+          ) : null}
+          {transcribing ? (
+            <Text style={styles.hint}>
+              Transcribing with {engineLabel.toLowerCase()}. Long recordings can take several minutes.
+            </Text>
+          ) : null}
+        </View>
+      )}
+    </View>
+  );
+}
+
+const createStyles = createThemedStyles((theme) => ({
+  container: {
+    gap: 12,
+  },
+  player: {
+    gap: 12,
+  },
+  controls: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 16,
+  },
+  playButton: {
+    minWidth: 72,
+    borderRadius: 8,
+    paddingVertical: 8,
+    paddingHorizontal: 16,
+    alignItems: 'center',
+    backgroundColor: theme.colors.primary,
+  },
+  playButtonText: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: theme.colors.primaryForeground,
+  },
+  skipText: {
+    fontSize: 15,
+    fontWeight: '500',
+    color: theme.colors.primary,
+  },
+  time: {
+    marginLeft: 'auto',
+    fontSize: 13,
+    color: theme.colors.textMuted,
+    fontVariant: ['tabular-nums'],
+  },
+  track: {
+    height: 4,
+    borderRadius: 2,
+    overflow: 'hidden',
+    backgroundColor: theme.colors.border,
+  },
+  trackFill: {
+    height: 4,
+    backgroundColor: theme.colors.primary,
+  },
+  error: {
+    fontSize: 14,
+    color: theme.colors.danger,
+  },
+  sectionLabel: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: theme.colors.textSecondary,
+    textTransform: 'uppercase',
+    marginTop: 4,
+  },
+  transcript: {
+    gap: 4,
+  },
+  segment: {
+    flexDirection: 'row',
+    gap: 10,
+    borderRadius: 6,
+    paddingVertical: 6,
+    paddingHorizontal: 8,
+  },
+  segmentActive: {
+    backgroundColor: theme.colors.primarySoft,
+  },
+  segmentTime: {
+    width: 48,
+    fontSize: 12,
+    color: theme.colors.textMuted,
+    paddingTop: 2,
+    fontVariant: ['tabular-nums'],
+  },
+  segmentText: {
+    flex: 1,
+    fontSize: 15,
+    lineHeight: 21,
+    color: theme.colors.text,
+  },
+  segmentTextActive: {
+    fontWeight: '600',
+  },
+  hint: {
+    fontSize: 13,
+    lineHeight: 18,
+    color: theme.colors.textSecondary,
+  },
+  transcribeButton: {
+    marginTop: 8,
+    borderWidth: StyleSheet.hairlineWidth,
+    borderColor: theme.colors.border,
+    borderRadius: 8,
+    paddingVertical: 10,
+    alignItems: 'center',
+  },
+  transcribeButtonText: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: theme.colors.primary,
+  },
+  disabled: {
+    opacity: 0.5,
+  },
+}));
@@ -0,0 +1,186 @@
+// components/renderers/SummaryFields.tsx
+// Label/value rows shared by the structured renderers. In view mode a value
+// is a tappable shell (tap → onRequestEdit); in edit mode it's an input.
+// Same look as MedicationSummary's rows.
+
+import React, { useEffect, type MutableRefObject } from 'react';
+import { StyleSheet, Text, TextInput, TouchableOpacity, View, type KeyboardTypeOptions } from 'react-native';
+import { createThemedStyles, useTheme, useThemedStyles } from '../../theme';
+
+/** Expose a renderer's save handler to the entry screen's header Save button. */
+export function useRendererSaveRef(
+  saveRef: MutableRefObject<(() => void) | null> | undefined,
+  editing: boolean,
+  handleSave: () => void,
+): void {
+  useEffect(() => {
+    if (saveRef) {
+      saveRef.current = editing ? handleSave : null;
+    }
+    return () => {
+      if (saveRef) saveRef.current = null;
+    };
+  }, [editing, handleSave, saveRef]);
+}
+
+interface SummaryTitleProps {
+  value: string;
+  editing: boolean;
+  onChangeText: (value: string) => void;
+  onRequestEdit?: () => void;
+  placeholder: string;
+}
+
+export function SummaryTitle({ value, editing, onChangeText, onRequestEdit, placeholder }: SummaryTitleProps) {
+  const theme = useTheme();
+  const styles = useThemedStyles(createStyles);
+  if (editing) {
+    return (
+      <TextInput
+        style={styles.titleInput}
+        value={value}
+        onChangeText={onChangeText}
+        placeholder={placeholder}
+        placeholderTextColor={theme.colors.inputPlaceholder}
+        autoCapitalize="words"
+      />
+    );
+  }
+  return (
+    <TouchableOpacity
+      style={styles.titleShell}
+      onPress={onRequestEdit}
+      activeOpacity={0.7}
+      disabled={!onRequestEdit}
+    >
+      <Text style={styles.title}>{value || placeholder}</Text>
+    </TouchableOpacity>
+  );
+}
+
+interface SummaryFieldProps {
+  label: string;
+  value: string;
+  editing: boolean;
+  onChangeText?: (value: string) => void;
+  onRequestEdit?: () => void;
+  placeholder?: string;
+  multiline?: boolean;
+  keyboardType?: KeyboardTypeOptions;
+  /** Replaces the text input in edit mode (e.g. a ChipPicker). */
+  editor?: React.ReactNode;
+}
+
+export function SummaryField({
+  label,
+  value,
+  editing,
+  onChangeText,
+  onRequestEdit,
+  placeholder,
+  multiline = false,
+  keyboardType,
+  editor,
+}: SummaryFieldProps) {
+  const theme = useTheme();
+  const styles = useThemedStyles(createStyles);
+  return (
+    <View style={styles.row}>
+      <Text style={styles.label}>{label}</Text>
+      {editing ? (
+        editor ?? (
+          <TextInput
+            style={[styles.input, multiline && styles.inputMultiline]}
+            value={value}
+            onChangeText={onChangeText}
+            placeholder={placeholder}
+            placeholderTextColor={theme.colors.inputPlaceholder}
+            multiline={multiline}
+            textAlignVertical={multiline ? 'top' : 'auto'}
+            keyboardType={keyboardType}
+          />
+        )
+      ) : (
+        <TouchableOpacity
+          style={styles.valueShell}
+          onPress={onRequestEdit}
+          activeOpacity={0.7}
+          disabled={!onRequestEdit}
+        >
+          <Text style={styles.value}>{value || '—'}</Text>
+        </TouchableOpacity>
+      )}
+    </View>
+  );
+}
+
+const createStyles = createThemedStyles((theme) => ({
+  title: {
+    fontSize: 22,
+    fontWeight: '700',
+    color: theme.colors.text,
+  },
+  titleShell: {
+    borderWidth: StyleSheet.hairlineWidth,
+    borderColor: theme.colors.inputBorder,
+    borderRadius: 10,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    backgroundColor: theme.colors.surface,
+  },
+  titleInput: {
+    fontSize: 22,
+    fontWeight: '700',
+    color: theme.colors.text,
+    borderWidth: StyleSheet.hairlineWidth,
+    borderColor: theme.colors.inputBorder,
+    borderRadius: 10,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    backgroundColor: theme.colors.inputBackground,
+  },
+  row: {
+    borderWidth: StyleSheet.hairlineWidth,
+    borderColor: theme.colors.border,
+    borderRadius: 10,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    backgroundColor: theme.colors.surfaceSubtle,
+  },
+  label: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: theme.colors.textSecondary,
+    textTransform: 'uppercase',
+    marginBottom: 3,
+  },
+  value: {
+    fontSize: 16,
+    fontWeight: '500',
+    color: theme.colors.text,
+  },
+  valueShell: {
+    borderWidth: StyleSheet.hairlineWidth,
+    borderColor: theme.colors.inputBorder,
+    borderRadius: 8,
+    paddingHorizontal: 10,
+    paddingVertical: 8,
+    backgroundColor: theme.colors.surface,
+    minHeight: 40,
+    justifyContent: 'center',
+  },
+  input: {
+    fontSize: 16,
+    color: theme.colors.text,
+    fontWeight: '500',
+    borderWidth: StyleSheet.hairlineWidth,
+    borderColor: theme.colors.inputBorder,
+    borderRadius: 8,
+    paddingHorizontal: 10,
+    paddingVertical: 8,
+    backgroundColor: theme.colors.inputBackground,
+  },
+  inputMultiline: {
+    minHeight: 80,
+  },
+}));
@@ -0,0 +1,127 @@
+// components/renderers/VisitNoteSummary.tsx
+// Visit note shown as its SOAP sections, with optional inline editing.
+
+import React, { useCallback, useEffect, useState } from 'react';
+import { Alert, View } from 'react-native';
+import type { RendererProps } from '../registry/componentRegistry';
+import { SummaryField, SummaryTitle, useRendererSaveRef } from './SummaryFields';
+import {
+  buildVisitMarkdown,
+  parseVisitEntry,
+  SOAP_SECTIONS,
+  soapSectionLabel,
+  type VisitFields,
+} from '../../core/markdown/visitEntry';
+import { extractTitle } from '../../core/binder/DocumentModel';
+
+type Draft = VisitFields & { provider: string; npi: string };
+
+export function VisitNoteSummary({
+  doc,
+  editing = false,
+  onSave,
+  onRequestEdit,
+  saveRef,
+}: RendererProps) {
+  const title = extractTitle(doc);
+  const fields = parseVisitEntry(doc.value).fields;
+
+  const toDraft = useCallback((): Draft => ({
+    title: fields?.title || title,
+    subjective: fields?.subjective ?? '',
+    objective: fields?.objective ?? '',
+    assessment: fields?.assessment ?? '',
+    plan: fields?.plan ?? '',
+    provider: doc.metadata.provider ?? '',
+    npi: doc.metadata.npi ?? '',
+  }), [
+    doc.metadata.npi,
+    doc.metadata.provider,
+    fields?.assessment,
+    fields?.objective,
+    fields?.plan,
+    fields?.subjective,
+    fields?.title,
+    title,
+  ]);
+
+  const [draft, setDraft] = useState(toDraft);
+
+  // Reset draft when the doc changes externally (e.g. after save)
+  useEffect(() => {
+    if (!editing) setDraft(toDraft());
+  }, [editing, toDraft]);
+
+  const setField = (key: keyof Draft) => (value: string) => {
+    setDraft((prev) => ({ ...prev, [key]: value }));
+  };
+
+  const handleSave = useCallback(async () => {
+    if (!onSave) return;
+    if (!draft.title.trim()) {
+      Alert.alert('Missing Fields', 'Please enter a title for this visit.');
+      return;
+    }
+
+    const { provider, npi, ...visit } = draft;
+    const { provider: _provider, npi: _npi, ...metadata } = doc.metadata;
+    await onSave({
+      ...doc,
+      value: buildVisitMarkdown(visit),
+      metadata: {
+        ...metadata,
+        type: 'visit',
+        updated: new Date().toISOString(),
+        ...(provider.trim() ? { provider: provider.trim() } : {}),
+        ...(npi.trim() ? { npi: npi.trim() } : {}),
+      },
+      renderer: 'VisitNoteSummary',
+      editor: 'VisitNoteForm',
+    });
+  }, [doc, draft, onSave]);
+
+  useRendererSaveRef(saveRef, editing, handleSave);
+
+  const shown = editing ? draft : toDraft();
+
+  return (
+    <View style={{ gap: 10 }}>
+      <SummaryTitle
+        value={shown.title}
+        editing={editing}
+        onChangeText={setField('title')}
+        onRequestEdit={onRequestEdit}
+        placeholder="Visit title"
+      />
+      <SummaryField
+        label="Provider"
+        value={shown.provider}
+        editing={editing}
+        onChangeText={setField('provider')}
+        onRequestEdit={onRequestEdit}
+        placeholder="Dr. Ana Patel"
+      />
+      {editing || shown.npi ? (
+        <SummaryField
+          label="NPI"
+          value={shown.npi}
+          editing={editing}
+          onChangeText={setField('npi')}
+          onRequestEdit={onRequestEdit}
+          keyboardType="number-pad"
+        />
+      ) : null}
+      {SOAP_SECTIONS.map((section) => (
+        <SummaryField
+          key={section}
+          label={soapSectionLabel(section)}
+          value={shown[section]}
+          editing={editing}
+          onChangeText={setField(section)}
+          onRequestEdit={onRequestEdit}
+          multiline
+        />
+      ))}
+    </View>
+  );
+}
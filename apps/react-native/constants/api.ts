@@ -13,6 +13,8 @@ export const ENDPOINTS = {
   googleToken: `${API_BASE_URL}/api/auth/google/token`,
   appleToken: `${API_BASE_URL}/api/auth/apple/token`,
   linkNostr: `${API_BASE_URL}/api/auth/link-nostr`,
+  rotateNostrKey: `${API_BASE_URL}/api/auth/rotate-nostr-key`,
+  userKeys: `${API_BASE_URL}/api/user/keys`,
   deleteAccount: `${API_BASE_URL}/api/auth/account`,
   me: `${API_BASE_URL}/api/auth/me`,
 } as const;
@@ -21,3 +23,9 @@ export const ENDPOINTS = {
 export function gitRepoUrl(repoId: string): string {
   return `${API_BASE_URL}/api/mgit/repos/${repoId}`;
 }
+
+// Caregiver / family delegates of a binder (owner only)
+export function repoDelegatesUrl(repoId: string, pubkey?: string): string {
+  const base = `${API_BASE_URL}/api/auth/repos/${encodeURIComponent(repoId)}/delegates`;
+  return pubkey ? `${base}/${pubkey}` : base;
+}
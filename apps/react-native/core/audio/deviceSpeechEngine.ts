@@ -0,0 +1,110 @@
+// core/audio/deviceSpeechEngine.ts
+// Transcription engine backed by the platform speech recognizer (SFSpeech on
+// iOS, SpeechRecognizer on Android) running a file source with on-device
+// recognition required, so the recording never leaves the phone.
+
+import type { ExpoSpeechRecognitionResult } from 'expo-speech-recognition';
+import type { TimedWord, TranscribeOptions, TranscriptionEngine } from './transcript';
+
+type SpeechModule = typeof import('expo-speech-recognition');
+
+const DEFAULT_LOCALE = 'en-US';
+
+let cachedSpeechModule: SpeechModule | null = null;
+
+// Loaded on first use so builds without the native module can still open recordings.
+async function getSpeechModule(): Promise<SpeechModule> {
+  if (cachedSpeechModule) return cachedSpeechModule;
+  try {
+    cachedSpeechModule = await import('expo-speech-recognition');
+    return cachedSpeechModule;
+  } catch (err) {
+    const reason = err instanceof Error ? err.message : String(err);
+    throw new Error(
+      `Speech recognition native module unavailable (${reason}). Rebuild iOS with: npx expo run:ios`,
+    );
+  }
+}
+
+/**
+ * Final results carry per-word timings where the platform supports them.
+ * Older Android recognizers return text only; keep it, placed after the
+ * previous words, so nothing said is dropped.
+ */
+function wordsFromResult(result: ExpoSpeechRecognitionResult, previousEndMs: number): TimedWord[] {
+  if (result.segments?.length) {
+    return result.segments.map((segment) => ({
+      startMs: segment.startTimeMillis,
+      endMs: segment.endTimeMillis,
+      text: segment.segment,
+    }));
+  }
+  const text = result.transcript.trim();
+  return text ? [{ startMs: previousEndMs, endMs: previousEndMs, text }] : [];
+}
+
+export const deviceSpeechEngine: TranscriptionEngine = {
+  id: 'device-speech',
+  label: 'On-device speech recognition',
+
+  async isAvailable() {
+    try {
+      const { ExpoSpeechRecognitionModule } = await getSpeechModule();
+      return ExpoSpeechRecognitionModule.isRecognitionAvailable()
+        && ExpoSpeechRecognitionModule.supportsOnDeviceRecognition();
+    } catch {
+      return false;
+    }
+  },
+
+  async transcribe(audioUri: string, options: TranscribeOptions = {}) {
+    const { addSpeechRecognitionListener, ExpoSpeechRecognitionModule } = await getSpeechModule();
+    const permission = await ExpoSpeechRecognitionModule.requestSpeechRecognizerPermissionsAsync();
+    if (!permission.granted) {
+      throw new Error('Speech recognition permission denied');
+    }
+
+    return new Promise<TimedWord[]>((resolve, reject) => {
+      const words: TimedWord[] = [];
+      let failed = false;
+
+      const subscriptions = [
+        addSpeechRecognitionListener('result', (event) => {
+          if (!event.isFinal || event.results.length === 0) return;
+          const previousEndMs = words.length > 0 ? words[words.length - 1].endMs : 0;
+          words.push(...wordsFromResult(event.results[0], previousEndMs));
+        }),
+        addSpeechRecognitionListener('error', (event) => {
+          // A recording with no speech in it is an empty transcript, not a failure.
+          if (event.error === 'no-speech') return;
+          failed = true;
+          cleanup();
+          reject(new Error(event.message || `Speech recognition failed (${event.error})`));
+        }),
+        addSpeechRecognitionListener('end', () => {
+          cleanup();
+          if (!failed) resolve(words);
+        }),
+      ];
+
+      function cleanup() {
+        for (const subscription of subscriptions) subscription.remove();
+      }
+
+      try {
+        ExpoSpeechRecognitionModule.start({
+          lang: options.locale ?? DEFAULT_LOCALE,
+          interimResults: false,
+          continuous: true,
+          requiresOnDeviceRecognition: true,
+          addsPunctuation: true,
+          audioSource: { uri: audioUri },
+        });
+      } catch (err) {
+        failed = true;
+        cleanup();
+        reject(err);
+      }
+    });
+  },
+};
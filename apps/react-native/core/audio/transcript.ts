@@ -0,0 +1,223 @@
+// core/audio/transcript.ts
+// Timestamped transcripts for audio recordings. A transcription engine turns
+// the decrypted recording into timed words; those are grouped into segments
+// and stored as a `transcript` child of the recording's attachment_ref, one
+// `[mm:ss] text` line per segment. The lines are plain markdown so the
+// transcript stays readable on any client and search can index it.
+
+import type { MedicalDocument } from '../../types/document';
+import { createDocument, documentTextBudget, jsonTextByteLength } from '../binder/DocumentModel';
+
+// --- Types ---
+
+export interface TranscriptSegment {
+  startMs: number;
+  endMs: number;
+  text: string;
+}
+
+/** A recognized word (or short phrase) with its position in the recording. */
+export interface TimedWord {
+  startMs: number;
+  endMs: number;
+  text: string;
+}
+
+export interface TranscribeOptions {
+  /** BCP-47 locale, e.g. 'en-US'. */
+  locale?: string;
+  /** Length of the recording, when known. */
+  durationMs?: number;
+}
+
+/**
+ * A speech-to-text engine that runs on the device. Engines receive a local
+ * file URI for the decrypted recording and must not send audio off-device.
+ */
+export interface TranscriptionEngine {
+  id: string;
+  label: string;
+  isAvailable(): Promise<boolean>;
+  transcribe(audioUri: string, options?: TranscribeOptions): Promise<TimedWord[]>;
+}
+
+export const TRANSCRIPT_TYPE = 'transcript';
+export const TRANSCRIPT_TITLE = 'Transcript';
+/** Last line of a transcript cut to fit its entry. */
+export const TRANSCRIPT_SHORTENED_NOTE = '_Transcript shortened; the rest of the recording did not fit in this entry._';
+
+/** Start a new segment after a pause this long. */
+const PAUSE_BREAK_MS = 1500;
+/** Never let one segment run longer than this. */
+const MAX_SEGMENT_MS = 20_000;
+/** End a segment at a sentence boundary once it is at least this long. */
+const MIN_SENTENCE_SEGMENT_MS = 4000;
+
+const SEGMENT_LINE_RE = /^\[(?:(\d+):)?(\d{1,2}):(\d{2})\]\s*(.*)$/;
+
+// --- Engine registry ---
+
+let activeEngine: TranscriptionEngine | null = null;
+
+/** Install the engine used for new transcripts (null to remove it). */
+export function setTranscriptionEngine(engine: TranscriptionEngine | null): void {
+  activeEngine = engine;
+}
+
+export function getTranscriptionEngine(): TranscriptionEngine | null {
+  return activeEngine;
+}
+
+// --- Segments ---
+
+/**
+ * Group timed words into transcript segments. A segment ends at a pause, at
+ * the end of a sentence once it has some length, or when it gets too long.
+ */
+export function groupTimedWords(words: TimedWord[]): TranscriptSegment[] {
+  const segments: TranscriptSegment[] = [];
+  let current: TranscriptSegment | null = null;
+
+  for (const word of words) {
+    const text = word.text.replace(/\s+/g, ' ').trim();
+    if (!text) continue;
+
+    if (
+      current
+      && (word.startMs - current.endMs >= PAUSE_BREAK_MS
+        || word.endMs - current.startMs > MAX_SEGMENT_MS)
+    ) {
+      segments.push(current);
+      current = null;
+    }
+
+    if (current) {
+      current.text = `${current.text} ${text}`;
+      current.endMs = Math.max(current.endMs, word.endMs);
+    } else {
+      current = { startMs: word.startMs, endMs: Math.max(word.startMs, word.endMs), text };
+    }
+
+    if (/[.?!]["')\]]?$/.test(text) && current.endMs - current.startMs >= MIN_SENTENCE_SEGMENT_MS) {
+      segments.push(current);
+      current = null;
+    }
+  }
+
+  if (current) segments.push(current);
+  return segments;
+}
+
+/** `m:ss` below an hour, `h:mm:ss` from there. */
+export function formatTimestamp(ms: number): string {
+  const totalSeconds = Math.max(0, Math.floor(ms / 1000));
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = String(totalSeconds % 60).padStart(2, '0');
+  return hours > 0 ? `${hours}:${String(minutes).padStart(2, '0')}:${seconds}` : `${minutes}:${seconds}`;
+}
+
+/**
+ * Index of the segment playing at `positionMs`: the last one that has
+ * started. -1 before the first segment.
+ */
+export function activeSegmentIndex(segments: TranscriptSegment[], positionMs: number): number {
+  let low = 0;
+  let high = segments.length - 1;
+  let found = -1;
+  while (low <= high) {
+    const mid = (low + high) >> 1;
+    if (segments[mid].startMs <= positionMs) {
+      found = mid;
+      low = mid + 1;
+    } else {
+      high = mid - 1;
+    }
+  }
+  return found;
+}
+
+// --- Documents ---
+
+export function isTranscriptDocument(doc: MedicalDocument): boolean {
+  return doc.metadata.type === TRANSCRIPT_TYPE;
+}
+
+export function findTranscript(doc: MedicalDocument): MedicalDocument | undefined {
+  return doc.children.find(isTranscriptDocument);
+}
+
+export function buildTranscriptMarkdown(segments: TranscriptSegment[]): string {
+  const lines = segments.map((segment) => `[${formatTimestamp(segment.startMs)}] ${segment.text}`);
+  return [`# ${TRANSCRIPT_TITLE}`, lines.join('\n')].join('\n\n') + '\n';
+}
+
+export function createTranscriptDocument(segments: TranscriptSegment[]): MedicalDocument {
+  return createDocument(buildTranscriptMarkdown(segments), TRANSCRIPT_TYPE);
+}
+
+/**
+ * Read segments back from transcript markdown. Each segment ends where the
+ * next one starts; the last one ends at `durationMs` when known.
+ */
+export function parseTranscript(markdown: string, durationMs?: number): TranscriptSegment[] {
+  const starts: { startMs: number; text: string }[] = [];
+  for (const line of markdown.split('\n')) {
+    const match = line.trim().match(SEGMENT_LINE_RE);
+    if (!match) continue;
+    const [, hours, minutes, seconds, text] = match;
+    const startMs = ((Number(hours ?? 0) * 60 + Number(minutes)) * 60 + Number(seconds)) * 1000;
+    starts.push({ startMs, text: text.trim() });
+  }
+
+  return starts.map((segment, index) => {
+    const next = starts[index + 1];
+    const endMs = next ? next.startMs : Math.max(segment.startMs, durationMs ?? segment.startMs);
+    return { ...segment, endMs };
+  });
+}
+
+/** The transcript's words without timestamps, for search. */
+export function transcriptPlainText(doc: MedicalDocument): string {
+  const transcript = findTranscript(doc);
+  if (!transcript) return '';
+  return parseTranscript(transcript.value).map((segment) => segment.text).filter(Boolean).join('\n');
+}
+
+export function isTranscriptShortened(transcript: MedicalDocument): boolean {
+  return transcript.value.trimEnd().endsWith(TRANSCRIPT_SHORTENED_NOTE);
+}
+
+/**
+ * The recording with its transcript child added or replaced. The entry is
+ * one NIP-44 message, so a transcript too long for it keeps its first
+ * segments and ends with TRANSCRIPT_SHORTENED_NOTE.
+ */
+export function withTranscript(doc: MedicalDocument, transcript: MedicalDocument): MedicalDocument {
+  const children = doc.children.filter((child) => !isTranscriptDocument(child));
+  const withValue = (value: string): MedicalDocument => ({
+    ...doc,
+    children: [...children, { ...transcript, value }],
+  });
+
+  let budget = documentTextBudget(withValue(''));
+  if (jsonTextByteLength(transcript.value) <= budget) return withValue(transcript.value);
+
+  budget -= jsonTextByteLength(`\n${TRANSCRIPT_SHORTENED_NOTE}\n`);
+  const kept: string[] = [];
+  for (const line of transcript.value.trimEnd().split('\n')) {
+    const cost = jsonTextByteLength(`${line}\n`);
+    if (cost > budget) break;
+    kept.push(line);
+    budget -= cost;
+  }
+  return withValue(`${kept.join('\n')}\n\n${TRANSCRIPT_SHORTENED_NOTE}\n`);
+}
+
+// --- Recordings ---
+
+const AUDIO_FORMATS = ['m4a', 'mp3', 'wav', 'aac', 'ogg'];
+
+export function isAudioRecording(doc: MedicalDocument): boolean {
+  return doc.metadata.type === 'attachment_ref' && AUDIO_FORMATS.includes(doc.metadata.format ?? '');
+}
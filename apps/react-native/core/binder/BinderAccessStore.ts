@@ -0,0 +1,34 @@
+// core/binder/BinderAccessStore.ts
+// The signed-in user's access to each binder, as reported by the repo list:
+// 'admin' for binders they own, or the role an owner delegated to them.
+//
+// Binder screens read it to hide actions the server would refuse, and
+// BinderService reads it to tell a delegate's refused push (drop the local
+// commits) from an owner's (keep them queued for the user to sort out).
+
+import type { DelegateRole } from './BinderDelegation';
+
+export type BinderAccess = 'admin' | DelegateRole;
+
+const accessByBinder = new Map<string, BinderAccess>();
+
+/** Record access from the repo list. Unknown values count as the owner. */
+export function setBinderAccess(binderId: string, access: string | undefined): void {
+  accessByBinder.set(
+    binderId,
+    access === 'read-only' || access === 'read-write' ? access : 'admin',
+  );
+}
+
+/** Access for a binder; binders missing from the last repo list count as the owner's. */
+export function getBinderAccess(binderId: string): BinderAccess {
+  return accessByBinder.get(binderId) ?? 'admin';
+}
+
+export function isBinderOwner(binderId: string): boolean {
+  return getBinderAccess(binderId) === 'admin';
+}
+
+export function isReadOnlyBinder(binderId: string): boolean {
+  return getBinderAccess(binderId) === 'read-only';
+}
@@ -0,0 +1,80 @@
+// core/binder/BinderDelegation.ts
+// Server side of delegated binder access: who the owner has shared a binder
+// with, and in which role. auth-api stores the role and mgit-api enforces it;
+// the binder's keyring (BinderKeyring) decides who can decrypt.
+
+import { bytesToHex } from '@noble/hashes/utils.js';
+import { bech32 } from '@scure/base';
+import { repoDelegatesUrl } from '../../constants/api';
+
+export type DelegateRole = 'read-only' | 'read-write';
+
+export interface BinderDelegate {
+  pubkey: string;
+  firstName: string | null;
+  lastName: string | null;
+  email: string | null;
+  role: DelegateRole;
+  grantedAt: string;
+}
+
+export const DELEGATE_ROLE_LABELS: Record<DelegateRole, string> = {
+  'read-only': 'View only',
+  'read-write': 'Can edit',
+};
+
+async function request(url: string, jwt: string, init: RequestInit = {}): Promise<any> {
+  const res = await fetch(url, {
+    ...init,
+    headers: {
+      Authorization: `Bearer ${jwt}`,
+      'Content-Type': 'application/json',
+      ...init.headers,
+    },
+  });
+  const data = await res.json().catch(() => ({}));
+  if (!res.ok) throw new Error(data.error || `Server returned ${res.status}`);
+  return data;
+}
+
+export async function listDelegates(repoId: string, jwt: string): Promise<BinderDelegate[]> {
+  const data = await request(repoDelegatesUrl(repoId), jwt);
+  return data.delegates ?? [];
+}
+
+/** Grant or change a delegate's role. The pubkey must belong to an account. */
+export async function grantDelegate(
+  repoId: string,
+  pubkey: string,
+  role: DelegateRole,
+  jwt: string,
+): Promise<void> {
+  await request(repoDelegatesUrl(repoId), jwt, {
+    method: 'POST',
+    body: JSON.stringify({ pubkey, role }),
+  });
+}
+
+export async function revokeDelegate(repoId: string, pubkey: string, jwt: string): Promise<void> {
+  await request(repoDelegatesUrl(repoId, pubkey), jwt, { method: 'DELETE' });
+}
+
+export function delegateDisplayName(delegate: BinderDelegate): string {
+  const name = [delegate.firstName, delegate.lastName].filter(Boolean).join(' ');
+  return name || delegate.email || `${delegate.pubkey.slice(0, 12)}…`;
+}
+
+/** Accept an npub or 64-char hex pubkey as typed or pasted. Throws with a message fit for an alert. */
+export function parsePubkeyInput(input: string): string {
+  const trimmed = input.trim();
+  if (/^[0-9a-fA-F]{64}$/.test(trimmed)) return trimmed.toLowerCase();
+  if (trimmed.toLowerCase().startsWith('npub1')) {
+    try {
+      const { prefix, bytes } = bech32.decodeToBytes(trimmed.toLowerCase());
+      if (prefix === 'npub' && bytes.length === 32) return bytesToHex(bytes);
+    } catch {
+      // fall through to the error below
+    }
+  }
+  throw new Error('Enter their npub or 64-character hex public key.');
+}
@@ -0,0 +1,186 @@
+// core/binder/BinderKeyring.ts
+// Per-binder content key for binders shared with caregivers or family.
+//
+// An unshared binder is encrypted straight under the owner's master
+// conversation key. Sharing it moves the content to a random binder key,
+// and `.binder-keys` at the repo root holds that key wrapped (NIP-44) to each
+// member with the owner↔member conversation key — the same key from either
+// side, so a delegate unwraps with their own privkey and the owner's pubkey.
+// Roles (read-only / read-write) live on auth-api and are enforced by mgit-api;
+// the keyring only decides who can decrypt. Revoking a member re-keys the
+// binder so nothing pushed afterwards opens with what they kept.
+//
+// Unwrapped binder keys are held in memory per repoDir for the session, like
+// BinderCache, so every BinderService for a binder picks the right key.
+
+import { hmac } from '@noble/hashes/hmac.js';
+import { sha256 } from '@noble/hashes/sha2.js';
+import { bytesToHex, concatBytes, hexToBytes, utf8ToBytes } from '@noble/hashes/utils.js';
+import RNFS from 'react-native-fs';
+import { KeyManager } from '../crypto/KeyManager';
+import { generateDEK } from '../crypto/dek';
+import { decrypt, encrypt, getConversationKey } from '../crypto/nip44';
+import { createFSAdapter } from '../git/fsAdapter';
+
+// --- Types ---
+
+export interface BinderKeyring {
+  version: 1;
+  ownerPubkey: string;
+  /** Changes whenever the binder key does, so devices know to unwrap again. */
+  keyId: string;
+  /** Member pubkey → binder key (hex), NIP-44 encrypted to that member. */
+  members: Record<string, string>;
+}
+
+export const KEYRING_FILENAME = '.binder-keys';
+const KEYRING_PATH = '/' + KEYRING_FILENAME;
+const ROTATION_KEY_LABEL = utf8ToBytes('limbo-binder-key-rotation');
+
+// --- Pure helpers ---
+
+export function generateBinderKey(): Uint8Array {
+  return generateDEK();
+}
+
+/**
+ * The binder key a shared binder moves to when its owner rotates to
+ * `ownerPrivkey`. Derived rather than random so an interrupted rotation
+ * resumes onto the same key; without the new privkey it is as unguessable
+ * as a fresh one, so the old keyring in history doesn't lead to it.
+ */
+export function rotatedBinderKey(binderKey: Uint8Array, ownerPrivkey: Uint8Array): Uint8Array {
+  return hmac(sha256, ownerPrivkey, concatBytes(ROTATION_KEY_LABEL, binderKey));
+}
+
+function wrapFor(binderKey: Uint8Array, ownerPrivkey: Uint8Array, memberPubkey: string): string {
+  return encrypt(bytesToHex(binderKey), getConversationKey(ownerPrivkey, memberPubkey));
+}
+
+/** Build a keyring for `binderKey`, readable by the owner and each delegate. */
+export function createKeyring(
+  binderKey: Uint8Array,
+  ownerPrivkey: Uint8Array,
+  delegatePubkeys: string[],
+): BinderKeyring {
+  const ownerPubkey = KeyManager.pubkeyFromPrivkey(ownerPrivkey);
+  const members: Record<string, string> = {};
+  for (const pubkey of [ownerPubkey, ...delegatePubkeys]) {
+    members[pubkey] = wrapFor(binderKey, ownerPrivkey, pubkey);
+  }
+  return { version: 1, ownerPubkey, keyId: bytesToHex(generateDEK().slice(0, 8)), members };
+}
+
+/** Add a delegate to an existing keyring without changing the binder key. */
+export function withKeyringMember(
+  keyring: BinderKeyring,
+  binderKey: Uint8Array,
+  ownerPrivkey: Uint8Array,
+  memberPubkey: string,
+): BinderKeyring {
+  return { ...keyring, members: { ...keyring.members, [memberPubkey]: wrapFor(binderKey, ownerPrivkey, memberPubkey) } };
+}
+
+export function keyringDelegates(keyring: BinderKeyring): string[] {
+  return Object.keys(keyring.members).filter((pubkey) => pubkey !== keyring.ownerPubkey);
+}
+
+/** Unwrap the binder key with the caller's privkey. Throws if they aren't a member. */
+export function unwrapBinderKey(keyring: BinderKeyring, privkey: Uint8Array): Uint8Array {
+  const wrapped = keyring.members[KeyManager.pubkeyFromPrivkey(privkey)];
+  if (!wrapped) throw new Error('This binder has not been shared with your key.');
+  return hexToBytes(decrypt(wrapped, getConversationKey(privkey, keyring.ownerPubkey)));
+}
+
+// --- Keyring file ---
+
+/** Parse `.binder-keys` contents, from the working tree or a past commit. */
+export function parseKeyring(raw: string): BinderKeyring {
+  const parsed = JSON.parse(raw) as BinderKeyring;
+  if (parsed.version !== 1) throw new Error(`Unsupported binder keyring version ${parsed.version}`);
+  return parsed;
+}
+
+export async function readKeyring(repoDir: string): Promise<BinderKeyring | null> {
+  const fs = createFSAdapter(repoDir);
+  let raw: string;
+  try {
+    raw = await fs.promises.readFile(KEYRING_PATH, { encoding: 'utf8' }) as string;
+  } catch {
+    return null;
+  }
+  return parseKeyring(raw);
+}
+
+export async function writeKeyring(repoDir: string, keyring: BinderKeyring): Promise<void> {
+  const fs = createFSAdapter(repoDir);
+  await fs.promises.writeFile(KEYRING_PATH, JSON.stringify(keyring, null, 2) + '\n', { encoding: 'utf8' });
+}
+
+// --- Session registry ---
+
+const binderKeys = new Map<string, { keyId: string; key: Uint8Array }>();
+let identity: Uint8Array | null = null;
+
+/** Set by CryptoProvider once the master key is unlocked; null on lock/logout. */
+export function setKeyringIdentity(privkey: Uint8Array | null): void {
+  identity = privkey;
+  if (!privkey) binderKeys.clear();
+}
+
+/**
+ * Unwrap any keyring (e.g. one from a past commit or a fetched tip) with the
+ * unlocked identity. Null when locked or when the identity wasn't a member.
+ */
+export function unwrapForSession(keyring: BinderKeyring): Uint8Array | null {
+  if (!identity) return null;
+  try {
+    return unwrapBinderKey(keyring, identity);
+  } catch {
+    return null;
+  }
+}
+
+/** The binder key to use for `repoDir`, or undefined for binders under the master key. */
+export function binderKeyFor(repoDir: string): Uint8Array | undefined {
+  return binderKeys.get(repoDir)?.key;
+}
+
+export function setBinderKey(repoDir: string, keyId: string, key: Uint8Array): void {
+  binderKeys.set(repoDir, { keyId, key });
+}
+
+/**
+ * Read the binder's keyring and make its key current for this session.
+ * Returns null for binders without a keyring (master key applies).
+ * Cheap when the keyring hasn't changed since the last unlock.
+ */
+export async function unlockBinder(repoDir: string): Promise<Uint8Array | null> {
+  const keyring = await readKeyring(repoDir);
+  if (!keyring) {
+    binderKeys.delete(repoDir);
+    return null;
+  }
+
+  const current = binderKeys.get(repoDir);
+  if (current?.keyId === keyring.keyId) return current.key;
+  if (!identity) throw new Error('Unlock your encryption key to open this binder.');
+
+  const key = unwrapBinderKey(keyring, identity);
+  setBinderKey(repoDir, keyring.keyId, key);
+  return key;
+}
+
+/** Unlock every cloned binder that has a keyring. Failures are logged, not thrown. */
+export async function unlockClonedBinders(): Promise<void> {
+  const root = `${RNFS.DocumentDirectoryPath}/binders`;
+  if (!(await RNFS.exists(root))) return;
+  for (const entry of await RNFS.readDir(root)) {
+    if (!entry.isDirectory()) continue;
+    try {
+      await unlockBinder(`binders/${entry.name}`);
+    } catch (err) {
+      console.warn(`Could not unlock shared binder ${entry.name}:`, err);
+    }
+  }
+}
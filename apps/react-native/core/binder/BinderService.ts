@@ -2,7 +2,8 @@
 // High-level CRUD for binders. Composes EncryptedIO, FileNaming, and GitEngine.
 // This is the API that hooks call — screens never touch EncryptedIO or GitEngine directly.
 
-import { GitEngine, type GitAuthor } from '../git/GitEngine';
+import { bytesToHex } from '@noble/hashes/utils.js';
+import { GitEngine, type CommitInfo, type GitAuthor } from '../git/GitEngine';
 import { EncryptedIO } from './EncryptedIO';
 import { createFSAdapter } from '../git/fsAdapter';
 import {
@@ -13,32 +14,75 @@ import {
   createPatientInfo,
   createPhotoRef,
   createAudioRef,
+  createScannedDocument,
+  documentFits,
   extractEntryMetadata,
 } from './DocumentModel';
-import { categoryFromPath } from './categories';
+import { categoryFromPath, findCategoryForPath } from './categories';
 import type { MedicalDocument } from '../../types/document';
 import type { EntryMetadata } from './DocumentModel';
 import type { AuthConfig } from '../git/httpTransport';
 import { dirGet, dirSet, dirEvict, dirEvictPrefix, ptEvict, ptEvictPrefix } from './BinderCache';
 import type { DirItem, FolderMeta } from './DirectoryReader';
 import { inferBehavior } from './folderBehavior';
+import {
+  SEARCH_INDEX_VERSION,
+  buildSearchIndexEntry,
+  createEmptySearchIndex,
+  isSearchableDocumentPath,
+  searchIndex,
+  type SearchIndexSnapshot,
+  type SearchResult,
+} from './SearchIndex';
+import { diffDocuments, type DocumentDiff } from './RevisionDiff';
+import { buildLabTrends, type LabTrendSeries, type LabTrendSource } from '../labs/trends';
+import {
+  applyFieldMerge,
+  emptyConflictStore,
+  mergeConflictRecords,
+  syncStateFor,
+  type BinderConflict,
+  type ConflictResolution,
+  type ConflictStore,
+  type SyncStatus,
+} from './SyncConflicts';
+import {
+  clearPushQueueEntry,
+  getPushQueueEntry,
+  isForbiddenPushError,
+  isPushDue,
+  updatePushQueueEntry,
+  withFailedAttempt,
+  withQueuedCommit,
+} from './PushQueue';
+import { isBinderOwner } from './BinderAccessStore';
+import {
+  KEYRING_FILENAME,
+  binderKeyFor,
+  createKeyring,
+  generateBinderKey,
+  keyringDelegates,
+  parseKeyring,
+  readKeyring,
+  setBinderKey,
+  unlockBinder,
+  unwrapBinderKey,
+  unwrapForSession,
+  withKeyringMember,
+  writeKeyring,
+  type BinderKeyring,
+} from './BinderKeyring';
+import { rekeyWorkingTree } from './WorkingTreeRekey';
+import { createDecryptedMergeDriver } from './DecryptedMerge';
 import { decode as b64decode } from '../crypto/base64';
-import { decrypt, encrypt } from '../crypto/nip44';
-import type { MergeDriverCallback } from 'isomorphic-git';
-
-interface Diff3MergeBlock {
-  ok?: string[];
-  conflict?: {
-    a: string[];
-    b: string[];
-  };
-}
-
-const diff3Merge = require('diff3') as (
-  a: string[],
-  o: string[],
-  b: string[],
-) => Diff3MergeBlock[];
+import { decrypt } from '../crypto/nip44';
+import {
+  decodeDoseLogs,
+  doseLogSidecarPath,
+  encodeDoseLogs,
+  isDoseLogSidecarOf,
+  type DoseLog,
+} from '../medication/adherence';
 
 // --- Types ---
 
@@ -54,6 +98,15 @@ export interface PendingSidecarWrite {
   base64Data: string;
 }
 
+export interface AddEntryWithSidecarsOptions {
+  /**
+   * Throw instead of renaming when a sidecar name is already taken, for
+   * entries whose attachment_ref values (or a signature over them) must not
+   * change. Nothing is written when it throws.
+   */
+  keepSidecarNames?: boolean;
+}
+
 export interface ReorderDirectoryItemInput {
   kind: DirItem['kind'];
   relativePath: string;
@@ -63,21 +116,53 @@ interface PendingReorderCommit {
   filesByDir: Map<string, Set<string>>;
 }
 
+export interface BinderSearchResult extends SearchResult {
+  /** Folder display names from the binder root down to the entry's folder. */
+  breadcrumbs: string[];
+}
+
+/** Pseudo revision id for the working copy in history diffs. */
+export const CURRENT_REVISION = 'current';
+
+const DELEGATE_WRITE_REFUSED =
+  "The binder's owner hasn't given you edit access. Your change was not saved.";
+
+const ENTRY_TOO_LARGE =
+  'This entry has too much text to save. Split it into smaller entries or attach the text as a file.';
+
+interface SearchIndexChanges {
+  upserts?: [string, MedicalDocument][];
+  removals?: string[];
+}
+
 // --- BinderService ---
 
 export class BinderService {
   private io: EncryptedIO;
   private info: BinderInfo;
-  private masterConversationKey: Uint8Array;
+  /** Key binder content is encrypted with: the binder key if shared, else the master conversation key. */
+  private contentKey: Uint8Array;
+  /** Encrypted everything before the binder was first shared; history may still need it. */
+  private masterKey: Uint8Array;
   private static writeQueues = new Map<string, Promise<void>>();
   private static pendingReorderCommits = new Map<string, PendingReorderCommit>();
-  private static readonly LINEBREAKS = /^.*(\r?\n|$)/gm;
+  private static searchIndexes = new Map<string, SearchIndexSnapshot>();
+  private static readonly SEARCH_INDEX_PATH = '/.search-index.enc';
+  private static readonly CONFLICTS_PATH = '/.sync-conflicts.enc';
+  /** Conflicts seen by the merge driver during the current pull, or null outside a pull. */
+  private detectedConflicts: BinderConflict[] | null = null;
 
   constructor(info: BinderInfo, masterConversationKey: Uint8Array) {
     this.info = info;
-    this.masterConversationKey = masterConversationKey;
-    const fs = createFSAdapter(info.repoDir);
-    this.io = new EncryptedIO(fs, masterConversationKey, info.repoDir);
+    this.masterKey = masterConversationKey;
+    this.contentKey = binderKeyFor(info.repoDir) ?? masterConversationKey;
+    this.io = new EncryptedIO(createFSAdapter(info.repoDir), this.contentKey, info.repoDir);
+  }
+
+  private useContentKey(key: Uint8Array): void {
+    if (key === this.contentKey) return;
+    this.contentKey = key;
+    this.io = new EncryptedIO(createFSAdapter(this.info.repoDir), key, this.info.repoDir);
   }
 
   private dirCacheKey(dirPath: string): string {
@@ -216,115 +301,105 @@ export class BinderService {
     ptEvictPrefix(`${this.info.repoDir}:`);
   }
 
-  private splitLines(content: string): string[] {
-    return content.match(BinderService.LINEBREAKS) ?? [content];
-  }
-
-  private canonicalizeJsonForMerge(content: string): string {
+  private recordDetectedConflict(
+    path: string,
+    basePlain: string,
+    ourPlain: string,
+    theirPlain: string,
+  ): void {
+    if (!this.detectedConflicts) return;
     try {
-      return JSON.stringify(JSON.parse(content), null, 2) + '\n';
-    } catch {
-      return content;
+      this.detectedConflicts.push({
+        path,
+        detectedAt: new Date().toISOString(),
+        base: basePlain ? JSON.parse(basePlain) as MedicalDocument : null,
+        ours: JSON.parse(ourPlain) as MedicalDocument,
+        theirs: JSON.parse(theirPlain) as MedicalDocument,
+      });
+    } catch (err) {
+      console.warn(`Could not record merge conflict for ${path}`, err);
     }
   }
 
-  private mergeText3Way(
-    branches: string[],
-    baseContent: string,
-    ourContent: string,
-    theirContent: string,
-  ): { cleanMerge: boolean; mergedText: string } {
-    const ours = this.splitLines(ourContent);
-    const base = this.splitLines(baseContent);
-    const theirs = this.splitLines(theirContent);
-    const result = diff3Merge(ours, base, theirs);
-
-    const ourName = branches[1] ?? 'ours';
-    const theirName = branches[2] ?? 'theirs';
-    const markerSize = 7;
-
-    let mergedText = '';
-    let cleanMerge = true;
-
-    for (const item of result) {
-      if (item.ok) {
-        mergedText += item.ok.join('');
-      }
-      if (item.conflict) {
-        cleanMerge = false;
-        mergedText += `${'<'.repeat(markerSize)} ${ourName}\n`;
-        mergedText += item.conflict.a.join('');
-        mergedText += `${'='.repeat(markerSize)}\n`;
-        mergedText += item.conflict.b.join('');
-        mergedText += `${'>'.repeat(markerSize)} ${theirName}\n`;
+  private async pullLatest(): Promise<void> {
+    this.detectedConflicts = [];
+    const ourKey = this.contentKey;
+    let rekeyedTo: Uint8Array | null = null;
+    try {
+      await GitEngine.pull(
+        this.info.repoDir,
+        this.info.repoId,
+        this.info.auth,
+        this.info.author,
+        {
+          // The owner may have re-keyed the binder: merge with the key from
+          // the fetched .binder-keys as well as ours, writing with the new one.
+          mergeDriverFor: async (fetchHead) => {
+            const theirKey = await this.keyringKeyAt(fetchHead);
+            const rekeyed = theirKey && bytesToHex(theirKey) !== bytesToHex(ourKey);
+            if (rekeyed) rekeyedTo = theirKey;
+            return createDecryptedMergeDriver({
+              keys: rekeyed ? [theirKey, ourKey] : [ourKey],
+              outputKey: rekeyed ? theirKey : ourKey,
+              onConflict: (path, basePlain, ourPlain, theirPlain) =>
+                this.recordDetectedConflict(path, basePlain, ourPlain, theirPlain),
+            });
+          },
+        },
+      );
+      if (rekeyedTo) await this.rekeyLocalChanges(ourKey, rekeyedTo);
+    } finally {
+      const detected = this.detectedConflicts;
+      this.detectedConflicts = null;
+      this.evictAllCaches();
+      // The owner may have shared or re-keyed the binder from another device.
+      const binderKey = await unlockBinder(this.info.repoDir);
+      if (binderKey) this.useContentKey(binderKey);
+      if (detected.length > 0) {
+        const store = await this.readConflictStore();
+        await this.writeConflictStore({
+          ...store,
+          conflicts: mergeConflictRecords(store.conflicts, detected),
+        });
       }
     }
-
-    return { cleanMerge, mergedText };
   }
 
-  private createDecryptedMergeDriver(): MergeDriverCallback {
-    return async ({ branches, contents, path }) => {
-      const baseCipher = contents[0] ?? '';
-      const ourCipher = contents[1] ?? '';
-      const theirCipher = contents[2] ?? '';
-
-      const mergeCiphertext = () => {
-        const merged = this.mergeText3Way(branches, baseCipher, ourCipher, theirCipher);
-        if (merged.cleanMerge) return merged;
-        console.warn(`Ciphertext merge conflict in ${path}; using local version.`);
-        return {
-          cleanMerge: true,
-          mergedText: ourCipher,
-        };
-      };
-
-      if (!path.endsWith('.json')) {
-        return mergeCiphertext();
-      }
-
-      try {
-        const basePlain = baseCipher ? decrypt(baseCipher, this.masterConversationKey) : '';
-        const ourPlain = ourCipher ? decrypt(ourCipher, this.masterConversationKey) : '';
-        const theirPlain = theirCipher ? decrypt(theirCipher, this.masterConversationKey) : '';
-
-        const merged = this.mergeText3Way(
-          branches,
-          this.canonicalizeJsonForMerge(basePlain),
-          this.canonicalizeJsonForMerge(ourPlain),
-          this.canonicalizeJsonForMerge(theirPlain),
-        );
+  /**
+   * After a re-keyed merge, files that only changed on this device (and the
+   * device-local sidecars) are still under our old key. Move them to the
+   * fetched key and commit, so they stay readable once the service switches.
+   */
+  private async rekeyLocalChanges(fromKey: Uint8Array, toKey: Uint8Array): Promise<void> {
+    const { rekeyed, skipped } = await rekeyWorkingTree(this.info.repoDir, fromKey, toKey);
+    if (skipped.length > 0) {
+      console.warn(`Re-keyed pull left ${skipped.length} unreadable file(s) as they were:`, skipped);
+    }
+    // Only what was re-keyed: other pending writes (e.g. reorders) commit on their own.
+    if (rekeyed.length > 0) {
+      await GitEngine.commitEntry(this.info.repoDir, rekeyed, 'Re-key local changes', this.info.author);
+    }
+  }
 
-        if (!merged.cleanMerge) {
-          console.warn(`Decrypted merge conflict in ${path}; using local version.`);
-          return {
-            cleanMerge: true,
-            mergedText: encrypt(this.canonicalizeJsonForMerge(ourPlain), this.masterConversationKey),
-          };
-        }
+  // --- Sync conflicts ---
 
-        return {
-          cleanMerge: true,
-          mergedText: encrypt(merged.mergedText, this.masterConversationKey),
-        };
-      } catch (err) {
-        console.warn(`Decrypted merge unavailable for ${path}; falling back to ciphertext merge.`, err);
-        return mergeCiphertext();
-      }
-    };
+  private async readConflictStore(): Promise<ConflictStore> {
+    try {
+      const bytes = await this.io.readSidecar(BinderService.CONFLICTS_PATH);
+      const store = JSON.parse(new TextDecoder().decode(bytes)) as ConflictStore;
+      return store.version === 1 && Array.isArray(store.conflicts) ? store : emptyConflictStore();
+    } catch {
+      // Nothing recorded on this device.
+      return emptyConflictStore();
+    }
   }
 
-  private async pullLatest(): Promise<void> {
-    await GitEngine.pull(
-      this.info.repoDir,
-      this.info.repoId,
-      this.info.auth,
-      this.info.author,
-      {
-        mergeDriver: this.createDecryptedMergeDriver(),
-      },
+  private async writeConflictStore(store: ConflictStore): Promise<void> {
+    // Device-local like the search index: written next to the repo, never committed.
+    await this.io.writeSidecar(
+      BinderService.CONFLICTS_PATH,
+      new TextEncoder().encode(JSON.stringify(store)),
     );
-    this.evictAllCaches();
   }
 
   private isNonFastForwardPushError(err: unknown): boolean {
@@ -352,6 +427,48 @@ export class BinderService {
     await GitEngine.push(this.info.repoDir, this.info.repoId, this.info.auth);
   }
 
+  /**
+   * A delegate's push that the server refused will never go through, so
+   * instead of queueing it the local commits are dropped and the binder goes
+   * back to the remote. Returns false for pushes worth keeping.
+   */
+  private async discardRefusedDelegatePush(err: unknown): Promise<boolean> {
+    if (!isForbiddenPushError(err) || isBinderOwner(this.info.repoId)) return false;
+    console.warn('Push refused for a shared binder, resetting to the remote.');
+    await GitEngine.resetToRemote(this.info.repoDir, this.info.repoId, this.info.auth);
+    this.evictAllCaches();
+    await clearPushQueueEntry(this.info.repoId);
+    return true;
+  }
+
+  /**
+   * Push after a local commit without failing the write: when the push
+   * fails, or an earlier one is still backing off, the binder is queued in
+   * PushQueue and retried later. Callers hold the write queue.
+   */
+  private async pushOrQueue(): Promise<void> {
+    const now = new Date();
+    const queued = await getPushQueueEntry(this.info.repoId);
+    if (queued && !isPushDue(queued, now)) {
+      await updatePushQueueEntry(this.info.repoId, (entry) => withQueuedCommit(entry, this.info, now));
+      return;
+    }
+
+    try {
+      await this.pushWithPullRetry();
+    } catch (err) {
+      if (await this.discardRefusedDelegatePush(err)) throw new Error(DELEGATE_WRITE_REFUSED);
+      console.warn('Push failed, changes saved locally and queued:', err instanceof Error ? err.message : err);
+      await updatePushQueueEntry(this.info.repoId, (entry) => withFailedAttempt(
+        withQueuedCommit(entry, this.info, now),
+        err,
+        now,
+      ));
+      return;
+    }
+    if (queued) await clearPushQueueEntry(this.info.repoId);
+  }
+
   private queuePendingReorderFiles(dirPath: string, files: string[]): void {
     const repoKey = this.info.repoDir;
     const normalizedDir = this.normalizeDirPath(dirPath);
@@ -376,50 +493,137 @@ export class BinderService {
     return 'Reorder directories';
   }
 
-  /**
-   * Commit and push pending reordered displayOrder writes.
-   * When dirPath is provided, only flushes that directory's pending reorder files.
-   */
-  async flushPendingReorderCommit(dirPath?: string): Promise<void> {
-    await this.runSerializedWrite(async () => {
-      const repoKey = this.info.repoDir;
-      const pending = BinderService.pendingReorderCommits.get(repoKey);
-      if (!pending || pending.filesByDir.size === 0) return;
-
-      const targetDirs =
-        typeof dirPath === 'string'
-          ? [this.normalizeDirPath(dirPath)]
-          : Array.from(pending.filesByDir.keys());
-      const filesToCommit = new Set<string>();
-      const committedDirs: string[] = [];
-
-      for (const targetDir of targetDirs) {
-        const dirFiles = pending.filesByDir.get(targetDir);
-        if (!dirFiles || dirFiles.size === 0) continue;
-        committedDirs.push(targetDir);
-        for (const file of dirFiles) filesToCommit.add(file);
+  // --- Search index ---
+
+  private async readStoredSearchIndex(): Promise<SearchIndexSnapshot | null> {
+    const cached = BinderService.searchIndexes.get(this.info.repoDir);
+    if (cached) return cached;
+
+    try {
+      const bytes = await this.io.readSidecar(BinderService.SEARCH_INDEX_PATH);
+      const snapshot = JSON.parse(new TextDecoder().decode(bytes)) as SearchIndexSnapshot;
+      if (snapshot.version !== SEARCH_INDEX_VERSION || !snapshot.entries) return null;
+      BinderService.searchIndexes.set(this.info.repoDir, snapshot);
+      return snapshot;
+    } catch {
+      // No index on disk yet, or it was written with another key.
+      return null;
+    }
+  }
+
+  private async writeSearchIndex(snapshot: SearchIndexSnapshot): Promise<void> {
+    BinderService.searchIndexes.set(this.info.repoDir, snapshot);
+    // Stored as a DEK sidecar: the index outgrows the NIP-44 plaintext limit quickly.
+    await this.io.writeSidecar(
+      BinderService.SEARCH_INDEX_PATH,
+      new TextEncoder().encode(JSON.stringify(snapshot)),
+    );
+  }
+
+  private async rebuildSearchIndex(headOid: string | null): Promise<SearchIndexSnapshot> {
+    const files = await GitEngine.listFiles(this.info.repoDir);
+    const snapshot = createEmptySearchIndex(headOid);
+
+    for (const filePath of files) {
+      if (!isSearchableDocumentPath(filePath)) continue;
+      try {
+        const doc = await this.io.readDocument('/' + filePath);
+        snapshot.entries[filePath] = buildSearchIndexEntry(filePath, doc);
+      } catch (err) {
+        console.warn(`Skipping unreadable file for search: ${filePath}`, err);
       }
+    }
 
-      if (filesToCommit.size === 0) return;
+    await this.writeSearchIndex(snapshot);
+    return snapshot;
+  }
 
-      await GitEngine.commitEntry(
-        this.info.repoDir,
-        Array.from(filesToCommit),
-        this.reorderCommitMessage(committedDirs),
-        this.info.author,
-      );
+  private async loadSearchIndex(): Promise<SearchIndexSnapshot> {
+    const headOid = await GitEngine.resolveHead(this.info.repoDir);
+    const stored = await this.readStoredSearchIndex();
+    if (stored && stored.headOid === headOid) return stored;
+    return this.rebuildSearchIndex(headOid);
+  }
+
+  /**
+   * Apply one commit's entry changes to the persisted search index.
+   * No-op until the index has been built by a first search. If the index did
+   * not reflect the commit's parent (e.g. a pull happened elsewhere), it is
+   * dropped and rebuilt from HEAD on the next search instead.
+   */
+  private async updateSearchIndex(commitOid: string, changes: SearchIndexChanges = {}): Promise<void> {
+    try {
+      const snapshot = await this.readStoredSearchIndex();
+      if (!snapshot) return;
 
-      for (const committedDir of committedDirs) {
-        pending.filesByDir.delete(committedDir);
+      const parents = await GitEngine.readCommitParents(this.info.repoDir, commitOid);
+      if (!snapshot.headOid || !parents.includes(snapshot.headOid)) {
+        BinderService.searchIndexes.delete(this.info.repoDir);
+        return;
       }
-      if (pending.filesByDir.size === 0) {
-        BinderService.pendingReorderCommits.delete(repoKey);
+
+      const entries = { ...snapshot.entries };
+      for (const path of changes.removals ?? []) {
+        delete entries[path];
+      }
+      for (const [path, doc] of changes.upserts ?? []) {
+        if (isSearchableDocumentPath(path)) {
+          entries[path] = buildSearchIndexEntry(path, doc);
+        }
       }
 
-      try {
-        await this.pushWithPullRetry();
-      } catch (err: any) {
-        console.warn('Push failed after reorder commit, changes saved locally:', err?.message);
+      await this.writeSearchIndex({ ...snapshot, headOid: commitOid, entries });
+    } catch (err) {
+      console.warn('Failed to update search index:', err);
+    }
+  }
+
+  /**
+   * Commit queued reorder files (one directory, or all of them). Returns
+   * whether a commit was made. Callers hold the write queue.
+   */
+  private async commitPendingReorders(dirPath?: string): Promise<boolean> {
+    const repoKey = this.info.repoDir;
+    const pending = BinderService.pendingReorderCommits.get(repoKey);
+    if (!pending || pending.filesByDir.size === 0) return false;
+
+    const targetDirs =
+      typeof dirPath === 'string'
+        ? [this.normalizeDirPath(dirPath)]
+        : Array.from(pending.filesByDir.keys());
+    const filesToCommit = new Set<string>();
+    const committedDirs: string[] = [];
+
+    for (const targetDir of targetDirs) {
+      const dirFiles = pending.filesByDir.get(targetDir);
+      if (!dirFiles || dirFiles.size === 0) continue;
+      committedDirs.push(targetDir);
+      for (const file of dirFiles) filesToCommit.add(file);
+    }
+
+    if (filesToCommit.size === 0) return false;
+
+    const commitOid = await GitEngine.commitEntry(
+      this.info.repoDir,
+      Array.from(filesToCommit),
+      this.reorderCommitMessage(committedDirs),
+      this.info.author,
+    );
+    await this.updateSearchIndex(commitOid);
+
+    for (const committedDir of committedDirs) {
+      pending.filesByDir.delete(committedDir);
+    }
+    if (pending.filesByDir.size === 0) {
+      BinderService.pendingReorderCommits.delete(repoKey);
+    }
+    return true;
+  }
+
+  async flushPendingReorderCommit(dirPath?: string): Promise<void> {
+    await this.runSerializedWrite(async () => {
+      if (await this.commitPendingReorders(dirPath)) {
+        await this.pushOrQueue();
       }
     });
   }
@@ -551,6 +755,27 @@ export class BinderService {
     return this.io.readSidecar('/' + sidecarPath);
   }
 
+  /** Dose logs stored in the entry's monthly sidecars (see adherence.ts). */
+  async readDoseLogs(entryPath: string): Promise<DoseLog[]> {
+    const slash = entryPath.lastIndexOf('/');
+    const dirPath = slash >= 0 ? entryPath.slice(0, slash) : '';
+    const fs = createFSAdapter(this.info.repoDir);
+    let names: string[];
+    try {
+      names = await fs.promises.readdir('/' + dirPath);
+    } catch {
+      return [];
+    }
+
+    const logs: DoseLog[] = [];
+    for (const name of names) {
+      const path = dirPath ? `${dirPath}/${name}` : name;
+      if (!isDoseLogSidecarOf(entryPath, path)) continue;
+      logs.push(...decodeDoseLogs(await this.io.readSidecar('/' + path)));
+    }
+    return logs;
+  }
+
   // --- Directory browsing ---
 
   /**
@@ -590,29 +815,92 @@ export class BinderService {
     }
   }
 
+  // --- Search ---
+
+  /**
+   * Full-text search across the binder's entries (titles, bodies, tags,
+   * provider, medication fields). Backed by a local index encrypted at rest,
+   * rebuilt from HEAD whenever the binder changed outside BinderService.
+   */
+  async searchEntries(query: string, limit?: number): Promise<BinderSearchResult[]> {
+    const snapshot = await this.loadSearchIndex();
+    const results = searchIndex(snapshot, query, limit);
+    const folderNames = new Map<string, string>();
+
+    const folderDisplayName = async (folderPath: string): Promise<string> => {
+      const cached = folderNames.get(folderPath);
+      if (cached) return cached;
+      const meta = await this.readFolderMeta(folderPath);
+      const name = meta?.displayName || folderPath.slice(folderPath.lastIndexOf('/') + 1);
+      folderNames.set(folderPath, name);
+      return name;
+    };
+
+    const withBreadcrumbs: BinderSearchResult[] = [];
+    for (const result of results) {
+      const segments = result.folderPath.split('/').filter(Boolean);
+      const breadcrumbs: string[] = [];
+      for (let i = 1; i <= segments.length; i += 1) {
+        breadcrumbs.push(await folderDisplayName(segments.slice(0, i).join('/')));
+      }
+      withBreadcrumbs.push({ ...result, breadcrumbs });
+    }
+    return withBreadcrumbs;
+  }
+
+  // --- Lab trends ---
+
+  /** Categories whose entries can hold lab results (conditions keep labs in subfolders). */
+  private static readonly LAB_TREND_CATEGORIES = new Set(['labs', 'conditions']);
+
+  /**
+   * Per-analyte time series across every lab result in labs/ and condition
+   * subfolders, in one unit per analyte with reference-range bands.
+   */
+  async getLabTrends(): Promise<LabTrendSeries[]> {
+    const files = await GitEngine.listFiles(this.info.repoDir);
+    const sources: LabTrendSource[] = [];
+
+    for (const filePath of files) {
+      if (!filePath.endsWith('.json') || filePath.endsWith('.meta.json')) continue;
+      const category = findCategoryForPath(filePath)?.slug;
+      if (!category || !BinderService.LAB_TREND_CATEGORIES.has(category)) continue;
+      try {
+        sources.push({ path: filePath, doc: await this.io.readDocument('/' + filePath) });
+      } catch (err) {
+        console.warn(`Skipping unreadable file: ${filePath}`, err);
+      }
+    }
+
+    return buildLabTrends(sources);
+  }
+
   // --- Write ---
 
   /**
    * Add a document entry. Generates a collision-safe filename, encrypts, commits, pushes.
+   * `date` sets the filename's date prefix (defaults to today).
    */
   async addEntry(
     category: string,
     slug: string,
     doc: MedicalDocument,
+    date?: Date,
   ): Promise<string> {
     return this.runSerializedWrite(async () => {
-      const docPath = await generateDocPath(this.info.repoDir, category, slug);
+      const docPath = await generateDocPath(this.info.repoDir, category, slug, date);
       const orderedDoc = await this.ensureEntryDisplayOrder(category, doc);
       await this.io.writeDocument('/' + docPath, orderedDoc);
 
-      await GitEngine.commitEntry(
+      const commitOid = await GitEngine.commitEntry(
         this.info.repoDir,
         [docPath],
         `Add ${category} entry`,
         this.info.author,
       );
+      await this.updateSearchIndex(commitOid, { upserts: [[docPath, orderedDoc]] });
       dirEvict(this.dirCacheKey(category));
-      await this.pushWithPullRetry();
+      await this.pushOrQueue();
       return docPath;
     });
   }
@@ -644,31 +932,44 @@ export class BinderService {
     slug: string,
     doc: MedicalDocument,
     sidecars: PendingSidecarWrite[],
+    date?: Date,
+    options: AddEntryWithSidecarsOptions = {},
   ): Promise<string> {
     return this.runSerializedWrite(async () => {
-      const docPath = await generateDocPath(this.info.repoDir, category, slug);
+      const docPath = await generateDocPath(this.info.repoDir, category, slug, date);
       const slash = docPath.lastIndexOf('/');
       const dirPath = slash >= 0 ? docPath.slice(0, slash) : category;
       const filesToCommit = [docPath];
 
+      const sidecarPaths: string[] = [];
       for (const sidecar of sidecars) {
         const sidecarPath = await this.resolveUniqueSidecarPath(dirPath, sidecar.sidecarFilename);
-        const binaryData = b64decode(sidecar.base64Data);
-        await this.io.writeSidecar('/' + sidecarPath, binaryData);
-        filesToCommit.push(sidecarPath);
+        if (options.keepSidecarNames && sidecarPath.split('/').pop() !== sidecar.sidecarFilename.split('/').pop()) {
+          throw new Error(`${sidecar.sidecarFilename.split('/').pop()} already exists in this folder.`);
+        }
+        sidecarPaths.push(sidecarPath);
       }
 
+      // Checked before any sidecar is written so a rejected entry leaves nothing behind.
       const orderedDoc = await this.ensureEntryDisplayOrder(dirPath, doc);
+      if (!documentFits(orderedDoc)) throw new Error(ENTRY_TOO_LARGE);
+
+      for (const [index, sidecar] of sidecars.entries()) {
+        await this.io.writeSidecar('/' + sidecarPaths[index], b64decode(sidecar.base64Data));
+        filesToCommit.push(sidecarPaths[index]);
+      }
+
       await this.io.writeDocument('/' + docPath, orderedDoc);
 
-      await GitEngine.commitEntry(
+      const commitOid = await GitEngine.commitEntry(
         this.info.repoDir,
         filesToCommit,
         `Add ${category} entry`,
         this.info.author,
       );
+      await this.updateSearchIndex(commitOid, { upserts: [[docPath, orderedDoc]] });
       dirEvict(this.dirCacheKey(category));
-      await this.pushWithPullRetry();
+      await this.pushOrQueue();
       return docPath;
     });
   }
@@ -694,14 +995,15 @@ export class BinderService {
       await this.io.writeDocument('/' + docPath, doc);
 
       // Commit both and push
-      await GitEngine.commitEntry(
+      const commitOid = await GitEngine.commitEntry(
         this.info.repoDir,
         [docPath, encPath],
         `Add photo`,
         this.info.author,
       );
+      await this.updateSearchIndex(commitOid, { upserts: [[docPath, doc]] });
       dirEvict(this.dirCacheKey(dirPath));
-      await this.pushWithPullRetry();
+      await this.pushOrQueue();
 
       return docPath;
     });
@@ -723,14 +1025,50 @@ export class BinderService {
       const doc = await this.ensureEntryDisplayOrder(dirPath, baseDoc);
       await this.io.writeDocument('/' + docPath, doc);
 
-      await GitEngine.commitEntry(
+      const commitOid = await GitEngine.commitEntry(
         this.info.repoDir,
         [docPath, encPath],
         `Add audio recording`,
         this.info.author,
       );
+      await this.updateSearchIndex(commitOid, { upserts: [[docPath, doc]] });
       dirEvict(this.dirCacheKey(dirPath));
-      await this.pushWithPullRetry();
+      await this.pushOrQueue();
+
+      return docPath;
+    });
+  }
+
+  /**
+   * Add a scanned document: OCR text as the entry's markdown, the pages as
+   * one encrypted PDF sidecar. Commits both, pushes.
+   */
+  async addScannedDocument(
+    dirPath: string,
+    slug: string,
+    markdown: string,
+    pdfBytes: Uint8Array,
+  ): Promise<string> {
+    return this.runSerializedWrite(async () => {
+      const docPath = await generateDocPath(this.info.repoDir, dirPath, slug);
+      const encPath = sidecarPathFrom(docPath, 'pdf');
+
+      const baseDoc = createScannedDocument(markdown, encPath.split('/').pop()!, pdfBytes.byteLength);
+      const doc = await this.ensureEntryDisplayOrder(dirPath, baseDoc);
+      if (!documentFits(doc)) throw new Error(ENTRY_TOO_LARGE);
+
+      await this.io.writeSidecar('/' + encPath, pdfBytes);
+      await this.io.writeDocument('/' + docPath, doc);
+
+      const commitOid = await GitEngine.commitEntry(
+        this.info.repoDir,
+        [docPath, encPath],
+        `Add scanned document`,
+        this.info.author,
+      );
+      await this.updateSearchIndex(commitOid, { upserts: [[docPath, doc]] });
+      dirEvict(this.dirCacheKey(dirPath));
+      await this.pushOrQueue();
 
       return docPath;
     });
@@ -772,6 +1110,7 @@ export class BinderService {
       await this.io.writeJSON('/' + metaPath, metaObj);
 
       const filesToCommit = [metaPath];
+      const indexUpserts: [string, MedicalDocument][] = [];
 
       if (overviewDoc) {
         const slug = 'overview';
@@ -779,16 +1118,18 @@ export class BinderService {
         const orderedOverviewDoc = await this.ensureEntryDisplayOrder(folderPath, overviewDoc);
         await this.io.writeDocument('/' + docPath, orderedOverviewDoc);
         filesToCommit.push(docPath);
+        indexUpserts.push([docPath, orderedOverviewDoc]);
       }
 
-      await GitEngine.commitEntry(
+      const commitOid = await GitEngine.commitEntry(
         this.info.repoDir,
         filesToCommit,
         `Add ${displayName}`,
         this.info.author,
       );
+      await this.updateSearchIndex(commitOid, { upserts: indexUpserts });
       dirEvict(this.parentDirCacheKey(folderPath));
-      await this.pushWithPullRetry();
+      await this.pushOrQueue();
     });
   }
 
@@ -833,15 +1174,16 @@ export class BinderService {
       };
 
       await this.io.writeJSON('/' + metaPath, nextMeta);
-      await GitEngine.commitEntry(
+      const commitOid = await GitEngine.commitEntry(
         this.info.repoDir,
         [metaPath],
         `Update folder ${displayName}`,
         this.info.author,
       );
+      await this.updateSearchIndex(commitOid);
       dirEvict(this.dirCacheKey(normalized));
       dirEvict(this.parentDirCacheKey(normalized));
-      await this.pushWithPullRetry();
+      await this.pushOrQueue();
     });
   }
 
@@ -961,19 +1303,16 @@ export class BinderService {
         }
       }
 
-      await GitEngine.removeFiles(
+      const commitOid = await GitEngine.removeFiles(
         this.info.repoDir,
         filesToRemove,
         `Delete ${entryPath.split('/').pop()}`,
         this.info.author,
       );
+      await this.updateSearchIndex(commitOid, { removals: filesToRemove });
       dirEvict(this.parentDirCacheKey(entryPath));
       ptEvict(`${this.info.repoDir}:/${entryPath}`);
-      try {
-        await this.pushWithPullRetry();
-      } catch (err: any) {
-        console.warn('Push failed after delete, changes saved locally:', err?.message);
-      }
+      await this.pushOrQueue();
     });
   }
 
@@ -986,12 +1325,13 @@ export class BinderService {
       const files = await GitEngine.listFilesUnder(this.info.repoDir, folderPath);
       if (files.length === 0) return;
 
-      await GitEngine.removeFiles(
+      const commitOid = await GitEngine.removeFiles(
         this.info.repoDir,
         files,
         `Delete folder ${folderPath.split('/').pop()}`,
         this.info.author,
       );
+      await this.updateSearchIndex(commitOid, { removals: files });
 
       // Try to remove the now-empty directory from disk
       const fs = createFSAdapter(this.info.repoDir);
@@ -1004,11 +1344,7 @@ export class BinderService {
       dirEvict(this.dirCacheKey(folderPath));
       dirEvict(this.parentDirCacheKey(folderPath));
       ptEvictPrefix(`${this.info.repoDir}:/${folderPath}`);
-      try {
-        await this.pushWithPullRetry();
-      } catch (err: any) {
-        console.warn('Push failed after delete, changes saved locally:', err?.message);
-      }
+      await this.pushOrQueue();
     });
   }
 
@@ -1025,14 +1361,40 @@ export class BinderService {
     await this.runSerializedWrite(async () => {
       const docToWrite = await this.preserveEntryDisplayOrder(entryPath, doc);
       await this.io.writeDocument('/' + entryPath, docToWrite);
-      await GitEngine.commitEntry(
+      const commitOid = await GitEngine.commitEntry(
         this.info.repoDir,
         [entryPath],
         `Update ${doc.metadata.type} entry`,
         this.info.author,
       );
+      await this.updateSearchIndex(commitOid, { upserts: [[entryPath, docToWrite]] });
       dirEvict(this.parentDirCacheKey(entryPath));
-      await this.pushWithPullRetry();
+      await this.pushOrQueue();
+    });
+  }
+
+  /**
+   * Record a dose in the month's sidecar for the entry. The entry itself is
+   * left alone, so a long log never pushes it past the NIP-44 size limit.
+   */
+  async logDose(entryPath: string, log: DoseLog): Promise<void> {
+    await this.runSerializedWrite(async () => {
+      const sidecarPath = doseLogSidecarPath(entryPath, log);
+      let logs: DoseLog[] = [];
+      try {
+        logs = decodeDoseLogs(await this.io.readSidecar('/' + sidecarPath));
+      } catch {
+        // First dose this month.
+      }
+      await this.io.writeSidecar('/' + sidecarPath, encodeDoseLogs([...logs, log]));
+      const commitOid = await GitEngine.commitEntry(
+        this.info.repoDir,
+        [sidecarPath],
+        `Log dose for ${entryPath.split('/').pop()}`,
+        this.info.author,
+      );
+      await this.updateSearchIndex(commitOid);
+      await this.pushOrQueue();
     });
   }
 
@@ -1055,17 +1417,288 @@ export class BinderService {
 
       const docToWrite = await this.preserveEntryDisplayOrder(entryPath, doc);
       await this.io.writeDocument('/' + entryPath, docToWrite);
-      await GitEngine.commitEntry(
+      const commitOid = await GitEngine.commitEntry(
         this.info.repoDir,
         filesToCommit,
         `Update ${doc.metadata.type} entry`,
         this.info.author,
       );
+      await this.updateSearchIndex(commitOid, { upserts: [[entryPath, docToWrite]] });
       dirEvict(this.parentDirCacheKey(entryPath));
-      await this.pushWithPullRetry();
+      await this.pushOrQueue();
     });
   }
 
+  // --- History ---
+
+  /**
+   * List the commits that touched an entry (.json) or a folder, newest first.
+   * Binders are cloned shallow, so history starts at the clone on this device.
+   */
+  async listRevisions(path: string, depth?: number): Promise<CommitInfo[]> {
+    const normalized = this.normalizeDirPath(path);
+    try {
+      return await GitEngine.log(this.info.repoDir, depth, normalized || undefined);
+    } catch (err) {
+      console.warn(`Failed to read history for ${path || '/'}:`, err);
+      return [];
+    }
+  }
+
+  /**
+   * List the .json entries that existed under a folder at a past commit.
+   * Lets the history screen reach entries that have since been deleted.
+   */
+  async listEntriesAtRevision(folderPath: string, oid: string): Promise<string[]> {
+    const normalized = this.normalizeDirPath(folderPath);
+    const files = await GitEngine.listFiles(this.info.repoDir, oid);
+    return files.filter(
+      (f) =>
+        (!normalized || f.startsWith(normalized + '/'))
+        && isSearchableDocumentPath(f),
+    );
+  }
+
+  /**
+   * Decrypt an entry as it was at a past commit. Tries the current key, the
+   * binder key from that commit's keyring and the master key, so history from
+   * before sharing or a member removal still opens. Throws a readable error
+   * only when none of them fit (e.g. after a master key rotation).
+   */
+  async readRevision(entryPath: string, oid: string): Promise<MedicalDocument> {
+    if (!entryPath.endsWith('.json')) {
+      throw new Error(`Only .json documents have readable revisions: ${entryPath}`);
+    }
+    const blob = await GitEngine.readFileAtCommit(this.info.repoDir, oid, entryPath);
+    return this.decryptRevision(blob, oid);
+  }
+
+  /** The binder key from .binder-keys at `oid`, or null when unshared then or we can't unwrap it. */
+  private async keyringKeyAt(oid: string): Promise<Uint8Array | null> {
+    try {
+      const raw = await GitEngine.readFileAtCommit(this.info.repoDir, oid, KEYRING_FILENAME);
+      return unwrapForSession(parseKeyring(new TextDecoder().decode(raw)));
+    } catch {
+      // Not shared yet at that commit.
+      return null;
+    }
+  }
+
+  private async revisionKeys(oid: string): Promise<Uint8Array[]> {
+    const key = await this.keyringKeyAt(oid);
+    return key ? [this.contentKey, key, this.masterKey] : [this.contentKey, this.masterKey];
+  }
+
+  private async decryptRevision(blob: Uint8Array, oid: string): Promise<MedicalDocument> {
+    const ciphertext = new TextDecoder().decode(blob);
+    for (const key of await this.revisionKeys(oid)) {
+      let plaintext: string;
+      try {
+        plaintext = decrypt(ciphertext, key);
+      } catch (err) {
+        // A MAC mismatch means the wrong key; anything else is a damaged blob.
+        if (err instanceof Error && err.message === 'invalid MAC') continue;
+        throw err;
+      }
+      return JSON.parse(plaintext) as MedicalDocument;
+    }
+    throw new Error('This version was encrypted with a previous key and can no longer be opened.');
+  }
+
+  private async readRevisionOrNull(entryPath: string, oid: string): Promise<MedicalDocument | null> {
+    if (oid === CURRENT_REVISION) {
+      try {
+        return await this.readEntry(entryPath);
+      } catch {
+        return null;
+      }
+    }
+    let blob: Uint8Array;
+    try {
+      blob = await GitEngine.readFileAtCommit(this.info.repoDir, oid, entryPath);
+    } catch {
+      // Entry did not exist at that commit.
+      return null;
+    }
+    return this.decryptRevision(blob, oid);
+  }
+
+  /**
+   * Markdown diff of an entry between two revisions. Pass CURRENT_REVISION as
+   * either side to compare against the working copy. A side where the entry
+   * did not exist diffs as empty; one under a previous key throws.
+   */
+  async diffRevisions(entryPath: string, fromOid: string, toOid: string): Promise<DocumentDiff> {
+    const [before, after] = await Promise.all([
+      this.readRevisionOrNull(entryPath, fromOid),
+      this.readRevisionOrNull(entryPath, toOid),
+    ]);
+    return diffDocuments(before, after);
+  }
+
+  /**
+   * Files an old revision of an entry depends on besides itself: sidecars it
+   * references and its folder's .meta.json.
+   */
+  private revisionDependencies(entryPath: string, doc: MedicalDocument): string[] {
+    const slash = entryPath.lastIndexOf('/');
+    const dirPath = slash > 0 ? entryPath.slice(0, slash) : '';
+    const prefix = dirPath ? dirPath + '/' : '';
+    const deps: string[] = [];
+
+    for (const node of [doc, ...doc.children]) {
+      if (node.metadata.type === 'attachment_ref' && node.value.endsWith('.enc')) {
+        deps.push(prefix + node.value);
+      }
+    }
+    if (dirPath) deps.push(`${dirPath}/.meta.json`);
+    return deps;
+  }
+
+  /**
+   * Restore an entry to how it was at a past commit, as a new commit on top
+   * of history (nothing is rewritten). Works for entries deleted since, and
+   * brings back referenced sidecars that are no longer in the working tree.
+   */
+  async restoreRevision(entryPath: string, oid: string): Promise<void> {
+    await this.runSerializedWrite(async () => {
+      const revision = await this.readRevision(entryPath, oid);
+      const fs = createFSAdapter(this.info.repoDir);
+      const filesToCommit = [entryPath];
+
+      for (const depPath of this.revisionDependencies(entryPath, revision)) {
+        try {
+          await fs.promises.stat('/' + depPath);
+          continue;
+        } catch {
+          // Missing from the working tree: copy the still-encrypted blob back.
+        }
+        try {
+          const blob = await GitEngine.readFileAtCommit(this.info.repoDir, oid, depPath);
+          await fs.promises.writeFile('/' + depPath, blob);
+          filesToCommit.push(depPath);
+        } catch {
+          console.warn(`Restore: ${depPath} not present at ${oid.slice(0, 7)}`);
+        }
+      }
+
+      let restored: MedicalDocument = {
+        ...revision,
+        metadata: { ...revision.metadata, updated: new Date().toISOString() },
+      };
+      try {
+        const current = await this.io.readDocument('/' + entryPath);
+        if (typeof current.metadata.displayOrder === 'number') {
+          restored = {
+            ...restored,
+            metadata: { ...restored.metadata, displayOrder: current.metadata.displayOrder },
+          };
+        }
+      } catch {
+        // Entry was deleted since the revision; keep its old displayOrder.
+      }
+
+      await this.io.writeDocument('/' + entryPath, restored);
+      const commitOid = await GitEngine.commitEntry(
+        this.info.repoDir,
+        filesToCommit,
+        `Restore ${entryPath.split('/').pop()} from ${oid.slice(0, 7)}`,
+        this.info.author,
+      );
+      await this.updateSearchIndex(commitOid, { upserts: [[entryPath, restored]] });
+      dirEvict(this.parentDirCacheKey(entryPath));
+      for (const restoredPath of filesToCommit) {
+        // A restored .meta.json means the folder itself came back.
+        if (restoredPath.endsWith('/.meta.json')) {
+          dirEvict(this.parentDirCacheKey(restoredPath.slice(0, -'/.meta.json'.length)));
+        }
+      }
+      await this.pushOrQueue();
+    });
+  }
+
+  // --- Delegated access ---
+
+  /** Pubkeys that can decrypt this binder besides the owner (empty when unshared). */
+  async listKeyringMembers(): Promise<string[]> {
+    const keyring = await readKeyring(this.info.repoDir);
+    return keyring ? keyringDelegates(keyring) : [];
+  }
+
+  /**
+   * Let `memberPubkey` decrypt this binder. The first delegate moves the
+   * binder off the master key onto its own binder key; later ones only get
+   * an envelope. The role itself is granted on auth-api by the caller.
+   */
+  async addKeyringMember(ownerPrivkey: Uint8Array, memberPubkey: string): Promise<void> {
+    await this.runSerializedWrite(async () => {
+      await this.commitPendingReorders();
+      await this.pullLatest();
+
+      const keyring = await readKeyring(this.info.repoDir);
+      if (keyring?.members[memberPubkey]) return;
+
+      if (keyring) {
+        const binderKey = unwrapBinderKey(keyring, ownerPrivkey);
+        await writeKeyring(this.info.repoDir, withKeyringMember(keyring, binderKey, ownerPrivkey, memberPubkey));
+        await this.commitAndPushKeyChange([KEYRING_FILENAME], 'Share binder access');
+        return;
+      }
+
+      const binderKey = generateBinderKey();
+      await this.switchContentKey(binderKey, createKeyring(binderKey, ownerPrivkey, [memberPubkey]), 'Share binder access');
+    });
+  }
+
+  /**
+   * Drop `memberPubkey` from the keyring and re-key the binder, so content
+   * from this commit on can't be read with the key they held. Earlier
+   * history stays readable to them; revoke their server access first.
+   */
+  async removeKeyringMember(ownerPrivkey: Uint8Array, memberPubkey: string): Promise<void> {
+    await this.runSerializedWrite(async () => {
+      await this.commitPendingReorders();
+      await this.pullLatest();
+
+      const keyring = await readKeyring(this.info.repoDir);
+      if (!keyring?.members[memberPubkey]) return;
+
+      const remaining = keyringDelegates(keyring).filter((pubkey) => pubkey !== memberPubkey);
+      const binderKey = generateBinderKey();
+      await this.switchContentKey(binderKey, createKeyring(binderKey, ownerPrivkey, remaining), 'Revoke binder access');
+    });
+  }
+
+  private async switchContentKey(nextKey: Uint8Array, keyring: BinderKeyring, message: string): Promise<void> {
+    const { skipped } = await rekeyWorkingTree(this.info.repoDir, this.contentKey, nextKey);
+    if (skipped.length > 0) {
+      console.warn(`Binder key change left ${skipped.length} unreadable file(s) as they were:`, skipped);
+    }
+    await writeKeyring(this.info.repoDir, keyring);
+    setBinderKey(this.info.repoDir, keyring.keyId, nextKey);
+    this.useContentKey(nextKey);
+    this.evictAllCaches();
+
+    const modified = await GitEngine.listModifiedFiles(this.info.repoDir);
+    await this.commitAndPushKeyChange([...new Set([...modified, KEYRING_FILENAME])], message);
+  }
+
+  /** Key changes must reach the server before they count, so push failures are thrown after queueing. */
+  private async commitAndPushKeyChange(files: string[], message: string): Promise<void> {
+    await GitEngine.commitEntry(this.info.repoDir, files, message, this.info.author);
+    try {
+      await this.pushWithPullRetry();
+    } catch (err) {
+      await updatePushQueueEntry(this.info.repoId, (entry) => withFailedAttempt(
+        withQueuedCommit(entry, this.info, new Date()),
+        err,
+        new Date(),
+      ));
+      throw err;
+    }
+    await clearPushQueueEntry(this.info.repoId);
+  }
+
   // --- Debug ---
 
   /**
@@ -1087,11 +1720,110 @@ export class BinderService {
   }
 
   /**
-   * Push local commits to remote.
+   * Push local commits to remote, committing any batched reorders first so
+   * they go out together. Clears this binder's push queue entry on success;
+   * on failure records the attempt for backoff and rethrows.
    */
   async push(): Promise<void> {
     await this.runSerializedWrite(async () => {
-      await this.pushWithPullRetry();
+      await this.commitPendingReorders();
+      try {
+        await this.pushWithPullRetry();
+      } catch (err) {
+        if (await this.discardRefusedDelegatePush(err)) throw new Error(DELEGATE_WRITE_REFUSED);
+        await updatePushQueueEntry(this.info.repoId, (entry) => withFailedAttempt(
+          entry ?? withQueuedCommit(undefined, this.info, new Date()),
+          err,
+          new Date(),
+        ));
+        throw err;
+      }
+      await clearPushQueueEntry(this.info.repoId);
+    });
+  }
+
+  /**
+   * Fetch and compare with the remote: commits ahead/behind plus the number
+   * of unresolved conflicts. Does not merge.
+   */
+  async getSyncStatus(): Promise<SyncStatus> {
+    const { ahead, behind, remoteExists } = await GitEngine.compareWithRemote(
+      this.info.repoDir,
+      this.info.repoId,
+      this.info.auth,
+    );
+    const store = await this.readConflictStore();
+    return {
+      state: syncStateFor(ahead, behind, remoteExists),
+      ahead,
+      behind,
+      conflicts: store.conflicts.length,
+    };
+  }
+
+  /**
+   * Entries a pull couldn't merge, oldest path first. The tree holds this
+   * device's version of each until it's resolved.
+   */
+  async listConflicts(): Promise<BinderConflict[]> {
+    return (await this.readConflictStore()).conflicts;
+  }
+
+  /**
+   * Resolve a recorded conflict: keep one side, merge structured fields, or
+   * keep both (the other device's version becomes a sibling entry).
+   * Returns the path of that sibling for 'both', else null.
+   */
+  async resolveConflict(entryPath: string, resolution: ConflictResolution): Promise<string | null> {
+    return this.runSerializedWrite(async () => {
+      const store = await this.readConflictStore();
+      const conflict = store.conflicts.find((item) => item.path === entryPath);
+      if (!conflict) throw new Error(`No sync conflict recorded for ${entryPath}`);
+
+      const now = new Date().toISOString();
+      const lastSlash = entryPath.lastIndexOf('/');
+      const dirPath = lastSlash > 0 ? entryPath.slice(0, lastSlash) : '';
+      const upserts: [string, MedicalDocument][] = [];
+      let copyPath: string | null = null;
+
+      if (resolution.kind === 'keep' && resolution.side === 'theirs') {
+        upserts.push([entryPath, {
+          ...conflict.theirs,
+          metadata: { ...conflict.theirs.metadata, updated: now },
+        }]);
+      } else if (resolution.kind === 'fields') {
+        upserts.push([entryPath, applyFieldMerge(conflict, resolution.choices, new Date(now))]);
+      } else if (resolution.kind === 'both') {
+        copyPath = await this.resolveUniqueSidecarPath(dirPath, entryPath.slice(lastSlash + 1));
+        const { displayOrder: _displayOrder, ...theirMetadata } = conflict.theirs.metadata;
+        const copy = await this.ensureEntryDisplayOrder(dirPath, {
+          ...conflict.theirs,
+          metadata: { ...theirMetadata, updated: now },
+        });
+        upserts.push([copyPath, copy]);
+      }
+      // Keeping this device's version needs no write: the merge already kept it.
+
+      if (upserts.length > 0) {
+        for (const [path, doc] of upserts) {
+          await this.io.writeDocument('/' + path, doc);
+        }
+        const commitOid = await GitEngine.commitEntry(
+          this.info.repoDir,
+          upserts.map(([path]) => path),
+          `Resolve sync conflict in ${entryPath.split('/').pop()}`,
+          this.info.author,
+        );
+        await this.updateSearchIndex(commitOid, { upserts });
+        dirEvict(this.parentDirCacheKey(entryPath));
+      }
+
+      await this.writeConflictStore({
+        ...store,
+        conflicts: store.conflicts.filter((item) => item.path !== entryPath),
+      });
+      if (upserts.length > 0) await this.pushOrQueue();
+      return copyPath;
     });
   }
 
@@ -1159,18 +1891,15 @@ export class BinderService {
 
       if (updatedPaths.length === 0) return;
 
-      await GitEngine.commitEntry(
+      const commitOid = await GitEngine.commitEntry(
         this.info.repoDir,
         updatedPaths,
         'Infer contextualAdd from folder names',
         this.info.author,
       );
+      await this.updateSearchIndex(commitOid);
       this.evictAllCaches();
-      try {
-        await this.pushWithPullRetry();
-      } catch (err: any) {
-        console.warn('Push failed after migration, changes saved locally:', err?.message);
-      }
+      await this.pushOrQueue();
     });
   }
 }
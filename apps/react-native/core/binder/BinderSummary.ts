@@ -0,0 +1,627 @@
+// core/binder/BinderSummary.ts
+// Printable binder summary for a new specialist or an ER visit: a cover page
+// from patient-info.json, then active medications, allergies, conditions,
+// recent visits and decrypted photos from the folders the patient picked.
+//
+// buildBinderSummary is pure (decrypted documents in, sections out);
+// renderBinderSummaryPdf lays the sections out with pdf-lib, and
+// exportBinderSummaryPdf gathers the inputs through BinderService and writes
+// the PDF to the temp dir for the share sheet.
+
+import { PDFDocument, StandardFonts, type PDFFont, type PDFImage, type PDFPage } from 'pdf-lib';
+import type { BinderService } from './BinderService';
+import { findCategoryForPath } from './categories';
+import { extractTitle } from './DocumentModel';
+import { isSearchableDocumentPath } from './SearchIndex';
+import { listField, section, toFhirDate } from '../fhir/export';
+import { parseMarkdownFrontMatter } from '../markdown/frontmatter';
+import { parseMedicationEntry } from '../markdown/medicationEntry';
+import { embedRasterImage, hexToPdfColor, writeTemporaryPdf } from '../recordsWorkflow/pdf';
+import { isPathInShareScope } from '../scan/ShareScope';
+import type { MedicalDocument } from '../../types/document';
+
+// --- Types ---
+
+export interface BinderSummaryEntry {
+  /** Path relative to repo root, e.g. 'medications/2026-01-15-lisinopril.json' */
+  path: string;
+  doc: MedicalDocument;
+}
+
+export interface BinderSummaryInput {
+  patientInfo: MedicalDocument | null;
+  entries: BinderSummaryEntry[];
+  /** Folders to include. Empty = the whole binder. */
+  folders: string[];
+  /** How many visits to list, newest first. */
+  recentVisitLimit?: number;
+  /** Most photos to embed, newest first. */
+  photoLimit?: number;
+  /** Reference date for "active" medications (YYYY-MM-DD). Defaults to today. */
+  today?: string;
+}
+
+export interface SummaryMedication {
+  name: string;
+  dosage?: string;
+  frequency?: string;
+  startDate?: string;
+}
+
+export interface SummaryAllergy {
+  name: string;
+  reaction?: string;
+  severity?: string;
+}
+
+export interface SummaryCondition {
+  name: string;
+  since?: string;
+}
+
+export interface SummaryVisit {
+  title: string;
+  date?: string;
+  provider?: string;
+  assessment?: string;
+  plan?: string;
+}
+
+export interface SummaryPhoto {
+  /** Repo-relative sidecar path to decrypt. */
+  sidecarPath: string;
+  format: 'png' | 'jpeg';
+  caption: string;
+  date?: string;
+}
+
+export interface BinderSummary {
+  patient: { name: string; dateOfBirth?: string };
+  folders: string[];
+  medications: SummaryMedication[];
+  allergies: SummaryAllergy[];
+  conditions: SummaryCondition[];
+  visits: SummaryVisit[];
+  photos: SummaryPhoto[];
+}
+
+export interface ExportBinderSummaryOptions {
+  /** Used for the cover page fallback and the file name. */
+  title: string;
+  folders: string[];
+}
+
+export const DEFAULT_RECENT_VISIT_LIMIT = 5;
+export const DEFAULT_SUMMARY_PHOTO_LIMIT = 12;
+
+const EXCERPT_LENGTH = 400;
+const PHOTO_FORMATS: Record<string, SummaryPhoto['format']> = {
+  jpeg: 'jpeg',
+  jpg: 'jpeg',
+  png: 'png',
+};
+
+// --- Pure helpers ---
+
+function markdownBody(doc: MedicalDocument): string {
+  return parseMarkdownFrontMatter(doc.value).body;
+}
+
+/** Markdown to plain text: headings, list markers and emphasis dropped, lines joined. */
+export function plainText(markdown: string): string {
+  return markdown
+    .split('\n')
+    .map((line) => line.replace(/^\s*(#{1,6}|[-*+]|\d+\.)\s+/, '').replace(/\*\*|__|`/g, '').trim())
+    .filter(Boolean)
+    .join(' ');
+}
+
+function excerpt(text: string | undefined): string | undefined {
+  if (!text) return undefined;
+  const plain = plainText(text);
+  if (!plain) return undefined;
+  return plain.length > EXCERPT_LENGTH ? `${plain.slice(0, EXCERPT_LENGTH - 1).trimEnd()}…` : plain;
+}
+
+function createdDate(doc: MedicalDocument): string | undefined {
+  return toFhirDate(doc.metadata.created);
+}
+
+function formatFolderName(slug: string): string {
+  return slug
+    .split('-')
+    .map((w) => w.charAt(0).toUpperCase() + w.slice(1))
+    .join(' ');
+}
+
+function byDateDesc<T extends { date?: string }>(a: T, b: T): number {
+  return (b.date ?? '').localeCompare(a.date ?? '');
+}
+
+function isActiveMedication(stopDate: string | undefined, today: string): boolean {
+  if (!stopDate?.trim()) return true;
+  const stop = toFhirDate(stopDate);
+  // An unparseable stop date still means the patient stopped it.
+  return Boolean(stop && stop > today);
+}
+
+function photoFormat(node: MedicalDocument): SummaryPhoto['format'] | undefined {
+  const format = node.metadata.format?.toLowerCase();
+  if (format) return PHOTO_FORMATS[format];
+  const extension = node.value.replace(/\.enc$/, '').split('.').pop()?.toLowerCase();
+  return extension ? PHOTO_FORMATS[extension] : undefined;
+}
+
+function collectPhotos(path: string, doc: MedicalDocument): SummaryPhoto[] {
+  const dir = path.includes('/') ? path.slice(0, path.lastIndexOf('/')) : '';
+  const caption = doc.metadata.type === 'attachment_ref'
+    ? formatFolderName(dir.split('/').pop() || 'Photo')
+    : extractTitle(doc);
+  const photos: SummaryPhoto[] = [];
+  for (const node of [doc, ...doc.children]) {
+    if (node.metadata.type !== 'attachment_ref' || !node.value.endsWith('.enc')) continue;
+    const format = photoFormat(node);
+    if (!format) continue;
+    photos.push({
+      sidecarPath: dir ? `${dir}/${node.value}` : node.value,
+      format,
+      caption,
+      date: createdDate(node) ?? createdDate(doc),
+    });
+  }
+  return photos;
+}
+
+/** Patient name and DOB from patient-info.json (`# Name` + `DOB: ...`). */
+function parsePatient(patientInfo: MedicalDocument | null, fallbackName: string): BinderSummary['patient'] {
+  if (!patientInfo) return { name: fallbackName };
+  const body = markdownBody(patientInfo);
+  const name = body.match(/^#\s+(.+)$/m)?.[1]?.trim() || fallbackName;
+  const dateOfBirth = body.match(/^DOB:\s*(.+)$/im)?.[1]?.trim();
+  return { name, ...(dateOfBirth ? { dateOfBirth } : {}) };
+}
+
+/**
+ * Sort decrypted entries into summary sections. patient-info.json is always
+ * used for the cover; everything else must sit inside `folders`.
+ */
+export function buildBinderSummary(input: BinderSummaryInput, fallbackName = 'Medical Summary'): BinderSummary {
+  const today = input.today ?? new Date().toISOString().slice(0, 10);
+  const scope = { paths: input.folders };
+  const summary: BinderSummary = {
+    patient: parsePatient(input.patientInfo, fallbackName),
+    folders: input.folders,
+    medications: [],
+    allergies: [],
+    conditions: [],
+    visits: [],
+    photos: [],
+  };
+  const conditionsByFolder = new Map<string, SummaryCondition>();
+
+  const sorted = [...input.entries].sort((a, b) => (a.path < b.path ? -1 : a.path > b.path ? 1 : 0));
+  for (const { path, doc } of sorted) {
+    if (!isSearchableDocumentPath(path) || !isPathInShareScope(path, scope)) continue;
+    summary.photos.push(...collectPhotos(path, doc));
+
+    const type = doc.metadata.type;
+    if (type === 'attachment_ref') continue;
+    const category = findCategoryForPath(path)?.slug;
+    const body = markdownBody(doc);
+
+    if (type === 'medication' || category === 'medications') {
+      const { fields } = parseMedicationEntry(body);
+      if (!fields) {
+        summary.medications.push({ name: extractTitle(doc) });
+      } else if (isActiveMedication(fields.stopDate, today)) {
+        summary.medications.push({
+          name: fields.name,
+          dosage: fields.dosage,
+          frequency: fields.frequency,
+          ...(fields.startDate ? { startDate: fields.startDate } : {}),
+        });
+      }
+    } else if (type === 'allergy' || category === 'allergies') {
+      const status = listField(body, 'Status')?.toLowerCase();
+      if (status === 'inactive' || status === 'resolved') continue;
+      const reaction = listField(body, 'Reaction', 'Reactions');
+      const severity = listField(body, 'Severity');
+      summary.allergies.push({
+        name: extractTitle(doc),
+        ...(reaction ? { reaction } : {}),
+        ...(severity ? { severity } : {}),
+      });
+    } else if (type === 'condition' || category === 'conditions') {
+      // One row per condition folder; its overview (type 'condition') names it.
+      const parts = path.split('/');
+      const folder = category === 'conditions' && parts.length > 2 ? parts.slice(0, 2).join('/') : path;
+      const existing = conditionsByFolder.get(folder);
+      const since = createdDate(doc);
+      const name = type === 'condition'
+        ? extractTitle(doc)
+        : existing?.name ?? formatFolderName(parts.length > 2 ? parts[1] : extractTitle(doc));
+      conditionsByFolder.set(folder, {
+        name,
+        since: [existing?.since, since].filter(Boolean).sort()[0],
+      });
+    } else if (type === 'visit' || category === 'visits') {
+      const provider = doc.metadata.provider;
+      const assessment = excerpt(section(body, 'Assessment'));
+      const plan = excerpt(section(body, 'Plan'));
+      summary.visits.push({
+        title: extractTitle(doc),
+        date: createdDate(doc),
+        ...(provider ? { provider } : {}),
+        ...(assessment ? { assessment } : {}),
+        ...(plan ? { plan } : {}),
+      });
+    }
+  }
+
+  summary.conditions = [...conditionsByFolder.values()].sort((a, b) => a.name.localeCompare(b.name));
+  summary.visits = summary.visits.sort(byDateDesc).slice(0, input.recentVisitLimit ?? DEFAULT_RECENT_VISIT_LIMIT);
+  summary.photos = summary.photos.sort(byDateDesc).slice(0, input.photoLimit ?? DEFAULT_SUMMARY_PHOTO_LIMIT);
+  return summary;
+}
+
+// --- PDF layout ---
+
+const PAGE_WIDTH = 612;
+const PAGE_HEIGHT = 792;
+const MARGIN = 54;
+const CONTENT_WIDTH = PAGE_WIDTH - MARGIN * 2;
+const FOOTER_HEIGHT = 28;
+
+const COLORS = {
+  text: hexToPdfColor('#1F2D3D'),
+  muted: hexToPdfColor('#5D6674'),
+  rule: hexToPdfColor('#D5DAE1'),
+  accent: hexToPdfColor('#006FEC'),
+  warning: hexToPdfColor('#B45309'),
+};
+
+// Characters Helvetica's WinAnsi encoding has beyond Latin-1.
+const WIN_ANSI_EXTRAS = new Set('€‚ƒ„…†‡ˆ‰Š‹ŒŽ‘’“”•–—˜™š›œžŸ');
+
+/** Replace what the standard fonts can't encode (emoji, non-Latin scripts) so drawText doesn't throw. */
+export function toPdfText(text: string): string {
+  return Array.from(text)
+    .map((char) => {
+      const code = char.codePointAt(0)!;
+      if (/\s/.test(char)) return ' ';
+      if ((code >= 0x20 && code < 0x7f) || (code >= 0xa0 && code <= 0xff) || WIN_ANSI_EXTRAS.has(char)) return char;
+      return /\p{Extended_Pictographic}|[\u200d\ufe0f]/u.test(char) ? '' : '?';
+    })
+    .join('')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+interface Column {
+  label: string;
+  /** Fraction of the content width. */
+  width: number;
+}
+
+class SummaryPdfWriter {
+  private page!: PDFPage;
+  private y = 0;
+
+  constructor(
+    readonly pdf: PDFDocument,
+    private readonly font: PDFFont,
+    private readonly bold: PDFFont,
+  ) {}
+
+  newPage(): void {
+    this.page = this.pdf.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+    this.y = PAGE_HEIGHT - MARGIN;
+  }
+
+  private ensureSpace(height: number): void {
+    if (this.y - height < MARGIN + FOOTER_HEIGHT) this.newPage();
+  }
+
+  gap(height: number): void {
+    this.y -= height;
+  }
+
+  wrap(text: string, size: number, width: number, font = this.font): string[] {
+    const words = toPdfText(text).split(' ').filter(Boolean);
+    const lines: string[] = [];
+    let line = '';
+    for (const word of words) {
+      const candidate = line ? `${line} ${word}` : word;
+      if (font.widthOfTextAtSize(candidate, size) <= width) {
+        line = candidate;
+        continue;
+      }
+      if (line) lines.push(line);
+      // A single word wider than the column is split by character.
+      let rest = word;
+      while (font.widthOfTextAtSize(rest, size) > width && rest.length > 1) {
+        let cut = rest.length - 1;
+        while (cut > 1 && font.widthOfTextAtSize(rest.slice(0, cut), size) > width) cut--;
+        lines.push(rest.slice(0, cut));
+        rest = rest.slice(cut);
+      }
+      line = rest;
+    }
+    if (line) lines.push(line);
+    return lines;
+  }
+
+  text(text: string, options: { size?: number; bold?: boolean; color?: typeof COLORS.text; indent?: number } = {}): void {
+    const size = options.size ?? 11;
+    const font = options.bold ? this.bold : this.font;
+    const indent = options.indent ?? 0;
+    const lineHeight = size * 1.35;
+    for (const line of this.wrap(text, size, CONTENT_WIDTH - indent, font)) {
+      this.ensureSpace(lineHeight);
+      this.y -= lineHeight;
+      this.page.drawText(line, { x: MARGIN + indent, y: this.y + size * 0.3, size, font, color: options.color ?? COLORS.text });
+    }
+  }
+
+  heading(text: string): void {
+    this.ensureSpace(60);
+    this.gap(18);
+    this.text(text, { size: 15, bold: true, color: COLORS.accent });
+    this.gap(4);
+    this.page.drawLine({
+      start: { x: MARGIN, y: this.y },
+      end: { x: PAGE_WIDTH - MARGIN, y: this.y },
+      thickness: 0.75,
+      color: COLORS.rule,
+    });
+    this.gap(6);
+  }
+
+  empty(text: string): void {
+    this.text(text, { size: 10, color: COLORS.muted });
+  }
+
+  table(columns: Column[], rows: string[][]): void {
+    const size = 10;
+    const lineHeight = size * 1.35;
+    const padding = 4;
+    const drawRow = (cells: string[], font: PDFFont, color: typeof COLORS.text) => {
+      const wrapped = cells.map((cell, i) => this.wrap(cell, size, columns[i].width * CONTENT_WIDTH - padding * 2, font));
+      const height = Math.max(1, ...wrapped.map((lines) => lines.length)) * lineHeight + padding * 2;
+      this.ensureSpace(height);
+      let x = MARGIN;
+      wrapped.forEach((lines, i) => {
+        lines.forEach((line, j) => {
+          this.page.drawText(line, {
+            x: x + padding,
+            y: this.y - padding - (j + 1) * lineHeight + size * 0.3,
+            size,
+            font,
+            color,
+          });
+        });
+        x += columns[i].width * CONTENT_WIDTH;
+      });
+      this.y -= height;
+      this.page.drawLine({
+        start: { x: MARGIN, y: this.y },
+        end: { x: PAGE_WIDTH - MARGIN, y: this.y },
+        thickness: 0.5,
+        color: COLORS.rule,
+      });
+    };
+
+    drawRow(columns.map((c) => c.label), this.bold, COLORS.muted);
+    for (const row of rows) drawRow(row, this.font, COLORS.text);
+  }
+
+  image(image: PDFImage, caption: string): void {
+    const captionHeight = 28;
+    const maxHeight = (PAGE_HEIGHT - MARGIN * 2 - FOOTER_HEIGHT) / 2 - captionHeight;
+    const scale = Math.min(CONTENT_WIDTH / image.width, maxHeight / image.height, 1);
+    const width = image.width * scale;
+    const height = image.height * scale;
+    this.ensureSpace(height + captionHeight);
+    this.y -= height;
+    this.page.drawImage(image, { x: MARGIN + (CONTENT_WIDTH - width) / 2, y: this.y, width, height });
+    this.gap(4);
+    this.text(caption, { size: 9, color: COLORS.muted });
+    this.gap(10);
+  }
+
+  /** Footer on every page: who the summary is for and "Page n of N". */
+  footer(label: string): void {
+    const pages = this.pdf.getPages();
+    const text = toPdfText(label);
+    pages.forEach((page, index) => {
+      const pageLabel = `Page ${index + 1} of ${pages.length}`;
+      page.drawText(text, { x: MARGIN, y: MARGIN / 2, size: 8, font: this.font, color: COLORS.muted });
+      page.drawText(pageLabel, {
+        x: PAGE_WIDTH - MARGIN - this.font.widthOfTextAtSize(pageLabel, 8),
+        y: MARGIN / 2,
+        size: 8,
+        font: this.font,
+        color: COLORS.muted,
+      });
+    });
+  }
+}
+
+function describeFolders(folders: string[]): string {
+  if (folders.length === 0) return 'Entire binder';
+  return folders.map((folder) => formatFolderName(folder.split('/').pop() || folder)).join(', ');
+}
+
+function countLabel(count: number, singular: string, plural = `${singular}s`): string {
+  return `${count} ${count === 1 ? singular : plural}`;
+}
+
+/**
+ * Lay the summary out as a letter-size PDF. `photoBytes` holds decrypted
+ * sidecars keyed by sidecarPath; photos without bytes (or that fail to
+ * embed) are left out.
+ */
+export async function renderBinderSummaryPdf(
+  summary: BinderSummary,
+  photoBytes: ReadonlyMap<string, Uint8Array>,
+  generatedAt: Date = new Date(),
+): Promise<Uint8Array> {
+  const pdf = await PDFDocument.create();
+  const font = await pdf.embedFont(StandardFonts.Helvetica);
+  const bold = await pdf.embedFont(StandardFonts.HelveticaBold);
+  const writer = new SummaryPdfWriter(pdf, font, bold);
+  const generatedOn = generatedAt.toISOString().slice(0, 10);
+
+  pdf.setTitle(toPdfText(`${summary.patient.name} — Medical Summary`));
+  pdf.setCreator('Limbo Health');
+  pdf.setCreationDate(generatedAt);
+
+  // Cover
+  writer.newPage();
+  writer.gap(120);
+  writer.text('Medical Summary', { size: 14, color: COLORS.accent, bold: true });
+  writer.gap(6);
+  writer.text(summary.patient.name, { size: 28, bold: true });
+  if (summary.patient.dateOfBirth) {
+    writer.gap(4);
+    writer.text(`Date of birth: ${summary.patient.dateOfBirth}`, { size: 13 });
+  }
+  writer.gap(24);
+  writer.text(`Generated ${generatedOn}`, { size: 11, color: COLORS.muted });
+  writer.text(`Includes: ${describeFolders(summary.folders)}`, { size: 11, color: COLORS.muted });
+  writer.gap(24);
+  writer.text('Contents', { size: 12, bold: true });
+  writer.gap(4);
+  for (const line of [
+    countLabel(summary.medications.length, 'active medication'),
+    countLabel(summary.allergies.length, 'allergy', 'allergies'),
+    countLabel(summary.conditions.length, 'condition'),
+    countLabel(summary.visits.length, 'recent visit'),
+    countLabel(summary.photos.length, 'photo'),
+  ]) {
+    writer.text(`•  ${line}`, { size: 11, indent: 8 });
+  }
+  writer.gap(36);
+  writer.text(
+    'Prepared by the patient from their personal health records. Confirm details with the treating provider.',
+    { size: 9, color: COLORS.muted },
+  );
+
+  // Sections
+  writer.newPage();
+  writer.heading('Allergies');
+  if (summary.allergies.length === 0) {
+    writer.empty('No allergies recorded.');
+  } else {
+    writer.table(
+      [{ label: 'Allergy', width: 0.4 }, { label: 'Reaction', width: 0.4 }, { label: 'Severity', width: 0.2 }],
+      summary.allergies.map((a) => [a.name, a.reaction ?? '', a.severity ?? '']),
+    );
+  }
+
+  writer.heading('Active Medications');
+  if (summary.medications.length === 0) {
+    writer.empty('No active medications recorded.');
+  } else {
+    writer.table(
+      [
+        { label: 'Medication', width: 0.34 },
+        { label: 'Dosage', width: 0.22 },
+        { label: 'Frequency', width: 0.26 },
+        { label: 'Started', width: 0.18 },
+      ],
+      summary.medications.map((m) => [m.name, m.dosage ?? '', m.frequency ?? '', m.startDate ?? '']),
+    );
+  }
+
+  writer.heading('Conditions');
+  if (summary.conditions.length === 0) {
+    writer.empty('No conditions recorded.');
+  } else {
+    writer.table(
+      [{ label: 'Condition', width: 0.7 }, { label: 'First recorded', width: 0.3 }],
+      summary.conditions.map((c) => [c.name, c.since ?? '']),
+    );
+  }
+
+  writer.heading('Recent Visits');
+  if (summary.visits.length === 0) {
+    writer.empty('No visits recorded.');
+  }
+  for (const visit of summary.visits) {
+    writer.gap(4);
+    writer.text(visit.title, { size: 11, bold: true });
+    const meta = [visit.date, visit.provider].filter(Boolean).join(' · ');
+    if (meta) writer.text(meta, { size: 9, color: COLORS.muted });
+    if (visit.assessment) writer.text(`Assessment: ${visit.assessment}`, { size: 10, indent: 8 });
+    if (visit.plan) writer.text(`Plan: ${visit.plan}`, { size: 10, indent: 8 });
+    writer.gap(4);
+  }
+
+  const embedded: Array<{ image: PDFImage; caption: string }> = [];
+  for (const photo of summary.photos) {
+    const bytes = photoBytes.get(photo.sidecarPath);
+    if (!bytes) continue;
+    try {
+      const image = await embedRasterImage(pdf, bytes, photo.format === 'png' ? 'image/png' : 'image/jpeg');
+      embedded.push({ image, caption: [photo.caption, photo.date].filter(Boolean).join(' · ') });
+    } catch (err) {
+      console.warn(`Summary PDF: skipping photo ${photo.sidecarPath}`, err);
+    }
+  }
+  if (embedded.length > 0) {
+    writer.newPage();
+    writer.heading('Photos');
+    for (const { image, caption } of embedded) writer.image(image, caption);
+  }
+
+  writer.footer(`${summary.patient.name} · Medical summary · ${generatedOn}`);
+  return pdf.save();
+}
+
+// --- Public API ---
+
+/** Decrypt the chosen folders and sort them into summary sections. */
+export async function summarizeBinder(
+  service: BinderService,
+  options: ExportBinderSummaryOptions,
+): Promise<BinderSummary> {
+  const scope = { paths: options.folders };
+  const entries: BinderSummaryEntry[] = [];
+  for (const path of await service.listAllFiles()) {
+    if (!isSearchableDocumentPath(path) || !isPathInShareScope(path, scope)) continue;
+    try {
+      entries.push({ path, doc: await service.readEntry(path) });
+    } catch (err) {
+      console.warn(`Binder summary: skipping unreadable file ${path}`, err);
+    }
+  }
+
+  return buildBinderSummary(
+    { patientInfo: await service.readPatientInfo(), entries, folders: options.folders },
+    options.title,
+  );
+}
+
+/**
+ * Build the summary PDF for the chosen folders and write it to the temp dir.
+ * Returns the file:// uri; the caller shares it and deletes it.
+ */
+export async function exportBinderSummaryPdf(
+  service: BinderService,
+  options: ExportBinderSummaryOptions,
+): Promise<string> {
+  const summary = await summarizeBinder(service, options);
+
+  const photoBytes = new Map<string, Uint8Array>();
+  for (const photo of summary.photos) {
+    try {
+      photoBytes.set(photo.sidecarPath, await service.readSidecar(photo.sidecarPath));
+    } catch (err) {
+      console.warn(`Summary PDF: skipping unreadable photo ${photo.sidecarPath}`, err);
+    }
+  }
+
+  const pdfBytes = await renderBinderSummaryPdf(summary, photoBytes);
+  return writeTemporaryPdf(pdfBytes, `${summary.patient.name}-summary`);
+}
@@ -0,0 +1,146 @@
+// core/binder/DecryptedMerge.ts
+// isomorphic-git merge driver for encrypted binders: .json documents are
+// decrypted, merged line by line and re-encrypted; everything else merges
+// as ciphertext. Conflicts keep the local version.
+// Shared by BinderService pulls and master key rotation, which can see a
+// file under the old key on one side and the new key on the other.
+
+import type { MergeDriverCallback } from 'isomorphic-git';
+import { decrypt, encrypt } from '../crypto/nip44';
+
+interface Diff3MergeBlock {
+  ok?: string[];
+  conflict?: {
+    a: string[];
+    b: string[];
+  };
+}
+
+const diff3Merge = require('diff3') as (
+  a: string[],
+  o: string[],
+  b: string[],
+) => Diff3MergeBlock[];
+
+const LINEBREAKS = /^.*(\r?\n|$)/gm;
+
+export interface DecryptedMergeOptions {
+  /** Keys to try, in order, when opening each side. */
+  keys: Uint8Array[];
+  /** Key the merged document is written under. */
+  outputKey: Uint8Array;
+  /** Called with the plaintexts when a document conflicts. */
+  onConflict?: (path: string, basePlain: string, ourPlain: string, theirPlain: string) => void;
+}
+
+function splitLines(content: string): string[] {
+  return content.match(LINEBREAKS) ?? [content];
+}
+
+function canonicalizeJsonForMerge(content: string): string {
+  try {
+    return JSON.stringify(JSON.parse(content), null, 2) + '\n';
+  } catch {
+    return content;
+  }
+}
+
+function mergeText3Way(
+  branches: string[],
+  baseContent: string,
+  ourContent: string,
+  theirContent: string,
+): { cleanMerge: boolean; mergedText: string } {
+  const ours = splitLines(ourContent);
+  const base = splitLines(baseContent);
+  const theirs = splitLines(theirContent);
+  const result = diff3Merge(ours, base, theirs);
+
+  const ourName = branches[1] ?? 'ours';
+  const theirName = branches[2] ?? 'theirs';
+  const markerSize = 7;
+
+  let mergedText = '';
+  let cleanMerge = true;
+
+  for (const item of result) {
+    if (item.ok) {
+      mergedText += item.ok.join('');
+    }
+    if (item.conflict) {
+      cleanMerge = false;
+      mergedText += `${'<'.repeat(markerSize)} ${ourName}\n`;
+      mergedText += item.conflict.a.join('');
+      mergedText += `${'='.repeat(markerSize)}\n`;
+      mergedText += item.conflict.b.join('');
+      mergedText += `${'>'.repeat(markerSize)} ${theirName}\n`;
+    }
+  }
+
+  return { cleanMerge, mergedText };
+}
+
+function decryptWithAny(ciphertext: string, keys: Uint8Array[]): string {
+  if (!ciphertext) return '';
+  let lastError: unknown = null;
+  for (const key of keys) {
+    try {
+      return decrypt(ciphertext, key);
+    } catch (err) {
+      lastError = err;
+    }
+  }
+  throw lastError ?? new Error('No key to decrypt with.');
+}
+
+export function createDecryptedMergeDriver({ keys, outputKey, onConflict }: DecryptedMergeOptions): MergeDriverCallback {
+  return async ({ branches, contents, path }) => {
+    const baseCipher = contents[0] ?? '';
+    const ourCipher = contents[1] ?? '';
+    const theirCipher = contents[2] ?? '';
+
+    const mergeCiphertext = () => {
+      const merged = mergeText3Way(branches, baseCipher, ourCipher, theirCipher);
+      if (merged.cleanMerge) return merged;
+      console.warn(`Ciphertext merge conflict in ${path}; using local version.`);
+      return {
+        cleanMerge: true,
+        mergedText: ourCipher,
+      };
+    };
+
+    if (!path.endsWith('.json')) {
+      return mergeCiphertext();
+    }
+
+    try {
+      const basePlain = decryptWithAny(baseCipher, keys);
+      const ourPlain = decryptWithAny(ourCipher, keys);
+      const theirPlain = decryptWithAny(theirCipher, keys);
+
+      const merged = mergeText3Way(
+        branches,
+        canonicalizeJsonForMerge(basePlain),
+        canonicalizeJsonForMerge(ourPlain),
+        canonicalizeJsonForMerge(theirPlain),
+      );
+
+      if (!merged.cleanMerge) {
+        console.warn(`Decrypted merge conflict in ${path}; using local version.`);
+        onConflict?.(path, basePlain, ourPlain, theirPlain);
+        return {
+          cleanMerge: true,
+          mergedText: encrypt(canonicalizeJsonForMerge(ourPlain), outputKey),
+        };
+      }
+
+      return {
+        cleanMerge: true,
+        mergedText: encrypt(merged.mergedText, outputKey),
+      };
+    } catch (err) {
+      console.warn(`Decrypted merge unavailable for ${path}; falling back to ciphertext merge.`, err);
+      return mergeCiphertext();
+    }
+  };
+}
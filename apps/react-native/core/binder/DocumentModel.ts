@@ -4,8 +4,10 @@
 // provides runtime validation and convenience constructors.
 
 import type { MedicalDocument, DocumentMetadata } from '../../types/document';
+import { MAX_PLAINTEXT_SIZE } from '../crypto/nip44';
 import { parseMarkdownFrontMatter } from '../markdown/frontmatter';
 import { parseMedicationEntry } from '../markdown/medicationEntry';
+import { medicationStatus, type MedicationStatus } from '../medication/schedule';
 
 // --- Validation ---
 
@@ -38,6 +40,47 @@ export function parseDocument(raw: unknown): MedicalDocument {
   return raw;
 }
 
+// --- Size ---
+
+/** Room kept for fields added on save (e.g. displayOrder) when budgeting text. */
+const SAVE_HEADROOM_BYTES = 256;
+
+const utf8 = new TextEncoder();
+
+/** Bytes the document takes as one NIP-44 message; sidecars have no such limit. */
+export function documentByteLength(doc: MedicalDocument): number {
+  return utf8.encode(JSON.stringify(doc)).length;
+}
+
+export function documentFits(doc: MedicalDocument): boolean {
+  return documentByteLength(doc) <= MAX_PLAINTEXT_SIZE;
+}
+
+/** Bytes of text that can still be added to the document before it stops fitting. */
+export function documentTextBudget(doc: MedicalDocument): number {
+  return MAX_PLAINTEXT_SIZE - SAVE_HEADROOM_BYTES - documentByteLength(doc);
+}
+
+/** Bytes `text` adds to a document's JSON, escapes included. */
+export function jsonTextByteLength(text: string): number {
+  return utf8.encode(JSON.stringify(text)).length - 2;
+}
+
+/** The longest start of `text` that adds at most `maxBytes` to a document's JSON. */
+export function fitTextToBytes(text: string, maxBytes: number): string {
+  if (jsonTextByteLength(text) <= maxBytes) return text;
+  let low = 0;
+  let high = text.length;
+  while (low < high) {
+    const mid = (low + high + 1) >> 1;
+    if (jsonTextByteLength(text.slice(0, mid)) <= maxBytes) low = mid;
+    else high = mid - 1;
+  }
+  // Never end on half of a surrogate pair.
+  const last = text.charCodeAt(low - 1);
+  return last >= 0xd800 && last <= 0xdbff ? text.slice(0, low - 1) : text.slice(0, low);
+}
+
 // --- Factory helpers ---
 
 export function createDocument(
@@ -114,6 +157,24 @@ export function createAudioRef(
   });
 }
 
+/**
+ * A scanned paper document: recognized text as the value (searchable), the
+ * combined PDF as an attachment child.
+ */
+export function createScannedDocument(
+  markdown: string,
+  sidecarFilename: string,
+  sizeBytes: number,
+): MedicalDocument {
+  const doc = createDocument(markdown, 'note', { tags: ['scan'] });
+  doc.children.push(createDocument(sidecarFilename, 'attachment_ref', {
+    format: 'pdf',
+    encoding: 'base64',
+    originalSizeBytes: sizeBytes,
+  }));
+  return doc;
+}
+
 export function createLabResult(
   labName: string,
 ): MedicalDocument {
@@ -143,6 +204,7 @@ export interface EntryMetadata {
   created: string;
   displayOrder?: number;
   condition?: string;
+  importSource?: string;
 }
 
 /**
@@ -158,6 +220,7 @@ export function extractEntryMetadata(
     created: doc.metadata.created,
     displayOrder: doc.metadata.displayOrder,
     condition: doc.metadata.condition,
+    importSource: doc.metadata.importSource,
   };
 }
 
@@ -195,6 +258,7 @@ export interface EntryPreview extends EntryMetadata {
   medicationName?: string;
   medicationDosage?: string;
   medicationFrequency?: string;
+  medicationStatus?: MedicationStatus;
 }
 
 export function extractEntryPreview(
@@ -215,5 +279,6 @@ export function extractEntryPreview(
     medicationName: isMedicationEntry ? (medication.fields?.name ?? undefined) : undefined,
     medicationDosage: isMedicationEntry ? (medication.fields?.dosage ?? undefined) : undefined,
     medicationFrequency: isMedicationEntry ? (medication.fields?.frequency ?? undefined) : undefined,
+    medicationStatus: isMedicationEntry && medication.fields ? medicationStatus(medication.fields) : undefined,
   };
 }
@@ -0,0 +1,130 @@
+// core/binder/DocumentScan.ts
+// Multi-page paper documents from the document scanner (edge detection and
+// crop happen in the native scanner UI). Each page's on-device OCR text goes
+// into the entry's markdown so search finds it, the cropped pages are
+// combined into one PDF sidecar, and the text picks a suggested folder
+// through the keyword rules in folderBehavior.ts.
+
+import { PDFDocument } from 'pdf-lib';
+import { getCategory } from './categories';
+import { fitTextToBytes, jsonTextByteLength } from './DocumentModel';
+import { inferBehavior, inferDocumentRule } from './folderBehavior';
+import { embedRasterImage } from '../recordsWorkflow/pdf';
+
+// --- Types ---
+
+export interface ScannedPage {
+  /** Cropped, compressed page image. */
+  jpeg: Uint8Array;
+  /** Recognized text; empty when OCR found nothing. */
+  text: string;
+}
+
+export interface ScanFolderSuggestion {
+  /** Binder-relative folder path. */
+  folder: string;
+  label: string;
+  icon: string;
+  /** The binder has no such folder yet; create it before saving. */
+  create: boolean;
+}
+
+export const SCAN_FALLBACK_TITLE = 'Scanned Document';
+
+const TITLE_MAX_LENGTH = 60;
+/** Recognized text kept in the entry (a NIP-44 message); the PDF holds every page. */
+const MAX_SCAN_TEXT_BYTES = 60 * 1024;
+const TEXT_SHORTENED_NOTE = '_Text shortened; see the attached PDF for the rest._';
+/** Letter width in points; each page keeps its own aspect ratio. */
+const PDF_PAGE_WIDTH = 612;
+
+// --- Text ---
+
+/** First line of the recognized text that reads like a heading, else the fallback. */
+export function scanTitle(pageTexts: string[], fallback: string = SCAN_FALLBACK_TITLE): string {
+  for (const text of pageTexts) {
+    for (const raw of text.split('\n')) {
+      const line = raw.replace(/\s+/g, ' ').trim();
+      const letters = line.match(/[a-z]/gi)?.length ?? 0;
+      if (line.length >= 4 && letters >= 3 && letters >= line.length / 2) {
+        return line.length > TITLE_MAX_LENGTH ? `${line.slice(0, TITLE_MAX_LENGTH - 1).trimEnd()}…` : line;
+      }
+    }
+  }
+  return fallback;
+}
+
+/** OCR lines starting with '#' would otherwise turn into headings. */
+function escapeRecognizedText(text: string): string {
+  return text.trim().replace(/^(\s*)#/gm, '$1\\#');
+}
+
+/**
+ * Entry markdown: the title, then each page's recognized text. Pages get
+ * their own headings only when there is more than one. Text past
+ * MAX_SCAN_TEXT_BYTES is cut, with a note pointing to the PDF.
+ */
+export function buildScanMarkdown(title: string, pageTexts: string[]): string {
+  const sections = pageTexts.map((text, index) => {
+    const body = escapeRecognizedText(text) || '_No text recognized._';
+    return pageTexts.length > 1 ? `## Page ${index + 1}\n\n${body}` : body;
+  });
+
+  const parts = [`# ${title.trim() || SCAN_FALLBACK_TITLE}`];
+  let budget = MAX_SCAN_TEXT_BYTES - jsonTextByteLength(`${parts[0]}\n\n${TEXT_SHORTENED_NOTE}\n`);
+  for (const section of sections) {
+    const cost = jsonTextByteLength(`\n\n${section}`);
+    if (cost > budget) {
+      const partial = fitTextToBytes(section, budget - jsonTextByteLength('\n\n')).trimEnd();
+      if (partial) parts.push(partial);
+      parts.push(TEXT_SHORTENED_NOTE);
+      break;
+    }
+    parts.push(section);
+    budget -= cost;
+  }
+  return parts.join('\n\n') + '\n';
+}
+
+// --- Folder suggestion ---
+
+/**
+ * Suggest where a scan belongs from its recognized text. Prefers an existing
+ * folder whose name implies the same behavior (or is the category's folder or
+ * alias); otherwise suggests creating the category's folder. Returns null
+ * when the text matches no rule.
+ */
+export function suggestScanFolder(text: string, folders: string[]): ScanFolderSuggestion | null {
+  const rule = inferDocumentRule(text);
+  if (!rule) return null;
+
+  const category = getCategory(rule.category);
+  const categoryFolders = category ? [category.folder, ...(category.folderAliases ?? [])] : [rule.category];
+  const existing = folders.find((folder) => {
+    const leaf = folder.slice(folder.lastIndexOf('/') + 1);
+    return inferBehavior(leaf)?.id === rule.id || categoryFolders.includes(folder);
+  });
+
+  return {
+    folder: existing ?? category?.folder ?? rule.category,
+    label: category?.label ?? rule.category,
+    icon: category?.emoji ?? '📄',
+    create: existing === undefined,
+  };
+}
+
+// --- PDF ---
+
+/** Combine page images into one PDF, one image per page, full bleed. */
+export async function renderScanPdf(pages: Uint8Array[]): Promise<Uint8Array> {
+  if (pages.length === 0) throw new Error('A scan needs at least one page');
+
+  const pdf = await PDFDocument.create();
+  for (const bytes of pages) {
+    const image = await embedRasterImage(pdf, bytes, 'image/jpeg');
+    const height = (PDF_PAGE_WIDTH * image.height) / image.width;
+    const page = pdf.addPage([PDF_PAGE_WIDTH, height]);
+    page.drawImage(image, { x: 0, y: 0, width: PDF_PAGE_WIDTH, height });
+  }
+  return pdf.save();
+}
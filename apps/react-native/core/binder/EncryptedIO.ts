@@ -216,6 +216,38 @@ export class EncryptedIO {
     await this.fs.promises.writeFile(path, fileData);
   }
 
+  /**
+   * Whether a .json file or DEK-format sidecar on disk is encrypted with the
+   * given conversation key. Reads raw ciphertext (never the plaintext cache),
+   * so key rotation can tell which files an interrupted run already converted.
+   * Legacy sidecars are never considered converted.
+   */
+  async isEncryptedWithKey(path: string, conversationKey: Uint8Array): Promise<boolean> {
+    try {
+      if (path.endsWith('.enc')) {
+        const parsed = parseDEKFile((await this.fs.promises.readFile(path)) as Uint8Array);
+        if (parsed === null) return false;
+        decrypt(parsed.wrappedDek, conversationKey);
+        return true;
+      }
+      const ciphertext = (await this.fs.promises.readFile(path, { encoding: 'utf8' })) as string;
+      decrypt(ciphertext, conversationKey);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Re-encrypt a .json file (document, .meta.json, …) in place from one
+   * conversation key to another. The plaintext, and so the cache, is unchanged.
+   */
+  async rekeyJSON(path: string, sourceKey: Uint8Array, destKey: Uint8Array): Promise<void> {
+    const ciphertext = (await this.fs.promises.readFile(path, { encoding: 'utf8' })) as string;
+    const plaintext = decrypt(ciphertext, sourceKey);
+    await this.fs.promises.writeFile(path, encrypt(plaintext, destKey), { encoding: 'utf8' });
+  }
+
   /**
    * Re-wrap a sidecar's DEK from one conversation key to another.
    * The bulk ciphertext is copied as-is -- no photo data is decrypted.
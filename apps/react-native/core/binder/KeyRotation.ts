@@ -0,0 +1,451 @@
+// core/binder/KeyRotation.ts
+// Master key rotation: moves every binder from the current master key to a
+// freshly generated one, re-encrypts the scheduler's Ed25519 key (stored by
+// scheduler-api under NIP-04 to the master key), then moves the account's
+// Nostr binding on auth-api.
+//
+// Per binder: commit leftovers → pull → re-key in place → commit → push.
+//   .enc sidecars: DEK re-wrap only (rewrapSidecar), bulk ciphertext untouched.
+//   .json files (documents, .meta.json): full decrypt/re-encrypt, they're tiny.
+//   Device-local sidecars (search index, sync conflicts) are re-wrapped too.
+//   Shared binders (BinderKeyring) move to a new binder key the same way,
+//   wrapped to the owner's new pubkey and every delegate: the old keyring
+//   stays in history, so keeping the binder key would leave everything
+//   readable with the retired master key.
+// Binders the user only holds as a delegate are left alone.
+//
+// Resumable: the new key is stored in the Keychain and the plan in SecureStore
+// before anything is re-encrypted. Each step is idempotent — files already
+// under the new key are skipped, finished binders aren't revisited, and the
+// auth-api call accepts a rotation that already happened — so an interrupted
+// run picks up where it stopped. Files an interrupted run already converted
+// are committed before the next pull, whose merge driver opens either key.
+// Earlier commits stay encrypted under the old key; only the working tree
+// from the rotation commit on uses the new one.
+
+import * as SecureStore from 'expo-secure-store';
+import { ed25519 } from '@noble/curves/ed25519.js';
+import { secp256k1 } from '@noble/curves/secp256k1.js';
+import { bytesToHex, hexToBytes } from '@noble/hashes/utils.js';
+import RNFS from 'react-native-fs';
+import { ENDPOINTS } from '../../constants/api';
+import { KeyManager } from '../crypto/KeyManager';
+import * as nip04 from '../crypto/nip04';
+import { signChallenge } from '../crypto/nostrAuth';
+import { GitEngine, type GitAuthor } from '../git/GitEngine';
+import type { AuthConfig } from '../git/httpTransport';
+import { clearPushQueueEntry } from './PushQueue';
+import {
+  createKeyring,
+  keyringDelegates,
+  readKeyring,
+  rotatedBinderKey,
+  unwrapBinderKey,
+  writeKeyring,
+} from './BinderKeyring';
+import { createDecryptedMergeDriver, type DecryptedMergeOptions } from './DecryptedMerge';
+import { rekeyWorkingTree } from './WorkingTreeRekey';
+
+// --- Types ---
+
+export type BinderRotationStatus = 'pending' | 'done';
+
+export interface KeyRotationState {
+  version: 1;
+  oldPubkey: string;
+  newPubkey: string;
+  startedAt: string;
+  /** Every binder on the account when the rotation started. */
+  binders: Record<string, BinderRotationStatus>;
+  /** Set once scheduler-api holds the Ed25519 key under the new master key. */
+  schedulerKeyMoved?: boolean;
+}
+
+export type KeyRotationStep = 'syncing' | 're-encrypting' | 'pushing' | 'scheduler-key' | 'linking';
+
+export interface KeyRotationProgress {
+  step: KeyRotationStep;
+  repoId?: string;
+  bindersDone: number;
+  totalBinders: number;
+  filesProcessed?: number;
+  totalFiles?: number;
+}
+
+export interface KeyRotationResult {
+  privkey: Uint8Array;
+  pubkey: string;
+  /** Fresh JWT carrying the new pubkey. */
+  jwt: string;
+  /** Files that couldn't be decrypted with the old key and were left as they were. */
+  skippedFiles: string[];
+}
+
+const ROTATION_STATE_KEY = 'limbo_key_rotation_v1';
+const ROTATION_COMMIT_MESSAGE = 'Rotate encryption key';
+
+// --- Pure helpers ---
+
+export function createRotationState(
+  oldPubkey: string,
+  newPubkey: string,
+  repoIds: string[],
+  now: Date,
+): KeyRotationState {
+  return {
+    version: 1,
+    oldPubkey,
+    newPubkey,
+    startedAt: now.toISOString(),
+    binders: Object.fromEntries(repoIds.map((id) => [id, 'pending' as const])),
+  };
+}
+
+export function withBinderRotated(state: KeyRotationState, repoId: string): KeyRotationState {
+  return { ...state, binders: { ...state.binders, [repoId]: 'done' } };
+}
+
+export function pendingRotationBinders(state: KeyRotationState): string[] {
+  return Object.keys(state.binders).filter((id) => state.binders[id] === 'pending');
+}
+
+/**
+ * Re-encrypt the scheduler's NIP-04 wrapped Ed25519 key from the old master
+ * key to the new one. Returns null when it is already under the new key.
+ */
+export function rewrapSchedulerKey(
+  encryptedKey: string,
+  oldPrivkey: Uint8Array,
+  newPrivkey: Uint8Array,
+): { ed25519Pubkey: string; encryptedKey: string } | null {
+  const readKey = (privkey: Uint8Array): string | null => {
+    try {
+      const hex = nip04.decrypt(privkey, KeyManager.pubkeyFromPrivkey(privkey), encryptedKey);
+      return /^[0-9a-f]{64}$/i.test(hex) ? hex : null;
+    } catch {
+      return null;
+    }
+  };
+
+  const privateKey = readKey(oldPrivkey);
+  if (!privateKey) {
+    if (readKey(newPrivkey)) return null;
+    throw new Error('The scheduler key could not be decrypted with the current key.');
+  }
+
+  return {
+    ed25519Pubkey: bytesToHex(ed25519.getPublicKey(hexToBytes(privateKey))),
+    encryptedKey: nip04.encrypt(newPrivkey, KeyManager.pubkeyFromPrivkey(newPrivkey), privateKey),
+  };
+}
+
+/** Content both keys sign for auth-api: the old key authorizes, the new key proves possession. */
+export function buildRotationContent(oldPubkey: string, newPubkey: string, now: Date): string {
+  return `rotate-nostr:${oldPubkey}:${newPubkey}:${Math.floor(now.getTime() / 1000)}`;
+}
+
+// --- Persisted plan ---
+
+export async function readRotationState(): Promise<KeyRotationState | null> {
+  try {
+    const raw = await SecureStore.getItemAsync(ROTATION_STATE_KEY);
+    const parsed = raw ? JSON.parse(raw) as KeyRotationState : null;
+    return parsed?.version === 1 ? parsed : null;
+  } catch (err) {
+    console.warn('Failed to read key rotation state:', err);
+    return null;
+  }
+}
+
+async function writeRotationState(state: KeyRotationState): Promise<void> {
+  await SecureStore.setItemAsync(ROTATION_STATE_KEY, JSON.stringify(state));
+}
+
+async function clearRotationState(): Promise<void> {
+  await SecureStore.deleteItemAsync(ROTATION_STATE_KEY);
+}
+
+// --- Pipeline ---
+
+interface KeyRotationOptions {
+  keyManager: KeyManager;
+  /** The master key currently in use (already unlocked). */
+  currentPrivkey: Uint8Array;
+  jwt: string;
+  author: GitAuthor;
+  onProgress?: (progress: KeyRotationProgress) => void;
+}
+
+/**
+ * Start a rotation, or resume the one already in progress.
+ * Throws on failure; calling again continues from the last finished step.
+ */
+export async function rotateMasterKey({
+  keyManager,
+  currentPrivkey,
+  jwt,
+  author,
+  onProgress,
+}: KeyRotationOptions): Promise<KeyRotationResult> {
+  const currentPubkey = KeyManager.pubkeyFromPrivkey(currentPrivkey);
+  let state = await readRotationState();
+  let newPrivkey: Uint8Array | null;
+
+  if (state) {
+    // Interrupted after the key was promoted: everything else already happened.
+    if (state.newPubkey === currentPubkey) {
+      await keyManager.deleteRotationPrivkey();
+      await clearRotationState();
+      return { privkey: currentPrivkey, pubkey: currentPubkey, jwt, skippedFiles: [] };
+    }
+    if (state.oldPubkey !== currentPubkey) {
+      throw new Error('The interrupted rotation belongs to a different key.');
+    }
+    newPrivkey = await keyManager.getRotationPrivkey();
+    if (!newPrivkey || KeyManager.pubkeyFromPrivkey(newPrivkey) !== state.newPubkey) {
+      throw new Error('The key for the interrupted rotation is missing from this device.');
+    }
+  } else {
+    newPrivkey = secp256k1.utils.randomSecretKey();
+    const repoIds = await fetchRepoIds(jwt);
+    state = createRotationState(currentPubkey, KeyManager.pubkeyFromPrivkey(newPrivkey), repoIds, new Date());
+    // Key first, then plan: a plan without its key could never be resumed.
+    await keyManager.storeRotationPrivkey(newPrivkey);
+    await writeRotationState(state);
+  }
+
+  const totalBinders = Object.keys(state.binders).length;
+  const auth: AuthConfig = { type: 'jwt', token: jwt };
+  const skippedFiles: string[] = [];
+
+  for (const repoId of pendingRotationBinders(state)) {
+    const bindersDone = totalBinders - pendingRotationBinders(state).length;
+    skippedFiles.push(...await rotateBinder(
+      repoId,
+      currentPrivkey,
+      newPrivkey,
+      auth,
+      author,
+      (progress) => onProgress?.({ ...progress, repoId, bindersDone, totalBinders }),
+    ));
+    state = withBinderRotated(state, repoId);
+    await writeRotationState(state);
+  }
+
+  if (!state.schedulerKeyMoved) {
+    onProgress?.({ step: 'scheduler-key', bindersDone: totalBinders, totalBinders });
+    await moveSchedulerKey(jwt, currentPrivkey, newPrivkey);
+    state = { ...state, schedulerKeyMoved: true };
+    await writeRotationState(state);
+  }
+
+  onProgress?.({ step: 'linking', bindersDone: totalBinders, totalBinders });
+  const freshJwt = await bindNewPubkey(jwt, currentPrivkey, newPrivkey, state);
+
+  await keyManager.promoteRotationPrivkey(newPrivkey);
+  await clearRotationState();
+
+  return { privkey: newPrivkey, pubkey: state.newPubkey, jwt: freshJwt, skippedFiles };
+}
+
+/**
+ * Abandon a rotation before any binder was pushed under the new key.
+ * Local files already re-keyed are put back under the current key.
+ */
+export async function cancelKeyRotation(
+  keyManager: KeyManager,
+  currentPrivkey: Uint8Array,
+): Promise<void> {
+  const state = await readRotationState();
+  if (!state) return;
+  if (state.schedulerKeyMoved || pendingRotationBinders(state).length !== Object.keys(state.binders).length) {
+    throw new Error('Some binders were already uploaded with the new key. Finish the rotation instead.');
+  }
+  const newPrivkey = await keyManager.getRotationPrivkey();
+  if (newPrivkey) {
+    for (const repoId of Object.keys(state.binders)) {
+      if (await isCloned(repoId)) await rekeyBinderOwner(`binders/${repoId}`, newPrivkey, currentPrivkey);
+    }
+  }
+  await keyManager.deleteRotationPrivkey();
+  await clearRotationState();
+}
+
+// --- Internals ---
+
+async function fetchRepoIds(jwt: string): Promise<string[]> {
+  const res = await fetch(ENDPOINTS.userRepositories, {
+    headers: { Authorization: `Bearer ${jwt}` },
+  });
+  if (!res.ok) throw new Error(`Failed to list binders: ${res.status}`);
+
+  const data = await res.json();
+  const list: Array<{ id?: string; repoId?: string; name?: string; access?: string }> = Array.isArray(data)
+    ? data
+    : data.repositories ?? [];
+  return list
+    .filter((r) => (r.access ?? 'admin') === 'admin')
+    .map((r) => r.id ?? r.repoId ?? r.name ?? '')
+    .filter((id) => id && !id.startsWith('scan-'));
+}
+
+async function isCloned(repoId: string): Promise<boolean> {
+  return RNFS.exists(`${RNFS.DocumentDirectoryPath}/binders/${repoId}/.git`);
+}
+
+async function rotateBinder(
+  repoId: string,
+  oldPrivkey: Uint8Array,
+  newPrivkey: Uint8Array,
+  auth: AuthConfig,
+  author: GitAuthor,
+  onProgress: (progress: Omit<KeyRotationProgress, 'repoId' | 'bindersDone' | 'totalBinders'>) => void,
+): Promise<string[]> {
+  const repoDir = `binders/${repoId}`;
+
+  // Binders not on this device still need re-keying: the old key is retired.
+  onProgress({ step: 'syncing' });
+  if (await isCloned(repoId)) {
+    // An interrupted run may have left converted files behind; commit them
+    // so the pull merges them instead of overwriting or refusing.
+    await commitRotation(repoDir, author);
+    await GitEngine.pull(repoDir, repoId, auth, author, {
+      mergeDriver: createDecryptedMergeDriver(await rotationMergeKeys(repoDir, oldPrivkey, newPrivkey)),
+    });
+  } else {
+    await GitEngine.cloneRepo(repoDir, repoId, auth);
+  }
+
+  const skipped = await rekeyBinderOwner(repoDir, oldPrivkey, newPrivkey, (filesProcessed, totalFiles) =>
+    onProgress({ step: 're-encrypting', filesProcessed, totalFiles }),
+  );
+
+  await commitRotation(repoDir, author);
+
+  onProgress({ step: 'pushing' });
+  await GitEngine.push(repoDir, repoId, auth);
+  await clearPushQueueEntry(repoId);
+
+  return skipped.map((path) => `${repoId}/${path}`);
+}
+
+async function commitRotation(repoDir: string, author: GitAuthor): Promise<void> {
+  const modified = await GitEngine.listModifiedFiles(repoDir);
+  if (modified.length > 0) {
+    await GitEngine.commitEntry(repoDir, modified, ROTATION_COMMIT_MESSAGE, author);
+  }
+}
+
+/**
+ * Keys for merging during a rotation. Unshared binders may hold either
+ * master key on each side, shared ones either binder key until the new
+ * keyring is written.
+ */
+async function rotationMergeKeys(
+  repoDir: string,
+  fromPrivkey: Uint8Array,
+  toPrivkey: Uint8Array,
+): Promise<DecryptedMergeOptions> {
+  const toPubkey = KeyManager.pubkeyFromPrivkey(toPrivkey);
+  const keyring = await readKeyring(repoDir);
+  if (keyring?.ownerPubkey === toPubkey) {
+    const binderKey = unwrapBinderKey(keyring, toPrivkey);
+    return { keys: [binderKey], outputKey: binderKey };
+  }
+  if (keyring) {
+    const binderKey = unwrapBinderKey(keyring, fromPrivkey);
+    const nextKey = rotatedBinderKey(binderKey, toPrivkey);
+    return { keys: [nextKey, binderKey], outputKey: nextKey };
+  }
+
+  const fromKey = KeyManager.computeConversationKey(fromPrivkey, KeyManager.pubkeyFromPrivkey(fromPrivkey));
+  const toKey = KeyManager.computeConversationKey(toPrivkey, toPubkey);
+  return { keys: [toKey, fromKey], outputKey: toKey };
+}
+
+/**
+ * Move one of the owner's binders from `fromPrivkey` to `toPrivkey`.
+ * Unshared binders re-key every file to the new master key; shared ones
+ * re-key every file to a new binder key, then write its keyring.
+ */
+async function rekeyBinderOwner(
+  repoDir: string,
+  fromPrivkey: Uint8Array,
+  toPrivkey: Uint8Array,
+  onProgress?: (filesProcessed: number, totalFiles: number) => void,
+): Promise<string[]> {
+  const toPubkey = KeyManager.pubkeyFromPrivkey(toPrivkey);
+  const keyring = await readKeyring(repoDir);
+  if (!keyring) {
+    const fromKey = KeyManager.computeConversationKey(fromPrivkey, KeyManager.pubkeyFromPrivkey(fromPrivkey));
+    const toKey = KeyManager.computeConversationKey(toPrivkey, toPubkey);
+    return (await rekeyWorkingTree(repoDir, fromKey, toKey, onProgress)).skipped;
+  }
+
+  if (keyring.ownerPubkey === toPubkey) {
+    // A run towards `fromPrivkey` may have stopped before writing its
+    // keyring (a cancelled rotation); move what it re-keyed back.
+    const binderKey = unwrapBinderKey(keyring, toPrivkey);
+    const { skipped } = await rekeyWorkingTree(repoDir, rotatedBinderKey(binderKey, fromPrivkey), binderKey, onProgress);
+    return skipped;
+  }
+
+  // The keyring goes last, so a resumed run still finds the old binder key.
+  const binderKey = unwrapBinderKey(keyring, fromPrivkey);
+  const nextKey = rotatedBinderKey(binderKey, toPrivkey);
+  const { skipped } = await rekeyWorkingTree(repoDir, binderKey, nextKey, onProgress);
+  await writeKeyring(repoDir, createKeyring(nextKey, toPrivkey, keyringDelegates(keyring)));
+  return skipped;
+}
+
+/** Re-encrypt the scheduler-api key blob, if the account has one. */
+async function moveSchedulerKey(jwt: string, oldPrivkey: Uint8Array, newPrivkey: Uint8Array): Promise<void> {
+  const res = await fetch(ENDPOINTS.userKeys, {
+    headers: { Authorization: `Bearer ${jwt}` },
+  });
+  if (!res.ok) throw new Error(`Failed to read the scheduler key: ${res.status}`);
+
+  const data = await res.json();
+  if (!data.encryptedKey) return;
+
+  const rewrapped = rewrapSchedulerKey(data.encryptedKey, oldPrivkey, newPrivkey);
+  if (!rewrapped) return;
+
+  const saveRes = await fetch(ENDPOINTS.userKeys, {
+    method: 'POST',
+    headers: {
+      Authorization: `Bearer ${jwt}`,
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({
+      ed25519_pubkey: rewrapped.ed25519Pubkey,
+      encrypted_privkey: rewrapped.encryptedKey,
+    }),
+  });
+  if (!saveRes.ok) throw new Error(`Failed to save the scheduler key: ${saveRes.status}`);
+}
+
+async function bindNewPubkey(
+  jwt: string,
+  oldPrivkey: Uint8Array,
+  newPrivkey: Uint8Array,
+  state: KeyRotationState,
+): Promise<string> {
+  const content = buildRotationContent(state.oldPubkey, state.newPubkey, new Date());
+  const res = await fetch(ENDPOINTS.rotateNostrKey, {
+    method: 'POST',
+    headers: {
+      Authorization: `Bearer ${jwt}`,
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({
+      oldSignedEvent: signChallenge(oldPrivkey, content),
+      newSignedEvent: signChallenge(newPrivkey, content),
+    }),
+  });
+  const data = await res.json().catch(() => ({}));
+  if (!res.ok || !data.token) {
+    throw new Error(data.reason || `Failed to link the new key: ${res.status}`);
+  }
+  return data.token as string;
+}
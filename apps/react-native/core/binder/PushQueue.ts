@@ -0,0 +1,159 @@
+// core/binder/PushQueue.ts
+// Durable outbound sync queue. Writes commit locally first; when the push
+// that follows fails (offline, server down), the binder is recorded here and
+// retried with exponential backoff instead of failing the write.
+//
+// One entry per binder, persisted in SecureStore so it survives restarts.
+// Entries hold counts and timestamps only, never record content.
+
+import * as SecureStore from 'expo-secure-store';
+
+// --- Types ---
+
+export interface PushQueueEntry {
+  repoId: string;
+  repoDir: string;
+  /** Local commits written since the last successful push. */
+  commits: number;
+  queuedAt: string;
+  /** Failed push attempts so far; drives the backoff. */
+  attempts: number;
+  nextAttemptAt: string;
+  lastError?: string;
+  /** 'pending' retries on its own; 'failed' waits for the user (auth or permission errors). */
+  state: 'pending' | 'failed';
+}
+
+export type PushQueue = Record<string, PushQueueEntry>;
+
+const PUSH_QUEUE_KEY = 'limbo_push_queue_v1';
+const BASE_RETRY_DELAY_MS = 5_000;
+const MAX_RETRY_DELAY_MS = 15 * 60_000;
+
+// --- Pure helpers ---
+
+/** Backoff before retry number `attempts + 1`: 5s, 10s, 20s, … capped at 15 min. */
+export function nextRetryDelay(attempts: number): number {
+  return Math.min(BASE_RETRY_DELAY_MS * 2 ** Math.max(attempts - 1, 0), MAX_RETRY_DELAY_MS);
+}
+
+/** Errors retrying can't fix: the server answered and refused the push. */
+export function isRetryablePushError(err: unknown): boolean {
+  const message = err instanceof Error ? err.message : String(err ?? '');
+  return !/\b(401|403)\b|unauthori[sz]ed|forbidden|permission denied/i.test(message);
+}
+
+/** The server refused the push for this user (403), as opposed to an expired session. */
+export function isForbiddenPushError(err: unknown): boolean {
+  const message = err instanceof Error ? err.message : String(err ?? '');
+  return /\b403\b|forbidden|permission denied/i.test(message);
+}
+
+export function withQueuedCommit(
+  entry: PushQueueEntry | undefined,
+  repo: { repoId: string; repoDir: string },
+  now: Date,
+): PushQueueEntry {
+  if (entry) return { ...entry, commits: entry.commits + 1 };
+  return {
+    repoId: repo.repoId,
+    repoDir: repo.repoDir,
+    commits: 1,
+    queuedAt: now.toISOString(),
+    attempts: 0,
+    nextAttemptAt: now.toISOString(),
+    state: 'pending',
+  };
+}
+
+export function withFailedAttempt(entry: PushQueueEntry, err: unknown, now: Date): PushQueueEntry {
+  const attempts = entry.attempts + 1;
+  return {
+    ...entry,
+    attempts,
+    nextAttemptAt: new Date(now.getTime() + nextRetryDelay(attempts)).toISOString(),
+    lastError: err instanceof Error ? err.message : String(err ?? 'Push failed'),
+    state: isRetryablePushError(err) ? 'pending' : 'failed',
+  };
+}
+
+export function isPushDue(entry: PushQueueEntry, now: Date): boolean {
+  return entry.state === 'pending' && Date.parse(entry.nextAttemptAt) <= now.getTime();
+}
+
+/** Earliest scheduled retry across the queue, or null when nothing retries on its own. */
+export function nextDueAt(queue: PushQueue): Date | null {
+  const times = Object.values(queue)
+    .filter((entry) => entry.state === 'pending')
+    .map((entry) => Date.parse(entry.nextAttemptAt));
+  return times.length > 0 ? new Date(Math.min(...times)) : null;
+}
+
+export function describePushQueueEntry(entry: PushQueueEntry): string {
+  if (entry.state === 'failed') return 'Upload failed';
+  return `${entry.commits} change${entry.commits === 1 ? '' : 's'} waiting to upload`;
+}
+
+// --- Store ---
+
+type Listener = (queue: PushQueue) => void;
+
+const listeners = new Set<Listener>();
+let cached: PushQueue | null = null;
+let pendingWrite: Promise<void> = Promise.resolve();
+
+export function subscribePushQueue(listener: Listener): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+export async function readPushQueue(): Promise<PushQueue> {
+  if (cached) return cached;
+  try {
+    const raw = await SecureStore.getItemAsync(PUSH_QUEUE_KEY);
+    const parsed = raw ? JSON.parse(raw) as unknown : null;
+    cached = parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed as PushQueue : {};
+  } catch (err) {
+    console.warn('Failed to read push queue:', err);
+    cached = {};
+  }
+  return cached;
+}
+
+export async function getPushQueueEntry(repoId: string): Promise<PushQueueEntry | undefined> {
+  return (await readPushQueue())[repoId];
+}
+
+/**
+ * Replace (or with `undefined`, remove) one binder's entry. Updates are
+ * chained so concurrent writers from different binders don't lose each other.
+ */
+export function updatePushQueueEntry(
+  repoId: string,
+  update: (entry: PushQueueEntry | undefined) => PushQueueEntry | undefined,
+): Promise<void> {
+  pendingWrite = pendingWrite.catch(() => undefined).then(async () => {
+    const current = await readPushQueue();
+    const nextEntry = update(current[repoId]);
+    if (nextEntry === current[repoId]) return;
+
+    const next = { ...current };
+    if (nextEntry) next[repoId] = nextEntry;
+    else delete next[repoId];
+    cached = next;
+
+    try {
+      await SecureStore.setItemAsync(PUSH_QUEUE_KEY, JSON.stringify(next));
+    } catch (err) {
+      console.warn('Failed to persist push queue:', err);
+    }
+    for (const listener of listeners) listener(next);
+  });
+  return pendingWrite;
+}
+
+export function clearPushQueueEntry(repoId: string): Promise<void> {
+  return updatePushQueueEntry(repoId, () => undefined);
+}
@@ -0,0 +1,147 @@
+// core/binder/RevisionDiff.ts
+// Line diff between two versions of a binder document's markdown.
+// Pure logic: used by BinderService history APIs and the history screen.
+//
+// It does NOT import React or touch the filesystem.
+
+import type { MedicalDocument } from '../../types/document';
+
+// --- Types ---
+
+export type DiffLineKind = 'equal' | 'added' | 'removed';
+
+export interface DiffLine {
+  kind: DiffLineKind;
+  text: string;
+  /** 1-based line number in the older version (absent for added lines). */
+  oldLine?: number;
+  /** 1-based line number in the newer version (absent for removed lines). */
+  newLine?: number;
+}
+
+export interface MetadataChange {
+  field: string;
+  before?: string;
+  after?: string;
+}
+
+export interface DocumentDiff {
+  lines: DiffLine[];
+  added: number;
+  removed: number;
+  metadataChanges: MetadataChange[];
+}
+
+/** Metadata fields worth surfacing in a diff. Timestamps and ordering churn on every save. */
+const DIFFED_METADATA_FIELDS = ['type', 'provider', 'npi', 'condition', 'tags'] as const;
+
+// --- Line diff ---
+
+function splitMarkdownLines(markdown: string): string[] {
+  if (!markdown) return [];
+  return markdown.replace(/\r\n/g, '\n').split('\n');
+}
+
+/**
+ * Diff two texts line by line (longest common subsequence).
+ * Common leading/trailing lines are trimmed first so typical edits stay cheap.
+ */
+export function diffLines(before: string, after: string): DiffLine[] {
+  const a = splitMarkdownLines(before);
+  const b = splitMarkdownLines(after);
+
+  let prefix = 0;
+  while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) prefix += 1;
+  let suffix = 0;
+  while (
+    suffix < a.length - prefix
+    && suffix < b.length - prefix
+    && a[a.length - 1 - suffix] === b[b.length - 1 - suffix]
+  ) {
+    suffix += 1;
+  }
+
+  const midA = a.slice(prefix, a.length - suffix);
+  const midB = b.slice(prefix, b.length - suffix);
+  const rows = midA.length;
+  const cols = midB.length;
+
+  // lcs[i * (cols + 1) + j] = LCS length of midA[i..] and midB[j..]
+  const lcs = new Uint32Array((rows + 1) * (cols + 1));
+  for (let i = rows - 1; i >= 0; i -= 1) {
+    for (let j = cols - 1; j >= 0; j -= 1) {
+      lcs[i * (cols + 1) + j] = midA[i] === midB[j]
+        ? lcs[(i + 1) * (cols + 1) + j + 1] + 1
+        : Math.max(lcs[(i + 1) * (cols + 1) + j], lcs[i * (cols + 1) + j + 1]);
+    }
+  }
+
+  const lines: DiffLine[] = [];
+  let oldLine = 1;
+  let newLine = 1;
+  const pushEqual = (text: string) => {
+    lines.push({ kind: 'equal', text, oldLine: oldLine++, newLine: newLine++ });
+  };
+
+  for (let k = 0; k < prefix; k += 1) pushEqual(a[k]);
+
+  let i = 0;
+  let j = 0;
+  while (i < rows || j < cols) {
+    if (i < rows && j < cols && midA[i] === midB[j]) {
+      pushEqual(midA[i]);
+      i += 1;
+      j += 1;
+    } else if (i < rows && (j >= cols || lcs[(i + 1) * (cols + 1) + j] >= lcs[i * (cols + 1) + j + 1])) {
+      lines.push({ kind: 'removed', text: midA[i], oldLine: oldLine++ });
+      i += 1;
+    } else {
+      lines.push({ kind: 'added', text: midB[j], newLine: newLine++ });
+      j += 1;
+    }
+  }
+
+  for (let k = a.length - suffix; k < a.length; k += 1) pushEqual(a[k]);
+
+  return lines;
+}
+
+// --- Document diff ---
+
+function metadataValue(doc: MedicalDocument | null, field: string): string | undefined {
+  const value = doc?.metadata[field as keyof MedicalDocument['metadata']];
+  if (value === undefined || value === null || value === '') return undefined;
+  if (Array.isArray(value)) return value.length > 0 ? value.join(', ') : undefined;
+  return String(value);
+}
+
+/**
+ * Compare two versions of a document. Either side may be null when the entry
+ * did not exist (created or deleted between the two versions).
+ */
+export function diffDocuments(
+  before: MedicalDocument | null,
+  after: MedicalDocument | null,
+): DocumentDiff {
+  const lines = diffLines(before?.value ?? '', after?.value ?? '');
+  const metadataChanges: MetadataChange[] = [];
+
+  for (const field of DIFFED_METADATA_FIELDS) {
+    const oldValue = metadataValue(before, field);
+    const newValue = metadataValue(after, field);
+    if (oldValue !== newValue) {
+      metadataChanges.push({
+        field,
+        ...(oldValue !== undefined ? { before: oldValue } : {}),
+        ...(newValue !== undefined ? { after: newValue } : {}),
+      });
+    }
+  }
+
+  return {
+    lines,
+    added: lines.filter((line) => line.kind === 'added').length,
+    removed: lines.filter((line) => line.kind === 'removed').length,
+    metadataChanges,
+  };
+}
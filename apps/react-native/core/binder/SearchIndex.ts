@@ -0,0 +1,313 @@
+// core/binder/SearchIndex.ts
+// Local full-text search over a binder's decrypted entries.
+// Pure logic: builds index entries from MedicalDocuments and ranks them
+// against a query. Persistence (encrypted at rest) lives in BinderService.
+//
+// It does NOT import React or touch the filesystem.
+
+import type { MedicalDocument } from '../../types/document';
+import { extractEntryPreview } from './DocumentModel';
+import { parseMarkdownFrontMatter } from '../markdown/frontmatter';
+import { transcriptPlainText } from '../audio/transcript';
+
+export const SEARCH_INDEX_VERSION = 1;
+export const BINDER_SEARCH_DEBOUNCE_MS = 200;
+
+const SNIPPET_RADIUS = 60;
+const DEFAULT_RESULT_LIMIT = 50;
+
+// --- Types ---
+
+export type SearchField = 'title' | 'medication' | 'tags' | 'provider' | 'body';
+
+export interface SearchIndexEntry {
+  /** Path relative to repo root, e.g. 'visits/2026-02-12-follow-up.json' */
+  path: string;
+  type: string;
+  created: string;
+  title: string;
+  provider?: string;
+  tags?: string[];
+  /** Medication name, dosage and frequency joined for matching. */
+  medication?: string;
+  /** Markdown body reduced to plain text. */
+  body: string;
+}
+
+export interface SearchIndexSnapshot {
+  version: number;
+  /** HEAD commit the index reflects. Used to detect pulls that bypassed the index. */
+  headOid: string | null;
+  entries: Record<string, SearchIndexEntry>;
+}
+
+export interface SearchHighlight {
+  start: number;
+  end: number;
+}
+
+export interface SearchSnippet {
+  text: string;
+  highlights: SearchHighlight[];
+}
+
+export interface SearchResult {
+  path: string;
+  /** Parent folder of the entry, relative to repo root ('' for root). */
+  folderPath: string;
+  title: string;
+  type: string;
+  created: string;
+  score: number;
+  matchedFields: SearchField[];
+  snippet: SearchSnippet;
+}
+
+const FIELD_WEIGHTS: Record<SearchField, number> = {
+  title: 6,
+  medication: 5,
+  tags: 4,
+  provider: 3,
+  body: 1,
+};
+
+// --- Text helpers ---
+
+function foldText(text: string): string {
+  return text.normalize('NFKD').replace(/[\u0300-\u036f]/g, '').toLowerCase();
+}
+
+/**
+ * Split text into lowercase, accent-folded alphanumeric tokens.
+ */
+export function tokenize(text: string): string[] {
+  return foldText(text).split(/[^a-z0-9]+/).filter(Boolean);
+}
+
+/**
+ * Reduce a markdown value to searchable plain text.
+ * Drops front matter, heading/list markers and inline emphasis.
+ */
+export function markdownToPlainText(markdown: string): string {
+  const { body } = parseMarkdownFrontMatter(markdown);
+  return body
+    .split('\n')
+    .map((line) =>
+      line
+        .replace(/^\s{0,3}#{1,6}\s+/, '')
+        .replace(/^\s*(?:[-*+]|\d+\.)\s+(?:\[[ xX]\]\s+)?/, '')
+        .replace(/^\s*>\s?/, '')
+        .replace(/!?\[([^\]]*)\]\([^)]*\)/g, '$1')
+        .replace(/[*_`~]+/g, '')
+        .trim(),
+    )
+    .filter(Boolean)
+    .join('\n');
+}
+
+// --- Index building ---
+
+/**
+ * Build the index record for one decrypted document.
+ */
+export function buildSearchIndexEntry(path: string, doc: MedicalDocument): SearchIndexEntry {
+  const preview = extractEntryPreview(path, doc);
+  const medication = [preview.medicationName, preview.medicationDosage, preview.medicationFrequency]
+    .filter((part): part is string => !!part)
+    .join(' ');
+
+  return {
+    path,
+    type: preview.type,
+    created: preview.created,
+    title: preview.title,
+    ...(preview.provider ? { provider: preview.provider } : {}),
+    ...(preview.tags && preview.tags.length > 0 ? { tags: preview.tags } : {}),
+    ...(medication ? { medication } : {}),
+    // Recordings have no text of their own; their transcript stands in.
+    body: doc.metadata.type === 'attachment_ref' ? transcriptPlainText(doc) : markdownToPlainText(doc.value),
+  };
+}
+
+export function createEmptySearchIndex(headOid: string | null): SearchIndexSnapshot {
+  return { version: SEARCH_INDEX_VERSION, headOid, entries: {} };
+}
+
+/**
+ * Whether a repo-relative path is a searchable document (not folder metadata,
+ * sidecars or the binder's patient-info.json).
+ */
+export function isSearchableDocumentPath(path: string): boolean {
+  if (!path.endsWith('.json')) return false;
+  if (path === 'patient-info.json') return false;
+  const name = path.slice(path.lastIndexOf('/') + 1);
+  return !name.startsWith('.');
+}
+
+// --- Querying ---
+
+function fieldText(entry: SearchIndexEntry, field: SearchField): string {
+  switch (field) {
+    case 'title':
+      return entry.title;
+    case 'medication':
+      return entry.medication ?? '';
+    case 'tags':
+      return (entry.tags ?? []).join(' ');
+    case 'provider':
+      return entry.provider ?? '';
+    case 'body':
+      return entry.body;
+  }
+}
+
+/**
+ * Score a single term against a token list. Exact token matches count fully,
+ * prefix matches (search-as-you-type) count half. Capped so one repeated word
+ * can't dominate a long note.
+ */
+function termFieldScore(term: string, tokens: string[]): number {
+  let score = 0;
+  for (const token of tokens) {
+    if (token === term) score += 1;
+    else if (token.startsWith(term)) score += 0.5;
+    if (score >= 3) return 3;
+  }
+  return score;
+}
+
+function findFirstMatch(foldedText: string, terms: string[]): number {
+  let first = -1;
+  for (const term of terms) {
+    const pattern = new RegExp(`(^|[^a-z0-9])${term}`);
+    const match = pattern.exec(foldedText);
+    if (!match) continue;
+    const index = match.index + match[1].length;
+    if (first === -1 || index < first) first = index;
+  }
+  return first;
+}
+
+/**
+ * Cut a window of text around the first match and mark every term occurrence in it.
+ */
+export function buildSnippet(text: string, terms: string[]): SearchSnippet {
+  const flat = text.replace(/\s+/g, ' ').trim();
+  // Fold per character so match offsets stay aligned with the original text.
+  const folded = Array.from(flat, (ch) => {
+    const foldedChar = foldText(ch);
+    return ch.length === 1 && foldedChar ? foldedChar.charAt(0) : ' '.repeat(ch.length);
+  }).join('');
+
+  const firstMatch = findFirstMatch(folded, terms);
+  let start = 0;
+  let end = Math.min(flat.length, SNIPPET_RADIUS * 2);
+  if (firstMatch > SNIPPET_RADIUS) {
+    start = firstMatch - SNIPPET_RADIUS;
+    const space = flat.indexOf(' ', start);
+    if (space !== -1 && space < firstMatch) start = space + 1;
+    end = Math.min(flat.length, firstMatch + SNIPPET_RADIUS);
+  }
+
+  const prefix = start > 0 ? '…' : '';
+  const suffix = end < flat.length ? '…' : '';
+  const window = flat.slice(start, end);
+  const foldedWindow = folded.slice(start, end);
+
+  const highlights: SearchHighlight[] = [];
+  for (const term of terms) {
+    const pattern = new RegExp(`(^|[^a-z0-9])(${term}[a-z0-9]*)`, 'g');
+    let match: RegExpExecArray | null;
+    while ((match = pattern.exec(foldedWindow)) !== null) {
+      const matchStart = match.index + match[1].length + prefix.length;
+      highlights.push({ start: matchStart, end: matchStart + match[2].length });
+    }
+  }
+
+  highlights.sort((a, b) => a.start - b.start);
+  const merged: SearchHighlight[] = [];
+  for (const highlight of highlights) {
+    const last = merged[merged.length - 1];
+    if (last && highlight.start <= last.end) {
+      last.end = Math.max(last.end, highlight.end);
+    } else {
+      merged.push({ ...highlight });
+    }
+  }
+
+  return { text: prefix + window + suffix, highlights: merged };
+}
+
+function parentFolder(path: string): string {
+  const slash = path.lastIndexOf('/');
+  return slash > 0 ? path.slice(0, slash) : '';
+}
+
+/**
+ * Rank index entries against a free-text query.
+ * Every query term must match at least one field (AND semantics).
+ */
+export function searchIndex(
+  snapshot: SearchIndexSnapshot,
+  query: string,
+  limit: number = DEFAULT_RESULT_LIMIT,
+): SearchResult[] {
+  const terms = Array.from(new Set(tokenize(query)));
+  if (terms.length === 0) return [];
+
+  const fields = Object.keys(FIELD_WEIGHTS) as SearchField[];
+  const results: SearchResult[] = [];
+
+  for (const entry of Object.values(snapshot.entries)) {
+    const tokensByField = new Map<SearchField, string[]>();
+    for (const field of fields) {
+      tokensByField.set(field, tokenize(fieldText(entry, field)));
+    }
+
+    let score = 0;
+    let allTermsMatched = true;
+    const matchedFields = new Set<SearchField>();
+
+    for (const term of terms) {
+      let termScore = 0;
+      for (const field of fields) {
+        const fieldScore = termFieldScore(term, tokensByField.get(field)!);
+        if (fieldScore > 0) {
+          matchedFields.add(field);
+          termScore += fieldScore * FIELD_WEIGHTS[field];
+        }
+      }
+      if (termScore === 0) {
+        allTermsMatched = false;
+        break;
+      }
+      score += termScore;
+    }
+
+    if (!allTermsMatched) continue;
+
+    const snippetSource = matchedFields.has('body') && entry.body
+      ? entry.body
+      : [entry.medication, entry.provider, (entry.tags ?? []).join(', '), entry.body]
+          .filter(Boolean)
+          .join(' · ');
+
+    results.push({
+      path: entry.path,
+      folderPath: parentFolder(entry.path),
+      title: entry.title,
+      type: entry.type,
+      created: entry.created,
+      score,
+      matchedFields: fields.filter((field) => matchedFields.has(field)),
+      snippet: buildSnippet(snippetSource, terms),
+    });
+  }
+
+  results.sort((a, b) => {
+    if (b.score !== a.score) return b.score - a.score;
+    return b.created.localeCompare(a.created);
+  });
+
+  return results.slice(0, limit);
+}
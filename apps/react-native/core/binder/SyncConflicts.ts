@@ -0,0 +1,237 @@
+// core/binder/SyncConflicts.ts
+// Entries edited on two devices that the decrypted 3-way merge couldn't
+// reconcile. The pull keeps this device's version in the tree and records
+// both sides plus the base here, so the user can choose later.
+// Pure logic: used by BinderService sync APIs and the conflicts screen.
+//
+// It does NOT import React or touch the filesystem.
+
+import type { MedicalDocument } from '../../types/document';
+import { buildAllergyMarkdown, parseAllergyEntry } from '../markdown/allergyEntry';
+import { buildImmunizationMarkdown, parseImmunizationEntry } from '../markdown/immunizationEntry';
+import {
+  buildLabResultMarkdown,
+  formatLabResultRow,
+  parseLabResultEntry,
+  type LabResultRow,
+} from '../markdown/labResultEntry';
+import { buildMedicationMarkdown, parseMedicationEntry } from '../markdown/medicationEntry';
+import { buildVisitMarkdown, parseVisitEntry } from '../markdown/visitEntry';
+
+// --- Types ---
+
+export interface BinderConflict {
+  /** Entry path relative to the binder root. */
+  path: string;
+  /** ISO timestamp of the pull that hit the conflict. */
+  detectedAt: string;
+  /** Common ancestor, or null when both devices added the file. */
+  base: MedicalDocument | null;
+  /** This device's version; it is what the merge left in the tree. */
+  ours: MedicalDocument;
+  /** The other device's version. */
+  theirs: MedicalDocument;
+}
+
+export interface ConflictStore {
+  version: 1;
+  conflicts: BinderConflict[];
+}
+
+export type ConflictSide = 'ours' | 'theirs';
+
+export type ConflictResolution =
+  | { kind: 'keep'; side: ConflictSide }
+  | { kind: 'fields'; choices: Record<string, ConflictSide> }
+  | { kind: 'both' };
+
+export interface FieldMergeRow {
+  key: string;
+  label: string;
+  base?: string;
+  ours?: string;
+  theirs?: string;
+  /** Side the field merges from on its own, or null when both devices changed it differently. */
+  resolved: ConflictSide | null;
+}
+
+export interface FieldMergePlan {
+  rows: FieldMergeRow[];
+  /** Keys the user still has to choose a side for. */
+  unresolved: string[];
+}
+
+export type SyncState = 'synced' | 'ahead' | 'behind' | 'diverged' | 'unpublished';
+
+export interface SyncStatus {
+  state: SyncState;
+  /** Local commits the remote doesn't have. */
+  ahead: number;
+  /** Remote commits not pulled yet. */
+  behind: number;
+  /** Recorded conflicts waiting for the user. */
+  conflicts: number;
+}
+
+// --- Store ---
+
+export function emptyConflictStore(): ConflictStore {
+  return { version: 1, conflicts: [] };
+}
+
+/** Add newly detected conflicts, replacing older records for the same entry. */
+export function mergeConflictRecords(
+  existing: BinderConflict[],
+  detected: BinderConflict[],
+): BinderConflict[] {
+  const byPath = new Map(existing.map((conflict) => [conflict.path, conflict]));
+  for (const conflict of detected) byPath.set(conflict.path, conflict);
+  return [...byPath.values()].sort((a, b) => a.path.localeCompare(b.path));
+}
+
+// --- Field merge ---
+
+type FieldValue = string | LabResultRow[] | undefined;
+
+interface StructuredCodec {
+  parse(markdown: string): Record<string, FieldValue> | null;
+  build(fields: Record<string, FieldValue>): string;
+}
+
+function structuredCodec<T extends object>(
+  parse: (markdown: string) => { fields: T | null },
+  build: (fields: T) => string,
+): StructuredCodec {
+  return {
+    parse: (markdown) => parse(markdown).fields as Record<string, FieldValue> | null,
+    build: (fields) => build(fields as T),
+  };
+}
+
+/** Structured entry types that merge per field, keyed by metadata.type. */
+const STRUCTURED_CODECS: Record<string, StructuredCodec> = {
+  medication: structuredCodec(parseMedicationEntry, buildMedicationMarkdown),
+  allergy: structuredCodec(parseAllergyEntry, buildAllergyMarkdown),
+  immunization: structuredCodec(parseImmunizationEntry, buildImmunizationMarkdown),
+  lab: structuredCodec(parseLabResultEntry, buildLabResultMarkdown),
+  visit: structuredCodec(parseVisitEntry, buildVisitMarkdown),
+};
+
+/** 'startDate' → 'Start date'. */
+function fieldLabel(key: string): string {
+  const words = key.replace(/([a-z])([A-Z])/g, '$1 $2').toLowerCase();
+  return words.charAt(0).toUpperCase() + words.slice(1);
+}
+
+function displayValue(value: FieldValue): string | undefined {
+  if (value === undefined) return undefined;
+  if (typeof value === 'string') return value || undefined;
+  return value.map(formatLabResultRow).join('\n') || undefined;
+}
+
+function sameValue(a: FieldValue, b: FieldValue): boolean {
+  return (displayValue(a) ?? '') === (displayValue(b) ?? '');
+}
+
+function parseSides(conflict: BinderConflict) {
+  const codec = STRUCTURED_CODECS[conflict.ours.metadata.type];
+  if (!codec || conflict.theirs.metadata.type !== conflict.ours.metadata.type) return null;
+  const ours = codec.parse(conflict.ours.value);
+  const theirs = codec.parse(conflict.theirs.value);
+  if (!ours || !theirs) return null;
+  const base = conflict.base ? codec.parse(conflict.base.value) : null;
+  return { codec, base, ours, theirs };
+}
+
+/**
+ * Per-field view of a structured conflict. Fields only one device changed
+ * resolve to that device; fields both changed differently need a choice.
+ * Null when the entry isn't a structured type on both sides.
+ */
+export function planFieldMerge(conflict: BinderConflict): FieldMergePlan | null {
+  const sides = parseSides(conflict);
+  if (!sides) return null;
+  const { base, ours, theirs } = sides;
+
+  const keys = [...new Set([...Object.keys(ours), ...Object.keys(theirs)])];
+  const rows = keys.map((key): FieldMergeRow => {
+    let resolved: ConflictSide | null;
+    if (sameValue(ours[key], theirs[key])) resolved = 'ours';
+    else if (base && sameValue(base[key], ours[key])) resolved = 'theirs';
+    else if (base && sameValue(base[key], theirs[key])) resolved = 'ours';
+    else resolved = null;
+
+    return {
+      key,
+      label: fieldLabel(key),
+      ...(base ? { base: displayValue(base[key]) } : {}),
+      ours: displayValue(ours[key]),
+      theirs: displayValue(theirs[key]),
+      resolved,
+    };
+  });
+
+  return { rows, unresolved: rows.filter((row) => row.resolved === null).map((row) => row.key) };
+}
+
+/**
+ * Build the merged document. `choices` must cover every unresolved field and
+ * may override resolved ones. Metadata comes from this device's version.
+ */
+export function applyFieldMerge(
+  conflict: BinderConflict,
+  choices: Record<string, ConflictSide>,
+  now: Date = new Date(),
+): MedicalDocument {
+  const sides = parseSides(conflict);
+  const plan = planFieldMerge(conflict);
+  if (!sides || !plan) {
+    throw new Error(`${conflict.path} can't be merged field by field.`);
+  }
+
+  const missing = plan.unresolved.filter((key) => !choices[key]);
+  if (missing.length > 0) {
+    throw new Error(`Choose a version for: ${missing.map(fieldLabel).join(', ')}`);
+  }
+
+  const merged: Record<string, FieldValue> = {};
+  for (const row of plan.rows) {
+    const side = choices[row.key] ?? row.resolved ?? 'ours';
+    const value = sides[side][row.key];
+    if (value !== undefined) merged[row.key] = value;
+  }
+
+  return {
+    ...conflict.ours,
+    value: sides.codec.build(merged),
+    metadata: { ...conflict.ours.metadata, updated: now.toISOString() },
+  };
+}
+
+// --- Sync status ---
+
+export function syncStateFor(ahead: number, behind: number, remoteExists: boolean): SyncState {
+  if (!remoteExists) return 'unpublished';
+  if (ahead > 0 && behind > 0) return 'diverged';
+  if (ahead > 0) return 'ahead';
+  if (behind > 0) return 'behind';
+  return 'synced';
+}
+
+export function describeSyncStatus(status: SyncStatus): string {
+  if (status.conflicts > 0) {
+    return `${status.conflicts} conflict${status.conflicts === 1 ? '' : 's'} to resolve`;
+  }
+  switch (status.state) {
+    case 'synced':
+      return 'Up to date';
+    case 'ahead':
+      return `${status.ahead} change${status.ahead === 1 ? '' : 's'} to upload`;
+    case 'behind':
+      return `${status.behind} change${status.behind === 1 ? '' : 's'} to download`;
+    case 'diverged':
+      return `Diverged (${status.ahead} local, ${status.behind} remote)`;
+    case 'unpublished':
+      return 'Not uploaded yet';
+  }
+}
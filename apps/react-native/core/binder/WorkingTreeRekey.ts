@@ -0,0 +1,56 @@
+// core/binder/WorkingTreeRekey.ts
+// Moves a binder's working tree from one content key to another in place:
+// .enc sidecars get their DEK re-wrapped, .json files are re-encrypted.
+// Shared by master key rotation and binder key changes for delegated access.
+
+import { createFSAdapter } from '../git/fsAdapter';
+import { GitEngine } from '../git/GitEngine';
+import { EncryptedIO } from './EncryptedIO';
+
+export interface WorkingTreeRekeyResult {
+  /** Tracked files rewritten under `toKey`, for committing just those. */
+  rekeyed: string[];
+  /** Files that `fromKey` couldn't open either, left as they were. */
+  skipped: string[];
+}
+
+/**
+ * Move every tracked file, plus device-local sidecars at the binder root,
+ * from `fromKey` to `toKey`. Files already under `toKey` are left alone.
+ */
+export async function rekeyWorkingTree(
+  repoDir: string,
+  fromKey: Uint8Array,
+  toKey: Uint8Array,
+  onProgress?: (filesProcessed: number, totalFiles: number) => void,
+): Promise<WorkingTreeRekeyResult> {
+  const fs = createFSAdapter(repoDir);
+  const io = new EncryptedIO(fs, fromKey, repoDir);
+
+  const tracked = (await GitEngine.listFiles(repoDir))
+    .filter((f) => f.endsWith('.json') || f.endsWith('.enc'));
+  const localSidecars = (await fs.promises.readdir('/'))
+    .filter((name) => name.startsWith('.') && name.endsWith('.enc') && !tracked.includes(name));
+  const files = [...tracked, ...localSidecars];
+  const rekeyed: string[] = [];
+  const skipped: string[] = [];
+
+  for (let i = 0; i < files.length; i++) {
+    onProgress?.(i, files.length);
+    const path = '/' + files[i];
+    if (await io.isEncryptedWithKey(path, toKey)) continue;
+    try {
+      if (path.endsWith('.enc')) {
+        await io.rewrapSidecar(path, path, fromKey, toKey);
+      } else {
+        await io.rekeyJSON(path, fromKey, toKey);
+      }
+      if (i < tracked.length) rekeyed.push(files[i]);
+    } catch (err) {
+      console.warn(`Key rotation: leaving ${files[i]} as is:`, err);
+      skipped.push(files[i]);
+    }
+  }
+
+  return { rekeyed, skipped };
+}
@@ -18,6 +18,8 @@ export interface Category {
   icon: string;            // Tabler icon name (for future custom icon picker)
   emoji: string;           // Emoji displayed in folder rows
   color: string;           // Tint color for folder icon background
+  /** Where binders created with BinderService's default layout keep this category. */
+  folderAliases?: string[];
   templateFn?: () => MedicalDocument;
 }
 
@@ -49,6 +51,7 @@ const CATEGORIES: Category[] = [
     icon: 'test-pipe',
     emoji: '🧪',
     color: '#27AE60',
+    folderAliases: ['labs-imaging'],
     templateFn: () => createLabResult(''),
   },
   {
@@ -67,6 +70,7 @@ const CATEGORIES: Category[] = [
     icon: 'vaccine',
     emoji: '💉',
     color: '#16A085',
+    folderAliases: ['my-info/immunizations'],
   },
   {
     slug: 'allergies',
@@ -75,6 +79,7 @@ const CATEGORIES: Category[] = [
     icon: 'alert-triangle',
     emoji: '⚠️',
     color: '#E67E22',
+    folderAliases: ['my-info/allergies'],
   },
   {
     slug: 'procedures',
@@ -91,6 +96,7 @@ const CATEGORIES: Category[] = [
     icon: 'photo-scan',
     emoji: '📷',
     color: '#5B6ABF',
+    folderAliases: ['labs-imaging'],
   },
   {
     slug: 'documents',
@@ -139,3 +145,16 @@ export function categoryFromPath(filePath: string): string {
   if (parts.length < 2) return 'root';
   return parts[0];
 }
+
+/**
+ * Resolve the category a file lives in, honoring folder aliases.
+ * 'my-info/allergies/2026-01-02-penicillin.json' → allergies
+ * 'labs-imaging/2026-02-01-lipid-panel.json' → labs (first match wins)
+ */
+export function findCategoryForPath(filePath: string): Category | undefined {
+  for (const category of CATEGORIES) {
+    const folders = [category.folder, ...(category.folderAliases ?? [])];
+    if (folders.some((folder) => filePath.startsWith(folder + '/'))) return category;
+  }
+  return undefined;
+}
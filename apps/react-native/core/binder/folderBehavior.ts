@@ -24,6 +24,50 @@ export const BEHAVIOR_RULES: BehaviorRule[] = [
       icon: 'medication',
     },
   },
+  {
+    id: 'lab',
+    keywords: ['lab', 'labs', 'bloodwork', 'results'],
+    contextualAdd: {
+      label: 'Add Lab Result',
+      categoryType: 'lab',
+      editor: 'LabResultForm',
+      renderer: 'LabResultSummary',
+      icon: 'lab',
+    },
+  },
+  {
+    id: 'allergy',
+    keywords: ['allergy', 'allergies'],
+    contextualAdd: {
+      label: 'Add Allergy',
+      categoryType: 'allergy',
+      editor: 'AllergyForm',
+      renderer: 'AllergySummary',
+      icon: 'allergy',
+    },
+  },
+  {
+    id: 'immunization',
+    keywords: ['immunization', 'immunizations', 'vaccine', 'vaccines', 'vaccination', 'vaccinations', 'shots'],
+    contextualAdd: {
+      label: 'Add Immunization',
+      categoryType: 'immunization',
+      editor: 'ImmunizationForm',
+      renderer: 'ImmunizationSummary',
+      icon: 'immunization',
+    },
+  },
+  {
+    id: 'visit',
+    keywords: ['visit', 'visits', 'appointment', 'appointments', 'encounters'],
+    contextualAdd: {
+      label: 'Add Visit Note',
+      categoryType: 'visit',
+      editor: 'VisitNoteForm',
+      renderer: 'VisitNoteSummary',
+      icon: 'visit',
+    },
+  },
   {
     id: 'billing-insurance',
     keywords: ['billing', 'insurance'],
@@ -54,3 +98,84 @@ export function inferBehavior(folderName: string): BehaviorRule | null {
 
   return null;
 }
+
+// --- Scanned documents ---
+
+export interface DocumentRule {
+  /** Same id as the BehaviorRule for this kind of folder, where there is one. */
+  id: string;
+  /** Category (categories.ts) to create when the binder has no matching folder. */
+  category: string;
+  /** Lowercase words or phrases looked for in the recognized text. */
+  keywords: string[];
+}
+
+export const DOCUMENT_RULES: DocumentRule[] = [
+  {
+    id: 'lab',
+    category: 'labs',
+    keywords: [
+      'lab report', 'laboratory', 'lab results', 'test results', 'reference range', 'specimen',
+      'collected', 'cbc', 'metabolic panel', 'lipid panel', 'a1c', 'urinalysis',
+    ],
+  },
+  {
+    id: 'imaging',
+    category: 'imaging',
+    keywords: ['radiology', 'x-ray', 'xray', 'mri', 'ct scan', 'ultrasound', 'mammogram', 'impression'],
+  },
+  {
+    id: 'medication',
+    category: 'medications',
+    keywords: ['prescription', 'pharmacy', 'refills', 'dispense', 'take 1 tablet', 'by mouth', 'rx'],
+  },
+  {
+    id: 'immunization',
+    category: 'immunizations',
+    keywords: ['immunization', 'vaccine', 'vaccination', 'lot number', 'booster'],
+  },
+  {
+    id: 'allergy',
+    category: 'allergies',
+    keywords: ['allergy', 'allergies', 'allergic reaction', 'allergen'],
+  },
+  {
+    id: 'visit',
+    category: 'visits',
+    keywords: [
+      'visit summary', 'after visit summary', 'chief complaint', 'history of present illness',
+      'assessment and plan', 'discharge', 'office visit', 'progress note',
+    ],
+  },
+  {
+    id: 'billing-insurance',
+    category: 'documents',
+    keywords: ['explanation of benefits', 'amount due', 'invoice', 'statement date', 'claim', 'copay', 'deductible'],
+  },
+];
+
+function countKeyword(text: string, keyword: string): number {
+  const escaped = keyword.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  return text.match(new RegExp(`(?:^|[^a-z0-9])${escaped}(?=$|[^a-z0-9])`, 'g'))?.length ?? 0;
+}
+
+/**
+ * Infer what kind of document recognized text comes from.
+ * Counts keyword hits per rule; the rule with the most hits wins, ties go to
+ * the earlier rule. Returns null when nothing matches.
+ */
+export function inferDocumentRule(text: string): DocumentRule | null {
+  const normalized = text.toLowerCase().replace(/\s+/g, ' ');
+  let best: DocumentRule | null = null;
+  let bestScore = 0;
+
+  for (const rule of DOCUMENT_RULES) {
+    const score = rule.keywords.reduce((sum, keyword) => sum + countKeyword(normalized, keyword), 0);
+    if (score > bestScore) {
+      best = rule;
+      bestScore = score;
+    }
+  }
+
+  return best;
+}
@@ -0,0 +1,211 @@
+// core/bio/emergencyCard.ts
+// Emergency medical ID built from the BioProfile and lines picked from a
+// binder. Everything here is plaintext on purpose: a first responder has to
+// read it without the app or the master key.
+//
+// Two offline encodings of the same card:
+//   text  what the QR holds; any phone camera shows it, no network needed
+//   link  API_BASE_URL/ice#1.<base64url JSON>; the fragment never reaches the
+//         server, the web page decodes it in the browser
+// Only fields the patient switched on are ever included.
+
+import { decodeString, encodeString } from '../crypto/base64';
+import type { BinderSummary } from '../binder/BinderSummary';
+import { API_BASE_URL } from '../../constants/api';
+import type { BioProfile } from '../../types/bio';
+import {
+  EMERGENCY_EXPORT_HISTORY_LIMIT,
+  EMERGENCY_FIELDS,
+  type EmergencyContact,
+  type EmergencyExportFormat,
+  type EmergencyField,
+  type EmergencyProfile,
+} from '../../types/emergency';
+
+// --- Types ---
+
+/** What actually leaves the app: only switched-on fields that have content. */
+export interface EmergencyCard {
+  name?: string;
+  dateOfBirth?: string;
+  bloodType?: string;
+  allergies?: string[];
+  medications?: string[];
+  conditions?: string[];
+  contacts?: EmergencyContact[];
+  /** YYYY-MM-DD the card was generated. */
+  updated: string;
+}
+
+export interface EmergencyCandidates {
+  allergies: string[];
+  medications: string[];
+  conditions: string[];
+}
+
+/** Compact wire form for the link; short keys keep the URL small. */
+interface EmergencyLinkPayload {
+  n?: string;
+  d?: string;
+  b?: string;
+  a?: string[];
+  m?: string[];
+  c?: string[];
+  e?: [string, string, string][];
+  u: string;
+}
+
+export const EMERGENCY_LINK_VERSION = '1';
+export const EMERGENCY_LINK_BASE = `${API_BASE_URL}/ice`;
+/** Past this, the QR gets too dense to scan reliably off a lock screen. */
+export const EMERGENCY_QR_MAX_LENGTH = 900;
+
+// --- Building ---
+
+function cleanList(values: string[] | undefined): string[] {
+  return (values ?? []).map((v) => v.trim()).filter(Boolean);
+}
+
+function cleanContacts(contacts: EmergencyContact[]): EmergencyContact[] {
+  return contacts
+    .map((c) => ({ name: c.name.trim(), relationship: c.relationship.trim(), phone: c.phone.trim() }))
+    .filter((c) => c.name || c.phone);
+}
+
+export function buildEmergencyCard(
+  profile: EmergencyProfile,
+  bio: Pick<BioProfile, 'fullName' | 'dateOfBirth'> | null,
+  today: string = new Date().toISOString().slice(0, 10),
+): EmergencyCard {
+  const on = new Set(profile.fields);
+  const card: EmergencyCard = { updated: today };
+
+  const name = bio?.fullName.trim();
+  if (on.has('name') && name) card.name = name;
+  const dateOfBirth = bio?.dateOfBirth.trim();
+  if (on.has('dateOfBirth') && dateOfBirth) card.dateOfBirth = dateOfBirth;
+  const bloodType = profile.bloodType.trim();
+  if (on.has('bloodType') && bloodType) card.bloodType = bloodType;
+
+  const allergies = cleanList(profile.allergies);
+  if (on.has('allergies') && allergies.length > 0) card.allergies = allergies;
+  const medications = cleanList(profile.medications);
+  if (on.has('medications') && medications.length > 0) card.medications = medications;
+  const conditions = cleanList(profile.conditions);
+  if (on.has('conditions') && conditions.length > 0) card.conditions = conditions;
+  const contacts = cleanContacts(profile.contacts);
+  if (on.has('contacts') && contacts.length > 0) card.contacts = contacts;
+
+  return card;
+}
+
+/** Fields present on the card, in display order. This is what gets audited. */
+export function exposedFields(card: EmergencyCard): EmergencyField[] {
+  return EMERGENCY_FIELDS.filter((field) => card[field] !== undefined);
+}
+
+/** Record an export; keeps the newest EMERGENCY_EXPORT_HISTORY_LIMIT. */
+export function withExportRecord(
+  profile: EmergencyProfile,
+  card: EmergencyCard,
+  format: EmergencyExportFormat,
+  at: string = new Date().toISOString(),
+): EmergencyProfile {
+  const record = { at, format, fields: exposedFields(card) };
+  return { ...profile, exports: [record, ...profile.exports].slice(0, EMERGENCY_EXPORT_HISTORY_LIMIT) };
+}
+
+/** Lines the patient can pick from, taken from a binder summary's sections. */
+export function emergencyCandidatesFromSummary(
+  summary: Pick<BinderSummary, 'allergies' | 'medications' | 'conditions'>,
+): EmergencyCandidates {
+  return {
+    allergies: summary.allergies.map((a) => {
+      const detail = [a.reaction, a.severity].filter(Boolean).join(', ');
+      return detail ? `${a.name} (${detail})` : a.name;
+    }),
+    medications: summary.medications.map((m) =>
+      [m.name, [m.dosage, m.frequency].filter(Boolean).join(', ')].filter(Boolean).join(' '),
+    ),
+    conditions: summary.conditions.map((c) => c.name),
+  };
+}
+
+// --- Encodings ---
+
+function contactLine(contact: EmergencyContact): string {
+  const who = contact.relationship ? `${contact.name} (${contact.relationship})` : contact.name;
+  return [who, contact.phone].filter(Boolean).join(' ');
+}
+
+/** Plain text for the QR: readable by any camera, offline. */
+export function encodeEmergencyText(card: EmergencyCard): string {
+  const lines = ['EMERGENCY MEDICAL INFO'];
+  if (card.name) lines.push(`Name: ${card.name}`);
+  if (card.dateOfBirth) lines.push(`DOB: ${card.dateOfBirth}`);
+  if (card.bloodType) lines.push(`Blood type: ${card.bloodType}`);
+  if (card.allergies) lines.push(`Allergies: ${card.allergies.join('; ')}`);
+  if (card.medications) lines.push(`Medications: ${card.medications.join('; ')}`);
+  if (card.conditions) lines.push(`Conditions: ${card.conditions.join('; ')}`);
+  for (const contact of card.contacts ?? []) lines.push(`ICE: ${contactLine(contact)}`);
+  lines.push(`Patient-provided, updated ${card.updated}`);
+  return lines.join('\n');
+}
+
+function toBase64Url(base64: string): string {
+  return base64.replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function fromBase64Url(value: string): string {
+  const base64 = value.replace(/-/g, '+').replace(/_/g, '/');
+  return base64 + '='.repeat((4 - (base64.length % 4)) % 4);
+}
+
+export function encodeEmergencyLink(card: EmergencyCard, base: string = EMERGENCY_LINK_BASE): string {
+  const payload: EmergencyLinkPayload = {
+    ...(card.name ? { n: card.name } : {}),
+    ...(card.dateOfBirth ? { d: card.dateOfBirth } : {}),
+    ...(card.bloodType ? { b: card.bloodType } : {}),
+    ...(card.allergies ? { a: card.allergies } : {}),
+    ...(card.medications ? { m: card.medications } : {}),
+    ...(card.conditions ? { c: card.conditions } : {}),
+    ...(card.contacts ? { e: card.contacts.map((c) => [c.name, c.relationship, c.phone] as [string, string, string]) } : {}),
+    u: card.updated,
+  };
+  return `${base}#${EMERGENCY_LINK_VERSION}.${toBase64Url(encodeString(JSON.stringify(payload)))}`;
+}
+
+/** Decode a link (or just its fragment). Returns null for anything that isn't a v1 card. */
+export function decodeEmergencyLink(link: string): EmergencyCard | null {
+  const fragment = link.includes('#') ? link.slice(link.indexOf('#') + 1) : link;
+  const [version, data] = fragment.split('.', 2);
+  if (version !== EMERGENCY_LINK_VERSION || !data) return null;
+
+  try {
+    const payload = JSON.parse(decodeString(fromBase64Url(data))) as EmergencyLinkPayload;
+    if (typeof payload.u !== 'string') return null;
+    const strings = (values: unknown) =>
+      Array.isArray(values) ? values.filter((v): v is string => typeof v === 'string') : undefined;
+    const contacts = Array.isArray(payload.e)
+      ? payload.e
+        .filter((c) => Array.isArray(c))
+        .map(([name, relationship, phone]) => ({
+          name: String(name ?? ''),
+          relationship: String(relationship ?? ''),
+          phone: String(phone ?? ''),
+        }))
+      : undefined;
+    return {
+      ...(typeof payload.n === 'string' ? { name: payload.n } : {}),
+      ...(typeof payload.d === 'string' ? { dateOfBirth: payload.d } : {}),
+      ...(typeof payload.b === 'string' ? { bloodType: payload.b } : {}),
+      ...(strings(payload.a) ? { allergies: strings(payload.a) } : {}),
+      ...(strings(payload.m) ? { medications: strings(payload.m) } : {}),
+      ...(strings(payload.c) ? { conditions: strings(payload.c) } : {}),
+      ...(contacts ? { contacts } : {}),
+      updated: payload.u,
+    };
+  } catch {
+    return null;
+  }
+}
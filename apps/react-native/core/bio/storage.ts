@@ -1,6 +1,7 @@
 import type { AuthState, OAuthConnection } from '../../types/auth';
 
 const STORAGE_KEY_PREFIX = 'limbo_bio_profile_v1';
+const EMERGENCY_STORAGE_KEY_PREFIX = 'limbo_emergency_profile_v1';
 
 function pushOwnerKey(target: string[], ownerKey: string | null): void {
   if (!ownerKey || target.includes(ownerKey)) return;
@@ -51,3 +52,8 @@ export function storageKeyForBioProfileOwner(ownerKey: string): string {
   const encodedOwner = encodeURIComponent(ownerKey).replace(/%/g, '_');
   return `${STORAGE_KEY_PREFIX}.${encodedOwner}`;
 }
+
+export function storageKeyForEmergencyProfileOwner(ownerKey: string): string {
+  const encodedOwner = encodeURIComponent(ownerKey).replace(/%/g, '_');
+  return `${EMERGENCY_STORAGE_KEY_PREFIX}.${encodedOwner}`;
+}
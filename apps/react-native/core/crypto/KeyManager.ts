@@ -20,6 +20,7 @@ export interface SecureStoreAdapter {
 
 const KEYCHAIN_KEY = 'limbo_master_privkey';
 const SENTINEL_KEY = 'limbo_has_key';
+const ROTATION_KEYCHAIN_KEY = 'limbo_master_privkey_next';
 
 // --- KeyManager ---
 
@@ -99,13 +100,47 @@ export class KeyManager {
   }
 
   /**
-   * Delete master private key from Keychain. Used for logout / key rotation.
+   * Delete master private key from Keychain. Used for logout / account reset.
    */
   async deleteMasterPrivkey(): Promise<void> {
     await this.store.deleteItemAsync(KEYCHAIN_KEY);
     await this.store.deleteItemAsync(SENTINEL_KEY);
   }
 
+  // --- Key rotation ---
+
+  /**
+   * Hold the replacement master key while a rotation is in progress. Stored
+   * before any file is re-encrypted so an interrupted rotation never strands
+   * data under a key that exists only in memory.
+   */
+  async storeRotationPrivkey(privkey: Uint8Array): Promise<void> {
+    await this.store.setItemAsync(ROTATION_KEYCHAIN_KEY, bytesToHex(privkey), {
+      requireAuthentication: true,
+      keychainAccessible: 6,
+    });
+  }
+
+  async getRotationPrivkey(): Promise<Uint8Array | null> {
+    const hex = await this.store.getItemAsync(ROTATION_KEYCHAIN_KEY, {
+      requireAuthentication: true,
+    });
+    return hex ? hexToBytes(hex) : null;
+  }
+
+  /**
+   * Finish a rotation: the replacement key becomes the master key and the
+   * pending slot is cleared.
+   */
+  async promoteRotationPrivkey(privkey: Uint8Array): Promise<void> {
+    await this.storeMasterPrivkey(privkey);
+    await this.store.deleteItemAsync(ROTATION_KEYCHAIN_KEY);
+  }
+
+  async deleteRotationPrivkey(): Promise<void> {
+    await this.store.deleteItemAsync(ROTATION_KEYCHAIN_KEY);
+  }
+
   /**
    * Check if a master key exists without triggering biometric.
    * Uses a non-authenticated read — returns true/false only.
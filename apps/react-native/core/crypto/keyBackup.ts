@@ -0,0 +1,143 @@
+// core/crypto/keyBackup.ts
+// Human-portable forms of the master private key, for backup and restore.
+//
+//   nsec1…       NIP-19 bech32 of the raw 32 bytes.
+//   24 words     BIP-39 encoding of the raw 32 bytes as entropy (not a NIP-06
+//                seed: the words must round-trip to the key already in use).
+//   ncryptsec1…  NIP-49 password-encrypted key (scrypt + XChaCha20-Poly1305).
+//
+// Spec: https://github.com/nostr-protocol/nips/blob/master/49.md
+
+import { xchacha20poly1305 } from '@noble/ciphers/chacha.js';
+import { scryptAsync } from '@noble/hashes/scrypt.js';
+import { concatBytes, hexToBytes, randomBytes } from '@noble/hashes/utils.js';
+import { bech32 } from '@scure/base';
+import { entropyToMnemonic, mnemonicToEntropy, validateMnemonic } from '@scure/bip39';
+import { wordlist } from '@scure/bip39/wordlists/english.js';
+
+// --- Constants ---
+
+const PRIVKEY_LENGTH = 32;
+const BECH32_LIMIT = 1500;
+
+const NCRYPTSEC_VERSION = 0x02;
+/** NIP-49 recommends 16 (64 MiB, ~1s on a phone); higher is painful on Hermes. */
+export const DEFAULT_NCRYPTSEC_LOG_N = 16;
+const NCRYPTSEC_SALT_LENGTH = 16;
+const NCRYPTSEC_NONCE_LENGTH = 24;
+/** NIP-49 key security byte: 0x02 = client does not track how the key was handled. */
+const KEY_SECURITY_UNTRACKED = 0x02;
+const NCRYPTSEC_LENGTH = 1 + 1 + NCRYPTSEC_SALT_LENGTH + NCRYPTSEC_NONCE_LENGTH + 1 + PRIVKEY_LENGTH + 16;
+
+export type SecretKeyFormat = 'nsec' | 'hex' | 'mnemonic' | 'ncryptsec';
+
+// --- nsec ---
+
+export function encodeNsec(privkey: Uint8Array): string {
+  return bech32.encode('nsec', bech32.toWords(privkey), BECH32_LIMIT);
+}
+
+function decodeNsec(nsec: string): Uint8Array {
+  const { prefix, bytes } = bech32.decodeToBytes(nsec, BECH32_LIMIT);
+  if (prefix !== 'nsec' || bytes.length !== PRIVKEY_LENGTH) {
+    throw new Error('nsec key must decode to 32 bytes.');
+  }
+  return bytes;
+}
+
+// --- Mnemonic ---
+
+export function privkeyToMnemonic(privkey: Uint8Array): string {
+  if (privkey.length !== PRIVKEY_LENGTH) throw new Error('Private key must be 32 bytes.');
+  return entropyToMnemonic(privkey, wordlist);
+}
+
+/** Lowercases and collapses whitespace so pasted or hand-typed phrases match the wordlist. */
+export function normalizeMnemonic(input: string): string {
+  return input.trim().toLowerCase().split(/\s+/).join(' ');
+}
+
+export function mnemonicToPrivkey(mnemonic: string): Uint8Array {
+  const normalized = normalizeMnemonic(mnemonic);
+  if (normalized.split(' ').length !== 24 || !validateMnemonic(normalized, wordlist)) {
+    throw new Error('The recovery phrase is not a valid 24-word phrase. Check each word and its order.');
+  }
+  return mnemonicToEntropy(normalized, wordlist);
+}
+
+// --- ncryptsec (NIP-49) ---
+
+async function deriveNcryptsecKey(password: string, salt: Uint8Array, logN: number): Promise<Uint8Array> {
+  return scryptAsync(password.normalize('NFKC'), salt, { N: 2 ** logN, r: 8, p: 1, dkLen: 32 });
+}
+
+export async function encryptPrivkey(
+  privkey: Uint8Array,
+  password: string,
+  logN: number = DEFAULT_NCRYPTSEC_LOG_N,
+): Promise<string> {
+  if (privkey.length !== PRIVKEY_LENGTH) throw new Error('Private key must be 32 bytes.');
+  if (!password) throw new Error('A password is required.');
+
+  const salt = randomBytes(NCRYPTSEC_SALT_LENGTH);
+  const nonce = randomBytes(NCRYPTSEC_NONCE_LENGTH);
+  const keySecurity = new Uint8Array([KEY_SECURITY_UNTRACKED]);
+  const key = await deriveNcryptsecKey(password, salt, logN);
+  const ciphertext = xchacha20poly1305(key, nonce, keySecurity).encrypt(privkey);
+
+  const payload = concatBytes(new Uint8Array([NCRYPTSEC_VERSION, logN]), salt, nonce, keySecurity, ciphertext);
+  return bech32.encode('ncryptsec', bech32.toWords(payload), BECH32_LIMIT);
+}
+
+export async function decryptNcryptsec(ncryptsec: string, password: string): Promise<Uint8Array> {
+  const { prefix, bytes } = bech32.decodeToBytes(ncryptsec.trim(), BECH32_LIMIT);
+  if (prefix !== 'ncryptsec' || bytes.length !== NCRYPTSEC_LENGTH || bytes[0] !== NCRYPTSEC_VERSION) {
+    throw new Error('Unsupported encrypted key format.');
+  }
+
+  const logN = bytes[1];
+  let offset = 2;
+  const salt = bytes.slice(offset, offset += NCRYPTSEC_SALT_LENGTH);
+  const nonce = bytes.slice(offset, offset += NCRYPTSEC_NONCE_LENGTH);
+  const keySecurity = bytes.slice(offset, offset += 1);
+  const ciphertext = bytes.slice(offset);
+
+  const key = await deriveNcryptsecKey(password, salt, logN);
+  try {
+    return xchacha20poly1305(key, nonce, keySecurity).decrypt(ciphertext);
+  } catch {
+    throw new Error('Wrong password for this encrypted key.');
+  }
+}
+
+// --- Parsing user input ---
+
+export function detectSecretKeyFormat(input: string): SecretKeyFormat | null {
+  const trimmed = input.trim();
+  if (trimmed.startsWith('ncryptsec1')) return 'ncryptsec';
+  if (trimmed.startsWith('nsec1')) return 'nsec';
+  if (/^[0-9a-fA-F]{64}$/.test(trimmed)) return 'hex';
+  if (normalizeMnemonic(trimmed).split(' ').length === 24) return 'mnemonic';
+  return null;
+}
+
+/**
+ * Turn whatever the user pasted into a private key. `password` is only
+ * needed for ncryptsec input. Throws with a message fit for an alert.
+ */
+export async function parseSecretKey(input: string, password?: string): Promise<Uint8Array> {
+  const trimmed = input.trim();
+  switch (detectSecretKeyFormat(trimmed)) {
+    case 'nsec':
+      return decodeNsec(trimmed);
+    case 'hex':
+      return hexToBytes(trimmed);
+    case 'mnemonic':
+      return mnemonicToPrivkey(trimmed);
+    case 'ncryptsec':
+      if (!password) throw new Error('Enter the password for this encrypted key.');
+      return decryptNcryptsec(trimmed, password);
+    default:
+      throw new Error('Enter an nsec key, a 64-character hex key, a 24-word recovery phrase, or an ncryptsec encrypted key.');
+  }
+}
@@ -0,0 +1,30 @@
+// core/crypto/nip04.ts
+// NIP-04 encrypt/decrypt (AES-256-CBC over the raw ECDH x coordinate).
+// Deprecated in favor of NIP-44 and only kept for data other clients wrote
+// with it: the web frontend stores the scheduler's Ed25519 key this way.
+// Spec: https://github.com/nostr-protocol/nips/blob/master/04.md
+
+import { secp256k1 } from '@noble/curves/secp256k1.js';
+import { cbc } from '@noble/ciphers/aes.js';
+import { hexToBytes, randomBytes } from '@noble/hashes/utils.js';
+import { encode as b64encode, decode as b64decode } from './base64';
+
+function getSharedKey(privkey: Uint8Array, pubkey: string): Uint8Array {
+  return secp256k1.getSharedSecret(privkey, hexToBytes('02' + pubkey)).slice(1, 33);
+}
+
+/** Encrypt `plaintext` from `privkey` to `pubkey`. Returns `<ciphertext>?iv=<iv>`, both base64. */
+export function encrypt(privkey: Uint8Array, pubkey: string, plaintext: string): string {
+  const iv = randomBytes(16);
+  const ciphertext = cbc(getSharedKey(privkey, pubkey), iv).encrypt(new TextEncoder().encode(plaintext));
+  return `${b64encode(ciphertext)}?iv=${b64encode(iv)}`;
+}
+
+/** Throws when the payload is malformed or was not encrypted for this key pair. */
+export function decrypt(privkey: Uint8Array, pubkey: string, payload: string): string {
+  const [ciphertext, iv] = payload.split('?iv=');
+  if (!ciphertext || !iv) throw new Error('invalid NIP-04 payload');
+
+  const plaintext = cbc(getSharedKey(privkey, pubkey), b64decode(iv)).decrypt(b64decode(ciphertext));
+  return new TextDecoder('utf-8', { fatal: true }).decode(plaintext);
+}
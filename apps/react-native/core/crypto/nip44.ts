@@ -16,7 +16,7 @@ import { encode as b64encode, decode as b64decode } from './base64';
 
 const VERSION = 2;
 const MIN_PLAINTEXT_SIZE = 1;
-const MAX_PLAINTEXT_SIZE = 65535;
+export const MAX_PLAINTEXT_SIZE = 65535;
 const HKDF_SALT = new TextEncoder().encode('nip44-v2');
 
 // --- Conversation Key ---
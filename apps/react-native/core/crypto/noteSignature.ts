@@ -0,0 +1,88 @@
+// core/crypto/noteSignature.ts
+// Verify clinical notes that a doctor signed with their Nostr key on the scan
+// page (apps/frontend lib/clinicalNote.ts builds the same signature).
+//
+// metadata.signature is a complete NIP-01 event, never published:
+//   kind     NOTE_SIGNATURE_KIND (ephemeral range, so relays would not keep it)
+//   content  sha256 hex of the document's canonical JSON, without the
+//            signature and without displayOrder (set by the binder on import
+//            and on reorder, so it can't be part of what the author signed)
+//   tags     [['t', 'clinical-note']]
+// Attachments are children of the note, so their filenames and content
+// hashes are covered by the digest too.
+
+import { schnorr } from '@noble/curves/secp256k1.js';
+import { sha256 } from '@noble/hashes/sha2.js';
+import { bytesToHex, hexToBytes } from '@noble/hashes/utils.js';
+import type { MedicalDocument, NoteSignature } from '../../types/document';
+
+export const NOTE_SIGNATURE_KIND = 24500;
+
+export type NoteSignatureStatus =
+  | { status: 'unsigned' }
+  | { status: 'verified'; pubkey: string; signedAt: string }
+  | { status: 'invalid'; pubkey: string };
+
+/** JSON with object keys sorted at every level, so both sides hash the same bytes. */
+export function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(canonicalJson).join(',')}]`;
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, v]) => v !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${canonicalJson(v)}`).join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
+
+/** sha256 over the canonical JSON of `doc` without its signature or display order. */
+export function documentDigest(doc: MedicalDocument): string {
+  const { signature: _signature, displayOrder: _displayOrder, ...metadata } = doc.metadata;
+  const unsigned = { ...doc, metadata };
+  return bytesToHex(sha256(new TextEncoder().encode(canonicalJson(unsigned))));
+}
+
+function eventId(event: Omit<NoteSignature, 'id' | 'sig'>): string {
+  const serialized = JSON.stringify([0, event.pubkey, event.created_at, event.kind, event.tags, event.content]);
+  return bytesToHex(sha256(new TextEncoder().encode(serialized)));
+}
+
+/** Build metadata.signature for `doc`. The scan page signs through NIP-07; this is for tests and tooling. */
+export function signDocument(doc: MedicalDocument, privkey: Uint8Array, createdAt: number): NoteSignature {
+  const unsigned = {
+    pubkey: bytesToHex(schnorr.getPublicKey(privkey)),
+    created_at: createdAt,
+    kind: NOTE_SIGNATURE_KIND,
+    tags: [['t', 'clinical-note']],
+    content: documentDigest(doc),
+  };
+  const id = eventId(unsigned);
+  return { ...unsigned, id, sig: bytesToHex(schnorr.sign(hexToBytes(id), privkey)) };
+}
+
+/**
+ * Check a note's signature. 'invalid' covers a bad signature and a note
+ * changed after signing (an edit in the app, for instance).
+ */
+export function verifyDocumentSignature(doc: MedicalDocument): NoteSignatureStatus {
+  const signature = doc.metadata.signature;
+  if (!signature) return { status: 'unsigned' };
+
+  try {
+    const valid =
+      signature.kind === NOTE_SIGNATURE_KIND &&
+      signature.content === documentDigest(doc) &&
+      signature.id === eventId(signature) &&
+      schnorr.verify(hexToBytes(signature.sig), hexToBytes(signature.id), hexToBytes(signature.pubkey));
+    if (valid) {
+      return {
+        status: 'verified',
+        pubkey: signature.pubkey,
+        signedAt: new Date(signature.created_at * 1000).toISOString(),
+      };
+    }
+  } catch {
+    // malformed hex or key: treat as invalid below
+  }
+  return { status: 'invalid', pubkey: signature.pubkey };
+}
@@ -0,0 +1,178 @@
+// core/crypto/shamir.ts
+// Shamir secret sharing over GF(256) for social recovery of the master key.
+// Any `threshold` of the shares rebuild the key; fewer reveal nothing about it.
+//
+// Share string: bech32 'limboshare' over
+//   [version: 1][setId: 2][threshold: 1][x: 1][y: 32][checksum: 4]
+// - setId: random per split, so shares from different splits can't be mixed
+// - checksum: first 4 bytes of sha256 over the share's own preceding bytes.
+//   It catches a damaged share without saying anything about the key; a hash
+//   of the key itself would let one share holder test guesses offline.
+// Shares entered beyond the threshold are checked against the rebuilt
+// polynomial, so a share that decodes but was altered is still caught.
+
+import { sha256 } from '@noble/hashes/sha2.js';
+import { bytesToHex, concatBytes, hexToBytes, randomBytes } from '@noble/hashes/utils.js';
+import { bech32 } from '@scure/base';
+
+// --- Constants ---
+
+const SHARE_PREFIX = 'limboshare';
+const SHARE_VERSION = 0x01;
+const SET_ID_LENGTH = 2;
+const CHECKSUM_LENGTH = 4;
+const HEADER_LENGTH = 1 + SET_ID_LENGTH + 1 + 1;
+const MAX_SHARES = 255;
+
+export interface KeyShare {
+  setId: string;
+  threshold: number;
+  index: number;
+  y: Uint8Array;
+}
+
+// --- GF(256) arithmetic (AES polynomial 0x11b, generator 3) ---
+
+const EXP = new Uint8Array(510);
+const LOG = new Uint8Array(256);
+{
+  let x = 1;
+  for (let i = 0; i < 255; i++) {
+    EXP[i] = x;
+    LOG[x] = i;
+    x ^= (x << 1) ^ (x & 0x80 ? 0x11b : 0);
+  }
+  for (let i = 255; i < 510; i++) EXP[i] = EXP[i - 255];
+}
+
+function gfMul(a: number, b: number): number {
+  return a === 0 || b === 0 ? 0 : EXP[LOG[a] + LOG[b]];
+}
+
+function gfDiv(a: number, b: number): number {
+  if (b === 0) throw new Error('Division by zero in GF(256).');
+  return a === 0 ? 0 : EXP[LOG[a] + 255 - LOG[b]];
+}
+
+// --- Split / combine raw bytes ---
+
+/** Split `secret` into `count` points; the x coordinate of point i is i + 1. */
+export function splitSecret(secret: Uint8Array, threshold: number, count: number): Uint8Array[] {
+  if (!Number.isInteger(threshold) || !Number.isInteger(count) || threshold < 2 || count < threshold || count > MAX_SHARES) {
+    throw new Error('Need at least 2 shares to recover, and no more shares than people.');
+  }
+
+  const ys = Array.from({ length: count }, () => new Uint8Array(secret.length));
+  for (let b = 0; b < secret.length; b++) {
+    const coefficients = concatBytes(new Uint8Array([secret[b]]), randomBytes(threshold - 1));
+    for (let i = 0; i < count; i++) {
+      const x = i + 1;
+      // Horner's rule, highest coefficient first
+      let y = 0;
+      for (let c = threshold - 1; c >= 0; c--) y = gfMul(y, x) ^ coefficients[c];
+      ys[i][b] = y;
+    }
+  }
+  return ys;
+}
+
+/** Lagrange interpolation at `at`. Points must have distinct, non-zero x. */
+function interpolate(points: Array<{ x: number; y: Uint8Array }>, at: number): Uint8Array {
+  const length = points[0].y.length;
+  const result = new Uint8Array(length);
+  for (let b = 0; b < length; b++) {
+    let value = 0;
+    for (let i = 0; i < points.length; i++) {
+      let basis = 1;
+      for (let j = 0; j < points.length; j++) {
+        if (i === j) continue;
+        basis = gfMul(basis, gfDiv(points[j].x ^ at, points[j].x ^ points[i].x));
+      }
+      value ^= gfMul(points[i].y[b], basis);
+    }
+    result[b] = value;
+  }
+  return result;
+}
+
+/** Lagrange interpolation at x = 0. Points must have distinct, non-zero x. */
+export function combineSecret(points: Array<{ x: number; y: Uint8Array }>): Uint8Array {
+  return interpolate(points, 0);
+}
+
+// --- Key shares ---
+
+function shareChecksum(body: Uint8Array): Uint8Array {
+  return sha256(body).slice(0, CHECKSUM_LENGTH);
+}
+
+export function encodeKeyShare(share: KeyShare): string {
+  const body = concatBytes(
+    new Uint8Array([SHARE_VERSION]),
+    hexToBytes(share.setId),
+    new Uint8Array([share.threshold, share.index]),
+    share.y,
+  );
+  return bech32.encode(SHARE_PREFIX, bech32.toWords(concatBytes(body, shareChecksum(body))), 1500);
+}
+
+export function decodeKeyShare(text: string): KeyShare {
+  let decoded: { prefix: string; bytes: Uint8Array };
+  try {
+    decoded = bech32.decodeToBytes(text.trim().toLowerCase());
+  } catch {
+    throw new Error('A recovery share is mistyped or incomplete.');
+  }
+  const { prefix, bytes } = decoded;
+  if (prefix !== SHARE_PREFIX || bytes[0] !== SHARE_VERSION || bytes.length <= HEADER_LENGTH + CHECKSUM_LENGTH) {
+    throw new Error('Not a Limbo Health recovery share.');
+  }
+  const body = bytes.slice(0, -CHECKSUM_LENGTH);
+  if (bytesToHex(shareChecksum(body)) !== bytesToHex(bytes.slice(-CHECKSUM_LENGTH))) {
+    throw new Error('A recovery share is mistyped or incomplete.');
+  }
+  return {
+    setId: bytesToHex(body.slice(1, 1 + SET_ID_LENGTH)),
+    threshold: body[1 + SET_ID_LENGTH],
+    index: body[2 + SET_ID_LENGTH],
+    y: body.slice(HEADER_LENGTH),
+  };
+}
+
+export function isKeyShare(text: string): boolean {
+  return text.trim().toLowerCase().startsWith(SHARE_PREFIX + '1');
+}
+
+/** Split the master key into `count` share strings, any `threshold` of which recover it. */
+export function splitPrivkey(privkey: Uint8Array, threshold: number, count: number): string[] {
+  const setId = bytesToHex(randomBytes(SET_ID_LENGTH));
+  return splitSecret(privkey, threshold, count).map((y, i) =>
+    encodeKeyShare({ setId, threshold, index: i + 1, y }),
+  );
+}
+
+/** Rebuild the master key from share strings. Throws with a message fit for an alert. */
+export function recoverPrivkey(shareTexts: string[]): Uint8Array {
+  const shares = shareTexts.map(decodeKeyShare);
+  if (shares.length === 0) throw new Error('Enter your recovery shares.');
+
+  const { setId, threshold } = shares[0];
+  if (shares.some((s) => s.setId !== setId || s.threshold !== threshold)) {
+    throw new Error('These shares come from different backups.');
+  }
+
+  const unique = new Map(shares.map((s) => [s.index, s]));
+  if (unique.size < threshold) {
+    throw new Error(`${threshold} different shares are needed; ${unique.size} entered.`);
+  }
+
+  const points = Array.from(unique.values()).map((s) => ({ x: s.index, y: s.y }));
+  const used = points.slice(0, threshold);
+  const consistent = points
+    .slice(threshold)
+    .every((extra) => bytesToHex(interpolate(used, extra.x)) === bytesToHex(extra.y));
+  if (!consistent) {
+    throw new Error('The shares did not rebuild a valid key. One of them may be mistyped.');
+  }
+  return combineSecret(used);
+}
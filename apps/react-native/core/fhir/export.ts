@@ -0,0 +1,666 @@
+// core/fhir/export.ts
+// Maps a decrypted binder to a FHIR R4 collection Bundle.
+//
+// buildFhirBundle is pure and deterministic: the same binder contents always
+// produce byte-identical JSON (ids are hashed from binder id + entry path,
+// entries are ordered by path, the timestamp comes from the documents).
+// exportBinderToFhir gathers the inputs through BinderService.
+
+import { sha256 } from '@noble/hashes/sha2.js';
+import { bytesToHex } from '@noble/hashes/utils.js';
+import type { BinderService } from '../binder/BinderService';
+import { findCategoryForPath } from '../binder/categories';
+import { extractTitle } from '../binder/DocumentModel';
+import { isSearchableDocumentPath } from '../binder/SearchIndex';
+import { encode as b64encode } from '../crypto/base64';
+import { parseMarkdownFrontMatter } from '../markdown/frontmatter';
+import { labResultFlagLabel, parseLabResultRow, type LabResultFlag } from '../markdown/labResultEntry';
+import { parseMedicationEntry } from '../markdown/medicationEntry';
+import type { MedicalDocument } from '../../types/document';
+import type {
+  FhirAllergyIntolerance,
+  FhirAttachment,
+  FhirBinary,
+  FhirBundle,
+  FhirBundleEntry,
+  FhirCodeableConcept,
+  FhirDiagnosticReport,
+  FhirDocumentReference,
+  FhirEncounter,
+  FhirImmunization,
+  FhirMedicationStatement,
+  FhirObservation,
+  FhirPatient,
+  FhirQuantity,
+  FhirReference,
+  FhirResource,
+} from '../../types/fhir';
+
+/** Identifier system stamped on every exported resource: value is `<binderId>/<entry path>`. */
+export const LIMBO_ENTRY_IDENTIFIER_SYSTEM = 'https://limbo.health/fhir/binder-entry';
+export const FHIR_JSON_MIME_TYPE = 'application/fhir+json';
+
+const NPI_SYSTEM = 'http://hl7.org/fhir/sid/us-npi';
+const LOINC_SYSTEM = 'http://loinc.org';
+const EPOCH = '1970-01-01T00:00:00.000Z';
+
+const ATTACHMENT_CONTENT_TYPES: Record<string, string> = {
+  jpeg: 'image/jpeg',
+  jpg: 'image/jpeg',
+  png: 'image/png',
+  heic: 'image/heic',
+  pdf: 'application/pdf',
+  m4a: 'audio/mp4',
+  mp3: 'audio/mpeg',
+  wav: 'audio/wav',
+};
+
+// --- Types ---
+
+export interface FhirExportEntry {
+  /** Path relative to repo root, e.g. 'visits/2026-01-15-checkup.json' */
+  path: string;
+  doc: MedicalDocument;
+}
+
+export interface FhirExportInput {
+  binderId: string;
+  patientInfo: MedicalDocument | null;
+  entries: FhirExportEntry[];
+  /** Decrypted sidecar bytes keyed by repo-relative path. Missing sidecars export without data. */
+  attachments?: ReadonlyMap<string, Uint8Array>;
+  /** Bundle timestamp. Defaults to the newest created/updated date in the binder. */
+  timestamp?: string;
+}
+
+export interface ExportBinderOptions {
+  /** Embed sidecar bytes as Binary resources. Defaults to true. */
+  includeAttachments?: boolean;
+}
+
+// --- Helpers ---
+
+/**
+ * Deterministic UUID (version/variant bits set like v5) from a SHA-256 of the key.
+ */
+function resourceUuid(binderId: string, key: string): string {
+  const hex = bytesToHex(sha256(new TextEncoder().encode(`${binderId}:${key}`))).slice(0, 32);
+  const variant = ((parseInt(hex[16], 16) & 0x3) | 0x8).toString(16);
+  return [
+    hex.slice(0, 8),
+    hex.slice(8, 12),
+    '5' + hex.slice(13, 16),
+    variant + hex.slice(17, 20),
+    hex.slice(20, 32),
+  ].join('-');
+}
+
+function urn(uuid: string): string {
+  return `urn:uuid:${uuid}`;
+}
+
+/**
+ * Normalize a loosely formatted date ('2026-01-15', '2026-01-15T10:00:00Z',
+ * '01/15/2026') to a FHIR date. Returns undefined for anything else.
+ */
+export function toFhirDate(value: string | undefined): string | undefined {
+  if (!value) return undefined;
+  const trimmed = value.trim();
+  const iso = trimmed.match(/^(\d{4}-\d{2}-\d{2})/);
+  if (iso) return iso[1];
+  const us = trimmed.match(/^(\d{1,2})\/(\d{1,2})\/(\d{4})$/);
+  if (us) return `${us[3]}-${us[1].padStart(2, '0')}-${us[2].padStart(2, '0')}`;
+  return undefined;
+}
+
+function markdownBody(doc: MedicalDocument): string {
+  return parseMarkdownFrontMatter(doc.value).body;
+}
+
+/** Read a `- Label: value` list field, the same shape medication entries use. */
+export function listField(body: string, ...labels: string[]): string | undefined {
+  for (const label of labels) {
+    const match = body.match(new RegExp(`^[-*]+\\s*${label}:\\s*(.+)$`, 'im'));
+    if (match?.[1]?.trim()) return match[1].trim();
+  }
+  return undefined;
+}
+
+/** Text under a `## Heading` up to the next heading. */
+export function section(body: string, heading: string): string | undefined {
+  const lines = body.split('\n');
+  const start = lines.findIndex((line) => new RegExp(`^##\\s+${heading}\\s*$`, 'i').test(line.trim()));
+  if (start === -1) return undefined;
+  const rest = lines.slice(start + 1);
+  const end = rest.findIndex((line) => /^#{1,2}\s+/.test(line.trim()));
+  const text = (end === -1 ? rest : rest.slice(0, end)).join('\n').trim();
+  return text || undefined;
+}
+
+function textAttachment(markdown: string, title: string, creation: string): FhirAttachment {
+  return {
+    contentType: 'text/markdown',
+    data: b64encode(new TextEncoder().encode(markdown)),
+    title,
+    creation,
+  };
+}
+
+function providerReference(doc: MedicalDocument): FhirReference | undefined {
+  const { provider, npi } = doc.metadata;
+  if (!provider && !npi) return undefined;
+  return {
+    ...(provider ? { display: provider } : {}),
+    ...(npi ? { identifier: { system: NPI_SYSTEM, value: npi } } : {}),
+  };
+}
+
+function parentDir(path: string): string {
+  const slash = path.lastIndexOf('/');
+  return slash > 0 ? path.slice(0, slash) : '';
+}
+
+function attachmentContentType(doc: MedicalDocument): string {
+  const format = doc.metadata.format?.toLowerCase();
+  if (format && ATTACHMENT_CONTENT_TYPES[format]) return ATTACHMENT_CONTENT_TYPES[format];
+  const extension = doc.value.replace(/\.enc$/, '').split('.').pop()?.toLowerCase();
+  return (extension && ATTACHMENT_CONTENT_TYPES[extension]) || 'application/octet-stream';
+}
+
+/** Repo-relative paths of every sidecar a document (or its children) points at. */
+export function sidecarPathsFor(path: string, doc: MedicalDocument): string[] {
+  const dir = parentDir(path);
+  return [doc, ...doc.children]
+    .filter((node) => node.metadata.type === 'attachment_ref' && node.value.endsWith('.enc'))
+    .map((node) => (dir ? `${dir}/${node.value}` : node.value));
+}
+
+// --- Lab results ---
+
+export interface ParsedLabResult {
+  name: string;
+  value?: FhirQuantity;
+  valueText?: string;
+  referenceLow?: number;
+  referenceHigh?: number;
+  referenceText?: string;
+  flag?: LabResultFlag;
+}
+
+function parseReferenceRange(raw: string): Pick<ParsedLabResult, 'referenceLow' | 'referenceHigh' | 'referenceText'> {
+  const text = raw.replace(/^\s*(?:ref(?:erence)?(?:\s+range)?|range|normal)\s*:?\s*/i, '').trim();
+  const between = text.match(/^(-?\d+(?:\.\d+)?)\s*(?:-|–|to)\s*(-?\d+(?:\.\d+)?)/i);
+  if (between) {
+    return { referenceLow: Number(between[1]), referenceHigh: Number(between[2]) };
+  }
+  return text ? { referenceText: text } : {};
+}
+
+/**
+ * Parse `- Test: value unit (ref low-high) [Flag]` lines from a lab entry's
+ * Results section (or the whole body when there is no such section).
+ */
+export function parseLabResultLines(body: string): ParsedLabResult[] {
+  const source = section(body, 'Results') ?? body;
+  const results: ParsedLabResult[] = [];
+
+  for (const line of source.split('\n')) {
+    const row = parseLabResultRow(line);
+    if (!row) continue;
+    const range = row.referenceRange ? parseReferenceRange(row.referenceRange) : {};
+    const flag = row.flag ? { flag: row.flag } : {};
+
+    if (/^-?\d+(?:\.\d+)?$/.test(row.value)) {
+      results.push({
+        name: row.analyte,
+        value: { value: Number(row.value), ...(row.unit ? { unit: row.unit } : {}) },
+        ...range,
+        ...flag,
+      });
+    } else {
+      results.push({ name: row.analyte, valueText: [row.value, row.unit].filter(Boolean).join(' '), ...range, ...flag });
+    }
+  }
+
+  return results;
+}
+
+function referenceRange(result: ParsedLabResult): NonNullable<FhirObservation['referenceRange']>[number] | undefined {
+  const unit = result.value?.unit ? { unit: result.value.unit } : {};
+  if (result.referenceLow !== undefined && result.referenceHigh !== undefined) {
+    return {
+      low: { value: result.referenceLow, ...unit },
+      high: { value: result.referenceHigh, ...unit },
+    };
+  }
+  return result.referenceText ? { text: result.referenceText } : undefined;
+}
+
+const INTERPRETATION_CODES: Record<LabResultFlag, string> = {
+  high: 'H',
+  low: 'L',
+  abnormal: 'A',
+  critical: 'AA',
+};
+
+function interpretation(flag: LabResultFlag): FhirCodeableConcept {
+  return {
+    coding: [{
+      system: 'http://terminology.hl7.org/CodeSystem/v3-ObservationInterpretation',
+      code: INTERPRETATION_CODES[flag],
+      display: labResultFlagLabel(flag),
+    }],
+  };
+}
+
+// --- Resource builders ---
+
+/**
+ * Build the Patient resource from patient-info.json (`# Name` + `DOB: ...`).
+ */
+function buildPatient(patientInfo: MedicalDocument | null, binderId: string): FhirPatient {
+  const patient: FhirPatient = {
+    resourceType: 'Patient',
+    identifier: [{ system: LIMBO_ENTRY_IDENTIFIER_SYSTEM, value: `${binderId}/patient-info.json` }],
+  };
+  if (!patientInfo) return patient;
+
+  const body = markdownBody(patientInfo);
+  const name = body.match(/^#\s+(.+)$/m)?.[1]?.trim();
+  if (name) {
+    const parts = name.split(/\s+/);
+    patient.name = [{
+      text: name,
+      ...(parts.length > 1 ? { family: parts[parts.length - 1], given: parts.slice(0, -1) } : {}),
+    }];
+  }
+  const birthDate = toFhirDate(body.match(/^DOB:\s*(.+)$/im)?.[1]);
+  if (birthDate) patient.birthDate = birthDate;
+  return patient;
+}
+
+type EntryKind = 'medication' | 'lab' | 'visit' | 'allergy' | 'immunization' | 'attachment' | 'note';
+
+function entryKind(path: string, doc: MedicalDocument): EntryKind {
+  const type = doc.metadata.type;
+  if (type === 'attachment_ref') return 'attachment';
+  const category = findCategoryForPath(path)?.slug;
+  if (type === 'medication' || category === 'medications') return 'medication';
+  if (type === 'lab' || category === 'labs') return 'lab';
+  if (type === 'visit' || category === 'visits') return 'visit';
+  if (type === 'allergy' || category === 'allergies') return 'allergy';
+  if (type === 'immunization' || category === 'immunizations') return 'immunization';
+  return 'note';
+}
+
+class BundleBuilder {
+  readonly entries: FhirBundleEntry[] = [];
+  readonly patientRef: FhirReference;
+
+  constructor(
+    private readonly binderId: string,
+    private readonly attachments: ReadonlyMap<string, Uint8Array>,
+    patientInfo: MedicalDocument | null,
+  ) {
+    const patientUrl = this.add('patient-info.json', buildPatient(patientInfo, binderId));
+    const patientName = patientInfo ? extractTitle(patientInfo) : undefined;
+    this.patientRef = { reference: patientUrl, ...(patientName ? { display: patientName } : {}) };
+  }
+
+  /** Add a resource keyed by a stable string; returns its fullUrl. */
+  add(key: string, resource: FhirResource): string {
+    const id = resourceUuid(this.binderId, `${resource.resourceType}:${key}`);
+    const fullUrl = urn(id);
+    const { resourceType, ...rest } = resource;
+    this.entries.push({ fullUrl, resource: { resourceType, id, ...rest } as FhirResource });
+    return fullUrl;
+  }
+
+  identifier(key: string) {
+    return [{ system: LIMBO_ENTRY_IDENTIFIER_SYSTEM, value: `${this.binderId}/${key}` }];
+  }
+
+  addEntry(path: string, doc: MedicalDocument): void {
+    switch (entryKind(path, doc)) {
+      case 'medication':
+        this.addMedication(path, doc);
+        break;
+      case 'lab':
+        this.addLab(path, doc);
+        break;
+      case 'visit':
+        this.addVisit(path, doc);
+        break;
+      case 'allergy':
+        this.addAllergy(path, doc);
+        break;
+      case 'immunization':
+        this.addImmunization(path, doc);
+        break;
+      case 'attachment':
+        this.addAttachment(path, doc, path);
+        return;
+      case 'note':
+        this.addNote(path, doc);
+        break;
+    }
+    this.addChildAttachments(path, doc);
+  }
+
+  private addMedication(path: string, doc: MedicalDocument): void {
+    const body = markdownBody(doc);
+    const { fields } = parseMedicationEntry(body);
+    const name = fields?.name ?? extractTitle(doc);
+    const dosage = fields
+      ? [fields.dosage, fields.frequency].filter(Boolean).join(', ')
+      : listField(body, 'Dosage') ?? body.match(/^Dosage:\s*(.+)$/im)?.[1]?.trim();
+    const start = toFhirDate(fields?.startDate ?? body.match(/Started:\s*(.+)$/im)?.[1]);
+    const end = toFhirDate(fields?.stopDate);
+    const source = providerReference(doc);
+
+    const statement: FhirMedicationStatement = {
+      resourceType: 'MedicationStatement',
+      identifier: this.identifier(path),
+      status: fields?.stopDate ? 'completed' : 'active',
+      medicationCodeableConcept: { text: name },
+      subject: this.patientRef,
+      ...(start || end ? { effectivePeriod: { ...(start ? { start } : {}), ...(end ? { end } : {}) } } : {}),
+      dateAsserted: doc.metadata.created,
+      ...(source ? { informationSource: source } : {}),
+      ...(dosage ? { dosage: [{ text: dosage }] } : {}),
+    };
+    this.add(path, statement);
+  }
+
+  private addLab(path: string, doc: MedicalDocument): void {
+    const body = markdownBody(doc);
+    const title = extractTitle(doc);
+    const labName = listField(body, 'Lab') ?? body.match(/^Lab:\s*(.+)$/im)?.[1]?.trim();
+    const performer = providerReference(doc) ?? (labName ? { display: labName } : undefined);
+    const effective = doc.metadata.created;
+
+    const results = parseLabResultLines(body).map((result, index) => {
+      const observation: FhirObservation = {
+        resourceType: 'Observation',
+        identifier: this.identifier(`${path}#${index}`),
+        status: 'final',
+        category: [{
+          coding: [{
+            system: 'http://terminology.hl7.org/CodeSystem/observation-category',
+            code: 'laboratory',
+          }],
+        }],
+        code: { text: result.name },
+        subject: this.patientRef,
+        effectiveDateTime: effective,
+        ...(result.value ? { valueQuantity: result.value } : { valueString: result.valueText }),
+        ...(referenceRange(result) ? { referenceRange: [referenceRange(result)!] } : {}),
+        ...(result.flag ? { interpretation: [interpretation(result.flag)] } : {}),
+        ...(performer ? { performer: [performer] } : {}),
+      };
+      return { reference: this.add(`${path}#${index}`, observation), display: result.name };
+    });
+
+    const notes = section(body, 'Notes');
+    const report: FhirDiagnosticReport = {
+      resourceType: 'DiagnosticReport',
+      identifier: this.identifier(path),
+      status: 'final',
+      category: [{
+        coding: [{ system: 'http://terminology.hl7.org/CodeSystem/v2-0074', code: 'LAB' }],
+      }],
+      code: { text: title },
+      subject: this.patientRef,
+      effectiveDateTime: effective,
+      issued: doc.metadata.updated ?? doc.metadata.created,
+      ...(performer ? { performer: [performer] } : {}),
+      ...(results.length > 0 ? { result: results } : {}),
+      ...(notes ? { conclusion: notes } : {}),
+      presentedForm: [textAttachment(doc.value, title, doc.metadata.created)],
+    };
+    this.add(path, report);
+  }
+
+  private addVisit(path: string, doc: MedicalDocument): void {
+    const body = markdownBody(doc);
+    const title = extractTitle(doc);
+    const provider = providerReference(doc);
+    const assessment = section(body, 'Assessment');
+
+    const encounter: FhirEncounter = {
+      resourceType: 'Encounter',
+      identifier: this.identifier(path),
+      status: 'finished',
+      class: {
+        system: 'http://terminology.hl7.org/CodeSystem/v3-ActCode',
+        code: 'AMB',
+        display: 'ambulatory',
+      },
+      type: [{ text: title }],
+      subject: this.patientRef,
+      period: { start: doc.metadata.created },
+      ...(provider ? { participant: [{ individual: provider }] } : {}),
+      ...(assessment ? { reasonCode: [{ text: assessment }] } : {}),
+    };
+    const encounterUrl = this.add(path, encounter);
+
+    // The SOAP note itself travels as a progress note linked to the encounter.
+    const note: FhirDocumentReference = {
+      resourceType: 'DocumentReference',
+      identifier: this.identifier(path),
+      status: 'current',
+      type: { coding: [{ system: LOINC_SYSTEM, code: '11506-3', display: 'Progress note' }], text: title },
+      subject: this.patientRef,
+      date: doc.metadata.updated ?? doc.metadata.created,
+      ...(provider ? { author: [provider] } : {}),
+      content: [{ attachment: textAttachment(doc.value, title, doc.metadata.created) }],
+      context: { encounter: [{ reference: encounterUrl }] },
+    };
+    this.add(path, note);
+  }
+
+  private addAllergy(path: string, doc: MedicalDocument): void {
+    const body = markdownBody(doc);
+    const reaction = listField(body, 'Reaction', 'Reactions');
+    const severity = listField(body, 'Severity')?.toLowerCase();
+    const status = listField(body, 'Status')?.toLowerCase();
+    const recorder = providerReference(doc);
+    const notes = section(body, 'Notes');
+
+    const allergy: FhirAllergyIntolerance = {
+      resourceType: 'AllergyIntolerance',
+      identifier: this.identifier(path),
+      clinicalStatus: {
+        coding: [{
+          system: 'http://terminology.hl7.org/CodeSystem/allergyintolerance-clinical',
+          code: status === 'inactive' || status === 'resolved' ? status : 'active',
+        }],
+      },
+      code: { text: listField(body, 'Allergen', 'Substance') ?? extractTitle(doc) },
+      patient: this.patientRef,
+      recordedDate: doc.metadata.created,
+      ...(recorder ? { recorder } : {}),
+      ...(reaction
+        ? {
+          reaction: [{
+            manifestation: reaction.split(/\s*,\s*/).filter(Boolean).map((text) => ({ text })),
+            ...(severity === 'mild' || severity === 'moderate' || severity === 'severe' ? { severity } : {}),
+          }],
+        }
+        : {}),
+      ...(notes ? { note: [{ text: notes }] } : {}),
+    };
+    this.add(path, allergy);
+  }
+
+  private addImmunization(path: string, doc: MedicalDocument): void {
+    const body = markdownBody(doc);
+    const performer = providerReference(doc);
+    const lotNumber = listField(body, 'Lot', 'Lot Number');
+    const dose = listField(body, 'Dose');
+    const doseNumber = Number(listField(body, 'Dose Number', 'Dose #'));
+    const doseMatch = dose?.match(/^(\d+(?:\.\d+)?)\s*(.*)$/);
+    const notes = section(body, 'Notes');
+
+    const immunization: FhirImmunization = {
+      resourceType: 'Immunization',
+      identifier: this.identifier(path),
+      status: 'completed',
+      vaccineCode: { text: listField(body, 'Vaccine') ?? extractTitle(doc) },
+      patient: this.patientRef,
+      occurrenceDateTime: toFhirDate(listField(body, 'Date', 'Given')) ?? doc.metadata.created,
+      ...(lotNumber ? { lotNumber } : {}),
+      ...(doseMatch
+        ? { doseQuantity: { value: Number(doseMatch[1]), ...(doseMatch[2] ? { unit: doseMatch[2].trim() } : {}) } }
+        : {}),
+      ...(performer ? { performer: [{ actor: performer }] } : {}),
+      ...(Number.isInteger(doseNumber) && doseNumber > 0 ? { protocolApplied: [{ doseNumberPositiveInt: doseNumber }] } : {}),
+      ...(notes ? { note: [{ text: notes }] } : {}),
+    };
+    this.add(path, immunization);
+  }
+
+  private addNote(path: string, doc: MedicalDocument): void {
+    const title = extractTitle(doc);
+    const author = providerReference(doc);
+    const reference: FhirDocumentReference = {
+      resourceType: 'DocumentReference',
+      identifier: this.identifier(path),
+      status: 'current',
+      type: { text: doc.metadata.type },
+      subject: this.patientRef,
+      date: doc.metadata.updated ?? doc.metadata.created,
+      ...(author ? { author: [author] } : {}),
+      description: title,
+      content: [{ attachment: textAttachment(doc.value, title, doc.metadata.created) }],
+    };
+    this.add(path, reference);
+  }
+
+  /**
+   * Sidecar → Binary (when its bytes were provided) + DocumentReference.
+   * `key` is the .json path for standalone attachments, `<path>#<n>` for children.
+   */
+  private addAttachment(key: string, doc: MedicalDocument, ownerPath: string, related?: string): void {
+    const dir = parentDir(ownerPath);
+    const sidecarPath = dir ? `${dir}/${doc.value}` : doc.value;
+    const contentType = attachmentContentType(doc);
+    const bytes = this.attachments.get(sidecarPath);
+
+    let binaryUrl: string | undefined;
+    if (bytes) {
+      const binary: FhirBinary = {
+        resourceType: 'Binary',
+        contentType,
+        data: b64encode(bytes),
+      };
+      binaryUrl = this.add(key, binary);
+    }
+
+    const reference: FhirDocumentReference = {
+      resourceType: 'DocumentReference',
+      identifier: this.identifier(key),
+      status: 'current',
+      type: { text: contentType.split('/')[0] === 'audio' ? 'Audio recording' : 'Attachment' },
+      subject: this.patientRef,
+      date: doc.metadata.created,
+      description: doc.value.replace(/\.enc$/, ''),
+      content: [{
+        attachment: {
+          contentType,
+          ...(binaryUrl ? { url: binaryUrl } : {}),
+          ...(doc.metadata.originalSizeBytes ? { size: doc.metadata.originalSizeBytes } : {}),
+          title: doc.value.replace(/\.enc$/, ''),
+          creation: doc.metadata.created,
+        },
+      }],
+      ...(related ? { context: { related: [{ reference: related }] } } : {}),
+    };
+    this.add(key, reference);
+  }
+
+  private addChildAttachments(path: string, doc: MedicalDocument): void {
+    const parentUrl = this.entries[this.entries.length - 1]?.fullUrl;
+    doc.children.forEach((child, index) => {
+      if (child.metadata.type !== 'attachment_ref') return;
+      this.addAttachment(`${path}#child-${index}`, child, path, parentUrl);
+    });
+  }
+}
+
+function newestDate(input: FhirExportInput): string {
+  let newest = EPOCH;
+  const docs = [input.patientInfo, ...input.entries.map((entry) => entry.doc)];
+  for (const doc of docs) {
+    if (!doc) continue;
+    for (const value of [doc.metadata.created, doc.metadata.updated]) {
+      if (value && value > newest) newest = value;
+    }
+  }
+  return newest;
+}
+
+// --- Public API ---
+
+/**
+ * Build a FHIR R4 collection Bundle from decrypted binder contents.
+ */
+export function buildFhirBundle(input: FhirExportInput): FhirBundle {
+  const builder = new BundleBuilder(
+    input.binderId,
+    input.attachments ?? new Map(),
+    input.patientInfo,
+  );
+
+  const sorted = [...input.entries].sort((a, b) => (a.path < b.path ? -1 : a.path > b.path ? 1 : 0));
+  for (const { path, doc } of sorted) {
+    builder.addEntry(path, doc);
+  }
+
+  return {
+    resourceType: 'Bundle',
+    id: resourceUuid(input.binderId, 'Bundle'),
+    type: 'collection',
+    timestamp: input.timestamp ?? newestDate(input),
+    entry: builder.entries,
+  };
+}
+
+/**
+ * Decrypt every entry (and optionally every sidecar) in a binder and build its FHIR Bundle.
+ */
+export async function exportBinderToFhir(
+  service: BinderService,
+  binderId: string,
+  options: ExportBinderOptions = {},
+): Promise<FhirBundle> {
+  const includeAttachments = options.includeAttachments ?? true;
+  const files = await service.listAllFiles();
+  const entries: FhirExportEntry[] = [];
+  const attachments = new Map<string, Uint8Array>();
+
+  for (const path of files) {
+    if (!isSearchableDocumentPath(path)) continue;
+    try {
+      const doc = await service.readEntry(path);
+      entries.push({ path, doc });
+      if (!includeAttachments) continue;
+      for (const sidecarPath of sidecarPathsFor(path, doc)) {
+        try {
+          attachments.set(sidecarPath, await service.readSidecar(sidecarPath));
+        } catch (err) {
+          console.warn(`FHIR export: skipping unreadable sidecar ${sidecarPath}`, err);
+        }
+      }
+    } catch (err) {
+      console.warn(`FHIR export: skipping unreadable file ${path}`, err);
+    }
+  }
+
+  return buildFhirBundle({
+    binderId,
+    patientInfo: await service.readPatientInfo(),
+    entries,
+    attachments,
+  });
+}
@@ -0,0 +1,428 @@
+// core/fhir/fromCcda.ts
+// C-CDA (HL7 CDA R2 Continuity of Care Document) → ImportedRecords.
+// Sections are recognized by their LOINC code; entries fall back to the
+// section narrative when coded values only point at it (originalText/reference).
+
+import {
+  buildConditionMarkdown,
+  buildImportedMedicationMarkdown,
+  buildProcedureMarkdown,
+  contentSourceId,
+  INTERPRETATION_FLAGS,
+  normalizeClinicalDate,
+  type ImportedRecord,
+  type ImportedRecordKind,
+} from './records';
+import { buildAllergyMarkdown } from '../markdown/allergyEntry';
+import { buildImmunizationMarkdown } from '../markdown/immunizationEntry';
+import { buildLabResultMarkdown, type LabResultRow } from '../markdown/labResultEntry';
+import { buildVisitMarkdown } from '../markdown/visitEntry';
+import {
+  childElement,
+  childElements,
+  descendants,
+  parseXml,
+  pathElement,
+  textContent,
+  type XmlElement,
+} from './xml';
+
+const NPI_ROOT = '2.16.840.1.113883.4.6';
+
+const SECTION_CODES = {
+  medications: '10160-0',
+  results: '30954-2',
+  vitals: '8716-3',
+  allergies: '48765-2',
+  immunizations: '11369-6',
+  problems: '11450-4',
+  encounters: '46240-8',
+  procedures: '47519-4',
+} as const;
+
+type SectionKind = keyof typeof SECTION_CODES;
+
+const SECTION_BY_CODE = new Map<string, SectionKind>(
+  (Object.entries(SECTION_CODES) as [SectionKind, string][]).map(([kind, code]) => [code, kind]),
+);
+
+/** Narrative text keyed by element ID, for resolving `<reference value="#id"/>`. */
+type Narrative = Map<string, string>;
+
+// --- Field helpers ---
+
+function attr(element: XmlElement | undefined, name: string): string | undefined {
+  const value = element?.attributes[name]?.trim();
+  return value || undefined;
+}
+
+/** Index narrative elements carrying an ID attribute (`<td ID="med1">`). */
+function collectNarrative(node: XmlElement | undefined, narrative: Narrative): void {
+  if (!node) return;
+  const id = attr(node, 'ID');
+  if (id) narrative.set(id, textContent(node));
+  node.children.forEach((child) => collectNarrative(child, narrative));
+}
+
+function referencedText(element: XmlElement | undefined, narrative: Narrative): string | undefined {
+  const ref = attr(childElement(element, 'reference'), 'value');
+  if (ref?.startsWith('#')) return narrative.get(ref.slice(1)) || undefined;
+  return textContent(element) || undefined;
+}
+
+function codeText(code: XmlElement | undefined, narrative: Narrative): string | undefined {
+  if (!code) return undefined;
+  return attr(code, 'displayName')
+    ?? referencedText(childElement(code, 'originalText'), narrative)
+    ?? attr(childElements(code, 'translation').find((t) => attr(t, 'displayName')), 'displayName')
+    ?? attr(code, 'code');
+}
+
+/** Text of an observation `<value>` — physical quantity, coded, or string. */
+function valueText(value: XmlElement | undefined, narrative: Narrative): { value: string; unit?: string } | undefined {
+  if (!value) return undefined;
+  const quantity = attr(value, 'value');
+  if (quantity !== undefined) {
+    const unit = attr(value, 'unit');
+    return { value: quantity, ...(unit && unit !== '1' ? { unit } : {}) };
+  }
+  const coded = codeText(value, narrative);
+  if (coded) return { value: coded };
+  const text = textContent(value);
+  return text ? { value: text } : undefined;
+}
+
+function effectiveDate(element: XmlElement | undefined): string | undefined {
+  const time = childElement(element, 'effectiveTime');
+  return normalizeClinicalDate(attr(time, 'value') ?? attr(childElement(time, 'low'), 'value'));
+}
+
+function personName(name: XmlElement | undefined): string | undefined {
+  if (!name) return undefined;
+  const parts = [
+    ...childElements(name, 'prefix'),
+    ...childElements(name, 'given'),
+    ...childElements(name, 'family'),
+    ...childElements(name, 'suffix'),
+  ].map((part) => textContent(part)).filter(Boolean);
+  return parts.length > 0 ? parts.join(' ') : textContent(name) || undefined;
+}
+
+/** Provider name and NPI from a performer/author/assignedEntity. */
+function practitioner(element: XmlElement | undefined): { provider?: string; npi?: string } {
+  const entity = element && (childElement(element, 'assignedEntity') ?? childElement(element, 'assignedAuthor'));
+  if (!entity) return {};
+  const npi = attr(childElements(entity, 'id').find((id) => attr(id, 'root') === NPI_ROOT), 'extension');
+  const provider = personName(pathElement(entity, 'assignedPerson', 'name'))
+    ?? textContent(pathElement(entity, 'representedOrganization', 'name'))
+    ?? undefined;
+  return { ...(provider ? { provider } : {}), ...(npi ? { npi } : {}) };
+}
+
+function sourceIdFor(
+  element: XmlElement,
+  kind: ImportedRecordKind,
+  markdown: string,
+  date?: string,
+): string {
+  const id = childElements(element, 'id').find((candidate) => attr(candidate, 'root') && !attr(candidate, 'nullFlavor'));
+  if (id) return `ccda:${attr(id, 'root')}|${attr(id, 'extension') ?? ''}`;
+  return contentSourceId(kind, markdown, date);
+}
+
+function isNegated(element: XmlElement): boolean {
+  return attr(element, 'negationInd') === 'true';
+}
+
+/** The clinical statement inside an `<entry>` (skipping the wrapper). */
+function entryStatement(entry: XmlElement, ...names: string[]): XmlElement | undefined {
+  return entry.children.find((child) => names.includes(child.name));
+}
+
+/** Observations nested in entryRelationships, optionally filtered by typeCode. */
+function relatedObservations(element: XmlElement, typeCode?: string): XmlElement[] {
+  return childElements(element, 'entryRelationship')
+    .filter((rel) => !typeCode || attr(rel, 'typeCode') === typeCode)
+    .map((rel) => childElement(rel, 'observation'))
+    .filter((observation): observation is XmlElement => !!observation);
+}
+
+// --- Section mappers ---
+
+function medicationRecord(entry: XmlElement, narrative: Narrative): ImportedRecord | null {
+  const admin = entryStatement(entry, 'substanceAdministration');
+  if (!admin || isNegated(admin)) return null;
+  const name = codeText(pathElement(admin, 'consumable', 'manufacturedProduct', 'manufacturedMaterial', 'code'), narrative)
+    ?? referencedText(childElement(admin, 'text'), narrative);
+  if (!name) return null;
+
+  const times = childElements(admin, 'effectiveTime');
+  const interval = times.find((time) => childElement(time, 'low') || childElement(time, 'high'));
+  const periodic = times.find((time) => attr(time, 'type') === 'PIVL_TS');
+  const period = childElement(periodic, 'period');
+  const frequency = period
+    ? `Every ${attr(period, 'value')} ${attr(period, 'unit') ?? ''}`.trim()
+    : undefined;
+  const dose = childElement(admin, 'doseQuantity');
+  const doseValue = attr(dose, 'value');
+  const doseUnit = attr(dose, 'unit');
+
+  const startDate = normalizeClinicalDate(attr(childElement(interval, 'low'), 'value'));
+  const stopDate = normalizeClinicalDate(attr(childElement(interval, 'high'), 'value'));
+  const markdown = buildImportedMedicationMarkdown({
+    name,
+    dosage: doseValue ? [doseValue, doseUnit !== '1' ? doseUnit : undefined].filter(Boolean).join(' ') : undefined,
+    frequency,
+    startDate,
+    stopDate,
+  });
+  return {
+    kind: 'medication',
+    sourceId: sourceIdFor(admin, 'medication', markdown, startDate),
+    title: name,
+    date: startDate,
+    ...practitioner(childElement(admin, 'author') ?? childElement(admin, 'performer')),
+    markdown,
+  };
+}
+
+function labResult(observation: XmlElement, narrative: Narrative): LabResultRow | null {
+  const name = codeText(childElement(observation, 'code'), narrative);
+  const value = valueText(childElement(observation, 'value'), narrative);
+  if (!name || !value) return null;
+
+  const range = pathElement(observation, 'referenceRange', 'observationRange');
+  const rangeValue = childElement(range, 'value');
+  const low = attr(childElement(rangeValue, 'low'), 'value');
+  const high = attr(childElement(rangeValue, 'high'), 'value');
+  const referenceRange = low && high
+    ? `${low}-${high}`
+    : high ? `<${high}` : low ? `>${low}` : textContent(childElement(range, 'text')) || undefined;
+
+  const flag = INTERPRETATION_FLAGS[attr(childElement(observation, 'interpretationCode'), 'code') ?? ''];
+  return {
+    analyte: name,
+    ...value,
+    ...(referenceRange ? { referenceRange } : {}),
+    ...(flag ? { flag } : {}),
+  };
+}
+
+function labRecord(entry: XmlElement, narrative: Narrative, fallbackTitle: string): ImportedRecord | null {
+  const organizer = entryStatement(entry, 'organizer');
+  const observations = organizer
+    ? childElements(organizer, 'component').map((c) => childElement(c, 'observation')).filter((o): o is XmlElement => !!o)
+    : [entryStatement(entry, 'observation')].filter((o): o is XmlElement => !!o);
+  const statement = organizer ?? observations[0];
+  if (!statement) return null;
+
+  const results = observations.map((o) => labResult(o, narrative)).filter((r): r is LabResultRow => !!r);
+  if (results.length === 0) return null;
+  const date = effectiveDate(statement) ?? effectiveDate(observations[0]);
+  const title = (organizer && codeText(childElement(organizer, 'code'), narrative)) ?? fallbackTitle;
+  const { provider, npi } = practitioner(childElement(statement, 'author') ?? childElement(statement, 'performer'));
+  const markdown = buildLabResultMarkdown({ title, lab: provider, results });
+  return {
+    kind: 'lab',
+    sourceId: sourceIdFor(statement, 'lab', markdown, date),
+    title,
+    date,
+    provider,
+    npi,
+    markdown,
+  };
+}
+
+function allergyRecord(entry: XmlElement, narrative: Narrative): ImportedRecord | null {
+  const act = entryStatement(entry, 'act', 'observation');
+  const observation = act?.name === 'act' ? relatedObservations(act)[0] : act;
+  if (!act || !observation || isNegated(observation)) return null;
+
+  const substance = codeText(
+    pathElement(observation, 'participant', 'participantRole', 'playingEntity', 'code'),
+    narrative,
+  ) ?? valueText(childElement(observation, 'value'), narrative)?.value;
+  if (!substance) return null;
+
+  const reactions = relatedObservations(observation, 'MFST')
+    .map((reaction) => valueText(childElement(reaction, 'value'), narrative)?.value)
+    .filter((reaction): reaction is string => !!reaction);
+  const severityObservation = [
+    ...relatedObservations(observation, 'SUBJ'),
+    ...relatedObservations(observation, 'MFST').flatMap((reaction) => relatedObservations(reaction, 'SUBJ')),
+  ].find((candidate) => attr(childElement(candidate, 'code'), 'code') === 'SEV');
+  const date = effectiveDate(observation) ?? effectiveDate(act);
+
+  const markdown = buildAllergyMarkdown({
+    allergen: substance,
+    reaction: reactions.join(', '),
+    severity: valueText(childElement(severityObservation, 'value'), narrative)?.value ?? '',
+    status: attr(childElement(act, 'statusCode'), 'code'),
+  });
+  return {
+    kind: 'allergy',
+    sourceId: sourceIdFor(observation, 'allergy', markdown, date),
+    title: substance,
+    date,
+    ...practitioner(childElement(observation, 'author') ?? childElement(act, 'author')),
+    markdown,
+  };
+}
+
+function immunizationRecord(entry: XmlElement, narrative: Narrative): ImportedRecord | null {
+  const admin = entryStatement(entry, 'substanceAdministration');
+  if (!admin || isNegated(admin)) return null;
+  const material = pathElement(admin, 'consumable', 'manufacturedProduct', 'manufacturedMaterial');
+  const vaccine = codeText(childElement(material, 'code'), narrative);
+  if (!vaccine) return null;
+
+  const date = effectiveDate(admin);
+  const dose = childElement(admin, 'doseQuantity');
+  const markdown = buildImmunizationMarkdown({
+    vaccine,
+    date: date ?? '',
+    lot: textContent(childElement(material, 'lotNumberText')) || undefined,
+    dose: attr(dose, 'value') ? [attr(dose, 'value'), attr(dose, 'unit')].filter(Boolean).join(' ') : undefined,
+  });
+  return {
+    kind: 'immunization',
+    sourceId: sourceIdFor(admin, 'immunization', markdown, date),
+    title: vaccine,
+    date,
+    ...practitioner(childElement(admin, 'performer')),
+    markdown,
+  };
+}
+
+function conditionRecord(entry: XmlElement, narrative: Narrative): ImportedRecord | null {
+  const act = entryStatement(entry, 'act', 'observation');
+  const observation = act?.name === 'act' ? relatedObservations(act, 'SUBJ')[0] ?? relatedObservations(act)[0] : act;
+  if (!act || !observation || isNegated(observation)) return null;
+
+  const name = valueText(childElement(observation, 'value'), narrative)?.value
+    ?? codeText(childElement(observation, 'code'), narrative);
+  if (!name) return null;
+  const onset = effectiveDate(observation);
+  const time = childElement(observation, 'effectiveTime');
+  const resolved = attr(childElement(time, 'high'), 'value');
+
+  const markdown = buildConditionMarkdown({
+    name,
+    onset,
+    status: resolved ? `resolved ${normalizeClinicalDate(resolved) ?? ''}`.trim() : attr(childElement(act, 'statusCode'), 'code'),
+  });
+  return {
+    kind: 'condition',
+    sourceId: sourceIdFor(observation, 'condition', markdown, onset),
+    title: name,
+    date: onset,
+    ...practitioner(childElement(observation, 'author') ?? childElement(act, 'author')),
+    markdown,
+  };
+}
+
+function encounterRecord(entry: XmlElement, narrative: Narrative): ImportedRecord | null {
+  const encounter = entryStatement(entry, 'encounter');
+  if (!encounter) return null;
+  const title = codeText(childElement(encounter, 'code'), narrative) ?? 'Visit';
+  const date = effectiveDate(encounter);
+  const indications = relatedObservations(encounter, 'RSON')
+    .map((observation) => valueText(childElement(observation, 'value'), narrative)?.value)
+    .filter(Boolean)
+    .join(', ');
+  const assessment = relatedObservations(encounter, 'SUBJ')
+    .concat(relatedObservations(encounter, 'COMP'))
+    .map((observation) => valueText(childElement(observation, 'value'), narrative)?.value)
+    .filter(Boolean)
+    .join(', ');
+
+  const markdown = buildVisitMarkdown({
+    title: date ? `${title} — ${date}` : title,
+    subjective: indications || referencedText(childElement(encounter, 'text'), narrative) || '',
+    objective: '',
+    assessment,
+    plan: '',
+  });
+  return {
+    kind: 'visit',
+    sourceId: sourceIdFor(encounter, 'visit', markdown, date),
+    title,
+    date,
+    ...practitioner(childElement(encounter, 'performer')),
+    markdown,
+  };
+}
+
+function procedureRecord(entry: XmlElement, narrative: Narrative): ImportedRecord | null {
+  const procedure = entryStatement(entry, 'procedure', 'act', 'observation');
+  if (!procedure || isNegated(procedure)) return null;
+  const name = codeText(childElement(procedure, 'code'), narrative);
+  if (!name) return null;
+  const date = effectiveDate(procedure);
+  const markdown = buildProcedureMarkdown({
+    name,
+    date,
+    status: attr(childElement(procedure, 'statusCode'), 'code'),
+  });
+  return {
+    kind: 'procedure',
+    sourceId: sourceIdFor(procedure, 'procedure', markdown, date),
+    title: name,
+    date,
+    ...practitioner(childElement(procedure, 'performer')),
+    markdown,
+  };
+}
+
+function recordFor(kind: SectionKind, entry: XmlElement, narrative: Narrative): ImportedRecord | null {
+  switch (kind) {
+    case 'medications':
+      return medicationRecord(entry, narrative);
+    case 'results':
+      return labRecord(entry, narrative, 'Lab Results');
+    case 'vitals':
+      return labRecord(entry, narrative, 'Vital Signs');
+    case 'allergies':
+      return allergyRecord(entry, narrative);
+    case 'immunizations':
+      return immunizationRecord(entry, narrative);
+    case 'problems':
+      return conditionRecord(entry, narrative);
+    case 'encounters':
+      return encounterRecord(entry, narrative);
+    case 'procedures':
+      return procedureRecord(entry, narrative);
+  }
+}
+
+// --- Public API ---
+
+/** Whether text looks like a CDA document (cheap check before parsing). */
+export function isCcdaXml(text: string): boolean {
+  return /<(\w+:)?ClinicalDocument[\s>]/.test(text);
+}
+
+/**
+ * Map every recognized section entry of a C-CDA document to importable
+ * records. Unrecognized sections and negated entries ("no known allergies")
+ * are skipped.
+ */
+export function recordsFromCcda(xml: string): ImportedRecord[] {
+  const document = parseXml(xml);
+  if (document.name !== 'ClinicalDocument') throw new Error('Not a C-CDA ClinicalDocument');
+
+  const records: ImportedRecord[] = [];
+  for (const section of descendants(document, 'section')) {
+    const kind = SECTION_BY_CODE.get(attr(childElement(section, 'code'), 'code') ?? '');
+    if (!kind) continue;
+
+    const narrative: Narrative = new Map();
+    collectNarrative(childElement(section, 'text'), narrative);
+
+    for (const entry of childElements(section, 'entry')) {
+      const record = recordFor(kind, entry, narrative);
+      if (record) records.push(record);
+    }
+  }
+  return records;
+}
@@ -0,0 +1,482 @@
+// core/fhir/fromFhir.ts
+// FHIR R4 JSON (a Bundle or a single resource) → ImportedRecords.
+// Portal exports vary a lot, so every field is read defensively.
+
+import { decode as b64decode } from '../crypto/base64';
+import {
+  buildConditionMarkdown,
+  buildImportedMedicationMarkdown,
+  buildProcedureMarkdown,
+  contentSourceId,
+  INTERPRETATION_FLAGS,
+  normalizeClinicalDate,
+  type ImportedRecord,
+  type ImportedRecordKind,
+} from './records';
+import { buildAllergyMarkdown } from '../markdown/allergyEntry';
+import { buildImmunizationMarkdown } from '../markdown/immunizationEntry';
+import { buildLabResultMarkdown, type LabResultRow } from '../markdown/labResultEntry';
+import { buildVisitMarkdown } from '../markdown/visitEntry';
+
+// Portal JSON is untyped; these resources are only ever read through the helpers below.
+type Json = Record<string, any>;
+
+const NPI_SYSTEM = 'http://hl7.org/fhir/sid/us-npi';
+const EXTENSION_BY_CONTENT_TYPE: Record<string, string> = {
+  'application/pdf': 'pdf',
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/heic': 'heic',
+  'audio/mp4': 'm4a',
+  'audio/mpeg': 'mp3',
+  'text/plain': 'txt',
+  'text/html': 'html',
+  'application/xml': 'xml',
+};
+
+// --- Field helpers ---
+
+function conceptText(concept: Json | undefined): string | undefined {
+  if (!concept) return undefined;
+  return concept.text?.trim()
+    || concept.coding?.find((coding: Json) => coding.display)?.display?.trim()
+    || concept.coding?.[0]?.code;
+}
+
+function referenceDisplay(reference: Json | undefined): string | undefined {
+  return reference?.display?.trim() || undefined;
+}
+
+function referenceNpi(reference: Json | undefined): string | undefined {
+  const identifier = reference?.identifier;
+  return identifier?.system === NPI_SYSTEM ? identifier.value : undefined;
+}
+
+function quantityText(quantity: Json | undefined): { value: string; unit?: string } | undefined {
+  if (quantity?.value === undefined || quantity?.value === null) return undefined;
+  const unit = quantity.unit ?? quantity.code;
+  return { value: String(quantity.value), ...(unit ? { unit: String(unit) } : {}) };
+}
+
+function annotationText(notes: Json[] | undefined): string | undefined {
+  const text = (notes ?? []).map((note) => note?.text?.trim()).filter(Boolean).join('\n\n');
+  return text || undefined;
+}
+
+function sourceIdFor(resource: Json, kind: ImportedRecordKind, markdown: string, date?: string): string {
+  const identifier = (resource.identifier as Json[] | undefined)?.find((id) => id?.value);
+  if (identifier) return `${identifier.system ?? ''}|${identifier.value}`;
+  if (resource.id) return `fhir:${resource.resourceType}/${resource.id}`;
+  return contentSourceId(kind, markdown, date);
+}
+
+function decodeBase64Text(data: string): string {
+  return new TextDecoder().decode(b64decode(data));
+}
+
+// --- Reference resolution ---
+
+class ResourceIndex {
+  private byRef = new Map<string, Json>();
+
+  constructor(entries: { fullUrl?: string; resource: Json }[]) {
+    for (const { fullUrl, resource } of entries) {
+      if (fullUrl) this.byRef.set(fullUrl, resource);
+      if (resource.id) this.byRef.set(`${resource.resourceType}/${resource.id}`, resource);
+    }
+  }
+
+  resolve(reference: Json | undefined): Json | undefined {
+    const ref = reference?.reference;
+    if (typeof ref !== 'string') return undefined;
+    return this.byRef.get(ref) ?? this.byRef.get(ref.split('/').slice(-2).join('/'));
+  }
+}
+
+// --- Resource mappers ---
+
+function medicationRecord(resource: Json, index: ResourceIndex): ImportedRecord | null {
+  const medication = index.resolve(resource.medicationReference);
+  const name = conceptText(resource.medicationCodeableConcept)
+    ?? conceptText(medication?.code)
+    ?? referenceDisplay(resource.medicationReference);
+  if (!name) return null;
+
+  const dosage = (resource.dosage ?? resource.dosageInstruction ?? [])[0] as Json | undefined;
+  const dose = quantityText(dosage?.doseAndRate?.[0]?.doseQuantity);
+  const frequency = conceptText(dosage?.timing?.code)
+    ?? (dosage?.timing?.repeat?.frequency
+      ? `${dosage.timing.repeat.frequency} time(s) per ${dosage.timing.repeat.period ?? 1} ${dosage.timing.repeat.periodUnit ?? 'd'}`
+      : undefined);
+  const period = resource.effectivePeriod as Json | undefined;
+  const startDate = normalizeClinicalDate(period?.start ?? resource.effectiveDateTime ?? resource.authoredOn);
+  const stopped = ['completed', 'stopped', 'cancelled', 'entered-in-error'].includes(resource.status);
+  const stopDate = normalizeClinicalDate(period?.end) ?? (stopped ? startDate : undefined);
+
+  const markdown = buildImportedMedicationMarkdown({
+    name,
+    dosage: dose ? `${dose.value}${dose.unit ? ` ${dose.unit}` : ''}` : dosage?.text,
+    frequency: frequency ?? (dose ? dosage?.text : undefined),
+    startDate,
+    stopDate,
+  });
+  const source = resource.informationSource ?? resource.requester;
+  return {
+    kind: 'medication',
+    sourceId: sourceIdFor(resource, 'medication', markdown, startDate),
+    title: name,
+    date: startDate,
+    provider: referenceDisplay(source),
+    npi: referenceNpi(source),
+    markdown,
+  };
+}
+
+function labResult(observation: Json): LabResultRow | null {
+  const name = conceptText(observation.code);
+  if (!name) return null;
+  const quantity = quantityText(observation.valueQuantity);
+  const value = quantity?.value
+    ?? observation.valueString
+    ?? conceptText(observation.valueCodeableConcept)
+    ?? (observation.valueBoolean !== undefined ? String(observation.valueBoolean) : undefined);
+  if (value === undefined) return null;
+
+  const range = observation.referenceRange?.[0] as Json | undefined;
+  const referenceRange = range?.text
+    ?? (range?.low?.value !== undefined && range?.high?.value !== undefined
+      ? `${range.low.value}-${range.high.value}`
+      : range?.high?.value !== undefined
+        ? `<${range.high.value}`
+        : range?.low?.value !== undefined
+          ? `>${range.low.value}`
+          : undefined);
+
+  const flag = INTERPRETATION_FLAGS[observation.interpretation?.[0]?.coding?.[0]?.code ?? ''];
+  return {
+    analyte: name,
+    value: String(value),
+    ...(quantity?.unit ? { unit: quantity.unit } : {}),
+    ...(referenceRange ? { referenceRange } : {}),
+    ...(flag ? { flag } : {}),
+  };
+}
+
+function labRecord(
+  resource: Json,
+  title: string,
+  observations: Json[],
+  date: string | undefined,
+  notes?: string,
+): ImportedRecord | null {
+  const results = observations.map(labResult).filter((result): result is LabResultRow => !!result);
+  if (results.length === 0 && !notes) return null;
+  const performer = resource.performer?.[0] ?? observations[0]?.performer?.[0];
+  const markdown = buildLabResultMarkdown({
+    title,
+    lab: referenceDisplay(performer),
+    results,
+    notes,
+  });
+  return {
+    kind: 'lab',
+    sourceId: sourceIdFor(resource, 'lab', markdown, date),
+    title,
+    date,
+    provider: referenceDisplay(performer),
+    npi: referenceNpi(performer),
+    markdown,
+  };
+}
+
+function encounterRecord(resource: Json, notes: Json[]): ImportedRecord {
+  const date = normalizeClinicalDate(resource.period?.start);
+  const title = conceptText(resource.type?.[0])
+    ?? conceptText(resource.serviceType)
+    ?? resource.class?.display
+    ?? 'Visit';
+  const individual = resource.participant?.find((participant: Json) => participant?.individual)?.individual;
+  const reason = (resource.reasonCode ?? []).map(conceptText).filter(Boolean).join(', ');
+
+  // A progress note linked to the encounter (Limbo's own export does this) carries the full SOAP text.
+  const noteText = notes
+    .map((note) => note.content?.[0]?.attachment as Json | undefined)
+    .find((attachment) => attachment?.data && /^text\//.test(attachment.contentType ?? ''));
+  const markdown = noteText
+    ? decodeBase64Text(noteText.data)
+    : buildVisitMarkdown({
+      title: date ? `${title} — ${date}` : title,
+      subjective: reason,
+      objective: '',
+      assessment: '',
+      plan: '',
+    });
+
+  return {
+    kind: 'visit',
+    sourceId: sourceIdFor(resource, 'visit', markdown, date),
+    title,
+    date,
+    provider: referenceDisplay(individual),
+    npi: referenceNpi(individual),
+    markdown,
+  };
+}
+
+function allergyRecord(resource: Json): ImportedRecord | null {
+  const substance = conceptText(resource.code);
+  if (!substance) return null;
+  const reaction = resource.reaction?.[0] as Json | undefined;
+  const date = normalizeClinicalDate(resource.recordedDate ?? resource.onsetDateTime);
+  const severity: string = reaction?.severity ?? '';
+  const markdown = buildAllergyMarkdown({
+    allergen: substance,
+    reaction: (reaction?.manifestation ?? []).map(conceptText).filter(Boolean).join(', '),
+    severity: severity.charAt(0).toUpperCase() + severity.slice(1),
+    status: resource.clinicalStatus?.coding?.[0]?.code,
+    notes: annotationText(resource.note),
+  });
+  return {
+    kind: 'allergy',
+    sourceId: sourceIdFor(resource, 'allergy', markdown, date),
+    title: substance,
+    date,
+    provider: referenceDisplay(resource.recorder),
+    npi: referenceNpi(resource.recorder),
+    markdown,
+  };
+}
+
+function immunizationRecord(resource: Json): ImportedRecord | null {
+  if (resource.status === 'not-done' || resource.status === 'entered-in-error') return null;
+  const vaccine = conceptText(resource.vaccineCode);
+  if (!vaccine) return null;
+  const date = normalizeClinicalDate(resource.occurrenceDateTime);
+  const dose = quantityText(resource.doseQuantity);
+  const performer = resource.performer?.[0]?.actor;
+  const protocol = resource.protocolApplied?.[0] as Json | undefined;
+  const doseNumber = protocol?.doseNumberPositiveInt ?? protocol?.doseNumberString;
+  const markdown = buildImmunizationMarkdown({
+    vaccine,
+    date: date ?? '',
+    doseNumber: doseNumber !== undefined ? String(doseNumber) : undefined,
+    lot: resource.lotNumber,
+    dose: dose ? [dose.value, dose.unit].filter(Boolean).join(' ') : undefined,
+    notes: annotationText(resource.note),
+  });
+  return {
+    kind: 'immunization',
+    sourceId: sourceIdFor(resource, 'immunization', markdown, date),
+    title: vaccine,
+    date,
+    provider: referenceDisplay(performer),
+    npi: referenceNpi(performer),
+    markdown,
+  };
+}
+
+function conditionRecord(resource: Json): ImportedRecord | null {
+  const name = conceptText(resource.code);
+  if (!name) return null;
+  const onset = normalizeClinicalDate(resource.onsetDateTime ?? resource.onsetPeriod?.start ?? resource.recordedDate);
+  const markdown = buildConditionMarkdown({
+    name,
+    onset,
+    status: resource.clinicalStatus?.coding?.[0]?.code,
+    notes: annotationText(resource.note),
+  });
+  return {
+    kind: 'condition',
+    sourceId: sourceIdFor(resource, 'condition', markdown, onset),
+    title: name,
+    date: onset,
+    provider: referenceDisplay(resource.asserter ?? resource.recorder),
+    markdown,
+  };
+}
+
+function procedureRecord(resource: Json): ImportedRecord | null {
+  const name = conceptText(resource.code);
+  if (!name) return null;
+  const date = normalizeClinicalDate(resource.performedDateTime ?? resource.performedPeriod?.start);
+  const performer = resource.performer?.[0]?.actor;
+  const markdown = buildProcedureMarkdown({
+    name,
+    date,
+    status: resource.status,
+    notes: annotationText(resource.note),
+  });
+  return {
+    kind: 'procedure',
+    sourceId: sourceIdFor(resource, 'procedure', markdown, date),
+    title: name,
+    date,
+    provider: referenceDisplay(performer),
+    npi: referenceNpi(performer),
+    markdown,
+  };
+}
+
+function documentRecord(resource: Json, index: ResourceIndex): ImportedRecord | null {
+  const attachment = resource.content?.[0]?.attachment as Json | undefined;
+  if (!attachment) return null;
+  const title = resource.description?.trim()
+    || attachment.title?.trim()
+    || conceptText(resource.type)
+    || 'Document';
+  const date = normalizeClinicalDate(resource.date ?? attachment.creation);
+  const contentType: string = attachment.contentType ?? 'application/octet-stream';
+  const author = resource.author?.[0];
+
+  let data: string | undefined = attachment.data;
+  if (!data && attachment.url) {
+    const binary = index.resolve({ reference: attachment.url });
+    data = binary?.data;
+  }
+
+  if (data && /^text\/(markdown|plain)/.test(contentType)) {
+    const markdown = decodeBase64Text(data);
+    return {
+      kind: 'document',
+      sourceId: sourceIdFor(resource, 'document', markdown, date),
+      title,
+      date,
+      provider: referenceDisplay(author),
+      npi: referenceNpi(author),
+      markdown: /^#\s+/m.test(markdown) ? markdown : `# ${title}\n\n${markdown}`,
+    };
+  }
+
+  const markdown = `# ${title}\n`;
+  const extension = EXTENSION_BY_CONTENT_TYPE[contentType.split(';')[0]] ?? 'bin';
+  return {
+    kind: 'document',
+    sourceId: sourceIdFor(resource, 'document', markdown + (data ?? attachment.url ?? ''), date),
+    title,
+    date,
+    provider: referenceDisplay(author),
+    npi: referenceNpi(author),
+    markdown: data ? markdown : `${markdown}\nAvailable from the source system: ${attachment.url ?? 'no link provided'}\n`,
+    ...(data
+      ? { attachments: [{ filename: `document.${extension}`, contentType, data: b64decode(data) }] }
+      : {}),
+  };
+}
+
+// --- Public API ---
+
+/**
+ * Whether parsed JSON looks like FHIR (a Bundle or any resource).
+ */
+export function isFhirJson(json: unknown): boolean {
+  return !!json && typeof json === 'object' && typeof (json as Json).resourceType === 'string';
+}
+
+/**
+ * Map a FHIR Bundle (any type) or a single resource to importable records.
+ * Observations referenced by a DiagnosticReport fold into that report;
+ * stray lab Observations are grouped per day. Patient resources are skipped.
+ */
+export function recordsFromFhir(json: unknown): ImportedRecord[] {
+  if (!isFhirJson(json)) throw new Error('Not a FHIR resource');
+  const root = json as Json;
+  const entries: { fullUrl?: string; resource: Json }[] = root.resourceType === 'Bundle'
+    ? (root.entry ?? []).filter((entry: Json) => entry?.resource).map((entry: Json) => ({
+      fullUrl: entry.fullUrl,
+      resource: entry.resource,
+    }))
+    : [{ resource: root }];
+
+  const index = new ResourceIndex(entries);
+  const resources = entries.map((entry) => entry.resource);
+  const consumed = new Set<Json>();
+
+  // Resources folded into another record.
+  for (const report of resources.filter((r) => r.resourceType === 'DiagnosticReport')) {
+    for (const ref of report.result ?? []) {
+      const observation = index.resolve(ref);
+      if (observation) consumed.add(observation);
+    }
+  }
+  const notesByEncounter = new Map<Json, Json[]>();
+  for (const doc of resources.filter((r) => r.resourceType === 'DocumentReference')) {
+    const encounter = index.resolve(doc.context?.encounter?.[0]);
+    if (!encounter) continue;
+    consumed.add(doc);
+    notesByEncounter.set(encounter, [...(notesByEncounter.get(encounter) ?? []), doc]);
+  }
+
+  const records: ImportedRecord[] = [];
+  const strayObservations = new Map<string, Json[]>();
+
+  for (const resource of resources) {
+    if (consumed.has(resource)) continue;
+    let record: ImportedRecord | null = null;
+
+    switch (resource.resourceType) {
+      case 'MedicationStatement':
+      case 'MedicationRequest':
+        record = medicationRecord(resource, index);
+        break;
+      case 'DiagnosticReport': {
+        const observations = (resource.result ?? [])
+          .map((ref: Json) => index.resolve(ref))
+          .filter(Boolean);
+        record = labRecord(
+          resource,
+          conceptText(resource.code) ?? 'Lab Result',
+          observations,
+          normalizeClinicalDate(resource.effectiveDateTime ?? resource.issued),
+          resource.conclusion,
+        );
+        break;
+      }
+      case 'Observation': {
+        const day = normalizeClinicalDate(resource.effectiveDateTime ?? resource.issued) ?? 'undated';
+        strayObservations.set(day, [...(strayObservations.get(day) ?? []), resource]);
+        break;
+      }
+      case 'Encounter':
+        record = encounterRecord(resource, notesByEncounter.get(resource) ?? []);
+        break;
+      case 'AllergyIntolerance':
+        record = allergyRecord(resource);
+        break;
+      case 'Immunization':
+        record = immunizationRecord(resource);
+        break;
+      case 'Condition':
+        record = conditionRecord(resource);
+        break;
+      case 'Procedure':
+        record = procedureRecord(resource);
+        break;
+      case 'DocumentReference':
+        record = documentRecord(resource, index);
+        break;
+      default:
+        break;
+    }
+
+    if (record) records.push(record);
+  }
+
+  for (const [day, observations] of strayObservations) {
+    const date = day === 'undated' ? undefined : day;
+    const title = date ? `Lab Results — ${date}` : 'Lab Results';
+    // Group identity: the observations' own ids, so the group re-imports as one entry.
+    const groupResource = {
+      resourceType: 'Observation',
+      id: observations.map((observation) => observation.id ?? '').join(','),
+    };
+    const record = labRecord(
+      observations.every((observation) => observation.id) ? groupResource : {},
+      title,
+      observations,
+      date,
+    );
+    if (record) records.push(record);
+  }
+
+  return records;
+}
@@ -0,0 +1,269 @@
+// core/fhir/import.ts
+// Import FHIR R4 JSON or C-CDA XML into a binder.
+// Records are filed into their category folders (preferring the folder the
+// binder already uses, e.g. 'my-info/allergies'), dated by their clinical
+// date, and tagged with metadata.importSource so re-importing the same file
+// only adds what is new. Portal harvesting (core/portal/harvest.ts) files
+// its records through the same path.
+
+import type { BinderService, PendingSidecarWrite } from '../binder/BinderService';
+import { getCategory } from '../binder/categories';
+import { slugify } from '../binder/FileNaming';
+import { encode as b64encode } from '../crypto/base64';
+import { parseAllergyEntry } from '../markdown/allergyEntry';
+import { parseImmunizationEntry } from '../markdown/immunizationEntry';
+import { parseLabResultEntry } from '../markdown/labResultEntry';
+import { parseMedicationEntry } from '../markdown/medicationEntry';
+import { parseVisitEntry } from '../markdown/visitEntry';
+import type { MedicalDocument } from '../../types/document';
+import { LIMBO_ENTRY_IDENTIFIER_SYSTEM } from './export';
+import { isCcdaXml, recordsFromCcda } from './fromCcda';
+import { isFhirJson, recordsFromFhir } from './fromFhir';
+import type { ImportedRecord, ImportedRecordKind } from './records';
+
+export type HealthRecordFormat = 'fhir' | 'ccda';
+
+export interface ImportOptions {
+  /** Entries exported from this binder (Limbo identifiers) are skipped when still present. */
+  binderId?: string;
+  onProgress?: (done: number, total: number) => void;
+}
+
+export interface ImportSummary {
+  imported: number;
+  /** Already in the binder (same importSource) or duplicated within the file. */
+  skipped: number;
+  failed: { title: string; error: string }[];
+  paths: string[];
+}
+
+const CATEGORY_BY_KIND: Record<ImportedRecordKind, string> = {
+  medication: 'medications',
+  lab: 'labs',
+  visit: 'visits',
+  allergy: 'allergies',
+  immunization: 'immunizations',
+  condition: 'conditions',
+  procedure: 'procedures',
+  document: 'documents',
+};
+
+const DOCUMENT_TYPE_BY_KIND: Record<ImportedRecordKind, string> = {
+  medication: 'medication',
+  lab: 'lab',
+  visit: 'visit',
+  allergy: 'allergy',
+  immunization: 'immunization',
+  condition: 'condition',
+  procedure: 'procedure',
+  document: 'note',
+};
+
+interface StructuredComponents {
+  renderer: string;
+  editor: string;
+  /** Free-text notes (e.g. a linked clinical note) stay plain markdown. */
+  parses: (markdown: string) => boolean;
+}
+
+const COMPONENTS_BY_KIND: Partial<Record<ImportedRecordKind, StructuredComponents>> = {
+  medication: {
+    renderer: 'MedicationSummary',
+    editor: 'MedicationForm',
+    parses: (markdown) => parseMedicationEntry(markdown).isMedicationEntry,
+  },
+  lab: {
+    renderer: 'LabResultSummary',
+    editor: 'LabResultForm',
+    parses: (markdown) => parseLabResultEntry(markdown).isLabResultEntry,
+  },
+  allergy: {
+    renderer: 'AllergySummary',
+    editor: 'AllergyForm',
+    parses: (markdown) => parseAllergyEntry(markdown).isAllergyEntry,
+  },
+  immunization: {
+    renderer: 'ImmunizationSummary',
+    editor: 'ImmunizationForm',
+    parses: (markdown) => parseImmunizationEntry(markdown).isImmunizationEntry,
+  },
+  visit: {
+    renderer: 'VisitNoteSummary',
+    editor: 'VisitNoteForm',
+    parses: (markdown) => parseVisitEntry(markdown).isVisitEntry,
+  },
+};
+
+// --- Parsing ---
+
+export function detectHealthRecordFormat(text: string): HealthRecordFormat | null {
+  const trimmed = text.trimStart();
+  if (trimmed.startsWith('{')) {
+    try {
+      return isFhirJson(JSON.parse(trimmed)) ? 'fhir' : null;
+    } catch {
+      return null;
+    }
+  }
+  return trimmed.startsWith('<') && isCcdaXml(trimmed) ? 'ccda' : null;
+}
+
+/**
+ * Parse a FHIR JSON or C-CDA XML file into importable records.
+ * Throws when the file is neither.
+ */
+export function parseHealthRecordFile(text: string): ImportedRecord[] {
+  switch (detectHealthRecordFormat(text)) {
+    case 'fhir':
+      return recordsFromFhir(JSON.parse(text));
+    case 'ccda':
+      return recordsFromCcda(text);
+    default:
+      throw new Error('Unrecognized file. Choose a FHIR JSON bundle or a C-CDA XML document.');
+  }
+}
+
+// --- Document building ---
+
+function createdFor(record: ImportedRecord): string {
+  if (!record.date) return new Date().toISOString();
+  const parsed = new Date(record.date.length === 10 ? `${record.date}T12:00:00.000Z` : record.date);
+  return Number.isNaN(parsed.getTime()) ? new Date().toISOString() : parsed.toISOString();
+}
+
+function fileDate(record: ImportedRecord): Date | undefined {
+  return record.date ? new Date(createdFor(record)) : undefined;
+}
+
+function sidecarName(record: ImportedRecord, filename: string): string {
+  const dot = filename.indexOf('.');
+  const ext = dot >= 0 ? filename.slice(dot) : '';
+  const prefix = createdFor(record).slice(0, 10);
+  return `${prefix}-${slugify(record.title)}${ext}.enc`;
+}
+
+/**
+ * The binder document for an imported record. Attachment children point at
+ * the sidecar names handed to addEntryWithSidecars.
+ */
+export function buildImportedDocument(
+  record: ImportedRecord,
+  conditionSlug?: string,
+): { doc: MedicalDocument; sidecars: PendingSidecarWrite[] } {
+  const created = createdFor(record);
+  const sidecars: PendingSidecarWrite[] = (record.attachments ?? []).map((attachment) => ({
+    sidecarFilename: sidecarName(record, attachment.filename),
+    base64Data: b64encode(attachment.data),
+  }));
+
+  const components = COMPONENTS_BY_KIND[record.kind];
+  const doc: MedicalDocument = {
+    value: record.markdown,
+    metadata: {
+      type: DOCUMENT_TYPE_BY_KIND[record.kind],
+      created,
+      ...(record.provider ? { provider: record.provider } : {}),
+      ...(record.npi ? { npi: record.npi } : {}),
+      ...(conditionSlug ? { condition: conditionSlug } : {}),
+      ...(record.sourceUrl ? { sourceUrl: record.sourceUrl } : {}),
+      ...(record.portalFamily ? { portalFamily: record.portalFamily } : {}),
+      importSource: record.sourceId,
+    },
+    children: (record.attachments ?? []).map((attachment, index) => ({
+      value: sidecars[index].sidecarFilename,
+      metadata: {
+        type: 'attachment_ref',
+        created,
+        format: attachment.filename.split('.').pop() ?? 'bin',
+        encoding: 'base64',
+        originalSizeBytes: attachment.data.byteLength,
+      },
+      children: [],
+    })),
+    ...(components?.parses(record.markdown)
+      ? { renderer: components.renderer, editor: components.editor }
+      : {}),
+  };
+  return { doc, sidecars };
+}
+
+// --- Import ---
+
+/** Existing folder for a category (default layout alias first), else the canonical one. */
+function resolveCategoryFolder(slug: string, folders: Set<string>): string {
+  const category = getCategory(slug);
+  if (!category) return slug;
+  const candidates = [...(category.folderAliases ?? []), category.folder];
+  return candidates.find((folder) => folders.has(folder)) ?? category.folder;
+}
+
+/**
+ * Write records into the binder one entry at a time, skipping any whose
+ * source id is already present. Failures are collected, not thrown, so one
+ * bad record doesn't abandon the rest of the file.
+ */
+export async function importRecordsIntoBinder(
+  service: BinderService,
+  records: ImportedRecord[],
+  options: ImportOptions = {},
+): Promise<ImportSummary> {
+  const summary: ImportSummary = { imported: 0, skipped: 0, failed: [], paths: [] };
+  const files = await service.listAllFiles();
+  const fileSet = new Set(files);
+  const folders = new Set(
+    files.flatMap((file) => {
+      const parts = file.split('/').slice(0, -1);
+      return parts.map((_, index) => parts.slice(0, index + 1).join('/'));
+    }),
+  );
+  const seen = new Set(
+    (await service.listEntries())
+      .map((entry) => entry.importSource)
+      .filter((source): source is string => !!source),
+  );
+  const ownPrefix = options.binderId ? `${LIMBO_ENTRY_IDENTIFIER_SYSTEM}|${options.binderId}/` : null;
+
+  for (const [index, record] of records.entries()) {
+    options.onProgress?.(index, records.length);
+
+    const ownPath = ownPrefix && record.sourceId.startsWith(ownPrefix)
+      ? record.sourceId.slice(ownPrefix.length)
+      : null;
+    if (seen.has(record.sourceId) || (ownPath && fileSet.has(ownPath))) {
+      summary.skipped += 1;
+      continue;
+    }
+    seen.add(record.sourceId);
+
+    try {
+      let folder = resolveCategoryFolder(CATEGORY_BY_KIND[record.kind], folders);
+      let conditionSlug: string | undefined;
+      if (record.kind === 'condition') {
+        conditionSlug = slugify(record.title);
+        folder = `${folder}/${conditionSlug}`;
+        await service.ensureFolder(folder, record.title, getCategory('conditions')?.emoji ?? '📁');
+      } else if (!folders.has(folder)) {
+        const category = getCategory(CATEGORY_BY_KIND[record.kind]);
+        await service.ensureFolder(folder, category?.label ?? folder, category?.emoji ?? '📁');
+      }
+      folders.add(folder);
+
+      const { doc, sidecars } = buildImportedDocument(record, conditionSlug);
+      const slug = record.kind === 'condition' ? 'overview' : slugify(record.title);
+      const path = sidecars.length > 0
+        ? await service.addEntryWithSidecars(folder, slug, doc, sidecars, fileDate(record))
+        : await service.addEntry(folder, slug, doc, fileDate(record));
+      summary.imported += 1;
+      summary.paths.push(path);
+    } catch (err) {
+      // Failed pushes don't land here: BinderService queues them (PushQueue).
+      summary.failed.push({
+        title: record.title,
+        error: err instanceof Error ? err.message : String(err),
+      });
+    }
+  }
+
+  options.onProgress?.(records.length, records.length);
+  return summary;
+}
@@ -0,0 +1,149 @@
+// core/fhir/records.ts
+// Format-neutral records produced by the FHIR and C-CDA parsers, and the
+// markdown each one becomes in a binder. Categories with a structured editor
+// use that editor's markdown builder (core/markdown) so imported entries open
+// in it; the rest mirror the binder's own templates (DocumentModel).
+
+import { sha256 } from '@noble/hashes/sha2.js';
+import { bytesToHex } from '@noble/hashes/utils.js';
+import type { LabResultFlag } from '../markdown/labResultEntry';
+import { buildMedicationMarkdown } from '../markdown/medicationEntry';
+
+// --- Types ---
+
+export type ImportedRecordKind =
+  | 'medication'
+  | 'lab'
+  | 'visit'
+  | 'allergy'
+  | 'immunization'
+  | 'condition'
+  | 'procedure'
+  | 'document';
+
+export interface ImportedAttachment {
+  /** e.g. 'discharge-summary.pdf' — becomes '<entry>.pdf.enc' in the binder. */
+  filename: string;
+  contentType: string;
+  data: Uint8Array;
+}
+
+export interface ImportedRecord {
+  kind: ImportedRecordKind;
+  /**
+   * Stable identity of the source record (system|value, resource id, or a
+   * content hash). Stored as metadata.importSource to skip re-imports.
+   */
+  sourceId: string;
+  title: string;
+  /** Clinical date (YYYY-MM-DD or ISO datetime) the entry is filed under. */
+  date?: string;
+  provider?: string;
+  npi?: string;
+  /** Where a record harvested from a patient portal was found. */
+  sourceUrl?: string;
+  portalFamily?: string;
+  markdown: string;
+  attachments?: ImportedAttachment[];
+}
+
+/** HL7 v3 ObservationInterpretation codes (FHIR and C-CDA share them) → lab flags. */
+export const INTERPRETATION_FLAGS: Record<string, LabResultFlag> = {
+  H: 'high',
+  L: 'low',
+  A: 'abnormal',
+  AA: 'critical',
+  HH: 'critical',
+  LL: 'critical',
+};
+
+// --- Identity ---
+
+/** Fallback identity when the source carries no id: hash of kind + content. */
+export function contentSourceId(kind: ImportedRecordKind, markdown: string, date?: string): string {
+  const digest = bytesToHex(sha256(new TextEncoder().encode(`${kind}\n${date ?? ''}\n${markdown}`)));
+  return `sha256:${digest.slice(0, 32)}`;
+}
+
+/**
+ * Convert HL7 v3 timestamps ('20260115103000-0500') and FHIR date/dateTime
+ * values to YYYY-MM-DD. Returns undefined when the value has no full date.
+ */
+export function normalizeClinicalDate(value: string | undefined): string | undefined {
+  if (!value) return undefined;
+  const trimmed = value.trim();
+  const iso = trimmed.match(/^(\d{4})-(\d{2})-(\d{2})/);
+  if (iso) return `${iso[1]}-${iso[2]}-${iso[3]}`;
+  const hl7 = trimmed.match(/^(\d{4})(\d{2})(\d{2})/);
+  if (hl7) return `${hl7[1]}-${hl7[2]}-${hl7[3]}`;
+  return undefined;
+}
+
+// --- Markdown builders ---
+
+function section(heading: string, body?: string): string[] {
+  return [`## ${heading}`, '', ...(body?.trim() ? [body.trim(), ''] : [])];
+}
+
+function listLines(fields: [string, string | undefined][]): string[] {
+  return fields
+    .filter((field): field is [string, string] => !!field[1]?.trim())
+    .map(([label, value]) => `- ${label}: ${value.trim()}`);
+}
+
+function join(lines: string[]): string {
+  return lines.join('\n').replace(/\n{3,}/g, '\n\n').trimEnd() + '\n';
+}
+
+export function buildImportedMedicationMarkdown(fields: {
+  name: string;
+  dosage?: string;
+  frequency?: string;
+  startDate?: string;
+  stopDate?: string;
+}): string {
+  // parseMedicationEntry needs both dosage and frequency to recognize the entry.
+  return buildMedicationMarkdown({
+    name: fields.name,
+    dosage: fields.dosage?.trim() || 'See instructions',
+    frequency: fields.frequency?.trim() || 'As directed',
+    startDate: fields.startDate ?? '',
+    stopDate: fields.stopDate,
+  });
+}
+
+export function buildConditionMarkdown(fields: {
+  name: string;
+  onset?: string;
+  status?: string;
+  notes?: string;
+}): string {
+  return join([
+    `# ${fields.name}`,
+    '',
+    ...listLines([
+      ['Onset', fields.onset],
+      ['Status', fields.status],
+    ]),
+    '',
+    fields.notes?.trim() || 'Ongoing condition tracking.',
+  ]);
+}
+
+export function buildProcedureMarkdown(fields: {
+  name: string;
+  date?: string;
+  status?: string;
+  notes?: string;
+}): string {
+  return join([
+    `# ${fields.name}`,
+    '',
+    ...listLines([
+      ['Date', fields.date],
+      ['Status', fields.status],
+    ]),
+    '',
+    ...(fields.notes ? section('Notes', fields.notes) : []),
+  ]);
+}
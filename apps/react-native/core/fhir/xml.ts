@@ -0,0 +1,167 @@
+// core/fhir/xml.ts
+// Minimal, dependency-free XML reader for C-CDA documents.
+// Hermes has no DOMParser; C-CDA only needs elements, attributes, text,
+// CDATA and the predefined/numeric entities, so that is all this handles.
+// Namespace prefixes are stripped from element and attribute names.
+
+export interface XmlElement {
+  name: string;
+  attributes: Record<string, string>;
+  children: XmlElement[];
+  /** Concatenated direct text content (not descendants). */
+  text: string;
+}
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: ' ',
+};
+
+function decodeEntities(value: string): string {
+  return value.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (match, entity: string) => {
+    if (entity[0] === '#') {
+      const code = entity[1].toLowerCase() === 'x'
+        ? parseInt(entity.slice(2), 16)
+        : parseInt(entity.slice(1), 10);
+      return Number.isFinite(code) ? String.fromCodePoint(code) : match;
+    }
+    return NAMED_ENTITIES[entity.toLowerCase()] ?? match;
+  });
+}
+
+function localName(name: string): string {
+  const colon = name.indexOf(':');
+  return colon === -1 ? name : name.slice(colon + 1);
+}
+
+/**
+ * Parse an XML string into an element tree. Throws on unbalanced tags.
+ */
+export function parseXml(source: string): XmlElement {
+  const root: XmlElement = { name: '#document', attributes: {}, children: [], text: '' };
+  const stack: XmlElement[] = [root];
+  let index = 0;
+
+  const appendText = (text: string) => {
+    if (text) stack[stack.length - 1].text += text;
+  };
+
+  while (index < source.length) {
+    const lt = source.indexOf('<', index);
+    if (lt === -1) {
+      appendText(decodeEntities(source.slice(index)));
+      break;
+    }
+    appendText(decodeEntities(source.slice(index, lt)));
+
+    if (source.startsWith('<!--', lt)) {
+      const end = source.indexOf('-->', lt + 4);
+      index = end === -1 ? source.length : end + 3;
+      continue;
+    }
+    if (source.startsWith('<![CDATA[', lt)) {
+      const end = source.indexOf(']]>', lt + 9);
+      appendText(source.slice(lt + 9, end === -1 ? source.length : end));
+      index = end === -1 ? source.length : end + 3;
+      continue;
+    }
+    if (source.startsWith('<?', lt) || source.startsWith('<!', lt)) {
+      const end = source.indexOf('>', lt);
+      index = end === -1 ? source.length : end + 1;
+      continue;
+    }
+
+    const gt = source.indexOf('>', lt);
+    if (gt === -1) throw new Error('Malformed XML: unterminated tag');
+    const raw = source.slice(lt + 1, gt);
+    index = gt + 1;
+
+    if (raw.startsWith('/')) {
+      const name = localName(raw.slice(1).trim());
+      const open = stack.pop();
+      if (!open || open === root || open.name !== name) {
+        throw new Error(`Malformed XML: unexpected </${name}>`);
+      }
+      continue;
+    }
+
+    const selfClosing = raw.endsWith('/');
+    const body = selfClosing ? raw.slice(0, -1) : raw;
+    const nameMatch = body.match(/^\s*([^\s/>]+)/);
+    if (!nameMatch) throw new Error('Malformed XML: missing element name');
+
+    const element: XmlElement = {
+      name: localName(nameMatch[1]),
+      attributes: {},
+      children: [],
+      text: '',
+    };
+    const attrPattern = /([^\s=]+)\s*=\s*("([^"]*)"|'([^']*)')/g;
+    let attr: RegExpExecArray | null;
+    const attrSource = body.slice(nameMatch[0].length);
+    while ((attr = attrPattern.exec(attrSource)) !== null) {
+      element.attributes[localName(attr[1])] = decodeEntities(attr[3] ?? attr[4] ?? '');
+    }
+
+    stack[stack.length - 1].children.push(element);
+    if (!selfClosing) stack.push(element);
+  }
+
+  if (stack.length !== 1) {
+    throw new Error(`Malformed XML: <${stack[stack.length - 1].name}> is never closed`);
+  }
+  const [documentElement] = root.children;
+  if (!documentElement) throw new Error('Malformed XML: no root element');
+  return documentElement;
+}
+
+// --- Query helpers ---
+
+export function childElements(element: XmlElement | undefined, name: string): XmlElement[] {
+  return element ? element.children.filter((child) => child.name === name) : [];
+}
+
+export function childElement(element: XmlElement | undefined, name: string): XmlElement | undefined {
+  return element?.children.find((child) => child.name === name);
+}
+
+/**
+ * Follow a path of child element names, e.g. path(entry, 'act', 'entryRelationship').
+ */
+export function pathElement(element: XmlElement | undefined, ...names: string[]): XmlElement | undefined {
+  let current = element;
+  for (const name of names) {
+    current = childElement(current, name);
+    if (!current) return undefined;
+  }
+  return current;
+}
+
+/** Every descendant (depth-first, document order) with the given name. */
+export function descendants(element: XmlElement | undefined, name: string): XmlElement[] {
+  const found: XmlElement[] = [];
+  const visit = (node: XmlElement) => {
+    for (const child of node.children) {
+      if (child.name === name) found.push(child);
+      visit(child);
+    }
+  };
+  if (element) visit(element);
+  return found;
+}
+
+/** All text within an element and its descendants, whitespace-collapsed. */
+export function textContent(element: XmlElement | undefined): string {
+  if (!element) return '';
+  const parts: string[] = [];
+  const visit = (node: XmlElement) => {
+    parts.push(node.text);
+    node.children.forEach(visit);
+  };
+  visit(element);
+  return parts.join(' ').replace(/\s+/g, ' ').trim();
+}
@@ -22,8 +22,19 @@ export interface CommitInfo {
 export interface PullOptions {
   fastForwardOnly?: boolean;
   mergeDriver?: MergeDriverCallback;
+  /** Build the merge driver from the fetched remote tip, e.g. to read its keys. Wins over `mergeDriver`. */
+  mergeDriverFor?: (fetchHead: string) => Promise<MergeDriverCallback>;
 }
 
+export interface RemoteComparison {
+  ahead: number;
+  behind: number;
+  remoteExists: boolean;
+}
+
+/** Commits walked per side when counting ahead/behind; counts are capped here. */
+const COMPARE_DEPTH = 200;
+
 // --- Author ---
 
 export interface GitAuthor {
@@ -104,7 +115,7 @@ export class GitEngine {
 
     // isomorphic-git `pull` currently does not expose `mergeDriver`,
     // so use fetch+merge+checkout when a custom merge driver is needed.
-    if (options?.mergeDriver) {
+    if (options?.mergeDriver || options?.mergeDriverFor) {
       const branch = await git.currentBranch({ fs, dir: '/' });
       if (!branch) {
         throw new Error('Cannot pull with merge driver: HEAD is detached.');
@@ -120,6 +131,9 @@ export class GitEngine {
       });
 
       if (!fetchHead) return;
+      const mergeDriver = options.mergeDriverFor
+        ? await options.mergeDriverFor(fetchHead)
+        : options.mergeDriver;
 
       await git.merge({
         fs,
@@ -129,7 +143,7 @@ export class GitEngine {
         message: `Merge ${fetchHeadDescription ?? fetchHead}`,
         author: commitAuthor,
         fastForwardOnly: options.fastForwardOnly ?? false,
-        mergeDriver: options.mergeDriver,
+        mergeDriver,
       });
 
       await git.checkout({
@@ -152,6 +166,87 @@ export class GitEngine {
     });
   }
 
+  /**
+   * Fetch the remote branch (without merging) and count commits on each side
+   * of the merge base. `remoteExists` is false before the first push.
+   */
+  static async compareWithRemote(
+    repoDir: string,
+    repoId: string,
+    auth: AuthConfig,
+  ): Promise<RemoteComparison> {
+    const fs = createFSAdapter(repoDir);
+    const http = createHttpTransport(auth);
+    const dir = '/';
+
+    const branch = await git.currentBranch({ fs, dir });
+    if (!branch) {
+      throw new Error('Cannot compare with remote: HEAD is detached.');
+    }
+
+    const local = await git.resolveRef({ fs, dir, ref: 'HEAD' });
+    const { fetchHead } = await git.fetch({
+      fs,
+      http,
+      dir,
+      url: gitRepoUrl(repoId),
+      ref: branch,
+      singleBranch: true,
+    });
+
+    const countUntil = async (ref: string, stopOid: string | null) => {
+      const commits = await git.log({ fs, dir, ref, depth: COMPARE_DEPTH });
+      const index = stopOid ? commits.findIndex((entry) => entry.oid === stopOid) : -1;
+      return index === -1 ? commits.length : index;
+    };
+
+    if (!fetchHead) {
+      return { ahead: await countUntil(local, null), behind: 0, remoteExists: false };
+    }
+    if (fetchHead === local) {
+      return { ahead: 0, behind: 0, remoteExists: true };
+    }
+
+    const [base] = (await git.findMergeBase({ fs, dir, oids: [local, fetchHead] })) as string[];
+    return {
+      ahead: await countUntil(local, base ?? null),
+      behind: await countUntil(fetchHead, base ?? null),
+      remoteExists: true,
+    };
+  }
+
+  /**
+   * Fetch the remote branch and move the local branch and working tree to
+   * it, dropping local commits the remote doesn't have.
+   */
+  static async resetToRemote(
+    repoDir: string,
+    repoId: string,
+    auth: AuthConfig,
+  ): Promise<void> {
+    const fs = createFSAdapter(repoDir);
+    const http = createHttpTransport(auth);
+    const dir = '/';
+
+    const branch = await git.currentBranch({ fs, dir });
+    if (!branch) {
+      throw new Error('Cannot reset to remote: HEAD is detached.');
+    }
+
+    const { fetchHead } = await git.fetch({
+      fs,
+      http,
+      dir,
+      url: gitRepoUrl(repoId),
+      ref: branch,
+      singleBranch: true,
+    });
+    if (!fetchHead) return;
+
+    await git.writeRef({ fs, dir, ref: `refs/heads/${branch}`, value: fetchHead, force: true });
+    await git.checkout({ fs, dir, ref: branch, force: true });
+  }
+
   /**
    * Push local commits to the remote. Supports push-to-create.
    */
@@ -200,18 +295,22 @@ export class GitEngine {
   }
 
   /**
-   * Get commit history.
+   * Get commit history. When filepath is given (a file or folder relative to
+   * repo root), only commits that changed that path are returned.
    */
   static async log(
     repoDir: string,
     depth?: number,
+    filepath?: string,
   ): Promise<CommitInfo[]> {
     const fs = createFSAdapter(repoDir);
+    const relative = filepath?.replace(/^\/+|\/+$/g, '');
 
     const commits = await git.log({
       fs,
       dir: '/',
       depth: depth ?? 50,
+      ...(relative ? { filepath: relative, force: true } : {}),
     });
 
     return commits.map((entry) => ({
@@ -226,16 +325,51 @@ export class GitEngine {
   }
 
   /**
-   * List all tracked files in the working tree.
+   * Resolve the commit OID that HEAD points to, or null for an empty repo.
+   */
+  static async resolveHead(repoDir: string): Promise<string | null> {
+    const fs = createFSAdapter(repoDir);
+    try {
+      return await git.resolveRef({ fs, dir: '/', ref: 'HEAD' });
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Read the parent OIDs of a commit.
+   */
+  static async readCommitParents(repoDir: string, oid: string): Promise<string[]> {
+    const fs = createFSAdapter(repoDir);
+    const { commit } = await git.readCommit({ fs, dir: '/', oid });
+    return commit.parent;
+  }
+
+  /**
+   * Read the raw (still encrypted) contents of a file as it was at a commit.
+   */
+  static async readFileAtCommit(
+    repoDir: string,
+    oid: string,
+    filepath: string,
+  ): Promise<Uint8Array> {
+    const fs = createFSAdapter(repoDir);
+    const relative = filepath.startsWith('/') ? filepath.slice(1) : filepath;
+    const { blob } = await git.readBlob({ fs, dir: '/', oid, filepath: relative });
+    return blob;
+  }
+
+  /**
+   * List all tracked files in the working tree, or at a given commit.
    * Returns paths relative to repo root (e.g., 'conditions/back-acne/photo.json').
    */
-  static async listFiles(repoDir: string): Promise<string[]> {
+  static async listFiles(repoDir: string, ref: string = 'HEAD'): Promise<string[]> {
     const fs = createFSAdapter(repoDir);
 
     return await git.listFiles({
       fs,
       dir: '/',
-      ref: 'HEAD',
+      ref,
     });
   }
 
@@ -283,6 +417,17 @@ export class GitEngine {
     return oid;
   }
 
+  /**
+   * Tracked files whose working-tree content differs from HEAD.
+   */
+  static async listModifiedFiles(repoDir: string): Promise<string[]> {
+    const fs = createFSAdapter(repoDir);
+    const matrix = await git.statusMatrix({ fs, dir: '/' });
+    return matrix
+      .filter(([, head, workdir]) => head === 1 && workdir === 2)
+      .map(([filepath]) => filepath);
+  }
+
   /**
    * Stage all files in the working tree (like `git add .`).
    * Useful for the staging repo in the scan flow.
@@ -0,0 +1,198 @@
+// core/labs/trends.ts
+// Aggregate lab result entries into per-analyte time series. Each entry's
+// `## Results` rows (see core/markdown/labResultEntry.ts) become points,
+// converted into one unit per analyte, with reference ranges as bands.
+
+import type { MedicalDocument } from '../../types/document';
+import { parseLabResultEntry, type LabResultFlag } from '../markdown/labResultEntry';
+import { analyteKey, convertValue, findAnalyte, normalizeUnit } from './units';
+
+export interface LabTrendSource {
+  path: string;
+  doc: MedicalDocument;
+}
+
+export interface ReferenceBand {
+  low?: number;
+  high?: number;
+}
+
+export interface LabTrendPoint {
+  /** YYYY-MM-DD the result was collected (the entry's created date). */
+  date: string;
+  /** Value in the series unit. */
+  value: number;
+  /** Value and unit as recorded, e.g. '5.4 mmol/L'. */
+  recorded: string;
+  band?: ReferenceBand;
+  flag?: LabResultFlag;
+  outOfRange: boolean;
+  /** Entry the point came from. */
+  path: string;
+  title: string;
+}
+
+export interface LabTrendSeries {
+  key: string;
+  label: string;
+  unit: string;
+  /** Oldest first. */
+  points: LabTrendPoint[];
+  /** The most recent reference band, drawn behind the chart. */
+  band?: ReferenceBand;
+  /** Results that couldn't be charted (non-numeric, or a unit with no conversion). */
+  skipped: number;
+}
+
+const NUMBER = '-?\\d+(?:\\.\\d+)?';
+
+/** Leading number of a recorded value: '5.4' → 5.4, '<0.1' → 0.1, 'Negative' → null. */
+function numericValue(value: string): number | null {
+  const match = value.trim().match(new RegExp(`^[<>]?=?\\s*(${NUMBER})`));
+  return match ? Number(match[1]) : null;
+}
+
+/**
+ * Parse a display reference range: '70-99', '3.5 - 5.1', '<100', '>= 40',
+ * '≤5.6'. Returns null when it has no numbers.
+ */
+export function parseReferenceRange(range: string | undefined): ReferenceBand | null {
+  if (!range) return null;
+  const text = range.replace(/≤/g, '<=').replace(/≥/g, '>=').replace(/[–—]/g, '-').trim();
+
+  const between = text.match(new RegExp(`^(${NUMBER})\\s*(?:-|to)\\s*(${NUMBER})`, 'i'));
+  if (between) return { low: Number(between[1]), high: Number(between[2]) };
+
+  const upper = text.match(new RegExp(`^<=?\\s*(${NUMBER})`));
+  if (upper) return { high: Number(upper[1]) };
+
+  const lower = text.match(new RegExp(`^>=?\\s*(${NUMBER})`));
+  if (lower) return { low: Number(lower[1]) };
+
+  return null;
+}
+
+function convertBand(
+  band: ReferenceBand | null,
+  convert: (value: number) => number | null,
+): ReferenceBand | undefined {
+  if (!band) return undefined;
+  const low = band.low === undefined ? null : convert(band.low);
+  const high = band.high === undefined ? null : convert(band.high);
+  if (low === null && high === null) return undefined;
+  return {
+    ...(low !== null ? { low } : {}),
+    ...(high !== null ? { high } : {}),
+  };
+}
+
+export function isOutsideBand(value: number, band: ReferenceBand | undefined): boolean {
+  if (!band) return false;
+  return (band.low !== undefined && value < band.low) || (band.high !== undefined && value > band.high);
+}
+
+interface RawPoint {
+  analyte: string;
+  value: number;
+  unit: string;
+  recorded: string;
+  range: ReferenceBand | null;
+  flag?: LabResultFlag;
+  date: string;
+  path: string;
+  title: string;
+}
+
+/** The series unit: the known analyte's unit, else the most common one recorded. */
+function seriesUnit(raws: RawPoint[]): string {
+  const known = findAnalyte(raws[0].analyte);
+  if (known) return known.unit;
+  const counts = new Map<string, number>();
+  for (const raw of raws) counts.set(raw.unit, (counts.get(raw.unit) ?? 0) + 1);
+  return [...counts.entries()].sort((a, b) => b[1] - a[1])[0]?.[0] ?? '';
+}
+
+/**
+ * Build one series per analyte across all the given entries. Entries that
+ * aren't lab results are ignored.
+ */
+export function buildLabTrends(sources: LabTrendSource[]): LabTrendSeries[] {
+  const byKey = new Map<string, { raws: RawPoint[]; skipped: number }>();
+  const bucket = (key: string) => {
+    const existing = byKey.get(key);
+    if (existing) return existing;
+    const created = { raws: [] as RawPoint[], skipped: 0 };
+    byKey.set(key, created);
+    return created;
+  };
+
+  for (const { path, doc } of sources) {
+    const { isLabResultEntry, fields } = parseLabResultEntry(doc.value);
+    if (!isLabResultEntry || !fields) continue;
+    const date = doc.metadata.created.slice(0, 10);
+
+    for (const row of fields.results) {
+      const key = analyteKey(row.analyte);
+      if (!key) continue;
+      const value = numericValue(row.value);
+      if (value === null) {
+        bucket(key).skipped += 1;
+        continue;
+      }
+      bucket(key).raws.push({
+        analyte: row.analyte,
+        value,
+        unit: normalizeUnit(row.unit),
+        recorded: [row.value, row.unit].filter(Boolean).join(' '),
+        range: parseReferenceRange(row.referenceRange),
+        flag: row.flag,
+        date,
+        path,
+        title: fields.title,
+      });
+    }
+  }
+
+  const series: LabTrendSeries[] = [];
+  for (const [key, { raws, skipped }] of byKey) {
+    if (raws.length === 0) continue;
+    const unit = seriesUnit(raws);
+    const analyte = findAnalyte(raws[0].analyte);
+    const points: LabTrendPoint[] = [];
+    let unconvertible = 0;
+
+    for (const raw of raws) {
+      const convert = (value: number) => convertValue(value, raw.unit || unit, unit, analyte);
+      const value = convert(raw.value);
+      if (value === null) {
+        unconvertible += 1;
+        continue;
+      }
+      const band = convertBand(raw.range, convert);
+      points.push({
+        date: raw.date,
+        value,
+        recorded: raw.recorded,
+        ...(band ? { band } : {}),
+        ...(raw.flag ? { flag: raw.flag } : {}),
+        outOfRange: !!raw.flag || isOutsideBand(value, band),
+        path: raw.path,
+        title: raw.title,
+      });
+    }
+
+    if (points.length === 0) continue;
+    points.sort((a, b) => a.date.localeCompare(b.date) || a.path.localeCompare(b.path));
+    const band = [...points].reverse().find((point) => point.band)?.band;
+    series.push({
+      key,
+      label: analyte?.label ?? raws[raws.length - 1].analyte,
+      unit,
+      points,
+      ...(band ? { band } : {}),
+      skipped: skipped + unconvertible,
+    });
+  }
+
+  return series.sort((a, b) => b.points.length - a.points.length || a.label.localeCompare(b.label));
+}
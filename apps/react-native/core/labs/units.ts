@@ -0,0 +1,149 @@
+// core/labs/units.ts
+// Analyte identity and unit normalization for lab trends. The same test
+// shows up as "HbA1c", "Hemoglobin A1c" and "A1C", in mg/dL from one lab and
+// mmol/L from another; trends need one key and one unit per analyte.
+
+export interface AnalyteDefinition {
+  key: string;
+  /** Display name for charts. */
+  label: string;
+  /** Normalized names (see normalizeAnalyteName) that mean this analyte. */
+  aliases: string[];
+  /** Unit every value is converted into. */
+  unit: string;
+  /** Other units (normalized, see normalizeUnit) and how to convert from them. */
+  conversions?: Record<string, (value: number) => number>;
+}
+
+const MMOL_GLUCOSE = 18.016;
+const MMOL_CHOLESTEROL = 38.67;
+const MMOL_TRIGLYCERIDES = 88.57;
+const UMOL_CREATININE = 88.4;
+const NMOL_VITAMIN_D = 2.496;
+
+export const ANALYTES: AnalyteDefinition[] = [
+  {
+    key: 'a1c',
+    label: 'Hemoglobin A1c',
+    aliases: ['a1c', 'hba1c', 'hemoglobin a1c', 'haemoglobin a1c', 'glycated hemoglobin', 'glycohemoglobin'],
+    unit: '%',
+    // IFCC → NGSP master equation
+    conversions: { 'mmol/mol': (value) => value / 10.929 + 2.15 },
+  },
+  {
+    key: 'glucose',
+    label: 'Glucose',
+    aliases: ['glucose', 'blood glucose', 'fasting glucose', 'glucose fasting', 'plasma glucose'],
+    unit: 'mg/dL',
+    conversions: { 'mmol/L': (value) => value * MMOL_GLUCOSE },
+  },
+  {
+    key: 'ldl',
+    label: 'LDL Cholesterol',
+    aliases: ['ldl', 'ldl c', 'ldl c calc', 'ldl cholesterol', 'ldl cholesterol calc', 'ldl calculated', 'low density lipoprotein'],
+    unit: 'mg/dL',
+    conversions: { 'mmol/L': (value) => value * MMOL_CHOLESTEROL },
+  },
+  {
+    key: 'hdl',
+    label: 'HDL Cholesterol',
+    aliases: ['hdl', 'hdl c', 'hdl cholesterol', 'high density lipoprotein'],
+    unit: 'mg/dL',
+    conversions: { 'mmol/L': (value) => value * MMOL_CHOLESTEROL },
+  },
+  {
+    key: 'total-cholesterol',
+    label: 'Total Cholesterol',
+    aliases: ['cholesterol', 'total cholesterol', 'cholesterol total'],
+    unit: 'mg/dL',
+    conversions: { 'mmol/L': (value) => value * MMOL_CHOLESTEROL },
+  },
+  {
+    key: 'triglycerides',
+    label: 'Triglycerides',
+    aliases: ['triglycerides', 'triglyceride', 'trig'],
+    unit: 'mg/dL',
+    conversions: { 'mmol/L': (value) => value * MMOL_TRIGLYCERIDES },
+  },
+  {
+    key: 'tsh',
+    label: 'TSH',
+    aliases: ['tsh', 'thyroid stimulating hormone', 'thyrotropin'],
+    unit: 'mIU/L',
+    conversions: { 'uIU/mL': (value) => value },
+  },
+  {
+    key: 'creatinine',
+    label: 'Creatinine',
+    aliases: ['creatinine', 'serum creatinine', 'creatinine serum'],
+    unit: 'mg/dL',
+    conversions: { 'umol/L': (value) => value / UMOL_CREATININE },
+  },
+  {
+    key: 'vitamin-d',
+    label: 'Vitamin D, 25-Hydroxy',
+    aliases: ['vitamin d', 'vitamin d 25 hydroxy', '25 hydroxy vitamin d', '25 oh vitamin d', 'vitamin d 25 oh'],
+    unit: 'ng/mL',
+    conversions: { 'nmol/L': (value) => value / NMOL_VITAMIN_D },
+  },
+];
+
+/** Lowercase, punctuation-free analyte name: 'LDL-C (calc.)' → 'ldl c calc'. */
+export function normalizeAnalyteName(name: string): string {
+  return name
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+}
+
+/** Canonical spelling of a unit, so 'MG/DL', 'mg/dl' and 'mg per dL' compare equal. */
+export function normalizeUnit(unit: string | undefined): string {
+  if (!unit) return '';
+  const compact = unit.trim().replace(/\s+/g, '').replace(/per/gi, '/');
+  const lower = compact.toLowerCase().replace(/μ|µ/g, 'u');
+  const known: Record<string, string> = {
+    'mg/dl': 'mg/dL',
+    'g/dl': 'g/dL',
+    'mmol/l': 'mmol/L',
+    'umol/l': 'umol/L',
+    'nmol/l': 'nmol/L',
+    'pmol/l': 'pmol/L',
+    'mmol/mol': 'mmol/mol',
+    'ng/ml': 'ng/mL',
+    'pg/ml': 'pg/mL',
+    'miu/l': 'mIU/L',
+    'uiu/ml': 'uIU/mL',
+    'mu/l': 'mIU/L',
+    'u/l': 'U/L',
+    'iu/l': 'U/L',
+    '%': '%',
+  };
+  return known[lower] ?? compact;
+}
+
+export function findAnalyte(name: string): AnalyteDefinition | undefined {
+  const normalized = normalizeAnalyteName(name);
+  return ANALYTES.find((analyte) => analyte.aliases.includes(normalized));
+}
+
+/** Stable series key: the known analyte's key, else its normalized name. */
+export function analyteKey(name: string): string {
+  return findAnalyte(name)?.key ?? normalizeAnalyteName(name).replace(/\s+/g, '-');
+}
+
+/**
+ * Convert `value` in `unit` into `targetUnit` for this analyte.
+ * Returns null when the units can't be reconciled.
+ */
+export function convertValue(
+  value: number,
+  unit: string | undefined,
+  targetUnit: string,
+  analyte?: AnalyteDefinition,
+): number | null {
+  const from = normalizeUnit(unit);
+  const to = normalizeUnit(targetUnit);
+  if (from === to) return value;
+  const viaAnalyte = analyte && to === normalizeUnit(analyte.unit) ? analyte.conversions?.[from] : undefined;
+  return viaAnalyte ? viaAnalyte(value) : null;
+}
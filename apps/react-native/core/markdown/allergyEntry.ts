@@ -0,0 +1,54 @@
+// core/markdown/allergyEntry.ts
+// Allergy entries: `# Allergen` with Reaction/Severity/Status list fields.
+
+export const ALLERGY_SEVERITIES = ['Mild', 'Moderate', 'Severe'] as const;
+
+export interface AllergyFields {
+  allergen: string;
+  reaction: string;
+  severity: string;
+  status?: string;
+  notes?: string;
+}
+
+export interface ParsedAllergyEntry {
+  isAllergyEntry: boolean;
+  fields: AllergyFields | null;
+}
+
+function extractFromBody(body: string): AllergyFields | null {
+  const allergenMatch = body.match(/^#\s+(.+)$/m);
+  const reactionMatch = body.match(/^-+\s*Reactions?:\s*(.+)$/im);
+  const severityMatch = body.match(/^-+\s*Severity:\s*(.+)$/im);
+  const statusMatch = body.match(/^-+\s*Status:\s*(.+)$/im);
+  if (!allergenMatch || (!reactionMatch && !severityMatch)) return null;
+
+  const notesMatch = body.match(/^##\s+Notes\s*$([\s\S]*)/im);
+  return {
+    allergen: allergenMatch[1].trim(),
+    reaction: reactionMatch?.[1]?.trim() ?? '',
+    severity: severityMatch?.[1]?.trim() ?? '',
+    status: statusMatch?.[1]?.trim() || undefined,
+    notes: notesMatch?.[1]?.trim() || undefined,
+  };
+}
+
+export function buildAllergyMarkdown(fields: AllergyFields): string {
+  const lines = [`# ${fields.allergen.trim()}`, ''];
+  if (fields.reaction.trim()) lines.push(`- Reaction: ${fields.reaction.trim()}`);
+  if (fields.severity.trim()) lines.push(`- Severity: ${fields.severity.trim()}`);
+  if (fields.status?.trim()) lines.push(`- Status: ${fields.status.trim()}`);
+
+  if (fields.notes?.trim()) {
+    lines.push('', '## Notes', '', fields.notes.trim());
+  }
+
+  return lines.join('\n');
+}
+
+export function parseAllergyEntry(markdown: string): ParsedAllergyEntry {
+  const parsed = extractFromBody(markdown);
+  return parsed
+    ? { isAllergyEntry: true, fields: parsed }
+    : { isAllergyEntry: false, fields: null };
+}
@@ -0,0 +1,58 @@
+// core/markdown/immunizationEntry.ts
+// Immunization entries: `# Vaccine` with Date/Dose Number/Dose/Lot list fields.
+
+export interface ImmunizationFields {
+  vaccine: string;
+  date: string;
+  /** Position in the series, e.g. '2' for the second shot. */
+  doseNumber?: string;
+  /** Amount given, e.g. '0.5 mL'. */
+  dose?: string;
+  lot?: string;
+  notes?: string;
+}
+
+export interface ParsedImmunizationEntry {
+  isImmunizationEntry: boolean;
+  fields: ImmunizationFields | null;
+}
+
+function extractFromBody(body: string): ImmunizationFields | null {
+  const vaccineMatch = body.match(/^#\s+(.+)$/m);
+  const dateMatch = body.match(/^-+\s*(?:Date|Given):\s*(.+)$/im);
+  const doseNumberMatch = body.match(/^-+\s*Dose (?:Number|#):\s*(.+)$/im);
+  const doseMatch = body.match(/^-+\s*Dose:\s*(.+)$/im);
+  const lotMatch = body.match(/^-+\s*Lot(?: Number)?:\s*(.+)$/im);
+  if (!vaccineMatch || (!dateMatch && !lotMatch && !doseNumberMatch)) return null;
+
+  const notesMatch = body.match(/^##\s+Notes\s*$([\s\S]*)/im);
+  return {
+    vaccine: vaccineMatch[1].trim(),
+    date: dateMatch?.[1]?.trim() ?? '',
+    doseNumber: doseNumberMatch?.[1]?.trim() || undefined,
+    dose: doseMatch?.[1]?.trim() || undefined,
+    lot: lotMatch?.[1]?.trim() || undefined,
+    notes: notesMatch?.[1]?.trim() || undefined,
+  };
+}
+
+export function buildImmunizationMarkdown(fields: ImmunizationFields): string {
+  const lines = [`# ${fields.vaccine.trim()}`, ''];
+  if (fields.date.trim()) lines.push(`- Date: ${fields.date.trim()}`);
+  if (fields.doseNumber?.trim()) lines.push(`- Dose Number: ${fields.doseNumber.trim()}`);
+  if (fields.dose?.trim()) lines.push(`- Dose: ${fields.dose.trim()}`);
+  if (fields.lot?.trim()) lines.push(`- Lot: ${fields.lot.trim()}`);
+
+  if (fields.notes?.trim()) {
+    lines.push('', '## Notes', '', fields.notes.trim());
+  }
+
+  return lines.join('\n');
+}
+
+export function parseImmunizationEntry(markdown: string): ParsedImmunizationEntry {
+  const parsed = extractFromBody(markdown);
+  return parsed
+    ? { isImmunizationEntry: true, fields: parsed }
+    : { isImmunizationEntry: false, fields: null };
+}
@@ -0,0 +1,138 @@
+// core/markdown/labResultEntry.ts
+// Lab result entries: `- Analyte: value unit (ref range) [Flag]` lines under
+// `## Results`, the shape createLabResult starts from and FHIR export reads.
+
+export const LAB_RESULT_FLAGS = ['high', 'low', 'abnormal', 'critical'] as const;
+
+export type LabResultFlag = (typeof LAB_RESULT_FLAGS)[number];
+
+export interface LabResultRow {
+  analyte: string;
+  value: string;
+  unit?: string;
+  /** Display form, e.g. '70-99' or '<200'. */
+  referenceRange?: string;
+  flag?: LabResultFlag;
+}
+
+export interface LabResultFields {
+  title: string;
+  lab?: string;
+  results: LabResultRow[];
+  notes?: string;
+}
+
+export interface ParsedLabResultEntry {
+  isLabResultEntry: boolean;
+  fields: LabResultFields | null;
+}
+
+const FLAG_ALIASES: Record<string, LabResultFlag> = {
+  high: 'high',
+  h: 'high',
+  low: 'low',
+  l: 'low',
+  abnormal: 'abnormal',
+  a: 'abnormal',
+  critical: 'critical',
+  hh: 'critical',
+  ll: 'critical',
+};
+
+export function labResultFlagLabel(flag: LabResultFlag): string {
+  return flag.charAt(0).toUpperCase() + flag.slice(1);
+}
+
+/** Lines under a `## Heading`, up to the next heading. */
+function sectionLines(body: string, heading: string): string[] | null {
+  const lines = body.split('\n');
+  const start = lines.findIndex((line) => new RegExp(`^##\\s+${heading}\\s*$`, 'i').test(line.trim()));
+  if (start === -1) return null;
+  const rest = lines.slice(start + 1);
+  const end = rest.findIndex((line) => /^#{1,2}\s+/.test(line.trim()));
+  return end === -1 ? rest : rest.slice(0, end);
+}
+
+export function formatLabResultRow(row: LabResultRow): string {
+  const value = [row.value.trim(), row.unit?.trim()].filter(Boolean).join(' ');
+  const range = row.referenceRange?.trim() ? ` (ref ${row.referenceRange.trim()})` : '';
+  const flag = row.flag ? ` [${labResultFlagLabel(row.flag)}]` : '';
+  return `- ${row.analyte.trim()}: ${value}${range}${flag}`;
+}
+
+/**
+ * Parse one `- Analyte: value unit (ref range) [Flag]` line.
+ * Non-numeric values keep their whole text as the value.
+ */
+export function parseLabResultRow(line: string): LabResultRow | null {
+  const item = line.match(/^\s*[-*]\s+([^:]+):\s*(.+)$/);
+  if (!item) return null;
+  let rest = item[2].trim();
+
+  let flag: LabResultFlag | undefined;
+  const flagMatch = rest.match(/\s*\[([a-z]+)\]\s*$/i);
+  if (flagMatch && FLAG_ALIASES[flagMatch[1].toLowerCase()]) {
+    flag = FLAG_ALIASES[flagMatch[1].toLowerCase()];
+    rest = rest.slice(0, flagMatch.index).trim();
+  }
+
+  let referenceRange: string | undefined;
+  const rangeMatch = rest.match(/\s*\(([^)]*)\)\s*$/);
+  if (rangeMatch) {
+    referenceRange = rangeMatch[1]
+      .replace(/^\s*(?:ref(?:erence)?(?:\s+range)?|range|normal)\s*:?\s*/i, '')
+      .trim() || undefined;
+    rest = rest.slice(0, rangeMatch.index).trim();
+  }
+
+  const numeric = rest.match(/^([<>]?=?\s*-?\d+(?:\.\d+)?)\s*(.*)$/);
+  const value = numeric ? numeric[1].replace(/\s+/g, '') : rest;
+  const unit = numeric?.[2]?.trim() || undefined;
+
+  return {
+    analyte: item[1].trim(),
+    value,
+    ...(unit ? { unit } : {}),
+    ...(referenceRange ? { referenceRange } : {}),
+    ...(flag ? { flag } : {}),
+  };
+}
+
+export function buildLabResultMarkdown(fields: LabResultFields): string {
+  const lines = [`# ${fields.title.trim()}`, ''];
+  if (fields.lab?.trim()) {
+    lines.push(`Lab: ${fields.lab.trim()}`, '');
+  }
+  lines.push('## Results', '');
+  const rows = fields.results.filter((row) => row.analyte.trim() && row.value.trim());
+  if (rows.length > 0) {
+    lines.push(...rows.map(formatLabResultRow), '');
+  }
+  lines.push('## Notes', '');
+  if (fields.notes?.trim()) {
+    lines.push(fields.notes.trim(), '');
+  }
+  return lines.join('\n');
+}
+
+export function parseLabResultEntry(markdown: string): ParsedLabResultEntry {
+  const titleMatch = markdown.match(/^#\s+(.+)$/m);
+  const resultLines = sectionLines(markdown, 'Results');
+  if (!titleMatch || !resultLines) {
+    return { isLabResultEntry: false, fields: null };
+  }
+
+  const labMatch = markdown.match(/^-?\s*Lab:\s*(.+)$/im);
+  const notes = sectionLines(markdown, 'Notes')?.join('\n').trim();
+  return {
+    isLabResultEntry: true,
+    fields: {
+      title: titleMatch[1].trim(),
+      lab: labMatch?.[1]?.trim() || undefined,
+      results: resultLines
+        .map(parseLabResultRow)
+        .filter((row): row is LabResultRow => !!row),
+      notes: notes || undefined,
+    },
+  };
+}
@@ -4,6 +4,8 @@ export interface MedicationFields {
   frequency: string;
   startDate: string;
   stopDate?: string;
+  /** Date the current supply runs out (YYYY-MM-DD); drives refill reminders. */
+  refillDate?: string;
 }
 
 export interface ParsedMedicationEntry {
@@ -17,6 +19,7 @@ function extractFromBody(body: string): MedicationFields | null {
   const frequencyMatch = body.match(/^-+\s*Frequency:\s*(.+)$/im);
   const startDateMatch = body.match(/^-+\s*(Started|Start Date):\s*(.+)$/im);
   const stopDateMatch = body.match(/^-+\s*(Stopped|Stop Date):\s*(.+)$/im);
+  const refillDateMatch = body.match(/^-+\s*Refill(?: Due| Date)?:\s*(.+)$/im);
   if (!nameMatch || !dosageMatch || !frequencyMatch) return null;
 
   return {
@@ -25,6 +28,7 @@ function extractFromBody(body: string): MedicationFields | null {
     frequency: frequencyMatch[1].trim(),
     startDate: startDateMatch?.[2]?.trim() ?? '',
     stopDate: stopDateMatch?.[2]?.trim() || undefined,
+    refillDate: refillDateMatch?.[1]?.trim() || undefined,
   };
 }
 
@@ -41,6 +45,10 @@ export function buildMedicationMarkdown(fields: MedicationFields): string {
     lines.push(`- Stopped: ${fields.stopDate.trim()}`);
   }
 
+  if (fields.refillDate?.trim()) {
+    lines.push(`- Refill Due: ${fields.refillDate.trim()}`);
+  }
+
   return lines.join('\n');
 }
 
@@ -0,0 +1,56 @@
+// core/markdown/visitEntry.ts
+// Visit notes: `# Title` followed by the SOAP sections createVisitNote starts with.
+
+export const SOAP_SECTIONS = ['subjective', 'objective', 'assessment', 'plan'] as const;
+
+export type SoapSection = (typeof SOAP_SECTIONS)[number];
+
+export interface VisitFields {
+  title: string;
+  subjective: string;
+  objective: string;
+  assessment: string;
+  plan: string;
+}
+
+export interface ParsedVisitEntry {
+  isVisitEntry: boolean;
+  fields: VisitFields | null;
+}
+
+export function soapSectionLabel(section: SoapSection): string {
+  return section.charAt(0).toUpperCase() + section.slice(1);
+}
+
+/** Text under `## Heading` up to the next heading, or null when absent. */
+function sectionText(body: string, heading: string): string | null {
+  const lines = body.split('\n');
+  const start = lines.findIndex((line) => new RegExp(`^##\\s+${heading}\\s*$`, 'i').test(line.trim()));
+  if (start === -1) return null;
+  const rest = lines.slice(start + 1);
+  const end = rest.findIndex((line) => /^#{1,2}\s+/.test(line.trim()));
+  return (end === -1 ? rest : rest.slice(0, end)).join('\n').trim();
+}
+
+export function buildVisitMarkdown(fields: VisitFields): string {
+  const lines = [`# ${fields.title.trim()}`, ''];
+  for (const section of SOAP_SECTIONS) {
+    lines.push(`## ${soapSectionLabel(section)}`, '');
+    if (fields[section].trim()) lines.push(fields[section].trim(), '');
+  }
+  return lines.join('\n');
+}
+
+export function parseVisitEntry(markdown: string): ParsedVisitEntry {
+  const titleMatch = markdown.match(/^#\s+(.+)$/m);
+  const sections = SOAP_SECTIONS.map((section) => sectionText(markdown, soapSectionLabel(section)));
+  if (!titleMatch || sections.every((text) => text === null)) {
+    return { isVisitEntry: false, fields: null };
+  }
+
+  const [subjective, objective, assessment, plan] = sections.map((text) => text ?? '');
+  return {
+    isVisitEntry: true,
+    fields: { title: titleMatch[1].trim(), subjective, objective, assessment, plan },
+  };
+}
@@ -0,0 +1,153 @@
+// core/medication/adherence.ts
+// Dose-taken/skipped log for a medication entry. Logs live in one encrypted
+// sidecar per month next to the entry (<entry>.doses-YYYY-MM.enc), so they
+// are versioned and synced with the binder without growing the entry JSON,
+// which NIP-44 caps at 64 KB.
+
+import type { MedicationFields } from '../markdown/medicationEntry';
+import {
+  expectedDoseTimes,
+  localDateKey,
+  type MedicationSchedule,
+} from './schedule';
+
+export type DoseStatus = 'taken' | 'skipped';
+
+export interface DoseLog {
+  status: DoseStatus;
+  /** ISO 8601 time the log was recorded. */
+  loggedAt: string;
+  /** ISO 8601 scheduled dose time, when the log answers one. */
+  scheduledFor?: string;
+}
+
+export interface AdherenceDay {
+  /** Local YYYY-MM-DD. */
+  date: string;
+  expected: number;
+  taken: number;
+  skipped: number;
+}
+
+export interface AdherenceSummary {
+  days: AdherenceDay[];
+  expected: number;
+  taken: number;
+  skipped: number;
+  /** taken / expected over the window, 0–1; null when nothing was expected. */
+  rate: number | null;
+}
+
+/** Logs read from the entry's monthly sidecars, oldest dose first. */
+export function sortDoseLogs(logs: DoseLog[]): DoseLog[] {
+  return [...logs].sort((a, b) => doseTime(a).localeCompare(doseTime(b)));
+}
+
+// --- Monthly sidecars ---
+
+const DOSE_LOG_SIDECAR = /\.doses-(\d{4}-\d{2})\.enc$/;
+
+/** Sidecar holding the month's logs for `entryPath`, named like sidecarPathFrom. */
+export function doseLogSidecarPath(entryPath: string, log: DoseLog): string {
+  return `${entryPath.replace(/\.json$/, '')}.doses-${log.loggedAt.slice(0, 7)}.enc`;
+}
+
+export function isDoseLogSidecarOf(entryPath: string, sidecarPath: string): boolean {
+  const base = entryPath.replace(/\.json$/, '');
+  return sidecarPath.startsWith(base + '.') && DOSE_LOG_SIDECAR.test(sidecarPath.slice(base.length));
+}
+
+export function encodeDoseLogs(logs: DoseLog[]): Uint8Array {
+  return new TextEncoder().encode(JSON.stringify(logs));
+}
+
+export function decodeDoseLogs(bytes: Uint8Array): DoseLog[] {
+  const parsed = JSON.parse(new TextDecoder().decode(bytes));
+  return Array.isArray(parsed)
+    ? parsed.filter((log): log is DoseLog => log?.status === 'taken' || log?.status === 'skipped')
+    : [];
+}
+
+/** When the dose was due — the scheduled time if known, else when it was logged. */
+function doseTime(log: DoseLog): string {
+  return log.scheduledFor ?? log.loggedAt;
+}
+
+function atClock(day: Date, time: string): Date {
+  const [hour, minute] = time.split(':').map(Number);
+  const at = new Date(day);
+  at.setHours(hour, minute, 0, 0);
+  return at;
+}
+
+/**
+ * The scheduled dose closest to `now` that has no log yet, looking from
+ * six hours back to six hours ahead. Null for as-needed schedules or when
+ * every nearby dose is already answered.
+ */
+export function nextUnloggedDose(
+  schedule: MedicationSchedule | null,
+  fields: MedicationFields,
+  logs: DoseLog[],
+  now: Date = new Date(),
+): Date | null {
+  const windowMs = 6 * 60 * 60 * 1000;
+  const answered = new Set(logs.map((log) => log.scheduledFor).filter(Boolean));
+  const candidates: Date[] = [];
+  for (const offset of [-1, 0, 1]) {
+    const day = new Date(now);
+    day.setDate(day.getDate() + offset);
+    for (const time of expectedDoseTimes(schedule, fields, day)) {
+      const at = atClock(day, time);
+      if (Math.abs(at.getTime() - now.getTime()) <= windowMs && !answered.has(at.toISOString())) {
+        candidates.push(at);
+      }
+    }
+  }
+  candidates.sort((a, b) => Math.abs(a.getTime() - now.getTime()) - Math.abs(b.getTime() - now.getTime()));
+  return candidates[0] ?? null;
+}
+
+/**
+ * Per-day expected vs. logged doses for the `days` days ending today.
+ * Doses scheduled later today don't count as expected yet. Logs beyond the
+ * expected count (extra as-needed doses) are reported but don't lift the
+ * rate above 100%.
+ */
+export function summarizeAdherence(
+  schedule: MedicationSchedule | null,
+  fields: MedicationFields,
+  logs: DoseLog[],
+  days: number,
+  now: Date = new Date(),
+): AdherenceSummary {
+  const byDay = new Map<string, { taken: number; skipped: number }>();
+  for (const log of logs) {
+    const key = localDateKey(new Date(doseTime(log)));
+    const counts = byDay.get(key) ?? { taken: 0, skipped: 0 };
+    counts[log.status] += 1;
+    byDay.set(key, counts);
+  }
+
+  const result: AdherenceDay[] = [];
+  for (let offset = days - 1; offset >= 0; offset -= 1) {
+    const day = new Date(now);
+    day.setDate(day.getDate() - offset);
+    const date = localDateKey(day);
+    const expected = expectedDoseTimes(schedule, fields, day)
+      .filter((time) => atClock(day, time).getTime() <= now.getTime())
+      .length;
+    const counts = byDay.get(date) ?? { taken: 0, skipped: 0 };
+    result.push({ date, expected, ...counts });
+  }
+
+  const expected = result.reduce((sum, day) => sum + day.expected, 0);
+  const takenTowardExpected = result.reduce((sum, day) => sum + Math.min(day.taken, day.expected), 0);
+  return {
+    days: result,
+    expected,
+    taken: result.reduce((sum, day) => sum + day.taken, 0),
+    skipped: result.reduce((sum, day) => sum + day.skipped, 0),
+    rate: expected > 0 ? takenTowardExpected / expected : null,
+  };
+}
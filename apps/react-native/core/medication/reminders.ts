@@ -0,0 +1,182 @@
+// core/medication/reminders.ts
+// Local dose and refill reminders via expo-notifications. Nothing leaves the
+// device: reminders are scheduled per entry and found again by identifier
+// prefix, so there is no separate "reminders enabled" store to keep in sync.
+
+import type { MedicationFields } from '../markdown/medicationEntry';
+import {
+  medicationStatus,
+  parseFrequency,
+  weekdaysFor,
+} from './schedule';
+
+type NotificationsModule = typeof import('expo-notifications');
+
+export interface MedicationReminderTarget {
+  binderId: string;
+  /** Entry path relative to the binder root. */
+  entryPath: string;
+}
+
+/** Payload attached to every reminder; used to open the entry on tap. */
+export interface MedicationReminderData extends MedicationReminderTarget {
+  kind: 'medication-dose' | 'medication-refill';
+}
+
+const CHANNEL_ID = 'medication-reminders';
+/** Days before the refill date to remind, at 9:00 local time. */
+const REFILL_LEAD_DAYS = 3;
+const REFILL_HOUR = 9;
+
+let cachedModule: NotificationsModule | null = null;
+
+async function getNotificationsModule(): Promise<NotificationsModule> {
+  if (cachedModule) return cachedModule;
+  try {
+    cachedModule = await import('expo-notifications');
+    return cachedModule;
+  } catch (err) {
+    const reason = err instanceof Error ? err.message : String(err);
+    throw new Error(
+      `Notifications native module unavailable (${reason}). Rebuild with: npx expo run:ios`,
+    );
+  }
+}
+
+function identifierPrefix(target: MedicationReminderTarget): string {
+  return `medication:${target.binderId}:${target.entryPath}:`;
+}
+
+/**
+ * Foreground presentation and the Android channel. Safe to call repeatedly.
+ */
+export async function configureMedicationNotifications(): Promise<void> {
+  const Notifications = await getNotificationsModule();
+  Notifications.setNotificationHandler({
+    handleNotification: async () => ({
+      shouldShowBanner: true,
+      shouldShowList: true,
+      shouldPlaySound: true,
+      shouldSetBadge: false,
+    }),
+  });
+  await Notifications.setNotificationChannelAsync(CHANNEL_ID, {
+    name: 'Medication reminders',
+    importance: Notifications.AndroidImportance.HIGH,
+  });
+}
+
+export async function requestReminderPermission(): Promise<boolean> {
+  const Notifications = await getNotificationsModule();
+  const current = await Notifications.getPermissionsAsync();
+  if (current.granted) return true;
+  if (!current.canAskAgain) return false;
+  const requested = await Notifications.requestPermissionsAsync();
+  return requested.granted;
+}
+
+export async function hasMedicationReminders(target: MedicationReminderTarget): Promise<boolean> {
+  const Notifications = await getNotificationsModule();
+  const prefix = identifierPrefix(target);
+  const scheduled = await Notifications.getAllScheduledNotificationsAsync();
+  return scheduled.some((request) => request.identifier.startsWith(prefix));
+}
+
+export async function cancelMedicationReminders(target: MedicationReminderTarget): Promise<void> {
+  const Notifications = await getNotificationsModule();
+  const prefix = identifierPrefix(target);
+  const scheduled = await Notifications.getAllScheduledNotificationsAsync();
+  await Promise.all(
+    scheduled
+      .filter((request) => request.identifier.startsWith(prefix))
+      .map((request) => Notifications.cancelScheduledNotificationAsync(request.identifier)),
+  );
+}
+
+/**
+ * Replace this entry's reminders with ones matching its current fields.
+ * Stopped medications and unparseable frequencies get no dose reminders.
+ * Returns how many reminders were scheduled.
+ */
+export async function scheduleMedicationReminders(
+  target: MedicationReminderTarget,
+  fields: MedicationFields,
+  now: Date = new Date(),
+): Promise<number> {
+  const Notifications = await getNotificationsModule();
+  const { SchedulableTriggerInputTypes } = Notifications;
+  await cancelMedicationReminders(target);
+  if (medicationStatus(fields, now) === 'stopped') return 0;
+
+  const prefix = identifierPrefix(target);
+  const doseContent = {
+    title: 'Medication reminder',
+    body: `Time to take ${fields.name}${fields.dosage ? ` (${fields.dosage})` : ''}`,
+    data: { ...target, kind: 'medication-dose' } satisfies MedicationReminderData,
+  };
+  let count = 0;
+
+  const schedule = parseFrequency(fields.frequency);
+  if (schedule && schedule.kind !== 'as-needed') {
+    for (const time of schedule.doseTimes) {
+      const [hour, minute] = time.split(':').map(Number);
+      if (schedule.kind === 'daily') {
+        await Notifications.scheduleNotificationAsync({
+          identifier: `${prefix}dose:${time}`,
+          content: doseContent,
+          trigger: { type: SchedulableTriggerInputTypes.DAILY, hour, minute, channelId: CHANNEL_ID },
+        });
+        count += 1;
+        continue;
+      }
+      for (const weekday of weekdaysFor(schedule, fields)) {
+        await Notifications.scheduleNotificationAsync({
+          identifier: `${prefix}dose:${weekday}:${time}`,
+          content: doseContent,
+          // expo-notifications weekdays are 1 = Sunday … 7 = Saturday.
+          trigger: {
+            type: SchedulableTriggerInputTypes.WEEKLY,
+            weekday: weekday + 1,
+            hour,
+            minute,
+            channelId: CHANNEL_ID,
+          },
+        });
+        count += 1;
+      }
+    }
+  }
+
+  const refillAt = refillReminderDate(fields.refillDate);
+  if (refillAt && refillAt.getTime() > now.getTime()) {
+    await Notifications.scheduleNotificationAsync({
+      identifier: `${prefix}refill`,
+      content: {
+        title: 'Refill reminder',
+        body: `${fields.name} runs out on ${fields.refillDate}. Request a refill soon.`,
+        data: { ...target, kind: 'medication-refill' } satisfies MedicationReminderData,
+      },
+      trigger: { type: SchedulableTriggerInputTypes.DATE, date: refillAt, channelId: CHANNEL_ID },
+    });
+    count += 1;
+  }
+
+  return count;
+}
+
+/** 9:00 local, REFILL_LEAD_DAYS before a YYYY-MM-DD refill date. */
+export function refillReminderDate(refillDate: string | undefined): Date | null {
+  const match = refillDate?.trim().match(/^(\d{4})-(\d{2})-(\d{2})/);
+  if (!match) return null;
+  const [, year, month, day] = match.map(Number);
+  return new Date(year, month - 1, day - REFILL_LEAD_DAYS, REFILL_HOUR, 0, 0, 0);
+}
+
+/** Reminder payload from a notification's data, or null for other notifications. */
+export function parseReminderData(data: unknown): MedicationReminderData | null {
+  if (!data || typeof data !== 'object') return null;
+  const candidate = data as Partial<MedicationReminderData>;
+  if (candidate.kind !== 'medication-dose' && candidate.kind !== 'medication-refill') return null;
+  if (typeof candidate.binderId !== 'string' || typeof candidate.entryPath !== 'string') return null;
+  return candidate as MedicationReminderData;
+}
@@ -0,0 +1,232 @@
+// core/medication/schedule.ts
+// Turn a medication's free-text frequency ("Twice daily", "every 8 hours",
+// "BID", FHIR/C-CDA import strings) into dose times, and answer which doses
+// were expected on a given day. Pure — no clock reads unless passed `now`.
+
+import type { MedicationFields } from '../markdown/medicationEntry';
+
+export type MedicationSchedule =
+  | {
+      kind: 'daily';
+      /** Local 'HH:MM' times, sorted. */
+      doseTimes: string[];
+    }
+  | {
+      kind: 'weekly';
+      doseTimes: string[];
+      /** 0 = Sunday … 6 = Saturday. Empty: the start date's weekday. */
+      weekdays: number[];
+    }
+  | { kind: 'as-needed' };
+
+export type MedicationStatus = 'active' | 'stopped' | 'not-started';
+
+/** Default clock times for N doses spread across waking hours. */
+const DOSE_TIMES_PER_DAY: Record<number, string[]> = {
+  1: ['08:00'],
+  2: ['08:00', '20:00'],
+  3: ['08:00', '14:00', '20:00'],
+  4: ['08:00', '12:00', '16:00', '20:00'],
+};
+
+const FIRST_DOSE_HOUR = 8;
+
+const WORD_COUNTS: Record<string, number> = {
+  once: 1,
+  one: 1,
+  twice: 2,
+  two: 2,
+  three: 3,
+  thrice: 3,
+  four: 4,
+};
+
+const LATIN_COUNTS: Record<string, number> = {
+  qd: 1,
+  od: 1,
+  daily: 1,
+  bid: 2,
+  tid: 3,
+  qid: 4,
+};
+
+const TIME_OF_DAY: Record<string, string> = {
+  morning: '08:00',
+  qam: '08:00',
+  noon: '12:00',
+  evening: '18:00',
+  qpm: '20:00',
+  night: '21:00',
+  nightly: '21:00',
+  bedtime: '21:00',
+  qhs: '21:00',
+};
+
+function formatClock(hour: number, minute = 0): string {
+  return `${String(hour).padStart(2, '0')}:${String(minute).padStart(2, '0')}`;
+}
+
+function timesForCount(count: number): string[] | null {
+  if (DOSE_TIMES_PER_DAY[count]) return DOSE_TIMES_PER_DAY[count];
+  if (count < 1 || count > 24 || !Number.isInteger(count)) return null;
+  return timesForInterval(24 / count);
+}
+
+/** Doses every N hours from the first dose of the day, wrapping past midnight. */
+function timesForInterval(hours: number): string[] | null {
+  if (!(hours > 0) || hours > 24) return null;
+  const times = new Set<string>();
+  for (let offset = 0; offset < 24 * 60; offset += hours * 60) {
+    const minutes = (FIRST_DOSE_HOUR * 60 + Math.round(offset)) % (24 * 60);
+    times.add(formatClock(Math.floor(minutes / 60), minutes % 60));
+  }
+  return [...times].sort();
+}
+
+function parseCount(token: string): number | null {
+  if (/^\d+$/.test(token)) return Number(token);
+  return WORD_COUNTS[token] ?? null;
+}
+
+/**
+ * Parse a frequency string into a schedule. Returns null when the text
+ * isn't recognizable — callers show it as-is and skip reminders.
+ */
+export function parseFrequency(frequency: string): MedicationSchedule | null {
+  const text = frequency
+    .toLowerCase()
+    .replace(/[.,;]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+  if (!text) return null;
+
+  if (/\b(as needed|prn|when needed|if needed)\b/.test(text)) {
+    return { kind: 'as-needed' };
+  }
+
+  // Weekly: "once weekly", "every week", "qw", "1 time(s) per 1 wk"
+  if (/\b(weekly|every week|once a week|qw|qwk)\b/.test(text) || /per 1 (wk|w|week)\b/.test(text)) {
+    return { kind: 'weekly', doseTimes: DOSE_TIMES_PER_DAY[1], weekdays: [] };
+  }
+
+  // Interval: "every 8 hours", "q8h", "every 12 h", "1 time(s) per 8 h"
+  const interval =
+    text.match(/\bevery (\d+(?:\.\d+)?) ?(?:hours?|hrs?|h)\b/) ??
+    text.match(/\bq ?(\d+) ?h(?:rs?)?\b/) ??
+    text.match(/\b1 time\(?s?\)? per (\d+(?:\.\d+)?) ?h\b/);
+  if (interval) {
+    const doseTimes = timesForInterval(Number(interval[1]));
+    return doseTimes ? { kind: 'daily', doseTimes } : null;
+  }
+
+  // "N time(s) per 1 d" (FHIR import), "3 times a day", "twice daily"
+  const perDay =
+    text.match(/\b(\d+) times?\(?s?\)? per 1 ?d(?:ay)?\b/) ??
+    text.match(/\b(\d+|once|one|twice|two|three|thrice|four) (?:times? )?(?:a |per |each |every )?(?:day|daily)\b/);
+  if (perDay) {
+    const count = parseCount(perDay[1]);
+    const doseTimes = count ? timesForCount(count) : null;
+    return doseTimes ? { kind: 'daily', doseTimes } : null;
+  }
+
+  const latin = text.split(' ').find((token) => LATIN_COUNTS[token]);
+  if (latin) {
+    return { kind: 'daily', doseTimes: DOSE_TIMES_PER_DAY[LATIN_COUNTS[latin]] };
+  }
+
+  const timesOfDay = text
+    .split(' ')
+    .map((token) => TIME_OF_DAY[token])
+    .filter((time): time is string => !!time);
+  if (timesOfDay.length > 0) {
+    return { kind: 'daily', doseTimes: [...new Set(timesOfDay)].sort() };
+  }
+
+  if (/\b(every day|each day|per day|a day)\b/.test(text)) {
+    return { kind: 'daily', doseTimes: DOSE_TIMES_PER_DAY[1] };
+  }
+
+  return null;
+}
+
+// --- Dates ---
+
+/** Local calendar date as YYYY-MM-DD. */
+export function localDateKey(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+/** A YYYY-MM-DD (or longer ISO) date as its local-calendar key, or null. */
+function toDateKey(value: string | undefined): string | null {
+  const match = value?.trim().match(/^(\d{4}-\d{2}-\d{2})/);
+  return match ? match[1] : null;
+}
+
+export function medicationStatus(fields: MedicationFields, now: Date = new Date()): MedicationStatus {
+  const today = localDateKey(now);
+  const start = toDateKey(fields.startDate);
+  const stop = toDateKey(fields.stopDate);
+  if (stop && stop <= today) return 'stopped';
+  if (start && start > today) return 'not-started';
+  return 'active';
+}
+
+/** True when the medication is being taken on `dateKey` (YYYY-MM-DD). */
+export function isActiveOn(fields: MedicationFields, dateKey: string): boolean {
+  const start = toDateKey(fields.startDate);
+  const stop = toDateKey(fields.stopDate);
+  return (!start || start <= dateKey) && (!stop || dateKey < stop);
+}
+
+/**
+ * Dose times expected on a local calendar day. As-needed and unparseable
+ * schedules expect nothing.
+ */
+export function expectedDoseTimes(
+  schedule: MedicationSchedule | null,
+  fields: MedicationFields,
+  day: Date,
+): string[] {
+  if (!schedule || schedule.kind === 'as-needed') return [];
+  if (!isActiveOn(fields, localDateKey(day))) return [];
+  if (schedule.kind === 'weekly' && !weekdaysFor(schedule, fields).includes(day.getDay())) return [];
+  return schedule.doseTimes;
+}
+
+/** Weekdays a weekly schedule falls on; defaults to the start date's weekday. */
+export function weekdaysFor(
+  schedule: Extract<MedicationSchedule, { kind: 'weekly' }>,
+  fields: MedicationFields,
+): number[] {
+  if (schedule.weekdays.length > 0) return schedule.weekdays;
+  const start = toDateKey(fields.startDate);
+  if (!start) return [0];
+  const [year, month, day] = start.split('-').map(Number);
+  return [new Date(year, month - 1, day).getDay()];
+}
+
+/** 'HH:MM' as a 12-hour label, e.g. '8:00 PM'. */
+export function formatDoseTime(time: string): string {
+  const [hour, minute] = time.split(':').map(Number);
+  const suffix = hour < 12 ? 'AM' : 'PM';
+  const displayHour = hour % 12 === 0 ? 12 : hour % 12;
+  return `${displayHour}:${String(minute).padStart(2, '0')} ${suffix}`;
+}
+
+export function describeSchedule(
+  schedule: MedicationSchedule | null,
+  fields: MedicationFields,
+): string | null {
+  if (!schedule) return null;
+  if (schedule.kind === 'as-needed') return 'As needed';
+  const times = schedule.doseTimes.map(formatDoseTime).join(', ');
+  if (schedule.kind === 'weekly') {
+    const days = weekdaysFor(schedule, fields)
+      .map((day) => ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'][day])
+      .join(', ');
+    return `${days} at ${times}`;
+  }
+  return `Daily at ${times}`;
+}
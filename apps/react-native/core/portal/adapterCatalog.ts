@@ -0,0 +1,275 @@
+// core/portal/adapterCatalog.ts
+// Reads the portal adapter document served by records-workflow-api
+// (portal-adapters/schema.v1.json there) into PortalAdapter objects.
+// Nothing from the server is trusted unchecked: a document with the wrong
+// schema version or broken defaults is ignored whole, while a single bad
+// adapter or system override is dropped and the bundled adapter stays in use
+// for that family.
+
+import type { PortalFamilyId, PortalNavigationAction } from '../../types/portal';
+import {
+  setPortalAdapterCatalog,
+  getPortalAdapterRevision,
+  type PortalAdapter,
+  type PortalAdapterCatalog,
+  type PortalAdapterOverride,
+} from './adapters';
+
+export const PORTAL_ADAPTER_SCHEMA_VERSION = 1;
+
+const FAMILY_IDS: PortalFamilyId[] = ['ascension', 'mychart', 'athena', 'nextgen', 'eclinicalworks', 'generic'];
+const ACTION_IDS: PortalNavigationAction[] = ['openMessages', 'openLabs', 'openAppointments', 'openVisitSummaries'];
+
+type Launch = PortalAdapter['launch'];
+type Login = PortalAdapter['login'];
+type Action = PortalAdapter['actions'][PortalNavigationAction];
+
+/** Where the last valid document is kept between launches. */
+export interface PortalAdapterCacheStore {
+  read(): Promise<string | null>;
+  write(value: string): Promise<void>;
+}
+
+// --- Field readers (null means invalid) ---
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function readStrings(value: unknown): string[] | null {
+  return Array.isArray(value) && value.every((item) => typeof item === 'string' && item.trim().length > 0)
+    ? (value as string[])
+    : null;
+}
+
+function readPatterns(value: unknown): RegExp[] | null {
+  const sources = readStrings(value);
+  if (!sources) return null;
+  try {
+    return sources.map((source) => new RegExp(source, 'i'));
+  } catch (_error) {
+    return null;
+  }
+}
+
+function readFamily(value: unknown): PortalFamilyId | null {
+  return FAMILY_IDS.includes(value as PortalFamilyId) ? (value as PortalFamilyId) : null;
+}
+
+/**
+ * Map snake_case wire fields onto camelCase ones. With `partial`, missing
+ * fields are left out instead of failing the whole object.
+ */
+function readFields<T>(
+  value: unknown,
+  fields: Record<string, [keyof T, 'strings' | 'boolean']>,
+  partial: boolean,
+): Partial<T> | null {
+  if (!isRecord(value)) return null;
+  if (Object.keys(value).some((key) => !(key in fields))) return null;
+
+  const result: Partial<T> = {};
+  for (const [wireKey, [key, kind]] of Object.entries(fields)) {
+    const raw = value[wireKey];
+    if (raw === undefined) {
+      if (partial) continue;
+      return null;
+    }
+    const parsed = kind === 'boolean' ? (typeof raw === 'boolean' ? raw : null) : readStrings(raw);
+    if (parsed === null) return null;
+    result[key] = parsed as T[keyof T];
+  }
+  return result;
+}
+
+const LAUNCH_FIELDS: Record<string, [keyof Launch, 'strings' | 'boolean']> = {
+  selectors: ['selectors', 'strings'],
+  label_includes: ['labelIncludes', 'strings'],
+  href_includes: ['hrefIncludes', 'strings'],
+  safe_auto_launch: ['safeAutoLaunch', 'boolean'],
+};
+
+const LOGIN_FIELDS: Record<string, [keyof Login, 'strings' | 'boolean']> = {
+  username_selectors: ['usernameSelectors', 'strings'],
+  password_selectors: ['passwordSelectors', 'strings'],
+  submit_selectors: ['submitSelectors', 'strings'],
+  safe_auto_submit: ['safeAutoSubmit', 'boolean'],
+};
+
+const ACTION_FIELDS: Record<string, [keyof Action, 'strings' | 'boolean']> = {
+  selectors: ['selectors', 'strings'],
+  label_includes: ['labelIncludes', 'strings'],
+  href_includes: ['hrefIncludes', 'strings'],
+};
+
+function readActions(value: unknown, partial: boolean): Partial<Record<PortalNavigationAction, Partial<Action>>> | null {
+  if (!isRecord(value)) return null;
+  if (Object.keys(value).some((key) => !ACTION_IDS.includes(key as PortalNavigationAction))) return null;
+
+  const result: Partial<Record<PortalNavigationAction, Partial<Action>>> = {};
+  for (const action of ACTION_IDS) {
+    if (value[action] === undefined) {
+      if (partial) continue;
+      return null;
+    }
+    const config = readFields<Action>(value[action], ACTION_FIELDS, partial);
+    if (!config) return null;
+    result[action] = config;
+  }
+  return result;
+}
+
+// --- Adapters and overrides ---
+
+function readAdapter(
+  value: unknown,
+  defaults: { launch: Launch; actions: PortalAdapter['actions'] },
+): PortalAdapter | null {
+  if (!isRecord(value)) return null;
+
+  const id = readFamily(value.id);
+  const hostnamePatterns = readPatterns(value.hostname_patterns);
+  const namePatterns = readPatterns(value.name_patterns);
+  const login = readFields<Login>(value.login, LOGIN_FIELDS, false) as Login | null;
+  const launch = value.launch === undefined ? defaults.launch : (readFields<Launch>(value.launch, LAUNCH_FIELDS, false) as Launch | null);
+  const actions =
+    value.actions === undefined ? defaults.actions : (readActions(value.actions, false) as PortalAdapter['actions'] | null);
+
+  if (
+    !id ||
+    typeof value.display_name !== 'string' ||
+    !value.display_name.trim() ||
+    typeof value.username_hint !== 'string' ||
+    !hostnamePatterns ||
+    !namePatterns ||
+    !login ||
+    !launch ||
+    !actions
+  ) {
+    return null;
+  }
+
+  return {
+    id,
+    displayName: value.display_name,
+    hostnamePatterns,
+    namePatterns,
+    usernameHint: value.username_hint,
+    launch,
+    login,
+    actions,
+  };
+}
+
+function readOverride(value: unknown): PortalAdapterOverride | null {
+  if (!isRecord(value)) return null;
+  if (Object.keys(value).some((key) => !['family', 'username_hint', 'launch', 'login', 'actions'].includes(key))) {
+    return null;
+  }
+
+  const override: PortalAdapterOverride = {};
+  if (value.family !== undefined) {
+    const family = readFamily(value.family);
+    if (!family) return null;
+    override.family = family;
+  }
+  if (value.username_hint !== undefined) {
+    if (typeof value.username_hint !== 'string') return null;
+    override.usernameHint = value.username_hint;
+  }
+  if (value.launch !== undefined) {
+    const launch = readFields<Launch>(value.launch, LAUNCH_FIELDS, true);
+    if (!launch) return null;
+    override.launch = launch;
+  }
+  if (value.login !== undefined) {
+    const login = readFields<Login>(value.login, LOGIN_FIELDS, true);
+    if (!login) return null;
+    override.login = login;
+  }
+  if (value.actions !== undefined) {
+    const actions = readActions(value.actions, true);
+    if (!actions) return null;
+    override.actions = actions;
+  }
+  return override;
+}
+
+/**
+ * Validate a served adapter document. Returns null when the document as a
+ * whole is unusable; otherwise only the entries that passed.
+ */
+export function parsePortalAdapterCatalog(value: unknown): PortalAdapterCatalog | null {
+  if (!isRecord(value) || value.schema_version !== PORTAL_ADAPTER_SCHEMA_VERSION) return null;
+  if (typeof value.revision !== 'string' || !value.revision.trim()) return null;
+
+  const launch = readFields<Launch>(value.default_launch, LAUNCH_FIELDS, false) as Launch | null;
+  const actions = readActions(value.default_actions, false) as PortalAdapter['actions'] | null;
+  if (!launch || !actions || !Array.isArray(value.adapters)) return null;
+
+  const adapters: PortalAdapterCatalog['adapters'] = {};
+  for (const entry of value.adapters) {
+    const adapter = readAdapter(entry, { launch, actions });
+    if (adapter) {
+      adapters[adapter.id] = adapter;
+    } else {
+      console.warn('[adapterCatalog] Ignoring invalid portal adapter', isRecord(entry) ? entry.id : entry);
+    }
+  }
+
+  const systemOverrides: PortalAdapterCatalog['systemOverrides'] = {};
+  if (isRecord(value.system_overrides)) {
+    for (const [systemId, entry] of Object.entries(value.system_overrides)) {
+      const override = readOverride(entry);
+      if (override) {
+        systemOverrides[systemId] = override;
+      } else {
+        console.warn('[adapterCatalog] Ignoring invalid portal adapter override', systemId);
+      }
+    }
+  }
+
+  return { revision: value.revision, adapters, systemOverrides };
+}
+
+// --- Sync ---
+
+async function loadCachedCatalog(store: PortalAdapterCacheStore): Promise<PortalAdapterCatalog | null> {
+  try {
+    const raw = await store.read();
+    return raw ? parsePortalAdapterCatalog(JSON.parse(raw)) : null;
+  } catch (error) {
+    console.warn('[adapterCatalog] Failed to read cached portal adapters', error);
+    return null;
+  }
+}
+
+/**
+ * Apply the cached catalog, then fetch the current one and cache it if it
+ * validates. Any failure leaves the previous catalog (or the bundled
+ * adapters) in place. Resolves to the revision in use afterwards.
+ */
+export async function syncPortalAdapterCatalog(deps: {
+  store: PortalAdapterCacheStore;
+  fetchDocument: () => Promise<unknown>;
+}): Promise<string | null> {
+  if (!getPortalAdapterRevision()) {
+    const cached = await loadCachedCatalog(deps.store);
+    if (cached) setPortalAdapterCatalog(cached);
+  }
+
+  try {
+    const document = await deps.fetchDocument();
+    const catalog = parsePortalAdapterCatalog(document);
+    if (!catalog) {
+      console.warn('[adapterCatalog] Server sent portal adapters this app cannot use');
+    } else if (catalog.revision !== getPortalAdapterRevision()) {
+      setPortalAdapterCatalog(catalog);
+      await deps.store.write(JSON.stringify(document));
+    }
+  } catch (error) {
+    console.warn('[adapterCatalog] Failed to refresh portal adapters', error);
+  }
+
+  return getPortalAdapterRevision();
+}
@@ -32,6 +32,24 @@ export interface PortalAdapter {
   >;
 }
 
+/**
+ * Per hospital system adjustments delivered with the adapter catalog. Fields
+ * replace the family adapter's values; anything omitted is inherited.
+ */
+export interface PortalAdapterOverride {
+  family?: PortalFamilyId;
+  usernameHint?: string;
+  launch?: Partial<PortalAdapter['launch']>;
+  login?: Partial<PortalAdapter['login']>;
+  actions?: Partial<Record<PortalNavigationAction, Partial<PortalAdapter['actions'][PortalNavigationAction]>>>;
+}
+
+export interface PortalAdapterCatalog {
+  revision: string;
+  adapters: Partial<Record<PortalFamilyId, PortalAdapter>>;
+  systemOverrides: Record<string, PortalAdapterOverride>;
+}
+
 const ACTIONS: PortalAdapter['actions'] = {
   openMessages: {
     selectors: [
@@ -83,7 +101,9 @@ const GENERIC_LAUNCH: PortalAdapter['launch'] = {
   safeAutoLaunch: false,
 };
 
-const ADAPTERS: Record<PortalFamilyId, PortalAdapter> = {
+// Shipped with the app and used whenever the server catalog is missing a
+// family or has not been fetched yet.
+const BUNDLED_ADAPTERS: Record<PortalFamilyId, PortalAdapter> = {
   ascension: {
     id: 'ascension',
     displayName: 'Ascension',
@@ -238,18 +258,60 @@ function safeSerialize<T>(value: T): string {
   return JSON.stringify(value).replace(/</g, '\\u003c');
 }
 
+let activeCatalog: PortalAdapterCatalog | null = null;
+
+/** Switch to server-delivered definitions, or back to the bundled ones with null. */
+export function setPortalAdapterCatalog(catalog: PortalAdapterCatalog | null): void {
+  activeCatalog = catalog;
+}
+
+export function getPortalAdapterRevision(): string | null {
+  return activeCatalog?.revision ?? null;
+}
+
+function getFamilyAdapter(family: PortalFamilyId): PortalAdapter {
+  return activeCatalog?.adapters[family] ?? BUNDLED_ADAPTERS[family] ?? BUNDLED_ADAPTERS.generic;
+}
+
+function applyOverride(adapter: PortalAdapter, override: PortalAdapterOverride): PortalAdapter {
+  const actions = { ...adapter.actions };
+  for (const [action, config] of Object.entries(override.actions ?? {}) as [
+    PortalNavigationAction,
+    Partial<PortalAdapter['actions'][PortalNavigationAction]>,
+  ][]) {
+    actions[action] = { ...actions[action], ...config };
+  }
+
+  return {
+    ...adapter,
+    usernameHint: override.usernameHint ?? adapter.usernameHint,
+    launch: { ...adapter.launch, ...override.launch },
+    login: { ...adapter.login, ...override.login },
+    actions,
+  };
+}
+
 export function detectPortalFamily(input: {
   url: string | null | undefined;
   portalName?: string | null;
   healthSystemName?: string | null;
+  healthSystemId?: string | null;
 }): PortalFamilyId {
+  const overrideFamily = input.healthSystemId
+    ? activeCatalog?.systemOverrides[input.healthSystemId]?.family
+    : undefined;
+  if (overrideFamily) {
+    return overrideFamily;
+  }
+
   const candidate = `${input.url || ''} ${input.portalName || ''} ${input.healthSystemName || ''}`;
 
-  for (const adapter of Object.values(ADAPTERS)) {
-    if (adapter.id === 'generic') {
+  for (const family of Object.keys(BUNDLED_ADAPTERS) as PortalFamilyId[]) {
+    if (family === 'generic') {
       continue;
     }
 
+    const adapter = getFamilyAdapter(family);
     const matchesHost = adapter.hostnamePatterns.some((pattern) => pattern.test(candidate));
     const matchesName = adapter.namePatterns.some((pattern) => pattern.test(candidate));
 
@@ -261,8 +323,15 @@ export function detectPortalFamily(input: {
   return 'generic';
 }
 
-export function getPortalAdapter(family: PortalFamilyId): PortalAdapter {
-  return ADAPTERS[family] ?? ADAPTERS.generic;
+/**
+ * The adapter for a portal family, with the hospital system's override
+ * applied when one is given. An override's family wins over `family`, so
+ * profiles saved before the override existed pick it up too.
+ */
+export function getPortalAdapter(family: PortalFamilyId, healthSystemId?: string | null): PortalAdapter {
+  const override = healthSystemId ? activeCatalog?.systemOverrides[healthSystemId] : undefined;
+  const adapter = getFamilyAdapter(override?.family ?? family);
+  return override ? applyOverride(adapter, override) : adapter;
 }
 
 export function buildCredentialFillScript(
@@ -0,0 +1,207 @@
+// core/portal/harvest.ts
+// Turns documents and lab tables found on authenticated portal pages (see
+// the harvesting half of buildPortalBridgeScript) into importable records.
+// Each record's source id is derived from the portal family and the item's
+// URL (or, for tables, the page URL plus a hash of the rows), so saving the
+// same item twice is skipped by importRecordsIntoBinder.
+
+import type { PortalFamilyId, PortalHarvestCandidate, PortalHarvestDownload } from '../../types/portal';
+import { slugify } from '../binder/FileNaming';
+import { decode as b64decode } from '../crypto/base64';
+import { INTERPRETATION_FLAGS, contentSourceId, type ImportedRecord } from '../fhir/records';
+import { buildLabResultMarkdown, type LabResultFlag, type LabResultRow } from '../markdown/labResultEntry';
+import { detectDocumentDate } from '../recordsWorkflow/receivedRecords';
+
+/** Query parameters that change per session and would defeat duplicate detection. */
+const VOLATILE_QUERY_PARAM = /^(_|t|ts|timestamp|token|access_?token|session(id)?|sid|csrf.*|nonce|cache.*|rnd|random)$/i;
+
+const EXTENSION_BY_MIME: Record<string, string> = {
+  'application/pdf': 'pdf',
+  'application/xml': 'xml',
+  'text/xml': 'xml',
+  'application/zip': 'zip',
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/tiff': 'tiff',
+  'text/plain': 'txt',
+  'application/rtf': 'rtf',
+};
+
+const LAB_COLUMNS: { field: keyof LabResultRow; pattern: RegExp }[] = [
+  { field: 'unit', pattern: /\bunits?\b/i },
+  { field: 'referenceRange', pattern: /range|reference|normal/i },
+  { field: 'flag', pattern: /flag|abnormal|interpretation/i },
+  { field: 'value', pattern: /result|value/i },
+  { field: 'analyte', pattern: /component|test|analyte|name/i },
+];
+
+// --- Identity ---
+
+/** Drop the fragment and session-specific query parameters. */
+export function normalizeHarvestUrl(url: string): string {
+  const [withoutHash] = url.split('#');
+  const queryStart = withoutHash.indexOf('?');
+  if (queryStart < 0) return withoutHash;
+
+  const params = withoutHash
+    .slice(queryStart + 1)
+    .split('&')
+    .filter((param) => param && !VOLATILE_QUERY_PARAM.test(decodeURIComponent(param.split('=')[0])))
+    .sort();
+  const base = withoutHash.slice(0, queryStart);
+  return params.length > 0 ? `${base}?${params.join('&')}` : base;
+}
+
+export function portalHarvestSourceId(family: PortalFamilyId, candidate: PortalHarvestCandidate): string {
+  if (candidate.kind === 'document' && candidate.url) {
+    return `portal:${family}:${normalizeHarvestUrl(candidate.url)}`;
+  }
+  const tableId = contentSourceId('lab', JSON.stringify([candidate.headers, candidate.rows]));
+  return `portal:${family}:${normalizeHarvestUrl(candidate.pageUrl)}|${tableId}`;
+}
+
+// --- Lab tables ---
+
+function parseFlag(text: string): LabResultFlag | undefined {
+  const trimmed = text.trim();
+  if (!trimmed) return undefined;
+  const code = INTERPRETATION_FLAGS[trimmed.toUpperCase()];
+  if (code) return code;
+  const word = trimmed.toLowerCase().match(/\b(high|low|abnormal|critical)\b/);
+  return word ? (word[1] as LabResultFlag) : undefined;
+}
+
+/**
+ * Lab result rows from a portal table, matching columns by header text.
+ * Returns [] when the table has no recognizable analyte and value columns.
+ */
+export function labResultsFromTable(headers: string[], rows: string[][]): LabResultRow[] {
+  const columns: Partial<Record<keyof LabResultRow, number>> = {};
+  const taken = new Set<number>();
+  for (const { field, pattern } of LAB_COLUMNS) {
+    const index = headers.findIndex((header, column) => !taken.has(column) && pattern.test(header));
+    if (index >= 0) {
+      columns[field] = index;
+      taken.add(index);
+    }
+  }
+  if (columns.value === undefined) return [];
+  // Portals often leave the analyte column unlabeled; it is the first one left.
+  const analyteColumn = columns.analyte ?? headers.findIndex((_, column) => !taken.has(column));
+  if (analyteColumn < 0) return [];
+
+  const cell = (row: string[], column: number | undefined) => (column === undefined ? '' : (row[column] ?? '').trim());
+
+  return rows.flatMap((row): LabResultRow[] => {
+    const analyte = cell(row, analyteColumn);
+    let value = cell(row, columns.value);
+    let unit = cell(row, columns.unit);
+    if (!analyte || !value) return [];
+
+    if (!unit) {
+      const numeric = value.match(/^([<>]?=?\s*-?\d+(?:\.\d+)?)\s+(\S.*)$/);
+      if (numeric) {
+        value = numeric[1].replace(/\s+/g, '');
+        unit = numeric[2];
+      }
+    }
+    const referenceRange = cell(row, columns.referenceRange);
+    const flag = parseFlag(cell(row, columns.flag));
+
+    return [
+      {
+        analyte,
+        value,
+        ...(unit ? { unit } : {}),
+        ...(referenceRange ? { referenceRange } : {}),
+        ...(flag ? { flag } : {}),
+      },
+    ];
+  });
+}
+
+/** Candidates worth offering: documents with a URL, lab tables with readable rows. */
+export function isHarvestableCandidate(candidate: PortalHarvestCandidate): boolean {
+  return candidate.kind === 'document'
+    ? !!candidate.url
+    : labResultsFromTable(candidate.headers, candidate.rows).length > 0;
+}
+
+// --- Records ---
+
+export interface PortalHarvestSource {
+  family: PortalFamilyId;
+  /** Portal name shown to the user, e.g. 'Example Health MyChart'. */
+  portalName: string;
+  /** Health system the portal belongs to; becomes the entry's provider. */
+  provider: string;
+}
+
+function harvestDate(candidate: PortalHarvestCandidate, now: Date): string | undefined {
+  return (candidate.dateText && detectDocumentDate(candidate.dateText, now)) || undefined;
+}
+
+function attachmentFilename(title: string, download: PortalHarvestDownload, url: string): string {
+  const mimeType = download.mimeType.split(';')[0].trim().toLowerCase();
+  const urlExtension = url.split(/[?#]/)[0].match(/\.([a-z0-9]{2,4})$/i)?.[1]?.toLowerCase();
+  const extension = EXTENSION_BY_MIME[mimeType] ?? urlExtension ?? 'bin';
+  return `${slugify(title) || 'portal-document'}.${extension}`;
+}
+
+/**
+ * The importable record for a harvested item. Documents need their download;
+ * a portal answering with an HTML page (usually a login or viewer page) is
+ * rejected rather than filed.
+ */
+export function buildPortalHarvestRecord(input: {
+  candidate: PortalHarvestCandidate;
+  source: PortalHarvestSource;
+  download?: PortalHarvestDownload | null;
+  now?: Date;
+}): ImportedRecord {
+  const { candidate, source, download } = input;
+  const now = input.now ?? new Date();
+  const date = harvestDate(candidate, now);
+  const savedLine = `Saved from ${source.portalName} on ${now.toISOString().slice(0, 10)}.`;
+  const base = {
+    sourceId: portalHarvestSourceId(source.family, candidate),
+    title: candidate.title,
+    ...(date ? { date } : {}),
+    provider: source.provider,
+    sourceUrl: candidate.url ?? candidate.pageUrl,
+    portalFamily: source.family,
+  };
+
+  if (candidate.kind === 'lab_table') {
+    return {
+      ...base,
+      kind: 'lab',
+      markdown: buildLabResultMarkdown({
+        title: candidate.title,
+        lab: source.provider,
+        results: labResultsFromTable(candidate.headers, candidate.rows),
+        notes: savedLine,
+      }),
+    };
+  }
+
+  if (!download || !candidate.url) {
+    throw new Error(`"${candidate.title}" was not downloaded.`);
+  }
+  if (/^text\/html\b/i.test(download.mimeType)) {
+    throw new Error(`The portal returned a web page instead of "${candidate.title}". Open it in the portal and try again.`);
+  }
+
+  return {
+    ...base,
+    kind: 'document',
+    markdown: [`# ${candidate.title}`, '', savedLine, ''].join('\n'),
+    attachments: [
+      {
+        filename: attachmentFilename(candidate.title, download, candidate.url),
+        contentType: download.mimeType,
+        data: b64decode(download.base64Data),
+      },
+    ],
+  };
+}
@@ -1,11 +1,17 @@
 import type {
   PortalBridgeMessage,
+  PortalHarvestCandidate,
   PortalHumanRequiredReason,
   PortalNavigationAction,
   PortalPageSnapshot,
   PortalSessionState,
 } from '../../types/portal';
 
+/** Documents larger than this are not pulled through the WebView bridge. */
+export const PORTAL_HARVEST_MAX_DOCUMENT_BYTES = 25 * 1024 * 1024;
+/** Rows kept per lab table; longer tables are usually trend histories. */
+const PORTAL_HARVEST_MAX_TABLE_ROWS = 200;
+
 const AUTHENTICATED_HINTS = [
   'sign out',
   'log out',
@@ -43,6 +49,13 @@ export function buildPortalBridgeScript(): string {
       window.__limboPortalBridgeInstalled = true;
 
       var MAX_TEXT = 1800;
+      var MAX_DOWNLOAD_BYTES = ${PORTAL_HARVEST_MAX_DOCUMENT_BYTES};
+      var MAX_TABLE_ROWS = ${PORTAL_HARVEST_MAX_TABLE_ROWS};
+      var DOCUMENT_EXTENSIONS = /\\.(pdf|xml|ccda?|zip|jpe?g|png|tiff?|txt|rtf)(\\?|#|$)/i;
+      var DOCUMENT_URL_HINTS = /download|attachment|getdocument|viewdocument|printable/i;
+      var DOCUMENT_LABEL_HINTS = ['download', 'view pdf', 'view document', 'visit summary', 'after visit', 'clinical summary', 'report'];
+      var LAB_HEADER_HINTS = ['component', 'test', 'analyte', 'result', 'value', 'units', 'reference', 'range', 'flag'];
+      var DATE_PATTERN = /\\b(\\d{1,2}\\/\\d{1,2}\\/\\d{4}|\\d{4}-\\d{2}-\\d{2}|[A-Z][a-z]{2,8}\\.? \\d{1,2}, \\d{4})\\b/;
       var scheduleHandle = null;
 
       var normalizeText = function (value) {
@@ -130,6 +143,200 @@ export function buildPortalBridgeScript(): string {
         });
       };
 
+      var absoluteUrl = function (value) {
+        try {
+          return new URL(value, window.location.href).href;
+        } catch (error) {
+          return null;
+        }
+      };
+
+      var nearbyDate = function (node) {
+        var current = node;
+        for (var depth = 0; current && depth < 4; depth += 1) {
+          var text = normalizeText(current.innerText || current.textContent || '');
+          // Stop before climbing into a container that lists other items.
+          if (text.length > 400) return null;
+          var match = text.match(DATE_PATTERN);
+          if (match) return match[1];
+          current = current.parentElement;
+        }
+        return null;
+      };
+
+      var precedingHeading = function (node) {
+        var current = node;
+        for (var depth = 0; current && depth < 4; depth += 1) {
+          var sibling = current.previousElementSibling;
+          while (sibling) {
+            if (/^H[1-4]$/.test(sibling.tagName)) {
+              return truncate(sibling.innerText || sibling.textContent || '');
+            }
+            sibling = sibling.previousElementSibling;
+          }
+          current = current.parentElement;
+        }
+        return '';
+      };
+
+      var collectDocuments = function (pageUrl) {
+        var seen = {};
+        var items = [];
+        var nodes = Array.prototype.slice.call(
+          document.querySelectorAll('a[href], iframe[src], embed[src], object[data]')
+        );
+
+        nodes.forEach(function (node) {
+          var raw = node.getAttribute('href') || node.getAttribute('src') || node.getAttribute('data');
+          if (!raw || /^(javascript:|mailto:|tel:|#)/i.test(raw)) return;
+          var url = absoluteUrl(raw);
+          if (!url || seen[url]) return;
+
+          var isLink = node.tagName === 'A';
+          var label = truncate(
+            node.innerText || node.textContent || node.getAttribute('aria-label') || node.getAttribute('title') || ''
+          );
+          var lowerLabel = label.toLowerCase();
+          var type = (node.getAttribute('type') || '').toLowerCase();
+          var isDocument =
+            type.indexOf('pdf') !== -1 ||
+            DOCUMENT_EXTENSIONS.test(url) ||
+            (isLink && node.hasAttribute('download')) ||
+            (isLink && DOCUMENT_URL_HINTS.test(url)) ||
+            (isLink && DOCUMENT_LABEL_HINTS.some(function (hint) {
+              return lowerLabel.indexOf(hint) !== -1;
+            }));
+          if (!isDocument) return;
+
+          seen[url] = true;
+          var fileName = decodeURIComponent(url.split('#')[0].split('?')[0].split('/').pop() || '');
+          items.push({
+            kind: 'document',
+            title: label || node.getAttribute('download') || fileName || precedingHeading(node) || 'Portal document',
+            pageUrl: pageUrl,
+            url: url,
+            dateText: nearbyDate(node),
+            headers: [],
+            rows: []
+          });
+        });
+
+        return items;
+      };
+
+      var cellTexts = function (row) {
+        return Array.prototype.slice.call(row.querySelectorAll('th, td')).map(function (cell) {
+          return truncate(cell.innerText || cell.textContent || '');
+        });
+      };
+
+      var collectLabTables = function (pageUrl) {
+        var items = [];
+        var tables = Array.prototype.slice.call(document.querySelectorAll('table'));
+
+        tables.forEach(function (table) {
+          var rows = Array.prototype.slice.call(table.querySelectorAll('tr'));
+          if (rows.length < 2) return;
+          var headers = cellTexts(rows[0]);
+          var hits = headers.filter(function (header) {
+            var lower = header.toLowerCase();
+            return LAB_HEADER_HINTS.some(function (hint) {
+              return lower.indexOf(hint) !== -1;
+            });
+          }).length;
+          if (hits < 2) return;
+
+          var body = rows.slice(1).map(cellTexts).filter(function (cells) {
+            return cells.some(Boolean);
+          }).slice(0, MAX_TABLE_ROWS);
+          if (!body.length) return;
+
+          var caption = table.querySelector('caption');
+          items.push({
+            kind: 'lab_table',
+            title:
+              truncate(caption ? caption.innerText || caption.textContent || '' : '') ||
+              truncate(table.getAttribute('aria-label') || '') ||
+              precedingHeading(table) ||
+              truncate(document.title || '') ||
+              'Lab results',
+            pageUrl: pageUrl,
+            url: null,
+            dateText: nearbyDate(caption || table.previousElementSibling || table),
+            headers: headers,
+            rows: body
+          });
+        });
+
+        return items;
+      };
+
+      window.__limboHarvestPortalItems = function () {
+        var pageUrl = String(window.location.href || '');
+        var candidates = collectDocuments(pageUrl).concat(collectLabTables(pageUrl));
+        candidates.forEach(function (candidate, index) {
+          candidate.id = 'item-' + index;
+        });
+        post({
+          type: 'portal.harvestCandidates',
+          payload: {
+            pageUrl: pageUrl,
+            candidates: candidates
+          }
+        });
+      };
+
+      // Downloads run inside the page so the portal's own session cookies apply.
+      window.__limboDownloadPortalItem = function (request) {
+        var fail = function (error) {
+          post({
+            type: 'portal.harvestError',
+            payload: {
+              id: request.id,
+              error: String(error && error.message ? error.message : error)
+            }
+          });
+        };
+
+        fetch(request.url, { credentials: 'include' })
+          .then(function (response) {
+            if (!response.ok) {
+              throw new Error('The portal returned ' + response.status + ' for this document.');
+            }
+            if (Number(response.headers.get('content-length') || 0) > MAX_DOWNLOAD_BYTES) {
+              throw new Error('This document is too large to save from the portal.');
+            }
+            return response.blob();
+          })
+          .then(function (blob) {
+            if (blob.size > MAX_DOWNLOAD_BYTES) {
+              throw new Error('This document is too large to save from the portal.');
+            }
+            return new Promise(function (resolve, reject) {
+              var reader = new FileReader();
+              reader.onload = function () {
+                resolve({ blob: blob, dataUrl: String(reader.result || '') });
+              };
+              reader.onerror = function () {
+                reject(reader.error || new Error('Unable to read the document.'));
+              };
+              reader.readAsDataURL(blob);
+            });
+          })
+          .then(function (result) {
+            post({
+              type: 'portal.harvestDownload',
+              payload: {
+                id: request.id,
+                mimeType: result.blob.type || 'application/octet-stream',
+                base64Data: result.dataUrl.slice(result.dataUrl.indexOf(',') + 1),
+                sizeBytes: result.blob.size
+              }
+            });
+          })
+          .catch(fail);
+      };
+
       var scheduleCollect = function () {
         if (scheduleHandle) {
           clearTimeout(scheduleHandle);
@@ -181,6 +388,37 @@ export function buildPortalBridgeScript(): string {
   `;
 }
 
+function safeSerialize<T>(value: T): string {
+  return JSON.stringify(value).replace(/</g, '\\u003c');
+}
+
+/** Scan the current page for documents and lab tables; answers with portal.harvestCandidates. */
+export function buildPortalHarvestScript(): string {
+  return 'window.__limboHarvestPortalItems && window.__limboHarvestPortalItems(); true;';
+}
+
+/** Download one harvested document; answers with portal.harvestDownload or portal.harvestError. */
+export function buildPortalDownloadScript(candidate: Pick<PortalHarvestCandidate, 'id' | 'url'>): string {
+  const payload = safeSerialize({ id: candidate.id, url: candidate.url });
+  return `
+    (function () {
+      var payload = ${payload};
+      if (!window.__limboDownloadPortalItem || !payload.url) {
+        if (window.ReactNativeWebView) {
+          window.ReactNativeWebView.postMessage(JSON.stringify({
+            type: 'portal.harvestError',
+            payload: { id: payload.id, error: 'This page can no longer download that document.' }
+          }));
+        }
+        return true;
+      }
+      window.__limboDownloadPortalItem(payload);
+      return true;
+    })();
+    true;
+  `;
+}
+
 function containsAny(haystack: string, needles: string[]): boolean {
   return needles.some((needle) => haystack.includes(needle));
 }
@@ -1,6 +1,7 @@
 import { API_BASE_URL } from '../../constants/api';
 import type {
   HospitalSystemOption,
+  RecordsRequestFaxJob,
   RecordsRequestPacket,
   RecordsWorkflowAutofillBinding,
 } from '../../types/recordsRequest';
@@ -197,6 +198,17 @@ interface ApiRecordsWizardSession {
   step: ApiRecordsWizardStep | null;
 }
 
+interface ApiFaxJob {
+  id: string;
+  status: RecordsRequestFaxJob['status'];
+  request_status: RecordsRequestFaxJob['requestStatus'];
+  attempts: number;
+  max_attempts: number;
+  last_error: string | null;
+  delivered_at: string | null;
+  updated_at: string;
+}
+
 type ApiAutofillBinding =
   | {
       type: 'field_text';
@@ -408,6 +420,19 @@ function mapWizardSession(session: ApiRecordsWizardSession): RecordsWizardSessio
   };
 }
 
+function mapFaxJob(job: ApiFaxJob): RecordsRequestFaxJob {
+  return {
+    id: job.id,
+    status: job.status,
+    requestStatus: job.request_status,
+    attempts: job.attempts,
+    maxAttempts: job.max_attempts,
+    lastError: job.last_error,
+    deliveredAt: job.delivered_at,
+    updatedAt: job.updated_at,
+  };
+}
+
 export async function fetchHospitalSystems(
   searchQuery = '',
   options?: { signal?: AbortSignal; stateCode?: string },
@@ -596,3 +621,51 @@ export async function closeRecordsWizardSession(sessionId: string): Promise<void
     throw new Error(`Unable to close the wizard session (status ${response.status}).`);
   }
 }
+
+/**
+ * Fax a generated request PDF to the hospital. The API adds a cover sheet
+ * and retries on its own; poll fetchRecordsRequestFaxJob for delivery.
+ * Requires sign-in, and `to` must be a fax number from the hospital's packet.
+ */
+export async function sendRecordsRequestFax(
+  input: {
+    hospitalSystemId: string;
+    hospitalSystemName: string;
+    to: string;
+    sender: { name: string; phone: string; email: string };
+    pdfBase64: string;
+  },
+  jwt: string,
+): Promise<RecordsRequestFaxJob> {
+  const data = await fetchJson<{ fax_job: ApiFaxJob }>('/fax-jobs', {
+    method: 'POST',
+    headers: {
+      'content-type': 'application/json',
+      Authorization: `Bearer ${jwt}`,
+    },
+    body: JSON.stringify({
+      to: input.to,
+      hospital_system_id: input.hospitalSystemId,
+      hospital_system_name: input.hospitalSystemName,
+      sender: input.sender,
+      pdf_base64: input.pdfBase64,
+    }),
+  });
+
+  return mapFaxJob(data.fax_job);
+}
+
+export async function fetchRecordsRequestFaxJob(faxJobId: string, jwt: string): Promise<RecordsRequestFaxJob> {
+  const data = await fetchJson<{ fax_job: ApiFaxJob }>(`/fax-jobs/${encodeURIComponent(faxJobId)}`, {
+    headers: { Authorization: `Bearer ${jwt}` },
+  });
+  return mapFaxJob(data.fax_job);
+}
+
+/**
+ * The raw portal adapter document. It is left unmapped here because
+ * parsePortalAdapterCatalog validates it before anything uses it.
+ */
+export async function fetchPortalAdapterDocument(schemaVersion: number): Promise<unknown> {
+  return fetchJson<unknown>(`/portal-adapters?schema_version=${schemaVersion}`);
+}
@@ -0,0 +1,183 @@
+// core/recordsWorkflow/dicom.ts
+// Reads the few study-level tags we file imaging by (study date, modality,
+// description, institution) from DICOM Part 10 files, as found on the CDs
+// hospitals burn. Only the header is parsed; pixel data is never decoded.
+
+export interface DicomStudyInfo {
+  studyInstanceUid: string | null;
+  /** YYYY-MM-DD */
+  studyDate: string | null;
+  modality: string | null;
+  studyDescription: string | null;
+  institutionName: string | null;
+  referringPhysician: string | null;
+}
+
+const PREAMBLE_LENGTH = 128;
+const IMPLICIT_VR_LITTLE_ENDIAN = '1.2.840.10008.1.2';
+const UNDEFINED_LENGTH = 0xffffffff;
+const LONG_LENGTH_VRS = new Set(['OB', 'OD', 'OF', 'OL', 'OV', 'OW', 'SQ', 'SV', 'UC', 'UN', 'UR', 'UT', 'UV']);
+/** Everything we read sits in groups 0002-0020; stop before patient data and pixels. */
+const LAST_GROUP = 0x0020;
+
+const ITEM = 0xfffee000;
+const ITEM_DELIMITATION = 0xfffee00d;
+const SEQUENCE_DELIMITATION = 0xfffee0dd;
+
+const TAGS = {
+  transferSyntax: 0x00020010,
+  studyDate: 0x00080020,
+  modality: 0x00080060,
+  institutionName: 0x00080080,
+  referringPhysician: 0x00080090,
+  studyDescription: 0x00081030,
+  studyInstanceUid: 0x0020000d,
+};
+
+export function isDicom(bytes: Uint8Array): boolean {
+  return (
+    bytes.length > PREAMBLE_LENGTH + 4 &&
+    bytes[PREAMBLE_LENGTH] === 0x44 &&
+    bytes[PREAMBLE_LENGTH + 1] === 0x49 &&
+    bytes[PREAMBLE_LENGTH + 2] === 0x43 &&
+    bytes[PREAMBLE_LENGTH + 3] === 0x4d
+  );
+}
+
+class Cursor {
+  offset: number;
+  explicit = true;
+
+  constructor(readonly view: DataView, offset: number) {
+    this.offset = offset;
+  }
+
+  get done(): boolean {
+    return this.offset + 8 > this.view.byteLength;
+  }
+
+  readTag(): number {
+    const group = this.view.getUint16(this.offset, true);
+    const element = this.view.getUint16(this.offset + 2, true);
+    this.offset += 4;
+    return ((group << 16) | element) >>> 0;
+  }
+
+  /** Value length after a tag; item and delimiter tags never carry a VR. */
+  readLength(tag: number): number {
+    if (tag >>> 16 === 0xfffe || !this.explicit) {
+      const length = this.view.getUint32(this.offset, true);
+      this.offset += 4;
+      return length;
+    }
+
+    const vr = String.fromCharCode(this.view.getUint8(this.offset), this.view.getUint8(this.offset + 1));
+    if (LONG_LENGTH_VRS.has(vr)) {
+      const length = this.view.getUint32(this.offset + 4, true);
+      this.offset += 8;
+      return length;
+    }
+    const length = this.view.getUint16(this.offset + 2, true);
+    this.offset += 4;
+    return length;
+  }
+
+  readString(length: number): string {
+    const bytes = new Uint8Array(this.view.buffer, this.view.byteOffset + this.offset, length);
+    this.offset += length;
+    return Array.from(bytes, (byte) => String.fromCharCode(byte)).join('').replace(/[\0\s]+$/, '').trim();
+  }
+
+  /** Skip an undefined-length sequence or item, including nested sequences. */
+  skipUndefined(endTag: number): void {
+    while (!this.done) {
+      const tag = this.readTag();
+      const length = this.readLength(tag);
+      if (tag === endTag) return;
+      if (tag === ITEM) {
+        if (length === UNDEFINED_LENGTH) this.skipUndefined(ITEM_DELIMITATION);
+        else this.offset += length;
+        continue;
+      }
+      if (length === UNDEFINED_LENGTH) this.skipUndefined(SEQUENCE_DELIMITATION);
+      else this.offset += length;
+    }
+  }
+}
+
+function formatDicomDate(value: string): string | null {
+  const match = /^(\d{4})(\d{2})(\d{2})/.exec(value.replace(/[.\-]/g, ''));
+  return match ? `${match[1]}-${match[2]}-${match[3]}` : null;
+}
+
+/** Person names are stored as Family^Given^Middle^Prefix^Suffix. */
+function formatPersonName(value: string): string | null {
+  const [family = '', given = '', middle = '', prefix = '', suffix = ''] = value.split('=')[0].split('^');
+  const name = [prefix, given, middle, family, suffix].map((part) => part.trim()).filter(Boolean).join(' ');
+  return name || null;
+}
+
+/** Study tags from a DICOM file, or null when it is not a Part 10 file we can read. */
+export function readDicomStudyInfo(bytes: Uint8Array): DicomStudyInfo | null {
+  if (!isDicom(bytes)) return null;
+
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const cursor = new Cursor(view, PREAMBLE_LENGTH + 4);
+  let datasetExplicit = true;
+  const info: DicomStudyInfo = {
+    studyInstanceUid: null,
+    studyDate: null,
+    modality: null,
+    studyDescription: null,
+    institutionName: null,
+    referringPhysician: null,
+  };
+
+  try {
+    while (!cursor.done) {
+      const group = view.getUint16(cursor.offset, true);
+      if (group > LAST_GROUP) break;
+      // The file meta group is always explicit VR; the dataset follows its transfer syntax.
+      cursor.explicit = group === 0x0002 || datasetExplicit;
+
+      const tag = cursor.readTag();
+      const length = cursor.readLength(tag);
+      if (length === UNDEFINED_LENGTH) {
+        cursor.skipUndefined(SEQUENCE_DELIMITATION);
+        continue;
+      }
+      if (cursor.offset + length > view.byteLength) break;
+
+      switch (tag) {
+        case TAGS.transferSyntax:
+          datasetExplicit = cursor.readString(length) !== IMPLICIT_VR_LITTLE_ENDIAN;
+          break;
+        case TAGS.studyDate:
+          info.studyDate = formatDicomDate(cursor.readString(length));
+          break;
+        case TAGS.modality:
+          info.modality = cursor.readString(length) || null;
+          break;
+        case TAGS.institutionName:
+          info.institutionName = cursor.readString(length) || null;
+          break;
+        case TAGS.referringPhysician:
+          info.referringPhysician = formatPersonName(cursor.readString(length));
+          break;
+        case TAGS.studyDescription:
+          info.studyDescription = cursor.readString(length) || null;
+          break;
+        case TAGS.studyInstanceUid:
+          info.studyInstanceUid = cursor.readString(length) || null;
+          break;
+        default:
+          cursor.offset += length;
+          break;
+      }
+    }
+  } catch {
+    // A truncated header still yields whatever was read before it.
+  }
+
+  return info;
+}
@@ -0,0 +1,100 @@
+// core/recordsWorkflow/escalation.ts
+// Pre-written follow-up letters for records requests that missed their
+// HIPAA deadline. Plain text, so they can go out by email, fax or post.
+
+import type { BioProfile } from '../../types/bio';
+import type { TrackedRecordsRequest } from '../../types/recordsRequest';
+import { RECORDS_REQUEST_CHANNEL_LABELS, computeRecordsRequestDeadlines } from './ledger';
+
+export type EscalationStage = 'overdue' | 'extension_overdue';
+
+export interface EscalationLetter {
+  subject: string;
+  body: string;
+}
+
+const OCR_COMPLAINT_URL = 'https://www.hhs.gov/ocr/complaints';
+
+function formatLetterDate(iso: string): string {
+  const date = new Date(iso);
+  return date.toLocaleDateString('en-US', {
+    year: 'numeric',
+    month: 'long',
+    day: 'numeric',
+    timeZone: 'UTC',
+  });
+}
+
+function patientBlock(patient: Pick<BioProfile, 'fullName' | 'dateOfBirth' | 'phoneNumber' | 'email'> | null): string[] {
+  if (!patient) return [];
+  return [
+    patient.fullName ? `Patient: ${patient.fullName}` : '',
+    patient.dateOfBirth ? `Date of birth: ${patient.dateOfBirth}` : '',
+    patient.phoneNumber ? `Phone: ${patient.phoneNumber}` : '',
+    patient.email ? `Email: ${patient.email}` : '',
+  ].filter(Boolean);
+}
+
+export function buildEscalationLetter(
+  request: TrackedRecordsRequest,
+  stage: EscalationStage,
+  patient: Pick<BioProfile, 'fullName' | 'dateOfBirth' | 'phoneNumber' | 'email'> | null,
+  now: Date = new Date(),
+): EscalationLetter {
+  const { responseDueAt, extendedDueAt } = computeRecordsRequestDeadlines(request.sentAt);
+  const hospital = request.hospitalSystem.name;
+  const sentOn = formatLetterDate(request.sentAt);
+  const channel = RECORDS_REQUEST_CHANNEL_LABELS[request.channel].toLowerCase();
+  const formLine = request.formName ? ` using your form "${request.formName}"` : '';
+  const signature = patient?.fullName || '';
+  const patientLines = patientBlock(patient);
+
+  const opening = [
+    formatLetterDate(now.toISOString()),
+    '',
+    `${hospital} — Health Information Management / Release of Information`,
+    '',
+    ...(patientLines.length > 0 ? [...patientLines, ''] : []),
+    'To whom it may concern:',
+    '',
+  ];
+
+  if (stage === 'overdue') {
+    return {
+      subject: `Follow-up: medical records request sent ${sentOn}`,
+      body: [
+        ...opening,
+        `On ${sentOn} I sent a request by ${channel}${formLine} for access to my medical records. ` +
+          `Under the HIPAA Privacy Rule (45 CFR 164.524(b)(2)), you must act on an access request no later than 30 days after receiving it. ` +
+          `That period ended on ${formatLetterDate(responseDueAt)}, and I have not received my records or a written notice of delay.`,
+        '',
+        'Please send the requested records right away. If you need more time, the rule allows a single 30-day extension only ' +
+          'with a written statement of the reasons for the delay and the date by which you will complete the request.',
+        '',
+        'Please confirm receipt of this letter and tell me when I can expect the records.',
+        '',
+        'Sincerely,',
+        signature,
+      ].join('\n').trimEnd() + '\n',
+    };
+  }
+
+  return {
+    subject: `Second follow-up: medical records request sent ${sentOn} is past the HIPAA deadline`,
+    body: [
+      ...opening,
+      `On ${sentOn} I sent a request by ${channel}${formLine} for access to my medical records. ` +
+        `Even with the one 30-day extension permitted by 45 CFR 164.524(b)(2), the deadline to act on it was ${formatLetterDate(extendedDueAt)}. ` +
+        'No further extension is allowed, and I still have not received my records or a written denial.',
+      '',
+      'Please provide the records within 10 days of this letter. If any part of the request is being denied, ' +
+        'I ask for a written denial stating the basis for it and how I can request a review, as required by 45 CFR 164.524(d).',
+      '',
+      'If I do not hear from you, I intend to file a complaint with the U.S. Department of Health and Human Services, ' +
+        `Office for Civil Rights (${OCR_COMPLAINT_URL}).`,
+      '',
+      'Sincerely,',
+      signature,
+    ].join('\n').trimEnd() + '\n',
+  };
+}
@@ -0,0 +1,355 @@
+// core/recordsWorkflow/ledger.ts
+// Tracks records requests after they leave the app. Each request keeps its
+// hospital, channel and sent date on this device (owner-scoped, like portal
+// profiles); the sent PDF itself goes into a binder as an encrypted sidecar.
+//
+// HIPAA (45 CFR 164.524(b)(2)) gives a covered entity 30 days to act on an
+// access request and one 30-day extension if it tells the patient in writing,
+// with reasons, before the first 30 days run out. The clock is counted from
+// the sent date here; mail adds a few days the hospital will argue about.
+// A fax sent from the app only counts as sent once the provider confirms
+// delivery, and its sent date becomes the delivery time.
+
+import type { MedicalDocument } from '../../types/document';
+import type {
+  HospitalSystemOption,
+  RecordsRequestChannel,
+  RecordsRequestFaxJob,
+  RecordsRequestReceivedRecords,
+  RecordsRequestStatus,
+  TrackedRecordsRequest,
+} from '../../types/recordsRequest';
+import type { PendingSidecarWrite } from '../binder/BinderService';
+import { slugify } from '../binder/FileNaming';
+import { encodeOwnerScope } from '../portal/storageScope';
+
+interface JsonStoreAdapter {
+  getItemAsync(key: string): Promise<string | null>;
+  setItemAsync(key: string, value: string): Promise<void>;
+  deleteItemAsync(key: string): Promise<void>;
+}
+
+const STORAGE_KEY_PREFIX = 'limbo.records_requests.v1';
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const HIPAA_RESPONSE_DAYS = 30;
+export const HIPAA_EXTENSION_DAYS = 30;
+/** Days after a follow-up letter before the same deadline prompts again. */
+export const FOLLOW_UP_REPEAT_DAYS = 14;
+
+export const RECORDS_REQUEST_CHANNEL_LABELS: Record<RecordsRequestChannel, string> = {
+  email: 'Email',
+  fax: 'Fax',
+  mail: 'Mail',
+  portal: 'Portal',
+};
+
+export const RECORDS_REQUEST_STATUS_LABELS: Record<RecordsRequestStatus, string> = {
+  sent: 'Sent',
+  acknowledged: 'Acknowledged',
+  fulfilled: 'Fulfilled',
+  denied: 'Denied',
+};
+
+export const RECORDS_REQUEST_FOLDER = 'records-requests';
+
+// --- Deadlines ---
+
+export interface RecordsRequestDeadlines {
+  responseDueAt: string;
+  extendedDueAt: string;
+}
+
+function addDays(iso: string, days: number): string {
+  return new Date(Date.parse(iso) + days * DAY_MS).toISOString();
+}
+
+export function computeRecordsRequestDeadlines(sentAt: string): RecordsRequestDeadlines {
+  return {
+    responseDueAt: addDays(sentAt, HIPAA_RESPONSE_DAYS),
+    extendedDueAt: addDays(sentAt, HIPAA_RESPONSE_DAYS + HIPAA_EXTENSION_DAYS),
+  };
+}
+
+/**
+ * - undelivered: the app's fax is still sending or failed; no clock yet
+ * - closed: fulfilled or denied, nothing left to chase
+ * - waiting: inside the first 30 days
+ * - extended: the hospital took the extension and the second 30 days are running
+ * - overdue: 30 days passed without records or an extension notice
+ * - extension_overdue: 60 days passed; no further extension is allowed
+ */
+export type RecordsRequestFollowUpStage =
+  | 'undelivered'
+  | 'closed'
+  | 'waiting'
+  | 'extended'
+  | 'overdue'
+  | 'extension_overdue';
+
+export interface RecordsRequestFollowUp {
+  stage: RecordsRequestFollowUpStage;
+  /** The deadline that currently applies; null once closed. */
+  dueAt: string | null;
+  /** Whole days until dueAt, negative once it has passed. */
+  daysRemaining: number | null;
+  /** True when a follow-up letter should be offered now. */
+  needsFollowUp: boolean;
+}
+
+export function getRecordsRequestFollowUp(
+  request: TrackedRecordsRequest,
+  now: Date = new Date(),
+): RecordsRequestFollowUp {
+  if (request.status === 'fulfilled' || request.status === 'denied') {
+    return { stage: 'closed', dueAt: null, daysRemaining: null, needsFollowUp: false };
+  }
+  if (request.faxJob && request.faxJob.requestStatus !== 'sent') {
+    return { stage: 'undelivered', dueAt: null, daysRemaining: null, needsFollowUp: false };
+  }
+
+  const { responseDueAt, extendedDueAt } = computeRecordsRequestDeadlines(request.sentAt);
+  const nowMs = now.getTime();
+  let stage: RecordsRequestFollowUpStage;
+  let dueAt: string;
+
+  if (nowMs > Date.parse(extendedDueAt)) {
+    stage = 'extension_overdue';
+    dueAt = extendedDueAt;
+  } else if (request.extensionNoticeAt) {
+    stage = 'extended';
+    dueAt = extendedDueAt;
+  } else if (nowMs > Date.parse(responseDueAt)) {
+    stage = 'overdue';
+    dueAt = responseDueAt;
+  } else {
+    stage = 'waiting';
+    dueAt = responseDueAt;
+  }
+
+  const lastLetter = [...request.followUps].reverse().find((followUp) => followUp.stage === stage);
+  const needsFollowUp =
+    (stage === 'overdue' || stage === 'extension_overdue') &&
+    (!lastLetter || nowMs - Date.parse(lastLetter.sentAt) >= FOLLOW_UP_REPEAT_DAYS * DAY_MS);
+
+  return {
+    stage,
+    dueAt,
+    daysRemaining: Math.ceil((Date.parse(dueAt) - nowMs) / DAY_MS),
+    needsFollowUp,
+  };
+}
+
+// --- Request records ---
+
+export interface NewTrackedRecordsRequestInput {
+  hospitalSystem: HospitalSystemOption;
+  formName: string | null;
+  channel: RecordsRequestChannel;
+  destination: string | null;
+  sentAt?: string;
+  faxJob?: RecordsRequestFaxJob | null;
+}
+
+export function createTrackedRecordsRequest(
+  input: NewTrackedRecordsRequestInput,
+  now: Date = new Date(),
+): TrackedRecordsRequest {
+  const sentAt = input.sentAt ?? now.toISOString();
+  const request: TrackedRecordsRequest = {
+    id: `${Date.parse(sentAt).toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+    hospitalSystem: input.hospitalSystem,
+    formName: input.formName?.trim() || null,
+    channel: input.channel,
+    destination: input.destination?.trim() || null,
+    sentAt,
+    status: 'sent',
+    statusUpdatedAt: sentAt,
+    extensionNoticeAt: null,
+    followUps: [],
+    pdfCopy: null,
+    faxJob: null,
+    receivedRecords: [],
+    notes: '',
+  };
+  return input.faxJob ? withFaxJob(request, input.faxJob) : request;
+}
+
+export function withRecordsRequestStatus(
+  request: TrackedRecordsRequest,
+  status: RecordsRequestStatus,
+  now: Date = new Date(),
+): TrackedRecordsRequest {
+  if (request.status === status) return request;
+  return { ...request, status, statusUpdatedAt: now.toISOString() };
+}
+
+export function withExtensionNotice(
+  request: TrackedRecordsRequest,
+  now: Date = new Date(),
+): TrackedRecordsRequest {
+  return { ...request, extensionNoticeAt: request.extensionNoticeAt ?? now.toISOString() };
+}
+
+export function withFollowUpSent(
+  request: TrackedRecordsRequest,
+  stage: 'overdue' | 'extension_overdue',
+  now: Date = new Date(),
+): TrackedRecordsRequest {
+  return { ...request, followUps: [...request.followUps, { stage, sentAt: now.toISOString() }] };
+}
+
+/** Record the latest fax job state; delivery moves sentAt to the delivery time. */
+export function withFaxJob(request: TrackedRecordsRequest, faxJob: RecordsRequestFaxJob): TrackedRecordsRequest {
+  if (faxJob.status === 'delivered' && faxJob.deliveredAt) {
+    return { ...request, faxJob, sentAt: faxJob.deliveredAt, statusUpdatedAt: faxJob.deliveredAt };
+  }
+  return { ...request, faxJob };
+}
+
+/** Record a batch of received records; receiving them fulfills the request. */
+export function withReceivedRecords(
+  request: TrackedRecordsRequest,
+  received: RecordsRequestReceivedRecords,
+): TrackedRecordsRequest {
+  const next = { ...request, receivedRecords: [...request.receivedRecords, received] };
+  return withRecordsRequestStatus(next, 'fulfilled', new Date(received.receivedAt));
+}
+
+/** True while the server may still change the fax job's status. */
+export function isFaxDeliveryPending(request: TrackedRecordsRequest): boolean {
+  return request.faxJob?.status === 'queued' || request.faxJob?.status === 'sending';
+}
+
+function normalizeRequest(request: TrackedRecordsRequest): TrackedRecordsRequest {
+  return {
+    ...request,
+    formName: request.formName ?? null,
+    destination: request.destination ?? null,
+    extensionNoticeAt: request.extensionNoticeAt ?? null,
+    followUps: Array.isArray(request.followUps) ? request.followUps : [],
+    pdfCopy: request.pdfCopy ?? null,
+    faxJob: request.faxJob ?? null,
+    receivedRecords: Array.isArray(request.receivedRecords) ? request.receivedRecords : [],
+    notes: request.notes ?? '',
+  };
+}
+
+function sortRequests(left: TrackedRecordsRequest, right: TrackedRecordsRequest): number {
+  return Date.parse(right.sentAt) - Date.parse(left.sentAt);
+}
+
+export class RecordsRequestLedger {
+  private readonly store: JsonStoreAdapter;
+  private readonly storageKey: string;
+
+  constructor(store: JsonStoreAdapter, ownerKey: string) {
+    this.store = store;
+    this.storageKey = `${STORAGE_KEY_PREFIX}.${encodeOwnerScope(ownerKey)}`;
+  }
+
+  async listRequests(): Promise<TrackedRecordsRequest[]> {
+    const raw = await this.store.getItemAsync(this.storageKey);
+    if (!raw) {
+      return [];
+    }
+
+    try {
+      const parsed = JSON.parse(raw) as TrackedRecordsRequest[];
+      if (!Array.isArray(parsed)) {
+        return [];
+      }
+
+      return parsed.map(normalizeRequest).sort(sortRequests);
+    } catch (_error) {
+      return [];
+    }
+  }
+
+  async getRequest(requestId: string): Promise<TrackedRecordsRequest | null> {
+    const requests = await this.listRequests();
+    return requests.find((request) => request.id === requestId) ?? null;
+  }
+
+  async upsertRequest(request: TrackedRecordsRequest): Promise<TrackedRecordsRequest[]> {
+    const normalized = normalizeRequest(request);
+    const requests = await this.listRequests();
+    const nextRequests = requests.some((candidate) => candidate.id === normalized.id)
+      ? requests.map((candidate) => (candidate.id === normalized.id ? normalized : candidate))
+      : [...requests, normalized];
+
+    const sortedRequests = nextRequests.sort(sortRequests);
+    await this.store.setItemAsync(this.storageKey, JSON.stringify(sortedRequests));
+    return sortedRequests;
+  }
+
+  async deleteRequest(requestId: string): Promise<TrackedRecordsRequest[]> {
+    const requests = await this.listRequests();
+    const nextRequests = requests.filter((request) => request.id !== requestId);
+
+    if (nextRequests.length === 0) {
+      await this.store.deleteItemAsync(this.storageKey);
+      return [];
+    }
+
+    await this.store.setItemAsync(this.storageKey, JSON.stringify(nextRequests));
+    return nextRequests;
+  }
+}
+
+// --- Binder copy ---
+
+function formatLedgerDate(iso: string): string {
+  return iso.slice(0, 10);
+}
+
+/**
+ * The binder entry holding the sent PDF: a short summary as the value, the
+ * PDF as an attachment child pointing at the sidecar handed to
+ * addEntryWithSidecars.
+ */
+export function buildRecordsRequestCopyDocument(
+  request: TrackedRecordsRequest,
+  pdfBase64: string,
+  sizeBytes: number,
+): { doc: MedicalDocument; sidecars: PendingSidecarWrite[] } {
+  const { responseDueAt, extendedDueAt } = computeRecordsRequestDeadlines(request.sentAt);
+  const sidecarFilename =
+    `${formatLedgerDate(request.sentAt)}-records-request-${slugify(request.hospitalSystem.name)}.pdf.enc`;
+  const sentLine = request.destination
+    ? `Sent: ${formatLedgerDate(request.sentAt)} by ${RECORDS_REQUEST_CHANNEL_LABELS[request.channel].toLowerCase()} to ${request.destination}`
+    : `Sent: ${formatLedgerDate(request.sentAt)} by ${RECORDS_REQUEST_CHANNEL_LABELS[request.channel].toLowerCase()}`;
+  const lines = [
+    `# Records request — ${request.hospitalSystem.name}`,
+    '',
+    sentLine,
+    ...(request.formName ? [`Form: ${request.formName}`] : []),
+    `Response due: ${formatLedgerDate(responseDueAt)} (${formatLedgerDate(extendedDueAt)} with extension)`,
+    '',
+  ];
+
+  return {
+    doc: {
+      value: lines.join('\n'),
+      metadata: {
+        type: 'note',
+        created: request.sentAt,
+        tags: ['records-request'],
+      },
+      children: [
+        {
+          value: sidecarFilename,
+          metadata: {
+            type: 'attachment_ref',
+            created: request.sentAt,
+            format: 'pdf',
+            encoding: 'base64',
+            originalSizeBytes: sizeBytes,
+          },
+          children: [],
+        },
+      ],
+    },
+    sidecars: [{ sidecarFilename, base64Data: pdfBase64 }],
+  };
+}
@@ -189,7 +189,7 @@ function buildCurrentDateValue() {
   return `${month}/${day}/${year}`;
 }
 
-function hexToPdfColor(hexColor: string) {
+export function hexToPdfColor(hexColor: string) {
   const normalized = hexColor.replace('#', '');
   const value = normalized.length === 3
     ? normalized.split('').map((part) => part + part).join('')
@@ -677,11 +677,25 @@ function applySignatureOverlays(
   return appliedCount;
 }
 
+/** Embed a PNG or JPEG; anything that isn't PNG is treated as JPEG. */
+export async function embedRasterImage(pdf: PDFDocument, imageBytes: Uint8Array, mimeType: string) {
+  return /png/i.test(mimeType) ? pdf.embedPng(imageBytes) : pdf.embedJpg(imageBytes);
+}
+
+/** Write a generated PDF to the temp dir (for the share sheet) and return its file:// uri. */
+export async function writeTemporaryPdf(pdfBytes: Uint8Array, baseName: string) {
+  const slug = baseName
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+  const filePath = `${RNFS.TemporaryDirectoryPath}/${slug || 'document'}.pdf`;
+  await RNFS.writeFile(filePath, encodeBase64(pdfBytes), 'base64');
+  return `file://${filePath}`;
+}
+
 async function appendIdPage(pdf: PDFDocument, idAttachment: RecordsRequestIdAttachment) {
   const imageBytes = decodeBase64(idAttachment.base64Data);
-  const image = /png/i.test(idAttachment.mimeType)
-    ? await pdf.embedPng(imageBytes)
-    : await pdf.embedJpg(imageBytes);
+  const image = await embedRasterImage(pdf, imageBytes, idAttachment.mimeType);
 
   const pageWidth = 612;
   const pageHeight = 792;
@@ -1085,16 +1099,14 @@ export async function generateRecordsRequestPdf(input: GenerateRecordsRequestPdf
   }
 
   const pdfBytes = await pdf.save();
-  const fileName = `${input.packet.hospitalSystem.name
+  const hospitalSlug = input.packet.hospitalSystem.name
     .toLowerCase()
     .replace(/[^a-z0-9]+/g, '-')
-    .replace(/^-+|-+$/g, '') || 'records-request'}-filled.pdf`;
-  const filePath = `${RNFS.TemporaryDirectoryPath}/${fileName}`;
-
-  await RNFS.writeFile(filePath, encodeBase64(pdfBytes), 'base64');
+    .replace(/^-+|-+$/g, '');
+  const uri = await writeTemporaryPdf(pdfBytes, `${hospitalSlug || 'records-request'}-filled`);
 
   return {
-    uri: `file://${filePath}`,
+    uri,
     filledFieldCount: filledCount,
     formName: selectedForm.name,
     formKey: buildTemplateCacheKey(selectedForm),
@@ -0,0 +1,223 @@
+// core/recordsWorkflow/pdfText.ts
+// Best-effort text extraction from PDFs hospitals send back. Walks each
+// page's content streams and collects the strings shown by the text
+// operators. Simple-font text (most generated reports) comes out readable;
+// scanned pages have no text, and CID-font text that does not decode to
+// letters is dropped rather than filed as gibberish.
+
+import { PDFArray, PDFDocument, PDFRawStream, PDFRef, decodePDFRawStream } from 'pdf-lib';
+
+type Operand = string | number | Operand[];
+
+const WHITESPACE = new Set([0x00, 0x09, 0x0a, 0x0c, 0x0d, 0x20]);
+const DELIMITERS = new Set(['(', ')', '<', '>', '[', ']', '{', '}', '/', '%']);
+/** TJ offsets (thousandths of an em) wider than this read as a word gap. */
+const TJ_SPACE_THRESHOLD = -200;
+
+function contentStreamBytes(pdf: PDFDocument, pageIndex: number): Uint8Array[] {
+  const contents = pdf.getPage(pageIndex).node.Contents();
+  if (!contents) return [];
+
+  const streams = contents instanceof PDFArray
+    ? contents.asArray().map((item) => (item instanceof PDFRef ? pdf.context.lookup(item) : item))
+    : [contents];
+
+  return streams.flatMap((stream) => {
+    if (!(stream instanceof PDFRawStream)) return [];
+    try {
+      return [decodePDFRawStream(stream).decode()];
+    } catch {
+      return [];
+    }
+  });
+}
+
+function bytesToLatin1(bytes: Uint8Array): string {
+  let text = '';
+  for (let index = 0; index < bytes.length; index += 1) {
+    text += String.fromCharCode(bytes[index]);
+  }
+  return text;
+}
+
+/** Two-byte strings whose high bytes are zero are UCS-2; anything else is one byte per glyph. */
+function decodeShownBytes(bytes: number[]): string {
+  if (bytes.length >= 2 && bytes.length % 2 === 0) {
+    let highZero = 0;
+    for (let index = 0; index < bytes.length; index += 2) {
+      if (bytes[index] === 0) highZero += 1;
+    }
+    if (highZero === bytes.length / 2) {
+      let text = '';
+      for (let index = 0; index < bytes.length; index += 2) {
+        text += String.fromCharCode((bytes[index] << 8) | bytes[index + 1]);
+      }
+      return text;
+    }
+  }
+  return String.fromCharCode(...bytes);
+}
+
+/** Tokenize a content stream and return the text it shows, one line per text line. */
+export function extractContentStreamText(source: string): string {
+  const lines: string[] = [];
+  let line = '';
+  let stack: Operand[] = [];
+  const arrays: Operand[][] = [];
+  let index = 0;
+
+  const push = (operand: Operand) => {
+    if (arrays.length > 0) arrays[arrays.length - 1].push(operand);
+    else stack.push(operand);
+  };
+  const breakLine = () => {
+    if (line.trim()) lines.push(line.replace(/\s+/g, ' ').trim());
+    line = '';
+  };
+  const show = (operand: Operand | undefined) => {
+    if (typeof operand === 'string') {
+      line += operand;
+    } else if (Array.isArray(operand)) {
+      for (const part of operand) {
+        if (typeof part === 'string') line += part;
+        else if (typeof part === 'number' && part < TJ_SPACE_THRESHOLD) line += ' ';
+      }
+    }
+  };
+
+  while (index < source.length) {
+    const char = source[index];
+    const code = source.charCodeAt(index);
+
+    if (WHITESPACE.has(code)) {
+      index += 1;
+    } else if (char === '%') {
+      while (index < source.length && source[index] !== '\n' && source[index] !== '\r') index += 1;
+    } else if (char === '(') {
+      const bytes: number[] = [];
+      let depth = 1;
+      index += 1;
+      while (index < source.length && depth > 0) {
+        const next = source[index];
+        if (next === '\\') {
+          const escaped = source[index + 1];
+          const octal = /^[0-7]{1,3}/.exec(source.slice(index + 1, index + 4));
+          if (octal) {
+            bytes.push(Number.parseInt(octal[0], 8) & 0xff);
+            index += 1 + octal[0].length;
+            continue;
+          }
+          const mapped: Record<string, number> = { n: 10, r: 13, t: 9, b: 8, f: 12 };
+          if (escaped in mapped) bytes.push(mapped[escaped]);
+          else if (escaped !== '\n' && escaped !== '\r') bytes.push(escaped.charCodeAt(0));
+          index += 2;
+          continue;
+        }
+        if (next === '(') depth += 1;
+        if (next === ')') depth -= 1;
+        if (depth > 0) bytes.push(source.charCodeAt(index));
+        index += 1;
+      }
+      push(decodeShownBytes(bytes));
+    } else if (char === '<' && source[index + 1] === '<') {
+      index += 2;
+    } else if (char === '>' && source[index + 1] === '>') {
+      index += 2;
+    } else if (char === '<') {
+      const end = source.indexOf('>', index);
+      const hex = source.slice(index + 1, end < 0 ? source.length : end).replace(/[^0-9a-f]/gi, '');
+      const bytes: number[] = [];
+      for (let offset = 0; offset < hex.length; offset += 2) {
+        bytes.push(Number.parseInt(hex.slice(offset, offset + 2).padEnd(2, '0'), 16));
+      }
+      push(decodeShownBytes(bytes));
+      index = end < 0 ? source.length : end + 1;
+    } else if (char === '[') {
+      arrays.push([]);
+      index += 1;
+    } else if (char === ']') {
+      const array = arrays.pop() ?? [];
+      push(array);
+      index += 1;
+    } else if (char === '/') {
+      index += 1;
+      while (index < source.length && !WHITESPACE.has(source.charCodeAt(index)) && !DELIMITERS.has(source[index])) {
+        index += 1;
+      }
+      push('');
+    } else if (char === '{' || char === '}' || char === ')' || char === '>') {
+      index += 1;
+    } else {
+      const start = index;
+      while (index < source.length && !WHITESPACE.has(source.charCodeAt(index)) && !DELIMITERS.has(source[index])) {
+        index += 1;
+      }
+      const token = source.slice(start, index);
+      const number = Number(token);
+      if (token && !Number.isNaN(number)) {
+        push(number);
+        continue;
+      }
+
+      switch (token) {
+        case 'Tj':
+        case 'TJ':
+          show(stack[stack.length - 1]);
+          break;
+        case "'":
+        case '"':
+          breakLine();
+          show(stack[stack.length - 1]);
+          break;
+        case 'Td':
+        case 'TD':
+          if (stack[stack.length - 1] !== 0) breakLine();
+          else line += ' ';
+          break;
+        case 'T*':
+        case 'Tm':
+        case 'ET':
+          breakLine();
+          break;
+        case 'ID': {
+          // Inline image data runs until EI; it is binary, so skip it whole.
+          const end = source.indexOf('EI', index + 1);
+          index = end < 0 ? source.length : end + 2;
+          break;
+        }
+        default:
+          break;
+      }
+      stack = [];
+    }
+  }
+
+  breakLine();
+  return lines.join('\n');
+}
+
+/** Readable text has mostly letters, digits and spaces; undecoded glyph ids do not. */
+function isReadable(text: string): boolean {
+  const compact = text.replace(/\s+/g, '');
+  if (compact.length === 0) return false;
+  const readable = compact.match(/[A-Za-z0-9.,:;/()\-#%&'"]/g)?.length ?? 0;
+  return readable / compact.length >= 0.8;
+}
+
+/** Text per page, in page order; empty when a page has none. */
+export async function extractPdfText(bytes: Uint8Array): Promise<string[]> {
+  const pdf = await PDFDocument.load(bytes, { ignoreEncryption: true, updateMetadata: false });
+  const pages: string[] = [];
+
+  for (let pageIndex = 0; pageIndex < pdf.getPageCount(); pageIndex += 1) {
+    const text = contentStreamBytes(pdf, pageIndex)
+      .map((streamBytes) => extractContentStreamText(bytesToLatin1(streamBytes)))
+      .filter(Boolean)
+      .join('\n')
+      // Drop control characters left by unmapped glyphs.
+      .replace(/[\u0000-\u0008\u000b-\u001f\u007f-\u009f]/g, '');
+    pages.push(isReadable(text) ? text : '');
+  }
+
+  return pages;
+}
@@ -0,0 +1,400 @@
+// core/recordsWorkflow/receivedRecords.ts
+// Files the records a hospital sends back into the binder. PDFs and zip
+// bundles are unpacked, PDF text is extracted and searched for the date the
+// records cover, and everything lands as one entry in a folder named for the
+// hospital system, with the originals kept as encrypted sidecars.
+
+import type { MedicalDocument } from '../../types/document';
+import type { RecordsRequestPacket, TrackedRecordsRequest } from '../../types/recordsRequest';
+import type { PendingSidecarWrite } from '../binder/BinderService';
+import { documentTextBudget, fitTextToBytes, jsonTextByteLength } from '../binder/DocumentModel';
+import { slugify } from '../binder/FileNaming';
+import { encode as b64encode } from '../crypto/base64';
+import { isDicom, readDicomStudyInfo, type DicomStudyInfo } from './dicom';
+import { extractPdfText } from './pdfText';
+import { isZip, readZipEntries } from './zip';
+
+export interface ReceivedFileInput {
+  name: string;
+  bytes: Uint8Array;
+}
+
+export type ReceivedFileKind = 'pdf' | 'dicom' | 'image' | 'other';
+
+export interface ReceivedRecordFile {
+  /** Name as received; files from a zip are prefixed with the zip's name. */
+  name: string;
+  kind: ReceivedFileKind;
+  format: string;
+  bytes: Uint8Array;
+  /** Extracted text, PDFs only. Empty for scanned pages. */
+  text: string;
+  /** YYYY-MM-DD */
+  documentDate: string | null;
+  dicom: DicomStudyInfo | null;
+}
+
+/** Total unpacked size accepted in one import; the sidecars are held in memory. */
+export const RECEIVED_RECORDS_MAX_BYTES = 150 * 1024 * 1024;
+export const RECEIVED_RECORDS_ICON = '🏥';
+
+/** Extracted text kept per PDF; the original is always attached in full. */
+const MAX_TEXT_CHARS_PER_FILE = 20000;
+/** Below this, a PDF's text is left out rather than cut to a stub. */
+const MIN_TEXT_BYTES = 200;
+const TEXT_SHORTENED_NOTE = '_Text shortened; see the attached PDF for the rest._';
+const TEXT_LEFT_OUT_NOTE = '_Text from some PDFs was left out to keep this entry small; the attached PDFs are complete._';
+
+// --- Document dates ---
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+const DATE_PATTERN = new RegExp(
+  [
+    String.raw`\b(\d{1,2})[/-](\d{1,2})[/-](\d{4})\b`,
+    String.raw`\b(\d{4})-(\d{2})-(\d{2})\b`,
+    String.raw`\b(Jan|Feb|Mar|Apr|May|Jun|Jul|Aug|Sept?|Oct|Nov|Dec)[a-z]*\.?\s+(\d{1,2}),?\s+(\d{4})\b`,
+  ].join('|'),
+  'gi',
+);
+
+/** Labels that say what the record is about. */
+const SERVICE_DATE_LABEL =
+  /\b(date of service|service date|dos|visit date|date of visit|encounter date|collect(?:ed|ion date)|report(?:ed)? date|exam date|study date|procedure date|admi(?:t|ssion) date|admitted|discharge(?:d| date))\b[^0-9a-z]*$/i;
+/** Labels for dates that are not the record's own. */
+const IGNORED_DATE_LABEL =
+  /\b(dob|d\.o\.b|date of birth|birth ?date|born|printed|print date|released|release date|generated|run date|request(?:ed)? date)\b[^0-9a-z]*$/i;
+/** How much of the line before a date is searched for its label. */
+const LABEL_WINDOW = 40;
+
+function toIsoDate(year: number, month: number, day: number): string | null {
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCFullYear() !== year || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) {
+    return null;
+  }
+  return date.toISOString().slice(0, 10);
+}
+
+function parseDateMatch(match: RegExpExecArray): string | null {
+  if (match[1]) return toIsoDate(Number(match[3]), Number(match[1]), Number(match[2]));
+  if (match[4]) return toIsoDate(Number(match[4]), Number(match[5]), Number(match[6]));
+  const month = MONTHS.indexOf(match[7].slice(0, 3).toLowerCase()) + 1;
+  return toIsoDate(Number(match[9]), month, Number(match[8]));
+}
+
+/**
+ * The date a record's text is about: the first date labeled as a service,
+ * visit, collection, report or admission date, else the latest plausible
+ * date. Birth dates and print/release stamps are ignored.
+ */
+export function detectDocumentDate(text: string, now: Date = new Date()): string | null {
+  const today = now.toISOString().slice(0, 10);
+  let latest: string | null = null;
+
+  for (const line of text.split('\n')) {
+    DATE_PATTERN.lastIndex = 0;
+    let match: RegExpExecArray | null;
+    while ((match = DATE_PATTERN.exec(line))) {
+      const date = parseDateMatch(match);
+      if (!date || date < '1900-01-01' || date > today) continue;
+
+      const before = line.slice(Math.max(0, match.index - LABEL_WINDOW), match.index);
+      if (IGNORED_DATE_LABEL.test(before)) continue;
+      if (SERVICE_DATE_LABEL.test(before)) return date;
+      if (!latest || date > latest) latest = date;
+    }
+  }
+
+  return latest;
+}
+
+// --- Files ---
+
+function extensionOf(name: string): string {
+  const leaf = name.slice(name.lastIndexOf('/') + 1);
+  const dot = leaf.lastIndexOf('.');
+  return dot > 0 ? leaf.slice(dot + 1).toLowerCase() : '';
+}
+
+function isPdf(bytes: Uint8Array): boolean {
+  return bytes.length >= 4 && bytes[0] === 0x25 && bytes[1] === 0x50 && bytes[2] === 0x44 && bytes[3] === 0x46;
+}
+
+function classify(name: string, bytes: Uint8Array): { kind: ReceivedFileKind; format: string } {
+  if (isPdf(bytes)) return { kind: 'pdf', format: 'pdf' };
+  if (bytes[0] === 0xff && bytes[1] === 0xd8) return { kind: 'image', format: 'jpeg' };
+  if (bytes[0] === 0x89 && bytes[1] === 0x50 && bytes[2] === 0x4e && bytes[3] === 0x47) {
+    return { kind: 'image', format: 'png' };
+  }
+  if (isDicom(bytes)) return { kind: 'dicom', format: 'dcm' };
+  return { kind: 'other', format: extensionOf(name) || 'bin' };
+}
+
+/**
+ * Unpack zips and read what we can from each file. Throws when nothing
+ * importable was given or the batch is too large to hold in memory.
+ */
+export async function analyzeReceivedFiles(
+  inputs: ReceivedFileInput[],
+  now: Date = new Date(),
+): Promise<ReceivedRecordFile[]> {
+  const expanded: ReceivedFileInput[] = [];
+  let totalBytes = 0;
+
+  for (const input of inputs) {
+    const entries = isZip(input.bytes)
+      ? readZipEntries(input.bytes, RECEIVED_RECORDS_MAX_BYTES - totalBytes).map((entry) => ({
+          name: `${input.name}/${entry.name}`,
+          bytes: entry.bytes,
+        }))
+      : [input];
+    for (const entry of entries) {
+      totalBytes += entry.bytes.byteLength;
+      if (totalBytes > RECEIVED_RECORDS_MAX_BYTES) {
+        throw new Error('These files are too large to import at once. Import them in smaller batches.');
+      }
+      expanded.push(entry);
+    }
+  }
+
+  const files: ReceivedRecordFile[] = [];
+  for (const { name, bytes } of expanded) {
+    if (bytes.byteLength === 0) continue;
+    const { kind, format } = classify(name, bytes);
+    let text = '';
+    let dicom: DicomStudyInfo | null = null;
+
+    if (kind === 'pdf') {
+      try {
+        text = (await extractPdfText(bytes)).filter(Boolean).join('\n\n');
+      } catch (error) {
+        console.warn('[receivedRecords] Failed to read PDF text', name, error);
+      }
+    } else if (kind === 'dicom') {
+      dicom = readDicomStudyInfo(bytes);
+    }
+
+    files.push({
+      name,
+      kind,
+      format,
+      bytes,
+      text,
+      documentDate: dicom?.studyDate ?? (text ? detectDocumentDate(text, now) : null),
+      dicom,
+    });
+  }
+
+  if (files.length === 0) {
+    throw new Error('No files to import. Choose the PDFs or zip bundles the hospital sent.');
+  }
+  return files;
+}
+
+// --- Document building ---
+
+/** Folder the hospital's records are filed under. */
+export function receivedRecordsFolder(request: TrackedRecordsRequest): { path: string; displayName: string } {
+  return { path: slugify(request.hospitalSystem.name), displayName: request.hospitalSystem.name };
+}
+
+function leafName(name: string): string {
+  return name.slice(name.lastIndexOf('/') + 1);
+}
+
+/** Text lines starting with '#' would otherwise turn into headings. */
+function escapeExtractedText(text: string): string {
+  return text.trim().replace(/^(\s*)#/gm, '$1\\#');
+}
+
+/** Bytes the lines add to the entry's JSON when appended to its markdown. */
+function appendedBytes(lines: string[]): number {
+  return jsonTextByteLength(['', ...lines].join('\n'));
+}
+
+/**
+ * A PDF's text section, shortened to fit in `maxBytes` of the entry. Null
+ * when too little of it would fit to be useful.
+ */
+function textSection(file: ReceivedRecordFile, maxBytes: number): string[] | null {
+  const heading = `## ${leafName(file.name)}`;
+  const text = escapeExtractedText(file.text.slice(0, MAX_TEXT_CHARS_PER_FILE));
+  const full = [heading, '', text, ''];
+  if (file.text.length <= MAX_TEXT_CHARS_PER_FILE && appendedBytes(full) <= maxBytes) return full;
+
+  const shortened = (body: string) => [heading, '', `${body.trimEnd()}\n\n${TEXT_SHORTENED_NOTE}`, ''];
+  const room = maxBytes - appendedBytes(shortened(''));
+  if (room < MIN_TEXT_BYTES) return null;
+  return shortened(fitTextToBytes(text, room));
+}
+
+function providerSection(request: TrackedRecordsRequest, packet: RecordsRequestPacket | null): string[] {
+  const system = packet?.hospitalSystem ?? request.hospitalSystem;
+  const lines = ['## Provider', '', `- Name: ${system.name}`];
+  if (system.state) lines.push(`- State: ${system.state}`);
+  if (system.domain) lines.push(`- Website: ${system.domain}`);
+  if (packet?.portal.name || packet?.portal.url) {
+    lines.push(`- Portal: ${[packet.portal.name, packet.portal.url].filter(Boolean).join(' — ')}`);
+  }
+  for (const contact of packet?.contacts ?? []) {
+    if (!['phone', 'fax', 'email'].includes(contact.type)) continue;
+    const label = contact.label ?? contact.type.charAt(0).toUpperCase() + contact.type.slice(1);
+    lines.push(`- ${label}: ${contact.value.replace(/\s+/g, ' ').trim()}`);
+  }
+  return lines;
+}
+
+function describeFile(file: ReceivedRecordFile): string {
+  const details: string[] = [];
+  if (file.dicom) {
+    details.push(...[file.dicom.modality, file.dicom.studyDescription].filter((part): part is string => !!part));
+  }
+  if (file.documentDate) details.push(file.documentDate);
+  if (file.kind === 'pdf' && !file.text) details.push('no text found');
+  return details.length > 0 ? `- ${file.name} (${details.join(', ')})` : `- ${file.name}`;
+}
+
+function imagingSection(files: ReceivedRecordFile[]): string[] {
+  const studies = new Map<string, ReceivedRecordFile[]>();
+  for (const file of files) {
+    if (!file.dicom) continue;
+    const key = file.dicom.studyInstanceUid ?? file.name;
+    studies.set(key, [...(studies.get(key) ?? []), file]);
+  }
+  if (studies.size === 0) return [];
+
+  const lines = ['## Imaging', ''];
+  for (const images of studies.values()) {
+    const study = images[0].dicom!;
+    const title = [study.studyDate, study.modality, study.studyDescription].filter(Boolean).join(' ') || 'Imaging study';
+    const details = [
+      `${images.length} image${images.length === 1 ? '' : 's'}`,
+      ...(study.institutionName ? [study.institutionName] : []),
+      ...(study.referringPhysician ? [`referred by ${study.referringPhysician}`] : []),
+    ];
+    lines.push(`- ${title} — ${details.join(', ')}`);
+  }
+  lines.push('');
+  return lines;
+}
+
+function summarizeCounts(files: ReceivedRecordFile[]): string {
+  const labels: Record<ReceivedFileKind, [string, string]> = {
+    pdf: ['PDF', 'PDFs'],
+    dicom: ['imaging file', 'imaging files'],
+    image: ['image', 'images'],
+    other: ['other file', 'other files'],
+  };
+  return (Object.keys(labels) as ReceivedFileKind[])
+    .map((kind) => {
+      const count = files.filter((file) => file.kind === kind).length;
+      return count > 0 ? `${count} ${labels[kind][count === 1 ? 0 : 1]}` : null;
+    })
+    .filter(Boolean)
+    .join(', ');
+}
+
+function sidecarNames(files: ReceivedRecordFile[], prefix: string): string[] {
+  const used = new Set<string>();
+  return files.map((file) => {
+    const leaf = leafName(file.name);
+    const dot = leaf.lastIndexOf('.');
+    const stem = slugify(dot > 0 ? leaf.slice(0, dot) : leaf) || 'file';
+    let candidate = `${prefix}-${stem}.${file.format}.enc`;
+    for (let counter = 2; used.has(candidate); counter += 1) {
+      candidate = `${prefix}-${stem}-${counter}.${file.format}.enc`;
+    }
+    used.add(candidate);
+    return candidate;
+  });
+}
+
+/**
+ * The binder entry for a batch of received records. The entry is dated by
+ * the latest document date found (falling back to the day they arrived);
+ * sidecar names carry a per-batch id so a second batch in the same folder
+ * never collides with the first. PDF text is shortened or left out once the
+ * entry nears the NIP-44 size limit; throws when even the file list is too
+ * large.
+ */
+export function buildReceivedRecordsDocument(input: {
+  request: TrackedRecordsRequest;
+  packet: RecordsRequestPacket | null;
+  files: ReceivedRecordFile[];
+  receivedAt: string;
+}): { doc: MedicalDocument; sidecars: PendingSidecarWrite[]; date: Date } {
+  const { request, packet, files, receivedAt } = input;
+  const documentDates = files
+    .map((file) => file.documentDate)
+    .filter((date): date is string => !!date)
+    .sort();
+  const earliest = documentDates[0] ?? null;
+  const latest = documentDates[documentDates.length - 1] ?? null;
+  const created = latest ? `${latest}T12:00:00.000Z` : receivedAt;
+
+  const batchId = Date.parse(receivedAt).toString(36);
+  const names = sidecarNames(files, `${receivedAt.slice(0, 10)}-${batchId}`);
+  const sidecars: PendingSidecarWrite[] = files.map((file, index) => ({
+    sidecarFilename: names[index],
+    base64Data: b64encode(file.bytes),
+  }));
+
+  const lines = [
+    `# Records received — ${request.hospitalSystem.name}`,
+    '',
+    `Received: ${receivedAt.slice(0, 10)}`,
+    `Requested: ${request.sentAt.slice(0, 10)}${request.formName ? ` (${request.formName})` : ''}`,
+  ];
+  if (earliest && latest) {
+    lines.push(earliest === latest ? `Document date: ${earliest}` : `Document dates: ${earliest} to ${latest}`);
+  }
+  lines.push(`Files: ${summarizeCounts(files)}`, '', ...providerSection(request, packet), '');
+  lines.push(...imagingSection(files));
+  lines.push('## Files', '', ...files.map(describeFile), '');
+
+  const doc: MedicalDocument = {
+    value: lines.join('\n'),
+    metadata: {
+      type: 'note',
+      created,
+      provider: request.hospitalSystem.name,
+      tags: ['records-received'],
+    },
+    children: files.map((file, index) => ({
+      value: names[index],
+      metadata: {
+        type: 'attachment_ref',
+        created,
+        format: file.format,
+        encoding: 'base64',
+        originalSizeBytes: file.bytes.byteLength,
+      },
+      children: [],
+    })),
+  };
+
+  // The entry is one NIP-44 message: the text shares what the file list leaves.
+  let budget = documentTextBudget(doc) - appendedBytes([TEXT_LEFT_OUT_NOTE, '']);
+  if (budget < 0) {
+    throw new Error('Too many files to file as one entry. Import them in smaller batches.');
+  }
+  let leftOut = false;
+  for (const file of files) {
+    if (!file.text) continue;
+    const section = textSection(file, budget);
+    if (!section) {
+      leftOut = true;
+      continue;
+    }
+    lines.push(...section);
+    budget -= appendedBytes(section);
+  }
+  if (leftOut) lines.push(TEXT_LEFT_OUT_NOTE, '');
+  doc.value = lines.join('\n');
+
+  return {
+    doc,
+    sidecars,
+    date: new Date(created),
+  };
+}
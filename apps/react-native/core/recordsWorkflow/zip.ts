@@ -0,0 +1,133 @@
+// core/recordsWorkflow/zip.ts
+// Minimal zip reader for record bundles hospitals hand out (portal downloads,
+// CD images zipped by the patient). Reads the central directory, inflates
+// stored and deflated entries, and skips folders, macOS metadata and
+// encrypted entries. Zip64 archives are rejected.
+
+import { Inflate } from 'pako';
+
+export interface ZipEntry {
+  /** Path inside the archive, '/' separated. */
+  name: string;
+  bytes: Uint8Array;
+}
+
+const LOCAL_FILE_HEADER = 0x04034b50;
+const CENTRAL_DIRECTORY_HEADER = 0x02014b50;
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const END_OF_CENTRAL_DIRECTORY_MIN_SIZE = 22;
+const MAX_COMMENT_LENGTH = 0xffff;
+
+export function isZip(bytes: Uint8Array): boolean {
+  return bytes.length >= 4 && bytes[0] === 0x50 && bytes[1] === 0x4b && bytes[2] === 0x03 && bytes[3] === 0x04;
+}
+
+function findEndOfCentralDirectory(view: DataView): number {
+  const last = view.byteLength - END_OF_CENTRAL_DIRECTORY_MIN_SIZE;
+  const first = Math.max(0, last - MAX_COMMENT_LENGTH);
+  for (let offset = last; offset >= first; offset -= 1) {
+    if (view.getUint32(offset, true) === END_OF_CENTRAL_DIRECTORY) return offset;
+  }
+  throw new Error('Not a zip file, or the archive is damaged.');
+}
+
+function decodeName(bytes: Uint8Array, utf8: boolean): string {
+  if (utf8) return new TextDecoder().decode(bytes);
+  // CP437 in the spec; ASCII covers what hospital exports use in practice.
+  return Array.from(bytes, (byte) => String.fromCharCode(byte)).join('');
+}
+
+function isSkippedEntry(name: string): boolean {
+  const leaf = name.slice(name.lastIndexOf('/') + 1);
+  return name.endsWith('/') || name.startsWith('__MACOSX/') || leaf === '.DS_Store' || leaf.startsWith('._');
+}
+
+/**
+ * Inflates a deflated entry, stopping as soon as it produces more than
+ * `maxBytes` so a bomb never lands in memory whole.
+ */
+function inflateEntry(data: Uint8Array, maxBytes: number): Uint8Array {
+  const chunks: Uint8Array[] = [];
+  let length = 0;
+  const inflator = new Inflate({ raw: true });
+  inflator.onData = (chunk) => {
+    length += chunk.length;
+    if (length > maxBytes) throw new Error('The zip entry inflates past its declared size.');
+    chunks.push(chunk);
+  };
+  inflator.push(data, true);
+  if (inflator.err) throw new Error('The zip entry could not be inflated.');
+
+  const bytes = new Uint8Array(length);
+  let position = 0;
+  for (const chunk of chunks) {
+    bytes.set(chunk, position);
+    position += chunk.length;
+  }
+  return bytes;
+}
+
+/**
+ * Entries in central-directory order. `maxTotalBytes` caps the bytes
+ * actually inflated, not just the sizes the archive declares, and an entry
+ * that inflates to anything but its declared size is rejected as damaged.
+ */
+export function readZipEntries(bytes: Uint8Array, maxTotalBytes: number = Number.POSITIVE_INFINITY): ZipEntry[] {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const endOffset = findEndOfCentralDirectory(view);
+  const entryCount = view.getUint16(endOffset + 10, true);
+  const directoryOffset = view.getUint32(endOffset + 16, true);
+  if (entryCount === 0xffff || directoryOffset === 0xffffffff) {
+    throw new Error('Zip64 archives are not supported. Split the bundle into smaller zips.');
+  }
+
+  const entries: ZipEntry[] = [];
+  let totalBytes = 0;
+  let offset = directoryOffset;
+
+  for (let index = 0; index < entryCount; index += 1) {
+    if (view.getUint32(offset, true) !== CENTRAL_DIRECTORY_HEADER) {
+      throw new Error('The zip central directory is damaged.');
+    }
+    const flags = view.getUint16(offset + 8, true);
+    const method = view.getUint16(offset + 10, true);
+    const compressedSize = view.getUint32(offset + 20, true);
+    const uncompressedSize = view.getUint32(offset + 24, true);
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const localHeaderOffset = view.getUint32(offset + 42, true);
+    const name = decodeName(bytes.subarray(offset + 46, offset + 46 + nameLength), (flags & 0x0800) !== 0);
+    offset += 46 + nameLength + extraLength + commentLength;
+
+    const encrypted = (flags & 0x0001) !== 0;
+    if (isSkippedEntry(name) || encrypted || (method !== 0 && method !== 8)) continue;
+
+    // The declared size is checked up front and then enforced while
+    // inflating, so the real total can never pass the cap either.
+    if (uncompressedSize > maxTotalBytes - totalBytes) {
+      throw new Error('The zip is too large to import at once.');
+    }
+
+    const damaged = `The zip entry "${name}" is damaged.`;
+    if (view.getUint32(localHeaderOffset, true) !== LOCAL_FILE_HEADER) {
+      throw new Error(damaged);
+    }
+    const dataStart =
+      localHeaderOffset + 30 + view.getUint16(localHeaderOffset + 26, true) + view.getUint16(localHeaderOffset + 28, true);
+    const data = bytes.subarray(dataStart, dataStart + compressedSize);
+
+    let entryBytes: Uint8Array;
+    try {
+      entryBytes = method === 0 ? data.slice() : inflateEntry(data, uncompressedSize);
+    } catch {
+      throw new Error(damaged);
+    }
+    if (entryBytes.length !== uncompressedSize) throw new Error(damaged);
+
+    totalBytes += entryBytes.length;
+    entries.push({ name, bytes: entryBytes });
+  }
+
+  return entries;
+}
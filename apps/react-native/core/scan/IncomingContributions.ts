@@ -0,0 +1,242 @@
+// core/scan/IncomingContributions.ts
+// Brings what a doctor added to a `scan-*` staging repo back into the binder.
+//
+// When a share ends, the staging repo is fetched and every entry added after
+// the snapshot commit is an incoming contribution: decrypted with the
+// ephemeral conversation key, shown to the patient, and on accept re-encrypted
+// into the binder (with its attachments) under the binder's own key. Nothing
+// lands without review. The share record (ephemeral key + snapshot commit) is
+// kept in SecureStore until every contribution is accepted or rejected, since
+// the server deletes the staging repo soon after the session is revoked.
+
+import * as SecureStore from 'expo-secure-store';
+import { hexToBytes } from '@noble/hashes/utils.js';
+import { GitEngine } from '../git/GitEngine';
+import { createFSAdapter } from '../git/fsAdapter';
+import type { AuthConfig } from '../git/httpTransport';
+import { EncryptedIO } from '../binder/EncryptedIO';
+import type { BinderService, PendingSidecarWrite } from '../binder/BinderService';
+import { KeyManager } from '../crypto/KeyManager';
+import { encode as b64encode } from '../crypto/base64';
+import { verifyDocumentSignature, type NoteSignatureStatus } from '../crypto/noteSignature';
+import { cleanupStaging } from './ReEncryptionPipeline';
+import type { MedicalDocument } from '../../types/document';
+
+// --- Types ---
+
+export interface IncomingShare {
+  stagingRepoId: string;
+  stagingDir: string;
+  binderId: string;
+  /** Hex; only ever decrypts the staging copy. */
+  ephemeralPrivkey: string;
+  /** Commit the patient pushed. Anything after it came from the doctor. */
+  snapshotOid: string;
+  /** Scan session to revoke once the staging repo has been fetched. */
+  sessionToken?: string;
+  sharedAt: string;
+  /** Set once the staging repo has been fetched after the session ended. */
+  fetchedAt?: string;
+  /** Staging paths already accepted or rejected. */
+  handled: string[];
+}
+
+export interface IncomingContribution {
+  stagingRepoId: string;
+  /** Path inside the staging repo, e.g. 'visits/2026-03-01-doctor-note.json'. */
+  path: string;
+  doc: MedicalDocument;
+  /** Staging paths of the .enc sidecars the entry references. */
+  sidecars: string[];
+  /** Folder the doctor wrote into; the patient can pick another. */
+  suggestedFolder: string;
+  signature: NoteSignatureStatus;
+}
+
+type IncomingShareStore = Record<string, IncomingShare>;
+
+const INCOMING_SHARES_KEY = 'limbo_incoming_shares_v1';
+
+// --- Pure helpers ---
+
+/** Entries added after the snapshot that haven't been handled yet. */
+export function newContributionPaths(
+  snapshotFiles: string[],
+  headFiles: string[],
+  handled: string[],
+): string[] {
+  const before = new Set(snapshotFiles);
+  const done = new Set(handled);
+  return headFiles
+    .filter((f) => f.endsWith('.json') && !f.endsWith('.meta.json') && !f.split('/').some((part) => part.startsWith('.')))
+    .filter((f) => !before.has(f) && !done.has(f))
+    .sort();
+}
+
+/** Sidecars an entry points at (its own value for attachment_ref, plus attachment children), if present. */
+export function contributionSidecars(docPath: string, doc: MedicalDocument, headFiles: string[]): string[] {
+  const dir = docPath.includes('/') ? docPath.slice(0, docPath.lastIndexOf('/') + 1) : '';
+  const available = new Set(headFiles);
+  const refs = [doc, ...doc.children]
+    .filter((node) => node.metadata.type === 'attachment_ref' && node.value.endsWith('.enc'))
+    .map((node) => dir + node.value);
+  return [...new Set(refs)].filter((path) => available.has(path));
+}
+
+/** 'visits/2026-03-01-doctor-note-2.json' → 'doctor-note-2' */
+export function contributionSlug(path: string): string {
+  const name = path.split('/').pop()!.replace(/\.json$/, '');
+  return name.replace(/^\d{4}-\d{2}-\d{2}-/, '') || 'provider-note';
+}
+
+// --- Share records ---
+
+async function readStore(): Promise<IncomingShareStore> {
+  const raw = await SecureStore.getItemAsync(INCOMING_SHARES_KEY);
+  if (!raw) return {};
+  try {
+    return JSON.parse(raw) as IncomingShareStore;
+  } catch {
+    return {};
+  }
+}
+
+async function writeStore(store: IncomingShareStore): Promise<void> {
+  await SecureStore.setItemAsync(INCOMING_SHARES_KEY, JSON.stringify(store));
+}
+
+export async function recordIncomingShare(share: IncomingShare): Promise<void> {
+  const store = await readStore();
+  store[share.stagingRepoId] = share;
+  await writeStore(store);
+}
+
+export async function listIncomingShares(binderId?: string): Promise<IncomingShare[]> {
+  const shares = Object.values(await readStore());
+  return binderId ? shares.filter((s) => s.binderId === binderId) : shares;
+}
+
+async function updateIncomingShare(
+  stagingRepoId: string,
+  update: (share: IncomingShare) => IncomingShare,
+): Promise<IncomingShare | null> {
+  const store = await readStore();
+  const share = store[stagingRepoId];
+  if (!share) return null;
+  store[stagingRepoId] = update(share);
+  await writeStore(store);
+  return store[stagingRepoId];
+}
+
+/** Forget the share and delete the local staging copy. */
+export async function discardIncomingShare(share: IncomingShare): Promise<void> {
+  await cleanupStaging(share.stagingDir).catch(() => {});
+  const store = await readStore();
+  delete store[share.stagingRepoId];
+  await writeStore(store);
+}
+
+// --- Fetch / review ---
+
+function stagingIO(share: IncomingShare): EncryptedIO {
+  const privkey = hexToBytes(share.ephemeralPrivkey);
+  const conversationKey = KeyManager.computeConversationKey(privkey, KeyManager.pubkeyFromPrivkey(privkey));
+  return new EncryptedIO(createFSAdapter(share.stagingDir), conversationKey, share.stagingDir);
+}
+
+/**
+ * Pull the doctor's commits into the local staging copy. Call before the
+ * session is revoked; the server deletes the staging repo afterwards.
+ */
+export async function fetchIncomingShare(share: IncomingShare, auth: AuthConfig): Promise<IncomingShare> {
+  await GitEngine.pull(share.stagingDir, share.stagingRepoId, auth, undefined, { fastForwardOnly: true });
+  return (await updateIncomingShare(share.stagingRepoId, (s) => ({ ...s, fetchedAt: new Date().toISOString() }))) ?? share;
+}
+
+/**
+ * Fetch a share that just ended and count what the doctor added. Shares with
+ * nothing new are discarded right away. Throws if the fetch fails, so the
+ * caller can hold off revoking the session.
+ */
+export async function collectIncomingShare(share: IncomingShare, auth: AuthConfig): Promise<number> {
+  const fetched = await fetchIncomingShare(share, auth);
+  const count = (await listContributions(fetched)).length;
+  if (count === 0) await discardIncomingShare(fetched);
+  return count;
+}
+
+/** Decrypt the entries the doctor added. Entries that fail to decrypt are skipped. */
+export async function listContributions(share: IncomingShare): Promise<IncomingContribution[]> {
+  const [snapshotFiles, headFiles] = await Promise.all([
+    GitEngine.listFiles(share.stagingDir, share.snapshotOid),
+    GitEngine.listFiles(share.stagingDir),
+  ]);
+  const io = stagingIO(share);
+
+  const contributions: IncomingContribution[] = [];
+  for (const path of newContributionPaths(snapshotFiles, headFiles, share.handled)) {
+    try {
+      const doc = await io.readDocument('/' + path);
+      contributions.push({
+        stagingRepoId: share.stagingRepoId,
+        path,
+        doc,
+        sidecars: contributionSidecars(path, doc, headFiles),
+        suggestedFolder: path.includes('/') ? path.slice(0, path.lastIndexOf('/')) : '',
+        signature: verifyDocumentSignature(doc),
+      });
+    } catch (err) {
+      console.warn(`Could not decrypt incoming entry ${path}:`, err);
+    }
+  }
+  return contributions;
+}
+
+async function markHandled(share: IncomingShare, path: string): Promise<IncomingShare | null> {
+  return updateIncomingShare(share.stagingRepoId, (s) => ({
+    ...s,
+    handled: s.handled.includes(path) ? s.handled : [...s.handled, path],
+  }));
+}
+
+/**
+ * Re-encrypt a contribution into `folder` of the binder and commit it.
+ * Sidecars must keep their filenames so the entry's references (and a
+ * doctor's signature over them) stay intact, so this throws without saving
+ * anything when one of them is already taken in `folder`. Returns the new
+ * entry path.
+ */
+export async function acceptContribution(
+  share: IncomingShare,
+  contribution: IncomingContribution,
+  binderService: BinderService,
+  folder: string,
+): Promise<string> {
+  const io = stagingIO(share);
+  const sidecars: PendingSidecarWrite[] = [];
+  for (const path of contribution.sidecars) {
+    sidecars.push({
+      sidecarFilename: path.split('/').pop()!,
+      base64Data: b64encode(await io.readSidecar('/' + path)),
+    });
+  }
+
+  const created = new Date(contribution.doc.metadata.created);
+  const date = Number.isNaN(created.getTime()) ? undefined : created;
+  const slug = contributionSlug(contribution.path);
+  const entryPath = sidecars.length > 0
+    ? await binderService.addEntryWithSidecars(folder, slug, contribution.doc, sidecars, date, {
+      keepSidecarNames: true,
+    })
+    : await binderService.addEntry(folder, slug, contribution.doc, date);
+
+  await markHandled(share, contribution.path);
+  return entryPath;
+}
+
+export async function rejectContribution(
+  share: IncomingShare,
+  contribution: IncomingContribution,
+): Promise<void> {
+  await markHandled(share, contribution.path);
+}
@@ -5,12 +5,17 @@
 //   only the small wrapped DEK header is re-encrypted. No photo data is decrypted.
 // .json documents (metadata): full decrypt with master key, re-encrypt with
 //   ephemeral key (these are tiny, so full re-encryption is fine).
+//
+// An optional ShareScope limits the walk to the shared folders/entries; files
+// outside it are never copied into staging.
 
 import { GitEngine } from '../git/GitEngine';
 import { EncryptedIO } from '../binder/EncryptedIO';
 import { createFSAdapter } from '../git/fsAdapter';
 import { KeyManager } from '../crypto/KeyManager';
+import type { MedicalDocument } from '../../types/document';
 import RNFS from 'react-native-fs';
+import { selectSharedFiles, type ShareScope } from './ShareScope';
 
 // --- Types ---
 
@@ -37,6 +42,7 @@ export async function reEncryptBinder(
   binderRepoDir: string,
   masterConversationKey: Uint8Array,
   onProgress?: (progress: ReEncryptionProgress) => void,
+  scope?: ShareScope,
 ): Promise<ReEncryptionResult> {
   // Generate ephemeral keypair
   const { privkey: ephemeralPrivkey, pubkey: ephemeralPubkey } =
@@ -60,16 +66,23 @@ export async function reEncryptBinder(
   const sourceIO = new EncryptedIO(sourceFS, masterConversationKey, binderRepoDir);
   const stagingIO = new EncryptedIO(stagingFS, ephemeralConversationKey, stagingRepoDir);
 
-  // List all tracked files in the binder
-  const allFiles = await GitEngine.listFiles(binderRepoDir);
+  // List tracked files in the binder, narrowed to the share scope
+  const readCache = new Map<string, Promise<MedicalDocument>>();
+  const readSource = (filePath: string) => {
+    let pending = readCache.get(filePath);
+    if (!pending) {
+      pending = sourceIO.readDocument('/' + filePath);
+      readCache.set(filePath, pending);
+    }
+    return pending;
+  };
+  const trackedFiles = (await GitEngine.listFiles(binderRepoDir)).filter((f) => !f.startsWith('.'));
+  const allFiles = await selectSharedFiles(trackedFiles, scope, readSource);
 
   let fileCount = 0;
   let totalBytes = 0;
 
   for (const filePath of allFiles) {
-    // Skip hidden files
-    if (filePath.startsWith('.')) continue;
-
     onProgress?.({
       currentFile: filePath,
       filesProcessed: fileCount,
@@ -96,7 +109,7 @@ export async function reEncryptBinder(
       );
     } else if (filePath.endsWith('.json')) {
       // Document: decrypt JSON with master key, re-encrypt with ephemeral key
-      const doc = await sourceIO.readDocument('/' + filePath);
+      const doc = await readSource(filePath);
       await stagingIO.writeDocument('/' + filePath, doc);
       totalBytes += JSON.stringify(doc).length;
     }
@@ -1,10 +1,12 @@
 // core/scan/ScanSession.ts
 // Creates a scan session on the server and assembles the QR payload.
 // The QR payload contains everything the doctor's browser needs:
-// ephemeral private key, session token, staging repo ID, and server endpoint.
+// ephemeral private key, session token, staging repo ID, and server endpoint,
+// plus the share scope so the doctor's view can say what was (not) shared.
 
 import { bytesToHex } from '@noble/hashes/utils.js';
 import { API_BASE_URL } from '../../constants/api';
+import { isWholeBinderScope, type ShareScope } from './ShareScope';
 
 // --- Types ---
 
@@ -15,6 +17,7 @@ export interface ScanQRPayload {
   repoId: string;             // scan-{randomId}
   expiresAt: number;          // unix timestamp
   endpoint: string;           // https://limbo.health
+  scope?: ShareScope;         // absent = whole binder
 }
 
 interface CreateSessionResponse {
@@ -30,12 +33,14 @@ interface CreateSessionResponse {
  * @param repoId - The staging repo ID (e.g. 'scan-abc123')
  * @param ephemeralPrivkey - The ephemeral private key (32 bytes)
  * @param jwt - Patient's JWT for authentication
+ * @param options - Session lifetime the patient picked, and what the staging repo holds
  * @returns The complete QR payload ready to encode
  */
 export async function createScanSession(
   repoId: string,
   ephemeralPrivkey: Uint8Array,
   jwt: string,
+  options: { expiresInMinutes?: number; scope?: ShareScope } = {},
 ): Promise<ScanQRPayload> {
   const res = await fetch(`${API_BASE_URL}/api/auth/scan/session`, {
     method: 'POST',
@@ -43,7 +48,7 @@ export async function createScanSession(
       Authorization: `Bearer ${jwt}`,
       'Content-Type': 'application/json',
     },
-    body: JSON.stringify({ stagingRepoId: repoId }),
+    body: JSON.stringify({ stagingRepoId: repoId, expiresInMinutes: options.expiresInMinutes }),
   });
 
   if (!res.ok) {
@@ -60,12 +65,13 @@ export async function createScanSession(
     repoId,
     expiresAt: data.expiresAt,
     endpoint: API_BASE_URL,
+    ...(options.scope && !isWholeBinderScope(options.scope) ? { scope: options.scope } : {}),
   };
 }
 
 /**
  * Revoke a scan session. Call after incorporating doctor's notes
- * or when the patient cancels sharing.
+ * or when the patient cancels sharing. Throws if the server refuses.
  */
 export async function revokeScanSession(
   sessionToken: string,
@@ -81,6 +87,6 @@ export async function revokeScanSession(
   });
 
   if (!res.ok) {
-    console.warn(`Failed to revoke scan session: ${res.status}`);
+    throw new Error(`Failed to revoke scan session: ${res.status}`);
   }
 }
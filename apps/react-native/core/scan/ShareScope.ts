@@ -0,0 +1,156 @@
+// core/scan/ShareScope.ts
+// What a share session exposes. A scope narrows the staging copy to chosen
+// folders or entries and, optionally, to entries created within a date range;
+// anything outside it is never re-keyed, so the doctor's ephemeral key can't
+// read it. No scope means the whole binder (the original behavior).
+
+import type { MedicalDocument } from '../../types/document';
+
+// --- Types ---
+
+export interface ShareScope {
+  /** Binder-relative folder or entry paths. Empty = the whole binder. */
+  paths: string[];
+  /** Inclusive YYYY-MM-DD bounds on an entry's `created` date. */
+  from?: string;
+  to?: string;
+}
+
+export interface ShareExpiryOption {
+  label: string;
+  minutes: number;
+}
+
+export const SHARE_EXPIRY_OPTIONS: ShareExpiryOption[] = [
+  { label: '15 min', minutes: 15 },
+  { label: '1 hour', minutes: 60 },
+  { label: '1 day', minutes: 24 * 60 },
+  { label: '1 week', minutes: 7 * 24 * 60 },
+];
+
+export const DEFAULT_SHARE_EXPIRY_MINUTES = 60;
+
+const PATIENT_INFO_PATH = 'patient-info.json';
+const FOLDER_META_NAME = '.meta.json';
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// --- Pure helpers ---
+
+export function isWholeBinderScope(scope: ShareScope | undefined): boolean {
+  return !scope || (scope.paths.length === 0 && !scope.from && !scope.to);
+}
+
+/** True when `filePath` is one of the scope's paths or sits beneath one of its folders. */
+export function isPathInShareScope(filePath: string, scope: ShareScope): boolean {
+  if (scope.paths.length === 0) return true;
+  return scope.paths.some((p) => filePath === p || filePath.startsWith(p + '/'));
+}
+
+/**
+ * Files shared regardless of the date range so the doctor's view still has
+ * its frame: the patient header, and the .meta.json of every folder on the
+ * way down to a shared path or inside a shared folder (names and icons only,
+ * no entries).
+ */
+export function isShareScaffold(filePath: string, scope: ShareScope): boolean {
+  if (filePath === PATIENT_INFO_PATH) return true;
+  if (!filePath.endsWith('/' + FOLDER_META_NAME)) return false;
+  const folder = filePath.slice(0, -(FOLDER_META_NAME.length + 1));
+  if (isPathInShareScope(folder, scope)) return true;
+  return scope.paths.some((p) => p.startsWith(folder + '/'));
+}
+
+export function isCreatedInShareRange(created: string | undefined, scope: ShareScope): boolean {
+  if (!scope.from && !scope.to) return true;
+  const day = created?.slice(0, 10);
+  if (!day || !DATE_PATTERN.test(day)) return false;
+  if (scope.from && day < scope.from) return false;
+  if (scope.to && day > scope.to) return false;
+  return true;
+}
+
+/** Sidecars an entry references through attachment_ref nodes, as binder-relative paths. */
+export function referencedSidecars(entryPath: string, doc: MedicalDocument): string[] {
+  const slash = entryPath.lastIndexOf('/');
+  const prefix = slash > 0 ? entryPath.slice(0, slash + 1) : '';
+  return [doc, ...doc.children]
+    .filter((node) => node.metadata.type === 'attachment_ref' && node.value.endsWith('.enc'))
+    .map((node) => prefix + node.value);
+}
+
+/**
+ * Pick the files a scoped share re-keys. Entries in scope are read through
+ * the caller's decrypting reader for their `created` date and attachments;
+ * sidecars follow the entries that reference them or share their base name.
+ */
+export async function selectSharedFiles(
+  files: string[],
+  scope: ShareScope | undefined,
+  readDocument: (filePath: string) => Promise<MedicalDocument>,
+): Promise<string[]> {
+  if (!scope || isWholeBinderScope(scope)) return files;
+
+  const selected = new Set<string>();
+  const sidecars = new Set<string>();
+  const entryBases: string[] = [];
+  const hasRange = Boolean(scope.from || scope.to);
+
+  for (const filePath of files) {
+    if (!filePath.endsWith('.json')) continue;
+    if (isShareScaffold(filePath, scope)) {
+      selected.add(filePath);
+      continue;
+    }
+    if (filePath.endsWith('/' + FOLDER_META_NAME) || !isPathInShareScope(filePath, scope)) continue;
+
+    let doc: MedicalDocument;
+    try {
+      doc = await readDocument(filePath);
+    } catch (err) {
+      console.warn(`Share scope: skipping unreadable ${filePath}:`, err);
+      continue;
+    }
+    if (hasRange && !isCreatedInShareRange(doc.metadata.created, scope)) continue;
+
+    selected.add(filePath);
+    entryBases.push(filePath.replace(/\.json$/, ''));
+    for (const sidecar of referencedSidecars(filePath, doc)) sidecars.add(sidecar);
+  }
+
+  for (const filePath of files) {
+    if (!filePath.endsWith('.enc')) continue;
+    if (sidecars.has(filePath) || entryBases.some((base) => filePath.startsWith(base + '.'))) {
+      selected.add(filePath);
+    }
+  }
+
+  return files.filter((filePath) => selected.has(filePath));
+}
+
+export function describeShareScope(scope: ShareScope | undefined): string {
+  if (!scope || isWholeBinderScope(scope)) return 'Entire binder';
+
+  const parts: string[] = [];
+  if (scope.paths.length === 1) {
+    parts.push(scope.paths[0].split('/').pop()!.replace(/\.json$/, ''));
+  } else if (scope.paths.length > 1) {
+    parts.push(`${scope.paths.length} items`);
+  } else {
+    parts.push('Entire binder');
+  }
+
+  if (scope.from && scope.to) parts.push(`${scope.from} to ${scope.to}`);
+  else if (scope.from) parts.push(`since ${scope.from}`);
+  else if (scope.to) parts.push(`until ${scope.to}`);
+
+  return parts.join(' · ');
+}
+
+/** Reject malformed or inverted date bounds before any re-keying starts. */
+export function validateShareScope(scope: ShareScope): string | null {
+  for (const bound of [scope.from, scope.to]) {
+    if (bound && !DATE_PATTERN.test(bound)) return 'Dates must look like YYYY-MM-DD.';
+  }
+  if (scope.from && scope.to && scope.from > scope.to) return 'The start date is after the end date.';
+  return null;
+}
@@ -0,0 +1,55 @@
+// hooks/useBinderSearch.ts
+// Debounced full-text search against a binder's encrypted search index.
+
+import { useEffect, useRef, useState } from 'react';
+import type { BinderSearchResult, BinderService } from '../core/binder/BinderService';
+import { BINDER_SEARCH_DEBOUNCE_MS } from '../core/binder/SearchIndex';
+
+export interface UseBinderSearchResult {
+  results: BinderSearchResult[];
+  searching: boolean;
+  error: string | null;
+}
+
+export function useBinderSearch(
+  binderService: BinderService | null,
+  query: string,
+): UseBinderSearchResult {
+  const [results, setResults] = useState<BinderSearchResult[]>([]);
+  const [searching, setSearching] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const requestId = useRef(0);
+
+  useEffect(() => {
+    const trimmed = query.trim();
+    const currentRequest = ++requestId.current;
+
+    if (!binderService || !trimmed) {
+      setResults([]);
+      setSearching(false);
+      setError(null);
+      return;
+    }
+
+    setSearching(true);
+    const timer = setTimeout(async () => {
+      try {
+        const next = await binderService.searchEntries(trimmed);
+        if (currentRequest !== requestId.current) return;
+        setResults(next);
+        setError(null);
+      } catch (err) {
+        if (currentRequest !== requestId.current) return;
+        const msg = err instanceof Error ? err.message : 'Search failed';
+        setError(msg);
+        console.error('useBinderSearch:', err);
+      } finally {
+        if (currentRequest === requestId.current) setSearching(false);
+      }
+    }, BINDER_SEARCH_DEBOUNCE_MS);
+
+    return () => clearTimeout(timer);
+  }, [binderService, query]);
+
+  return { results, searching, error };
+}
@@ -0,0 +1,63 @@
+// hooks/useDocumentScanner.ts
+// Opens the native document scanner (VisionKit / ML Kit: page edge detection,
+// perspective crop, multiple pages), then compresses each page and runs
+// on-device text recognition on it. Nothing leaves the device.
+
+import { useCallback } from 'react';
+import { Image } from 'react-native';
+import DocumentScanner, { ResponseType, ScanDocumentResponseStatus } from 'react-native-document-scanner-plugin';
+import TextRecognition from '@react-native-ml-kit/text-recognition';
+import { manipulateAsync, SaveFormat } from 'expo-image-manipulator';
+import RNFS from 'react-native-fs';
+import { decode as b64decode } from '../core/crypto/base64';
+import type { ScannedPage } from '../core/binder/DocumentScan';
+
+export interface ScannedPageResult extends ScannedPage {
+  /** Local file URI for the page thumbnail */
+  uri: string;
+}
+
+const MAX_WIDTH = 1920;
+const JPEG_QUALITY = 0.7;
+
+function toFileUri(path: string): string {
+  return path.startsWith('file://') ? path : `file://${path}`;
+}
+
+async function recognizeText(uri: string): Promise<string> {
+  try {
+    const result = await TextRecognition.recognize(uri);
+    return result.text.trim();
+  } catch (err) {
+    // A page without recognizable text is still worth keeping.
+    console.warn('Text recognition failed for scanned page:', err);
+    return '';
+  }
+}
+
+export function useDocumentScanner() {
+  const scan = useCallback(async (): Promise<ScannedPageResult[] | null> => {
+    const { scannedImages, status } = await DocumentScanner.scanDocument({
+      croppedImageQuality: 100,
+      responseType: ResponseType.ImageFilePath,
+    });
+    if (status === ScanDocumentResponseStatus.Cancel || !scannedImages?.length) return null;
+
+    const pages: ScannedPageResult[] = [];
+    for (const path of scannedImages) {
+      const uri = toFileUri(path);
+      // OCR the full-quality crop; store the compressed copy.
+      const text = await recognizeText(uri);
+      const { width } = await Image.getSize(uri);
+      const compressed = await manipulateAsync(uri, width > MAX_WIDTH ? [{ resize: { width: MAX_WIDTH } }] : [], {
+        compress: JPEG_QUALITY,
+        format: SaveFormat.JPEG,
+      });
+      const base64String = await RNFS.readFile(compressed.uri, 'base64');
+      pages.push({ jpeg: b64decode(base64String), text, uri: compressed.uri });
+    }
+    return pages;
+  }, []);
+
+  return { scan };
+}
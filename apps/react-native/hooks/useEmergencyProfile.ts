@@ -0,0 +1,65 @@
+// hooks/useEmergencyProfile.ts
+// Loads and saves the emergency medical ID settings for the signed-in owner,
+// stored on this device next to the BioProfile (same owner keys).
+
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import * as SecureStore from 'expo-secure-store';
+import { useAuthContext } from '../providers/AuthProvider';
+import {
+  resolveBioProfileOwnerKeys,
+  storageKeyForEmergencyProfileOwner,
+} from '../core/bio/storage';
+import { emptyEmergencyProfile, type EmergencyProfile } from '../types/emergency';
+
+export function useEmergencyProfile() {
+  const { state } = useAuthContext();
+  const [profile, setProfile] = useState<EmergencyProfile>(emptyEmergencyProfile());
+  const [loaded, setLoaded] = useState(false);
+
+  const ownerKey = useMemo(
+    () =>
+      resolveBioProfileOwnerKeys({
+        status: state.status,
+        pubkey: state.pubkey,
+        oauthProfile: state.oauthProfile,
+        connections: state.connections,
+      })[0] ?? null,
+    [state.status, state.pubkey, state.oauthProfile, state.connections],
+  );
+
+  useEffect(() => {
+    let cancelled = false;
+    (async () => {
+      if (!ownerKey) {
+        setProfile(emptyEmergencyProfile());
+        setLoaded(true);
+        return;
+      }
+      try {
+        const raw = await SecureStore.getItemAsync(storageKeyForEmergencyProfileOwner(ownerKey));
+        if (cancelled) return;
+        setProfile(raw ? { ...emptyEmergencyProfile(), ...(JSON.parse(raw) as Partial<EmergencyProfile>) } : emptyEmergencyProfile());
+      } catch (error) {
+        console.warn('[useEmergencyProfile] Failed to load emergency info', error);
+      } finally {
+        if (!cancelled) setLoaded(true);
+      }
+    })();
+    return () => {
+      cancelled = true;
+    };
+  }, [ownerKey]);
+
+  const saveProfile = useCallback(
+    async (next: EmergencyProfile) => {
+      if (!ownerKey) {
+        throw new Error('You must be signed in before saving your emergency info.');
+      }
+      await SecureStore.setItemAsync(storageKeyForEmergencyProfileOwner(ownerKey), JSON.stringify(next));
+      setProfile(next);
+    },
+    [ownerKey],
+  );
+
+  return { profile, loaded, saveProfile };
+}
@@ -0,0 +1,52 @@
+// hooks/useMedicationReminders.ts
+// App-level wiring for medication reminders: foreground presentation, and
+// opening the medication entry when a reminder is tapped.
+
+import { useEffect } from 'react';
+import { useRouter } from 'expo-router';
+import {
+  configureMedicationNotifications,
+  parseReminderData,
+} from '../core/medication/reminders';
+
+export function useMedicationReminderRouting(enabled: boolean): void {
+  const router = useRouter();
+
+  useEffect(() => {
+    if (!enabled) return;
+    let cancelled = false;
+    let subscription: { remove: () => void } | null = null;
+
+    (async () => {
+      try {
+        await configureMedicationNotifications();
+        const Notifications = await import('expo-notifications');
+        if (cancelled) return;
+
+        const open = (data: unknown) => {
+          const reminder = parseReminderData(data);
+          if (reminder) router.push(`/binder/${reminder.binderId}/entry/${reminder.entryPath}`);
+        };
+
+        // Cold start from a tapped reminder
+        const last = await Notifications.getLastNotificationResponseAsync();
+        if (!cancelled && last) {
+          open(last.notification.request.content.data);
+          await Notifications.clearLastNotificationResponseAsync();
+        }
+
+        if (cancelled) return;
+        subscription = Notifications.addNotificationResponseReceivedListener((response) => {
+          open(response.notification.request.content.data);
+        });
+      } catch (err) {
+        console.warn('Medication reminders unavailable:', err);
+      }
+    })();
+
+    return () => {
+      cancelled = true;
+      subscription?.remove();
+    };
+  }, [enabled, router]);
+}
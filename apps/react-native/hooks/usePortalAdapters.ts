@@ -0,0 +1,49 @@
+// hooks/usePortalAdapters.ts
+// Brings the server-delivered portal adapters up to date once per app
+// launch. Returns the catalog revision in use (null while on the bundled
+// adapters) so callers can recompute anything derived from getPortalAdapter.
+
+import { useEffect, useState } from 'react';
+import RNFS from 'react-native-fs';
+import {
+  PORTAL_ADAPTER_SCHEMA_VERSION,
+  syncPortalAdapterCatalog,
+  type PortalAdapterCacheStore,
+} from '../core/portal/adapterCatalog';
+import { getPortalAdapterRevision } from '../core/portal/adapters';
+import { fetchPortalAdapterDocument } from '../core/recordsWorkflow/api';
+
+const CACHE_PATH = `${RNFS.CachesDirectoryPath}/portal-adapters.v${PORTAL_ADAPTER_SCHEMA_VERSION}.json`;
+
+const cacheStore: PortalAdapterCacheStore = {
+  async read() {
+    return (await RNFS.exists(CACHE_PATH)) ? RNFS.readFile(CACHE_PATH, 'utf8') : null;
+  },
+  async write(value) {
+    await RNFS.writeFile(CACHE_PATH, value, 'utf8');
+  },
+};
+
+let syncPromise: Promise<string | null> | null = null;
+
+export function usePortalAdapters(): string | null {
+  const [revision, setRevision] = useState<string | null>(getPortalAdapterRevision);
+
+  useEffect(() => {
+    let cancelled = false;
+    if (!syncPromise) {
+      syncPromise = syncPortalAdapterCatalog({
+        store: cacheStore,
+        fetchDocument: () => fetchPortalAdapterDocument(PORTAL_ADAPTER_SCHEMA_VERSION),
+      });
+    }
+    syncPromise.then((nextRevision) => {
+      if (!cancelled) setRevision(nextRevision);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  return revision;
+}
@@ -0,0 +1,84 @@
+// hooks/usePortalHarvest.ts
+// Saves documents and lab tables picked on a portal page into the last
+// opened binder. Items already imported (same metadata.importSource) are
+// reported up front so the picker can mark them, and skipped on save.
+
+import { useCallback } from 'react';
+import * as SecureStore from 'expo-secure-store';
+import RNFS from 'react-native-fs';
+import { useAuthContext } from '../providers/AuthProvider';
+import { useCryptoContext } from '../providers/CryptoProvider';
+import { BinderService } from '../core/binder/BinderService';
+import { unlockBinder } from '../core/binder/BinderKeyring';
+import { getLastViewed } from '../core/binder/LastViewedStore';
+import { importRecordsIntoBinder, type ImportSummary } from '../core/fhir/import';
+import type { ImportedRecord } from '../core/fhir/records';
+
+const LAST_BINDER_KEY = 'limbo_last_binder';
+
+export interface PortalHarvestSaveResult extends ImportSummary {
+  binderId: string;
+}
+
+export function usePortalHarvest() {
+  const { state } = useAuthContext();
+  const { masterConversationKey } = useCryptoContext();
+  const jwt = state.status === 'authenticated' ? state.jwt : null;
+
+  const openLastBinder = useCallback(async (): Promise<{ binderId: string; service: BinderService }> => {
+    if (!jwt || !masterConversationKey) {
+      throw new Error('Sign in and unlock your binders to save portal documents.');
+    }
+    const binderId = getLastViewed()?.binderId ?? (await SecureStore.getItemAsync(LAST_BINDER_KEY));
+    if (!binderId) {
+      throw new Error('Open a binder on this device to save portal documents into it.');
+    }
+    const repoDir = `binders/${binderId}`;
+    if (!(await RNFS.exists(`${RNFS.DocumentDirectoryPath}/${repoDir}/.git`))) {
+      throw new Error('That binder is not on this device.');
+    }
+
+    const service = new BinderService(
+      {
+        repoId: binderId,
+        repoDir,
+        auth: { type: 'jwt' as const, token: jwt },
+        author: {
+          name: state.metadata?.name || state.oauthProfile?.name || 'Limbo Health',
+          email: state.oauthProfile?.email || 'app@limbo.health',
+        },
+      },
+      (await unlockBinder(repoDir)) ?? masterConversationKey,
+    );
+    return { binderId, service };
+  }, [jwt, masterConversationKey, state.metadata?.name, state.oauthProfile?.name, state.oauthProfile?.email]);
+
+  /** Source ids already in the binder; empty when no binder is available yet. */
+  const loadImportedSources = useCallback(async (): Promise<Set<string>> => {
+    try {
+      const { service } = await openLastBinder();
+      return new Set(
+        (await service.listEntries())
+          .map((entry) => entry.importSource)
+          .filter((source): source is string => !!source),
+      );
+    } catch (error) {
+      console.warn('[usePortalHarvest] Failed to list imported entries', error);
+      return new Set();
+    }
+  }, [openLastBinder]);
+
+  const saveRecords = useCallback(
+    async (
+      records: ImportedRecord[],
+      onProgress?: (done: number, total: number) => void,
+    ): Promise<PortalHarvestSaveResult> => {
+      const { binderId, service } = await openLastBinder();
+      const summary = await importRecordsIntoBinder(service, records, { binderId, onProgress });
+      return { ...summary, binderId };
+    },
+    [openLastBinder],
+  );
+
+  return { loadImportedSources, saveRecords };
+}
@@ -0,0 +1,122 @@
+// hooks/usePushQueue.ts
+// Push queue state for the UI, and the app-level retry loop for binders whose
+// pushes failed: retries when their backoff expires, when the app returns to
+// the foreground, and right away when the network comes back.
+
+import { useEffect, useState } from 'react';
+import { AppState } from 'react-native';
+import { BinderService } from '../core/binder/BinderService';
+import {
+  isPushDue,
+  nextDueAt,
+  readPushQueue,
+  subscribePushQueue,
+  type PushQueue,
+} from '../core/binder/PushQueue';
+import { useAuthContext } from '../providers/AuthProvider';
+import { useCryptoContext } from '../providers/CryptoProvider';
+
+/** Current push queue, kept in sync with retries and new writes. */
+export function usePushQueue(): PushQueue {
+  const [queue, setQueue] = useState<PushQueue>({});
+
+  useEffect(() => {
+    let cancelled = false;
+    readPushQueue().then((initial) => {
+      if (!cancelled) setQueue(initial);
+    });
+    const unsubscribe = subscribePushQueue(setQueue);
+    return () => {
+      cancelled = true;
+      unsubscribe();
+    };
+  }, []);
+
+  return queue;
+}
+
+export function usePushQueueRetry(enabled: boolean): void {
+  const { state: authState } = useAuthContext();
+  const { masterConversationKey } = useCryptoContext();
+  const jwt = authState.status === 'authenticated' ? authState.jwt : null;
+  const authorName = authState.metadata?.name || authState.oauthProfile?.name || 'Limbo Health';
+  const authorEmail = authState.oauthProfile?.email || 'app@limbo.health';
+
+  useEffect(() => {
+    if (!enabled || !jwt || !masterConversationKey) return;
+    let cancelled = false;
+    let running = false;
+    let timer: ReturnType<typeof setTimeout> | null = null;
+
+    const schedule = async () => {
+      if (timer) clearTimeout(timer);
+      timer = null;
+      const due = nextDueAt(await readPushQueue());
+      if (!due || cancelled) return;
+      timer = setTimeout(() => flush(false), Math.max(due.getTime() - Date.now(), 1_000));
+    };
+
+    // `force` skips the remaining backoff (the network just came back).
+    const flush = async (force: boolean) => {
+      if (running || cancelled) return;
+      running = true;
+      try {
+        const now = new Date();
+        for (const entry of Object.values(await readPushQueue())) {
+          if (cancelled) return;
+          if (entry.state !== 'pending' || (!force && !isPushDue(entry, now))) continue;
+          const service = new BinderService(
+            {
+              repoId: entry.repoId,
+              repoDir: entry.repoDir,
+              auth: { type: 'jwt' as const, token: jwt },
+              author: { name: authorName, email: authorEmail },
+            },
+            masterConversationKey,
+          );
+          try {
+            await service.push();
+          } catch {
+            // push() recorded the failure and its next attempt.
+          }
+        }
+      } finally {
+        running = false;
+        if (!cancelled) schedule();
+      }
+    };
+
+    flush(false);
+    const unsubscribeQueue = subscribePushQueue(() => {
+      if (!running) schedule();
+    });
+    const appStateSubscription = AppState.addEventListener('change', (next) => {
+      if (next === 'active') flush(false);
+    });
+
+    let networkSubscription: { remove: () => void } | null = null;
+    (async () => {
+      try {
+        const Network = await import('expo-network');
+        if (cancelled) return;
+        let reachable = true;
+        networkSubscription = Network.addNetworkStateListener((event) => {
+          const nowReachable = event.isInternetReachable ?? event.isConnected ?? false;
+          if (nowReachable && !reachable) flush(true);
+          reachable = nowReachable;
+        });
+      } catch (err) {
+        // Without network events, the backoff timer and foreground retries still run.
+        console.warn('Network state unavailable for push retries:', err);
+      }
+    })();
+
+    return () => {
+      cancelled = true;
+      if (timer) clearTimeout(timer);
+      unsubscribeQueue();
+      appStateSubscription.remove();
+      networkSubscription?.remove();
+    };
+  }, [enabled, jwt, masterConversationKey, authorName, authorEmail]);
+}
@@ -0,0 +1,365 @@
+// hooks/useRecordsRequestLedger.ts
+// The signed-in owner's records-request ledger. Requests are kept on this
+// device; a copy of each sent PDF goes into the last opened binder so it is
+// encrypted and synced with the rest of the record. Faxes sent from the app
+// are refreshed from the records workflow API until they are delivered.
+// Records the hospital sends back are filed into the same binder under a
+// folder named for the hospital system.
+
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import * as SecureStore from 'expo-secure-store';
+import RNFS from 'react-native-fs';
+import { useAuthContext } from '../providers/AuthProvider';
+import { useCryptoContext } from '../providers/CryptoProvider';
+import { BinderService } from '../core/binder/BinderService';
+import { unlockBinder } from '../core/binder/BinderKeyring';
+import { getLastViewed } from '../core/binder/LastViewedStore';
+import { decode as b64decode, encode as b64encode } from '../core/crypto/base64';
+import { resolvePortalOwnerKey } from '../core/portal/storageScope';
+import {
+  fetchRecordsRequestFaxJob,
+  fetchRecordsRequestPacket,
+  sendRecordsRequestFax,
+} from '../core/recordsWorkflow/api';
+import {
+  RECORDS_REQUEST_FOLDER,
+  RecordsRequestLedger,
+  buildRecordsRequestCopyDocument,
+  createTrackedRecordsRequest,
+  isFaxDeliveryPending,
+  withFaxJob,
+  withReceivedRecords,
+  type NewTrackedRecordsRequestInput,
+} from '../core/recordsWorkflow/ledger';
+import {
+  RECEIVED_RECORDS_ICON,
+  analyzeReceivedFiles,
+  buildReceivedRecordsDocument,
+  receivedRecordsFolder,
+  type ReceivedRecordFile,
+} from '../core/recordsWorkflow/receivedRecords';
+import type { HospitalSystemOption, RecordsRequestPacket, TrackedRecordsRequest } from '../types/recordsRequest';
+
+const LAST_BINDER_KEY = 'limbo_last_binder';
+
+export interface TrackRecordsRequestResult {
+  request: TrackedRecordsRequest;
+  /** Why the PDF copy was not saved to a binder, if it wasn't. */
+  copyError: string | null;
+}
+
+export interface FaxSender {
+  name: string;
+  phone: string;
+  email: string;
+}
+
+export interface FaxRecordsRequestInput {
+  hospitalSystem: HospitalSystemOption;
+  formName: string | null;
+  destination: string;
+  sender: FaxSender;
+}
+
+/** A file picked from the device, e.g. by expo-document-picker. */
+export interface ReceivedRecordsFile {
+  name: string;
+  uri: string;
+}
+
+export interface ImportReceivedRecordsResult {
+  request: TrackedRecordsRequest;
+  files: ReceivedRecordFile[];
+}
+
+export function useRecordsRequestLedger() {
+  const { state } = useAuthContext();
+  const { masterConversationKey } = useCryptoContext();
+  const [requests, setRequests] = useState<TrackedRecordsRequest[]>([]);
+  const [loaded, setLoaded] = useState(false);
+
+  const ownerKey = useMemo(
+    () =>
+      resolvePortalOwnerKey({
+        status: state.status,
+        pubkey: state.pubkey,
+        loginMethod: state.loginMethod,
+        oauthProviderUserId: state.oauthProfile?.providerUserId ?? null,
+        oauthEmail: state.oauthProfile?.email ?? null,
+      }),
+    [
+      state.status,
+      state.pubkey,
+      state.loginMethod,
+      state.oauthProfile?.providerUserId,
+      state.oauthProfile?.email,
+    ],
+  );
+  const ledger = useMemo(
+    () => (ownerKey ? new RecordsRequestLedger(SecureStore, ownerKey) : null),
+    [ownerKey],
+  );
+  const jwt = state.status === 'authenticated' ? state.jwt : null;
+
+  const reload = useCallback(async () => {
+    if (!ledger) {
+      setRequests([]);
+      setLoaded(true);
+      return;
+    }
+    try {
+      let nextRequests = await ledger.listRequests();
+      setRequests(nextRequests);
+      setLoaded(true);
+
+      // Fax status is only visible to the signed-in sender
+      if (jwt) {
+        for (const request of nextRequests.filter(isFaxDeliveryPending)) {
+          try {
+            const faxJob = await fetchRecordsRequestFaxJob(request.faxJob!.id, jwt);
+            if (faxJob.status !== request.faxJob!.status || faxJob.updatedAt !== request.faxJob!.updatedAt) {
+              nextRequests = await ledger.upsertRequest(withFaxJob(request, faxJob));
+            }
+          } catch (error) {
+            console.warn('[useRecordsRequestLedger] Failed to refresh fax status', error);
+          }
+        }
+      }
+      setRequests(nextRequests);
+    } catch (error) {
+      console.warn('[useRecordsRequestLedger] Failed to load records requests', error);
+    } finally {
+      setLoaded(true);
+    }
+  }, [ledger, jwt]);
+
+  useEffect(() => {
+    void reload();
+  }, [reload]);
+
+  const saveRequest = useCallback(
+    async (request: TrackedRecordsRequest) => {
+      if (!ledger) {
+        throw new Error('You must be signed in to track records requests.');
+      }
+      setRequests(await ledger.upsertRequest(request));
+    },
+    [ledger],
+  );
+
+  const deleteRequest = useCallback(
+    async (requestId: string) => {
+      if (!ledger) return;
+      setRequests(await ledger.deleteRequest(requestId));
+    },
+    [ledger],
+  );
+
+  const openBinderService = useCallback(
+    async (binderId: string): Promise<BinderService> => {
+      if (!jwt || !masterConversationKey) {
+        throw new Error('Sign in and unlock your binders to use the PDF copy.');
+      }
+      const repoDir = `binders/${binderId}`;
+      if (!(await RNFS.exists(`${RNFS.DocumentDirectoryPath}/${repoDir}/.git`))) {
+        throw new Error('That binder is not on this device.');
+      }
+
+      return new BinderService(
+        {
+          repoId: binderId,
+          repoDir,
+          auth: { type: 'jwt' as const, token: jwt },
+          author: {
+            name: state.metadata?.name || state.oauthProfile?.name || 'Limbo Health',
+            email: state.oauthProfile?.email || 'app@limbo.health',
+          },
+        },
+        (await unlockBinder(repoDir)) ?? masterConversationKey,
+      );
+    },
+    [jwt, masterConversationKey, state.metadata?.name, state.oauthProfile?.name, state.oauthProfile?.email],
+  );
+
+  const saveCopyToBinder = useCallback(
+    async (request: TrackedRecordsRequest, pdfUri: string): Promise<TrackedRecordsRequest> => {
+      const binderId = getLastViewed()?.binderId ?? (await SecureStore.getItemAsync(LAST_BINDER_KEY));
+      if (!binderId) {
+        throw new Error('Open a binder on this device to keep a copy of the PDF.');
+      }
+
+      const service = await openBinderService(binderId);
+      const pdfPath = pdfUri.replace(/^file:\/\//, '');
+      const [pdfBase64, stat] = await Promise.all([RNFS.readFile(pdfPath, 'base64'), RNFS.stat(pdfPath)]);
+      const { doc, sidecars } = buildRecordsRequestCopyDocument(request, pdfBase64, Number(stat.size));
+
+      await service.ensureFolder(RECORDS_REQUEST_FOLDER, 'Records Requests', '📨');
+      const entryPath = await service.addEntryWithSidecars(
+        RECORDS_REQUEST_FOLDER,
+        'records-request',
+        doc,
+        sidecars,
+        new Date(request.sentAt),
+      );
+      return { ...request, pdfCopy: { binderId, entryPath } };
+    },
+    [openBinderService],
+  );
+
+  /**
+   * Add a sent request to the ledger. The PDF copy is best effort: the
+   * request is tracked even when no binder is available.
+   */
+  const trackRequest = useCallback(
+    async (input: NewTrackedRecordsRequestInput, pdfUri: string | null): Promise<TrackRecordsRequestResult> => {
+      let request = createTrackedRecordsRequest(input);
+      let copyError: string | null = null;
+
+      if (pdfUri) {
+        try {
+          request = await saveCopyToBinder(request, pdfUri);
+        } catch (error) {
+          copyError = error instanceof Error ? error.message : 'Unable to save a copy of the PDF.';
+        }
+      }
+
+      await saveRequest(request);
+      return { request, copyError };
+    },
+    [saveCopyToBinder, saveRequest],
+  );
+
+  /**
+   * Fax the PDF to the hospital through the records workflow API, then track
+   * it. The deadline waits until the fax is delivered.
+   */
+  const faxRequest = useCallback(
+    async (input: FaxRecordsRequestInput, pdfUri: string): Promise<TrackRecordsRequestResult> => {
+      if (!jwt) {
+        throw new Error('You must be signed in to send a fax.');
+      }
+      const pdfBase64 = await RNFS.readFile(pdfUri.replace(/^file:\/\//, ''), 'base64');
+      const faxJob = await sendRecordsRequestFax(
+        {
+          hospitalSystemId: input.hospitalSystem.id,
+          hospitalSystemName: input.hospitalSystem.name,
+          to: input.destination,
+          sender: input.sender,
+          pdfBase64,
+        },
+        jwt,
+      );
+
+      return trackRequest(
+        {
+          hospitalSystem: input.hospitalSystem,
+          formName: input.formName,
+          channel: 'fax',
+          destination: input.destination,
+          faxJob,
+        },
+        pdfUri,
+      );
+    },
+    [jwt, trackRequest],
+  );
+
+  /** Fax a failed request again, using the PDF copy saved in the binder. */
+  const resendFax = useCallback(
+    async (request: TrackedRecordsRequest, sender: FaxSender): Promise<TrackedRecordsRequest> => {
+      if (!jwt) {
+        throw new Error('You must be signed in to send a fax.');
+      }
+      if (!request.destination) {
+        throw new Error('This request has no fax number.');
+      }
+      if (!request.pdfCopy) {
+        throw new Error('No copy of the PDF was saved to a binder, so it cannot be faxed again from here.');
+      }
+
+      const { binderId, entryPath } = request.pdfCopy;
+      const service = await openBinderService(binderId);
+      const doc = await service.readEntry(entryPath);
+      const attachment = doc.children.find(
+        (child) => child.metadata.type === 'attachment_ref' && child.metadata.format === 'pdf',
+      );
+      if (!attachment) {
+        throw new Error('The saved copy has no PDF attached.');
+      }
+
+      // Sidecars sit next to their entry
+      const dirPath = entryPath.slice(0, entryPath.lastIndexOf('/') + 1);
+      const pdfBytes = await service.readSidecar(dirPath + attachment.value);
+      const faxJob = await sendRecordsRequestFax(
+        {
+          hospitalSystemId: request.hospitalSystem.id,
+          hospitalSystemName: request.hospitalSystem.name,
+          to: request.destination,
+          sender,
+          pdfBase64: b64encode(pdfBytes),
+        },
+        jwt,
+      );
+
+      const next = withFaxJob(request, faxJob);
+      await saveRequest(next);
+      return next;
+    },
+    [jwt, openBinderService, saveRequest],
+  );
+
+  /**
+   * File the records the hospital sent (PDFs, zip bundles) into the binder
+   * holding the request's PDF copy, or the last opened one, and mark the
+   * request fulfilled. Provider details come from the hospital's records
+   * packet when the API is reachable.
+   */
+  const importReceivedRecords = useCallback(
+    async (request: TrackedRecordsRequest, picked: ReceivedRecordsFile[]): Promise<ImportReceivedRecordsResult> => {
+      const binderId =
+        request.pdfCopy?.binderId ?? getLastViewed()?.binderId ?? (await SecureStore.getItemAsync(LAST_BINDER_KEY));
+      if (!binderId) {
+        throw new Error('Open a binder on this device to file the records in.');
+      }
+
+      const service = await openBinderService(binderId);
+      const inputs = await Promise.all(
+        picked.map(async (file) => ({
+          name: file.name,
+          bytes: b64decode(await RNFS.readFile(decodeURI(file.uri.replace(/^file:\/\//, '')), 'base64')),
+        })),
+      );
+      const files = await analyzeReceivedFiles(inputs);
+
+      let packet: RecordsRequestPacket | null = null;
+      try {
+        packet = await fetchRecordsRequestPacket(request.hospitalSystem.id);
+      } catch (error) {
+        console.warn('[useRecordsRequestLedger] Failed to load records packet', error);
+      }
+
+      const receivedAt = new Date().toISOString();
+      const { doc, sidecars, date } = buildReceivedRecordsDocument({ request, packet, files, receivedAt });
+      const folder = receivedRecordsFolder(request);
+      await service.ensureFolder(folder.path, folder.displayName, RECEIVED_RECORDS_ICON);
+      const entryPath = await service.addEntryWithSidecars(folder.path, 'records-received', doc, sidecars, date);
+
+      const next = withReceivedRecords(request, { binderId, entryPath, receivedAt, fileCount: files.length });
+      await saveRequest(next);
+      return { request: next, files };
+    },
+    [openBinderService, saveRequest],
+  );
+
+  return {
+    requests,
+    loaded,
+    reload,
+    trackRequest,
+    faxRequest,
+    resendFax,
+    importReceivedRecords,
+    saveRequest,
+    deleteRequest,
+  };
+}
@@ -4,8 +4,13 @@
 //
 // The QR is shown optimistically after re-encrypt + session creation (~350ms).
 // The staging repo push (~1.2s) runs in the background while the doctor scans.
+// Ending the share fetches the staging repo first, so anything the doctor
+// added is kept for review (core/scan/IncomingContributions), then always
+// revokes. If the fetch failed, the local staging copy stays so the review
+// screen can try again before the server deletes the staging repo.
 
 import { useState, useCallback, useRef } from 'react';
+import { bytesToHex } from '@noble/hashes/utils.js';
 import {
   reEncryptBinder,
   cleanupStaging,
@@ -17,6 +22,13 @@ import {
 } from '../core/scan/ScanSession';
 import type { ScanQRPayload } from '../core/scan/ScanSession';
 import type { ReEncryptionProgress } from '../core/scan/ReEncryptionPipeline';
+import type { ShareScope } from '../core/scan/ShareScope';
+import { binderKeyFor } from '../core/binder/BinderKeyring';
+import {
+  collectIncomingShare,
+  recordIncomingShare,
+  type IncomingShare,
+} from '../core/scan/IncomingContributions';
 
 // --- Types ---
 
@@ -29,6 +41,13 @@ export type SharePhase =
 
 export type PushStatus = 'pushing' | 'done' | 'slow' | 'failed';
 
+export interface ShareOptions {
+  /** Folders/entries and date range to share; omit for the whole binder. */
+  scope?: ShareScope;
+  /** Session lifetime; the server applies its default when omitted. */
+  expiresInMinutes?: number;
+}
+
 export interface ShareState {
   phase: SharePhase;
   progress?: ReEncryptionProgress;
@@ -49,8 +68,10 @@ export function useShareSession(
   const sessionTokenRef = useRef<string | null>(null);
   const pushPromiseRef = useRef<Promise<void> | null>(null);
   const slowTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const ephemeralPrivkeyRef = useRef<string | null>(null);
+  const incomingShareRef = useRef<IncomingShare | null>(null);
 
-  const startShare = useCallback(async () => {
+  const startShare = useCallback(async (options: ShareOptions = {}) => {
     if (!masterConversationKey || !jwt) {
       setState({ phase: 'error', error: 'Not authenticated' });
       return;
@@ -64,14 +85,17 @@ export function useShareSession(
 
       const reEncryptResult = await reEncryptBinder(
         binderRepoDir,
-        masterConversationKey,
+        binderKeyFor(binderRepoDir) ?? masterConversationKey,
         (progress) => {
           setState({ phase: 're-encrypting', progress });
         },
+        options.scope,
       );
       console.log(`[Share] Re-encrypt: ${Date.now() - t0}ms`);
 
       stagingDirRef.current = reEncryptResult.stagingDir;
+      ephemeralPrivkeyRef.current = bytesToHex(reEncryptResult.ephemeralPrivkey);
+      incomingShareRef.current = null;
 
       // Extract repoId from stagingDir: 'staging/scan-abc123' → 'scan-abc123'
       const parts = reEncryptResult.stagingDir.split('/');
@@ -85,6 +109,7 @@ export function useShareSession(
         repoId,
         reEncryptResult.ephemeralPrivkey,
         jwt,
+        { expiresInMinutes: options.expiresInMinutes, scope: options.scope },
       );
       console.log(`[Share] Create session: ${Date.now() - t1}ms`);
       console.log(`[Share] QR ready: ${Date.now() - t0}ms (${reEncryptResult.fileCount} files)`);
@@ -119,8 +144,23 @@ export function useShareSession(
     pushPromiseRef.current = pushStagingRepo(
       stagingDir,
       { type: 'jwt', token: jwt! },
-    ).then(() => {
+    ).then(async ({ repoId, snapshotOid }) => {
       console.log(`[Share] Push staging: ${Date.now() - t2}ms`);
+      // Remember how to read the staging repo later, for whatever the doctor adds
+      const share: IncomingShare = {
+        stagingRepoId: repoId,
+        stagingDir,
+        binderId: binderRepoDir.split('/').pop()!,
+        ephemeralPrivkey: ephemeralPrivkeyRef.current!,
+        snapshotOid,
+        sessionToken: sessionTokenRef.current ?? undefined,
+        sharedAt: new Date().toISOString(),
+        handled: [],
+      };
+      incomingShareRef.current = share;
+      await recordIncomingShare(share).catch((err) => {
+        console.warn('[Share] Failed to record share for incoming entries:', err);
+      });
       console.log(`[Share] Total: ${Date.now() - t0}ms`);
       pushPromiseRef.current = null;
       if (slowTimerRef.current) clearTimeout(slowTimerRef.current);
@@ -135,7 +175,7 @@ export function useShareSession(
         prev.phase === 'showing-qr' ? { ...prev, pushStatus: 'failed' } : prev,
       );
     });
-  }, [jwt]);
+  }, [binderRepoDir, jwt]);
 
   const retryPush = useCallback(() => {
     if (!stagingDirRef.current) return;
@@ -153,19 +193,40 @@ export function useShareSession(
       await pushPromiseRef.current.catch(() => {});
     }
 
-    // Revoke session if one exists
+    // Bring back anything the doctor added before the session (and with it the
+    // staging repo) goes away.
+    let incomingCount = 0;
+    let fetched = true;
+    if (incomingShareRef.current && jwt) {
+      try {
+        incomingCount = await collectIncomingShare(incomingShareRef.current, { type: 'jwt', token: jwt });
+      } catch (err) {
+        console.warn('[Share] Failed to fetch doctor contributions:', err);
+        fetched = false;
+      }
+      incomingShareRef.current = null;
+    }
+
+    // The doctor loses access even if the fetch failed
+    let revokeError: string | null = null;
     if (sessionTokenRef.current && jwt) {
-      await revokeScanSession(sessionTokenRef.current, jwt).catch(() => {});
-      sessionTokenRef.current = null;
+      try {
+        await revokeScanSession(sessionTokenRef.current, jwt);
+      } catch (err) {
+        console.warn('[Share] Failed to revoke scan session:', err);
+        revokeError = 'Sharing could not be stopped. The QR code keeps working until it expires.';
+      }
     }
+    sessionTokenRef.current = null;
 
-    // Clean up local staging directory
-    if (stagingDirRef.current) {
+    // Clean up local staging directory unless it holds entries to review
+    if (stagingDirRef.current && fetched && incomingCount === 0) {
       await cleanupStaging(stagingDirRef.current).catch(() => {});
-      stagingDirRef.current = null;
     }
+    stagingDirRef.current = null;
+    ephemeralPrivkeyRef.current = null;
 
-    setState({ phase: 'idle' });
+    setState(revokeError ? { phase: 'error', error: revokeError } : { phase: 'idle' });
   }, [jwt]);
 
   return { state, startShare, retryPush, cancel };
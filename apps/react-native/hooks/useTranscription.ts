@@ -0,0 +1,44 @@
+// hooks/useTranscription.ts
+// Runs the installed transcription engine (the platform's on-device speech
+// recognizer unless another engine was set) over a decrypted recording and
+// returns the transcript child document to attach to it.
+
+import { useCallback, useEffect, useState } from 'react';
+import type { MedicalDocument } from '../types/document';
+import {
+  createTranscriptDocument,
+  getTranscriptionEngine,
+  groupTimedWords,
+} from '../core/audio/transcript';
+import { deviceSpeechEngine } from '../core/audio/deviceSpeechEngine';
+
+export function useTranscription() {
+  const engine = getTranscriptionEngine() ?? deviceSpeechEngine;
+  const [available, setAvailable] = useState(false);
+  const [transcribing, setTranscribing] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    engine
+      .isAvailable()
+      .then((result) => {
+        if (!cancelled) setAvailable(result);
+      })
+      .catch(() => {
+        if (!cancelled) setAvailable(false);
+      });
+    return () => { cancelled = true; };
+  }, [engine]);
+
+  const transcribe = useCallback(async (audioUri: string, durationMs?: number): Promise<MedicalDocument> => {
+    setTranscribing(true);
+    try {
+      const words = await engine.transcribe(audioUri, { durationMs });
+      return createTranscriptDocument(groupTimedWords(words));
+    } finally {
+      setTranscribing(false);
+    }
+  }, [engine]);
+
+  return { engineLabel: engine.label, available, transcribing, transcribe };
+}
@@ -0,0 +1,14 @@
+declare module 'pako' {
+  export function inflate(data: Uint8Array): Uint8Array;
+  export function inflateRaw(data: Uint8Array): Uint8Array;
+  export function deflate(data: Uint8Array): Uint8Array;
+  export function deflateRaw(data: Uint8Array): Uint8Array;
+
+  export class Inflate {
+    constructor(options?: { raw?: boolean; chunkSize?: number });
+    /** Non-zero zlib status once inflating failed. */
+    err: number;
+    onData(chunk: Uint8Array): void;
+    push(data: Uint8Array, last?: boolean): boolean;
+  }
+}
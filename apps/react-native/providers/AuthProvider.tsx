@@ -15,6 +15,12 @@ import * as SecureStore from 'expo-secure-store';
 import { secp256k1 } from '@noble/curves/secp256k1.js';
 import { KeyManager } from '../core/crypto/KeyManager';
 import { authenticateNostr, signChallenge } from '../core/crypto/nostrAuth';
+import {
+  cancelKeyRotation as cancelStoredKeyRotation,
+  rotateMasterKey as runKeyRotation,
+  type KeyRotationProgress,
+  type KeyRotationResult,
+} from '../core/binder/KeyRotation';
 import { API_BASE_URL, ENDPOINTS } from '../constants/api';
 import type { AppleLoginPayload } from '../core/auth/appleAuth';
 import type {
@@ -72,6 +78,10 @@ interface AuthContextValue {
   refreshAuth: () => Promise<void>;
   updateMetadata: (partial: Partial<NostrMetadata>) => Promise<void>;
   deleteAccount: () => Promise<void>;
+  /** Re-encrypt every binder under a fresh master key, or resume an interrupted rotation. */
+  rotateMasterKey: (onProgress?: (progress: KeyRotationProgress) => void) => Promise<KeyRotationResult>;
+  /** Abandon an interrupted rotation that hasn't uploaded any binder yet. */
+  cancelKeyRotation: () => Promise<void>;
 }
 
 const AuthContext = createContext<AuthContextValue | null>(null);
@@ -904,6 +914,37 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     fetchProfile(jwt).then(profile => setState(prev => applyProfileSnapshot(prev, profile)));
   }, [keyManager, privkeyRef, state.loginMethod]);
 
+  // --- Key rotation ---
+
+  const rotateMasterKey = useCallback(async (onProgress?: (progress: KeyRotationProgress) => void) => {
+    if (!state.jwt) throw new Error('Not authenticated');
+    const currentPrivkey = privkeyRef ?? await keyManager.getMasterPrivkey();
+    if (!currentPrivkey) throw new Error('No encryption key on this device');
+
+    const result = await runKeyRotation({
+      keyManager,
+      currentPrivkey,
+      jwt: state.jwt,
+      author: {
+        name: state.metadata?.name || state.oauthProfile?.name || 'Limbo Health',
+        email: state.oauthProfile?.email || 'app@limbo.health',
+      },
+      onProgress,
+    });
+
+    await SecureStore.setItemAsync(JWT_STORAGE_KEY, result.jwt);
+    setPrivkeyRef(result.privkey);
+    setState(prev => ({ ...prev, jwt: result.jwt, pubkey: result.pubkey }));
+    fetchProfile(result.jwt).then(profile => setState(prev => applyProfileSnapshot(prev, profile)));
+    return result;
+  }, [keyManager, privkeyRef, state.jwt, state.metadata, state.oauthProfile]);
+
+  const cancelKeyRotation = useCallback(async () => {
+    const currentPrivkey = privkeyRef ?? await keyManager.getMasterPrivkey();
+    if (!currentPrivkey) throw new Error('No encryption key on this device');
+    await cancelStoredKeyRotation(keyManager, currentPrivkey);
+  }, [keyManager, privkeyRef]);
+
   // --- Render ---
 
   const value = useMemo(
@@ -923,8 +964,10 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
       refreshAuth,
       updateMetadata,
       deleteAccount,
+      rotateMasterKey,
+      cancelKeyRotation,
     }),
-    [state, needsOnboarding, privkeyRef, hasStoredNostrKey, login, loginWithGoogle, loginWithApple, loginWithStoredNostr, storeNostrKey, logout, resetLocalAppState, completeOnboarding, refreshAuth, updateMetadata, deleteAccount],
+    [state, needsOnboarding, privkeyRef, hasStoredNostrKey, login, loginWithGoogle, loginWithApple, loginWithStoredNostr, storeNostrKey, logout, resetLocalAppState, completeOnboarding, refreshAuth, updateMetadata, deleteAccount, rotateMasterKey, cancelKeyRotation],
   );
 
   return (
@@ -2,6 +2,7 @@
 // Provides encryption/decryption bound to the master key.
 // Activates only after AuthProvider confirms authentication.
 // Manages biometric-gated key access and EncryptedIO instance.
+// Also unlocks the binder keys of shared binders (BinderKeyring).
 
 import React, {
   createContext,
@@ -14,6 +15,7 @@ import { KeyManager } from '../core/crypto/KeyManager';
 import { EncryptedIO } from '../core/binder/EncryptedIO';
 import { createFSAdapter } from '../core/git/fsAdapter';
 import { clearAll as clearBinderCache } from '../core/binder/BinderCache';
+import { binderKeyFor, setKeyringIdentity, unlockClonedBinders } from '../core/binder/BinderKeyring';
 import { useAuthContext } from './AuthProvider';
 
 // --- Context ---
@@ -57,23 +59,39 @@ export function CryptoProvider({ children }: { children: React.ReactNode }) {
       setReady(false);
       setMasterConversationKey(null);
       setMasterPubkey(null);
+      setKeyringIdentity(null);
       clearBinderCache();
       return;
     }
 
-    try {
-      const pubkey = KeyManager.pubkeyFromPrivkey(privkey);
-
-      // Encrypt-to-self: conversation key with own pubkey
-      const convKey = KeyManager.computeConversationKey(privkey, pubkey);
-
-      setMasterPubkey(pubkey);
-      setMasterConversationKey(convKey);
-      setReady(true);
-    } catch (err) {
-      console.error('CryptoProvider init failed:', err);
-      setReady(false);
-    }
+    let cancelled = false;
+    (async () => {
+      try {
+        const pubkey = KeyManager.pubkeyFromPrivkey(privkey);
+
+        // Encrypt-to-self: conversation key with own pubkey
+        const convKey = KeyManager.computeConversationKey(privkey, pubkey);
+
+        setKeyringIdentity(privkey);
+        // Unlock shared binders before reporting ready, so nothing opens one
+        // with the master key. A binder that fails stays locked and is
+        // unlocked again when opened.
+        try {
+          await unlockClonedBinders();
+        } catch (err) {
+          console.warn('Could not unlock shared binders:', err);
+        }
+        if (cancelled) return;
+
+        setMasterPubkey(pubkey);
+        setMasterConversationKey(convKey);
+        setReady(true);
+      } catch (err) {
+        console.error('CryptoProvider init failed:', err);
+        if (!cancelled) setReady(false);
+      }
+    })();
+    return () => { cancelled = true; };
   }, [authState.status, privkey]);
 
   // --- Factory: creates EncryptedIO bound to a specific binder ---
@@ -84,7 +102,7 @@ export function CryptoProvider({ children }: { children: React.ReactNode }) {
         throw new Error('CryptoProvider not ready — no conversation key');
       }
       const fs = createFSAdapter(repoDir);
-      return new EncryptedIO(fs, masterConversationKey, repoDir);
+      return new EncryptedIO(fs, binderKeyFor(repoDir) ?? masterConversationKey, repoDir);
     };
   }, [masterConversationKey]);
 
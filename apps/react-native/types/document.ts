@@ -14,6 +14,22 @@ export interface DocumentMetadata {
   originalSizeBytes?: number;
   durationMs?: number;
   condition?: string;        // condition slug for photo entries
+  importSource?: string;     // source record id for entries imported from FHIR/C-CDA or a portal
+  sourceUrl?: string;        // portal page or download URL a harvested entry came from
+  portalFamily?: string;     // PortalFamilyId of the portal a harvested entry came from
+  contentSha256?: string;    // sha256 hex of an attachment's base64 content, for signed notes
+  signature?: NoteSignature; // doctor's Nostr signature (core/crypto/noteSignature.ts)
+}
+
+/** NIP-01 event signed over a note's digest. Not published anywhere. */
+export interface NoteSignature {
+  id: string;
+  pubkey: string;
+  created_at: number;
+  kind: number;
+  tags: string[][];
+  content: string;
+  sig: string;
 }
 
 export interface MedicalDocument {
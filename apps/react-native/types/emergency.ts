@@ -0,0 +1,86 @@
+// types/emergency.ts
+// Emergency medical ID: the small, opt-in subset of the patient's info that
+// can be read without the master key (lock-screen card, QR, link). Nothing is
+// exposed unless its field is switched on here.
+
+export type EmergencyField =
+  | 'name'
+  | 'dateOfBirth'
+  | 'bloodType'
+  | 'allergies'
+  | 'medications'
+  | 'conditions'
+  | 'contacts';
+
+export type EmergencyExportFormat = 'card-image' | 'qr' | 'link';
+
+export interface EmergencyContact {
+  name: string;
+  relationship: string;
+  phone: string;
+}
+
+/** One export of the card, kept so the patient can see what left the app and when. */
+export interface EmergencyExportRecord {
+  at: string;                 // ISO 8601
+  format: EmergencyExportFormat;
+  fields: EmergencyField[];
+}
+
+export interface EmergencyProfile {
+  /** Fields the patient switched on. Everything else stays off the card. */
+  fields: EmergencyField[];
+  bloodType: string;
+  /** Chosen lines, copied from a binder or typed in. */
+  allergies: string[];
+  medications: string[];
+  conditions: string[];
+  contacts: EmergencyContact[];
+  /** Binder the lines were last picked from. */
+  sourceBinderId?: string;
+  updatedAt?: string;
+  exports: EmergencyExportRecord[];
+}
+
+export const EMERGENCY_FIELDS: EmergencyField[] = [
+  'name',
+  'dateOfBirth',
+  'bloodType',
+  'allergies',
+  'medications',
+  'conditions',
+  'contacts',
+];
+
+export const EMERGENCY_FIELD_LABELS: Record<EmergencyField, string> = {
+  name: 'Name',
+  dateOfBirth: 'Date of birth',
+  bloodType: 'Blood type',
+  allergies: 'Allergies',
+  medications: 'Medications',
+  conditions: 'Conditions',
+  contacts: 'Emergency contacts',
+};
+
+export const EMERGENCY_EXPORT_LABELS: Record<EmergencyExportFormat, string> = {
+  'card-image': 'Card image',
+  qr: 'QR code',
+  link: 'Link',
+};
+
+export const BLOOD_TYPES = ['A+', 'A-', 'B+', 'B-', 'AB+', 'AB-', 'O+', 'O-'];
+
+/** Most export records kept on the device. */
+export const EMERGENCY_EXPORT_HISTORY_LIMIT = 20;
+
+export function emptyEmergencyProfile(): EmergencyProfile {
+  return {
+    fields: [],
+    bloodType: '',
+    allergies: [],
+    medications: [],
+    conditions: [],
+    contacts: [],
+    exports: [],
+  };
+}
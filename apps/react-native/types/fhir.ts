@@ -0,0 +1,188 @@
+// types/fhir.ts
+// The subset of FHIR R4 resources Limbo reads and writes.
+// Deliberately loose: only the fields the exporter/importer touch are typed.
+
+export interface FhirCoding {
+  system?: string;
+  code?: string;
+  display?: string;
+}
+
+export interface FhirCodeableConcept {
+  coding?: FhirCoding[];
+  text?: string;
+}
+
+export interface FhirReference {
+  reference?: string;
+  display?: string;
+  identifier?: FhirIdentifier;
+}
+
+export interface FhirIdentifier {
+  system?: string;
+  value?: string;
+}
+
+export interface FhirPeriod {
+  start?: string;
+  end?: string;
+}
+
+export interface FhirQuantity {
+  value?: number;
+  unit?: string;
+}
+
+export interface FhirAnnotation {
+  text: string;
+}
+
+export interface FhirAttachment {
+  contentType?: string;
+  data?: string;
+  url?: string;
+  size?: number;
+  title?: string;
+  creation?: string;
+}
+
+export interface FhirHumanName {
+  text?: string;
+  family?: string;
+  given?: string[];
+}
+
+interface FhirResourceBase {
+  id?: string;
+  identifier?: FhirIdentifier[];
+}
+
+export interface FhirPatient extends FhirResourceBase {
+  resourceType: 'Patient';
+  name?: FhirHumanName[];
+  birthDate?: string;
+}
+
+export interface FhirMedicationStatement extends FhirResourceBase {
+  resourceType: 'MedicationStatement';
+  status: 'active' | 'completed' | 'stopped' | 'unknown';
+  medicationCodeableConcept: FhirCodeableConcept;
+  subject: FhirReference;
+  effectivePeriod?: FhirPeriod;
+  dateAsserted?: string;
+  informationSource?: FhirReference;
+  dosage?: { text: string }[];
+  note?: FhirAnnotation[];
+}
+
+export interface FhirObservation extends FhirResourceBase {
+  resourceType: 'Observation';
+  status: 'final' | 'preliminary' | 'amended' | 'unknown';
+  category?: FhirCodeableConcept[];
+  code: FhirCodeableConcept;
+  subject: FhirReference;
+  effectiveDateTime?: string;
+  valueQuantity?: FhirQuantity;
+  valueString?: string;
+  referenceRange?: { low?: FhirQuantity; high?: FhirQuantity; text?: string }[];
+  interpretation?: FhirCodeableConcept[];
+  performer?: FhirReference[];
+}
+
+export interface FhirDiagnosticReport extends FhirResourceBase {
+  resourceType: 'DiagnosticReport';
+  status: 'final' | 'preliminary' | 'amended' | 'unknown';
+  category?: FhirCodeableConcept[];
+  code: FhirCodeableConcept;
+  subject: FhirReference;
+  effectiveDateTime?: string;
+  issued?: string;
+  performer?: FhirReference[];
+  result?: FhirReference[];
+  conclusion?: string;
+  presentedForm?: FhirAttachment[];
+}
+
+export interface FhirEncounter extends FhirResourceBase {
+  resourceType: 'Encounter';
+  status: 'finished' | 'in-progress' | 'planned' | 'unknown';
+  class: FhirCoding;
+  type?: FhirCodeableConcept[];
+  subject: FhirReference;
+  period?: FhirPeriod;
+  participant?: { individual: FhirReference }[];
+  reasonCode?: FhirCodeableConcept[];
+}
+
+export interface FhirAllergyIntolerance extends FhirResourceBase {
+  resourceType: 'AllergyIntolerance';
+  clinicalStatus?: FhirCodeableConcept;
+  code: FhirCodeableConcept;
+  patient: FhirReference;
+  recordedDate?: string;
+  recorder?: FhirReference;
+  reaction?: {
+    manifestation: FhirCodeableConcept[];
+    severity?: 'mild' | 'moderate' | 'severe';
+  }[];
+  note?: FhirAnnotation[];
+}
+
+export interface FhirImmunization extends FhirResourceBase {
+  resourceType: 'Immunization';
+  status: 'completed' | 'not-done' | 'entered-in-error';
+  vaccineCode: FhirCodeableConcept;
+  patient: FhirReference;
+  occurrenceDateTime?: string;
+  lotNumber?: string;
+  doseQuantity?: FhirQuantity;
+  performer?: { actor: FhirReference }[];
+  protocolApplied?: { doseNumberPositiveInt: number }[];
+  note?: FhirAnnotation[];
+}
+
+export interface FhirDocumentReference extends FhirResourceBase {
+  resourceType: 'DocumentReference';
+  status: 'current' | 'superseded' | 'entered-in-error';
+  type?: FhirCodeableConcept;
+  subject: FhirReference;
+  date?: string;
+  author?: FhirReference[];
+  description?: string;
+  content: { attachment: FhirAttachment }[];
+  context?: {
+    encounter?: FhirReference[];
+    related?: FhirReference[];
+  };
+}
+
+export interface FhirBinary extends FhirResourceBase {
+  resourceType: 'Binary';
+  contentType: string;
+  data: string;
+}
+
+export type FhirResource =
+  | FhirPatient
+  | FhirMedicationStatement
+  | FhirObservation
+  | FhirDiagnosticReport
+  | FhirEncounter
+  | FhirAllergyIntolerance
+  | FhirImmunization
+  | FhirDocumentReference
+  | FhirBinary;
+
+export interface FhirBundleEntry {
+  fullUrl: string;
+  resource: FhirResource;
+}
+
+export interface FhirBundle {
+  resourceType: 'Bundle';
+  id: string;
+  type: 'collection';
+  timestamp: string;
+  entry: FhirBundleEntry[];
+}
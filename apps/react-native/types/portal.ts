@@ -97,6 +97,32 @@ export interface PortalSessionState {
   suggestedActions: PortalNavigationAction[];
 }
 
+export type PortalHarvestItemKind = 'document' | 'lab_table';
+
+/** A downloadable document or lab table found on an authenticated portal page. */
+export interface PortalHarvestCandidate {
+  /** Unique within one scan of a page. */
+  id: string;
+  kind: PortalHarvestItemKind;
+  title: string;
+  /** Page the item was found on. */
+  pageUrl: string;
+  /** Download URL; null for lab tables. */
+  url: string | null;
+  /** Date text shown next to the item, as the portal wrote it. */
+  dateText: string | null;
+  /** Lab tables only. */
+  headers: string[];
+  rows: string[][];
+}
+
+export interface PortalHarvestDownload {
+  id: string;
+  mimeType: string;
+  base64Data: string;
+  sizeBytes: number;
+}
+
 export type PortalBridgeMessage =
   | {
       type: 'portal.pageSnapshot';
@@ -121,4 +147,22 @@ export type PortalBridgeMessage =
         action: PortalNavigationAction;
         matched: boolean;
       };
+    }
+  | {
+      type: 'portal.harvestCandidates';
+      payload: {
+        pageUrl: string;
+        candidates: PortalHarvestCandidate[];
+      };
+    }
+  | {
+      type: 'portal.harvestDownload';
+      payload: PortalHarvestDownload;
+    }
+  | {
+      type: 'portal.harvestError';
+      payload: {
+        id: string;
+        error: string;
+      };
     };
@@ -167,3 +167,60 @@ export interface RecordsRequestPacket {
   requiresPhotoId: boolean;
   sources: RecordsWorkflowSource[];
 }
+
+export type RecordsRequestChannel = 'email' | 'fax' | 'mail' | 'portal';
+
+export type RecordsRequestStatus = 'sent' | 'acknowledged' | 'fulfilled' | 'denied';
+
+/** Where the encrypted copy of the sent PDF lives. */
+export interface RecordsRequestPdfCopy {
+  binderId: string;
+  /** Binder entry (.json) whose attachment child is the PDF sidecar. */
+  entryPath: string;
+}
+
+/** Fax job status as reported by the records workflow API. */
+export type RecordsRequestFaxStatus = 'queued' | 'sending' | 'delivered' | 'failed';
+
+/** A fax the app sent through the records workflow API's fax service. */
+export interface RecordsRequestFaxJob {
+  id: string;
+  status: RecordsRequestFaxStatus;
+  /** pending until the provider confirms delivery, then sent (or failed). */
+  requestStatus: 'pending' | 'sent' | 'failed';
+  attempts: number;
+  maxAttempts: number;
+  lastError: string | null;
+  deliveredAt: string | null;
+  updatedAt: string;
+}
+
+/** A batch of records the hospital sent back, filed into a binder. */
+export interface RecordsRequestReceivedRecords {
+  binderId: string;
+  entryPath: string;
+  receivedAt: string;
+  fileCount: number;
+}
+
+export interface TrackedRecordsRequest {
+  id: string;
+  hospitalSystem: HospitalSystemOption;
+  formName: string | null;
+  channel: RecordsRequestChannel;
+  /** Email address, fax number or mailing address the request went to. */
+  destination: string | null;
+  sentAt: string;
+  status: RecordsRequestStatus;
+  statusUpdatedAt: string;
+  /** Set when the hospital gave written notice it is taking the 30-day extension. */
+  extensionNoticeAt: string | null;
+  /** Follow-up letters sent, newest last. */
+  followUps: { stage: 'overdue' | 'extension_overdue'; sentAt: string }[];
+  pdfCopy: RecordsRequestPdfCopy | null;
+  /** Set when the app faxed the request itself; the deadline waits for delivery. */
+  faxJob: RecordsRequestFaxJob | null;
+  /** Records received so far, oldest first. */
+  receivedRecords: RecordsRequestReceivedRecords[];
+  notes: string;
+}
@@ -0,0 +1,416 @@
+import { generateKeyPairSync, sign } from 'node:crypto';
+import fs from 'node:fs/promises';
+import http from 'node:http';
+import type { AddressInfo } from 'node:net';
+import os from 'node:os';
+import path from 'node:path';
+import jwt from 'jsonwebtoken';
+import { PDFDocument } from 'pdf-lib';
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+
+const faxJobs = new Map<string, Record<string, any>>();
+const SYSTEM_ID = '11111111-1111-4111-8111-111111111111';
+const USER_ID = 'user-1';
+
+vi.mock('../src/repositories/faxJobRepository.js', () => ({
+  insertFaxJob: vi.fn(async (input) => {
+    const now = new Date();
+    const job = {
+      id: `00000000-0000-4000-8000-${String(faxJobs.size + 1).padStart(12, '0')}`,
+      provider: input.provider,
+      provider_fax_id: null,
+      hospital_system_id: input.hospitalSystemId ?? null,
+      requested_by: input.requestedBy ?? null,
+      to_number: input.toNumber,
+      status: input.status ?? 'queued',
+      attempts: 0,
+      max_attempts: input.maxAttempts,
+      next_attempt_at: input.status === 'queued' ? now : null,
+      last_error: null,
+      page_count: input.pageCount,
+      document_path: input.documentPath,
+      document_token: input.documentToken,
+      delivered_at: null,
+      created_at: now,
+      updated_at: now,
+    };
+    faxJobs.set(job.id, job);
+    return { ...job };
+  }),
+  countFaxJobsRequestedSince: vi.fn(async ({ requestedBy, since }) =>
+    [...faxJobs.values()].filter((job) => job.requested_by === requestedBy && job.created_at >= since).length,
+  ),
+  getFaxJobById: vi.fn(async (id) => (faxJobs.has(id) ? { ...faxJobs.get(id) } : null)),
+  findFaxJobByProviderFaxId: vi.fn(async ({ provider, providerFaxId }) => {
+    const job = [...faxJobs.values()].find(
+      (candidate) => candidate.provider === provider && candidate.provider_fax_id === providerFaxId,
+    );
+    return job ? { ...job } : null;
+  }),
+  updateFaxJob: vi.fn(async (id, changes) => {
+    const columns: Record<string, string> = {
+      status: 'status',
+      providerFaxId: 'provider_fax_id',
+      attempts: 'attempts',
+      nextAttemptAt: 'next_attempt_at',
+      lastError: 'last_error',
+      documentPath: 'document_path',
+      deliveredAt: 'delivered_at',
+    };
+    const job = faxJobs.get(id)!;
+    for (const [key, value] of Object.entries(changes)) {
+      job[columns[key]] = value;
+    }
+    job.updated_at = new Date();
+    return { ...job };
+  }),
+  claimStaleSendingFaxJobs: vi.fn(async ({ olderThan }) => {
+    const stale = [...faxJobs.values()].filter((job) => job.status === 'sending' && job.updated_at < olderThan);
+    for (const job of stale) {
+      job.updated_at = new Date();
+    }
+    return stale.map((job) => ({ ...job }));
+  }),
+  claimDueFaxJobs: vi.fn(async () => {
+    const due = [...faxJobs.values()].filter(
+      (job) => job.status === 'queued' && job.next_attempt_at && job.next_attempt_at <= new Date(),
+    );
+    for (const job of due) {
+      job.status = 'sending';
+      job.next_attempt_at = null;
+    }
+    return due.map((job) => ({ ...job }));
+  }),
+}));
+
+vi.mock('../src/repositories/workflowRepository.js', () => ({
+  getSystemRequestPacket: vi.fn(async (id) =>
+    id === SYSTEM_ID
+      ? {
+          hospital_system: { id, name: 'Example Health', state: 'TX' },
+          contacts: [{ type: 'fax', label: 'HIM fax', value: '(555) 010-2000' }],
+          instructions: [
+            {
+              kind: 'submission_channel',
+              channel: 'fax',
+              value: null,
+              details: 'Submit by fax: 555.010.2001 or 555-010-2002',
+            },
+            { kind: 'submission_channel', channel: 'phone', value: '555-010-2999', details: null },
+          ],
+        }
+      : null,
+  ),
+}));
+
+import { config } from '../src/config.js';
+import { createFakeFaxProvider } from '../src/providers/fakeFaxProvider.js';
+import { FaxProviderError } from '../src/providers/faxProvider.js';
+import { createTelnyxFaxProvider } from '../src/providers/telnyxFaxProvider.js';
+import { createApp } from '../src/server.js';
+import {
+  createFaxJob,
+  getFaxJob,
+  getFaxProvider,
+  handleFaxWebhook,
+  normalizeFaxNumber,
+  resolveFaxJobDocument,
+  retryDueFaxJobs,
+  setFaxProvider,
+} from '../src/services/faxService.js';
+
+async function makeRequestPdfBase64(pageCount = 2) {
+  const doc = await PDFDocument.create();
+  for (let index = 0; index < pageCount; index += 1) {
+    doc.addPage();
+  }
+  return Buffer.from(await doc.save()).toString('base64');
+}
+
+describe('faxService', () => {
+  const originalFaxConfig = { ...config.fax };
+  let storageDir = '';
+  let provider: ReturnType<typeof createFakeFaxProvider>;
+
+  beforeAll(async () => {
+    storageDir = await fs.mkdtemp(path.join(os.tmpdir(), 'fax-jobs-'));
+  });
+
+  afterAll(async () => {
+    Object.assign(config.fax, originalFaxConfig);
+    setFaxProvider(null);
+    await fs.rm(storageDir, { recursive: true, force: true });
+  });
+
+  beforeEach(() => {
+    faxJobs.clear();
+    Object.assign(config.fax, {
+      storageDir,
+      webhookToken: 'hook-secret',
+      maxAttempts: 3,
+      maxJobsPerUserPerDay: 10,
+      sendingTimeoutMs: 60 * 60 * 1000,
+      retryDelayMs: 0,
+    });
+    provider = createFakeFaxProvider();
+    setFaxProvider(provider);
+  });
+
+  it('normalizes US fax numbers to E.164', () => {
+    expect(normalizeFaxNumber('(555) 010-2000')).toBe('+15550102000');
+    expect(normalizeFaxNumber('1-555-010-2000')).toBe('+15550102000');
+    expect(normalizeFaxNumber('010-2000')).toBeNull();
+  });
+
+  it('has no provider to fall back on when FAX_PROVIDER is unset in production', () => {
+    config.fax.provider = '';
+    setFaxProvider(null);
+
+    expect(() => getFaxProvider()).toThrow('FAX_PROVIDER must be set in production.');
+  });
+
+  async function sendFax(changes: Record<string, unknown> = {}) {
+    return createFaxJob({
+      requestedBy: USER_ID,
+      to: '5550102000',
+      hospitalSystemId: SYSTEM_ID,
+      pdfBase64: await makeRequestPdfBase64(),
+      ...changes,
+    });
+  }
+
+  it('sends the request behind a cover sheet and reports it pending', async () => {
+    const faxJob = await createFaxJob({
+      requestedBy: USER_ID,
+      to: '(555) 010-2000',
+      hospitalSystemId: SYSTEM_ID,
+      sender: { name: 'Jane Doe', phone: '555-010-3000', email: 'jane@example.com' },
+      pdfBase64: await makeRequestPdfBase64(2),
+    });
+
+    expect(faxJob).toMatchObject({
+      status: 'sending',
+      request_status: 'pending',
+      to_number: '+15550102000',
+      page_count: 3,
+      attempts: 1,
+    });
+    expect(provider.sent).toHaveLength(1);
+    const sentPdf = await PDFDocument.load(provider.sent[0].pdfBytes);
+    expect(sentPdf.getPageCount()).toBe(3);
+  });
+
+  it('rejects unknown hospital systems and bad numbers', async () => {
+    await expect(sendFax({ to: '12345' })).rejects.toMatchObject({ statusCode: 400 });
+    await expect(sendFax({ hospitalSystemId: null })).rejects.toMatchObject({ statusCode: 400 });
+    await expect(
+      sendFax({ hospitalSystemId: '22222222-2222-4222-8222-222222222222' }),
+    ).rejects.toMatchObject({ statusCode: 404 });
+    await expect(sendFax({ requestedBy: null })).rejects.toMatchObject({ statusCode: 401 });
+    expect(provider.sent).toHaveLength(0);
+  });
+
+  it('only dials fax numbers from the hospital request packet', async () => {
+    await expect(sendFax({ to: '555-010-9999' })).rejects.toMatchObject({
+      statusCode: 400,
+      message: 'That number is not a records request fax number for this hospital system.',
+    });
+    await expect(sendFax({ to: '555-010-2999' })).rejects.toMatchObject({ statusCode: 400 });
+
+    await expect(sendFax({ to: '1 (555) 010-2002' })).resolves.toMatchObject({ to_number: '+15550102002' });
+    expect(provider.sent).toHaveLength(1);
+  });
+
+  it('limits how many faxes a user can send per day', async () => {
+    config.fax.maxJobsPerUserPerDay = 2;
+
+    await sendFax();
+    await sendFax();
+    await expect(sendFax()).rejects.toMatchObject({ statusCode: 429 });
+    await expect(sendFax({ requestedBy: 'user-2' })).resolves.toMatchObject({ status: 'sending' });
+  });
+
+  it('only shows a fax job to the user who sent it', async () => {
+    const faxJob = await sendFax();
+
+    await expect(getFaxJob(faxJob.id, { requestedBy: USER_ID })).resolves.toMatchObject({ id: faxJob.id });
+    await expect(getFaxJob(faxJob.id, { requestedBy: 'user-2' })).rejects.toMatchObject({ statusCode: 404 });
+  });
+
+  it('marks the request sent when the delivery webhook arrives and drops the stored PDF', async () => {
+    const faxJob = await sendFax();
+    const job = faxJobs.get(faxJob.id)!;
+    const documentPath = await resolveFaxJobDocument(faxJob.id, job.document_token);
+
+    await expect(
+      handleFaxWebhook('fake', { body: { fax_id: job.provider_fax_id, status: 'delivered' }, token: 'wrong' }),
+    ).rejects.toMatchObject({ statusCode: 401 });
+
+    const delivered = await handleFaxWebhook('fake', {
+      body: { fax_id: job.provider_fax_id, status: 'delivered' },
+      token: 'hook-secret',
+    });
+
+    expect(delivered).toMatchObject({ status: 'delivered', request_status: 'sent' });
+    await expect(fs.access(documentPath)).rejects.toMatchObject({ code: 'ENOENT' });
+    await expect(resolveFaxJobDocument(faxJob.id, job.document_token)).rejects.toMatchObject({
+      statusCode: 404,
+    });
+  });
+
+  it('requires a webhook token for providers other than the fake one', async () => {
+    const webhook = { body: { fax_id: 'fax-1', status: 'delivered' } };
+    config.fax.webhookToken = '';
+
+    await expect(handleFaxWebhook('fake', webhook)).resolves.toBeNull();
+
+    setFaxProvider({ ...provider, name: 'acme' });
+    await expect(handleFaxWebhook('acme', webhook)).rejects.toMatchObject({ statusCode: 401 });
+    await expect(handleFaxWebhook('acme', { ...webhook, token: '' })).rejects.toMatchObject({
+      statusCode: 401,
+    });
+  });
+
+  it('accepts Telnyx webhooks only with a fresh Ed25519 signature', async () => {
+    const { publicKey, privateKey } = generateKeyPairSync('ed25519');
+    const rawPublicKey = publicKey.export({ format: 'der', type: 'spki' }).subarray(-32);
+    const faxJob = await sendFax();
+    faxJobs.get(faxJob.id)!.provider = 'telnyx';
+    setFaxProvider(createTelnyxFaxProvider({ publicKey: rawPublicKey.toString('base64') }));
+    const body = {
+      data: {
+        event_type: 'fax.delivered',
+        payload: { fax_id: faxJobs.get(faxJob.id)!.provider_fax_id },
+      },
+    };
+    const rawBody = Buffer.from(JSON.stringify(body));
+    const signedHeaders = (timestamp: number, signedBody = rawBody) => ({
+      'telnyx-timestamp': String(timestamp),
+      'telnyx-signature-ed25519': sign(
+        null,
+        Buffer.concat([Buffer.from(`${timestamp}|`), signedBody]),
+        privateKey,
+      ).toString('base64'),
+    });
+    const now = Math.floor(Date.now() / 1000);
+
+    await expect(
+      handleFaxWebhook('telnyx', { headers: signedHeaders(now), body, rawBody, token: 'hook-secret' }),
+    ).resolves.toMatchObject({ status: 'delivered' });
+
+    const tampered = Buffer.from(JSON.stringify({ ...body, extra: true }));
+    await expect(
+      handleFaxWebhook('telnyx', { headers: signedHeaders(now, tampered), body, rawBody }),
+    ).rejects.toMatchObject({ statusCode: 401 });
+    await expect(
+      handleFaxWebhook('telnyx', { headers: signedHeaders(now - 3600), body, rawBody }),
+    ).rejects.toMatchObject({ statusCode: 401 });
+    await expect(handleFaxWebhook('telnyx', { body, rawBody, token: 'hook-secret' })).rejects.toMatchObject({
+      statusCode: 401,
+    });
+  });
+
+  it('retries failed faxes until attempts run out', async () => {
+    const faxJob = await sendFax();
+
+    for (let attempt = 1; attempt <= 3; attempt += 1) {
+      const job = faxJobs.get(faxJob.id)!;
+      const afterFailure = await handleFaxWebhook('fake', {
+        body: { fax_id: job.provider_fax_id, status: 'failed', error: 'Line busy' },
+        token: 'hook-secret',
+      });
+
+      if (attempt < 3) {
+        expect(afterFailure).toMatchObject({ status: 'queued', request_status: 'pending', last_error: 'Line busy' });
+        await retryDueFaxJobs();
+      } else {
+        expect(afterFailure).toMatchObject({ status: 'failed', request_status: 'failed', attempts: 3 });
+      }
+    }
+
+    expect(provider.sent).toHaveLength(3);
+    expect(await getFaxJob(faxJob.id, { requestedBy: USER_ID })).toMatchObject({ status: 'failed' });
+  });
+
+  it('retries or fails jobs that never got a delivery report', async () => {
+    config.fax.retryDelayMs = 60_000;
+    const twoHoursAgo = new Date(Date.now() - 2 * 60 * 60 * 1000);
+    const lost = await sendFax();
+    const exhausted = await sendFax();
+    const recent = await sendFax();
+    faxJobs.get(lost.id)!.updated_at = twoHoursAgo;
+    Object.assign(faxJobs.get(exhausted.id)!, { updated_at: twoHoursAgo, attempts: 3 });
+    const exhaustedDocument = await resolveFaxJobDocument(exhausted.id, faxJobs.get(exhausted.id)!.document_token);
+
+    await retryDueFaxJobs();
+
+    expect(faxJobs.get(lost.id)).toMatchObject({
+      status: 'queued',
+      last_error: 'No delivery report from the fax provider.',
+    });
+    expect(faxJobs.get(exhausted.id)).toMatchObject({ status: 'failed', document_path: null });
+    await expect(fs.access(exhaustedDocument)).rejects.toMatchObject({ code: 'ENOENT' });
+    expect(faxJobs.get(recent.id)).toMatchObject({ status: 'sending' });
+  });
+
+  it('gives up right away on permanent provider errors', async () => {
+    provider.failSendWith = new FaxProviderError('Number is not a fax line.', { retryable: false });
+
+    const faxJob = await sendFax();
+
+    expect(faxJob).toMatchObject({
+      status: 'failed',
+      request_status: 'failed',
+      attempts: 1,
+      last_error: 'Number is not a fax line.',
+    });
+  });
+});
+
+describe('fax job routes', () => {
+  const originalAuthConfig = { ...config.auth };
+  let server: http.Server;
+  let baseUrl = '';
+
+  beforeAll(async () => {
+    config.auth.jwtSecret = 'test-secret';
+    server = http.createServer(createApp());
+    await new Promise<void>((resolve) => {
+      server.listen(0, '127.0.0.1', () => resolve());
+    });
+
+    const address = server.address() as AddressInfo;
+    baseUrl = `http://127.0.0.1:${address.port}`;
+  });
+
+  afterAll(async () => {
+    Object.assign(config.auth, originalAuthConfig);
+    await new Promise<void>((resolve, reject) => {
+      server.close((error) => (error ? reject(error) : resolve()));
+    });
+  });
+
+  it('requires an app sign-in token', async () => {
+    const anonymous = await fetch(`${baseUrl}/api/records-workflow/fax-jobs`, {
+      method: 'POST',
+      headers: { 'content-type': 'application/json' },
+      body: JSON.stringify({ to: '5550102000', hospital_system_id: SYSTEM_ID }),
+    });
+    expect(anonymous.status).toBe(401);
+
+    const forged = await fetch(`${baseUrl}/api/records-workflow/fax-jobs/00000000-0000-4000-8000-000000000001`, {
+      headers: { authorization: `Bearer ${jwt.sign({ userId: USER_ID }, 'other-secret')}` },
+    });
+    expect(forged.status).toBe(401);
+
+    const signedIn = await fetch(`${baseUrl}/api/records-workflow/fax-jobs`, {
+      method: 'POST',
+      headers: {
+        'content-type': 'application/json',
+        authorization: `Bearer ${jwt.sign({ userId: USER_ID }, 'test-secret')}`,
+      },
+      body: JSON.stringify({ to: '555-010-9999', hospital_system_id: SYSTEM_ID, pdf_base64: 'JVBERi0=' }),
+    });
+    expect(signedIn.status).toBe(400);
+  });
+});
@@ -0,0 +1,161 @@
+import http from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+
+const SYSTEM_ID = '2b1f4c36-0d0e-4f6b-9d43-4d6f3c1b2a10';
+
+vi.mock('../src/repositories/portalAdapterOverrideRepository.js', () => ({
+  listPortalAdapterOverrides: vi.fn(async () => []),
+  upsertPortalAdapterOverride: vi.fn(async ({ hospitalSystemId, definition, notes }) => ({
+    hospital_system_id: hospitalSystemId,
+    definition,
+    notes,
+    updated_at: new Date('2026-10-19T12:00:00.000Z'),
+  })),
+  deletePortalAdapterOverride: vi.fn(async () => true),
+}));
+
+vi.mock('../src/repositories/workflowRepository.js', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../src/repositories/workflowRepository.js')>()),
+  getHospitalSystemById: vi.fn(async (id) =>
+    id === SYSTEM_ID ? { id, system_name: 'Example Health', canonical_domain: 'example.org', state: 'TX' } : null,
+  ),
+}));
+
+import {
+  listPortalAdapterOverrides,
+  upsertPortalAdapterOverride,
+} from '../src/repositories/portalAdapterOverrideRepository.js';
+import { createApp } from '../src/server.js';
+import {
+  getPortalAdapterDocument,
+  loadPortalAdapterDefinitions,
+  savePortalAdapterOverride,
+} from '../src/services/portalAdapterService.js';
+import {
+  validatePortalAdapterDocument,
+  validatePortalAdapterOverride,
+} from '../src/utils/portalAdapterSchema.js';
+
+describe('portal adapter definitions', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('ships a valid v1 document covering every family', async () => {
+    const definitions = await loadPortalAdapterDefinitions();
+
+    expect(validatePortalAdapterDocument(definitions)).toEqual([]);
+    expect(definitions.adapters.map((adapter: { id: string }) => adapter.id)).toEqual([
+      'ascension',
+      'mychart',
+      'athena',
+      'nextgen',
+      'eclinicalworks',
+      'generic',
+    ]);
+  });
+
+  it('reports schema problems by path', () => {
+    expect(
+      validatePortalAdapterOverride({
+        family: 'cerner',
+        login: { password_selectors: 'input[type="password"]' },
+        actions: { openBilling: {} },
+        theme: 'dark',
+      }),
+    ).toEqual([
+      'override.theme is not a known field.',
+      'override.family must be one of ascension, mychart, athena, nextgen, eclinicalworks, generic.',
+      'override.login.password_selectors must be a list of non-empty strings.',
+      'override.actions.openBilling is not a known action.',
+    ]);
+    expect(validatePortalAdapterOverride({ launch: { safe_auto_launch: true } })).toEqual([]);
+  });
+
+  it('rejects patterns that do not compile', async () => {
+    const definitions = structuredClone(await loadPortalAdapterDefinitions());
+    definitions.adapters[0].hostname_patterns = ['ascension('];
+
+    expect(validatePortalAdapterDocument(definitions)).toEqual([
+      'adapters[0].hostname_patterns has an invalid pattern: ascension(',
+    ]);
+  });
+
+  it('folds system overrides into the served document and revision', async () => {
+    const base = await getPortalAdapterDocument();
+    expect(base.system_overrides).toEqual({});
+
+    vi.mocked(listPortalAdapterOverrides).mockResolvedValueOnce([
+      { hospital_system_id: SYSTEM_ID, definition: { family: 'mychart' }, notes: null, updated_at: new Date() },
+      { hospital_system_id: 'bad-row', definition: { family: 'nope' }, notes: null, updated_at: new Date() },
+    ]);
+    const withOverrides = await getPortalAdapterDocument();
+
+    expect(withOverrides.system_overrides).toEqual({ [SYSTEM_ID]: { family: 'mychart' } });
+    expect(withOverrides.revision).toMatch(new RegExp(`^${base.revision.replace(/\./g, '\\.')}\\+[0-9a-f]{12}$`));
+    expect(validatePortalAdapterDocument(withOverrides)).toEqual([]);
+  });
+
+  it('validates overrides before saving them', async () => {
+    await expect(
+      savePortalAdapterOverride({ hospitalSystemId: SYSTEM_ID, definition: { login: { safe_auto_submit: 'yes' } } }),
+    ).rejects.toThrow('Portal adapter override is not valid: override.login.safe_auto_submit must be true or false.');
+    await expect(
+      savePortalAdapterOverride({ hospitalSystemId: '2b1f4c36-0d0e-4f6b-9d43-000000000000', definition: {} }),
+    ).rejects.toThrow('Hospital system not found.');
+    expect(upsertPortalAdapterOverride).not.toHaveBeenCalled();
+
+    await expect(
+      savePortalAdapterOverride({
+        hospitalSystemId: SYSTEM_ID,
+        definition: { family: 'mychart', username_hint: 'Example ID' },
+        notes: '  Vanity domain  ',
+      }),
+    ).resolves.toMatchObject({ override: { hospital_system_id: SYSTEM_ID, notes: 'Vanity domain' } });
+  });
+});
+
+describe('portal adapter routes', () => {
+  let server: http.Server;
+  let baseUrl = '';
+
+  beforeAll(async () => {
+    server = http.createServer(createApp());
+    await new Promise<void>((resolve) => {
+      server.listen(0, '127.0.0.1', () => resolve());
+    });
+
+    const address = server.address() as AddressInfo;
+    baseUrl = `http://127.0.0.1:${address.port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise<void>((resolve, reject) => {
+      server.close((error) => (error ? reject(error) : resolve()));
+    });
+  });
+
+  it('serves the current schema version and rejects others', async () => {
+    const response = await fetch(`${baseUrl}/api/records-workflow/portal-adapters?schema_version=1`);
+    expect(response.status).toBe(200);
+    await expect(response.json()).resolves.toMatchObject({ schema_version: 1, system_overrides: {} });
+
+    const future = await fetch(`${baseUrl}/api/records-workflow/portal-adapters?schema_version=2`);
+    expect(future.status).toBe(404);
+
+    const schema = await fetch(`${baseUrl}/api/records-workflow/portal-adapters/schema`);
+    expect(schema.headers.get('content-type')).toContain('application/schema+json');
+    await expect(schema.json()).resolves.toMatchObject({ title: 'Portal adapter definitions' });
+  });
+
+  it('returns 400 for invalid overrides', async () => {
+    const response = await fetch(`${baseUrl}/internal/hospital-systems/${SYSTEM_ID}/portal-adapter-override`, {
+      method: 'PUT',
+      headers: { 'content-type': 'application/json' },
+      body: JSON.stringify({ definition: { family: 'cerner' } }),
+    });
+
+    expect(response.status).toBe(400);
+  });
+});
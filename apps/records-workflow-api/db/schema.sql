@@ -502,3 +502,49 @@ create index if not exists pipeline_run_history_state_created_lookup
 
 create index if not exists pipeline_run_history_system_created_lookup
   on pipeline_run_history (hospital_system_id, created_at desc);
+
+create table if not exists fax_jobs (
+  id uuid primary key default gen_random_uuid(),
+  provider text not null,
+  provider_fax_id text,
+  hospital_system_id uuid references hospital_systems(id) on delete set null,
+  to_number text not null,
+  status text not null default 'queued' check (
+    status in ('queued', 'sending', 'delivered', 'failed')
+  ),
+  attempts int not null default 0,
+  max_attempts int not null default 3,
+  next_attempt_at timestamptz,
+  last_error text,
+  page_count int,
+  document_path text,
+  document_token text not null,
+  delivered_at timestamptz,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create unique index if not exists fax_jobs_provider_fax_lookup
+  on fax_jobs (provider, provider_fax_id)
+  where provider_fax_id is not null;
+
+create index if not exists fax_jobs_retry_lookup
+  on fax_jobs (next_attempt_at)
+  where status = 'queued';
+
+alter table fax_jobs add column if not exists requested_by text;
+
+create index if not exists fax_jobs_requester_lookup
+  on fax_jobs (requested_by, created_at desc);
+
+create index if not exists fax_jobs_stale_sending_lookup
+  on fax_jobs (updated_at)
+  where status = 'sending';
+
+create table if not exists portal_adapter_overrides (
+  hospital_system_id uuid primary key references hospital_systems(id) on delete cascade,
+  definition jsonb not null,
+  notes text,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
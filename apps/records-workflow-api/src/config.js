@@ -9,8 +9,9 @@ const __dirname = path.dirname(__filename);
 const serviceRoot = path.resolve(__dirname, '..');
 const workspaceRoot = path.resolve(serviceRoot, '..', '..');
 
+const nodeEnv = process.env.NODE_ENV || 'development';
+
 function loadRecordsWorkflowEnv() {
-  const nodeEnv = process.env.NODE_ENV || 'development';
   const envCandidates = [
     path.join(serviceRoot, `.env.${nodeEnv}.local`),
     path.join(serviceRoot, '.env.local'),
@@ -74,6 +75,7 @@ const internalTriageStorageDir = resolveFromServiceRoot(
 );
 
 export const config = {
+  nodeEnv,
   port: Number.parseInt(process.env.PORT || '3020', 10),
   databaseUrl:
     process.env.DATABASE_URL ||
@@ -112,6 +114,29 @@ export const config = {
     timeoutMs: Number.parseInt(process.env.CRAWL_TIMEOUT_MS || '25000', 10),
     parserVersion: 'v1'
   },
+  auth: {
+    jwtSecret: process.env.JWT_SECRET || '',
+  },
+  fax: {
+    // The fake provider never dials, so production has to name a real one
+    provider: (process.env.FAX_PROVIDER || (nodeEnv === 'production' ? '' : 'fake'))
+      .trim()
+      .toLowerCase(),
+    storageDir: resolveFromServiceRoot(process.env.FAX_STORAGE_DIR, 'storage/fax-jobs'),
+    publicBaseUrl: (process.env.FAX_PUBLIC_BASE_URL || '').replace(/\/+$/, ''),
+    webhookToken: process.env.FAX_WEBHOOK_TOKEN || '',
+    maxAttempts: Number.parseInt(process.env.FAX_MAX_ATTEMPTS || '3', 10),
+    maxJobsPerUserPerDay: Number.parseInt(process.env.FAX_MAX_JOBS_PER_USER_PER_DAY || '10', 10),
+    retryDelayMs: Number.parseInt(process.env.FAX_RETRY_DELAY_MS || '300000', 10),
+    retryIntervalMs: Number.parseInt(process.env.FAX_RETRY_INTERVAL_MS || '60000', 10),
+    sendingTimeoutMs: Number.parseInt(process.env.FAX_SENDING_TIMEOUT_MS || '3600000', 10),
+    telnyx: {
+      apiKey: process.env.TELNYX_API_KEY || '',
+      connectionId: process.env.TELNYX_FAX_CONNECTION_ID || '',
+      fromNumber: process.env.TELNYX_FAX_FROM_NUMBER || '',
+      publicKey: process.env.TELNYX_PUBLIC_KEY || '',
+    },
+  },
   openai: {
     apiKey: process.env.OPENAI_API_KEY || '',
     baseUrl: process.env.OPENAI_API_BASE_URL || 'https://api.openai.com/v1',
@@ -0,0 +1,29 @@
+import jwt from 'jsonwebtoken';
+import { config } from '../config.js';
+
+/**
+ * Require an app session token issued by auth-api. Sets `req.userId` for the
+ * handler. Without a configured JWT_SECRET nothing is accepted.
+ */
+export function requireAppUser(req, res, next) {
+  const authHeader = req.headers.authorization || '';
+  if (!authHeader.startsWith('Bearer ')) {
+    return res.status(401).json({ error: 'Sign in to continue.' });
+  }
+
+  if (!config.auth.jwtSecret) {
+    console.error('JWT_SECRET is not set; rejecting authenticated request.');
+    return res.status(503).json({ error: 'Sign-in is not configured on this server.' });
+  }
+
+  try {
+    const decoded = jwt.verify(authHeader.slice('Bearer '.length), config.auth.jwtSecret);
+    if (!decoded?.userId) {
+      return res.status(401).json({ error: 'Invalid or expired token' });
+    }
+    req.userId = String(decoded.userId);
+    return next();
+  } catch (_error) {
+    return res.status(401).json({ error: 'Invalid or expired token' });
+  }
+}
@@ -0,0 +1,41 @@
+import { randomUUID } from 'node:crypto';
+
+/**
+ * Local stand-in that never dials. Every fax is kept in `sent` so tests can
+ * inspect it, and is reported as `sending` until a webhook (or
+ * `completeFax`) settles it.
+ *
+ * Webhook body: { fax_id, status, error? }.
+ */
+export function createFakeFaxProvider({ failSendWith = null } = {}) {
+  const sent = [];
+  const provider = {
+    name: 'fake',
+    sent,
+    failSendWith,
+
+    async sendFax({ jobId, to, pdfBytes }) {
+      if (provider.failSendWith) {
+        const error = provider.failSendWith;
+        provider.failSendWith = null;
+        throw error;
+      }
+
+      const providerFaxId = `fake-${randomUUID()}`;
+      sent.push({ providerFaxId, jobId, to, pdfBytes });
+      return { providerFaxId, status: 'sending' };
+    },
+
+    parseWebhook({ body }) {
+      if (!body?.fax_id || !body?.status) return null;
+      return {
+        providerFaxId: String(body.fax_id),
+        status: String(body.status),
+        errorMessage: body.error ? String(body.error) : null,
+        retryable: body.retryable !== false,
+      };
+    },
+  };
+
+  return provider;
+}
@@ -0,0 +1,32 @@
+/**
+ * Fax providers send one PDF to one number and report delivery through
+ * webhooks. A provider is an object with:
+ *
+ * - name: stored on the fax job and used in the webhook path
+ * - sendFax({ jobId, to, pdfBytes, mediaUrl, webhookUrl }) -> { providerFaxId, status }
+ *     mediaUrl is a tokenized link to the same PDF, for providers that fetch
+ *     the document themselves instead of taking it inline.
+ * - parseWebhook({ headers, body }) -> { providerFaxId, status, errorMessage, retryable } | null
+ *     null means the event carries no status change and can just be acknowledged.
+ * - verifyWebhook({ headers, rawBody }) -> boolean (optional)
+ *     For providers that sign their webhooks. Without it the fax service
+ *     requires FAX_WEBHOOK_TOKEN on the webhook URL instead.
+ *
+ * Status is one of FAX_STATUSES. sendFax throws FaxProviderError; retryable
+ * tells the fax service whether another attempt could succeed.
+ */
+
+export const FAX_STATUSES = ['queued', 'sending', 'delivered', 'failed'];
+
+export class FaxProviderError extends Error {
+  constructor(message, { retryable = true, status = null } = {}) {
+    super(message);
+    this.name = 'FaxProviderError';
+    this.retryable = retryable;
+    this.status = status;
+  }
+}
+
+export function isFaxProviderError(error) {
+  return error instanceof FaxProviderError;
+}
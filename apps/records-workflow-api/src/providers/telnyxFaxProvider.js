@@ -0,0 +1,133 @@
+import { createPublicKey, verify } from 'node:crypto';
+import { FaxProviderError } from './faxProvider.js';
+
+const TELNYX_API_BASE_URL = 'https://api.telnyx.com/v2';
+// DER prefix that turns a raw 32-byte Ed25519 key into an SPKI public key.
+const ED25519_SPKI_PREFIX = Buffer.from('302a300506032b6570032100', 'hex');
+const WEBHOOK_TOLERANCE_SECONDS = 300;
+
+// Failure reasons that will not change on a redial.
+const PERMANENT_FAILURE_PATTERN = /invalid|not_a_fax|rejected|unallocated|blocked/i;
+
+const EVENT_STATUS = {
+  'fax.queued': 'queued',
+  'fax.media.processed': 'queued',
+  'fax.sending.started': 'sending',
+  'fax.delivered': 'delivered',
+  'fax.failed': 'failed',
+};
+
+function readPublicKey(publicKey) {
+  const rawKey = Buffer.from(String(publicKey || ''), 'base64');
+  if (rawKey.length !== 32) return null;
+  return createPublicKey({
+    key: Buffer.concat([ED25519_SPKI_PREFIX, rawKey]),
+    format: 'der',
+    type: 'spki',
+  });
+}
+
+/**
+ * Telnyx Programmable Fax. Telnyx fetches the PDF from `mediaUrl`, so the
+ * API must be reachable at FAX_PUBLIC_BASE_URL. Webhooks are signed with
+ * Ed25519 over `${timestamp}|${rawBody}`; `publicKey` is the base64 key from
+ * the Telnyx portal.
+ */
+export function createTelnyxFaxProvider({
+  apiKey,
+  connectionId,
+  fromNumber,
+  publicKey,
+  timeoutMs = 30000,
+}) {
+  const webhookKey = readPublicKey(publicKey);
+
+  return {
+    name: 'telnyx',
+
+    async sendFax({ to, mediaUrl, webhookUrl }) {
+      if (!apiKey || !connectionId || !fromNumber) {
+        throw new FaxProviderError(
+          'TELNYX_API_KEY, TELNYX_FAX_CONNECTION_ID and TELNYX_FAX_FROM_NUMBER are required for Telnyx fax.',
+          { retryable: false },
+        );
+      }
+      if (!mediaUrl) {
+        throw new FaxProviderError('FAX_PUBLIC_BASE_URL is required for Telnyx fax.', { retryable: false });
+      }
+
+      const abortController = new AbortController();
+      const timeoutId = setTimeout(() => abortController.abort(), timeoutMs);
+      try {
+        const response = await fetch(`${TELNYX_API_BASE_URL}/faxes`, {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            Authorization: `Bearer ${apiKey}`,
+          },
+          body: JSON.stringify({
+            connection_id: connectionId,
+            from: fromNumber,
+            to,
+            media_url: mediaUrl,
+            webhook_url: webhookUrl,
+          }),
+          signal: abortController.signal,
+        });
+        const payload = await response.json().catch(() => null);
+
+        if (!response.ok) {
+          throw new FaxProviderError(
+            `Telnyx fax request failed with status ${response.status}: ${payload?.errors?.[0]?.detail || 'Unknown error.'}`,
+            { retryable: response.status === 429 || response.status >= 500, status: response.status },
+          );
+        }
+
+        return {
+          providerFaxId: payload?.data?.id,
+          status: EVENT_STATUS[`fax.${payload?.data?.status}`] || 'queued',
+        };
+      } catch (error) {
+        if (error instanceof FaxProviderError) throw error;
+        throw new FaxProviderError(`Telnyx fax request failed: ${error.message}`);
+      } finally {
+        clearTimeout(timeoutId);
+      }
+    },
+
+    verifyWebhook({ headers, rawBody }, now = Date.now()) {
+      if (!webhookKey) {
+        console.error('TELNYX_PUBLIC_KEY is missing or invalid; rejecting Telnyx webhook.');
+        return false;
+      }
+
+      const signature = String(headers?.['telnyx-signature-ed25519'] || '');
+      const timestamp = String(headers?.['telnyx-timestamp'] || '');
+      const timestampSeconds = Number.parseInt(timestamp, 10);
+      if (!signature || !rawBody || !Number.isFinite(timestampSeconds)) return false;
+      if (Math.abs(now / 1000 - timestampSeconds) > WEBHOOK_TOLERANCE_SECONDS) return false;
+
+      return verify(
+        null,
+        Buffer.concat([Buffer.from(`${timestamp}|`), Buffer.from(rawBody)]),
+        webhookKey,
+        Buffer.from(signature, 'base64'),
+      );
+    },
+
+    parseWebhook({ body }) {
+      const eventType = body?.data?.event_type;
+      const payload = body?.data?.payload;
+      const status = EVENT_STATUS[eventType];
+      if (!status || !payload?.fax_id) return null;
+
+      const failureReason = payload.failure_reason || null;
+      return {
+        providerFaxId: String(payload.fax_id),
+        status,
+        errorMessage: status === 'failed' ? failureReason || 'Fax failed.' : null,
+        retryable: !(failureReason && PERMANENT_FAILURE_PATTERN.test(failureReason)),
+      };
+    },
+  };
+}
@@ -0,0 +1,151 @@
+import { query } from '../db.js';
+
+export async function insertFaxJob(
+  {
+    provider,
+    status = 'queued',
+    hospitalSystemId = null,
+    requestedBy = null,
+    toNumber,
+    maxAttempts,
+    pageCount = null,
+    documentPath,
+    documentToken,
+  },
+  client = null,
+) {
+  const q = client || { query };
+  const result = await q.query(
+    `insert into fax_jobs (
+       provider,
+       status,
+       hospital_system_id,
+       requested_by,
+       to_number,
+       max_attempts,
+       page_count,
+       document_path,
+       document_token,
+       next_attempt_at
+     )
+     values ($1, $2, $3, $4, $5, $6, $7, $8, $9, case when $2 = 'queued' then now() else null end)
+     returning *`,
+    [provider, status, hospitalSystemId, requestedBy, toNumber, maxAttempts, pageCount, documentPath, documentToken],
+  );
+
+  return result.rows[0] || null;
+}
+
+export async function getFaxJobById(faxJobId, client = null) {
+  const q = client || { query };
+  const result = await q.query('select * from fax_jobs where id = $1', [faxJobId]);
+  return result.rows[0] || null;
+}
+
+/** How many fax jobs a user started since `since`, for the daily limit. */
+export async function countFaxJobsRequestedSince({ requestedBy, since }, client = null) {
+  const q = client || { query };
+  const result = await q.query(
+    'select count(*)::int as count from fax_jobs where requested_by = $1 and created_at >= $2',
+    [requestedBy, since],
+  );
+  return result.rows[0]?.count || 0;
+}
+
+export async function findFaxJobByProviderFaxId({ provider, providerFaxId }, client = null) {
+  const q = client || { query };
+  const result = await q.query(
+    'select * from fax_jobs where provider = $1 and provider_fax_id = $2',
+    [provider, providerFaxId],
+  );
+  return result.rows[0] || null;
+}
+
+/**
+ * Patch a fax job. Only the keys present in `changes` are written, so
+ * callers can clear a column by passing null explicitly.
+ */
+export async function updateFaxJob(faxJobId, changes, client = null) {
+  const columns = {
+    status: 'status',
+    providerFaxId: 'provider_fax_id',
+    attempts: 'attempts',
+    nextAttemptAt: 'next_attempt_at',
+    lastError: 'last_error',
+    documentPath: 'document_path',
+    deliveredAt: 'delivered_at',
+  };
+  const assignments = [];
+  const params = [faxJobId];
+
+  for (const [key, column] of Object.entries(columns)) {
+    if (!Object.prototype.hasOwnProperty.call(changes, key)) continue;
+    params.push(changes[key]);
+    assignments.push(`${column} = $${params.length}`);
+  }
+
+  const q = client || { query };
+  const result = await q.query(
+    `update fax_jobs
+     set ${[...assignments, 'updated_at = now()'].join(',\n         ')}
+     where id = $1
+     returning *`,
+    params,
+  );
+
+  return result.rows[0] || null;
+}
+
+/**
+ * Claim queued jobs whose next attempt is due. Claimed jobs move to
+ * `sending` with next_attempt_at cleared, so two workers never dial the
+ * same job.
+ */
+export async function claimDueFaxJobs({ limit = 10 } = {}, client = null) {
+  const q = client || { query };
+  const result = await q.query(
+    `update fax_jobs
+     set status = 'sending',
+         next_attempt_at = null,
+         updated_at = now()
+     where id in (
+       select id
+       from fax_jobs
+       where status = 'queued'
+         and next_attempt_at <= now()
+       order by next_attempt_at asc
+       limit $1
+       for update skip locked
+     )
+     returning *`,
+    [limit],
+  );
+
+  return result.rows;
+}
+
+/**
+ * Claim jobs stuck in `sending` since before `olderThan`: the webhook never
+ * came, or the process died before dialing. Touching updated_at keeps
+ * other workers from claiming them too.
+ */
+export async function claimStaleSendingFaxJobs({ olderThan, limit = 10 }, client = null) {
+  const q = client || { query };
+  const result = await q.query(
+    `update fax_jobs
+     set updated_at = now()
+     where id in (
+       select id
+       from fax_jobs
+       where status = 'sending'
+         and updated_at < $1
+       order by updated_at asc
+       limit $2
+       for update skip locked
+     )
+     returning *`,
+    [olderThan, limit],
+  );
+
+  return result.rows;
+}
@@ -0,0 +1,35 @@
+import { query } from '../db.js';
+
+export async function listPortalAdapterOverrides(client = null) {
+  const q = client || { query };
+  const result = await q.query(
+    `select hospital_system_id, definition, notes, updated_at
+     from portal_adapter_overrides
+     order by hospital_system_id`,
+  );
+  return result.rows;
+}
+
+export async function upsertPortalAdapterOverride({ hospitalSystemId, definition, notes = null }, client = null) {
+  const q = client || { query };
+  const result = await q.query(
+    `insert into portal_adapter_overrides (hospital_system_id, definition, notes)
+     values ($1, $2::jsonb, $3)
+     on conflict (hospital_system_id) do update
+       set definition = excluded.definition,
+           notes = excluded.notes,
+           updated_at = now()
+     returning hospital_system_id, definition, notes, updated_at`,
+    [hospitalSystemId, JSON.stringify(definition), notes],
+  );
+  return result.rows[0] || null;
+}
+
+export async function deletePortalAdapterOverride(hospitalSystemId, client = null) {
+  const q = client || { query };
+  const result = await q.query(
+    'delete from portal_adapter_overrides where hospital_system_id = $1 returning hospital_system_id',
+    [hospitalSystemId],
+  );
+  return result.rowCount > 0;
+}
@@ -39,6 +39,10 @@ import {
   runTrackedTriageStage,
   runTrackedWorkflowExtractionStage,
 } from '../services/pipelineRunHistoryService.js';
+import {
+  removePortalAdapterOverride,
+  savePortalAdapterOverride,
+} from '../services/portalAdapterService.js';
 import { getStateReviewQueue } from '../services/reviewQueueService.js';
 import { saveStateSeedFile } from '../services/seedEditorService.js';
 import { reseedFromFile } from '../services/seedService.js';
@@ -187,6 +191,32 @@ internalRouter.get('/hospital-systems/:id', async (req, res) => {
   }
 });
 
+internalRouter.put('/hospital-systems/:id/portal-adapter-override', async (req, res) => {
+  try {
+    const result = await savePortalAdapterOverride({
+      hospitalSystemId: req.params.id,
+      definition: req.body?.definition,
+      notes: req.body?.notes || null,
+    });
+    return res.json(result);
+  } catch (error) {
+    console.error('Failed to save portal adapter override:', error);
+    const response = toErrorPayload(error, 'Failed to save portal adapter override.');
+    return res.status(response.status).json(response.body);
+  }
+});
+
+internalRouter.delete('/hospital-systems/:id/portal-adapter-override', async (req, res) => {
+  try {
+    const result = await removePortalAdapterOverride(req.params.id);
+    return res.json(result);
+  } catch (error) {
+    console.error('Failed to delete portal adapter override:', error);
+    const response = toErrorPayload(error, 'Failed to delete portal adapter override.');
+    return res.status(response.status).json(response.body);
+  }
+});
+
 internalRouter.get('/pipeline-runs', async (req, res) => {
   try {
     const history = await listPipelineRunHistory({
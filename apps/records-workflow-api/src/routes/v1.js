@@ -1,5 +1,6 @@
 import fs from 'node:fs/promises';
 import { Router } from 'express';
+import { requireAppUser } from '../middleware/auth.js';
 import {
   getEffectiveWorkflowForFacility,
   getSourceDocumentById,
@@ -8,12 +9,20 @@ import {
   listHospitalSystems,
   searchFacilities
 } from '../repositories/workflowRepository.js';
+import {
+  createFaxJob,
+  getFaxJob,
+  handleFaxWebhook,
+  resolveFaxJobDocument,
+} from '../services/faxService.js';
+import { getPortalAdapterDocument, getPortalAdapterSchema } from '../services/portalAdapterService.js';
 import {
   closeWizardSession,
   createWizardSession,
   getWizardSessionState,
   respondToWizardSession,
 } from '../services/wizardSessionService.js';
+import { PORTAL_ADAPTER_SCHEMA_VERSION } from '../utils/portalAdapterSchema.js';
 import { resolveSourceDocumentPath } from '../utils/sourceDocumentStorage.js';
 
 export const publicRouter = Router();
@@ -81,6 +90,35 @@ publicRouter.get('/hospital-systems/:id/records-request-packet', async (req, res
   }
 });
 
+publicRouter.get('/portal-adapters', async (req, res) => {
+  try {
+    const requestedVersion = (req.query.schema_version || '').toString().trim();
+    if (requestedVersion && requestedVersion !== String(PORTAL_ADAPTER_SCHEMA_VERSION)) {
+      return res.status(404).json({
+        error: `Portal adapter schema version ${requestedVersion} is not available.`,
+      });
+    }
+
+    const document = await getPortalAdapterDocument();
+    res.set('Cache-Control', 'public, max-age=300');
+    return res.json(document);
+  } catch (error) {
+    console.error('Failed to fetch portal adapters:', error);
+    return res.status(500).json({ error: 'Failed to fetch portal adapters.' });
+  }
+});
+
+publicRouter.get('/portal-adapters/schema', async (_req, res) => {
+  try {
+    const schema = await getPortalAdapterSchema();
+    res.type('application/schema+json');
+    return res.send(JSON.stringify(schema));
+  } catch (error) {
+    console.error('Failed to fetch portal adapter schema:', error);
+    return res.status(500).json({ error: 'Failed to fetch portal adapter schema.' });
+  }
+});
+
 publicRouter.get('/source-documents/:id/content', async (req, res) => {
   try {
     const sourceDocument = await getSourceDocumentById(req.params.id);
@@ -174,3 +212,79 @@ publicRouter.delete('/wizard-sessions/:sessionId', async (req, res) => {
     return res.status(500).json({ error: 'Failed to close hosted wizard session.' });
   }
 });
+
+publicRouter.post('/fax-jobs', requireAppUser, async (req, res) => {
+  try {
+    const faxJob = await createFaxJob({
+      requestedBy: req.userId,
+      to: req.body?.to,
+      hospitalSystemId: req.body?.hospital_system_id || null,
+      hospitalSystemName: req.body?.hospital_system_name || null,
+      sender: req.body?.sender || {},
+      pdfBase64: req.body?.pdf_base64,
+    });
+    return res.status(201).json({ fax_job: faxJob });
+  } catch (error) {
+    const statusCode = error?.statusCode || 500;
+    if (statusCode >= 500) {
+      console.error('Failed to create fax job:', error);
+    }
+
+    return res.status(statusCode).json({
+      error: statusCode < 500 && error instanceof Error ? error.message : 'Failed to create fax job.',
+    });
+  }
+});
+
+publicRouter.get('/fax-jobs/:id', requireAppUser, async (req, res) => {
+  try {
+    const faxJob = await getFaxJob(req.params.id, { requestedBy: req.userId });
+    return res.json({ fax_job: faxJob });
+  } catch (error) {
+    const statusCode = error?.statusCode || 500;
+    if (statusCode >= 500) {
+      console.error('Failed to fetch fax job:', error);
+    }
+
+    return res.status(statusCode).json({
+      error: statusCode < 500 && error instanceof Error ? error.message : 'Failed to fetch fax job.',
+    });
+  }
+});
+
+publicRouter.get('/fax-jobs/:id/document', async (req, res) => {
+  try {
+    const documentPath = await resolveFaxJobDocument(req.params.id, (req.query.token || '').toString());
+    await fs.access(documentPath);
+    res.type('application/pdf');
+    return res.sendFile(documentPath);
+  } catch (error) {
+    if (error?.statusCode === 404 || error?.code === 'ENOENT') {
+      return res.status(404).json({ error: 'Fax document not found.' });
+    }
+
+    console.error('Failed to fetch fax document:', error);
+    return res.status(500).json({ error: 'Failed to fetch fax document.' });
+  }
+});
+
+publicRouter.post('/fax-webhooks/:provider', async (req, res) => {
+  try {
+    await handleFaxWebhook(req.params.provider, {
+      headers: req.headers,
+      body: req.body || {},
+      rawBody: req.rawBody || null,
+      token: (req.query.token || '').toString(),
+    });
+    return res.status(204).end();
+  } catch (error) {
+    const statusCode = error?.statusCode || 500;
+    if (statusCode >= 500) {
+      console.error('Failed to handle fax webhook:', error);
+    }
+
+    return res.status(statusCode).json({
+      error: statusCode < 500 && error instanceof Error ? error.message : 'Failed to handle fax webhook.',
+    });
+  }
+});
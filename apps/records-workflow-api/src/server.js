@@ -7,6 +7,7 @@ import { config } from './config.js';
 import { ensureDatabaseReady } from './bootstrap.js';
 import { publicRouter } from './routes/v1.js';
 import { internalRouter } from './routes/internal.js';
+import { getFaxProvider, startFaxRetryWorker } from './services/faxService.js';
 
 export const RECORDS_WORKFLOW_PUBLIC_API_PREFIX = '/api/records-workflow';
 const __filename = fileURLToPath(import.meta.url);
@@ -20,7 +21,15 @@ export function createApp() {
   const internalConsoleDir = path.resolve(__dirname, 'internal-console');
 
   app.use(cors());
-  app.use(express.json({ limit: '30mb' }));
+  app.use(
+    express.json({
+      limit: '30mb',
+      // Signed webhooks are verified against the exact bytes received
+      verify: (req, _res, buf) => {
+        req.rawBody = buf;
+      },
+    }),
+  );
 
   app.get('/health', (_req, res) => {
     res.json({ status: 'ok', service: 'records-workflow-api' });
@@ -50,6 +59,9 @@ export function createApp() {
 }
 
 export async function startServer(port = config.port) {
+  // Fail before serving anything if the fax provider is missing or unknown
+  getFaxProvider();
+
   const bootstrap = await ensureDatabaseReady();
   if (bootstrap.didSeed) {
     console.log('Bootstrapped baseline records workflow data:', bootstrap.summary);
@@ -59,6 +71,8 @@ export async function startServer(port = config.port) {
     );
   }
 
+  startFaxRetryWorker();
+
   const app = createApp();
   return app.listen(port, () => {
     console.log(`records-workflow-api listening on ${port}`);
@@ -0,0 +1,125 @@
+import { PDFDocument, StandardFonts, rgb } from 'pdf-lib';
+
+const PAGE_WIDTH = 612;
+const PAGE_HEIGHT = 792;
+const MARGIN = 72;
+const CONFIDENTIALITY_NOTICE =
+  'This fax contains protected health information. If you are not the intended recipient, ' +
+  'please notify the sender and destroy all copies. Any review, use or disclosure by anyone ' +
+  'other than the intended recipient is prohibited.';
+
+// Standard fonts only cover WinAnsi; anything else would make pdf-lib throw.
+function toWinAnsi(value) {
+  return String(value ?? '')
+    .normalize('NFKD')
+    .replace(/[‘’]/g, "'")
+    .replace(/[“”]/g, '"')
+    .replace(/[–—]/g, '-')
+    .replace(/[^\x20-\x7e]/g, '')
+    .trim();
+}
+
+function wrapText(text, font, size, maxWidth) {
+  const lines = [];
+  let line = '';
+  for (const word of text.split(/\s+/).filter(Boolean)) {
+    const candidate = line ? `${line} ${word}` : word;
+    if (line && font.widthOfTextAtSize(candidate, size) > maxWidth) {
+      lines.push(line);
+      line = word;
+    } else {
+      line = candidate;
+    }
+  }
+  if (line) lines.push(line);
+  return lines;
+}
+
+function formatCoverDate(date) {
+  return date.toLocaleDateString('en-US', {
+    year: 'numeric',
+    month: 'long',
+    day: 'numeric',
+    timeZone: 'UTC',
+  });
+}
+
+/**
+ * Prepend a fax cover sheet to a records request PDF. Returns the combined
+ * PDF and its page count, cover included.
+ */
+export async function buildFaxDocument({
+  requestPdfBytes,
+  toNumber,
+  hospitalSystemName = null,
+  sender = {},
+  now = new Date(),
+}) {
+  const requestDoc = await PDFDocument.load(requestPdfBytes, { ignoreEncryption: true });
+  const faxDoc = await PDFDocument.create();
+  const regular = await faxDoc.embedFont(StandardFonts.Helvetica);
+  const bold = await faxDoc.embedFont(StandardFonts.HelveticaBold);
+  const pageCount = requestDoc.getPageCount() + 1;
+  const textWidth = PAGE_WIDTH - MARGIN * 2;
+
+  const cover = faxDoc.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+  let y = PAGE_HEIGHT - MARGIN;
+
+  cover.drawText('FAX', { x: MARGIN, y: y - 28, size: 32, font: bold });
+  y -= 48;
+  cover.drawLine({
+    start: { x: MARGIN, y },
+    end: { x: PAGE_WIDTH - MARGIN, y },
+    thickness: 1.5,
+    color: rgb(0, 0, 0),
+  });
+  y -= 32;
+
+  const recipient = toWinAnsi(hospitalSystemName);
+  const rows = [
+    ['Date', formatCoverDate(now)],
+    ['To', recipient ? `${recipient} - Health Information Management / Release of Information` : 'Health Information Management / Release of Information'],
+    ['Fax', toWinAnsi(toNumber)],
+    ['From', toWinAnsi(sender.name) || 'Patient'],
+    ...(toWinAnsi(sender.phone) ? [['Phone', toWinAnsi(sender.phone)]] : []),
+    ...(toWinAnsi(sender.email) ? [['Email', toWinAnsi(sender.email)]] : []),
+    ['Pages', `${pageCount} (including this cover sheet)`],
+    ['Re', 'Request for access to medical records (45 CFR 164.524)'],
+  ];
+
+  for (const [label, value] of rows) {
+    cover.drawText(`${label}:`, { x: MARGIN, y, size: 12, font: bold });
+    const valueLines = wrapText(value, regular, 12, textWidth - 72);
+    for (const valueLine of valueLines) {
+      cover.drawText(valueLine, { x: MARGIN + 72, y, size: 12, font: regular });
+      y -= 18;
+    }
+    y -= 6;
+  }
+
+  y -= 18;
+  const message =
+    'Please find attached my request for access to my medical records. ' +
+    'Contact me at the phone number or email above with any questions about this request.';
+  for (const messageLine of wrapText(message, regular, 12, textWidth)) {
+    cover.drawText(messageLine, { x: MARGIN, y, size: 12, font: regular });
+    y -= 18;
+  }
+
+  let noticeY = MARGIN + 48;
+  cover.drawText('CONFIDENTIALITY NOTICE', { x: MARGIN, y: noticeY, size: 9, font: bold });
+  for (const noticeLine of wrapText(CONFIDENTIALITY_NOTICE, regular, 9, textWidth)) {
+    noticeY -= 12;
+    cover.drawText(noticeLine, { x: MARGIN, y: noticeY, size: 9, font: regular });
+  }
+
+  const requestPages = await faxDoc.copyPages(requestDoc, requestDoc.getPageIndices());
+  for (const page of requestPages) {
+    faxDoc.addPage(page);
+  }
+
+  return {
+    pdfBytes: await faxDoc.save(),
+    pageCount,
+  };
+}
@@ -0,0 +1,448 @@
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import { randomBytes, randomUUID, timingSafeEqual } from 'node:crypto';
+import { config } from '../config.js';
+import { createFakeFaxProvider } from '../providers/fakeFaxProvider.js';
+import { FAX_STATUSES, isFaxProviderError } from '../providers/faxProvider.js';
+import { createTelnyxFaxProvider } from '../providers/telnyxFaxProvider.js';
+import {
+  claimDueFaxJobs,
+  claimStaleSendingFaxJobs,
+  countFaxJobsRequestedSince,
+  findFaxJobByProviderFaxId,
+  getFaxJobById,
+  insertFaxJob,
+  updateFaxJob,
+} from '../repositories/faxJobRepository.js';
+import { getSystemRequestPacket } from '../repositories/workflowRepository.js';
+import { buildFaxDocument } from './faxCoverSheet.js';
+
+const PUBLIC_API_PREFIX = '/api/records-workflow';
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+const MAX_REQUEST_PDF_BYTES = 20 * 1024 * 1024;
+const DAY_MS = 24 * 60 * 60 * 1000;
+const PHONE_NUMBER_PATTERN = /(?:\+?1[\s.-]*)?\(?\d{3}\)?[\s.-]*\d{3}[\s.-]*\d{4}/g;
+
+/**
+ * How a fax job reads on the records request it delivers. Until the
+ * provider confirms delivery the request has not been sent.
+ */
+export const FAX_REQUEST_STATUS = {
+  queued: 'pending',
+  sending: 'pending',
+  delivered: 'sent',
+  failed: 'failed',
+};
+
+const providerFactories = {
+  fake: () => createFakeFaxProvider(),
+  telnyx: () => createTelnyxFaxProvider(config.fax.telnyx),
+};
+
+let activeProvider = null;
+
+export function getFaxProvider() {
+  if (activeProvider) return activeProvider;
+
+  if (!config.fax.provider) {
+    throw new Error('FAX_PROVIDER must be set in production.');
+  }
+
+  const factory = providerFactories[config.fax.provider];
+  if (!factory) {
+    throw new Error(`Unknown FAX_PROVIDER "${config.fax.provider}".`);
+  }
+
+  activeProvider = factory();
+  return activeProvider;
+}
+
+/** Swap the provider, e.g. for a fake in tests. Pass null to go back to config. */
+export function setFaxProvider(provider) {
+  activeProvider = provider;
+}
+
+function faxRequestError(message, statusCode = 400) {
+  const error = new Error(message);
+  error.statusCode = statusCode;
+  return error;
+}
+
+function faxJobNotFoundError() {
+  return faxRequestError('Fax job not found.', 404);
+}
+
+function tokensMatch(expected, provided) {
+  const expectedBuffer = Buffer.from(String(expected || ''));
+  const providedBuffer = Buffer.from(String(provided || ''));
+  return expectedBuffer.length > 0 &&
+    expectedBuffer.length === providedBuffer.length &&
+    timingSafeEqual(expectedBuffer, providedBuffer);
+}
+
+/** US fax numbers only: 10 digits, optionally with a leading 1. Returns E.164. */
+export function normalizeFaxNumber(value) {
+  const digits = String(value || '').replace(/\D/g, '');
+  if (digits.length === 10) return `+1${digits}`;
+  if (digits.length === 11 && digits.startsWith('1')) return `+${digits}`;
+  return null;
+}
+
+/**
+ * Fax numbers the hospital publishes for records requests: fax contacts
+ * plus any number in a fax submission instruction.
+ */
+function listPacketFaxNumbers(packet) {
+  const candidates = [
+    ...(packet?.contacts || []).filter((contact) => contact?.type === 'fax').map((contact) => contact.value),
+    ...(packet?.instructions || [])
+      .filter((instruction) => instruction?.channel === 'fax')
+      .flatMap((instruction) => [instruction.value, instruction.details]),
+  ];
+
+  const numbers = new Set();
+  for (const candidate of candidates) {
+    for (const match of String(candidate || '').match(PHONE_NUMBER_PATTERN) || []) {
+      const number = normalizeFaxNumber(match);
+      if (number) numbers.add(number);
+    }
+  }
+  return numbers;
+}
+
+function resolveFaxDocumentPath(documentPath) {
+  return path.join(config.fax.storageDir, path.basename(documentPath));
+}
+
+async function removeFaxDocument(job) {
+  if (!job.document_path) return;
+  await fs.rm(resolveFaxDocumentPath(job.document_path), { force: true });
+}
+
+function buildPublicUrl(pathname) {
+  if (!config.fax.publicBaseUrl) return null;
+  return `${config.fax.publicBaseUrl}${PUBLIC_API_PREFIX}${pathname}`;
+}
+
+function buildProviderUrls(job, provider) {
+  const mediaUrl = buildPublicUrl(
+    `/fax-jobs/${job.id}/document?token=${encodeURIComponent(job.document_token)}`,
+  );
+  const webhookPath = `/fax-webhooks/${provider.name}`;
+  const webhookUrl = buildPublicUrl(
+    config.fax.webhookToken && !provider.verifyWebhook
+      ? `${webhookPath}?token=${encodeURIComponent(config.fax.webhookToken)}`
+      : webhookPath,
+  );
+  return { mediaUrl, webhookUrl };
+}
+
+export function serializeFaxJob(job) {
+  return {
+    id: job.id,
+    status: job.status,
+    request_status: FAX_REQUEST_STATUS[job.status] || 'pending',
+    provider: job.provider,
+    hospital_system_id: job.hospital_system_id,
+    to_number: job.to_number,
+    page_count: job.page_count,
+    attempts: job.attempts,
+    max_attempts: job.max_attempts,
+    next_attempt_at: job.next_attempt_at,
+    last_error: job.last_error,
+    delivered_at: job.delivered_at,
+    created_at: job.created_at,
+    updated_at: job.updated_at,
+  };
+}
+
+function retryDelayFor(attempts) {
+  return config.fax.retryDelayMs * 2 ** Math.max(0, attempts - 1);
+}
+
+/**
+ * Put a failed attempt back in the queue with exponential backoff, or mark
+ * the job failed once attempts run out or the failure is permanent.
+ */
+async function recordFailedAttempt(job, { attempts, errorMessage, retryable }, now = new Date()) {
+  if (retryable && attempts < job.max_attempts) {
+    return updateFaxJob(job.id, {
+      status: 'queued',
+      attempts,
+      nextAttemptAt: new Date(now.getTime() + retryDelayFor(attempts)),
+      lastError: errorMessage,
+    });
+  }
+
+  const failed = await updateFaxJob(job.id, {
+    status: 'failed',
+    attempts,
+    nextAttemptAt: null,
+    lastError: errorMessage,
+    documentPath: null,
+  });
+  await removeFaxDocument(job);
+  return failed;
+}
+
+async function recordDelivered(job, now = new Date()) {
+  const delivered = await updateFaxJob(job.id, {
+    status: 'delivered',
+    nextAttemptAt: null,
+    lastError: null,
+    documentPath: null,
+    deliveredAt: now,
+  });
+  await removeFaxDocument(job);
+  return delivered;
+}
+
+/** Dial one job. The job must already be claimed (status sending). */
+export async function attemptFaxJob(job) {
+  const provider = getFaxProvider();
+  const attempts = job.attempts + 1;
+
+  let result;
+  try {
+    const pdfBytes = await fs.readFile(resolveFaxDocumentPath(job.document_path));
+    result = await provider.sendFax({
+      jobId: job.id,
+      to: job.to_number,
+      pdfBytes,
+      ...buildProviderUrls(job, provider),
+    });
+  } catch (error) {
+    if (!isFaxProviderError(error)) {
+      console.error('Fax attempt failed:', { faxJobId: job.id, error });
+    }
+    return recordFailedAttempt(job, {
+      attempts,
+      errorMessage: error instanceof Error ? error.message : 'Fax attempt failed.',
+      retryable: isFaxProviderError(error) ? error.retryable : true,
+    });
+  }
+
+  const sent = await updateFaxJob(job.id, {
+    status: 'sending',
+    providerFaxId: result.providerFaxId,
+    attempts,
+    lastError: null,
+  });
+  return result.status === 'delivered' ? recordDelivered(sent) : sent;
+}
+
+/**
+ * Fax a records request PDF with a generated cover sheet. The first attempt
+ * runs before this returns; retries and delivery arrive later. Only fax
+ * numbers published in the hospital system's request packet are dialed, and
+ * each user gets a limited number of jobs per day.
+ */
+export async function createFaxJob({
+  requestedBy,
+  to,
+  hospitalSystemId,
+  hospitalSystemName = null,
+  sender = {},
+  pdfBase64,
+}) {
+  if (!requestedBy) {
+    throw faxRequestError('Sign in to send a fax.', 401);
+  }
+  const toNumber = normalizeFaxNumber(to);
+  if (!toNumber) {
+    throw faxRequestError('A 10-digit US fax number is required.');
+  }
+  if (!UUID_PATTERN.test(hospitalSystemId || '')) {
+    throw faxRequestError('A valid hospital_system_id is required.');
+  }
+
+  const sentToday = await countFaxJobsRequestedSince({
+    requestedBy,
+    since: new Date(Date.now() - DAY_MS),
+  });
+  if (sentToday >= config.fax.maxJobsPerUserPerDay) {
+    throw faxRequestError('Daily fax limit reached. Try again tomorrow.', 429);
+  }
+
+  const packet = await getSystemRequestPacket(hospitalSystemId);
+  if (!packet) {
+    throw faxRequestError('Hospital system not found.', 404);
+  }
+  if (!listPacketFaxNumbers(packet).has(toNumber)) {
+    throw faxRequestError('That number is not a records request fax number for this hospital system.');
+  }
+
+  if (typeof pdfBase64 !== 'string' || !pdfBase64.trim()) {
+    throw faxRequestError('pdf_base64 is required.');
+  }
+
+  const requestPdfBytes = Buffer.from(pdfBase64, 'base64');
+  if (requestPdfBytes.length === 0 || requestPdfBytes.length > MAX_REQUEST_PDF_BYTES) {
+    throw faxRequestError('The request PDF is empty or too large to fax.');
+  }
+
+  const systemName =
+    hospitalSystemName?.toString().trim() || packet.hospital_system?.name || null;
+
+  let faxDocument;
+  try {
+    faxDocument = await buildFaxDocument({
+      requestPdfBytes,
+      toNumber,
+      hospitalSystemName: systemName,
+      sender: {
+        name: sender?.name,
+        phone: sender?.phone,
+        email: sender?.email,
+      },
+    });
+  } catch (error) {
+    throw faxRequestError(`The request PDF could not be read: ${error.message}`);
+  }
+
+  const documentPath = `${randomUUID()}.pdf`;
+  await fs.mkdir(config.fax.storageDir, { recursive: true });
+  await fs.writeFile(resolveFaxDocumentPath(documentPath), faxDocument.pdfBytes);
+
+  const job = await insertFaxJob({
+    provider: getFaxProvider().name,
+    status: 'sending',
+    hospitalSystemId,
+    requestedBy,
+    toNumber,
+    maxAttempts: config.fax.maxAttempts,
+    pageCount: faxDocument.pageCount,
+    documentPath,
+    documentToken: randomBytes(24).toString('hex'),
+  });
+
+  return serializeFaxJob(await attemptFaxJob(job));
+}
+
+/** A fax job as seen by the user who sent it; anyone else gets a 404. */
+export async function getFaxJob(faxJobId, { requestedBy }) {
+  const job = UUID_PATTERN.test(faxJobId) ? await getFaxJobById(faxJobId) : null;
+  if (!job || !requestedBy || job.requested_by !== requestedBy) {
+    throw faxJobNotFoundError();
+  }
+  return serializeFaxJob(job);
+}
+
+/** The stored fax PDF for providers that fetch media by URL. */
+export async function resolveFaxJobDocument(faxJobId, token) {
+  const job = UUID_PATTERN.test(faxJobId) ? await getFaxJobById(faxJobId) : null;
+  if (!job || !job.document_path || !tokensMatch(job.document_token, token)) {
+    throw faxJobNotFoundError();
+  }
+  return resolveFaxDocumentPath(job.document_path);
+}
+
+/**
+ * Whether a webhook really comes from the provider: its signature when the
+ * provider signs webhooks, otherwise FAX_WEBHOOK_TOKEN. Only the fake
+ * provider may run without a token.
+ */
+function isAuthenticWebhook(provider, { headers, rawBody, token }) {
+  if (provider.verifyWebhook) {
+    return provider.verifyWebhook({ headers, rawBody });
+  }
+  if (provider.name === 'fake' && !config.fax.webhookToken) {
+    return true;
+  }
+  return tokensMatch(config.fax.webhookToken, token);
+}
+
+/**
+ * Apply a provider delivery webhook. Unknown faxes and events for jobs that
+ * already finished are acknowledged and ignored.
+ */
+export async function handleFaxWebhook(
+  providerName,
+  { headers = {}, body = {}, rawBody = null, token = '' },
+) {
+  const provider = getFaxProvider();
+  if (provider.name !== providerName) {
+    throw faxRequestError(`Fax provider "${providerName}" is not configured.`, 404);
+  }
+  if (!isAuthenticWebhook(provider, { headers, rawBody, token })) {
+    throw faxRequestError('Invalid fax webhook signature or token.', 401);
+  }
+
+  const event = provider.parseWebhook({ headers, body });
+  if (!event || !FAX_STATUSES.includes(event.status)) return null;
+
+  const job = await findFaxJobByProviderFaxId({
+    provider: provider.name,
+    providerFaxId: event.providerFaxId,
+  });
+  if (!job || job.status !== 'sending') return null;
+
+  if (event.status === 'delivered') {
+    return serializeFaxJob(await recordDelivered(job));
+  }
+  if (event.status === 'failed') {
+    return serializeFaxJob(
+      await recordFailedAttempt(job, {
+        attempts: job.attempts,
+        errorMessage: event.errorMessage || 'Fax failed.',
+        retryable: event.retryable !== false,
+      }),
+    );
+  }
+  return serializeFaxJob(job);
+}
+
+/**
+ * Treat jobs that sat in `sending` past FAX_SENDING_TIMEOUT_MS as a failed
+ * attempt, so they retry or fail and their PDF is removed.
+ */
+async function expireStaleSendingFaxJobs({ limit, now = new Date() }) {
+  const jobs = await claimStaleSendingFaxJobs({
+    olderThan: new Date(now.getTime() - config.fax.sendingTimeoutMs),
+    limit,
+  });
+  const results = [];
+  for (const job of jobs) {
+    results.push(
+      await recordFailedAttempt(
+        job,
+        {
+          attempts: job.attempts,
+          errorMessage: 'No delivery report from the fax provider.',
+          retryable: true,
+        },
+        now,
+      ),
+    );
+  }
+  return results;
+}
+
+export async function retryDueFaxJobs({ limit = 10 } = {}) {
+  const expired = await expireStaleSendingFaxJobs({ limit });
+  const jobs = await claimDueFaxJobs({ limit });
+  const results = [...expired];
+  for (const job of jobs) {
+    results.push(await attemptFaxJob(job));
+  }
+  return results;
+}
+
+/** Poll for queued retries. Returns a function that stops the worker. */
+export function startFaxRetryWorker({ intervalMs = config.fax.retryIntervalMs } = {}) {
+  let running = false;
+  const timer = setInterval(async () => {
+    if (running) return;
+    running = true;
+    try {
+      await retryDueFaxJobs();
+    } catch (error) {
+      console.error('Fax retry worker failed:', error);
+    } finally {
+      running = false;
+    }
+  }, intervalMs);
+  timer.unref?.();
+
+  return () => clearInterval(timer);
+}
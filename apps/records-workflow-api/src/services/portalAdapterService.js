@@ -0,0 +1,116 @@
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+import {
+  deletePortalAdapterOverride,
+  listPortalAdapterOverrides,
+  upsertPortalAdapterOverride,
+} from '../repositories/portalAdapterOverrideRepository.js';
+import { getHospitalSystemById } from '../repositories/workflowRepository.js';
+import { sha256 } from '../utils/hash.js';
+import {
+  PORTAL_ADAPTER_SCHEMA_VERSION,
+  validatePortalAdapterDocument,
+  validatePortalAdapterOverride,
+} from '../utils/portalAdapterSchema.js';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+const PORTAL_ADAPTER_DIR = path.resolve(__dirname, '../../portal-adapters');
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+let definitionsPromise = null;
+
+async function readJsonFile(filename) {
+  return JSON.parse(await fs.readFile(path.join(PORTAL_ADAPTER_DIR, filename), 'utf8'));
+}
+
+/**
+ * The checked-in family definitions. A broken file is a deploy bug, so this
+ * throws instead of serving something the app would reject anyway.
+ */
+export async function loadPortalAdapterDefinitions() {
+  if (!definitionsPromise) {
+    definitionsPromise = readJsonFile(`v${PORTAL_ADAPTER_SCHEMA_VERSION}.json`).then((definitions) => {
+      const errors = validatePortalAdapterDocument(definitions);
+      if (errors.length > 0) {
+        throw new Error(`portal-adapters/v${PORTAL_ADAPTER_SCHEMA_VERSION}.json is not valid: ${errors.join(' ')}`);
+      }
+      return definitions;
+    });
+    definitionsPromise.catch(() => {
+      definitionsPromise = null;
+    });
+  }
+  return definitionsPromise;
+}
+
+export async function getPortalAdapterSchema() {
+  return readJsonFile(`schema.v${PORTAL_ADAPTER_SCHEMA_VERSION}.json`);
+}
+
+/**
+ * Family definitions plus every per-system override. The revision folds in
+ * the overrides so the app can tell when any of them changed.
+ */
+export async function getPortalAdapterDocument() {
+  const definitions = await loadPortalAdapterDefinitions();
+  const systemOverrides = {};
+
+  for (const row of await listPortalAdapterOverrides()) {
+    const errors = validatePortalAdapterOverride(row.definition);
+    if (errors.length > 0) {
+      console.warn('Skipping invalid portal adapter override:', {
+        hospitalSystemId: row.hospital_system_id,
+        errors,
+      });
+      continue;
+    }
+    systemOverrides[row.hospital_system_id] = row.definition;
+  }
+
+  const hasOverrides = Object.keys(systemOverrides).length > 0;
+  return {
+    ...definitions,
+    revision: hasOverrides
+      ? `${definitions.revision}+${sha256(JSON.stringify(systemOverrides)).slice(0, 12)}`
+      : definitions.revision,
+    system_overrides: systemOverrides,
+  };
+}
+
+async function requireHospitalSystem(hospitalSystemId) {
+  if (!UUID_PATTERN.test(hospitalSystemId || '')) {
+    throw new Error('A valid hospital system id is required.');
+  }
+  const system = await getHospitalSystemById(hospitalSystemId);
+  if (!system) {
+    throw new Error('Hospital system not found.');
+  }
+  return system;
+}
+
+export async function savePortalAdapterOverride({ hospitalSystemId, definition, notes = null }) {
+  await requireHospitalSystem(hospitalSystemId);
+
+  const errors = validatePortalAdapterOverride(definition);
+  if (errors.length > 0) {
+    throw new Error(`Portal adapter override is not valid: ${errors.join(' ')}`);
+  }
+
+  const row = await upsertPortalAdapterOverride({
+    hospitalSystemId,
+    definition,
+    notes: typeof notes === 'string' && notes.trim() ? notes.trim() : null,
+  });
+  return { override: row };
+}
+
+export async function removePortalAdapterOverride(hospitalSystemId) {
+  await requireHospitalSystem(hospitalSystemId);
+
+  if (!(await deletePortalAdapterOverride(hospitalSystemId))) {
+    throw new Error('Portal adapter override not found.');
+  }
+  return { deleted: true };
+}
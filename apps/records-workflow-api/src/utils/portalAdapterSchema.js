@@ -0,0 +1,195 @@
+// Hand-rolled checks for portal-adapters/schema.v1.json. The app validates the
+// same document again before trusting it, so these only need to keep bad
+// definitions and overrides from being published.
+
+export const PORTAL_ADAPTER_SCHEMA_VERSION = 1;
+
+export const PORTAL_FAMILY_IDS = ['ascension', 'mychart', 'athena', 'nextgen', 'eclinicalworks', 'generic'];
+
+export const PORTAL_ACTION_IDS = ['openMessages', 'openLabs', 'openAppointments', 'openVisitSummaries'];
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+const LAUNCH_FIELDS = {
+  selectors: 'strings',
+  label_includes: 'strings',
+  href_includes: 'strings',
+  safe_auto_launch: 'boolean',
+};
+
+const LOGIN_FIELDS = {
+  username_selectors: 'strings',
+  password_selectors: 'strings',
+  submit_selectors: 'strings',
+  safe_auto_submit: 'boolean',
+};
+
+const ACTION_FIELDS = {
+  selectors: 'strings',
+  label_includes: 'strings',
+  href_includes: 'strings',
+};
+
+function isPlainObject(value) {
+  return Boolean(value) && typeof value === 'object' && !Array.isArray(value);
+}
+
+function checkValue(kind, value, path, errors) {
+  if (kind === 'boolean') {
+    if (typeof value !== 'boolean') errors.push(`${path} must be true or false.`);
+    return;
+  }
+
+  if (!Array.isArray(value) || value.some((item) => typeof item !== 'string' || !item.trim())) {
+    errors.push(`${path} must be a list of non-empty strings.`);
+    return;
+  }
+
+  if (kind === 'patterns') {
+    for (const source of value) {
+      try {
+        new RegExp(source, 'i');
+      } catch (_error) {
+        errors.push(`${path} has an invalid pattern: ${source}`);
+      }
+    }
+  }
+}
+
+function checkFields(value, fields, path, errors, { partial = false } = {}) {
+  if (!isPlainObject(value)) {
+    errors.push(`${path} must be an object.`);
+    return;
+  }
+
+  for (const key of Object.keys(value)) {
+    if (!(key in fields)) errors.push(`${path}.${key} is not a known field.`);
+  }
+
+  for (const [key, kind] of Object.entries(fields)) {
+    if (value[key] === undefined) {
+      if (!partial) errors.push(`${path}.${key} is required.`);
+      continue;
+    }
+    checkValue(kind, value[key], `${path}.${key}`, errors);
+  }
+}
+
+function checkActions(value, path, errors, { partial = false } = {}) {
+  if (!isPlainObject(value)) {
+    errors.push(`${path} must be an object.`);
+    return;
+  }
+
+  for (const key of Object.keys(value)) {
+    if (!PORTAL_ACTION_IDS.includes(key)) errors.push(`${path}.${key} is not a known action.`);
+  }
+
+  for (const actionId of PORTAL_ACTION_IDS) {
+    if (value[actionId] === undefined) {
+      if (!partial) errors.push(`${path}.${actionId} is required.`);
+      continue;
+    }
+    checkFields(value[actionId], ACTION_FIELDS, `${path}.${actionId}`, errors, { partial });
+  }
+}
+
+function checkAdapter(adapter, path, errors) {
+  if (!isPlainObject(adapter)) {
+    errors.push(`${path} must be an object.`);
+    return;
+  }
+
+  const known = ['id', 'display_name', 'hostname_patterns', 'name_patterns', 'username_hint', 'launch', 'login', 'actions'];
+  for (const key of Object.keys(adapter)) {
+    if (!known.includes(key)) errors.push(`${path}.${key} is not a known field.`);
+  }
+
+  if (!PORTAL_FAMILY_IDS.includes(adapter.id)) {
+    errors.push(`${path}.id must be one of ${PORTAL_FAMILY_IDS.join(', ')}.`);
+  }
+  if (typeof adapter.display_name !== 'string' || !adapter.display_name.trim()) {
+    errors.push(`${path}.display_name is required.`);
+  }
+  if (typeof adapter.username_hint !== 'string') {
+    errors.push(`${path}.username_hint must be a string.`);
+  }
+  checkValue('patterns', adapter.hostname_patterns, `${path}.hostname_patterns`, errors);
+  checkValue('patterns', adapter.name_patterns, `${path}.name_patterns`, errors);
+  if (adapter.launch !== undefined) checkFields(adapter.launch, LAUNCH_FIELDS, `${path}.launch`, errors);
+  checkFields(adapter.login, LOGIN_FIELDS, `${path}.login`, errors);
+  if (adapter.actions !== undefined) checkActions(adapter.actions, `${path}.actions`, errors);
+}
+
+/** Problems with a per-system override; an empty list means it is valid. */
+export function validatePortalAdapterOverride(override, path = 'override') {
+  const errors = [];
+  if (!isPlainObject(override)) {
+    return [`${path} must be an object.`];
+  }
+
+  const known = ['family', 'username_hint', 'launch', 'login', 'actions'];
+  for (const key of Object.keys(override)) {
+    if (!known.includes(key)) errors.push(`${path}.${key} is not a known field.`);
+  }
+
+  if (override.family !== undefined && !PORTAL_FAMILY_IDS.includes(override.family)) {
+    errors.push(`${path}.family must be one of ${PORTAL_FAMILY_IDS.join(', ')}.`);
+  }
+  if (override.username_hint !== undefined && typeof override.username_hint !== 'string') {
+    errors.push(`${path}.username_hint must be a string.`);
+  }
+  if (override.launch !== undefined) {
+    checkFields(override.launch, LAUNCH_FIELDS, `${path}.launch`, errors, { partial: true });
+  }
+  if (override.login !== undefined) {
+    checkFields(override.login, LOGIN_FIELDS, `${path}.login`, errors, { partial: true });
+  }
+  if (override.actions !== undefined) {
+    checkActions(override.actions, `${path}.actions`, errors, { partial: true });
+  }
+
+  return errors;
+}
+
+/** Problems with a full adapter document; an empty list means it is valid. */
+export function validatePortalAdapterDocument(document) {
+  const errors = [];
+  if (!isPlainObject(document)) {
+    return ['document must be an object.'];
+  }
+
+  if (document.schema_version !== PORTAL_ADAPTER_SCHEMA_VERSION) {
+    errors.push(`schema_version must be ${PORTAL_ADAPTER_SCHEMA_VERSION}.`);
+  }
+  if (typeof document.revision !== 'string' || !document.revision.trim()) {
+    errors.push('revision is required.');
+  }
+  checkFields(document.default_launch, LAUNCH_FIELDS, 'default_launch', errors);
+  checkActions(document.default_actions, 'default_actions', errors);
+
+  if (!Array.isArray(document.adapters)) {
+    errors.push('adapters must be a list.');
+  } else {
+    const seen = new Set();
+    document.adapters.forEach((adapter, index) => {
+      checkAdapter(adapter, `adapters[${index}]`, errors);
+      if (seen.has(adapter?.id)) errors.push(`adapters[${index}].id ${adapter.id} is defined twice.`);
+      seen.add(adapter?.id);
+    });
+    if (!seen.has('generic')) errors.push('adapters must include the generic adapter.');
+  }
+
+  if (document.system_overrides !== undefined) {
+    if (!isPlainObject(document.system_overrides)) {
+      errors.push('system_overrides must be an object.');
+    } else {
+      for (const [systemId, override] of Object.entries(document.system_overrides)) {
+        if (!UUID_PATTERN.test(systemId)) errors.push(`system_overrides key ${systemId} must be a hospital system id.`);
+        errors.push(...validatePortalAdapterOverride(override, `system_overrides.${systemId}`));
+      }
+    }
+  }
+
+  return errors;
+}
@@ -0,0 +1,132 @@
+/**
+ * apps/scheduler-api/__tests__/calendar-feed.test.ts
+ *
+ * Coverage for the tokenized iCal feed: only a hash of the token is stored,
+ * the token in the URL finds the patient's feed, and unknown tokens 404.
+ */
+import { createHash } from 'node:crypto';
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+// Vitest sets BASE_URL to '/' for Vite; the routes read it at import time
+vi.hoisted(() => {
+  process.env.BASE_URL = 'https://scheduler.example.test';
+});
+
+const feedsByHash = new Map<string, number>();
+const statements: Array<{ sql: string; params: unknown[] }> = [];
+
+vi.mock('../config/database.js', () => ({
+  pool: {
+    getConnection: vi.fn(async () => ({
+      release: vi.fn(),
+      execute: vi.fn(async (sql: string, params: unknown[] = []) => {
+        statements.push({ sql, params });
+        if (sql.includes('FROM users WHERE nostr_pubkey')) return [[{ id: 7 }]];
+        if (sql.includes('INSERT INTO calendar_feeds')) {
+          feedsByHash.set(params[1] as string, params[0] as number);
+          return [[]];
+        }
+        if (sql.includes('FROM calendar_feeds WHERE token_hash')) {
+          const userId = feedsByHash.get(params[0] as string);
+          return [userId === undefined ? [] : [{ id_users: userId }]];
+        }
+        if (sql.includes('FROM appointments')) {
+          return [[{
+            id: 42,
+            start_datetime: '2026-11-02 15:00:00',
+            end_datetime: '2026-11-02 15:30:00',
+            create_datetime: '2026-10-01 09:00:00',
+            update_datetime: null,
+            location: null,
+            status: 'Booked',
+            service_name: 'Follow-up',
+            doctor_first_name: 'Anna',
+            doctor_last_name: 'Smith',
+          }]];
+        }
+        return [[]];
+      }),
+    })),
+  },
+}));
+vi.mock('../middleware/auth.js', () => ({
+  authenticateSession: vi.fn(() => ({
+    success: true,
+    user: { authMethod: 'nostr', metadata: { pubkey: 'a'.repeat(64) } },
+  })),
+}));
+vi.mock('../utils/nostr-dm.js', () => ({
+  isNostrDMConfigured: vi.fn(() => false),
+  sendNostrDM: vi.fn(),
+}));
+
+import { setupCalendarRoutes } from '../routes/calendar.js';
+
+type Handler = (req: Record<string, unknown>, res: ReturnType<typeof createRes>) => Promise<Response>;
+
+const routes: Record<string, Map<string, Handler>> = { GET: new Map(), POST: new Map(), PUT: new Map(), DELETE: new Map() };
+setupCalendarRoutes({
+  get: (path: string, handler: Handler) => routes.GET.set(path, handler),
+  post: (path: string, handler: Handler) => routes.POST.set(path, handler),
+  put: (path: string, handler: Handler) => routes.PUT.set(path, handler),
+  delete: (path: string, handler: Handler) => routes.DELETE.set(path, handler),
+});
+
+// Same shape as the res object server.js hands to route handlers
+function createRes() {
+  const json = (data: unknown, status = 200) => new Response(JSON.stringify(data), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+  });
+  return {
+    json: (data: unknown) => json(data),
+    status: (code: number) => ({ json: (data: unknown) => json(data, code) }),
+  };
+}
+
+function call(method: string, path: string, params: Record<string, string> = {}) {
+  const handler = routes[method].get(path);
+  if (!handler) throw new Error(`No route for ${method} ${path}`);
+  return handler({ params, headers: { authorization: 'Bearer test' }, body: {} }, createRes());
+}
+
+const sha256 = (value: string) => createHash('sha256').update(value).digest('hex');
+
+beforeEach(() => {
+  feedsByHash.clear();
+  statements.length = 0;
+});
+
+describe('calendar feed tokens', () => {
+  it('stores only the hash of a new feed token', async () => {
+    const res = await call('POST', '/api/patients/calendar-feed');
+    const data = await res.json();
+    const token = data.feedUrl.match(/\/api\/calendar\/feeds\/([^/]+)\.ics$/)[1];
+
+    expect(data.webcalUrl).toBe(data.feedUrl.replace('https:', 'webcal:'));
+    expect([...feedsByHash.keys()]).toEqual([sha256(token)]);
+    const insert = statements.find((statement) => statement.sql.includes('INSERT INTO calendar_feeds'));
+    expect(insert?.params).not.toContain(token);
+  });
+
+  it('serves the feed for a known token', async () => {
+    const data = await (await call('POST', '/api/patients/calendar-feed')).json();
+    const token = data.feedUrl.split('/').pop();
+
+    const res = await call('GET', '/api/calendar/feeds/:token', { token });
+
+    expect(res.status).toBe(200);
+    expect(res.headers.get('Content-Type')).toContain('text/calendar');
+    expect(await res.text()).toContain('SUMMARY:Follow-up with Anna Smith');
+  });
+
+  it('returns 404 for an unknown token without reading appointments', async () => {
+    await call('POST', '/api/patients/calendar-feed');
+
+    const res = await call('GET', '/api/calendar/feeds/:token', { token: 'not-a-real-token.ics' });
+
+    expect(res.status).toBe(404);
+    expect(await res.json()).toEqual({ error: 'Calendar feed not found' });
+    expect(statements.some((statement) => statement.sql.includes('FROM appointments'))).toBe(false);
+  });
+});
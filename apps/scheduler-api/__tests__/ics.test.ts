@@ -0,0 +1,105 @@
+/**
+ * apps/scheduler-api/__tests__/ics.test.ts
+ *
+ * Unit coverage for the iCalendar helpers behind appointment downloads and
+ * the subscription feed: escaping, line folding and SEQUENCE.
+ */
+import { describe, it, expect } from 'vitest';
+import {
+  buildAppointmentEvent,
+  buildCalendar,
+  escapeIcsText,
+  foldIcsLine,
+  sequenceFor,
+} from '../utils/ics.js';
+
+const encoder = new TextEncoder();
+
+const APPOINTMENT = {
+  id: 42,
+  start_datetime: '2026-11-02 15:00:00',
+  end_datetime: '2026-11-02 15:30:00',
+  create_datetime: '2026-10-01 09:00:00',
+  update_datetime: null,
+  location: 'room-abc',
+  status: 'Booked',
+  service_name: 'Follow-up',
+  doctor_first_name: 'Anna',
+  doctor_last_name: 'Smith',
+};
+
+describe('escapeIcsText', () => {
+  it('escapes backslashes, newlines, commas and semicolons', () => {
+    expect(escapeIcsText('a\\b\nc,d;e\r\nf')).toBe('a\\\\b\\nc\\,d\\;e\\nf');
+  });
+
+  it('treats null and undefined as empty text', () => {
+    expect(escapeIcsText(null)).toBe('');
+    expect(escapeIcsText(undefined)).toBe('');
+  });
+});
+
+describe('foldIcsLine', () => {
+  it('leaves lines of up to 75 octets alone', () => {
+    const line = `SUMMARY:${'x'.repeat(67)}`;
+    expect(foldIcsLine(line)).toBe(line);
+  });
+
+  it('folds long lines into 75-octet pieces continued by a space', () => {
+    const line = `DESCRIPTION:${'x'.repeat(200)}`;
+    const parts = foldIcsLine(line).split('\r\n');
+
+    expect(parts.length).toBeGreaterThan(1);
+    for (const part of parts) expect(encoder.encode(part).length).toBeLessThanOrEqual(75);
+    expect(parts.slice(1).every((part) => part.startsWith(' '))).toBe(true);
+    expect(parts.map((part, index) => (index === 0 ? part : part.slice(1))).join('')).toBe(line);
+  });
+
+  it('never splits a multi-byte character', () => {
+    const line = `SUMMARY:${'é'.repeat(40)}${'🩺'.repeat(20)}`;
+    const parts = foldIcsLine(line).split('\r\n');
+
+    for (const part of parts) {
+      expect(encoder.encode(part).length).toBeLessThanOrEqual(75);
+      expect(part).not.toContain('�');
+    }
+    expect(parts.map((part, index) => (index === 0 ? part : part.slice(1))).join('')).toBe(line);
+  });
+});
+
+describe('sequenceFor', () => {
+  it('is 0 for appointments that were never updated', () => {
+    expect(sequenceFor(APPOINTMENT)).toBe(0);
+  });
+
+  it('counts the seconds between creation and the last update', () => {
+    expect(sequenceFor({ ...APPOINTMENT, update_datetime: '2026-10-01 09:01:30' })).toBe(90);
+  });
+
+  it('never goes negative', () => {
+    expect(sequenceFor({ ...APPOINTMENT, update_datetime: '2026-09-30 09:00:00' })).toBe(0);
+  });
+});
+
+describe('buildAppointmentEvent', () => {
+  it('marks cancelled appointments and links the video room', () => {
+    const lines = buildAppointmentEvent(
+      { ...APPOINTMENT, status: 'Cancelled' },
+      { baseUrl: 'https://example.test', now: new Date('2026-10-19T12:00:00Z') },
+    );
+
+    expect(lines).toContain('UID:appointment-42@scheduler.limbo.health');
+    expect(lines).toContain('DTSTART:20261102T150000Z');
+    expect(lines).toContain('STATUS:CANCELLED');
+    expect(lines).toContain('SUMMARY:Cancelled: Follow-up with Anna Smith');
+    expect(lines).toContain('URL:https://example.test/video-call?room=room-abc');
+  });
+
+  it('builds a CRLF calendar with folded lines', () => {
+    const body = buildCalendar([buildAppointmentEvent(APPOINTMENT)], { name: 'Appointments', refreshMinutes: 60 });
+
+    expect(body.startsWith('BEGIN:VCALENDAR\r\n')).toBe(true);
+    expect(body.endsWith('END:VCALENDAR\r\n')).toBe(true);
+    expect(body).toContain('REFRESH-INTERVAL;VALUE=DURATION:PT60M');
+  });
+});
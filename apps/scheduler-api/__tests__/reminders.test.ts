@@ -0,0 +1,116 @@
+/**
+ * apps/scheduler-api/__tests__/reminders.test.ts
+ *
+ * Unit coverage for appointment reminder scheduling: lead time parsing,
+ * which reminders are due, when the job runs, and the message text.
+ */
+import { afterEach, describe, it, expect, vi } from 'vitest';
+
+vi.mock('../config/database.js', () => ({ pool: { execute: vi.fn() } }));
+vi.mock('../utils/nostr-dm.js', () => ({
+  isNostrDMConfigured: vi.fn(() => false),
+  sendNostrDM: vi.fn(),
+}));
+
+import {
+  DEFAULT_REMINDER_CHANNEL,
+  MAX_REMINDER_LEAD_MINUTES,
+  buildReminderMessage,
+  dueReminderLeads,
+  isReminderDeliveryConfigured,
+  parseLeadMinutes,
+} from '../services/ReminderService.js';
+import { isNostrDMConfigured } from '../utils/nostr-dm.js';
+
+const MINUTE = 60_000;
+const NOW = new Date('2026-11-01T12:00:00Z');
+
+describe('parseLeadMinutes', () => {
+  it('parses comma lists and arrays, largest first without duplicates', () => {
+    expect(parseLeadMinutes('60, 1440,60')).toEqual([1440, 60]);
+    expect(parseLeadMinutes([15, '120'])).toEqual([120, 15]);
+  });
+
+  it('drops invalid and out-of-range values', () => {
+    expect(parseLeadMinutes(`abc,0,-5,${MAX_REMINDER_LEAD_MINUTES + 1},30`)).toEqual([30]);
+    expect(parseLeadMinutes(null)).toEqual([]);
+  });
+});
+
+describe('dueReminderLeads', () => {
+  const leads = [1440, 60, 15];
+
+  it('returns nothing before the first lead time', () => {
+    expect(dueReminderLeads(NOW.getTime() + 2 * 1440 * MINUTE, NOW.getTime(), leads)).toEqual([]);
+  });
+
+  it('returns every lead that is due at once, so one reminder covers them', () => {
+    const start = NOW.getTime() + 10 * MINUTE;
+    expect(dueReminderLeads(start, NOW.getTime(), leads)).toEqual([1440, 60, 15]);
+  });
+
+  it('skips leads that were already handled', () => {
+    const start = NOW.getTime() + 30 * MINUTE;
+    expect(dueReminderLeads(start, NOW.getTime(), leads, [1440])).toEqual([60]);
+  });
+
+  it('returns nothing once the appointment has started', () => {
+    expect(dueReminderLeads(NOW.getTime(), NOW.getTime(), leads)).toEqual([]);
+    expect(dueReminderLeads(NOW.getTime() - MINUTE, NOW.getTime(), leads)).toEqual([]);
+  });
+});
+
+describe('reminder delivery', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.mocked(isNostrDMConfigured).mockReturnValue(false);
+  });
+
+  it('is off unless the patient opts in', () => {
+    expect(DEFAULT_REMINDER_CHANNEL).toBe('off');
+  });
+
+  it('needs a Nostr key or an email relay before the job can run', () => {
+    vi.stubEnv('REMINDER_EMAIL_WEBHOOK_URL', '');
+    expect(isReminderDeliveryConfigured()).toBe(false);
+
+    vi.mocked(isNostrDMConfigured).mockReturnValue(true);
+    expect(isReminderDeliveryConfigured()).toBe(true);
+
+    vi.mocked(isNostrDMConfigured).mockReturnValue(false);
+    vi.stubEnv('REMINDER_EMAIL_WEBHOOK_URL', 'https://mail.example.test/send');
+    expect(isReminderDeliveryConfigured()).toBe(true);
+  });
+});
+
+describe('buildReminderMessage', () => {
+  const appointment = {
+    start_datetime: '2026-11-01 13:00:00',
+    location: 'room 7',
+    service_name: 'Follow-up',
+    doctor_first_name: 'Anna',
+    doctor_last_name: 'Smith',
+    customer_timezone: 'America/Chicago',
+  };
+
+  it('says when the appointment is, in the patient timezone, with the video link', () => {
+    const message = buildReminderMessage(appointment, NOW);
+
+    expect(message.subject).toBe('Appointment reminder: Follow-up with Anna Smith');
+    expect(message.text).toContain('Reminder: your Follow-up with Anna Smith appointment is in 60 minutes.');
+    expect(message.text).toContain('7:00 AM CST');
+    expect(message.roomUrl).toMatch(/\/video-call\?room=room%207$/);
+    expect(message.text).toContain(`Join the video visit: ${message.roomUrl}`);
+  });
+
+  it('falls back to UTC for an unknown timezone and rounds longer waits to days', () => {
+    const message = buildReminderMessage(
+      { ...appointment, location: null, customer_timezone: 'Mars/Olympus', start_datetime: '2026-11-03 12:00:00' },
+      NOW,
+    );
+
+    expect(message.text).toContain('is in 2 days.');
+    expect(message.text).toContain('12:00 PM UTC');
+    expect(message.roomUrl).toBeNull();
+  });
+});
@@ -283,6 +283,40 @@ CREATE TABLE `invoices` (
   CONSTRAINT `invoices_appointments` FOREIGN KEY (`appointment_id`) REFERENCES `appointments` (`id`) ON DELETE CASCADE ON UPDATE CASCADE
 ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
 
+-- ============================================================================
+-- CALENDAR FEEDS & REMINDERS
+-- ============================================================================
+
+CREATE TABLE calendar_feeds (
+  id INT AUTO_INCREMENT PRIMARY KEY,
+  id_users INT NOT NULL UNIQUE,
+  token_hash VARCHAR(64) UNIQUE NOT NULL,
+  create_datetime DATETIME DEFAULT NULL,
+  FOREIGN KEY (id_users) REFERENCES users(id) ON DELETE CASCADE
+);
+
+CREATE TABLE appointment_reminder_settings (
+  id_users_customer INT PRIMARY KEY,
+  channel VARCHAR(16) NOT NULL DEFAULT 'off',
+  lead_minutes JSON DEFAULT NULL,
+  update_datetime DATETIME DEFAULT NULL,
+  FOREIGN KEY (id_users_customer) REFERENCES users(id) ON DELETE CASCADE
+);
+
+CREATE TABLE appointment_reminders (
+  id INT AUTO_INCREMENT PRIMARY KEY,
+  appointment_id INT NOT NULL,
+  lead_minutes INT NOT NULL,
+  start_datetime DATETIME NOT NULL,
+  channel VARCHAR(16) NOT NULL,
+  status VARCHAR(16) NOT NULL,
+  attempts INT NOT NULL DEFAULT 0,
+  error TEXT,
+  sent_at DATETIME DEFAULT NULL,
+  UNIQUE KEY idx_reminder_once (appointment_id, lead_minutes, start_datetime),
+  FOREIGN KEY (appointment_id) REFERENCES appointments(id) ON DELETE CASCADE
+);
+
 -- ============================================================================
 -- ADMINISTRATIVE TABLES
 -- ============================================================================
@@ -1,37 +1,12 @@
 import { NostrWebLNProvider } from "@getalby/sdk";
-import { finalizeEvent } from 'nostr-tools/pure';
-import { SimplePool } from 'nostr-tools/pool';
-import { nip04, nip19 } from 'nostr-tools';
-import { hexToBytes } from '@noble/hashes/utils.js';
 
 import { pool } from '../config/database.js';
 import { validateAuthToken } from '../middleware/auth.js';
+import { sendNostrDM } from '../utils/nostr-dm.js';
 
 // Helper function for sending payment requests via Nostr DM (copied from admin-routes.js)
 async function sendInvoiceDM(patientPubkey, invoiceData) {
   try {
-    // Check if admin has Nostr keys configured
-    const adminPrivateKeyInput = process.env.ADMIN_NOSTR_PRIVATE_KEY;
-    if (!adminPrivateKeyInput) {
-      console.log('ADMIN_NOSTR_PRIVATE_KEY not configured, cannot send DMs');
-      throw new Error('ADMIN_NOSTR_PRIVATE_KEY not configured');
-    }
-
-    // Convert hex string to Uint8Array (32 bytes)
-    let adminPrivateKey;
-  
-    // Handle both nsec and hex formats
-    if (adminPrivateKeyInput.startsWith('nsec')) {
-      // Convert nsec to hex then to bytes
-      const { data: hexKey } = nip19.decode(adminPrivateKeyInput);
-      console.log('hexKey: ', hexKey);
-      adminPrivateKey = hexKey;
-    } else {
-      // Pad hex to 64 characters if needed (add leading zero)
-      const paddedHex = adminPrivateKeyInput.padStart(64, '0');
-      adminPrivateKey = hexToBytes(paddedHex);
-    }
-
     console.log('Sending invoice DM, payment request:', invoiceData.payment_request.substring(0, 20) + '...');
     
     // Create invoice DM content
@@ -48,35 +23,9 @@ async function sendInvoiceDM(patientPubkey, invoiceData) {
       message: `Invoice for your ${invoiceData.service_name} appointment\n\nAmount: ${invoiceData.amount_sats} sats\nPayment Request: ${invoiceData.payment_request}\n\nPlease pay this invoice to complete your appointment payment.`
     });
 
-    // Encrypt the DM content
-    const encryptedContent = await nip04.encrypt(adminPrivateKey, patientPubkey, dmContent);
-
-    // Create and finalize the DM event (v2+ syntax)
-    const eventTemplate = {
-      kind: 4, // Encrypted Direct Message
-      created_at: Math.floor(Date.now() / 1000),
-      tags: [['p', patientPubkey]],
-      content: encryptedContent
-    };
-
-    // finalizeEvent calculates pubkey, id, and signature in one step
-    const signedEvent = finalizeEvent(eventTemplate, adminPrivateKey);
-
-    // Send to Nostr relays
-    const pool = new SimplePool();
-    const relays = [
-      'wss://relay.damus.io',
-      'wss://nos.lol', 
-      'wss://relay.snort.social'
-    ];
-
     console.log(`Sending invoice DM to patient ${patientPubkey.substring(0, 8)}...`);
-    
-    // Use Promise.any instead of Promise.allSettled for better error handling
-    await Promise.any(pool.publish(relays, signedEvent));
-    
+    await sendNostrDM(patientPubkey, dmContent);
     console.log('Invoice DM sent successfully');
-    pool.close(relays);
 
   } catch (error) {
     console.error('Failed to send payment request DM:', error);
@@ -0,0 +1,313 @@
+import { createHash, randomBytes } from 'node:crypto';
+import { pool } from '../config/database.js';
+import { authenticateSession } from '../middleware/auth.js';
+import { buildAppointmentEvent, buildCalendar, icsResponse } from '../utils/ics.js';
+import {
+  DEFAULT_LEAD_MINUTES,
+  DEFAULT_REMINDER_CHANNEL,
+  MAX_REMINDER_LEAD_MINUTES,
+  REMINDER_CHANNELS,
+  parseLeadMinutes
+} from '../services/ReminderService.js';
+
+const BASE_URL = process.env.BASE_URL || 'https://plebdoc.com';
+const FEED_HISTORY_DAYS = 90;
+const FEED_REFRESH_MINUTES = 60;
+
+const APPOINTMENT_COLUMNS = `
+  a.id,
+  a.start_datetime,
+  a.end_datetime,
+  a.create_datetime,
+  a.update_datetime,
+  a.location,
+  a.status,
+  doctor.first_name as doctor_first_name,
+  doctor.last_name as doctor_last_name,
+  s.name as service_name
+`;
+
+// Only a hash is stored; the feed URL is shown to the patient once.
+const hashFeedToken = (token) => createHash('sha256').update(token).digest('hex');
+
+const feedUrlFor = (token) => `${BASE_URL}/api/calendar/feeds/${token}.ics`;
+
+// Same identity rules as GET /api/patients/appointments: Nostr patients only for now
+async function resolvePatient(req, res, connection) {
+  const authResult = authenticateSession(req);
+  if (!authResult.success) {
+    return {
+      error: res.status(401).json({
+        success: false,
+        error: authResult.error || 'Authentication required'
+      })
+    };
+  }
+
+  const { authMethod, metadata } = authResult.user;
+  if (authMethod !== 'nostr') {
+    return {
+      error: res.status(400).json({
+        success: false,
+        error: 'Only Nostr-authenticated users can access appointments currently'
+      })
+    };
+  }
+
+  const [userRows] = await connection.execute(`
+    SELECT id FROM users WHERE nostr_pubkey = ?
+  `, [metadata.pubkey]);
+
+  if (userRows.length === 0) {
+    return {
+      error: res.status(403).json({
+        success: false,
+        error: 'User not found for this pubkey'
+      })
+    };
+  }
+
+  return { userId: userRows[0].id };
+}
+
+export function setupCalendarRoutes(app) {
+
+  // Single appointment as an .ics download
+  app.get('/api/patients/appointments/:id/ics', async (req, res) => {
+    let connection;
+    try {
+      connection = await pool.getConnection();
+      const patient = await resolvePatient(req, res, connection);
+      if (patient.error) return patient.error;
+
+      const [rows] = await connection.execute(`
+        SELECT ${APPOINTMENT_COLUMNS}
+        FROM appointments a
+        JOIN users doctor ON doctor.id = a.id_users_provider
+        LEFT JOIN services s ON s.id = a.id_services
+        WHERE a.id = ? AND a.id_users_customer = ?
+      `, [req.params.id, patient.userId]);
+
+      if (rows.length === 0) {
+        return res.status(404).json({
+          success: false,
+          error: 'Appointment not found'
+        });
+      }
+
+      const body = buildCalendar([buildAppointmentEvent(rows[0], { baseUrl: BASE_URL })]);
+      return icsResponse(body, `appointment-${rows[0].id}.ics`);
+
+    } catch (error) {
+      console.error('Error building appointment ICS:', error);
+      return res.status(500).json({
+        success: false,
+        error: 'Failed to build calendar file'
+      });
+    } finally {
+      if (connection) connection.release();
+    }
+  });
+
+  // Whether the patient has a calendar feed
+  app.get('/api/patients/calendar-feed', async (req, res) => {
+    let connection;
+    try {
+      connection = await pool.getConnection();
+      const patient = await resolvePatient(req, res, connection);
+      if (patient.error) return patient.error;
+
+      const [rows] = await connection.execute(`
+        SELECT create_datetime FROM calendar_feeds WHERE id_users = ?
+      `, [patient.userId]);
+
+      return res.json({
+        success: true,
+        active: rows.length > 0,
+        createdAt: rows[0]?.create_datetime ?? null
+      });
+
+    } catch (error) {
+      console.error('Error reading calendar feed:', error);
+      return res.status(500).json({
+        success: false,
+        error: 'Failed to read calendar feed'
+      });
+    } finally {
+      if (connection) connection.release();
+    }
+  });
+
+  // Create the feed, or replace its URL (the old one stops working)
+  app.post('/api/patients/calendar-feed', async (req, res) => {
+    let connection;
+    try {
+      connection = await pool.getConnection();
+      const patient = await resolvePatient(req, res, connection);
+      if (patient.error) return patient.error;
+
+      const token = randomBytes(32).toString('base64url');
+      await connection.execute(`
+        INSERT INTO calendar_feeds (id_users, token_hash, create_datetime)
+        VALUES (?, ?, NOW())
+        ON CONFLICT (id_users) DO UPDATE SET
+          token_hash = EXCLUDED.token_hash,
+          create_datetime = EXCLUDED.create_datetime
+      `, [patient.userId, hashFeedToken(token)]);
+
+      const feedUrl = feedUrlFor(token);
+      return res.json({
+        success: true,
+        feedUrl,
+        webcalUrl: feedUrl.replace(/^https?:/, 'webcal:')
+      });
+
+    } catch (error) {
+      console.error('Error creating calendar feed:', error);
+      return res.status(500).json({
+        success: false,
+        error: 'Failed to create calendar feed'
+      });
+    } finally {
+      if (connection) connection.release();
+    }
+  });
+
+  app.delete('/api/patients/calendar-feed', async (req, res) => {
+    let connection;
+    try {
+      connection = await pool.getConnection();
+      const patient = await resolvePatient(req, res, connection);
+      if (patient.error) return patient.error;
+
+      await connection.execute('DELETE FROM calendar_feeds WHERE id_users = ?', [patient.userId]);
+      return res.json({ success: true });
+
+    } catch (error) {
+      console.error('Error revoking calendar feed:', error);
+      return res.status(500).json({
+        success: false,
+        error: 'Failed to revoke calendar feed'
+      });
+    } finally {
+      if (connection) connection.release();
+    }
+  });
+
+  // Subscribed calendar feed. The token in the URL is the only credential,
+  // since calendar apps can't send a bearer token. Built from the current
+  // rows on every fetch, so reschedules and cancellations show up on the
+  // next refresh (SEQUENCE follows update_datetime).
+  app.get('/api/calendar/feeds/:token', async (req, res) => {
+    let connection;
+    try {
+      const token = req.params.token.replace(/\.ics$/, '');
+      connection = await pool.getConnection();
+
+      const [feeds] = await connection.execute(`
+        SELECT id_users FROM calendar_feeds WHERE token_hash = ?
+      `, [hashFeedToken(token)]);
+
+      if (feeds.length === 0) {
+        return res.status(404).json({ error: 'Calendar feed not found' });
+      }
+
+      const [rows] = await connection.execute(`
+        SELECT ${APPOINTMENT_COLUMNS}
+        FROM appointments a
+        JOIN users doctor ON doctor.id = a.id_users_provider
+        LEFT JOIN services s ON s.id = a.id_services
+        WHERE a.id_users_customer = ?
+          AND a.is_unavailability = false
+          AND a.start_datetime >= NOW() - make_interval(days => ?)
+        ORDER BY a.start_datetime ASC
+      `, [feeds[0].id_users, FEED_HISTORY_DAYS]);
+
+      const now = new Date();
+      const body = buildCalendar(
+        rows.map((row) => buildAppointmentEvent(row, { baseUrl: BASE_URL, now })),
+        { name: 'Limbo Health appointments', refreshMinutes: FEED_REFRESH_MINUTES }
+      );
+      return icsResponse(body);
+
+    } catch (error) {
+      console.error('Error serving calendar feed:', error);
+      return res.status(500).json({ error: 'Failed to build calendar feed' });
+    } finally {
+      if (connection) connection.release();
+    }
+  });
+
+  // Reminder preferences: channel and lead times
+  app.get('/api/patients/appointments/reminders', async (req, res) => {
+    let connection;
+    try {
+      connection = await pool.getConnection();
+      const patient = await resolvePatient(req, res, connection);
+      if (patient.error) return patient.error;
+
+      const [rows] = await connection.execute(`
+        SELECT channel, lead_minutes FROM appointment_reminder_settings WHERE id_users_customer = ?
+      `, [patient.userId]);
+
+      return res.json({
+        success: true,
+        channel: rows[0]?.channel ?? DEFAULT_REMINDER_CHANNEL,
+        leadMinutes: rows[0]?.lead_minutes ? parseLeadMinutes(rows[0].lead_minutes) : DEFAULT_LEAD_MINUTES
+      });
+
+    } catch (error) {
+      console.error('Error reading reminder settings:', error);
+      return res.status(500).json({
+        success: false,
+        error: 'Failed to read reminder settings'
+      });
+    } finally {
+      if (connection) connection.release();
+    }
+  });
+
+  app.put('/api/patients/appointments/reminders', async (req, res) => {
+    let connection;
+    try {
+      const { channel, leadMinutes } = req.body || {};
+      if (!REMINDER_CHANNELS.includes(channel)) {
+        return res.status(400).json({
+          success: false,
+          error: `channel must be one of: ${REMINDER_CHANNELS.join(', ')}`
+        });
+      }
+      const leads = leadMinutes === undefined ? DEFAULT_LEAD_MINUTES : parseLeadMinutes(leadMinutes);
+      if (channel !== 'off' && leads.length === 0) {
+        return res.status(400).json({
+          success: false,
+          error: `leadMinutes must include at least one value between 1 and ${MAX_REMINDER_LEAD_MINUTES}`
+        });
+      }
+
+      connection = await pool.getConnection();
+      const patient = await resolvePatient(req, res, connection);
+      if (patient.error) return patient.error;
+
+      await connection.execute(`
+        INSERT INTO appointment_reminder_settings (id_users_customer, channel, lead_minutes, update_datetime)
+        VALUES (?, ?, ?, NOW())
+        ON CONFLICT (id_users_customer) DO UPDATE SET
+          channel = EXCLUDED.channel,
+          lead_minutes = EXCLUDED.lead_minutes,
+          update_datetime = EXCLUDED.update_datetime
+      `, [patient.userId, channel, leads]);
+
+      return res.json({ success: true, channel, leadMinutes: leads });
+
+    } catch (error) {
+      console.error('Error saving reminder settings:', error);
+      return res.status(500).json({
+        success: false,
+        error: 'Failed to save reminder settings'
+      });
+    } finally {
+      if (connection) connection.release();
+    }
+  });
+}
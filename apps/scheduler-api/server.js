@@ -5,6 +5,8 @@ import { setupWebRTCRoutes } from './routes/webrtc.js';
 import { setupBillingRoutes } from './routes/billing.js';
 import { setupGoogleRoutes } from './routes/google-auth.js';
 import { setupUserKeysRoutes } from './routes/user-keys.js';
+import { setupCalendarRoutes } from './routes/calendar.js';
+import { isReminderDeliveryConfigured, reminderService } from './services/ReminderService.js';
 import { ensureCoreDatabaseReady } from '../../packages/core-db/bootstrap.mjs';
 import { pool } from './config/database.js';
 
@@ -44,6 +46,8 @@ console.log('🔧 Setting up Billing Routes');
 setupBillingRoutes(app);
 console.log('🔧 Setting up User Key Routes');
 setupUserKeysRoutes(app);
+console.log('🔧 Setting up Calendar Routes');
+setupCalendarRoutes(app);
 
 console.log(`📋 Registered routes:`, {
   GET: Array.from(routes.GET.keys()),
@@ -159,6 +163,14 @@ const server = Bun.serve({
 console.log(`🚀 Plebdoc Appointments Service running on port ${PORT}`);
 console.log('✅ Core database ready:', coreDatabaseSummary);
 
+if (process.env.APPOINTMENT_REMINDERS_ENABLED === 'false') {
+  console.log('⏰ Appointment reminders disabled');
+} else if (!isReminderDeliveryConfigured()) {
+  console.log('⏰ Appointment reminders off: set ADMIN_NOSTR_PRIVATE_KEY or REMINDER_EMAIL_WEBHOOK_URL to send them');
+} else {
+  reminderService.start();
+}
+
 // Helper functions (same as before)
 function matchPath(pathname, pattern) {
   if (pattern.includes(':')) {
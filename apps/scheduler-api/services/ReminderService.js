@@ -0,0 +1,249 @@
+import { pool } from '../config/database.js';
+import { appointmentTitle, toUtcDate } from '../utils/ics.js';
+import { isNostrDMConfigured, sendNostrDM } from '../utils/nostr-dm.js';
+
+const BASE_URL = process.env.BASE_URL || 'https://plebdoc.com';
+
+// Reminders are opt-in: patients without a settings row get none.
+export const REMINDER_CHANNELS = ['nostr', 'email', 'off'];
+export const DEFAULT_REMINDER_CHANNEL = 'off';
+// Longest lead time a patient can pick (7 days); also the job's look-ahead window
+export const MAX_REMINDER_LEAD_MINUTES = 7 * 24 * 60;
+const MAX_SEND_ATTEMPTS = 3;
+
+/**
+ * Parse lead times ("1440,60" or [1440, 60]) into whole minutes, largest
+ * first. Invalid and out-of-range values are dropped.
+ */
+export function parseLeadMinutes(value) {
+  const values = Array.isArray(value) ? value : String(value ?? '').split(',');
+  const minutes = values
+    .map((v) => Number.parseInt(String(v).trim(), 10))
+    .filter((v) => Number.isInteger(v) && v > 0 && v <= MAX_REMINDER_LEAD_MINUTES);
+  return [...new Set(minutes)].sort((a, b) => b - a);
+}
+
+export const DEFAULT_LEAD_MINUTES = parseLeadMinutes(process.env.APPOINTMENT_REMINDER_LEAD_MINUTES || '1440,60');
+
+/**
+ * Lead times whose reminder is due at `nowMs` and has not been handled yet.
+ * When several are due at once (a late booking, or the job was down) one
+ * reminder covers all of them.
+ */
+export function dueReminderLeads(startMs, nowMs, leadMinutes, handledLeads = []) {
+  if (startMs <= nowMs) return [];
+  return leadMinutes.filter((lead) => (
+    startMs - lead * 60_000 <= nowMs && !handledLeads.includes(lead)
+  ));
+}
+
+function formatTimeUntil(ms) {
+  const minutes = Math.max(1, Math.round(ms / 60_000));
+  if (minutes < 90) return `in ${minutes} minute${minutes === 1 ? '' : 's'}`;
+  const hours = Math.round(minutes / 60);
+  if (hours < 36) return `in ${hours} hours`;
+  const days = Math.round(hours / 24);
+  return `in ${days} day${days === 1 ? '' : 's'}`;
+}
+
+function formatLocalTime(date, timezone) {
+  // dateStyle/timeStyle cannot be combined with timeZoneName
+  const options = {
+    weekday: 'long',
+    year: 'numeric',
+    month: 'long',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+    timeZoneName: 'short'
+  };
+  try {
+    return new Intl.DateTimeFormat('en-US', { ...options, timeZone: timezone || 'UTC' }).format(date);
+  } catch {
+    // Unknown timezone on the user row
+    return new Intl.DateTimeFormat('en-US', { ...options, timeZone: 'UTC' }).format(date);
+  }
+}
+
+// The job only runs when at least one channel can actually deliver.
+export function isReminderDeliveryConfigured() {
+  return isNostrDMConfigured() || !!process.env.REMINDER_EMAIL_WEBHOOK_URL;
+}
+
+export function buildReminderMessage(appointment, now = new Date()) {
+  const start = toUtcDate(appointment.start_datetime);
+  const title = appointmentTitle(appointment);
+  const roomUrl = appointment.location ? `${BASE_URL}/video-call?room=${encodeURIComponent(appointment.location)}` : null;
+  const lines = [
+    `Reminder: your ${title} appointment is ${formatTimeUntil(start.getTime() - now.getTime())}.`,
+    formatLocalTime(start, appointment.customer_timezone),
+  ];
+  if (roomUrl) lines.push('', `Join the video visit: ${roomUrl}`);
+  return { subject: `Appointment reminder: ${title}`, text: lines.join('\n'), roomUrl };
+}
+
+export class ReminderService {
+  constructor({ intervalMs = Number(process.env.APPOINTMENT_REMINDER_INTERVAL_MS) || 5 * 60 * 1000 } = {}) {
+    this.intervalMs = intervalMs;
+    this.timer = null;
+    this.running = false;
+  }
+
+  start() {
+    if (this.timer) return;
+    console.log(`⏰ Appointment reminders every ${Math.round(this.intervalMs / 1000)}s, default leads: ${DEFAULT_LEAD_MINUTES.join(', ')} min`);
+    this.timer = setInterval(() => {
+      this.runOnce().catch((error) => console.error('Reminder run failed:', error));
+    }, this.intervalMs);
+  }
+
+  stop() {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+  }
+
+  // Send every reminder that is due now. Skips a run while the previous one is still going.
+  async runOnce(now = new Date()) {
+    if (this.running) return { sent: 0, failed: 0 };
+    this.running = true;
+    let sent = 0;
+    let failed = 0;
+
+    try {
+      const [appointments] = await pool.execute(`
+        SELECT
+          a.id,
+          a.start_datetime,
+          a.end_datetime,
+          a.location,
+          a.status,
+          s.name as service_name,
+          doctor.first_name as doctor_first_name,
+          doctor.last_name as doctor_last_name,
+          c.email as customer_email,
+          c.nostr_pubkey as customer_pubkey,
+          c.timezone as customer_timezone,
+          rs.channel as reminder_channel,
+          rs.lead_minutes as reminder_lead_minutes,
+          COALESCE((
+            SELECT json_agg(json_build_object('lead', r.lead_minutes, 'status', r.status, 'attempts', r.attempts))
+            FROM appointment_reminders r
+            WHERE r.appointment_id = a.id AND r.start_datetime = a.start_datetime
+          ), '[]'::json) as reminders
+        FROM appointments a
+        JOIN users c ON c.id = a.id_users_customer
+        JOIN users doctor ON doctor.id = a.id_users_provider
+        LEFT JOIN services s ON s.id = a.id_services
+        JOIN appointment_reminder_settings rs ON rs.id_users_customer = c.id
+        WHERE a.is_unavailability = false
+          AND rs.channel <> 'off'
+          AND COALESCE(a.status, '') NOT ILIKE 'cancel%'
+          AND a.start_datetime > NOW()
+          AND a.start_datetime <= NOW() + make_interval(mins => ?)
+      `, [MAX_REMINDER_LEAD_MINUTES]);
+
+      for (const appointment of appointments) {
+        const channel = appointment.reminder_channel;
+
+        const leads = appointment.reminder_lead_minutes
+          ? parseLeadMinutes(appointment.reminder_lead_minutes)
+          : DEFAULT_LEAD_MINUTES;
+        const handled = appointment.reminders
+          .filter((r) => r.status !== 'failed' || r.attempts >= MAX_SEND_ATTEMPTS)
+          .map((r) => r.lead);
+        const due = dueReminderLeads(toUtcDate(appointment.start_datetime).getTime(), now.getTime(), leads, handled);
+        if (due.length === 0) continue;
+
+        let status = 'sent';
+        let error = null;
+        let usedChannel = channel;
+        try {
+          usedChannel = await this.sendReminder(appointment, channel, now);
+        } catch (sendError) {
+          console.error(`Failed to send reminder for appointment ${appointment.id}:`, sendError);
+          status = 'failed';
+          error = sendError.message;
+        }
+
+        for (const lead of due) {
+          await pool.execute(`
+            INSERT INTO appointment_reminders (appointment_id, lead_minutes, start_datetime, channel, status, attempts, error, sent_at)
+            VALUES (?, ?, (SELECT start_datetime FROM appointments WHERE id = ?), ?, ?, 1, ?, NOW())
+            ON CONFLICT (appointment_id, lead_minutes, start_datetime) DO UPDATE SET
+              channel = EXCLUDED.channel,
+              status = EXCLUDED.status,
+              attempts = appointment_reminders.attempts + 1,
+              error = EXCLUDED.error,
+              sent_at = EXCLUDED.sent_at
+          `, [appointment.id, lead, appointment.id, usedChannel, status, error]);
+        }
+        if (status === 'sent') sent += 1;
+        else failed += 1;
+      }
+
+      if (sent || failed) console.log(`⏰ Appointment reminders: ${sent} sent, ${failed} failed`);
+      return { sent, failed };
+    } finally {
+      this.running = false;
+    }
+  }
+
+  // Returns the channel actually used. Nostr falls back to email when the
+  // patient has no pubkey (OAuth accounts).
+  async sendReminder(appointment, channel, now) {
+    const message = buildReminderMessage(appointment, now);
+
+    if (channel === 'nostr' && appointment.customer_pubkey && isNostrDMConfigured()) {
+      await sendNostrDM(appointment.customer_pubkey, JSON.stringify({
+        type: 'appointment_reminder',
+        version: '1.0',
+        appointment: {
+          id: appointment.id,
+          service: appointment.service_name,
+          start_datetime: toUtcDate(appointment.start_datetime).toISOString(),
+          end_datetime: appointment.end_datetime ? toUtcDate(appointment.end_datetime).toISOString() : null,
+          video_room_url: message.roomUrl
+        },
+        message: message.text
+      }));
+      return 'nostr';
+    }
+
+    if (appointment.customer_email) {
+      await this.sendEmail(appointment.customer_email, message.subject, message.text);
+      return 'email';
+    }
+
+    throw new Error(`No way to reach the patient by ${channel}`);
+  }
+
+  // Email goes through an HTTP relay (REMINDER_EMAIL_WEBHOOK_URL) that accepts
+  // { to, from, subject, text } as JSON.
+  async sendEmail(to, subject, text) {
+    const url = process.env.REMINDER_EMAIL_WEBHOOK_URL;
+    if (!url) {
+      throw new Error('REMINDER_EMAIL_WEBHOOK_URL not configured');
+    }
+
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(process.env.REMINDER_EMAIL_WEBHOOK_TOKEN
+          ? { Authorization: `Bearer ${process.env.REMINDER_EMAIL_WEBHOOK_TOKEN}` }
+          : {})
+      },
+      body: JSON.stringify({
+        to,
+        from: process.env.REMINDER_EMAIL_FROM || 'reminders@limbo.health',
+        subject,
+        text
+      })
+    });
+    if (!response.ok) {
+      throw new Error(`Email relay responded ${response.status}`);
+    }
+  }
+}
+
+export const reminderService = new ReminderService();
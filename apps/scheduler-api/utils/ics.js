@@ -0,0 +1,125 @@
+// iCalendar (RFC 5545) output for patient appointments.
+// Used for single-appointment downloads and the per-patient subscription feed.
+
+const PRODUCT_ID = '-//Limbo Health//Scheduler//EN';
+const UID_DOMAIN = 'scheduler.limbo.health';
+const MAX_LINE_OCTETS = 75;
+
+const encoder = new TextEncoder();
+
+// Appointment times are stored as UTC wall-clock timestamps (see verify-booking).
+export function toUtcDate(value) {
+  return value instanceof Date ? value : new Date(`${String(value).replace(' ', 'T')}Z`);
+}
+
+export function formatIcsDate(value) {
+  return toUtcDate(value).toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+export function escapeIcsText(value) {
+  return String(value ?? '')
+    .replace(/\\/g, '\\\\')
+    .replace(/\r?\n/g, '\\n')
+    .replace(/([,;])/g, '\\$1');
+}
+
+// Lines longer than 75 octets continue on the next line after a space,
+// without splitting a multi-byte character.
+export function foldIcsLine(line) {
+  if (encoder.encode(line).length <= MAX_LINE_OCTETS) return line;
+
+  const parts = [];
+  let current = '';
+  let currentOctets = 0;
+  for (const char of line) {
+    const octets = encoder.encode(char).length;
+    const limit = parts.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+    if (currentOctets + octets > limit) {
+      parts.push(current);
+      current = '';
+      currentOctets = 0;
+    }
+    current += char;
+    currentOctets += octets;
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+}
+
+export function isCancelledAppointment(appointment) {
+  return /^cancel/i.test(appointment.status || '');
+}
+
+// Calendar clients replace an event when its SEQUENCE goes up; seconds
+// between creation and the last update always do.
+export function sequenceFor(appointment) {
+  if (!appointment.update_datetime || !appointment.create_datetime) return 0;
+  const created = toUtcDate(appointment.create_datetime).getTime();
+  const updated = toUtcDate(appointment.update_datetime).getTime();
+  return Math.max(0, Math.floor((updated - created) / 1000));
+}
+
+export function appointmentTitle(appointment) {
+  const doctor = [appointment.doctor_first_name, appointment.doctor_last_name].filter(Boolean).join(' ');
+  const service = appointment.service_name || 'Appointment';
+  return doctor ? `${service} with ${doctor}` : service;
+}
+
+/**
+ * VEVENT lines for one appointment row. Expects the columns selected by
+ * the calendar routes (start/end/create/update datetimes, status, location,
+ * service_name, doctor_first_name, doctor_last_name).
+ */
+export function buildAppointmentEvent(appointment, { baseUrl, now = new Date() } = {}) {
+  const cancelled = isCancelledAppointment(appointment);
+  const roomUrl = appointment.location && baseUrl
+    ? `${baseUrl}/video-call?room=${encodeURIComponent(appointment.location)}`
+    : null;
+  const description = [
+    cancelled ? 'This appointment was cancelled.' : null,
+    roomUrl ? `Join the video visit: ${roomUrl}` : null,
+  ].filter(Boolean).join('\n');
+
+  const lines = [
+    'BEGIN:VEVENT',
+    `UID:appointment-${appointment.id}@${UID_DOMAIN}`,
+    `DTSTAMP:${formatIcsDate(now)}`,
+    `DTSTART:${formatIcsDate(appointment.start_datetime)}`,
+    `DTEND:${formatIcsDate(appointment.end_datetime || appointment.start_datetime)}`,
+    `SEQUENCE:${sequenceFor(appointment)}`,
+    `STATUS:${cancelled ? 'CANCELLED' : 'CONFIRMED'}`,
+    `SUMMARY:${escapeIcsText(cancelled ? `Cancelled: ${appointmentTitle(appointment)}` : appointmentTitle(appointment))}`,
+  ];
+  if (appointment.update_datetime) lines.push(`LAST-MODIFIED:${formatIcsDate(appointment.update_datetime)}`);
+  if (roomUrl) lines.push(`LOCATION:${escapeIcsText(roomUrl)}`, `URL:${roomUrl}`);
+  if (description) lines.push(`DESCRIPTION:${escapeIcsText(description)}`);
+  lines.push('END:VEVENT');
+  return lines;
+}
+
+export function buildCalendar(eventLines, { name, refreshMinutes = null } = {}) {
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODUCT_ID}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+  ];
+  if (name) lines.push(`X-WR-CALNAME:${escapeIcsText(name)}`);
+  if (refreshMinutes) {
+    lines.push(`REFRESH-INTERVAL;VALUE=DURATION:PT${refreshMinutes}M`, `X-PUBLISHED-TTL:PT${refreshMinutes}M`);
+  }
+  lines.push(...eventLines.flat(), 'END:VCALENDAR');
+  return lines.map(foldIcsLine).join('\r\n') + '\r\n';
+}
+
+export function icsResponse(body, filename) {
+  return new Response(body, {
+    headers: {
+      'Content-Type': 'text/calendar; charset=utf-8',
+      'Content-Disposition': `${filename ? 'attachment' : 'inline'}; filename="${filename || 'appointments.ics'}"`,
+      'Cache-Control': 'no-store',
+      'Access-Control-Allow-Origin': '*'
+    }
+  });
+}
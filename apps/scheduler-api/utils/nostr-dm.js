@@ -0,0 +1,53 @@
+import { finalizeEvent } from 'nostr-tools/pure';
+import { SimplePool } from 'nostr-tools/pool';
+import { nip04, nip19 } from 'nostr-tools';
+import { hexToBytes } from '@noble/hashes/utils.js';
+
+const DM_RELAYS = [
+  'wss://relay.damus.io',
+  'wss://nos.lol',
+  'wss://relay.snort.social'
+];
+
+// Admin key from ADMIN_NOSTR_PRIVATE_KEY, as nsec or hex
+function getAdminPrivateKey() {
+  const adminPrivateKeyInput = process.env.ADMIN_NOSTR_PRIVATE_KEY;
+  if (!adminPrivateKeyInput) {
+    console.log('ADMIN_NOSTR_PRIVATE_KEY not configured, cannot send DMs');
+    throw new Error('ADMIN_NOSTR_PRIVATE_KEY not configured');
+  }
+
+  // Handle both nsec and hex formats
+  if (adminPrivateKeyInput.startsWith('nsec')) {
+    const { data } = nip19.decode(adminPrivateKeyInput);
+    return data;
+  }
+  // Pad hex to 64 characters if needed (add leading zero)
+  return hexToBytes(adminPrivateKeyInput.padStart(64, '0'));
+}
+
+export function isNostrDMConfigured() {
+  return !!process.env.ADMIN_NOSTR_PRIVATE_KEY;
+}
+
+// Encrypt (NIP-04) and publish a kind 4 DM from the admin key to a patient
+export async function sendNostrDM(recipientPubkey, content) {
+  const adminPrivateKey = getAdminPrivateKey();
+  const encryptedContent = await nip04.encrypt(adminPrivateKey, recipientPubkey, content);
+
+  // finalizeEvent calculates pubkey, id, and signature in one step
+  const signedEvent = finalizeEvent({
+    kind: 4, // Encrypted Direct Message
+    created_at: Math.floor(Date.now() / 1000),
+    tags: [['p', recipientPubkey]],
+    content: encryptedContent
+  }, adminPrivateKey);
+
+  const pool = new SimplePool();
+  try {
+    // Use Promise.any instead of Promise.allSettled for better error handling
+    await Promise.any(pool.publish(DM_RELAYS, signedEvent));
+  } finally {
+    pool.close(DM_RELAYS);
+  }
+}
@@ -377,6 +377,37 @@ create table if not exists invoices (
 create index if not exists invoices_invoice_hash_idx on invoices (invoice_hash);
 create index if not exists invoices_appointment_id_idx on invoices (appointment_id);
 
+create table if not exists calendar_feeds (
+  id integer generated by default as identity primary key,
+  id_users integer not null unique references users(id) on delete cascade on update cascade,
+  token_hash text not null unique,
+  create_datetime timestamp
+);
+
+create table if not exists appointment_reminder_settings (
+  id_users_customer integer primary key references users(id) on delete cascade on update cascade,
+  channel text not null default 'off',
+  lead_minutes integer[],
+  update_datetime timestamp
+);
+
+-- One row per reminder lead time; start_datetime is the appointment start it was
+-- sent for, so a rescheduled appointment gets fresh reminders.
+create table if not exists appointment_reminders (
+  id integer generated by default as identity primary key,
+  appointment_id integer not null references appointments(id) on delete cascade on update cascade,
+  lead_minutes integer not null,
+  start_datetime timestamp not null,
+  channel text not null,
+  status text not null,
+  attempts integer not null default 0,
+  error text,
+  sent_at timestamp
+);
+
+create unique index if not exists appointment_reminders_unique_idx
+  on appointment_reminders (appointment_id, lead_minutes, start_datetime);
+
 create table if not exists secretaries_providers (
   id_users_secretary integer not null references users(id) on delete cascade on update cascade,
   id_users_provider integer not null references users(id) on delete cascade on update cascade,